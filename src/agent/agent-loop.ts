@@ -1,7 +1,43 @@
+import { randomUUID } from 'node:crypto'
 import type { Result } from '../result.js'
 import { ok, err } from '../result.js'
-import type { Message, Tool } from '../providers/types.js'
-import type { AgentLoopHandler, AgentLoopOptions, AgentLoopState } from './types.js'
+import type {
+  CompletionOptions,
+  LLMResponse,
+  Message,
+  MessageContent,
+  ResponseFormat,
+  ResponseMetadata,
+  StreamChunk,
+  ThinkingBlock,
+  TokenUsage,
+  Tool,
+  ToolCall,
+  ToolChoice,
+} from '../providers/types.js'
+import { parseStructuredOutput } from '../providers/structured-output.js'
+import { estimatePromptTokens } from '../providers/token-count.js'
+import type { SessionStore } from '../session/types.js'
+import type { ToolDefinition } from '../tools/types.js'
+import type { AgentLoopHandler, AgentLoopOptions, AgentLoopState, StepOptions } from './types.js'
+
+/** usageSource 未指定時に metadata のない応答を記録するプロバイダー/モデル */
+const UNKNOWN_USAGE_SOURCE: ResponseMetadata = { provider: 'unknown', model: 'unknown' }
+
+/** maxSchemaRetries 未指定時のスキーマ違反による再要求の上限 */
+const DEFAULT_MAX_SCHEMA_RETRIES = 2
+
+/** LLM 呼び出しのオプションを組み立てる（いずれも未指定なら undefined） */
+function toCompletionOptions(
+  responseFormat: ResponseFormat | undefined,
+  toolChoice: ToolChoice | undefined,
+): CompletionOptions | undefined {
+  if (responseFormat === undefined && toolChoice === undefined) return undefined
+  return {
+    ...(responseFormat !== undefined ? { responseFormat } : {}),
+    ...(toolChoice !== undefined ? { toolChoice } : {}),
+  }
+}
 
 /**
  * AgentLoop — LLMProvider + ToolRegistry を接続する対話ループ
@@ -11,12 +47,26 @@ import type { AgentLoopHandler, AgentLoopOptions, AgentLoopState } from './types
  */
 export class AgentLoop {
   private readonly options: Required<
-    Pick<AgentLoopOptions, 'provider' | 'tools' | 'handler' | 'maxToolRounds'>
+    Pick<AgentLoopOptions, 'provider' | 'tools' | 'handler' | 'maxToolRounds' | 'stream'>
   > &
-    Pick<AgentLoopOptions, 'signal'>
+    Pick<
+      AgentLoopOptions,
+      | 'signal'
+      | 'toolConcurrency'
+      | 'contextManager'
+      | 'sessionStore'
+      | 'approvalPolicy'
+      | 'usageLedger'
+      | 'usageSource'
+    >
 
   private state: AgentLoopState = 'idle'
   private readonly messages: Message[] = []
+  private readonly sessionId: string | undefined
+  /** sessionStore に保存済みのメッセージ数 */
+  private persistedCount = 0
+  /** 履歴が置き換えられ、セッション全体の書き直しが必要かどうか */
+  private needsRewrite = false
 
   constructor(opts: AgentLoopOptions) {
     this.options = {
@@ -25,13 +75,40 @@ export class AgentLoop {
       handler: opts.handler,
       maxToolRounds: opts.maxToolRounds ?? Infinity,
       signal: opts.signal,
+      stream: opts.stream ?? false,
+      toolConcurrency: opts.toolConcurrency,
+      contextManager: opts.contextManager,
+      sessionStore: opts.sessionStore,
+      approvalPolicy: opts.approvalPolicy,
+      usageLedger: opts.usageLedger,
+      usageSource: opts.usageSource,
     }
 
-    if (opts.systemMessage !== undefined) {
+    this.sessionId = opts.sessionId ?? (opts.sessionStore !== undefined ? randomUUID() : undefined)
+
+    if (opts.history !== undefined && opts.history.length > 0) {
+      this.messages.push(...opts.history)
+      this.persistedCount = opts.history.length
+    } else if (opts.systemMessage !== undefined) {
       this.messages.push({ role: 'system', content: opts.systemMessage })
     }
   }
 
+  /**
+   * 保存済みセッションから AgentLoop を復元する。
+   * 復元後のメッセージは同じセッションに追記される。
+   */
+  static async resume(
+    opts: AgentLoopOptions & { readonly sessionStore: SessionStore },
+    sessionId: string,
+  ): Promise<Result<AgentLoop>> {
+    const loaded = await opts.sessionStore.load(sessionId)
+    if (!loaded.ok) {
+      return loaded
+    }
+    return ok(new AgentLoop({ ...opts, sessionId, history: loaded.data }))
+  }
+
   /** 現在の状態 */
   getState(): AgentLoopState {
     return this.state
@@ -42,27 +119,83 @@ export class AgentLoop {
     return this.messages
   }
 
+  /** 永続化先のセッション ID（sessionStore 未指定時は undefined） */
+  getSessionId(): string | undefined {
+    return this.sessionId
+  }
+
+  /** 現在のメッセージ履歴とツール定義の推定入力トークン数（ローカルの推定値） */
+  getContextTokens(): number {
+    return estimatePromptTokens(this.messages, this.listTools())
+  }
+
+  /**
+   * 現在のメッセージ履歴とツール定義の入力トークン数を数える。
+   * プロバイダーが countTokens を実装していればそれを使い、なければ getContextTokens() を返す。
+   */
+  async countContextTokens(): Promise<Result<number>> {
+    const { provider } = this.options
+    if (provider.countTokens === undefined) {
+      return ok(this.getContextTokens())
+    }
+    return provider.countTokens(this.messages, this.listTools())
+  }
+
+  /** ToolRegistry のツール定義を LLM に渡す Tool[] に変換する */
+  private listTools(): Tool[] {
+    return this.options.tools.list().map((td) => ({
+      name: td.name,
+      description: td.description,
+      parameters: td.parameters,
+    }))
+  }
+
   /**
    * 1回の対話ターンを処理する。
    * ツール呼び出しがなくなるか maxToolRounds に達するまでループ。
+   * input には画像等を含むコンテンツパート配列も渡せる。
+   * usageLedger 指定時は、ターン終了時（失敗を含む）に onTurnUsage で集計結果を通知する。
+   * options.responseFormat 指定時は、スキーマで検証した最終応答を JSON テキストとして返す。
+   * options.toolChoice でツール呼び出しを制御できる（強制はターン最初の LLM 呼び出しのみ）。
    */
-  async step(input: string): Promise<Result<string>> {
+  async step(input: MessageContent, options: StepOptions = {}): Promise<Result<string>> {
+    const { usageLedger, handler } = this.options
+    usageLedger?.startTurn()
+
+    const result = await this.runTurn(input, options)
+
+    if (usageLedger !== undefined && handler.onTurnUsage) {
+      await handler.onTurnUsage(usageLedger.getSnapshot())
+    }
+    return result
+  }
+
+  /** step() の本体。ツール呼び出しがなくなるか maxToolRounds に達するまでループする */
+  private async runTurn(input: MessageContent, options: StepOptions): Promise<Result<string>> {
     // abort チェック
     if (this.options.signal?.aborted) {
       return err('Aborted')
     }
 
+    const { tools, handler, maxToolRounds } = this.options
+    const { responseFormat, toolChoice } = options
+
+    if (typeof toolChoice === 'object' && tools.get(toolChoice.name) === undefined) {
+      const errorMsg = `Unknown tool for toolChoice: ${toolChoice.name}`
+      await handler.onError(errorMsg)
+      return err(errorMsg)
+    }
+
     this.messages.push({ role: 'user', content: input })
+    await this.persist()
 
-    const { provider, tools, handler, maxToolRounds } = this.options
+    const llmTools = this.listTools()
 
-    // ToolDefinition[] → Tool[] 変換
-    const toolDefs = tools.list()
-    const llmTools: readonly Tool[] = toolDefs.map((td) => ({
-      name: td.name,
-      description: td.description,
-      parameters: td.parameters,
-    }))
+    // ツール呼び出しの強制（required / ツール指名）は最初の呼び出しにのみ適用し、
+    // ツール実行後は既定に戻す（同じツールを呼び続けるループを防ぐ）
+    let completionOptions = toCompletionOptions(responseFormat, toolChoice)
+    const maxSchemaRetries = options.maxSchemaRetries ?? DEFAULT_MAX_SCHEMA_RETRIES
+    let schemaRetries = 0
 
     let toolRound = 0
 
@@ -72,9 +205,18 @@ export class AgentLoop {
         return err('Aborted')
       }
 
+      // 使用量の上限チェック（上限に達していれば LLM を呼び出さずに停止する）
+      const budget = this.options.usageLedger?.checkBudget()
+      if (budget !== undefined && !budget.ok) {
+        await handler.onError(budget.error)
+        return budget
+      }
+
       await this.setState('thinking')
 
-      const llmResult = await provider.complete(this.messages, llmTools)
+      await this.compactContext()
+
+      const llmResult = await this.requestCompletion(llmTools, completionOptions)
 
       if (!llmResult.ok) {
         await handler.onError(llmResult.error)
@@ -83,17 +225,42 @@ export class AgentLoop {
 
       const response = llmResult.data
 
-      // usage 通知
-      if (response.usage && handler.onUsage) {
-        await handler.onUsage(response.usage)
-      }
+      await this.recordUsage(response)
+
+      await this.notifyReasoning(response)
+
+      // 推論ブロックは履歴に残す（Claude の署名付き thinking をツール呼び出し後に戻すため）
+      const thinkingField =
+        response.thinking && response.thinking.length > 0 ? { thinking: response.thinking } : {}
 
       // ツール呼び出しなし → テキスト応答で終了
       if (!response.toolCalls || response.toolCalls.length === 0) {
-        this.messages.push({ role: 'assistant', content: response.content })
-        await handler.onResponse(response.content)
+        this.messages.push({ role: 'assistant', content: response.content, ...thinkingField })
+        await this.persist()
+
+        // 構造化出力: スキーマ違反なら違反内容を伝えて再要求する
+        let content = response.content
+        if (responseFormat !== undefined) {
+          const parsed = parseStructuredOutput(response.content, responseFormat.schema)
+          if (!parsed.ok) {
+            if (schemaRetries >= maxSchemaRetries) {
+              await handler.onError(parsed.error)
+              return err(parsed.error)
+            }
+            schemaRetries++
+            this.messages.push({
+              role: 'user',
+              content: `${parsed.error}\nRespond again with only a JSON value that matches the required schema.`,
+            })
+            await this.persist()
+            continue
+          }
+          content = JSON.stringify(parsed.data)
+        }
+
+        await this.notifyResponse(response)
         await this.setState('idle')
-        return ok(response.content)
+        return ok(content)
       }
 
       // ツール呼び出しあり
@@ -101,47 +268,23 @@ export class AgentLoop {
         role: 'assistant',
         content: response.content,
         toolCalls: response.toolCalls,
+        ...thinkingField,
       })
+      await this.persist()
 
       // 中間テキストがあれば通知
       if (response.content) {
-        await handler.onResponse(response.content)
+        await this.notifyResponse(response)
       }
 
-      // 各ツール呼び出しを順番に実行
-      for (const toolCall of response.toolCalls) {
-        // abort チェック
-        if (this.options.signal?.aborted) {
-          return err('Aborted')
-        }
-
-        const tool = tools.get(toolCall.name)
-
-        if (!tool) {
-          // 未登録ツール → エラーメッセージをフィードバック
-          const errorOutput = `Tool not found: ${toolCall.name}`
-          this.messages.push({
-            role: 'user',
-            content: errorOutput,
-            toolCallId: toolCall.id,
-            name: toolCall.name,
-          })
-          continue
-        }
-
-        await this.setState('tool_running')
-        await handler.onToolStart(toolCall.name, toolCall.arguments)
-
-        const result = await tool.execute(toolCall.arguments)
-
-        this.messages.push({
-          role: 'user',
-          content: result.output,
-          toolCallId: toolCall.id,
-          name: toolCall.name,
-        })
+      // ツール呼び出しを実行（結果は元の呼び出し順で messages に追加）
+      const execResult = await this.executeToolCalls(response.toolCalls)
+      if (!execResult.ok) {
+        return execResult
+      }
 
-        await handler.onToolEnd(toolCall.name, result)
+      if (toolChoice === 'required' || typeof toolChoice === 'object') {
+        completionOptions = toCompletionOptions(responseFormat, undefined)
       }
 
       toolRound++
@@ -181,6 +324,303 @@ export class AgentLoop {
     return ok(undefined)
   }
 
+  /**
+   * contextManager が設定されていれば履歴の圧縮を試みる。
+   * 要約のトークン使用量は通常の応答と同じく記録する。
+   * 圧縮の失敗はターンを中断せず、onError で通知して元の履歴のまま続行する。
+   */
+  private async compactContext(): Promise<void> {
+    const { contextManager, provider, handler } = this.options
+    if (contextManager === undefined) return
+
+    const result = await contextManager.compact(this.messages, provider, this.listTools())
+    if (!result.ok) {
+      await handler.onError(result.error)
+      return
+    }
+    if (result.data === undefined) return
+
+    await this.recordUsage(result.data)
+
+    const { messages, removedMessages, tokensBefore, tokensAfter } = result.data
+    this.messages.splice(0, this.messages.length, ...messages)
+    this.needsRewrite = true
+    await this.persist()
+
+    if (handler.onCompaction) {
+      await handler.onCompaction({ removedMessages, tokensBefore, tokensAfter })
+    }
+  }
+
+  /**
+   * 未保存のメッセージをセッションに追記する（履歴が置き換えられた場合は全体を書き直す）。
+   * 永続化の失敗はターンを中断せず、onError で通知して次回の永続化で再試行する。
+   */
+  private async persist(): Promise<void> {
+    const { sessionStore, handler } = this.options
+    if (sessionStore === undefined || this.sessionId === undefined) return
+
+    let result: Result<void>
+    if (this.needsRewrite) {
+      result = await sessionStore.save(this.sessionId, this.messages)
+    } else if (this.persistedCount < this.messages.length) {
+      result = await sessionStore.append(this.sessionId, this.messages.slice(this.persistedCount))
+    } else {
+      return
+    }
+
+    if (!result.ok) {
+      await handler.onError(`Failed to persist session: ${result.error}`)
+      return
+    }
+    this.persistedCount = this.messages.length
+    this.needsRewrite = false
+  }
+
+  /**
+   * 1ラウンド分のツール呼び出しをバッチ単位で実行し、結果を messages に追加する。
+   * バッチ間で abort をチェックし、中断時は残りをスキップする。
+   */
+  private async executeToolCalls(toolCalls: readonly ToolCall[]): Promise<Result<void>> {
+    for (const batch of this.planToolBatches(toolCalls)) {
+      // abort チェック
+      if (this.options.signal?.aborted) {
+        return err('Aborted')
+      }
+
+      if (batch.some((tc) => this.options.tools.get(tc.name) !== undefined)) {
+        await this.setState('tool_running')
+      }
+
+      const results = await Promise.all(batch.map((tc) => this.executeToolCall(tc)))
+      this.messages.push(...results)
+      await this.persist()
+    }
+    return ok(undefined)
+  }
+
+  /**
+   * ツール呼び出しを実行バッチに分割する。
+   *
+   * toolConcurrency が 'parallel' の場合、連続する concurrencySafe なツール呼び出しを
+   * 1バッチにまとめる。それ以外のツール（write / shell / 未登録 等）は単独バッチとし、
+   * 前後の呼び出しとの順序関係を保つ。
+   */
+  private planToolBatches(toolCalls: readonly ToolCall[]): ToolCall[][] {
+    if (this.options.toolConcurrency !== 'parallel') {
+      return toolCalls.map((tc) => [tc])
+    }
+
+    const batches: ToolCall[][] = []
+    let current: ToolCall[] = []
+    for (const tc of toolCalls) {
+      if (this.options.tools.get(tc.name)?.concurrencySafe === true) {
+        current.push(tc)
+        continue
+      }
+      if (current.length > 0) {
+        batches.push(current)
+        current = []
+      }
+      batches.push([tc])
+    }
+    if (current.length > 0) {
+      batches.push(current)
+    }
+    return batches
+  }
+
+  /** 単一のツール呼び出しを実行し、ツール結果メッセージを返す */
+  private async executeToolCall(toolCall: ToolCall): Promise<Message> {
+    const { tools, handler } = this.options
+    const tool = tools.get(toolCall.name)
+
+    if (!tool) {
+      // 未登録ツール → エラーメッセージをフィードバック
+      return {
+        role: 'user',
+        content: `Tool not found: ${toolCall.name}`,
+        toolCallId: toolCall.id,
+        name: toolCall.name,
+      }
+    }
+
+    const denied = await this.checkApproval(toolCall, tool)
+    if (denied !== undefined) {
+      return {
+        role: 'user',
+        content: denied,
+        toolCallId: toolCall.id,
+        name: toolCall.name,
+      }
+    }
+
+    await handler.onToolStart(toolCall.name, toolCall.arguments)
+    const result = await tool.execute(toolCall.arguments)
+    await handler.onToolEnd(toolCall.name, result)
+
+    return {
+      role: 'user',
+      content: result.parts ?? result.output,
+      toolCallId: toolCall.id,
+      name: toolCall.name,
+    }
+  }
+
+  /**
+   * approvalPolicy とツールの assess() に従ってツール呼び出しの実行可否を判定する。
+   * 両者のモードのうち厳しい方（deny > ask > auto）を使う。assess() が 'ask' を返した呼び出しは
+   * allowAlways() 済みのツールでも確認する。
+   * 許可された場合は undefined、拒否された場合は LLM にフィードバックする理由を返す。
+   */
+  private async checkApproval(
+    toolCall: ToolCall,
+    tool: ToolDefinition,
+  ): Promise<string | undefined> {
+    const { approvalPolicy, handler } = this.options
+    const mode = approvalPolicy?.resolve(toolCall.name) ?? 'auto'
+    if (mode === 'deny') return `Tool call denied by policy: ${toolCall.name}`
+
+    const assessment = tool.assess?.(toolCall.arguments)
+    const reason = assessment?.reason
+    const detail = reason !== undefined ? ` (${reason})` : ''
+    if (assessment?.mode === 'deny') return `Tool call denied by policy: ${toolCall.name}${detail}`
+    if (mode === 'auto' && assessment?.mode !== 'ask') return undefined
+
+    // 'ask' — 承認フックがなければ安全側に倒して拒否する
+    if (handler.onApprovalRequest === undefined) {
+      return `Tool call denied (no approval handler): ${toolCall.name}${detail}`
+    }
+    const decision = await (reason !== undefined
+      ? handler.onApprovalRequest(toolCall.name, toolCall.arguments, reason)
+      : handler.onApprovalRequest(toolCall.name, toolCall.arguments))
+    if (decision === 'deny') {
+      return `Tool call denied by user: ${toolCall.name}`
+    }
+    if (decision === 'allow-always') {
+      approvalPolicy?.allowAlways(toolCall.name)
+    }
+    return undefined
+  }
+
+  /**
+   * 応答の使用量を usageLedger に記録し、onUsage で通知する。
+   * 記録先は応答の metadata（フォールバックチェーン経由）、なければ usageSource を使う。
+   */
+  private async recordUsage(response: Pick<LLMResponse, 'usage' | 'metadata'>): Promise<void> {
+    const { usageLedger, usageSource, handler } = this.options
+    const { usage, metadata } = response
+    if (usage === undefined) return
+
+    usageLedger?.record(usage, metadata ?? usageSource ?? UNKNOWN_USAGE_SOURCE)
+    if (handler.onUsage) {
+      if (metadata) {
+        await handler.onUsage(usage, metadata)
+      } else {
+        await handler.onUsage(usage)
+      }
+    }
+  }
+
+  /** テキスト応答を通知する。応答したプロバイダーが判明していれば metadata も渡す */
+  private async notifyResponse(response: LLMResponse): Promise<void> {
+    const { handler } = this.options
+    if (response.metadata) {
+      await handler.onResponse(response.content, response.metadata)
+    } else {
+      await handler.onResponse(response.content)
+    }
+  }
+
+  /** 応答に推論テキストがあれば onReasoning で通知する */
+  private async notifyReasoning(response: LLMResponse): Promise<void> {
+    const { handler } = this.options
+    if (handler.onReasoning === undefined || response.thinking === undefined) return
+    const text = response.thinking
+      .map((block) => block.text)
+      .filter((t) => t !== '')
+      .join('\n\n')
+    if (text !== '') {
+      await handler.onReasoning(text)
+    }
+  }
+
+  /**
+   * プロバイダーに応答を要求する。
+   * stream オプションが有効かつプロバイダーが stream() を実装していればストリーミングで取得する。
+   */
+  private async requestCompletion(
+    llmTools: readonly Tool[],
+    completionOptions: CompletionOptions | undefined,
+  ): Promise<Result<LLMResponse>> {
+    const { provider, stream } = this.options
+    if (!stream || provider.stream === undefined) {
+      return completionOptions !== undefined
+        ? provider.complete(this.messages, llmTools, completionOptions)
+        : provider.complete(this.messages, llmTools)
+    }
+    return this.collectStream(
+      completionOptions !== undefined
+        ? provider.stream(this.messages, llmTools, completionOptions)
+        : provider.stream(this.messages, llmTools),
+    )
+  }
+
+  /**
+   * StreamChunk を消費して LLMResponse に組み立てる。
+   * delta ごとに onDelta を通知し、tool_call は complete() と同じ toolCalls に集約する。
+   * thinking チャンクは thinking に集約する（thinking_delta は表示用のため集約しない）。
+   */
+  private async collectStream(chunks: AsyncIterable<StreamChunk>): Promise<Result<LLMResponse>> {
+    const { handler } = this.options
+    let content = ''
+    const toolCalls: ToolCall[] = []
+    const thinking: ThinkingBlock[] = []
+    let usage: TokenUsage | undefined
+    let metadata: ResponseMetadata | undefined
+
+    try {
+      for await (const chunk of chunks) {
+        // abort チェック
+        if (this.options.signal?.aborted) {
+          return err('Aborted')
+        }
+
+        switch (chunk.type) {
+          case 'delta':
+            content += chunk.content
+            if (handler.onDelta) {
+              await handler.onDelta(chunk.content)
+            }
+            break
+          case 'tool_call':
+            toolCalls.push(chunk.toolCall)
+            break
+          case 'thinking':
+            thinking.push(chunk.thinking)
+            break
+          case 'thinking_delta':
+            break
+          case 'done':
+            usage = chunk.usage
+            metadata = chunk.metadata
+            break
+        }
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error)
+      return err(message)
+    }
+
+    return ok({
+      content,
+      toolCalls,
+      ...(usage ? { usage } : {}),
+      ...(thinking.length > 0 ? { thinking } : {}),
+      ...(metadata ? { metadata } : {}),
+    })
+  }
+
   private async setState(newState: AgentLoopState): Promise<void> {
     this.state = newState
     await this.options.handler.onStateChange(newState)
@@ -197,5 +637,9 @@ export function createNoopHandler(): AgentLoopHandler {
     onStateChange: noop,
     onError: noop,
     onUsage: noop,
+    onTurnUsage: noop,
+    onDelta: noop,
+    onReasoning: noop,
+    onCompaction: noop,
   }
 }
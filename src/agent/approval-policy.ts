@@ -0,0 +1,62 @@
+/**
+ * ツール実行の承認ポリシー
+ *
+ * ツール名（またはワイルドカードパターン）ごとに auto / ask / deny を割り当て、
+ * 'allow-always' で承認されたツールを記憶する ApprovalPolicy を提供する。
+ */
+import type { ApprovalConfig, ApprovalMode } from '../loader/types.js'
+import type { ApprovalPolicy } from './types.js'
+
+/**
+ * ツール名がパターンに一致するか判定する
+ *
+ * `*` は任意の文字列（空文字を含む）に一致する。それ以外の文字はそのまま比較する。
+ */
+export function matchToolPattern(pattern: string, toolName: string): boolean {
+  const escaped = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${escaped}$`).test(toolName)
+}
+
+/**
+ * 設定から ApprovalPolicy を生成する
+ *
+ * モードの決定順序:
+ * 1. ツール名と完全一致するルール
+ * 2. 定義順で最初に一致するワイルドカードルール
+ * 3. config.default（省略時は 'auto'）
+ *
+ * 'ask' と判定されたツールのうち allowAlways() 済みのものは 'auto' を返す。
+ */
+export function createApprovalPolicy(config: ApprovalConfig = {}): ApprovalPolicy {
+  const rules = new Map(Object.entries(config.tools ?? {}))
+  const defaultMode = config.default ?? 'auto'
+  const alwaysAllowed = new Set<string>()
+
+  function resolveConfigured(toolName: string): ApprovalMode {
+    const exact = rules.get(toolName)
+    if (exact !== undefined) return exact
+
+    for (const [pattern, mode] of rules) {
+      if (pattern.includes('*') && matchToolPattern(pattern, toolName)) {
+        return mode
+      }
+    }
+    return defaultMode
+  }
+
+  return {
+    resolve(toolName: string): ApprovalMode {
+      const mode = resolveConfigured(toolName)
+      if (mode === 'ask' && alwaysAllowed.has(toolName)) {
+        return 'auto'
+      }
+      return mode
+    },
+    allowAlways(toolName: string): void {
+      alwaysAllowed.add(toolName)
+    },
+  }
+}
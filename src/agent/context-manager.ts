@@ -0,0 +1,185 @@
+/**
+ * コンテキスト管理
+ *
+ * メッセージ履歴とツール定義のトークン数を数え、閾値を超えた場合に
+ * 古いターンを LLM で要約して置き換える ContextManager を提供する。
+ */
+import type { Result } from '../result.js'
+import { ok, err } from '../result.js'
+import type {
+  LLMProvider,
+  Message,
+  MessageContent,
+  ModelCapabilities,
+  Tool,
+} from '../providers/types.js'
+import { estimatePromptTokens } from '../providers/token-count.js'
+import type { CompactionConfig } from '../loader/types.js'
+import type { CompactionResult, ContextManager } from './types.js'
+
+/** 圧縮の閾値として使うコンテキストウィンドウの割合（残りは出力と推定誤差のために空けておく） */
+const CONTEXT_WINDOW_RATIO = 0.75
+
+/** 要約メッセージを識別するためのプレフィクス */
+export const SUMMARY_PREFIX = '[Summary of earlier conversation]'
+
+const SUMMARY_SYSTEM_PROMPT =
+  'You are summarizing an earlier part of a conversation between a user and an AI assistant ' +
+  'that uses tools. Write a concise summary that preserves the user requests, decisions made, ' +
+  'important facts, file paths, tool results and any unfinished work. ' +
+  'Output only the summary text.'
+
+/**
+ * 圧縮を始めるトークン数を決める
+ *
+ * モデルのコンテキストウィンドウが分かっている場合は、その 75% を上限とする
+ * （config.maxTokens が上限を超えていれば上限に切り詰め、省略されていれば上限を使う）。
+ * ウィンドウが不明な場合は config.maxTokens をそのまま返す（省略時は undefined = 圧縮しない）。
+ */
+export function resolveCompactionMaxTokens(
+  config: CompactionConfig,
+  capabilities?: ModelCapabilities,
+): number | undefined {
+  const contextWindow = capabilities?.contextWindow
+  if (contextWindow === undefined) return config.maxTokens
+  const limit = Math.floor(contextWindow * CONTEXT_WINDOW_RATIO)
+  return Math.min(config.maxTokens ?? limit, limit)
+}
+
+/** createSummarizingContextManager のオプション */
+export interface SummarizingContextManagerOptions {
+  /** このトークン数を超えたら圧縮する */
+  readonly maxTokens: number
+  /** 要約せずに残す直近メッセージの最小数。省略時は 6 */
+  readonly keepRecentMessages?: number
+}
+
+/**
+ * メッセージとツール定義の入力トークン数を数える
+ *
+ * プロバイダーが countTokens を実装していればそれを使い、未実装または失敗した場合は推定値を返す。
+ */
+async function countTokens(
+  messages: readonly Message[],
+  tools: readonly Tool[],
+  provider: LLMProvider,
+): Promise<number> {
+  if (provider.countTokens !== undefined) {
+    const result = await provider.countTokens(messages, tools)
+    if (result.ok) return result.data
+  }
+  return estimatePromptTokens(messages, tools)
+}
+
+/** 要約メッセージかどうかを判定する */
+function isSummaryMessage(m: Message): boolean {
+  return (
+    m.role === 'system' && typeof m.content === 'string' && m.content.startsWith(SUMMARY_PREFIX)
+  )
+}
+
+/** ツール結果を含まない通常の user メッセージかどうかを判定する */
+function isPlainUserMessage(m: Message | undefined): boolean {
+  return m !== undefined && m.role === 'user' && m.toolCallId === undefined
+}
+
+/** MessageContent をテキストに変換する（画像・ドキュメントはプレースホルダーにする） */
+function renderContent(content: MessageContent): string {
+  if (typeof content === 'string') return content
+  return content
+    .map((part) => (part.type === 'text' ? part.text : `[${part.type}: ${part.mimeType}]`))
+    .join('\n')
+}
+
+/** 要約対象のメッセージを LLM に渡すテキストに変換する */
+function renderTranscript(messages: readonly Message[]): string {
+  return messages
+    .map((m) => {
+      if (isSummaryMessage(m)) {
+        return renderContent(m.content)
+      }
+      if (m.toolCallId !== undefined) {
+        return `[tool result: ${m.name ?? m.toolCallId}]\n${renderContent(m.content)}`
+      }
+      if (m.toolCalls !== undefined && m.toolCalls.length > 0) {
+        const calls = m.toolCalls
+          .map((tc) => `${tc.name}(${JSON.stringify(tc.arguments)})`)
+          .join(', ')
+        return `[${m.role}]\n${renderContent(m.content)}\n[tool calls: ${calls}]`
+      }
+      return `[${m.role}]\n${renderContent(m.content)}`
+    })
+    .join('\n\n')
+}
+
+/**
+ * 古いターンを LLM で要約する ContextManager を生成する
+ *
+ * - トークン数は provider.countTokens で数え、未実装なら estimatePromptTokens で推定する
+ * - 先頭の system メッセージ（既存の要約を除く）は常に保持する
+ * - 直近 keepRecentMessages 件以上を残し、残りを1件の要約 system メッセージに置き換える
+ * - 分割位置は通常の user メッセージの直前に限定し、tool_call / tool_result の組を分断しない
+ */
+export function createSummarizingContextManager(
+  options: SummarizingContextManagerOptions,
+): ContextManager {
+  const keepRecent = options.keepRecentMessages ?? 6
+
+  return {
+    async compact(
+      messages: readonly Message[],
+      provider: LLMProvider,
+      tools: readonly Tool[] = [],
+    ): Promise<Result<CompactionResult | undefined>> {
+      const tokensBefore = await countTokens(messages, tools, provider)
+      if (tokensBefore <= options.maxTokens) {
+        return ok(undefined)
+      }
+
+      // 先頭の system メッセージ（既存の要約は再要約の対象にする）
+      let head = 0
+      while (head < messages.length) {
+        const m = messages[head]
+        if (m === undefined || m.role !== 'system' || isSummaryMessage(m)) break
+        head++
+      }
+      const preserved = messages.slice(0, head)
+
+      // 分割位置: 直近 keepRecent 件を残し、通常の user メッセージの直前まで遡る
+      let split = messages.length - keepRecent
+      while (split > head && !isPlainUserMessage(messages[split])) {
+        split--
+      }
+      if (split <= head) {
+        return ok(undefined)
+      }
+
+      const older = messages.slice(head, split)
+      const recent = messages.slice(split)
+
+      const summaryResult = await provider.complete([
+        { role: 'system', content: SUMMARY_SYSTEM_PROMPT },
+        { role: 'user', content: renderTranscript(older) },
+      ])
+      if (!summaryResult.ok) {
+        return err(`Failed to summarize conversation: ${summaryResult.error}`)
+      }
+
+      const summary: Message = {
+        role: 'system',
+        content: `${SUMMARY_PREFIX}\n${summaryResult.data.content}`,
+      }
+      const compacted = [...preserved, summary, ...recent]
+
+      const { usage, metadata } = summaryResult.data
+      return ok({
+        messages: compacted,
+        removedMessages: older.length,
+        tokensBefore,
+        tokensAfter: await countTokens(compacted, tools, provider),
+        ...(usage !== undefined ? { usage } : {}),
+        ...(metadata !== undefined ? { metadata } : {}),
+      })
+    },
+  }
+}
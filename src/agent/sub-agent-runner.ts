@@ -17,7 +17,9 @@ import type {
   SubAgentWorkerData,
   WorkerMessage,
 } from './types.js'
-import type { Persona, Skill, WnConfig } from '../loader/types.js'
+import type { Persona, ProviderConfig, Skill, WnConfig } from '../loader/types.js'
+import type { ResponseMetadata, TokenUsage } from '../providers/types.js'
+import { mergeWorkspaceConfig } from '../tools/workspace.js'
 
 /**
  * AgentConfig と各種マスターデータから SubAgentWorkerData を組み立てる。
@@ -47,6 +49,16 @@ export function resolveWorkerData(
     resolvedSkills.push(skill)
   }
 
+  // skills の toolChoice（複数のスキルが異なる値を指定した場合はエラー）
+  const toolChoices = resolvedSkills.filter((s) => s.toolChoice !== undefined)
+  const toolChoice = toolChoices[0]?.toolChoice
+  const conflicting = toolChoices.find(
+    (s) => JSON.stringify(s.toolChoice) !== JSON.stringify(toolChoice),
+  )
+  if (conflicting !== undefined) {
+    return err(`Conflicting toolChoice in skills: ${toolChoices.map((s) => s.name).join(', ')}`)
+  }
+
   // 3. Provider の解決
   const providerConfig = wnConfig.providers[agentConfig.provider]
   if (providerConfig === undefined) {
@@ -62,18 +74,65 @@ export function resolveWorkerData(
   // 5. mcpServers
   const mcpServers = wnConfig.mcp?.servers ?? []
 
-  // 6. 成功
+  // 6. ワークスペース設定（エージェント単位の設定をグローバルの設定に重ねる）
+  const workspace = mergeWorkspaceConfig(wnConfig.workspace, agentConfig.workspace)
+
+  // 7. フォールバックチェーンと、チェーンが参照するプロバイダーの設定
+  const fallbackProviders: Record<string, ProviderConfig> = {}
+  for (const target of wnConfig.fallback?.chain ?? []) {
+    const targetConfig = wnConfig.providers[target.provider]
+    if (targetConfig !== undefined) fallbackProviders[target.provider] = targetConfig
+  }
+
+  // 8. 成功
   return ok({
     id,
     task: agentConfig.task,
     systemMessage,
     providerName: agentConfig.provider,
-    providerConfig,
+    providerConfig:
+      agentConfig.generation !== undefined
+        ? {
+            ...providerConfig,
+            generation: { ...providerConfig.generation, ...agentConfig.generation },
+          }
+        : providerConfig,
     model: agentConfig.model,
     mcpServers,
+    ...(wnConfig.providerModules !== undefined
+      ? { providerModules: wnConfig.providerModules }
+      : {}),
+    ...(wnConfig.models !== undefined ? { models: wnConfig.models } : {}),
+    ...(wnConfig.fallback !== undefined ? { fallback: wnConfig.fallback, fallbackProviders } : {}),
+    ...(agentConfig.responseFormat !== undefined
+      ? { responseFormat: agentConfig.responseFormat }
+      : {}),
+    ...(toolChoice !== undefined ? { toolChoice } : {}),
+    ...(workspace !== undefined ? { workspace } : {}),
+    ...(wnConfig.shell !== undefined ? { shell: wnConfig.shell } : {}),
   })
 }
 
+/** unknown な値が TokenUsage 型かどうかを判定する型ガード */
+function isTokenUsage(value: unknown): value is TokenUsage {
+  if (typeof value !== 'object' || value === null) return false
+  const obj = value as Record<string, unknown>
+  if (typeof obj['inputTokens'] !== 'number' || typeof obj['outputTokens'] !== 'number') {
+    return false
+  }
+  for (const key of ['cacheReadTokens', 'cacheWriteTokens']) {
+    if (key in obj && typeof obj[key] !== 'number') return false
+  }
+  return true
+}
+
+/** unknown な値が ResponseMetadata 型かどうかを判定する型ガード */
+function isResponseMetadata(value: unknown): value is ResponseMetadata {
+  if (typeof value !== 'object' || value === null) return false
+  const obj = value as Record<string, unknown>
+  return typeof obj['provider'] === 'string' && typeof obj['model'] === 'string'
+}
+
 /**
  * unknown な値が WorkerMessage 型かどうかを判定する型ガード。
  */
@@ -92,6 +151,9 @@ export function isWorkerMessage(value: unknown): value is WorkerMessage {
     case 'error':
       return typeof obj['error'] === 'string'
 
+    case 'usage':
+      return isTokenUsage(obj['usage']) && isResponseMetadata(obj['source'])
+
     case 'log':
       return (
         (obj['level'] === 'info' || obj['level'] === 'warn' || obj['level'] === 'error') &&
@@ -168,12 +230,16 @@ export class WorkerSubAgentRunner implements SubAgentRunner {
       switch (msg.type) {
         case 'result':
           handle.status = 'completed'
-          handle.result = msg.data
+          // responseFormat 指定時は解析済みの JSON 値を結果にする
+          handle.result = 'structured' in msg ? msg.structured : msg.data
           break
         case 'error':
           handle.status = 'failed'
           handle.result = msg.error
           break
+        case 'usage':
+          this.options.usageLedger?.record(msg.usage, msg.source, id)
+          break
         case 'log':
           // 将来の拡張ポイント（現在は無視）
           break
@@ -2,53 +2,29 @@
  * サブエージェント Worker
  *
  * Worker Thread として実行され、サブエージェントの LLM 対話ループを駆動する。
- * - createProviderByName: プロバイダー名から LLMProvider を生成
  * - runSubAgent: Worker 内でのエージェント実行エントリポイント
  */
-import type { Result } from '../result.js'
-import { err } from '../result.js'
-import type { LLMProvider } from '../providers/types.js'
-import type { ProviderConfig } from '../loader/types.js'
 import type { SubAgentWorkerData, MessageSender, WorkerMessage } from './types.js'
-import { createClaudeProvider } from '../providers/claude.js'
-import { createOpenAIProvider } from '../providers/openai.js'
-import { createOllamaProvider } from '../providers/ollama.js'
-import { createGeminiProvider } from '../providers/gemini.js'
+import {
+  createDefaultProviderRegistry,
+  createProviderChain,
+  loadProviderModules,
+} from '../providers/registry.js'
+import { createModelCatalogue } from '../providers/models.js'
 import { ToolRegistry } from '../tools/types.js'
+import type { BuiltinToolOptions } from '../tools/types.js'
 import { createReadTool } from '../tools/read.js'
 import { createWriteTool } from '../tools/write.js'
+import { createEditTool, createMultiEditTool } from '../tools/edit.js'
+import { createApplyPatchTool } from '../tools/apply-patch.js'
 import { createGrepTool } from '../tools/grep.js'
 import { createShellTool } from '../tools/shell.js'
+import { createShellSessionTool } from '../tools/shell-session.js'
+import { createWorkspacePolicy } from '../tools/workspace.js'
+import { createShellPolicy } from '../tools/shell-policy.js'
 import { AgentLoop, createNoopHandler } from './agent-loop.js'
 import { isMainThread, parentPort, workerData } from 'node:worker_threads'
 
-/**
- * プロバイダー名から LLMProvider を生成する
- *
- * @param name - プロバイダー名 ('claude' | 'openai' | 'ollama' | 'gemini')
- * @param config - プロバイダー設定
- * @param model - 使用するモデル名
- * @returns Result<LLMProvider> - 成功時はプロバイダー、失敗時はエラーメッセージ
- */
-export function createProviderByName(
-  name: string,
-  config: ProviderConfig,
-  model: string,
-): Result<LLMProvider> {
-  switch (name) {
-    case 'claude':
-      return createClaudeProvider(config, model)
-    case 'openai':
-      return createOpenAIProvider(config, model)
-    case 'ollama':
-      return createOllamaProvider(config, model)
-    case 'gemini':
-      return createGeminiProvider(config, model)
-    default:
-      return err(`Unknown provider: ${name}`)
-  }
-}
-
 /**
  * サブエージェントを実行する
  *
@@ -60,34 +36,78 @@ export function createProviderByName(
  */
 export async function runSubAgent(data: SubAgentWorkerData, sender: MessageSender): Promise<void> {
   try {
-    // 1. プロバイダー生成
-    const providerResult = createProviderByName(data.providerName, data.providerConfig, data.model)
+    // 1. プロバイダー生成（providerModules のプロバイダーを Worker 内のレジストリに登録し、
+    //    config.models を加えた能力カタログで設定を検証する）
+    const registry = createDefaultProviderRegistry()
+    const modulesResult = await loadProviderModules(registry, data.providerModules ?? [])
+    if (!modulesResult.ok) {
+      sender.postMessage({ type: 'error', error: modulesResult.error })
+      return
+    }
+
+    const providerResult = createProviderChain(
+      registry,
+      createModelCatalogue(data.models),
+      data.providerName,
+      data.providerConfig,
+      data.model,
+      {
+        providers: data.fallbackProviders ?? {},
+        ...(data.fallback !== undefined ? { fallback: data.fallback } : {}),
+      },
+    )
 
     if (!providerResult.ok) {
       sender.postMessage({ type: 'error', error: providerResult.error })
       return
     }
 
-    // 2. ToolRegistry を作成し、ビルトインツールを登録
+    // 2. ToolRegistry を作成し、ビルトインツールを登録（workspace 指定時はパスを制限する）
+    const toolOptions: BuiltinToolOptions = {
+      ...(data.workspace !== undefined ? { workspace: createWorkspacePolicy(data.workspace) } : {}),
+      ...(data.shell !== undefined ? { shellPolicy: createShellPolicy(data.shell) } : {}),
+    }
     const tools = new ToolRegistry()
-    tools.register(createReadTool())
-    tools.register(createWriteTool())
-    tools.register(createGrepTool())
-    tools.register(createShellTool())
+    tools.register(createReadTool(toolOptions))
+    tools.register(createWriteTool(toolOptions))
+    tools.register(createEditTool(toolOptions))
+    tools.register(createMultiEditTool(toolOptions))
+    tools.register(createApplyPatchTool(toolOptions))
+    tools.register(createGrepTool(toolOptions))
+    tools.register(createShellTool(toolOptions))
+    tools.register(createShellSessionTool(toolOptions))
 
-    // 3. AgentLoop を作成
+    // 3. AgentLoop を作成（使用量はメインスレッドの台帳に記録するため転送する）
+    const source = { provider: data.providerName, model: data.model }
     const loop = new AgentLoop({
       provider: providerResult.data,
       tools,
-      handler: createNoopHandler(),
+      handler: {
+        ...createNoopHandler(),
+        onUsage: (usage, metadata) => {
+          sender.postMessage({ type: 'usage', usage, source: metadata ?? source })
+        },
+      },
       systemMessage: data.systemMessage,
     })
 
-    // 4. step() を実行
-    const stepResult = await loop.step(data.task)
+    // 4. step() を実行（responseFormat 指定時は検証済みの JSON テキストを解析して返す）
+    //    終了後はシェルセッションを閉じる
+    const { responseFormat, toolChoice } = data
+    const stepResult = await loop
+      .step(data.task, {
+        ...(responseFormat !== undefined ? { responseFormat } : {}),
+        ...(toolChoice !== undefined ? { toolChoice } : {}),
+      })
+      .finally(() => tools.dispose())
 
     if (stepResult.ok) {
-      sender.postMessage({ type: 'result', data: stepResult.data })
+      if (responseFormat !== undefined) {
+        const structured: unknown = JSON.parse(stepResult.data)
+        sender.postMessage({ type: 'result', data: stepResult.data, structured })
+      } else {
+        sender.postMessage({ type: 'result', data: stepResult.data })
+      }
     } else {
       sender.postMessage({ type: 'error', error: stepResult.error })
     }
@@ -1,6 +1,29 @@
-import type { LLMProvider, TokenUsage } from '../providers/types.js'
+import type { Result } from '../result.js'
+import type {
+  GenerationOptions,
+  LLMProvider,
+  Message,
+  ModelCapabilities,
+  ResponseFormat,
+  ResponseMetadata,
+  TokenUsage,
+  Tool,
+  ToolChoice,
+} from '../providers/types.js'
 import type { ToolRegistry, ToolResult } from '../tools/types.js'
-import type { McpServerConfig, Persona, ProviderConfig, Skill, WnConfig } from '../loader/types.js'
+import type {
+  ApprovalMode,
+  FallbackConfig,
+  McpServerConfig,
+  Persona,
+  ProviderConfig,
+  Skill,
+  UsageBudget,
+  ShellPolicyConfig,
+  WnConfig,
+  WorkspaceConfig,
+} from '../loader/types.js'
+import type { SessionStore } from '../session/types.js'
 
 /**
  * サブエージェントのステータス
@@ -11,6 +34,10 @@ export type SubAgentStatus = 'running' | 'completed' | 'failed'
 export interface SubAgentHandle {
   readonly id: string
   readonly status: SubAgentStatus
+  /**
+   * 完了時は最終応答（AgentConfig.responseFormat 指定時はスキーマで検証済みの JSON 値）、
+   * 失敗時はエラーメッセージ
+   */
   readonly result?: unknown
 }
 
@@ -21,6 +48,12 @@ export interface AgentConfig {
   readonly provider: string
   readonly model: string
   readonly task: string
+  /** 生成パラメータ（プロバイダー設定の generation より優先） */
+  readonly generation?: GenerationOptions
+  /** 指定すると最終応答をスキーマで制約し、SubAgentHandle.result を JSON 値として返す */
+  readonly responseFormat?: ResponseFormat
+  /** 組み込みツールのパス制限（config.json の workspace に重ねる。AgentDef.workspace を渡す） */
+  readonly workspace?: WorkspaceConfig
 }
 
 /**
@@ -50,12 +83,29 @@ export interface SubAgentWorkerData {
   readonly providerConfig: ProviderConfig
   readonly model: string
   readonly mcpServers: readonly McpServerConfig[]
+  /** Worker 内の ProviderRegistry に読み込むプロバイダーモジュール（config.providerModules） */
+  readonly providerModules?: readonly string[]
+  /** 設定の検証に使うモデルの能力の上書き（config.models） */
+  readonly models?: Readonly<Record<string, ModelCapabilities>>
+  /** プロバイダーのフォールバックチェーン（config.fallback） */
+  readonly fallback?: FallbackConfig
+  /** フォールバックチェーンが参照するプロバイダーの設定（config.providers の該当分） */
+  readonly fallbackProviders?: Readonly<Record<string, ProviderConfig>>
+  /** 最終応答の構造化出力（AgentConfig.responseFormat） */
+  readonly responseFormat?: ResponseFormat
+  /** スキルの frontmatter で指定されたツール呼び出しの制御 */
+  readonly toolChoice?: ToolChoice
+  /** 組み込みツールのパス制限（config.workspace に AgentConfig.workspace を重ねたもの） */
+  readonly workspace?: WorkspaceConfig
+  /** shell ツールのコマンドポリシー（config.shell） */
+  readonly shell?: ShellPolicyConfig
 }
 
-/** Worker → Main メッセージ */
+/** Worker → Main メッセージ（structured は responseFormat 指定時に解析済みの最終応答） */
 export type WorkerMessage =
-  | { readonly type: 'result'; readonly data: string }
+  | { readonly type: 'result'; readonly data: string; readonly structured?: unknown }
   | { readonly type: 'error'; readonly error: string }
+  | { readonly type: 'usage'; readonly usage: TokenUsage; readonly source: ResponseMetadata }
   | { readonly type: 'log'; readonly level: 'info' | 'warn' | 'error'; readonly message: string }
 
 /** WorkerSubAgentRunner のコンストラクタオプション */
@@ -64,6 +114,8 @@ export interface SubAgentRunnerOptions {
   readonly personas: ReadonlyMap<string, Persona>
   readonly skills: ReadonlyMap<string, Skill>
   readonly workerUrl?: string | URL
+  /** 指定するとサブエージェントのトークン使用量をサブエージェント ID ごとに記録する */
+  readonly usageLedger?: UsageLedger
 }
 
 /** Worker 内メッセージ送信インターフェース（テスト用に分離） */
@@ -73,17 +125,185 @@ export interface MessageSender {
 
 // --- AgentLoop 関連 ---
 
+/** AgentLoop.step() のオプション */
+export interface StepOptions {
+  /**
+   * 指定すると最終応答を JSON Schema で制約する。
+   * 最終応答はスキーマで検証し、違反していれば違反内容を伝えて再要求する
+   */
+  readonly responseFormat?: ResponseFormat
+  /** スキーマ違反時に再要求する回数の上限（省略時は 2） */
+  readonly maxSchemaRetries?: number
+  /**
+   * ツール呼び出しの制御。'required' / ツール指名はターン最初の LLM 呼び出しにのみ適用し、
+   * ツール実行後は既定（auto）に戻す。未登録のツールを指名した場合は err を返す
+   */
+  readonly toolChoice?: ToolChoice
+}
+
 /** AgentLoop の状態 */
 export type AgentLoopState = 'idle' | 'waiting_input' | 'thinking' | 'tool_running'
 
+/**
+ * 1ターン内の複数ツール呼び出しの実行ポリシー
+ *
+ * - 'sequential': 呼び出し順に1つずつ実行する（デフォルト）
+ * - 'parallel': ToolDefinition.concurrencySafe が true のツールを並行実行する
+ */
+export type ToolConcurrency = 'sequential' | 'parallel'
+
+// --- コンテキスト圧縮 ---
+
+/** コンテキスト圧縮の統計情報 */
+export interface CompactionStats {
+  /** 要約に置き換えられたメッセージ数 */
+  readonly removedMessages: number
+  /** 圧縮前のトークン数 */
+  readonly tokensBefore: number
+  /** 圧縮後のトークン数 */
+  readonly tokensAfter: number
+}
+
+/** コンテキスト圧縮の結果 */
+export interface CompactionResult extends CompactionStats {
+  /** 圧縮後のメッセージ履歴 */
+  readonly messages: readonly Message[]
+  /** 要約の LLM 呼び出しのトークン使用量（AgentLoop が usageLedger に記録する） */
+  readonly usage?: TokenUsage
+  /** 要約に応答したプロバイダー（フォールバックチェーン経由の場合） */
+  readonly metadata?: ResponseMetadata
+}
+
+/**
+ * コンテキスト管理ストラテジー
+ *
+ * AgentLoop は LLM 呼び出しの前に compact() を呼び、
+ * 圧縮結果が返された場合はメッセージ履歴を置き換える。
+ */
+export interface ContextManager {
+  /**
+   * 必要に応じて履歴を圧縮する。圧縮不要の場合は ok(undefined) を返す。
+   * tools は LLM に渡すツール定義で、トークン数の計算に含める。
+   */
+  compact(
+    messages: readonly Message[],
+    provider: LLMProvider,
+    tools?: readonly Tool[],
+  ): Promise<Result<CompactionResult | undefined>>
+}
+
+// --- トークン使用量 ---
+
+/** トークン使用量と推定コストの合計 */
+export interface UsageTotals {
+  /** LLM 呼び出し回数 */
+  readonly requests: number
+  readonly inputTokens: number
+  readonly outputTokens: number
+  readonly cacheReadTokens: number
+  readonly cacheWriteTokens: number
+  /** 推定コスト（USD）。料金が不明なモデルの使用量は含まない */
+  readonly costUsd: number
+}
+
+/** プロバイダー/モデルごとの使用量 */
+export interface ModelUsage extends UsageTotals {
+  readonly provider: string
+  readonly model: string
+  /** 料金表にモデルが見つかったか（false の場合 costUsd は 0） */
+  readonly priced: boolean
+}
+
+/** サブエージェントごとの使用量 */
+export interface SubAgentUsage extends UsageTotals {
+  /** サブエージェント ID */
+  readonly id: string
+}
+
+/** UsageLedger の集計結果 */
+export interface UsageSnapshot {
+  /** 直近（または実行中）のターン（メインの AgentLoop の使用量のみ） */
+  readonly turn: UsageTotals
+  /** セッション全体（サブエージェントを含む） */
+  readonly session: UsageTotals
+  readonly byModel: readonly ModelUsage[]
+  readonly bySubAgent: readonly SubAgentUsage[]
+  /** 設定されている上限 */
+  readonly budget?: UsageBudget
+}
+
+/**
+ * トークン使用量の台帳
+ *
+ * AgentLoop は LLM 応答ごとに record() し、LLM 呼び出しの前に checkBudget() で上限を確認する。
+ */
+export interface UsageLedger {
+  /** 使用量を記録する。subAgentId を指定するとサブエージェントの使用量としても集計する */
+  record(usage: TokenUsage, source: ResponseMetadata, subAgentId?: string): void
+  /** 新しいターンを開始する（ターンの集計をリセットする） */
+  startTurn(): void
+  /** 現在の集計結果を返す */
+  getSnapshot(): UsageSnapshot
+  /** セッションの使用量が上限に達していれば err を返す */
+  checkBudget(): Result<void>
+  /** すべての集計をリセットする（セッション切り替え時） */
+  reset(): void
+}
+
+// --- ツール承認 ---
+
+/**
+ * 承認リクエストに対するクライアントの応答
+ *
+ * - 'allow': 今回の呼び出しのみ許可する
+ * - 'deny': 今回の呼び出しを拒否する
+ * - 'allow-always': 許可し、以降同じツールは確認せずに実行する
+ */
+export type ApprovalDecision = 'allow' | 'deny' | 'allow-always'
+
+/**
+ * ツール実行の承認ポリシー
+ *
+ * AgentLoop は tool.execute() の前に resolve() でモードを確認する。
+ */
+export interface ApprovalPolicy {
+  /** ツール名に対する承認モードを返す */
+  resolve(toolName: string): ApprovalMode
+  /** 以降の呼び出しを自動承認する（'allow-always' 応答時に呼ばれる） */
+  allowAlways(toolName: string): void
+}
+
 /** AgentLoop イベントハンドラ */
 export interface AgentLoopHandler {
-  readonly onResponse: (content: string) => void | Promise<void>
+  /** テキスト応答を受信したときに呼ばれる。metadata は応答したプロバイダー（判明している場合） */
+  readonly onResponse: (content: string, metadata?: ResponseMetadata) => void | Promise<void>
   readonly onToolStart: (name: string, args: Record<string, unknown>) => void | Promise<void>
   readonly onToolEnd: (name: string, result: ToolResult) => void | Promise<void>
   readonly onStateChange: (state: AgentLoopState) => void | Promise<void>
   readonly onError: (error: string) => void | Promise<void>
-  readonly onUsage?: (usage: TokenUsage) => void | Promise<void>
+  /** LLM 応答ごとに呼ばれる。metadata は応答したプロバイダー（判明している場合） */
+  readonly onUsage?: (usage: TokenUsage, metadata?: ResponseMetadata) => void | Promise<void>
+  /** usageLedger 指定時、ターンの終了時（失敗を含む）に集計結果で呼ばれる */
+  readonly onTurnUsage?: (snapshot: UsageSnapshot) => void | Promise<void>
+  /** ストリーミングモード時、テキスト断片を受信するたびに呼ばれる */
+  readonly onDelta?: (content: string) => void | Promise<void>
+  /**
+   * LLM 応答に推論（thinking）が含まれていたときに、推論テキスト全体で呼ばれる。
+   * ストリーミングモードでもストリーム完了後にまとめて1回呼ばれる
+   */
+  readonly onReasoning?: (content: string) => void | Promise<void>
+  /** コンテキスト圧縮が行われたときに呼ばれる */
+  readonly onCompaction?: (stats: CompactionStats) => void | Promise<void>
+  /**
+   * 承認モードが 'ask' のツールを実行する前に呼ばれる。
+   * reason はツールの assess() が示した理由（shell の危険なコマンド等）。
+   * 未定義の場合、'ask' のツールは拒否される
+   */
+  readonly onApprovalRequest?: (
+    name: string,
+    args: Record<string, unknown>,
+    reason?: string,
+  ) => ApprovalDecision | Promise<ApprovalDecision>
 }
 
 /** AgentLoop コンストラクタオプション */
@@ -95,4 +315,28 @@ export interface AgentLoopOptions {
   /** ツール呼び出しラウンドの上限。省略時は無制限（Infinity） */
   readonly maxToolRounds?: number
   readonly signal?: AbortSignal
+  /**
+   * true の場合、プロバイダーが stream() を実装していればストリーミングで応答を取得する。
+   * 省略時は false（complete() を使用）
+   */
+  readonly stream?: boolean
+  /** ツール呼び出しの実行ポリシー。省略時は 'sequential' */
+  readonly toolConcurrency?: ToolConcurrency
+  /** コンテキスト管理ストラテジー。省略時は圧縮しない */
+  readonly contextManager?: ContextManager
+  /** 指定するとメッセージ履歴を追加のたびにセッションへ永続化する */
+  readonly sessionStore?: SessionStore
+  /** 永続化先のセッション ID。sessionStore 指定時に省略するとランダムな UUID を生成する */
+  readonly sessionId?: string
+  /**
+   * 復元するメッセージ履歴。指定した場合は systemMessage より優先され、
+   * sessionStore には保存済みとして扱われる
+   */
+  readonly history?: readonly Message[]
+  /** ツール実行の承認ポリシー。省略時はすべてのツールを確認せずに実行する */
+  readonly approvalPolicy?: ApprovalPolicy
+  /** 指定すると LLM 応答ごとの使用量を記録し、上限に達したらターンを停止する */
+  readonly usageLedger?: UsageLedger
+  /** 応答に metadata がない場合に使用量を記録するプロバイダー/モデル（省略時は 'unknown'） */
+  readonly usageSource?: ResponseMetadata
 }
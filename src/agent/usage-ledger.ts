@@ -0,0 +1,178 @@
+/**
+ * トークン使用量の台帳
+ *
+ * LLM 応答ごとの TokenUsage をターン・セッション・プロバイダー/モデル・サブエージェント単位で集計し、
+ * 料金表から推定コストを計算する UsageLedger を提供する。
+ */
+import type { Result } from '../result.js'
+import { ok, err } from '../result.js'
+import type { ResponseMetadata, TokenUsage } from '../providers/types.js'
+import type { ModelPricing, UsageConfig } from '../loader/types.js'
+import { resolveModelEntry } from '../providers/models.js'
+import type { ModelUsage, UsageLedger, UsageSnapshot, UsageTotals } from './types.js'
+
+/**
+ * 組み込みの料金表（USD / 100 万トークン）
+ *
+ * キーはモデル名の前方一致で解決する（例: 'claude-sonnet-4' は 'claude-sonnet-4-20250514' に一致）。
+ * config.json の usage.pricing で上書き・追加できる。
+ */
+export const DEFAULT_PRICING: Readonly<Record<string, ModelPricing>> = {
+  'claude-opus-4': { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  'claude-opus-4-5': { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-haiku-4-5': { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  'gpt-4o': { input: 2.5, output: 10, cacheRead: 1.25 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cacheRead: 0.075 },
+  'gpt-4.1': { input: 2, output: 8, cacheRead: 0.5 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6, cacheRead: 0.1 },
+  o3: { input: 2, output: 8, cacheRead: 0.5 },
+  'o3-mini': { input: 1.1, output: 4.4, cacheRead: 0.55 },
+  'o4-mini': { input: 1.1, output: 4.4, cacheRead: 0.275 },
+  'gemini-2.5-pro': { input: 1.25, output: 10, cacheRead: 0.31 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cacheRead: 0.075 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4, cacheRead: 0.025 },
+}
+
+/**
+ * プロバイダー/モデルの料金を料金表から解決する
+ *
+ * 解決順序:
+ * 1. `provider/model` と完全一致するキー
+ * 2. モデル名と完全一致するキー
+ * 3. モデル名が前方一致する最長のキー
+ */
+export function resolvePricing(
+  pricing: Readonly<Record<string, ModelPricing>>,
+  source: ResponseMetadata,
+): ModelPricing | undefined {
+  return resolveModelEntry(pricing, source)
+}
+
+/** TokenUsage の推定コスト（USD）を計算する。キャッシュの料金は省略時 input と同じ */
+export function estimateCost(usage: TokenUsage, pricing: ModelPricing): number {
+  const perToken = (rate: number): number => rate / 1_000_000
+  return (
+    usage.inputTokens * perToken(pricing.input) +
+    usage.outputTokens * perToken(pricing.output) +
+    (usage.cacheReadTokens ?? 0) * perToken(pricing.cacheRead ?? pricing.input) +
+    (usage.cacheWriteTokens ?? 0) * perToken(pricing.cacheWrite ?? pricing.input)
+  )
+}
+
+/** 入力（キャッシュ読み書きを含む）と出力の合計トークン数 */
+export function totalTokens(totals: UsageTotals): number {
+  return totals.inputTokens + totals.outputTokens + totals.cacheReadTokens + totals.cacheWriteTokens
+}
+
+// ---------------------------------------------------------------------------
+// 内部ミュータブル集計
+// ---------------------------------------------------------------------------
+
+type MutableTotals = { -readonly [K in keyof UsageTotals]: UsageTotals[K] }
+
+type MutableModelUsage = MutableTotals & Pick<ModelUsage, 'provider' | 'model' | 'priced'>
+
+function emptyTotals(): MutableTotals {
+  return {
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    costUsd: 0,
+  }
+}
+
+function addUsage(totals: MutableTotals, usage: TokenUsage, cost: number): void {
+  totals.requests++
+  totals.inputTokens += usage.inputTokens
+  totals.outputTokens += usage.outputTokens
+  totals.cacheReadTokens += usage.cacheReadTokens ?? 0
+  totals.cacheWriteTokens += usage.cacheWriteTokens ?? 0
+  totals.costUsd += cost
+}
+
+// ---------------------------------------------------------------------------
+// createUsageLedger
+// ---------------------------------------------------------------------------
+
+/**
+ * 設定から UsageLedger を生成する
+ *
+ * config.pricing は組み込みの料金表（DEFAULT_PRICING）に上書きマージされる。
+ * 料金が見つからないモデル（Ollama のローカルモデル等）はトークン数のみ集計する。
+ */
+export function createUsageLedger(config: UsageConfig = {}): UsageLedger {
+  const pricing = { ...DEFAULT_PRICING, ...config.pricing }
+  const { budget } = config
+
+  let turn = emptyTotals()
+  let session = emptyTotals()
+  let byModel = new Map<string, MutableModelUsage>()
+  let bySubAgent = new Map<string, MutableTotals>()
+
+  return {
+    record(usage: TokenUsage, source: ResponseMetadata, subAgentId?: string): void {
+      const modelPricing = resolvePricing(pricing, source)
+      const cost = modelPricing !== undefined ? estimateCost(usage, modelPricing) : 0
+
+      const key = `${source.provider}/${source.model}`
+      let model = byModel.get(key)
+      if (model === undefined) {
+        model = { ...emptyTotals(), ...source, priced: modelPricing !== undefined }
+        byModel.set(key, model)
+      }
+      addUsage(model, usage, cost)
+      addUsage(session, usage, cost)
+
+      if (subAgentId === undefined) {
+        addUsage(turn, usage, cost)
+        return
+      }
+      let subAgent = bySubAgent.get(subAgentId)
+      if (subAgent === undefined) {
+        subAgent = emptyTotals()
+        bySubAgent.set(subAgentId, subAgent)
+      }
+      addUsage(subAgent, usage, cost)
+    },
+
+    startTurn(): void {
+      turn = emptyTotals()
+    },
+
+    getSnapshot(): UsageSnapshot {
+      return {
+        turn: { ...turn },
+        session: { ...session },
+        byModel: [...byModel.values()].map((m) => ({ ...m })),
+        bySubAgent: [...bySubAgent].map(([id, totals]) => ({ id, ...totals })),
+        ...(budget !== undefined ? { budget } : {}),
+      }
+    },
+
+    checkBudget(): Result<void> {
+      if (budget?.maxCostUsd !== undefined && session.costUsd >= budget.maxCostUsd) {
+        return err(
+          `Usage budget exceeded: estimated cost $${session.costUsd.toFixed(4)} reached the limit of $${String(budget.maxCostUsd)}`,
+        )
+      }
+      const tokens = totalTokens(session)
+      if (budget?.maxTokens !== undefined && tokens >= budget.maxTokens) {
+        return err(
+          `Usage budget exceeded: ${String(tokens)} tokens reached the limit of ${String(budget.maxTokens)}`,
+        )
+      }
+      return ok(undefined)
+    },
+
+    reset(): void {
+      turn = emptyTotals()
+      session = emptyTotals()
+      byModel = new Map()
+      bySubAgent = new Map()
+    },
+  }
+}
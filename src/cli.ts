@@ -10,28 +10,59 @@ import { parseArgs } from 'node:util'
 import os from 'node:os'
 import path from 'node:path'
 import type { Result } from './result.js'
-import { err } from './result.js'
-import type { LLMProvider } from './providers/types.js'
-import type { ProviderConfig, WnConfig } from './loader/types.js'
+import type {
+  GenerationOptions,
+  LLMProvider,
+  Message,
+  ModelCapabilities,
+  ModelCatalogue,
+  ResponseMetadata,
+} from './providers/types.js'
+import type { CompactionConfig, ProviderConfig, WnConfig } from './loader/types.js'
 import type { RpcRequestHandler } from './rpc/types.js'
-import { createClaudeProvider } from './providers/claude.js'
-import { createOpenAIProvider } from './providers/openai.js'
-import { createOllamaProvider } from './providers/ollama.js'
-import { createGeminiProvider } from './providers/gemini.js'
+import { listOllamaModels } from './providers/ollama-models.js'
+import type { OllamaModel, OllamaPullProgress } from './providers/ollama-models.js'
+import type { SessionStore } from './session/types.js'
+import { createFileSessionStore } from './session/session-store.js'
+import {
+  createDefaultProviderRegistry,
+  createProviderChain,
+  loadProviderModules,
+} from './providers/registry.js'
+import type { ProviderRegistry } from './providers/registry.js'
+import { createModelCatalogue, fetchOllamaCapabilities } from './providers/models.js'
 import { createReadTool } from './tools/read.js'
 import { createWriteTool } from './tools/write.js'
+import { createEditTool, createMultiEditTool } from './tools/edit.js'
+import { createApplyPatchTool } from './tools/apply-patch.js'
 import { createShellTool } from './tools/shell.js'
+import { createShellSessionTool } from './tools/shell-session.js'
 import { createGrepTool } from './tools/grep.js'
 import { ToolRegistry } from './tools/types.js'
+import type { BuiltinToolOptions } from './tools/types.js'
+import { createWorkspacePolicy } from './tools/workspace.js'
+import { createShellPolicy } from './tools/shell-policy.js'
 import { AgentLoop, createNoopHandler } from './agent/agent-loop.js'
-import type { AgentLoopHandler } from './agent/types.js'
+import type {
+  AgentLoopHandler,
+  ApprovalPolicy,
+  ContextManager,
+  UsageLedger,
+} from './agent/types.js'
+import {
+  createSummarizingContextManager,
+  resolveCompactionMaxTokens,
+} from './agent/context-manager.js'
+import { createApprovalPolicy } from './agent/approval-policy.js'
+import { createUsageLedger } from './agent/usage-ledger.js'
 import {
   createRpcRequestHandler,
   createRpcServer,
   createStdioTransport,
   createRpcAgentHandler,
+  createRpcPullProgressHandler,
 } from './rpc/server.js'
-import { loadConfig } from './loader/config-loader.js'
+import { loadConfig, isGenerationOptions } from './loader/config-loader.js'
 import { loadPersonas } from './loader/persona-loader.js'
 import { loadSkills } from './loader/skill-loader.js'
 import { loadAgents } from './loader/agent-loader.js'
@@ -41,38 +72,95 @@ import type { McpManager } from './mcp/types.js'
 // ─── createProvider ───
 
 /**
- * プロバイダー名からファクトリ関数を呼び出し LLMProvider を生成する
+ * プロバイダー名から ProviderRegistry のファクトリ関数を呼び出し LLMProvider を生成する
+ *
+ * 生成前にモデルの能力カタログで設定を検証し（ツール非対応のモデル、最大出力トークン数の超過等）、
+ * 矛盾があればリクエストを送る前にエラーを返す。
+ * config.retry が指定されている場合は withRetry でラップし、再試行をログ出力する。
+ * wnConfig.fallback が指定されている場合は、指定プロバイダーを先頭とするフォールバックチェーンを返す
+ * （createProviderChain。サブエージェント Worker と共通）。
+ *
+ * @param wnConfig - フォールバック先のプロバイダー設定を解決するための設定
+ * @param registry - プロバイダー名の解決に使うレジストリ（省略時はビルトインのみ）
+ * @param catalogue - 設定の検証に使うモデルの能力カタログ（省略時は組み込みのみ）
  */
 export function createProvider(
   name: string,
   config: ProviderConfig,
   model: string,
+  wnConfig?: Pick<WnConfig, 'providers' | 'fallback'>,
+  registry: ProviderRegistry = createDefaultProviderRegistry(),
+  catalogue: ModelCatalogue = createModelCatalogue(),
 ): Result<LLMProvider> {
-  switch (name) {
-    case 'claude':
-      return createClaudeProvider(config, model)
-    case 'openai':
-      return createOpenAIProvider(config, model)
-    case 'ollama':
-      return createOllamaProvider(config, model)
-    case 'gemini':
-      return createGeminiProvider(config, model)
-    default:
-      return err(`Unknown provider: ${name}`)
+  return createProviderChain(registry, catalogue, name, config, model, wnConfig)
+}
+
+// ─── モデルの能力 ───
+
+/**
+ * Ollama のモデルであれば /api/show から能力を取得してカタログに登録する
+ *
+ * 取得に失敗した場合は警告を出力し、組み込み / config.json の能力だけで続行する。
+ */
+async function discoverModelCapabilities(
+  catalogue: ModelCatalogue,
+  name: string,
+  config: ProviderConfig,
+  model: string,
+): Promise<void> {
+  if ((config.type ?? name) !== 'ollama') return
+  const result = await fetchOllamaCapabilities(config, model)
+  if (!result.ok) {
+    console.error(`Failed to fetch capabilities of ${name}/${model}: ${result.error}`)
+    return
   }
+  catalogue.register({ provider: name, model }, result.data)
+}
+
+/**
+ * compaction 設定とモデルの能力から ContextManager を生成する
+ *
+ * maxTokens はモデルのコンテキストウィンドウに収まるように切り詰める。
+ * maxTokens が省略され、ウィンドウも不明な場合は圧縮を無効にする。
+ */
+function createContextManager(
+  compaction: CompactionConfig | undefined,
+  capabilities: ModelCapabilities | undefined,
+): ContextManager | undefined {
+  if (compaction === undefined) return undefined
+  const maxTokens = resolveCompactionMaxTokens(compaction, capabilities)
+  if (maxTokens === undefined) {
+    console.error('Context compaction disabled: the context window of the model is unknown')
+    return undefined
+  }
+  if (compaction.maxTokens !== undefined && maxTokens < compaction.maxTokens) {
+    console.error(
+      `compaction.maxTokens (${String(compaction.maxTokens)}) exceeds the context window; using ${String(maxTokens)}`,
+    )
+  }
+  return createSummarizingContextManager({ ...compaction, maxTokens })
 }
 
 // ─── createDefaultToolRegistry ───
 
 /**
- * 4つのビルトインツール（read, write, shell, grep）を登録した ToolRegistry を返す
+ * 8つのビルトインツール（read, write, edit, multi_edit, apply_patch, shell, shell_session, grep）を登録した
+ * ToolRegistry を返す
+ *
+ * options.workspace を指定すると全ツールのパスをワークスペースポリシーで制限する。
+ * options.shellPolicy を指定すると shell / shell_session のコマンドをそのポリシーで判定する（省略時は既定のポリシー）。
+ * shell_session のセッションは ToolRegistry.dispose() で終了する。
  */
-export function createDefaultToolRegistry(): ToolRegistry {
+export function createDefaultToolRegistry(options: BuiltinToolOptions = {}): ToolRegistry {
   const registry = new ToolRegistry()
-  registry.register(createReadTool())
-  registry.register(createWriteTool())
-  registry.register(createShellTool())
-  registry.register(createGrepTool())
+  registry.register(createReadTool(options))
+  registry.register(createWriteTool(options))
+  registry.register(createEditTool(options))
+  registry.register(createMultiEditTool(options))
+  registry.register(createApplyPatchTool(options))
+  registry.register(createShellTool(options))
+  registry.register(createShellSessionTool(options))
+  registry.register(createGrepTool(options))
   return registry
 }
 
@@ -87,10 +175,27 @@ export function createDefaultToolRegistry(): ToolRegistry {
 export interface ServeHandlerDeps {
   readonly config: WnConfig
   readonly agentLoopRef: { current: AgentLoop | undefined }
+  /** 現在の AgentLoop が使用しているプロバイダー（セッション切り替え時に引き継ぐ） */
+  readonly providerRef: { current: LLMProvider }
   readonly abortController: AbortController
   readonly toolRegistry: ToolRegistry
   readonly agentHandlerRef: { current: AgentLoopHandler }
   readonly systemMessage: string | undefined
+  readonly contextManager?: ContextManager
+  /** 指定すると会話をセッションとして永続化し、session/* メソッドを有効にする */
+  readonly sessionStore?: SessionStore
+  /** ツール実行の承認ポリシー（セッションを切り替えても allow-always は引き継がれる） */
+  readonly approvalPolicy?: ApprovalPolicy
+  /** トークン使用量の台帳（セッションを切り替えるとリセットされる） */
+  readonly usageLedger?: UsageLedger
+  /** configUpdate でのプロバイダー名の解決に使うレジストリ（省略時はビルトインのみ） */
+  readonly providerRegistry?: ProviderRegistry
+  /**
+   * モデルの能力カタログ。指定すると models/list を有効にし、configUpdate では
+   * 切り替え先のモデルの能力（Ollama は /api/show から取得）で設定を検証し、
+   * config.compaction の閾値をそのコンテキストウィンドウに合わせて作り直す
+   */
+  readonly modelCatalogue?: ModelCatalogue
 }
 
 // ─── 型ガード ───
@@ -98,11 +203,12 @@ export interface ServeHandlerDeps {
 /** configUpdate パラメータの型ガード */
 function isConfigUpdateParams(
   value: unknown,
-): value is { provider?: string; model?: string } {
+): value is { provider?: string; model?: string; generation?: GenerationOptions } {
   if (typeof value !== 'object' || value === null || Array.isArray(value)) return false
   const obj = value as Record<string, unknown>
   if ('provider' in obj && typeof obj['provider'] !== 'string') return false
   if ('model' in obj && typeof obj['model'] !== 'string') return false
+  if ('generation' in obj && !isGenerationOptions(obj['generation'])) return false
   return true
 }
 
@@ -113,15 +219,51 @@ function isInputParams(value: unknown): value is { text: string } {
   return 'text' in obj && typeof obj['text'] === 'string'
 }
 
+/** session/resume パラメータの型ガード */
+function isSessionResumeParams(value: unknown): value is { id: string } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false
+  const obj = value as Record<string, unknown>
+  return 'id' in obj && typeof obj['id'] === 'string'
+}
+
 // ─── createServeHandler ───
 
 /**
  * 依存オブジェクトから RPC リクエストハンドラを生成する
  *
- * TUI → Core 方向のリクエスト（input, abort, configUpdate）を処理する。
- * configUpdate ではプロバイダー/モデルのホットスワップを行う。
+ * TUI → Core 方向のリクエスト（input, abort, configUpdate, session/*, usage/get, models/list）を処理する。
+ * configUpdate ではプロバイダー/モデル/生成パラメータのホットスワップを行う。
  */
 export function createServeHandler(deps: ServeHandlerDeps): RpcRequestHandler {
+  /** 使用量の記録先（configUpdate で切り替わる） */
+  let usageSource: ResponseMetadata = {
+    provider: deps.config.defaultProvider,
+    model: deps.config.defaultModel,
+  }
+  /** コンテキスト圧縮（modelCatalogue 指定時は configUpdate で切り替え先のモデルに合わせる） */
+  let contextManager = deps.contextManager
+
+  /** 共通設定で AgentLoop を生成する */
+  function createLoop(
+    provider: LLMProvider,
+    session?: { id: string; history: readonly Message[] },
+  ): AgentLoop {
+    return new AgentLoop({
+      provider,
+      tools: deps.toolRegistry,
+      handler: deps.agentHandlerRef.current,
+      systemMessage: deps.systemMessage,
+      signal: deps.abortController.signal,
+      stream: true,
+      contextManager,
+      sessionStore: deps.sessionStore,
+      approvalPolicy: deps.approvalPolicy,
+      usageLedger: deps.usageLedger,
+      usageSource,
+      ...(session !== undefined ? { sessionId: session.id, history: session.history } : {}),
+    })
+  }
+
   return createRpcRequestHandler({
     async input(params: unknown): Promise<unknown> {
       if (!isInputParams(params)) {
@@ -138,30 +280,105 @@ export function createServeHandler(deps: ServeHandlerDeps): RpcRequestHandler {
       deps.abortController.abort()
       return Promise.resolve({ aborted: true })
     },
-    configUpdate(params: unknown): Promise<unknown> {
+    async configUpdate(params: unknown): Promise<unknown> {
       if (!isConfigUpdateParams(params)) {
-        return Promise.resolve({ applied: false })
+        return { applied: false }
       }
 
       const providerName = params.provider ?? deps.config.defaultProvider
       const modelName = params.model ?? deps.config.defaultModel
-      const providerConfig = deps.config.providers[providerName] ?? {}
+      const baseConfig = deps.config.providers[providerName] ?? {}
+      const providerConfig =
+        params.generation !== undefined
+          ? { ...baseConfig, generation: { ...baseConfig.generation, ...params.generation } }
+          : baseConfig
+
+      const catalogue = deps.modelCatalogue
+      if (catalogue !== undefined) {
+        await discoverModelCapabilities(catalogue, providerName, providerConfig, modelName)
+      }
 
-      const providerResult = createProvider(providerName, providerConfig, modelName)
+      const providerResult = createProvider(
+        providerName,
+        providerConfig,
+        modelName,
+        deps.config,
+        deps.providerRegistry,
+        catalogue,
+      )
       if (!providerResult.ok) {
-        return Promise.resolve({ applied: false })
+        console.error(`Failed to update config: ${providerResult.error}`)
+        return { applied: false }
       }
 
-      deps.agentLoopRef.current = new AgentLoop({
-        provider: providerResult.data,
-        tools: deps.toolRegistry,
-        handler: deps.agentHandlerRef.current,
-        systemMessage: deps.systemMessage,
-        signal: deps.abortController.signal,
-      })
+      deps.providerRef.current = providerResult.data
+      usageSource = { provider: providerName, model: modelName }
+      if (catalogue !== undefined) {
+        contextManager = createContextManager(
+          deps.config.compaction,
+          catalogue.resolve(usageSource),
+        )
+      }
+      deps.agentLoopRef.current = createLoop(providerResult.data)
 
       console.error(`Config updated: provider=${providerName}, model=${modelName}`)
-      return Promise.resolve({ applied: true })
+      return { applied: true }
+    },
+    async 'session/list'(): Promise<unknown> {
+      if (!deps.sessionStore) {
+        return { sessions: [] }
+      }
+      const result = await deps.sessionStore.list()
+      if (!result.ok) {
+        console.error(`Failed to list sessions: ${result.error}`)
+        return { sessions: [] }
+      }
+      return { sessions: result.data }
+    },
+    async 'session/resume'(params: unknown): Promise<unknown> {
+      if (!deps.sessionStore || !isSessionResumeParams(params)) {
+        return { resumed: false }
+      }
+      const loaded = await deps.sessionStore.load(params.id)
+      if (!loaded.ok) {
+        console.error(`Failed to resume session: ${loaded.error}`)
+        return { resumed: false }
+      }
+      deps.usageLedger?.reset()
+      // 前の会話のシェルセッション（cwd・環境変数）を引き継がない
+      await deps.toolRegistry.dispose()
+      deps.agentLoopRef.current = createLoop(deps.providerRef.current, {
+        id: params.id,
+        history: loaded.data,
+      })
+      return { resumed: true, messages: loaded.data }
+    },
+    async 'session/new'(): Promise<unknown> {
+      if (!deps.sessionStore) {
+        return { created: false }
+      }
+      deps.usageLedger?.reset()
+      await deps.toolRegistry.dispose()
+      const loop = createLoop(deps.providerRef.current)
+      deps.agentLoopRef.current = loop
+      return { created: true, id: loop.getSessionId() }
+    },
+    'usage/get'(): Promise<unknown> {
+      if (!deps.usageLedger) {
+        return Promise.resolve({})
+      }
+      return Promise.resolve({ usage: deps.usageLedger.getSnapshot() })
+    },
+    'models/list'(): Promise<unknown> {
+      const catalogue = deps.modelCatalogue
+      if (!catalogue) {
+        return Promise.resolve({ models: [] })
+      }
+      const capabilities = catalogue.resolve(usageSource)
+      return Promise.resolve({
+        models: catalogue.list(),
+        current: { ...usageSource, ...(capabilities !== undefined ? { capabilities } : {}) },
+      })
     },
   })
 }
@@ -190,9 +407,44 @@ async function serve(args: { provider?: string; model?: string; persona?: string
   }
   const config = configResult.data
 
-  // 2. プロバイダー生成
+  // 2. プロバイダー生成（providerModules のプロバイダーを登録し、fallback 設定があればフォールバックチェーンを構築）
+  // autoPull の進捗は RPC サーバーの起動後に通知する（pull は初回の LLM 呼び出し時に行われる）
+  const pullProgressRef: {
+    current: ((model: string, progress: OllamaPullProgress) => void) | undefined
+  } = { current: undefined }
+  const providerRegistry = createDefaultProviderRegistry({
+    ollama: {
+      onPullProgress: (model, progress) => {
+        pullProgressRef.current?.(model, progress)
+      },
+    },
+  })
+  const modulesResult = await loadProviderModules(providerRegistry, config.providerModules ?? [])
+  if (!modulesResult.ok) {
+    console.error(modulesResult.error)
+    process.exit(1)
+  }
   const providerConfig = config.providers[config.defaultProvider] ?? {}
-  const providerResult = createProvider(config.defaultProvider, providerConfig, config.defaultModel)
+  // モデルの能力カタログ（組み込み + config.models。Ollama のモデルは /api/show から取得する）
+  const modelCatalogue = createModelCatalogue(config.models)
+  await discoverModelCapabilities(
+    modelCatalogue,
+    config.defaultProvider,
+    providerConfig,
+    config.defaultModel,
+  )
+  for (const target of config.fallback?.chain ?? []) {
+    const targetConfig = config.providers[target.provider] ?? {}
+    await discoverModelCapabilities(modelCatalogue, target.provider, targetConfig, target.model)
+  }
+  const providerResult = createProvider(
+    config.defaultProvider,
+    providerConfig,
+    config.defaultModel,
+    config,
+    providerRegistry,
+    modelCatalogue,
+  )
   if (!providerResult.ok) {
     console.error(`Failed to create provider: ${providerResult.error}`)
     process.exit(1)
@@ -221,8 +473,14 @@ async function serve(args: { provider?: string; model?: string; persona?: string
 
   const personas = personasResult.data
 
-  // 4. ToolRegistry 構築
-  const toolRegistry = createDefaultToolRegistry()
+  // 4. ToolRegistry 構築（config.workspace があれば組み込みツールのパスを、config.shell があれば
+  //    shell のコマンドを制限する）
+  const toolRegistry = createDefaultToolRegistry({
+    ...(config.workspace !== undefined
+      ? { workspace: createWorkspacePolicy(config.workspace) }
+      : {}),
+    ...(config.shell !== undefined ? { shellPolicy: createShellPolicy(config.shell) } : {}),
+  })
 
   // 5. MCP 接続（設定がある場合のみ）
   let mcpManager: McpManager | undefined
@@ -247,21 +505,44 @@ async function serve(args: { provider?: string; model?: string; persona?: string
   const persona = personas.get(config.defaultPersona)
   const systemMessage = persona?.content
 
-  // 8. RPC トランスポート + サーバー（循環参照回避）
+  // 8. コンテキスト圧縮（設定がある場合のみ。閾値はモデルのコンテキストウィンドウに合わせる）
+  const contextManager = createContextManager(
+    config.compaction,
+    modelCatalogue.resolve({ provider: config.defaultProvider, model: config.defaultModel }),
+  )
+
+  // 9. ツール承認ポリシー（設定がある場合のみ）
+  const approvalPolicy = config.approval ? createApprovalPolicy(config.approval) : undefined
+
+  // 10. セッションストア（.wn/sessions/<id>.jsonl）
+  const sessionStore = createFileSessionStore(path.join(localDir, 'sessions'))
+
+  // 11. トークン使用量の台帳（料金表の上書き・セッション上限は config.usage）
+  const usageLedger = createUsageLedger(config.usage)
+
+  // 12. RPC トランスポート + サーバー（循環参照回避）
   const transport = createStdioTransport(process.stdin, process.stdout)
 
   // agentLoop / agentHandler を後から代入するためオブジェクトで間接参照
   const agentLoopRef: { current: AgentLoop | undefined } = { current: undefined }
+  const providerRef: { current: LLMProvider } = { current: provider }
   const agentHandlerRef: { current: AgentLoopHandler } = { current: createNoopHandler() }
 
   // createServeHandler で統一的にハンドラを生成（configUpdate ホットスワップ対応）
   const rpcHandler = createServeHandler({
     config,
     agentLoopRef,
+    providerRef,
     abortController,
     toolRegistry,
     agentHandlerRef,
     systemMessage,
+    contextManager,
+    sessionStore,
+    approvalPolicy,
+    usageLedger,
+    providerRegistry,
+    modelCatalogue,
   })
 
   const rpcServer = createRpcServer({ transport, handler: rpcHandler })
@@ -269,6 +550,7 @@ async function serve(args: { provider?: string; model?: string; persona?: string
   // AgentLoop のイベントを RPC 通知としてクライアントに送信する
   const agentHandler = createRpcAgentHandler(rpcServer)
   agentHandlerRef.current = agentHandler
+  pullProgressRef.current = createRpcPullProgressHandler(rpcServer)
 
   agentLoopRef.current = new AgentLoop({
     provider,
@@ -276,13 +558,20 @@ async function serve(args: { provider?: string; model?: string; persona?: string
     handler: agentHandler,
     systemMessage,
     signal: abortController.signal,
+    stream: true,
+    contextManager,
+    sessionStore,
+    approvalPolicy,
+    usageLedger,
+    usageSource: { provider: config.defaultProvider, model: config.defaultModel },
   })
 
-  // 9. シグナルハンドラ（graceful shutdown）
+  // 13. シグナルハンドラ（graceful shutdown）
   const shutdown = (): void => {
     console.error('Shutting down...')
     abortController.abort()
     rpcServer.stop()
+    void toolRegistry.dispose()
     if (mcpManager) {
       void mcpManager.closeAll()
     }
@@ -291,15 +580,91 @@ async function serve(args: { provider?: string; model?: string; persona?: string
   process.on('SIGINT', shutdown)
   process.on('SIGTERM', shutdown)
 
-  // 10. 起動ログ（stderr に出力 — stdout は JSON-RPC 用）
+  // 14. 起動ログ（stderr に出力 — stdout は JSON-RPC 用）
   console.error(
     `wn-core serve started (provider=${config.defaultProvider}, model=${config.defaultModel})`,
   )
 
-  // 11. RPC サーバー開始（入力ストリームが終了するまでブロック）
+  // 15. RPC サーバー開始（入力ストリームが終了するまでブロック）
   await rpcServer.start()
 }
 
+// ─── models ───
+
+/** バイト数を Ollama の CLI と同じ 10 進の単位（KB / MB / GB）で表す */
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB']
+  let value = bytes
+  let unit = 0
+  while (value >= 1000 && unit < units.length - 1) {
+    value /= 1000
+    unit++
+  }
+  return `${unit === 0 ? String(value) : value.toFixed(1)} ${units[unit] ?? 'B'}`
+}
+
+/**
+ * ローカルモデルの一覧を表形式の文字列にする（models サブコマンドの出力）
+ *
+ * 列は NAME / PARAMETERS / QUANTIZATION / SIZE / MODIFIED（日付のみ）。
+ */
+export function formatModelTable(models: readonly OllamaModel[]): string {
+  const header = ['NAME', 'PARAMETERS', 'QUANTIZATION', 'SIZE', 'MODIFIED']
+  const rows = [
+    header,
+    ...models.map((m) => [
+      m.name,
+      m.parameterSize ?? '-',
+      m.quantizationLevel ?? '-',
+      formatBytes(m.size),
+      m.modifiedAt.slice(0, 10),
+    ]),
+  ]
+  const widths = header.map((_, i) => Math.max(...rows.map((row) => (row[i] ?? '').length)))
+  return rows
+    .map((row) =>
+      row
+        .map((cell, i) => cell.padEnd(widths[i] ?? 0))
+        .join('  ')
+        .trimEnd(),
+    )
+    .join('\n')
+}
+
+/**
+ * models サブコマンドの本体
+ *
+ * Ollama プロバイダー（--provider で指定、省略時は 'ollama'）のローカルモデルを一覧表示する。
+ */
+async function models(args: { provider?: string }): Promise<void> {
+  const globalDir = path.join(os.homedir(), '.wn')
+  const localDir = path.join(process.cwd(), '.wn')
+
+  const configResult = await loadConfig(globalDir, localDir)
+  if (!configResult.ok) {
+    console.error(`Failed to load config: ${configResult.error.message}`)
+    process.exit(1)
+  }
+
+  const name = args.provider ?? 'ollama'
+  const providerConfig = configResult.data.providers[name] ?? {}
+  if ((providerConfig.type ?? name) !== 'ollama') {
+    console.error(`Listing models is only supported for Ollama providers: ${name}`)
+    process.exit(1)
+  }
+
+  const result = await listOllamaModels(providerConfig)
+  if (!result.ok) {
+    console.error(`Failed to list models: ${result.error}`)
+    process.exit(1)
+  }
+  if (result.data.length === 0) {
+    console.log('No local models')
+    return
+  }
+  console.log(formatModelTable(result.data))
+}
+
 // ─── main ───
 
 /**
@@ -325,11 +690,14 @@ export async function main(): Promise<void> {
       model: values.model,
       persona: values.persona,
     })
+  } else if (subcommand === 'models') {
+    await models({ provider: values.provider })
   } else {
     console.error('Usage: wn-core <command>')
     console.error('')
     console.error('Commands:')
     console.error('  serve   Start the JSON-RPC agent server')
+    console.error('  models  List local Ollama models')
     console.error('')
     console.error('Options:')
     console.error('  --provider <name>   LLM provider (claude, openai, ollama, gemini)')
@@ -14,24 +14,153 @@ export type {
   LLMResponse,
   LLMProvider,
   StreamChunk,
+  ResponseMetadata,
+  GenerationOptions,
+  ThinkingBlock,
+  ThinkingOptions,
+  TextPart,
+  ImagePart,
+  DocumentPart,
+  ContentPart,
+  MessageContent,
+  ResponseFormat,
+  CompletionOptions,
+  ToolChoice,
+  ModelCapabilities,
+  ModelInfo,
+  ModelCatalogue,
 } from './providers/types.js'
 
+// Structured output
+export {
+  DEFAULT_RESPONSE_FORMAT_NAME,
+  getResponseFormatName,
+  validateJsonSchema,
+  parseStructuredOutput,
+} from './providers/structured-output.js'
+
+// Model capabilities
+export {
+  DEFAULT_MODEL_CAPABILITIES,
+  createModelCatalogue,
+  resolveModelEntry,
+  validateModelCapabilities,
+  fetchOllamaCapabilities,
+} from './providers/models.js'
+
+// Token counting
+export { countTextTokens, estimatePromptTokens } from './providers/token-count.js'
+
+// Ollama model management
+export {
+  DEFAULT_OLLAMA_BASE_URL,
+  listOllamaModels,
+  showOllamaModel,
+  pullOllamaModel,
+  ensureOllamaModel,
+} from './providers/ollama-models.js'
+export type {
+  OllamaModel,
+  OllamaShowResponse,
+  OllamaPullProgress,
+} from './providers/ollama-models.js'
+
+// Message content helpers
+export {
+  toContentParts,
+  getTextContent,
+  getImageParts,
+  isContentPart,
+  isMessageContent,
+} from './providers/content.js'
+
 // LLM Provider factories
 export { createClaudeProvider } from './providers/claude.js'
 export { createOpenAIProvider } from './providers/openai.js'
+export { createOpenAICompatibleProvider } from './providers/openai-compatible.js'
 export { createOllamaProvider } from './providers/ollama.js'
+export type { OllamaProviderOptions } from './providers/ollama.js'
 export { createGeminiProvider } from './providers/gemini.js'
 
+// Provider registry
+export {
+  ProviderRegistry,
+  createConfiguredProvider,
+  createDefaultProviderRegistry,
+  createProviderChain,
+  loadProviderModules,
+} from './providers/registry.js'
+export type {
+  ProviderFactory,
+  ProviderModuleRegister,
+  DefaultProviderRegistryOptions,
+} from './providers/registry.js'
+
+// Provider retry
+export { withRetry, classifyError, isRetryableFailure, parseRetryAfter } from './providers/retry.js'
+export type { RetryPolicy, RetryAttempt, ErrorClassification } from './providers/retry.js'
+
+// Provider fallback chain
+export { createFallbackProvider } from './providers/fallback.js'
+export type { FallbackEntry, FallbackEvent, FallbackOptions } from './providers/fallback.js'
+
+// Offline providers (scripted / record-replay)
+export {
+  createScriptedProvider,
+  createScriptedProviderFromConfig,
+  responseToChunks,
+  chunksToResponse,
+} from './providers/scripted.js'
+export type {
+  ScriptedProvider,
+  ScriptedTurn,
+  ScriptedExpectation,
+  ScriptedRequest,
+} from './providers/scripted.js'
+export {
+  createRecordingProvider,
+  createReplayProvider,
+  createCassetteProvider,
+} from './providers/cassette.js'
+export type { Cassette, CassetteInteraction } from './providers/cassette.js'
+
 // Tool types + ToolRegistry
-export type { ToolResult, ToolDefinition } from './tools/types.js'
+export type {
+  ToolResult,
+  ToolDefinition,
+  BuiltinToolOptions,
+  ToolAssessment,
+  ShellPolicy,
+  ShellCommandDecision,
+  WorkspacePolicy,
+  WorkspaceViolation,
+  WorkspaceViolationCode,
+} from './tools/types.js'
 export { ToolRegistry } from './tools/types.js'
 
 // Built-in tools
 export { createReadTool } from './tools/read.js'
 export { createWriteTool } from './tools/write.js'
+export { createEditTool, createMultiEditTool } from './tools/edit.js'
+export { createApplyPatchTool } from './tools/apply-patch.js'
+export { parsePatch, applyHunks } from './tools/patch.js'
+export type { FilePatch, PatchHunk, HunkLine, HunkResult, ApplyHunksResult } from './tools/patch.js'
 export { createGrepTool } from './tools/grep.js'
 export { createShellTool, getShellConfig } from './tools/shell.js'
 export type { ShellConfig } from './tools/shell.js'
+export { createShellSession, createShellSessionTool } from './tools/shell-session.js'
+export type {
+  ShellSession,
+  ShellSessionOptions,
+  ShellSessionResult,
+} from './tools/shell-session.js'
+export {
+  createShellPolicy,
+  parseShellCommand,
+  DEFAULT_SHELL_TIMEOUT_MS,
+} from './tools/shell-policy.js'
+export type { ParsedShellCommand, ShellSimpleCommand, ShellRedirect } from './tools/shell-policy.js'
+export { createWorkspacePolicy, mergeWorkspaceConfig } from './tools/workspace.js'
 
 // Agent types
 export type { SubAgentStatus, SubAgentHandle, AgentConfig, SubAgentRunner } from './agent/types.js'
@@ -41,11 +170,51 @@ export type {
   SubAgentRunnerOptions,
   MessageSender,
 } from './agent/types.js'
-export type { AgentLoopState, AgentLoopHandler, AgentLoopOptions } from './agent/types.js'
+export type {
+  AgentLoopState,
+  AgentLoopHandler,
+  AgentLoopOptions,
+  StepOptions,
+  ToolConcurrency,
+  ContextManager,
+  CompactionResult,
+  CompactionStats,
+  ApprovalDecision,
+  ApprovalPolicy,
+  UsageLedger,
+  UsageSnapshot,
+  UsageTotals,
+  ModelUsage,
+  SubAgentUsage,
+} from './agent/types.js'
 
 // AgentLoop
 export { AgentLoop, createNoopHandler } from './agent/agent-loop.js'
 
+// Context management
+export {
+  createSummarizingContextManager,
+  resolveCompactionMaxTokens,
+  SUMMARY_PREFIX,
+} from './agent/context-manager.js'
+export type { SummarizingContextManagerOptions } from './agent/context-manager.js'
+
+// Tool approval
+export { createApprovalPolicy, matchToolPattern } from './agent/approval-policy.js'
+
+// Usage ledger
+export {
+  createUsageLedger,
+  resolvePricing,
+  estimateCost,
+  totalTokens,
+  DEFAULT_PRICING,
+} from './agent/usage-ledger.js'
+
+// Session
+export type { SessionInfo, SessionStore } from './session/types.js'
+export { createFileSessionStore, isValidSessionId } from './session/session-store.js'
+
 // SubAgentRunner
 export {
   resolveWorkerData,
@@ -57,8 +226,22 @@ export {
 export type {
   WnConfig,
   ProviderConfig,
+  RetryConfig,
+  PromptCachingConfig,
+  OpenAICompatibleQuirks,
+  CassetteConfig,
+  FallbackConfig,
+  FallbackTarget,
   McpConfig,
   McpServerConfig,
+  CompactionConfig,
+  ApprovalConfig,
+  WorkspaceConfig,
+  ShellPolicyConfig,
+  ApprovalMode,
+  ModelPricing,
+  UsageBudget,
+  UsageConfig,
   Persona,
   Skill,
   AgentDef,
@@ -79,18 +262,37 @@ export type {
   JsonRpcSuccessResponse,
   JsonRpcErrorObject,
   JsonRpcErrorResponse,
+  JsonRpcResponse,
   RpcResponseParams,
+  RpcResponseDeltaParams,
+  RpcReasoningParams,
   RpcToolExecStartParams,
   RpcToolExecEndParams,
   RpcToolExecParams,
   RpcStateChangeParams,
   RpcLogParams,
+  RpcContextCompactedParams,
+  RpcUsageParams,
+  RpcApprovalRequestParams,
+  RpcApprovalRequestResult,
   RpcInputParams,
   RpcInputResult,
   RpcAbortParams,
   RpcAbortResult,
   RpcConfigUpdateParams,
   RpcConfigUpdateResult,
+  RpcSessionListParams,
+  RpcSessionListResult,
+  RpcSessionResumeParams,
+  RpcSessionResumeResult,
+  RpcSessionNewParams,
+  RpcSessionNewResult,
+  RpcUsageGetParams,
+  RpcUsageGetResult,
+  RpcModelsListParams,
+  RpcModelsListResult,
+  RpcCurrentModel,
+  RpcPullProgressParams,
   RpcTransport,
   RpcRequestHandler,
   RpcServer,
@@ -103,7 +305,10 @@ export {
   isJsonRpcRequest,
   isJsonRpcNotification,
   isJsonRpcIncoming,
+  isJsonRpcResponse,
   decodeJsonRpc,
+  decodeJsonRpcResponse,
+  encodeRequest,
   encodeNotification,
   encodeSuccessResponse,
   encodeErrorResponse,
@@ -119,6 +324,7 @@ export {
   createRpcServer,
   createStdioTransport,
   createRpcAgentHandler,
+  createRpcPullProgressHandler,
 } from './rpc/server.js'
 
 // Loader functions
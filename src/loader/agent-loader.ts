@@ -2,7 +2,8 @@ import fs from 'node:fs'
 import path from 'node:path'
 import type { Result } from '../result.js'
 import { ok, err } from '../result.js'
-import type { AgentDef, LoaderError } from './types.js'
+import type { AgentDef, LoaderError, WorkspaceConfig } from './types.js'
+import type { GenerationOptions } from '../providers/types.js'
 import { parseFrontmatter } from './frontmatter.js'
 
 /**
@@ -41,6 +42,60 @@ function getStringArray(
   return []
 }
 
+/**
+ * attributes から数値を安全に取得する。
+ * 値が数値として解釈できなければ undefined を返す。
+ */
+function getNumber(
+  attrs: Readonly<Record<string, string | readonly string[]>>,
+  key: string,
+): number | undefined {
+  const val = attrs[key]
+  if (typeof val !== 'string' || val.trim() === '') return undefined
+  const num = Number(val)
+  return Number.isFinite(num) ? num : undefined
+}
+
+/**
+ * attributes から生成パラメータ（maxTokens / temperature / topP / stop / seed）を取得する。
+ * いずれも指定されていなければ undefined を返す。
+ */
+function getGenerationOptions(
+  attrs: Readonly<Record<string, string | readonly string[]>>,
+): GenerationOptions | undefined {
+  const maxTokens = getNumber(attrs, 'maxTokens')
+  const temperature = getNumber(attrs, 'temperature')
+  const topP = getNumber(attrs, 'topP')
+  const seed = getNumber(attrs, 'seed')
+  const stopVal = attrs['stop']
+  const stop = typeof stopVal === 'string' ? [stopVal] : stopVal
+
+  const generation: GenerationOptions = {
+    ...(maxTokens !== undefined ? { maxTokens } : {}),
+    ...(temperature !== undefined ? { temperature } : {}),
+    ...(topP !== undefined ? { topP } : {}),
+    ...(stop !== undefined ? { stop } : {}),
+    ...(seed !== undefined ? { seed } : {}),
+  }
+  return Object.keys(generation).length > 0 ? generation : undefined
+}
+
+/**
+ * attributes からワークスペース設定（workspaceRoots / workspaceDeny）を取得する。
+ * いずれも指定されていなければ undefined を返す。
+ */
+function getWorkspaceConfig(
+  attrs: Readonly<Record<string, string | readonly string[]>>,
+): WorkspaceConfig | undefined {
+  const roots = attrs['workspaceRoots']
+  const deny = attrs['workspaceDeny']
+  const workspace: WorkspaceConfig = {
+    ...(roots !== undefined ? { roots: typeof roots === 'string' ? [roots] : roots } : {}),
+    ...(deny !== undefined ? { deny: typeof deny === 'string' ? [deny] : deny } : {}),
+  }
+  return Object.keys(workspace).length > 0 ? workspace : undefined
+}
+
 /**
  * 指定ディレクトリから .md ファイルを読み込み、AgentDef の Map を返す。
  * ディレクトリが存在しない場合（ENOENT）は空 Map を返す。
@@ -92,8 +147,19 @@ async function loadAgentsFromDir(dir: string): Promise<Result<Map<string, AgentD
     const provider = getString(attributes, 'provider', '')
     const model = getString(attributes, 'model', '')
     const description = body
-
-    agents.set(name, { name, persona, skills, provider, model, description })
+    const generation = getGenerationOptions(attributes)
+    const workspace = getWorkspaceConfig(attributes)
+
+    agents.set(name, {
+      name,
+      persona,
+      skills,
+      provider,
+      model,
+      description,
+      ...(generation !== undefined ? { generation } : {}),
+      ...(workspace !== undefined ? { workspace } : {}),
+    })
   }
 
   return ok(agents)
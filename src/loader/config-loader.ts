@@ -2,7 +2,28 @@ import * as fs from 'node:fs/promises'
 import * as path from 'node:path'
 import type { Result } from '../result.js'
 import { ok, err } from '../result.js'
-import type { WnConfig, ProviderConfig, McpConfig, McpServerConfig, LoaderError } from './types.js'
+import type {
+  WnConfig,
+  ProviderConfig,
+  RetryConfig,
+  PromptCachingConfig,
+  OpenAICompatibleQuirks,
+  CassetteConfig,
+  McpConfig,
+  McpServerConfig,
+  CompactionConfig,
+  FallbackConfig,
+  FallbackTarget,
+  ApprovalConfig,
+  ApprovalMode,
+  ModelPricing,
+  UsageBudget,
+  UsageConfig,
+  WorkspaceConfig,
+  ShellPolicyConfig,
+  LoaderError,
+} from './types.js'
+import type { GenerationOptions, ModelCapabilities, ThinkingOptions } from '../providers/types.js'
 
 const DEFAULT_PROVIDER = 'claude'
 const DEFAULT_MODEL = 'claude-sonnet-4-20250514'
@@ -119,17 +140,116 @@ function substituteEnvVars(obj: unknown): unknown {
   return obj
 }
 
+/**
+ * unknown 値が RetryConfig の形状かどうかを判定する型ガード
+ */
+function isRetryConfig(value: unknown): value is RetryConfig {
+  if (!isPlainObject(value)) return false
+  const numberKeys = ['maxAttempts', 'initialDelayMs', 'maxDelayMs', 'backoffMultiplier'] as const
+  for (const key of numberKeys) {
+    if (key in value && (typeof value[key] !== 'number' || value[key] < 0)) return false
+  }
+  if ('jitter' in value && typeof value['jitter'] !== 'boolean') return false
+  return true
+}
+
+/**
+ * unknown 値が ThinkingOptions の形状かどうかを判定する型ガード
+ */
+function isThinkingOptions(value: unknown): value is ThinkingOptions {
+  if (!isPlainObject(value)) return false
+  const budget = value['budgetTokens']
+  if (typeof budget !== 'number' || budget <= 0) return false
+  if ('effort' in value && !['low', 'medium', 'high'].includes(String(value['effort']))) {
+    return false
+  }
+  return true
+}
+
+/**
+ * unknown 値が GenerationOptions の形状かどうかを判定する型ガード
+ *
+ * configUpdate RPC のパラメータ検証でも使うため export する。
+ */
+export function isGenerationOptions(value: unknown): value is GenerationOptions {
+  if (!isPlainObject(value)) return false
+  const numberKeys = ['maxTokens', 'temperature', 'topP', 'seed'] as const
+  for (const key of numberKeys) {
+    if (key in value && typeof value[key] !== 'number') return false
+  }
+  if ('stop' in value) {
+    const stop = value['stop']
+    if (!Array.isArray(stop) || !stop.every((s) => typeof s === 'string')) return false
+  }
+  if ('thinking' in value && !isThinkingOptions(value['thinking'])) return false
+  return true
+}
+
+/**
+ * unknown 値が PromptCachingConfig の形状かどうかを判定する型ガード
+ */
+function isPromptCachingConfig(value: unknown): value is PromptCachingConfig {
+  if (!isPlainObject(value)) return false
+  for (const key of ['system', 'tools', 'messages'] as const) {
+    if (key in value && typeof value[key] !== 'boolean') return false
+  }
+  if ('ttl' in value && value['ttl'] !== '5m' && value['ttl'] !== '1h') return false
+  return true
+}
+
+/**
+ * unknown 値が OpenAICompatibleQuirks の形状かどうかを判定する型ガード
+ */
+function isOpenAICompatibleQuirks(value: unknown): value is OpenAICompatibleQuirks {
+  if (!isPlainObject(value)) return false
+  if ('headers' in value) {
+    const headers = value['headers']
+    if (!isPlainObject(headers)) return false
+    if (!Object.values(headers).every((v) => typeof v === 'string')) return false
+  }
+  for (const key of ['disableStreamUsage', 'synthesizeToolCallIds', 'emulateToolCalls']) {
+    if (key in value && typeof value[key] !== 'boolean') return false
+  }
+  return true
+}
+
+/**
+ * unknown 値が CassetteConfig の形状かどうかを判定する型ガード
+ */
+function isCassetteConfig(value: unknown): value is CassetteConfig {
+  if (!isPlainObject(value)) return false
+  if (typeof value['path'] !== 'string') return false
+  if ('mode' in value && value['mode'] !== 'record' && value['mode'] !== 'replay') return false
+  if ('provider' in value && !isProviderConfig(value['provider'])) return false
+  return true
+}
+
 /**
  * unknown 値が ProviderConfig の形状かどうかを判定する型ガード
  */
 function isProviderConfig(value: unknown): value is ProviderConfig {
   if (!isPlainObject(value)) return false
+  if ('type' in value && typeof value['type'] !== 'string') return false
   if ('apiKey' in value && typeof value['apiKey'] !== 'string') return false
   if ('authToken' in value && typeof value['authToken'] !== 'string') return false
   if ('baseUrl' in value && typeof value['baseUrl'] !== 'string') return false
+  if ('retry' in value && !isRetryConfig(value['retry'])) return false
+  if ('generation' in value && !isGenerationOptions(value['generation'])) return false
+  if ('promptCaching' in value && !isPromptCachingConfig(value['promptCaching'])) return false
+  if ('quirks' in value && !isOpenAICompatibleQuirks(value['quirks'])) return false
+  if ('script' in value && typeof value['script'] !== 'string') return false
+  if ('cassette' in value && !isCassetteConfig(value['cassette'])) return false
+  if ('autoPull' in value && typeof value['autoPull'] !== 'boolean') return false
   return true
 }
 
+/**
+ * unknown 値が文字列の配列かどうかを判定する型ガード
+ */
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string')
+}
+
 /**
  * unknown 値が McpServerConfig の形状かどうかを判定する型ガード
  */
@@ -150,6 +270,153 @@ function isMcpConfig(value: unknown): value is McpConfig {
   return value['servers'].every((s) => isMcpServerConfig(s))
 }
 
+/** 正の有限数かどうか */
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0
+}
+
+/**
+ * unknown 値が CompactionConfig の形状かどうかを判定する型ガード
+ */
+function isCompactionConfig(value: unknown): value is CompactionConfig {
+  if (!isPlainObject(value)) return false
+  if ('maxTokens' in value && !isPositiveNumber(value['maxTokens'])) return false
+  if ('keepRecentMessages' in value && typeof value['keepRecentMessages'] !== 'number') return false
+  return true
+}
+
+/**
+ * unknown 値が FallbackTarget の形状かどうかを判定する型ガード
+ */
+function isFallbackTarget(value: unknown): value is FallbackTarget {
+  if (!isPlainObject(value)) return false
+  return typeof value['provider'] === 'string' && typeof value['model'] === 'string'
+}
+
+/**
+ * unknown 値が FallbackConfig の形状かどうかを判定する型ガード
+ */
+function isFallbackConfig(value: unknown): value is FallbackConfig {
+  if (!isPlainObject(value)) return false
+  if (!Array.isArray(value['chain'])) return false
+  return value['chain'].every((t) => isFallbackTarget(t))
+}
+
+/**
+ * unknown 値が ApprovalMode かどうかを判定する型ガード
+ */
+function isApprovalMode(value: unknown): value is ApprovalMode {
+  return value === 'auto' || value === 'ask' || value === 'deny'
+}
+
+/**
+ * unknown 値が ApprovalConfig の形状かどうかを判定する型ガード
+ */
+function isApprovalConfig(value: unknown): value is ApprovalConfig {
+  if (!isPlainObject(value)) return false
+  if ('default' in value && !isApprovalMode(value['default'])) return false
+  if ('tools' in value) {
+    const tools = value['tools']
+    if (!isPlainObject(tools)) return false
+    if (!Object.values(tools).every((mode) => isApprovalMode(mode))) return false
+  }
+  return true
+}
+
+/**
+ * unknown 値が WorkspaceConfig の形状かどうかを判定する型ガード
+ */
+function isWorkspaceConfig(value: unknown): value is WorkspaceConfig {
+  if (!isPlainObject(value)) return false
+  if ('roots' in value && !isStringArray(value['roots'])) return false
+  if ('deny' in value && !isStringArray(value['deny'])) return false
+  if ('allowSymlinkEscape' in value && typeof value['allowSymlinkEscape'] !== 'boolean') {
+    return false
+  }
+  return true
+}
+
+/**
+ * unknown 値が ShellPolicyConfig の形状かどうかを判定する型ガード
+ */
+function isShellPolicyConfig(value: unknown): value is ShellPolicyConfig {
+  if (!isPlainObject(value)) return false
+  if ('allow' in value && !isStringArray(value['allow'])) return false
+  if ('deny' in value && !isStringArray(value['deny'])) return false
+  if ('dangerous' in value && !isApprovalMode(value['dangerous'])) return false
+  if ('timeoutMs' in value) {
+    const timeoutMs = value['timeoutMs']
+    if (typeof timeoutMs !== 'number' || !Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+      return false
+    }
+  }
+  return true
+}
+
+/** 0 以上の有限数かどうか */
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+}
+
+/**
+ * unknown 値が ModelPricing の形状かどうかを判定する型ガード
+ */
+function isModelPricing(value: unknown): value is ModelPricing {
+  if (!isPlainObject(value)) return false
+  if (!isNonNegativeNumber(value['input']) || !isNonNegativeNumber(value['output'])) return false
+  for (const key of ['cacheRead', 'cacheWrite'] as const) {
+    if (key in value && !isNonNegativeNumber(value[key])) return false
+  }
+  return true
+}
+
+/**
+ * unknown 値が UsageBudget の形状かどうかを判定する型ガード
+ */
+function isUsageBudget(value: unknown): value is UsageBudget {
+  if (!isPlainObject(value)) return false
+  for (const key of ['maxCostUsd', 'maxTokens'] as const) {
+    if (key in value && !isNonNegativeNumber(value[key])) return false
+  }
+  return true
+}
+
+/**
+ * unknown 値が UsageConfig の形状かどうかを判定する型ガード
+ */
+function isUsageConfig(value: unknown): value is UsageConfig {
+  if (!isPlainObject(value)) return false
+  if ('pricing' in value) {
+    const pricing = value['pricing']
+    if (!isPlainObject(pricing)) return false
+    if (!Object.values(pricing).every((p) => isModelPricing(p))) return false
+  }
+  if ('budget' in value && !isUsageBudget(value['budget'])) return false
+  return true
+}
+
+/**
+ * unknown 値が ModelCapabilities の形状かどうかを判定する型ガード
+ */
+function isModelCapabilities(value: unknown): value is ModelCapabilities {
+  if (!isPlainObject(value)) return false
+  for (const key of ['contextWindow', 'maxOutputTokens'] as const) {
+    if (key in value && !isPositiveNumber(value[key])) return false
+  }
+  for (const key of ['tools', 'vision', 'streamingUsage'] as const) {
+    if (key in value && typeof value[key] !== 'boolean') return false
+  }
+  return true
+}
+
+/**
+ * unknown 値がモデル名 → ModelCapabilities のオブジェクトかどうかを判定する型ガード
+ */
+function isModelCatalogueConfig(value: unknown): value is WnConfig['models'] {
+  if (!isPlainObject(value)) return false
+  return Object.values(value).every((c) => isModelCapabilities(c))
+}
+
 /**
  * unknown な providers オブジェクトを WnConfig['providers'] に安全に変換する
  */
@@ -227,6 +494,18 @@ export async function loadConfig(
         : DEFAULT_PERSONA,
     providers: toProviders(substituted['providers']),
     ...(isMcpConfig(substituted['mcp']) ? { mcp: substituted['mcp'] } : {}),
+    ...(isCompactionConfig(substituted['compaction'])
+      ? { compaction: substituted['compaction'] }
+      : {}),
+    ...(isApprovalConfig(substituted['approval']) ? { approval: substituted['approval'] } : {}),
+    ...(isFallbackConfig(substituted['fallback']) ? { fallback: substituted['fallback'] } : {}),
+    ...(isUsageConfig(substituted['usage']) ? { usage: substituted['usage'] } : {}),
+    ...(isWorkspaceConfig(substituted['workspace']) ? { workspace: substituted['workspace'] } : {}),
+    ...(isShellPolicyConfig(substituted['shell']) ? { shell: substituted['shell'] } : {}),
+    ...(isModelCatalogueConfig(substituted['models']) ? { models: substituted['models'] } : {}),
+    ...(isStringArray(substituted['providerModules'])
+      ? { providerModules: substituted['providerModules'] }
+      : {}),
   }
 
   return ok(config)
@@ -3,6 +3,7 @@ import path from 'node:path'
 import type { Result } from '../result.js'
 import { ok, err } from '../result.js'
 import type { Skill, LoaderError } from './types.js'
+import type { ToolChoice } from '../providers/types.js'
 import { parseFrontmatter } from './frontmatter.js'
 
 /**
@@ -42,6 +43,23 @@ function getStringArrayAttr(
   return []
 }
 
+/**
+ * frontmatter の toolChoice を ToolChoice に変換する。
+ * auto / none / required 以外の値はツール名として扱い、未指定・空文字列なら undefined を返す。
+ */
+function getToolChoiceAttr(
+  attributes: Readonly<Record<string, string | readonly string[]>>,
+): ToolChoice | undefined {
+  const value = getStringAttr(attributes, 'toolChoice')
+  if (value === undefined || value === '') {
+    return undefined
+  }
+  if (value === 'auto' || value === 'none' || value === 'required') {
+    return value
+  }
+  return { name: value }
+}
+
 /**
  * 指定ディレクトリ内のスキルサブディレクトリから SKILL.md を読み込み、
  * Skill の Map を返す。
@@ -109,7 +127,16 @@ async function loadSkillsFromDir(dir: string): Promise<Result<Map<string, Skill>
     // tools: オプション、デフォルトは空配列
     const tools = getStringArrayAttr(attributes, 'tools')
 
-    skills.set(name, { name, description, tools, body })
+    // toolChoice: オプション
+    const toolChoice = getToolChoiceAttr(attributes)
+
+    skills.set(name, {
+      name,
+      description,
+      tools,
+      body,
+      ...(toolChoice !== undefined ? { toolChoice } : {}),
+    })
   }
 
   return ok(skills)
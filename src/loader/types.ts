@@ -1,3 +1,5 @@
+import type { GenerationOptions, ModelCapabilities, ToolChoice } from '../providers/types.js'
+
 /** MCP サーバー設定 */
 export interface McpServerConfig {
   readonly name: string
@@ -10,11 +12,198 @@ export interface McpConfig {
   readonly servers: readonly McpServerConfig[]
 }
 
+/** プロバイダー呼び出しのリトライ設定 */
+export interface RetryConfig {
+  /** 最大試行回数（初回を含む。既定 3） */
+  readonly maxAttempts?: number
+  /** 初回リトライまでの待機時間（ミリ秒。既定 500） */
+  readonly initialDelayMs?: number
+  /** 待機時間の上限（ミリ秒。retry-after にも適用。既定 30000） */
+  readonly maxDelayMs?: number
+  /** 試行ごとの待機時間の倍率（既定 2） */
+  readonly backoffMultiplier?: number
+  /** 待機時間をランダム化するか（既定 true） */
+  readonly jitter?: boolean
+}
+
+/**
+ * プロンプトキャッシュ設定（Claude のみ）
+ *
+ * 各項目は省略時 true。指定した位置に cache_control ブレークポイントを置く。
+ */
+export interface PromptCachingConfig {
+  /** system プロンプト */
+  readonly system?: boolean
+  /** ツール定義（最後のツールにブレークポイントを置く） */
+  readonly tools?: boolean
+  /** 会話の先頭から最後のメッセージまで（呼び出しごとに移動するローリングブレークポイント） */
+  readonly messages?: boolean
+  /** キャッシュの有効期間（既定 '5m'） */
+  readonly ttl?: '5m' | '1h'
+}
+
+/**
+ * OpenAI 互換サーバーの差異を吸収するフラグ（openai-compatible プロバイダー用）
+ *
+ * vLLM / LM Studio / llama.cpp / OpenRouter 等は Chat Completions 形式を話すが、
+ * ストリームの usage やツール呼び出しの扱いがサーバーごとに異なる。
+ */
+export interface OpenAICompatibleQuirks {
+  /** すべてのリクエストに追加する HTTP ヘッダー（OpenRouter の HTTP-Referer 等） */
+  readonly headers?: Readonly<Record<string, string>>
+  /** ストリーミング時に stream_options.include_usage を送らない（非対応サーバー用） */
+  readonly disableStreamUsage?: boolean
+  /** id のない（空の）ツール呼び出しに id を生成する */
+  readonly synthesizeToolCallIds?: boolean
+  /** ネイティブのツール呼び出しを使わず、システムプロンプトでツール呼び出しを模倣する */
+  readonly emulateToolCalls?: boolean
+}
+
 /** LLM プロバイダー設定 */
 export interface ProviderConfig {
+  /**
+   * プロバイダーの種類（ProviderRegistry に登録された名前）。省略時は providers のキーを使う。
+   * 例: 複数の OpenAI 互換サーバーを 'openai-compatible' として別名で設定する
+   */
+  readonly type?: string
   readonly apiKey?: string
   readonly authToken?: string
   readonly baseUrl?: string
+  /** 一時的な失敗時のリトライ設定（省略時はリトライしない） */
+  readonly retry?: RetryConfig
+  /** 生成パラメータの既定値 */
+  readonly generation?: GenerationOptions
+  /** プロンプトキャッシュ設定（対応プロバイダーのみ。省略時は無効） */
+  readonly promptCaching?: PromptCachingConfig
+  /** OpenAI 互換サーバーの差異を吸収するフラグ（openai-compatible のみ） */
+  readonly quirks?: OpenAICompatibleQuirks
+  /** スクリプトファイル（ScriptedTurn の JSON 配列）のパス（scripted のみ） */
+  readonly script?: string
+  /** 記録・再生するカセットの設定（cassette のみ） */
+  readonly cassette?: CassetteConfig
+  /** モデルがローカルにない場合、初回使用時に pull する（ollama のみ） */
+  readonly autoPull?: boolean
+}
+
+/**
+ * カセット（記録・再生）プロバイダーの設定
+ *
+ * mode: 'record' では provider の応答をカセットに書き出し、
+ * mode: 'replay'（既定）ではカセットの応答をそのまま返す。
+ */
+export interface CassetteConfig {
+  /** カセットファイルのパス（相対パスはカレントディレクトリから解決） */
+  readonly path: string
+  readonly mode?: 'record' | 'replay'
+  /** 記録時に呼び出す実プロバイダーの設定（type 必須） */
+  readonly provider?: ProviderConfig
+}
+
+/** フォールバックチェーンの 1 要素 */
+export interface FallbackTarget {
+  /** providers のキー（例: 'openai'） */
+  readonly provider: string
+  readonly model: string
+}
+
+/**
+ * プロバイダーのフォールバック設定
+ *
+ * defaultProvider / defaultModel が過負荷等で失敗した場合に、chain を先頭から順に試す。
+ */
+export interface FallbackConfig {
+  readonly chain: readonly FallbackTarget[]
+}
+
+/** コンテキスト圧縮設定 */
+export interface CompactionConfig {
+  /**
+   * このトークン数を超えたら古いターンを要約する。
+   * 省略時はモデルのコンテキストウィンドウから決める（ウィンドウが不明なら圧縮しない）
+   */
+  readonly maxTokens?: number
+  /** 要約せずに残す直近メッセージの最小数 */
+  readonly keepRecentMessages?: number
+}
+
+/**
+ * ツール実行の承認モード
+ *
+ * - 'auto': 確認せずに実行する
+ * - 'ask': 実行前にクライアントへ承認を求める
+ * - 'deny': 実行を拒否する
+ */
+export type ApprovalMode = 'auto' | 'ask' | 'deny'
+
+/** ツール実行の承認設定 */
+export interface ApprovalConfig {
+  /** どのルールにも一致しないツールのモード。省略時は 'auto' */
+  readonly default?: ApprovalMode
+  /** ツール名またはパターン（`*` ワイルドカード可）→ 承認モード */
+  readonly tools?: Readonly<Record<string, ApprovalMode>>
+}
+
+/**
+ * ワークスペース設定（組み込みツールがアクセスできるパスの制限）
+ *
+ * 指定すると read / write / edit / multi_edit / apply_patch / grep のパスと shell の作業ディレクトリを
+ * roots の内側に制限する。
+ */
+export interface WorkspaceConfig {
+  /** アクセスを許可するディレクトリ（相対パスはカレントディレクトリから解決。省略時はカレントディレクトリ） */
+  readonly roots?: readonly string[]
+  /**
+   * 拒否する glob パターン（例: `.env`, `.git/`, `secrets/**`）。一致したパスとその配下を拒否する。
+   * `/` を含まないパターンは任意の階層の名前に、含むパターンはルートからの相対パスに一致する
+   */
+  readonly deny?: readonly string[]
+  /** ルートの外を指すシンボリックリンクを辿ることを許可する（既定 false） */
+  readonly allowSymlinkEscape?: boolean
+}
+
+/**
+ * shell ツールのコマンドポリシー設定
+ *
+ * パターンは `*` ワイルドカードでコマンド（引数を空白 1 つで連結したもの）全体に一致させる。
+ * `git *` のように末尾が ` *` のパターンは引数のないコマンド（`git`）にも一致する。
+ */
+export interface ShellPolicyConfig {
+  /** 許可するコマンドのパターン。指定するとパイプライン・連結の全コマンドがいずれかに一致する必要がある */
+  readonly allow?: readonly string[]
+  /** 拒否するコマンドのパターン（allow より優先。sudo 等のラッパーを外したコマンドにも適用する） */
+  readonly deny?: readonly string[]
+  /** 危険なコマンド（再帰的な削除、権限昇格等）の承認モード。省略時は 'ask' */
+  readonly dangerous?: ApprovalMode
+  /** timeout 引数を省略したときのタイムアウト（ミリ秒）。省略時は 120000 */
+  readonly timeoutMs?: number
+}
+
+/**
+ * モデルの料金（USD / 100 万トークン）
+ *
+ * キャッシュの料金は省略時 input と同じ料金で計算する。
+ */
+export interface ModelPricing {
+  readonly input: number
+  readonly output: number
+  readonly cacheRead?: number
+  readonly cacheWrite?: number
+}
+
+/** セッションあたりの使用量の上限（いずれかに達すると以降の LLM 呼び出しを停止する） */
+export interface UsageBudget {
+  /** 推定コストの上限（USD） */
+  readonly maxCostUsd?: number
+  /** 入力（キャッシュ読み書きを含む）と出力の合計トークン数の上限 */
+  readonly maxTokens?: number
+}
+
+/** トークン使用量の集計設定 */
+export interface UsageConfig {
+  /** モデル名（または `provider/model`）→ 料金。組み込みの料金表より優先される */
+  readonly pricing?: Readonly<Record<string, ModelPricing>>
+  /** セッションあたりの上限（省略時は無制限） */
+  readonly budget?: UsageBudget
 }
 
 /** wn-core グローバル設定 */
@@ -24,6 +213,21 @@ export interface WnConfig {
   readonly defaultPersona: string
   readonly providers: Readonly<Record<string, ProviderConfig>>
   readonly mcp?: McpConfig
+  readonly compaction?: CompactionConfig
+  readonly approval?: ApprovalConfig
+  readonly fallback?: FallbackConfig
+  readonly usage?: UsageConfig
+  /** 組み込みツールのパス制限（省略時は制限しない） */
+  readonly workspace?: WorkspaceConfig
+  /** shell ツールのコマンドポリシー（省略時は危険なコマンドのみ承認を求める） */
+  readonly shell?: ShellPolicyConfig
+  /** モデル名（または `provider/model`）→ 能力。組み込みのカタログ・実行時の取得結果より優先される */
+  readonly models?: Readonly<Record<string, ModelCapabilities>>
+  /**
+   * サードパーティのプロバイダーを登録するモジュール（パスまたはパッケージ名）。
+   * 相対パスはカレントディレクトリから解決する
+   */
+  readonly providerModules?: readonly string[]
 }
 
 /** ペルソナ定義 */
@@ -38,6 +242,8 @@ export interface Skill {
   readonly description: string
   readonly tools: readonly string[]
   readonly body: string
+  /** frontmatter の toolChoice（auto / none / required / ツール名） */
+  readonly toolChoice?: ToolChoice
 }
 
 /** エージェント定義 */
@@ -48,6 +254,10 @@ export interface AgentDef {
   readonly provider: string
   readonly model: string
   readonly description: string
+  /** frontmatter の maxTokens / temperature / topP / stop / seed */
+  readonly generation?: GenerationOptions
+  /** frontmatter の workspaceRoots / workspaceDeny（config.json の workspace に重ねる） */
+  readonly workspace?: WorkspaceConfig
 }
 
 /** frontmatter パース結果 */
@@ -0,0 +1,277 @@
+/**
+ * カセット（記録・再生）プロバイダー
+ *
+ * 実プロバイダーとのやり取りをカセットファイル（JSON）に記録し、後でそのまま再生する。
+ * 一度記録したセッションを API キーなし・ネットワークなしで CI から再現するために使う。
+ */
+import { readFileSync } from 'node:fs'
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import type { Result } from '../result.js'
+import { ok, err } from '../result.js'
+import type {
+  CompletionOptions,
+  LLMProvider,
+  LLMResponse,
+  Message,
+  StreamChunk,
+  Tool,
+} from './types.js'
+import type { ProviderConfig } from '../loader/types.js'
+import type { ProviderRegistry } from './registry.js'
+import { chunksToResponse, responseToChunks } from './scripted.js'
+import { estimatePromptTokens } from './token-count.js'
+
+/** 現在のカセット形式のバージョン */
+const CASSETTE_VERSION = 1
+
+/** 記録されたリクエスト */
+export interface CassetteRequest {
+  readonly messages: readonly Message[]
+  readonly tools: readonly Tool[]
+  /** 呼び出しオプション（指定された場合のみ） */
+  readonly options?: CompletionOptions
+}
+
+/** 記録された 1 回のやり取り */
+export interface CassetteInteraction {
+  readonly request: CassetteRequest
+  /** complete() の応答 */
+  readonly response?: LLMResponse
+  /** stream() で受信したチャンク */
+  readonly chunks?: readonly StreamChunk[]
+  /** 失敗時のエラーメッセージ */
+  readonly error?: string
+}
+
+/** カセットファイルの内容 */
+export interface Cassette {
+  readonly version: number
+  readonly interactions: readonly CassetteInteraction[]
+}
+
+/** unknown な値が Cassette かどうかを判定する型ガード（形状のみ確認する） */
+function isCassette(value: unknown): value is Cassette {
+  if (typeof value !== 'object' || value === null) return false
+  const obj = value as Record<string, unknown>
+  if (obj['version'] !== CASSETTE_VERSION) return false
+  const interactions = obj['interactions']
+  if (!Array.isArray(interactions)) return false
+  return interactions.every((interaction: unknown) => {
+    if (typeof interaction !== 'object' || interaction === null) return false
+    const request = (interaction as Record<string, unknown>)['request']
+    return typeof request === 'object' && request !== null
+  })
+}
+
+/** 記録するリクエストを組み立てる */
+function toRequest(
+  messages: readonly Message[],
+  tools: readonly Tool[] = [],
+  options?: CompletionOptions,
+): CassetteRequest {
+  return { messages, tools, ...(options !== undefined ? { options } : {}) }
+}
+
+// ─── 記録 ────────────────────────────────────────────────
+
+/**
+ * プロバイダーのやり取りをカセットファイルに記録するラッパーを生成する
+ *
+ * 呼び出しが完了するたびにカセット全体を書き出す（既存のファイルは上書きする）。
+ * 応答・チャンク・エラーは受け取ったまま呼び出し元へ返す。書き出しに失敗した場合は
+ * complete() では err、stream() では例外になる。countTokens() は記録せずにそのまま委譲する。
+ *
+ * @param provider - 記録対象の実プロバイダー
+ * @param cassettePath - 書き出し先のカセットファイル
+ */
+export function createRecordingProvider(provider: LLMProvider, cassettePath: string): LLMProvider {
+  const interactions: CassetteInteraction[] = []
+
+  /** やり取りを追加してカセットを書き出す */
+  async function record(interaction: CassetteInteraction): Promise<Result<void>> {
+    interactions.push(interaction)
+    const cassette: Cassette = { version: CASSETTE_VERSION, interactions }
+    try {
+      await fs.mkdir(path.dirname(cassettePath), { recursive: true })
+      await fs.writeFile(cassettePath, JSON.stringify(cassette, null, 2) + '\n', 'utf-8')
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : String(e)
+      return err(`Failed to write cassette ${cassettePath}: ${message}`, e)
+    }
+    return ok(undefined)
+  }
+
+  /** カセットを書き出し、失敗した場合は例外にする（stream() 用） */
+  async function recordOrThrow(interaction: CassetteInteraction): Promise<void> {
+    const written = await record(interaction)
+    if (!written.ok) {
+      throw new Error(written.error)
+    }
+  }
+
+  const countTokens = provider.countTokens?.bind(provider)
+  return {
+    async complete(
+      messages: readonly Message[],
+      tools?: readonly Tool[],
+      options?: CompletionOptions,
+    ): Promise<Result<LLMResponse>> {
+      const result = await provider.complete(messages, tools, options)
+      const request = toRequest(messages, tools, options)
+      const written = await record(
+        result.ok ? { request, response: result.data } : { request, error: result.error },
+      )
+      return written.ok ? result : written
+    },
+
+    ...(countTokens !== undefined ? { countTokens } : {}),
+
+    async *stream(
+      messages: readonly Message[],
+      tools?: readonly Tool[],
+      options?: CompletionOptions,
+    ): AsyncIterable<StreamChunk> {
+      const request = toRequest(messages, tools, options)
+      if (provider.stream === undefined) {
+        const result = await provider.complete(messages, tools, options)
+        if (!result.ok) {
+          await recordOrThrow({ request, error: result.error })
+          throw result.cause instanceof Error ? result.cause : new Error(result.error)
+        }
+        const chunks = responseToChunks(result.data)
+        await recordOrThrow({ request, chunks })
+        yield* chunks
+        return
+      }
+
+      const chunks: StreamChunk[] = []
+      try {
+        for await (const chunk of provider.stream(messages, tools, options)) {
+          chunks.push(chunk)
+          yield chunk
+        }
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error)
+        await recordOrThrow({ request, chunks, error: message })
+        throw error
+      }
+      await recordOrThrow({ request, chunks })
+    },
+  }
+}
+
+// ─── 再生 ────────────────────────────────────────────────
+
+/**
+ * カセットファイルの内容を記録順に再生するプロバイダーを生成する
+ *
+ * 呼び出しごとに次のやり取りを 1 つ消費し、受け取ったリクエストが記録と一致しない場合や
+ * やり取りを使い切った場合は complete() では err、stream() では例外になる。
+ * complete() で記録したやり取りを stream() で再生する場合（およびその逆）は相互に変換する。
+ * countTokens() はカセットを消費せず、estimatePromptTokens の推定値を返す。
+ *
+ * @param cassettePath - 読み込むカセットファイル
+ */
+export function createReplayProvider(cassettePath: string): Result<LLMProvider> {
+  let cassette: unknown
+  try {
+    cassette = JSON.parse(readFileSync(cassettePath, 'utf-8'))
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : String(e)
+    return err(`Failed to load cassette ${cassettePath}: ${message}`, e)
+  }
+  if (!isCassette(cassette)) {
+    return err(`Invalid cassette file: ${cassettePath}`)
+  }
+  const { interactions } = cassette
+  let index = 0
+
+  /** 次のやり取りを取り出し、リクエストを照合する */
+  function next(
+    messages: readonly Message[],
+    tools?: readonly Tool[],
+    options?: CompletionOptions,
+  ): Result<CassetteInteraction> {
+    const interaction = interactions[index]
+    const position = ++index
+    if (interaction === undefined) {
+      return err(`Cassette has no interaction for request ${String(position)}: ${cassettePath}`)
+    }
+    // JSON 往復で消える undefined を揃えるため、どちらもシリアライズして比較する
+    if (
+      JSON.stringify(toRequest(messages, tools, options)) !== JSON.stringify(interaction.request)
+    ) {
+      return err(`Cassette request mismatch at interaction ${String(position)}: ${cassettePath}`)
+    }
+    return ok(interaction)
+  }
+
+  return ok({
+    complete(
+      messages: readonly Message[],
+      tools?: readonly Tool[],
+      options?: CompletionOptions,
+    ): Promise<Result<LLMResponse>> {
+      const result = next(messages, tools, options)
+      if (!result.ok) return Promise.resolve(result)
+      const { response, chunks, error } = result.data
+      if (error !== undefined) return Promise.resolve(err(error))
+      return Promise.resolve(ok(response ?? chunksToResponse(chunks ?? [])))
+    },
+
+    async *stream(
+      messages: readonly Message[],
+      tools?: readonly Tool[],
+      options?: CompletionOptions,
+    ): AsyncIterable<StreamChunk> {
+      await Promise.resolve()
+      const result = next(messages, tools, options)
+      if (!result.ok) {
+        throw new Error(result.error)
+      }
+      const { response, chunks, error } = result.data
+      yield* chunks ?? (response !== undefined ? responseToChunks(response) : [])
+      if (error !== undefined) {
+        throw new Error(error)
+      }
+    },
+
+    countTokens(messages: readonly Message[], tools?: readonly Tool[]): Promise<Result<number>> {
+      return Promise.resolve(ok(estimatePromptTokens(messages, tools)))
+    },
+  })
+}
+
+// ─── config.json からの生成 ──────────────────────────────
+
+/**
+ * config.cassette からカセットプロバイダーを生成する
+ *
+ * - mode: 'replay'（既定）: カセットを再生する（実プロバイダーは生成しない）
+ * - mode: 'record': cassette.provider を registry で生成し、そのやり取りを記録する
+ *
+ * @param config - cassette を含むプロバイダー設定
+ * @param model - 記録時に実プロバイダーへ渡すモデル名
+ * @param registry - 記録対象のプロバイダーを解決するレジストリ
+ */
+export function createCassetteProvider(
+  config: ProviderConfig,
+  model: string,
+  registry: ProviderRegistry,
+): Result<LLMProvider> {
+  const cassette = config.cassette
+  if (cassette === undefined) {
+    return err('Cassette provider requires cassette.path')
+  }
+  if (cassette.mode !== 'record') {
+    return createReplayProvider(cassette.path)
+  }
+  const target = cassette.provider
+  if (target?.type === undefined) {
+    return err('Cassette recording requires cassette.provider.type')
+  }
+  const provider = registry.create(target.type, target, model)
+  if (!provider.ok) return provider
+  return ok(createRecordingProvider(provider.data, cassette.path))
+}
@@ -1,16 +1,25 @@
 import Anthropic from '@anthropic-ai/sdk'
 import { ok, err } from '../result.js'
 import type { Result } from '../result.js'
+import { getTextContent, toContentParts } from './content.js'
+import { getResponseFormatName } from './structured-output.js'
 import type {
+  CompletionOptions,
+  ContentPart,
+  GenerationOptions,
   LLMProvider,
   LLMResponse,
   Message,
+  MessageContent,
+  ResponseFormat,
   Tool,
   ToolCall,
+  ToolChoice,
   StreamChunk,
+  ThinkingBlock,
   TokenUsage,
 } from './types.js'
-import type { ProviderConfig } from '../loader/types.js'
+import type { PromptCachingConfig, ProviderConfig } from '../loader/types.js'
 
 /**
  * Anthropic Messages API のレスポンス型（必要なフィールドのみ）
@@ -20,10 +29,15 @@ import type { ProviderConfig } from '../loader/types.js'
  */
 interface AnthropicMessage {
   readonly content: ReadonlyArray<AnthropicContentBlock>
-  readonly usage: {
-    readonly input_tokens: number
-    readonly output_tokens: number
-  }
+  readonly usage: AnthropicUsage
+}
+
+/** Anthropic Messages API の usage（キャッシュ関連フィールドは未使用時 null） */
+interface AnthropicUsage {
+  readonly input_tokens: number
+  readonly output_tokens: number
+  readonly cache_read_input_tokens?: number | null
+  readonly cache_creation_input_tokens?: number | null
 }
 
 interface AnthropicTextBlock {
@@ -38,7 +52,23 @@ interface AnthropicToolUseBlock {
   readonly input: unknown
 }
 
-type AnthropicContentBlock = AnthropicTextBlock | AnthropicToolUseBlock | { readonly type: string }
+interface AnthropicThinkingBlock {
+  readonly type: 'thinking'
+  readonly thinking: string
+  readonly signature: string
+}
+
+interface AnthropicRedactedThinkingBlock {
+  readonly type: 'redacted_thinking'
+  readonly data: string
+}
+
+type AnthropicContentBlock =
+  | AnthropicTextBlock
+  | AnthropicToolUseBlock
+  | AnthropicThinkingBlock
+  | AnthropicRedactedThinkingBlock
+  | { readonly type: string }
 
 /**
  * ストリームイベント型
@@ -50,6 +80,7 @@ interface StreamContentBlockStartEvent {
     readonly type: string
     readonly id?: string
     readonly name?: string
+    readonly data?: string
   }
 }
 
@@ -60,6 +91,8 @@ interface StreamContentBlockDeltaEvent {
     readonly type: string
     readonly text?: string
     readonly partial_json?: string
+    readonly thinking?: string
+    readonly signature?: string
   }
 }
 
@@ -107,6 +140,39 @@ function extractText(content: ReadonlyArray<AnthropicContentBlock>): string {
     .join('')
 }
 
+/** content 配列から thinking / redacted_thinking ブロックを抽出する */
+function extractThinking(content: ReadonlyArray<AnthropicContentBlock>): ThinkingBlock[] {
+  const blocks: ThinkingBlock[] = []
+  for (const block of content) {
+    if (block.type === 'thinking' && 'thinking' in block) {
+      blocks.push({ text: block.thinking, signature: block.signature })
+    } else if (block.type === 'redacted_thinking' && 'data' in block) {
+      blocks.push({ text: '', redactedData: block.data })
+    }
+  }
+  return blocks
+}
+
+/**
+ * 履歴の ThinkingBlock を Claude API のブロックに戻す
+ *
+ * 署名または暗号化データを持つブロック（Claude が返したもの）のみを送る。
+ * 他のプロバイダーの推論テキストは検証できないため送らない。
+ */
+function toThinkingBlocks(
+  thinking: readonly ThinkingBlock[] | undefined,
+): Array<Record<string, unknown>> {
+  const blocks: Array<Record<string, unknown>> = []
+  for (const block of thinking ?? []) {
+    if (block.redactedData !== undefined) {
+      blocks.push({ type: 'redacted_thinking', data: block.redactedData })
+    } else if (block.signature !== undefined) {
+      blocks.push({ type: 'thinking', thinking: block.text, signature: block.signature })
+    }
+  }
+  return blocks
+}
+
 /** unknown 値が Record<string, unknown> かどうかを判定する型ガード */
 function isRecord(value: unknown): value is Record<string, unknown> {
   return value != null && typeof value === 'object'
@@ -123,17 +189,42 @@ function extractToolCalls(content: ReadonlyArray<AnthropicContentBlock>): ToolCa
     }))
 }
 
-/** Usage を TokenUsage に変換する */
-function mapUsage(usage: {
-  readonly input_tokens: number
-  readonly output_tokens: number
-}): TokenUsage {
+/** Usage を TokenUsage に変換する（キャッシュトークンは報告された場合のみ含める） */
+function mapUsage(usage: AnthropicUsage): TokenUsage {
+  const cacheRead = usage.cache_read_input_tokens
+  const cacheWrite = usage.cache_creation_input_tokens
   return {
     inputTokens: usage.input_tokens,
     outputTokens: usage.output_tokens,
+    ...(typeof cacheRead === 'number' ? { cacheReadTokens: cacheRead } : {}),
+    ...(typeof cacheWrite === 'number' ? { cacheWriteTokens: cacheWrite } : {}),
   }
 }
 
+/** ContentPart を Claude API のコンテンツブロックに変換する */
+function toContentBlock(part: ContentPart): Record<string, unknown> {
+  switch (part.type) {
+    case 'text':
+      return { type: 'text', text: part.text }
+    case 'image':
+      return {
+        type: 'image',
+        source: { type: 'base64', media_type: part.mimeType, data: part.data },
+      }
+    case 'document':
+      return {
+        type: 'document',
+        source: { type: 'base64', media_type: part.mimeType, data: part.data },
+        ...(part.name !== undefined ? { title: part.name } : {}),
+      }
+  }
+}
+
+/** MessageContent を Claude API の content に変換する（文字列はそのまま渡す） */
+function toClaudeContent(content: MessageContent): string | Array<Record<string, unknown>> {
+  return typeof content === 'string' ? content : content.map(toContentBlock)
+}
+
 /**
  * messages から system メッセージを分離し、非 system メッセージを Claude API 形式に変換する
  *
@@ -141,6 +232,9 @@ function mapUsage(usage: {
  * 1. ツール結果メッセージ (role: 'user' + toolCallId) → tool_result 形式
  * 2. アシスタントメッセージ with toolCalls → text + tool_use ブロック形式
  * 3. 通常メッセージ → そのまま { role, content }
+ *
+ * コンテンツパート配列は text / image / document ブロックに変換する。
+ * assistant メッセージの署名付き thinking ブロックは先頭に戻す（ツール呼び出しを伴う推論の継続に必要）。
  */
 function separateSystemMessages(messages: readonly Message[]): {
   system: string | undefined
@@ -162,7 +256,7 @@ function separateSystemMessages(messages: readonly Message[]): {
           {
             type: 'tool_result',
             tool_use_id: m.toolCallId,
-            content: m.content,
+            content: toClaudeContent(m.content),
           },
         ],
       })
@@ -171,12 +265,10 @@ function separateSystemMessages(messages: readonly Message[]): {
 
     // Case 2: アシスタントメッセージ with toolCalls
     if (m.role === 'assistant' && m.toolCalls !== undefined && m.toolCalls.length > 0) {
-      const contentBlocks: Array<Record<string, unknown>> = []
+      const contentBlocks: Array<Record<string, unknown>> = toThinkingBlocks(m.thinking)
 
-      // テキストがある場合のみ text ブロックを追加
-      if (m.content.length > 0) {
-        contentBlocks.push({ type: 'text', text: m.content })
-      }
+      // テキスト等のパートがある場合のみ追加
+      contentBlocks.push(...toContentParts(m.content).map(toContentBlock))
 
       // toolCalls を tool_use ブロックに変換
       for (const tc of m.toolCalls) {
@@ -196,15 +288,56 @@ function separateSystemMessages(messages: readonly Message[]): {
     }
 
     // Case 3: 通常メッセージ
-    nonSystemMessages.push({ role: m.role, content: m.content })
+    const thinkingBlocks = m.role === 'assistant' ? toThinkingBlocks(m.thinking) : []
+    nonSystemMessages.push({
+      role: m.role,
+      content:
+        thinkingBlocks.length > 0
+          ? [...thinkingBlocks, ...toContentParts(m.content).map(toContentBlock)]
+          : toClaudeContent(m.content),
+    })
   }
 
   const system =
-    systemMessages.length > 0 ? systemMessages.map((m) => m.content).join('\n') : undefined
+    systemMessages.length > 0
+      ? systemMessages.map((m) => getTextContent(m.content)).join('\n')
+      : undefined
 
   return { system, nonSystemMessages }
 }
 
+/** maxTokens 未指定時の max_tokens（Messages API では必須） */
+const DEFAULT_MAX_TOKENS = 4096
+
+/** thinking 有効時に指定できる top_p の下限 */
+const MIN_THINKING_TOP_P = 0.95
+
+/**
+ * GenerationOptions を Messages API のパラメータに変換する（seed は未対応のため無視する）
+ *
+ * thinking 有効時は max_tokens が budget_tokens を上回る必要があるため、
+ * maxTokens 未指定なら budget_tokens + 4096 を使う。また thinking 有効時は temperature を変更できず、
+ * top_p は 0.95 以上に限られるため、temperature は送らず top_p は 0.95 に切り上げる。
+ */
+function toGenerationParams(generation: GenerationOptions): Record<string, unknown> {
+  const { thinking } = generation
+  const topP =
+    thinking && generation.topP !== undefined
+      ? Math.max(generation.topP, MIN_THINKING_TOP_P)
+      : generation.topP
+  return {
+    max_tokens:
+      generation.maxTokens ??
+      (thinking ? thinking.budgetTokens + DEFAULT_MAX_TOKENS : DEFAULT_MAX_TOKENS),
+    ...(thinking ? { thinking: { type: 'enabled', budget_tokens: thinking.budgetTokens } } : {}),
+    ...(generation.temperature !== undefined && !thinking
+      ? { temperature: generation.temperature }
+      : {}),
+    ...(topP !== undefined ? { top_p: topP } : {}),
+    ...(generation.stop !== undefined ? { stop_sequences: [...generation.stop] } : {}),
+  }
+}
+
 /** Tool[] を Claude API 固有形式に変換する */
 function convertTools(
   tools: readonly Tool[],
@@ -216,14 +349,165 @@ function convertTools(
   }))
 }
 
+/** 構造化出力用ツールの説明 */
+const RESPONSE_TOOL_DESCRIPTION =
+  'Return the final answer. Call this tool instead of replying with text once the task is complete.'
+
+/** input_schema はオブジェクト型である必要があるため、それ以外のスキーマは value プロパティで包む */
+function isWrappedResponseSchema(format: ResponseFormat): boolean {
+  return format.schema['type'] !== 'object'
+}
+
+/**
+ * ResponseFormat を強制ツール呼び出しに変換して params に追加する
+ *
+ * 他のツールがなければ tool_choice でこのツールを指定し、あれば 'any' でいずれかのツール呼び出しを強制する。
+ * thinking 有効時は tool_choice を強制できないため指定しない（AgentLoop の検証と再要求に任せる）。
+ */
+function applyResponseFormat(params: Record<string, unknown>, format: ResponseFormat): void {
+  const name = getResponseFormatName(format)
+  const tools: unknown[] = Array.isArray(params['tools']) ? params['tools'] : []
+  const inputSchema = isWrappedResponseSchema(format)
+    ? { type: 'object', properties: { value: format.schema }, required: ['value'] }
+    : format.schema
+  params['tools'] = [
+    ...tools,
+    { name, description: RESPONSE_TOOL_DESCRIPTION, input_schema: inputSchema },
+  ]
+  if (params['thinking'] === undefined) {
+    params['tool_choice'] = tools.length === 0 ? { type: 'tool', name } : { type: 'any' }
+  }
+}
+
+/**
+ * ToolChoice を tool_choice に変換して params に設定する（responseFormat による指定より優先する）
+ *
+ * 'required' は 'any'、指名されたツールは 'tool' に変換する。thinking 有効時は
+ * ツール呼び出しを強制できないため、'auto' / 'none' のみを送る。
+ * responseFormat 指定時の 'none' は構造化出力用ツールだけを残す（'none' を送ると応答を返せなくなるため）。
+ */
+function applyToolChoice(
+  params: Record<string, unknown>,
+  choice: ToolChoice,
+  format: ResponseFormat | undefined,
+): void {
+  if (choice === 'none' && format !== undefined) {
+    const name = getResponseFormatName(format)
+    const tools: unknown[] = Array.isArray(params['tools']) ? params['tools'] : []
+    params['tools'] = tools.filter((tool) => (tool as { name: string }).name === name)
+    if (params['thinking'] === undefined) params['tool_choice'] = { type: 'tool', name }
+    return
+  }
+  if (choice === 'auto' || choice === 'none') {
+    params['tool_choice'] = { type: choice }
+    return
+  }
+  if (params['thinking'] !== undefined) return
+  params['tool_choice'] =
+    choice === 'required' ? { type: 'any' } : { type: 'tool', name: choice.name }
+}
+
+/** 構造化出力用ツールの入力を応答本文の JSON テキストに変換する */
+function toResponseFormatText(args: Record<string, unknown>, format: ResponseFormat): string {
+  return JSON.stringify(isWrappedResponseSchema(format) ? args['value'] : args)
+}
+
+/**
+ * 構造化出力用ツールの呼び出しを応答本文に置き換える
+ *
+ * 呼び出しがあれば最終応答として扱い、同時に行われた他のツール呼び出しは捨てる
+ * （実行すると AgentLoop が応答本文を捨てて続行してしまうため）。
+ * 呼び出しがなければ content / toolCalls をそのまま返す。
+ */
+function takeResponseFormatCall(
+  content: string,
+  toolCalls: readonly ToolCall[],
+  format: ResponseFormat | undefined,
+): { content: string; toolCalls: ToolCall[] } {
+  const name = format !== undefined ? getResponseFormatName(format) : undefined
+  const call = toolCalls.find((tc) => tc.name === name)
+  if (format === undefined || call === undefined) {
+    return { content, toolCalls: [...toolCalls] }
+  }
+  return { content: toResponseFormatText(call.arguments, format), toolCalls: [] }
+}
+
+/** PromptCachingConfig から cache_control ブロックを生成する（ttl 省略時は API 既定の 5 分） */
+function toCacheControl(caching: PromptCachingConfig): Record<string, unknown> {
+  return { type: 'ephemeral', ...(caching.ttl === '1h' ? { ttl: '1h' } : {}) }
+}
+
+/**
+ * メッセージ content の末尾ブロックに cache_control を付与する
+ *
+ * thinking / redacted_thinking ブロックには付与できないため、それ以外の最後のブロックを対象にする。
+ * 空文字列や対象ブロックがない場合は content をそのまま返す。
+ */
+function withCacheBreakpoint(content: unknown, cacheControl: Record<string, unknown>): unknown {
+  if (typeof content === 'string') {
+    return content === '' ? content : [{ type: 'text', text: content, cache_control: cacheControl }]
+  }
+  if (!Array.isArray(content)) return content
+
+  const blocks = content as Array<Record<string, unknown>>
+  let index = blocks.length - 1
+  while (index >= 0) {
+    const type = blocks[index]?.['type']
+    if (type !== 'thinking' && type !== 'redacted_thinking') break
+    index--
+  }
+  if (index === -1) return content
+  return blocks.map((b, i) => (i === index ? { ...b, cache_control: cacheControl } : b))
+}
+
+/**
+ * リクエストパラメータにプロンプトキャッシュのブレークポイントを設定する
+ *
+ * - system: system プロンプトをテキストブロック化して cache_control を付与
+ * - tools: 最後のツール定義に cache_control を付与（ツール定義全体がキャッシュ対象になる）
+ * - messages: 最後のメッセージに付与し、会話の先頭部分をターンごとに段階的にキャッシュする
+ */
+function applyPromptCaching(params: Record<string, unknown>, caching: PromptCachingConfig): void {
+  const cacheControl = toCacheControl(caching)
+
+  const system = params['system']
+  if (caching.system !== false && typeof system === 'string' && system !== '') {
+    params['system'] = [{ type: 'text', text: system, cache_control: cacheControl }]
+  }
+
+  const tools = params['tools']
+  if (caching.tools !== false && Array.isArray(tools) && tools.length > 0) {
+    const converted = tools as Array<Record<string, unknown>>
+    params['tools'] = converted.map((t, i) =>
+      i === converted.length - 1 ? { ...t, cache_control: cacheControl } : t,
+    )
+  }
+
+  const messages = params['messages'] as Array<Record<string, unknown>>
+  const last = messages.at(-1)
+  if (caching.messages !== false && last !== undefined) {
+    params['messages'] = [
+      ...messages.slice(0, -1),
+      { ...last, content: withCacheBreakpoint(last['content'], cacheControl) },
+    ]
+  }
+}
+
 /**
  * Claude (Anthropic) LLM プロバイダーを作成する
  *
+ * countTokens() は Messages API の count_tokens エンドポイントで入力トークン数を数える。
+ *
  * @param config - プロバイダー設定（apiKey または authToken が必須）
  * @param model - 使用するモデル名（例: 'claude-sonnet-4-20250514'）
+ * @param generation - 生成パラメータ（config.generation より優先）
  * @returns Result<LLMProvider> - 成功時は LLMProvider、失敗時はエラーメッセージ
  */
-export function createClaudeProvider(config: ProviderConfig, model: string): Result<LLMProvider> {
+export function createClaudeProvider(
+  config: ProviderConfig,
+  model: string,
+  generation?: GenerationOptions,
+): Result<LLMProvider> {
   const authToken = config.authToken ?? process.env['ANTHROPIC_AUTH_TOKEN']
   // authToken が利用可能な場合は apiKey の env fallback をスキップする。
   // SDK は X-Api-Key と Authorization ヘッダーを両方同時に送信するため、
@@ -252,17 +536,20 @@ export function createClaudeProvider(config: ProviderConfig, model: string): Res
       : {}),
   })
 
+  const generationParams = toGenerationParams({ ...config.generation, ...generation })
+
   const provider: LLMProvider = {
     async complete(
       messages: readonly Message[],
       tools?: readonly Tool[],
+      options?: CompletionOptions,
     ): Promise<Result<LLMResponse>> {
       try {
         const { system, nonSystemMessages } = separateSystemMessages(messages)
 
         const params: Record<string, unknown> = {
           model,
-          max_tokens: 4096,
+          ...generationParams,
           messages: nonSystemMessages,
         }
 
@@ -274,34 +561,53 @@ export function createClaudeProvider(config: ProviderConfig, model: string): Res
           params['tools'] = convertTools(tools)
         }
 
+        if (options?.responseFormat !== undefined) {
+          applyResponseFormat(params, options.responseFormat)
+        }
+
+        if (tools && tools.length > 0 && options?.toolChoice !== undefined) {
+          applyToolChoice(params, options.toolChoice, options.responseFormat)
+        }
+
+        if (config.promptCaching !== undefined) {
+          applyPromptCaching(params, config.promptCaching)
+        }
+
         const response = (await client.messages.create(
           params as unknown as Parameters<typeof client.messages.create>[0],
         )) as unknown as AnthropicMessage
 
-        const content = extractText(response.content)
-        const toolCalls = extractToolCalls(response.content)
+        const { content, toolCalls } = takeResponseFormatCall(
+          extractText(response.content),
+          extractToolCalls(response.content),
+          options?.responseFormat,
+        )
         const usage = mapUsage(response.usage)
+        const thinking = extractThinking(response.content)
 
         return ok({
           content,
           toolCalls,
           usage,
+          ...(thinking.length > 0 ? { thinking } : {}),
         })
       } catch (error: unknown) {
         const message = error instanceof Error ? error.message : String(error)
-        return err(message)
+        return err(message, error)
       }
     },
 
     async *stream(
       messages: readonly Message[],
       tools?: readonly Tool[],
+      options?: CompletionOptions,
     ): AsyncIterable<StreamChunk> {
       const { system, nonSystemMessages } = separateSystemMessages(messages)
+      const responseFormat = options?.responseFormat
 
       const params: Record<string, unknown> = {
         model,
-        max_tokens: 4096,
+        ...generationParams,
         messages: nonSystemMessages,
       }
 
@@ -313,6 +619,18 @@ export function createClaudeProvider(config: ProviderConfig, model: string): Res
         params['tools'] = convertTools(tools)
       }
 
+      if (responseFormat !== undefined) {
+        applyResponseFormat(params, responseFormat)
+      }
+
+      if (tools && tools.length > 0 && options?.toolChoice !== undefined) {
+        applyToolChoice(params, options.toolChoice, options.responseFormat)
+      }
+
+      if (config.promptCaching !== undefined) {
+        applyPromptCaching(params, config.promptCaching)
+      }
+
       const stream = client.messages.stream(
         params as unknown as Parameters<typeof client.messages.stream>[0],
       ) as unknown as MessageStreamLike
@@ -320,6 +638,11 @@ export function createClaudeProvider(config: ProviderConfig, model: string): Res
       // ストリームイベントごとの状態管理
       // tool_use ブロックの追跡: index → { id, name, inputJson }
       const toolBlocks = new Map<number, { id: string; name: string; inputJson: string }>()
+      // thinking ブロックの追跡: index → { text, signature }
+      const thinkingBlocks = new Map<number, { text: string; signature?: string }>()
+      // responseFormat 指定時は構造化出力用ツールが呼ばれるか分かるまでツール呼び出しを保留する
+      const pendingToolCalls: ToolCall[] = []
+      let answered = false
 
       for await (const event of stream) {
         if (isContentBlockStart(event)) {
@@ -329,10 +652,34 @@ export function createClaudeProvider(config: ProviderConfig, model: string): Res
               name: event.content_block.name ?? '',
               inputJson: '',
             })
+          } else if (event.content_block.type === 'thinking') {
+            thinkingBlocks.set(event.index, { text: '' })
+          } else if (
+            event.content_block.type === 'redacted_thinking' &&
+            event.content_block.data !== undefined
+          ) {
+            yield {
+              type: 'thinking',
+              thinking: { text: '', redactedData: event.content_block.data },
+            }
           }
         } else if (isContentBlockDelta(event)) {
           if (event.delta.type === 'text_delta' && event.delta.text !== undefined) {
             yield { type: 'delta', content: event.delta.text }
+          } else if (event.delta.type === 'thinking_delta' && event.delta.thinking !== undefined) {
+            const block = thinkingBlocks.get(event.index)
+            if (block) {
+              block.text += event.delta.thinking
+            }
+            yield { type: 'thinking_delta', content: event.delta.thinking }
+          } else if (
+            event.delta.type === 'signature_delta' &&
+            event.delta.signature !== undefined
+          ) {
+            const block = thinkingBlocks.get(event.index)
+            if (block) {
+              block.signature = (block.signature ?? '') + event.delta.signature
+            }
           } else if (
             event.delta.type === 'input_json_delta' &&
             event.delta.partial_json !== undefined
@@ -343,6 +690,11 @@ export function createClaudeProvider(config: ProviderConfig, model: string): Res
             }
           }
         } else if (isContentBlockStop(event)) {
+          const thinkingBlock = thinkingBlocks.get(event.index)
+          if (thinkingBlock) {
+            yield { type: 'thinking', thinking: thinkingBlock }
+            thinkingBlocks.delete(event.index)
+          }
           const block = toolBlocks.get(event.index)
           if (block) {
             let parsedArgs: Record<string, unknown> = {}
@@ -351,17 +703,29 @@ export function createClaudeProvider(config: ProviderConfig, model: string): Res
             } catch {
               // JSON パース失敗時は空オブジェクトにフォールバック
             }
-            yield {
-              type: 'tool_call',
-              toolCall: {
-                id: block.id,
-                name: block.name,
-                arguments: parsedArgs,
-              },
+            if (
+              responseFormat !== undefined &&
+              block.name === getResponseFormatName(responseFormat)
+            ) {
+              // 構造化出力用ツールの入力は応答本文として流す（他のツール呼び出しは捨てる）
+              yield { type: 'delta', content: toResponseFormatText(parsedArgs, responseFormat) }
+              answered = true
+            } else {
+              const toolCall = { id: block.id, name: block.name, arguments: parsedArgs }
+              if (responseFormat !== undefined) {
+                pendingToolCalls.push(toolCall)
+              } else {
+                yield { type: 'tool_call', toolCall }
+              }
             }
             toolBlocks.delete(event.index)
           }
         } else if (event.type === 'message_stop') {
+          if (!answered) {
+            for (const toolCall of pendingToolCalls) {
+              yield { type: 'tool_call', toolCall }
+            }
+          }
           // finalMessage() から usage を取得
           const finalMsg = await stream.finalMessage()
           const usage = mapUsage(finalMsg.usage)
@@ -370,6 +734,33 @@ export function createClaudeProvider(config: ProviderConfig, model: string): Res
         // 他のイベントタイプ（message_start, message_delta 等）は無視
       }
     },
+
+    async countTokens(
+      messages: readonly Message[],
+      tools?: readonly Tool[],
+    ): Promise<Result<number>> {
+      try {
+        const { system, nonSystemMessages } = separateSystemMessages(messages)
+
+        const params: Record<string, unknown> = { model, messages: nonSystemMessages }
+
+        if (system !== undefined) {
+          params['system'] = system
+        }
+
+        if (tools && tools.length > 0) {
+          params['tools'] = convertTools(tools)
+        }
+
+        const response = await client.messages.countTokens(
+          params as unknown as Parameters<typeof client.messages.countTokens>[0],
+        )
+        return ok(response.input_tokens)
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error)
+        return err(message, error)
+      }
+    },
   }
 
   return ok(provider)
@@ -0,0 +1,52 @@
+/**
+ * メッセージ本文（MessageContent）のユーティリティ
+ *
+ * 文字列とコンテンツパート配列の両方を扱うプロバイダーや AgentLoop から共通で利用する。
+ */
+import type { ContentPart, ImagePart, MessageContent } from './types.js'
+
+/** MessageContent をコンテンツパート配列に正規化する（空文字列は空配列） */
+export function toContentParts(content: MessageContent): readonly ContentPart[] {
+  if (typeof content !== 'string') return content
+  return content === '' ? [] : [{ type: 'text', text: content }]
+}
+
+/** MessageContent からテキスト部分を結合して返す（画像・ドキュメントは無視する） */
+export function getTextContent(content: MessageContent): string {
+  if (typeof content === 'string') return content
+  return content
+    .filter((part) => part.type === 'text')
+    .map((part) => part.text)
+    .join('\n')
+}
+
+/** MessageContent から画像パートを抽出する */
+export function getImageParts(content: MessageContent): readonly ImagePart[] {
+  if (typeof content === 'string') return []
+  return content.filter((part): part is ImagePart => part.type === 'image')
+}
+
+/** unknown 値が ContentPart の形状かどうかを判定する型ガード */
+export function isContentPart(value: unknown): value is ContentPart {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false
+  const obj = value as Record<string, unknown>
+  switch (obj['type']) {
+    case 'text':
+      return typeof obj['text'] === 'string'
+    case 'image':
+      return typeof obj['mimeType'] === 'string' && typeof obj['data'] === 'string'
+    case 'document':
+      return (
+        typeof obj['mimeType'] === 'string' &&
+        typeof obj['data'] === 'string' &&
+        (obj['name'] === undefined || typeof obj['name'] === 'string')
+      )
+    default:
+      return false
+  }
+}
+
+/** unknown 値が MessageContent（文字列またはコンテンツパート配列）かどうかを判定する型ガード */
+export function isMessageContent(value: unknown): value is MessageContent {
+  return typeof value === 'string' || (Array.isArray(value) && value.every(isContentPart))
+}
@@ -0,0 +1,186 @@
+/**
+ * フォールバックチェーン
+ *
+ * 複数のプロバイダー/モデルを優先順に並べた合成 LLMProvider。
+ * 先頭から順に呼び出し、リトライ可能な失敗（過負荷・レート制限等）の場合のみ次のプロバイダーを試す。
+ */
+import type { Result } from '../result.js'
+import { ok, err } from '../result.js'
+import type {
+  CompletionOptions,
+  LLMProvider,
+  LLMResponse,
+  Message,
+  ResponseMetadata,
+  StreamChunk,
+  Tool,
+} from './types.js'
+import { classifyError } from './retry.js'
+import { estimatePromptTokens } from './token-count.js'
+
+/** チェーンを構成するプロバイダー */
+export interface FallbackEntry {
+  /** プロバイダー名（ResponseMetadata.provider として報告される） */
+  readonly name: string
+  /** モデル名（ResponseMetadata.model として報告される） */
+  readonly model: string
+  readonly provider: LLMProvider
+}
+
+/** 次のプロバイダーへ切り替えるときに onFallback へ渡される情報 */
+export interface FallbackEvent {
+  /** 失敗したプロバイダー */
+  readonly from: ResponseMetadata
+  /** 次に試すプロバイダー */
+  readonly to: ResponseMetadata
+  /** 失敗時のエラーメッセージ */
+  readonly error: string
+}
+
+/** createFallbackProvider のオプション */
+export interface FallbackOptions {
+  /** 次のプロバイダーへ切り替える直前に呼ばれる */
+  readonly onFallback?: (event: FallbackEvent) => void
+}
+
+/** FallbackEntry から ResponseMetadata を取り出す */
+function toMetadata(entry: FallbackEntry): ResponseMetadata {
+  return { provider: entry.name, model: entry.model }
+}
+
+/** complete() の結果をストリームチャンクに変換する（stream() 未実装のプロバイダー用） */
+async function* completeAsStream(
+  provider: LLMProvider,
+  messages: readonly Message[],
+  tools?: readonly Tool[],
+  options?: CompletionOptions,
+): AsyncIterable<StreamChunk> {
+  const result = await provider.complete(messages, tools, options)
+  if (!result.ok) {
+    throw result.cause instanceof Error ? result.cause : new Error(result.error)
+  }
+  for (const thinking of result.data.thinking ?? []) {
+    yield { type: 'thinking', thinking }
+  }
+  if (result.data.content) {
+    yield { type: 'delta', content: result.data.content }
+  }
+  for (const toolCall of result.data.toolCalls ?? []) {
+    yield { type: 'tool_call', toolCall }
+  }
+  yield { type: 'done', ...(result.data.usage ? { usage: result.data.usage } : {}) }
+}
+
+/**
+ * フォールバックチェーンの LLMProvider を生成する
+ *
+ * - complete(): リトライ可能な err の場合に次のプロバイダーを試す。最後のプロバイダーの err はそのまま返す
+ * - stream(): 最初のチャンクを受信する前の例外の場合のみ次のプロバイダーを試す
+ * - countTokens(): complete() と同じ順に数える（countTokens のないプロバイダーは推定値を返す）
+ * - 応答には実際に応答したプロバイダーを metadata（stream では done チャンク）として付与する
+ *
+ * @param entries - 優先順に並べたプロバイダー（1 件以上）
+ * @param options - フォールバック時のフック
+ * @returns Result<LLMProvider> - entries が空の場合は err
+ */
+export function createFallbackProvider(
+  entries: readonly FallbackEntry[],
+  options: FallbackOptions = {},
+): Result<LLMProvider> {
+  if (entries.length === 0) {
+    return err('Fallback chain requires at least one provider')
+  }
+
+  /** entries[index] の失敗後に次へ進むかを判定し、進む場合は onFallback を呼ぶ */
+  function shouldFallback(index: number, error: string, cause: unknown): boolean {
+    const current = entries[index]
+    const next = entries[index + 1]
+    if (current === undefined || next === undefined) return false
+    if (!classifyError(error, cause).retryable) return false
+
+    options.onFallback?.({ from: toMetadata(current), to: toMetadata(next), error })
+    return true
+  }
+
+  return ok({
+    async complete(
+      messages: readonly Message[],
+      tools?: readonly Tool[],
+      options?: CompletionOptions,
+    ): Promise<Result<LLMResponse>> {
+      for (let i = 0; ; i++) {
+        const entry = entries[i]
+        if (entry === undefined) {
+          return err('Fallback chain exhausted')
+        }
+        const result = await entry.provider.complete(messages, tools, options)
+        if (result.ok) {
+          return ok({ ...result.data, metadata: toMetadata(entry) })
+        }
+        if (!shouldFallback(i, result.error, result.cause)) {
+          return result
+        }
+      }
+    },
+
+    async countTokens(
+      messages: readonly Message[],
+      tools?: readonly Tool[],
+    ): Promise<Result<number>> {
+      for (let i = 0; ; i++) {
+        const entry = entries[i]
+        if (entry === undefined) {
+          return err('Fallback chain exhausted')
+        }
+        if (entry.provider.countTokens === undefined) {
+          return ok(estimatePromptTokens(messages, tools))
+        }
+        const result = await entry.provider.countTokens(messages, tools)
+        if (result.ok || !shouldFallback(i, result.error, result.cause)) {
+          return result
+        }
+      }
+    },
+
+    async *stream(
+      messages: readonly Message[],
+      tools?: readonly Tool[],
+      options?: CompletionOptions,
+    ): AsyncIterable<StreamChunk> {
+      for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i]
+        if (entry === undefined) break
+        const metadata = toMetadata(entry)
+        const chunks =
+          entry.provider.stream !== undefined
+            ? entry.provider.stream(messages, tools, options)
+            : completeAsStream(entry.provider, messages, tools, options)
+
+        let started = false
+        let done = false
+        try {
+          for await (const chunk of chunks) {
+            started = true
+            if (chunk.type === 'done') {
+              done = true
+              yield { ...chunk, metadata }
+            } else {
+              yield chunk
+            }
+          }
+        } catch (error: unknown) {
+          const message = error instanceof Error ? error.message : String(error)
+          if (started || !shouldFallback(i, message, error)) {
+            throw error
+          }
+          continue
+        }
+
+        if (!done) {
+          yield { type: 'done', metadata }
+        }
+        return
+      }
+    },
+  })
+}
@@ -8,19 +8,28 @@
 import { GoogleGenerativeAI } from '@google/generative-ai'
 import type {
   GenerateContentRequest,
+  GenerationConfig,
   Content as GeminiSdkContent,
   FunctionDeclarationsTool,
   Part as GeminiSdkPart,
+  ResponseSchema,
+  ToolConfig,
 } from '@google/generative-ai'
 import { randomUUID } from 'node:crypto'
 import { ok, err } from '../result.js'
 import type { Result } from '../result.js'
+import { getTextContent, toContentParts } from './content.js'
 import type {
+  CompletionOptions,
+  ContentPart,
+  GenerationOptions,
+  JsonSchema,
   LLMProvider,
   LLMResponse,
   Message,
   Tool,
   ToolCall,
+  ToolChoice,
   StreamChunk,
   TokenUsage,
 } from './types.js'
@@ -29,19 +38,31 @@ import type { ProviderConfig } from '../loader/types.js'
 /** Gemini レスポンスの Part 型（レスポンス解析用） */
 interface GeminiResponsePart {
   readonly text?: string
+  /** thinking モデルの推論パート（includeThoughts 有効時） */
+  readonly thought?: boolean
   readonly functionCall?: {
     readonly name: string
     readonly args: Record<string, unknown>
   }
 }
 
+/** ContentPart を Gemini SDK の Part に変換する（画像・ドキュメントは inlineData） */
+function toGeminiPart(part: ContentPart): GeminiSdkPart {
+  if (part.type === 'text') {
+    return { text: part.text }
+  }
+  return { inlineData: { mimeType: part.mimeType, data: part.data } }
+}
+
 /**
  * 単一の非 system メッセージを Gemini SDK の Content に変換する。
  *
  * AgentLoop からのメッセージは3パターン:
  * 1. ツール結果: role='user' + toolCallId → role='function' + functionResponse
  * 2. ツール呼び出し付き assistant: role='assistant' + toolCalls → role='model' + functionCall parts
- * 3. 通常メッセージ: role='user'|'assistant' → role='user'|'model' + text part
+ * 3. 通常メッセージ: role='user'|'assistant' → role='user'|'model' + text / inlineData parts
+ *
+ * ツール結果の画像・ドキュメントは functionResponse の後に inlineData パートとして続ける。
  */
 function convertMessageToContent(m: Message): GeminiSdkContent {
   // ツール結果メッセージ（user + toolCallId）→ function role
@@ -49,18 +70,18 @@ function convertMessageToContent(m: Message): GeminiSdkContent {
     const responsePart: GeminiSdkPart = {
       functionResponse: {
         name: m.name ?? '',
-        response: { content: m.content },
+        response: { content: getTextContent(m.content) },
       },
     }
-    return { role: 'function', parts: [responsePart] }
+    const mediaParts = toContentParts(m.content)
+      .filter((part) => part.type !== 'text')
+      .map(toGeminiPart)
+    return { role: 'function', parts: [responsePart, ...mediaParts] }
   }
 
   // ツール呼び出し付き assistant メッセージ → model role with functionCall parts
   if (m.role === 'assistant' && m.toolCalls !== undefined && m.toolCalls.length > 0) {
-    const parts: GeminiSdkPart[] = []
-    if (m.content !== '') {
-      parts.push({ text: m.content })
-    }
+    const parts: GeminiSdkPart[] = toContentParts(m.content).map(toGeminiPart)
     for (const tc of m.toolCalls) {
       parts.push({
         functionCall: { name: tc.name, args: tc.arguments },
@@ -72,7 +93,7 @@ function convertMessageToContent(m: Message): GeminiSdkContent {
   // 通常メッセージ
   return {
     role: m.role === 'assistant' ? 'model' : m.role,
-    parts: [{ text: m.content }],
+    parts: typeof m.content === 'string' ? [{ text: m.content }] : m.content.map(toGeminiPart),
   }
 }
 
@@ -93,7 +114,7 @@ function separateSystemMessages(messages: readonly Message[]): {
     systemMessages.length > 0
       ? {
           role: 'system',
-          parts: systemMessages.map((m) => ({ text: m.content })),
+          parts: systemMessages.map((m) => ({ text: getTextContent(m.content) })),
         }
       : undefined
 
@@ -130,17 +151,21 @@ function convertTools(tools: readonly Tool[]): FunctionDeclarationsTool[] {
 }
 
 /**
- * Gemini レスポンスの parts から content 文字列と ToolCall[] を抽出する。
+ * Gemini レスポンスの parts から content 文字列・推論テキスト・ToolCall[] を抽出する。
  */
 function extractPartsData(parts: readonly GeminiResponsePart[]): {
   content: string
+  thinking: string
   toolCalls: ToolCall[]
 } {
   let content = ''
+  let thinking = ''
   const toolCalls: ToolCall[] = []
 
   for (const part of parts) {
-    if (part.text) {
+    if (part.text && part.thought === true) {
+      thinking += part.text
+    } else if (part.text) {
       content += part.text
     }
     if (part.functionCall) {
@@ -152,7 +177,7 @@ function extractPartsData(parts: readonly GeminiResponsePart[]): {
     }
   }
 
-  return { content, toolCalls }
+  return { content, thinking, toolCalls }
 }
 
 /**
@@ -169,35 +194,145 @@ function convertUsage(usageMetadata?: {
   }
 }
 
+/** responseSchema（OpenAPI スキーマのサブセット）が受け付けるキーワード */
+const RESPONSE_SCHEMA_KEYS = new Set([
+  'type',
+  'format',
+  'description',
+  'nullable',
+  'enum',
+  'properties',
+  'required',
+  'items',
+  'minItems',
+  'maxItems',
+  'minimum',
+  'maximum',
+  'anyOf',
+])
+
+/** JSON Schema から responseSchema が受け付けないキーワード（additionalProperties 等）を再帰的に取り除く */
+function toResponseSchema(schema: JsonSchema): JsonSchema {
+  const result: JsonSchema = {}
+  for (const [key, value] of Object.entries(schema)) {
+    if (!RESPONSE_SCHEMA_KEYS.has(key)) continue
+    if (key === 'properties' && typeof value === 'object' && value !== null) {
+      result[key] = Object.fromEntries(
+        Object.entries(value as Record<string, JsonSchema>).map(([name, child]) => [
+          name,
+          toResponseSchema(child),
+        ]),
+      )
+    } else if (key === 'items' && typeof value === 'object' && value !== null) {
+      result[key] = toResponseSchema(value as JsonSchema)
+    } else if (key === 'anyOf' && Array.isArray(value)) {
+      result[key] = (value as JsonSchema[]).map(toResponseSchema)
+    } else {
+      result[key] = value
+    }
+  }
+  return result
+}
+
+/**
+ * ToolChoice を toolConfig.functionCallingConfig に変換する
+ *
+ * 'auto' / 'none' / 'required' は AUTO / NONE / ANY に、指名されたツールは
+ * allowedFunctionNames で 1 つに絞った ANY に変換する。
+ */
+function toToolConfig(choice: ToolChoice): ToolConfig {
+  const functionCallingConfig =
+    typeof choice === 'object'
+      ? { mode: 'ANY', allowedFunctionNames: [choice.name] }
+      : { mode: choice === 'required' ? 'ANY' : choice.toUpperCase() }
+  // FunctionCallingMode は値としての enum のため、文字列値をそのまま渡す
+  return { functionCallingConfig } as unknown as ToolConfig
+}
+
 /**
  * リクエストパラメータを構築する。
+ *
+ * 構造化出力は responseMimeType / responseSchema に変換する。Gemini は関数呼び出しと
+ * JSON 出力を併用できないため、ツールを渡すリクエストでは送らない（最終応答の検証は AgentLoop に任せる）。
+ * toolChoice はツールを渡すリクエストでのみ toolConfig に変換する。
  */
 function buildRequest(
   contents: GeminiSdkContent[],
   systemInstruction: GeminiSdkContent | undefined,
   tools: readonly Tool[] | undefined,
+  generationConfig: GenerationConfig | undefined,
+  options?: CompletionOptions,
 ): GenerateContentRequest {
   const request: GenerateContentRequest = { contents }
+  const hasTools = tools !== undefined && tools.length > 0
+  const responseFormat = options?.responseFormat
+
+  if (responseFormat !== undefined && !hasTools) {
+    request.generationConfig = {
+      ...generationConfig,
+      responseMimeType: 'application/json',
+      responseSchema: toResponseSchema(responseFormat.schema) as unknown as ResponseSchema,
+    }
+  } else if (generationConfig) {
+    request.generationConfig = generationConfig
+  }
 
   if (systemInstruction) {
     request.systemInstruction = systemInstruction
   }
 
-  if (tools && tools.length > 0) {
+  if (hasTools) {
     request.tools = convertTools(tools)
+    if (options?.toolChoice !== undefined) {
+      request.toolConfig = toToolConfig(options.toolChoice)
+    }
   }
 
   return request
 }
 
+/**
+ * GenerationOptions を generationConfig に変換する。指定がなければ undefined
+ *
+ * seed と thinkingConfig は SDK の型定義にないが、API はそのまま受け付けるため型を拡張して渡す。
+ */
+function toGenerationConfig(generation: GenerationOptions): GenerationConfig | undefined {
+  const generationConfig: GenerationConfig & {
+    seed?: number
+    thinkingConfig?: { thinkingBudget: number; includeThoughts: boolean }
+  } = {
+    ...(generation.maxTokens !== undefined ? { maxOutputTokens: generation.maxTokens } : {}),
+    ...(generation.temperature !== undefined ? { temperature: generation.temperature } : {}),
+    ...(generation.topP !== undefined ? { topP: generation.topP } : {}),
+    ...(generation.stop !== undefined ? { stopSequences: [...generation.stop] } : {}),
+    ...(generation.seed !== undefined ? { seed: generation.seed } : {}),
+    ...(generation.thinking !== undefined
+      ? {
+          thinkingConfig: {
+            thinkingBudget: generation.thinking.budgetTokens,
+            includeThoughts: true,
+          },
+        }
+      : {}),
+  }
+  return Object.keys(generationConfig).length > 0 ? generationConfig : undefined
+}
+
 /**
  * Gemini プロバイダーを生成するファクトリ関数。
  *
+ * countTokens() は SDK の countTokens でシステム指示・ツール定義を含めた入力トークン数を数える。
+ *
  * @param config - プロバイダー設定（apiKey 必須）
  * @param model - 使用するモデル名（例: 'gemini-pro'）
+ * @param generation - 生成パラメータ（config.generation より優先）
  * @returns Result<LLMProvider> - 成功時は LLMProvider、失敗時はエラーメッセージ
  */
-export function createGeminiProvider(config: ProviderConfig, model: string): Result<LLMProvider> {
+export function createGeminiProvider(
+  config: ProviderConfig,
+  model: string,
+  generation?: GenerationOptions,
+): Result<LLMProvider> {
   const apiKey = config.apiKey ?? process.env['GEMINI_API_KEY']
   if (!apiKey) {
     return err(
@@ -207,15 +342,23 @@ export function createGeminiProvider(config: ProviderConfig, model: string): Res
 
   const genAI = new GoogleGenerativeAI(apiKey)
   const generativeModel = genAI.getGenerativeModel({ model })
+  const generationConfig = toGenerationConfig({ ...config.generation, ...generation })
 
   const provider: LLMProvider = {
     async complete(
       messages: readonly Message[],
       tools?: readonly Tool[],
+      options?: CompletionOptions,
     ): Promise<Result<LLMResponse>> {
       try {
         const { contents, systemInstruction } = separateSystemMessages(messages)
-        const requestParams = buildRequest(contents, systemInstruction, tools)
+        const requestParams = buildRequest(
+          contents,
+          systemInstruction,
+          tools,
+          generationConfig,
+          options,
+        )
 
         const result = await generativeModel.generateContent(requestParams)
         const response = result.response
@@ -227,28 +370,37 @@ export function createGeminiProvider(config: ProviderConfig, model: string): Res
         const parts: GeminiResponsePart[] =
           firstCandidate === undefined ? [] : (firstCandidate.content.parts as GeminiResponsePart[])
 
-        const { content, toolCalls } = extractPartsData(parts)
+        const { content, thinking, toolCalls } = extractPartsData(parts)
         const usage = convertUsage(response.usageMetadata)
 
         return ok({
           content,
           toolCalls,
           usage,
+          ...(thinking !== '' ? { thinking: [{ text: thinking }] } : {}),
         })
       } catch (error: unknown) {
         const message = error instanceof Error ? error.message : String(error)
-        return err(message)
+        return err(message, error)
       }
     },
 
     async *stream(
       messages: readonly Message[],
       tools?: readonly Tool[],
+      options?: CompletionOptions,
     ): AsyncIterable<StreamChunk> {
       const { contents, systemInstruction } = separateSystemMessages(messages)
-      const requestParams = buildRequest(contents, systemInstruction, tools)
+      const requestParams = buildRequest(
+        contents,
+        systemInstruction,
+        tools,
+        generationConfig,
+        options,
+      )
 
       const streamResult = await generativeModel.generateContentStream(requestParams)
+      let thinking = ''
 
       for await (const chunk of streamResult.stream) {
         // candidates は SDK の型定義では non-nullable だが、実際の API レスポンスでは
@@ -259,7 +411,10 @@ export function createGeminiProvider(config: ProviderConfig, model: string): Res
           firstCandidate === undefined ? [] : (firstCandidate.content.parts as GeminiResponsePart[])
 
         for (const part of parts) {
-          if (part.text) {
+          if (part.text && part.thought === true) {
+            thinking += part.text
+            yield { type: 'thinking_delta' as const, content: part.text }
+          } else if (part.text) {
             yield { type: 'delta' as const, content: part.text }
           }
           if (part.functionCall) {
@@ -275,11 +430,31 @@ export function createGeminiProvider(config: ProviderConfig, model: string): Res
         }
       }
 
+      if (thinking !== '') {
+        yield { type: 'thinking' as const, thinking: { text: thinking } }
+      }
+
       // ストリーム完了後に usage を取得
       const finalResponse = await streamResult.response
       const usage = convertUsage(finalResponse.usageMetadata)
       yield { type: 'done' as const, usage }
     },
+
+    async countTokens(
+      messages: readonly Message[],
+      tools?: readonly Tool[],
+    ): Promise<Result<number>> {
+      try {
+        const { contents, systemInstruction } = separateSystemMessages(messages)
+        const generateContentRequest = buildRequest(contents, systemInstruction, tools, undefined)
+
+        const response = await generativeModel.countTokens({ generateContentRequest })
+        return ok(response.totalTokens)
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error)
+        return err(message, error)
+      }
+    },
   }
 
   return ok(provider)
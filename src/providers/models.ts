@@ -0,0 +1,246 @@
+/**
+ * モデルの能力カタログ
+ *
+ * モデルごとのコンテキストウィンドウ・最大出力トークン数・ツール / 画像 / ストリーミング usage への
+ * 対応を解決する ModelCatalogue と、Ollama の /api/show からの能力の取得、
+ * プロバイダー設定の事前検証を提供する。
+ */
+import type { Result } from '../result.js'
+import { ok, err } from '../result.js'
+import type { ModelCapabilities, ModelCatalogue, ModelInfo, ResponseMetadata } from './types.js'
+import type { ProviderConfig } from '../loader/types.js'
+import { showOllamaModel } from './ollama-models.js'
+import type { OllamaShowResponse } from './ollama-models.js'
+
+/**
+ * 組み込みの能力カタログ
+ *
+ * キーはモデル名の前方一致で解決する（例: 'claude-sonnet-4' は 'claude-sonnet-4-20250514' に一致）。
+ * config.json の models で上書き・追加できる。
+ */
+export const DEFAULT_MODEL_CAPABILITIES: Readonly<Record<string, ModelCapabilities>> = {
+  'claude-opus-4': {
+    contextWindow: 200_000,
+    maxOutputTokens: 32_000,
+    tools: true,
+    vision: true,
+    streamingUsage: true,
+  },
+  'claude-opus-4-5': {
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    tools: true,
+    vision: true,
+    streamingUsage: true,
+  },
+  'claude-sonnet-4': {
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    tools: true,
+    vision: true,
+    streamingUsage: true,
+  },
+  'claude-haiku-4-5': {
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    tools: true,
+    vision: true,
+    streamingUsage: true,
+  },
+  'claude-3-5-haiku': {
+    contextWindow: 200_000,
+    maxOutputTokens: 8_192,
+    tools: true,
+    vision: true,
+    streamingUsage: true,
+  },
+  'gpt-4o': {
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+    tools: true,
+    vision: true,
+    streamingUsage: true,
+  },
+  'gpt-4.1': {
+    contextWindow: 1_047_576,
+    maxOutputTokens: 32_768,
+    tools: true,
+    vision: true,
+    streamingUsage: true,
+  },
+  o3: {
+    contextWindow: 200_000,
+    maxOutputTokens: 100_000,
+    tools: true,
+    vision: true,
+    streamingUsage: true,
+  },
+  'o3-mini': {
+    contextWindow: 200_000,
+    maxOutputTokens: 100_000,
+    tools: true,
+    vision: false,
+    streamingUsage: true,
+  },
+  'o4-mini': {
+    contextWindow: 200_000,
+    maxOutputTokens: 100_000,
+    tools: true,
+    vision: true,
+    streamingUsage: true,
+  },
+  'gemini-2.5-pro': {
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    tools: true,
+    vision: true,
+    streamingUsage: true,
+  },
+  'gemini-2.5-flash': {
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    tools: true,
+    vision: true,
+    streamingUsage: true,
+  },
+}
+
+/**
+ * モデル名をキーとする表からプロバイダー/モデルの値を解決する
+ *
+ * 解決順序:
+ * 1. `provider/model` と完全一致するキー
+ * 2. モデル名と完全一致するキー
+ * 3. モデル名が前方一致する最長のキー
+ */
+export function resolveModelEntry<T>(
+  table: Readonly<Record<string, T>>,
+  source: ResponseMetadata,
+): T | undefined {
+  const exact = table[`${source.provider}/${source.model}`] ?? table[source.model]
+  if (exact !== undefined) return exact
+
+  let best: string | undefined
+  for (const key of Object.keys(table)) {
+    if (source.model.startsWith(key) && (best === undefined || key.length > best.length)) {
+      best = key
+    }
+  }
+  return best !== undefined ? table[best] : undefined
+}
+
+/**
+ * ModelCatalogue を生成する
+ *
+ * 能力は項目ごとに「組み込み → 実行時に取得した値 → overrides」の順に上書きする。
+ * 例えば overrides で contextWindow だけを指定した場合も、tools 等は組み込みの値を使う。
+ *
+ * @param overrides - config.json の models（モデル名または `provider/model` → 能力）
+ */
+export function createModelCatalogue(
+  overrides: Readonly<Record<string, ModelCapabilities>> = {},
+): ModelCatalogue {
+  const discovered = new Map<string, ModelCapabilities>()
+
+  return {
+    resolve(source: ResponseMetadata): ModelCapabilities | undefined {
+      const layers = [
+        resolveModelEntry(DEFAULT_MODEL_CAPABILITIES, source),
+        discovered.get(`${source.provider}/${source.model}`),
+        resolveModelEntry(overrides, source),
+      ].filter((layer): layer is ModelCapabilities => layer !== undefined)
+      if (layers.length === 0) return undefined
+      return layers.reduce<ModelCapabilities>((merged, layer) => ({ ...merged, ...layer }), {})
+    },
+
+    register(source: ResponseMetadata, capabilities: ModelCapabilities): void {
+      discovered.set(`${source.provider}/${source.model}`, capabilities)
+    },
+
+    list(): ModelInfo[] {
+      const models = new Map<string, ModelInfo>()
+      for (const [name, capabilities] of Object.entries(DEFAULT_MODEL_CAPABILITIES)) {
+        models.set(name, { name, capabilities, source: 'builtin' })
+      }
+      for (const [name, capabilities] of discovered) {
+        models.set(name, { name, capabilities, source: 'discovered' })
+      }
+      for (const [name, capabilities] of Object.entries(overrides)) {
+        const base = models.get(name)?.capabilities
+        models.set(name, { name, capabilities: { ...base, ...capabilities }, source: 'config' })
+      }
+      return [...models.values()].sort((a, b) => a.name.localeCompare(b.name))
+    },
+  }
+}
+
+/**
+ * プロバイダー設定がモデルの能力と矛盾しないかを検証する
+ *
+ * - ツール呼び出しに対応しないモデルは、quirks.emulateToolCalls を指定しない限りエラー
+ * - generation.maxTokens がモデルの最大出力トークン数を超える場合はエラー
+ *
+ * 能力が不明な項目（undefined）は検証しない。
+ */
+export function validateModelCapabilities(
+  config: ProviderConfig,
+  model: string,
+  capabilities: ModelCapabilities | undefined,
+): Result<void> {
+  if (capabilities === undefined) return ok(undefined)
+
+  if (capabilities.tools === false && config.quirks?.emulateToolCalls !== true) {
+    return err(`Model does not support tool calls: ${model}`)
+  }
+  const maxTokens = config.generation?.maxTokens
+  const { maxOutputTokens } = capabilities
+  if (maxTokens !== undefined && maxOutputTokens !== undefined && maxTokens > maxOutputTokens) {
+    return err(
+      `generation.maxTokens (${String(maxTokens)}) exceeds the output limit of ${model} (${String(maxOutputTokens)})`,
+    )
+  }
+  return ok(undefined)
+}
+
+// ─── Ollama からの取得 ───────────────────────────────────
+
+/** /api/show のレスポンスからコンテキストウィンドウを取り出す（num_ctx の指定を優先する） */
+function getOllamaContextWindow(show: OllamaShowResponse): number | undefined {
+  const numCtx = /^num_ctx\s+(\d+)/m.exec(show.parameters ?? '')?.[1]
+  if (numCtx !== undefined) return Number(numCtx)
+
+  const info = show.model_info ?? {}
+  const architecture = info['general.architecture']
+  const contextLength =
+    typeof architecture === 'string' ? info[`${architecture}.context_length`] : undefined
+  return typeof contextLength === 'number' ? contextLength : undefined
+}
+
+/**
+ * Ollama の /api/show からモデルの能力を取得する
+ *
+ * コンテキストウィンドウは Modelfile の num_ctx、なければモデルの context_length を使う。
+ * tools / vision は /api/show の capabilities から判定する（省略された場合は不明のまま）。
+ * Ollama はストリームの最終チャンクで常にトークン数を返すため streamingUsage は true。
+ *
+ * @param config - Ollama のプロバイダー設定（baseUrl の既定は http://localhost:11434）
+ * @param model - モデル名
+ */
+export async function fetchOllamaCapabilities(
+  config: ProviderConfig,
+  model: string,
+): Promise<Result<ModelCapabilities>> {
+  const shown = await showOllamaModel(config, model)
+  if (!shown.ok) return shown
+  const show = shown.data
+
+  const contextWindow = getOllamaContextWindow(show)
+  const { capabilities } = show
+  return ok({
+    ...(contextWindow !== undefined ? { contextWindow } : {}),
+    ...(capabilities !== undefined
+      ? { tools: capabilities.includes('tools'), vision: capabilities.includes('vision') }
+      : {}),
+    streamingUsage: true,
+  })
+}
@@ -0,0 +1,241 @@
+/**
+ * Ollama のモデル管理
+ *
+ * Ollama の /api/tags（ローカルモデル一覧）、/api/show（モデル情報）、
+ * /api/pull（ダウンロード。進捗をストリームで受け取る）を native fetch で呼び出す。
+ * ProviderConfig.autoPull を指定した Ollama プロバイダーは、初回使用時に ensureOllamaModel() で
+ * 未取得のモデルを pull する。
+ */
+import { ok, err } from '../result.js'
+import type { Result } from '../result.js'
+import type { ProviderConfig } from '../loader/types.js'
+
+/** config.baseUrl 省略時の Ollama サーバー */
+export const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434'
+
+// ─── 型定義 ──────────────────────────────────────────────
+
+/** ローカルにあるモデル（/api/tags の要素） */
+export interface OllamaModel {
+  /** モデル名（例: 'llama3.1:8b'） */
+  readonly name: string
+  /** ディスク上のサイズ（バイト） */
+  readonly size: number
+  /** 最終更新日時（ISO 8601） */
+  readonly modifiedAt: string
+  readonly digest: string
+  /** モデルファミリー（例: 'llama'） */
+  readonly family?: string
+  /** パラメータ数（例: '8.0B'） */
+  readonly parameterSize?: string
+  /** 量子化（例: 'Q4_K_M'） */
+  readonly quantizationLevel?: string
+}
+
+/** /api/show のレスポンス（使用する項目のみ） */
+export interface OllamaShowResponse {
+  /** Modelfile の PARAMETER（`num_ctx 8192` 等の改行区切り） */
+  readonly parameters?: string
+  /** `<architecture>.context_length` 等のモデルのメタデータ */
+  readonly model_info?: Record<string, unknown>
+  /** 'completion' / 'tools' / 'vision' 等（古い Ollama では省略される） */
+  readonly capabilities?: readonly string[]
+}
+
+/** /api/pull の進捗（ストリームの 1 行） */
+export interface OllamaPullProgress {
+  /** 'pulling manifest' / 'pulling <digest>' / 'verifying sha256 digest' / 'success' 等 */
+  readonly status: string
+  /** ダウンロード中のレイヤー */
+  readonly digest?: string
+  /** レイヤーの合計バイト数 */
+  readonly total?: number
+  /** レイヤーのダウンロード済みバイト数 */
+  readonly completed?: number
+}
+
+/** /api/tags レスポンスの要素 */
+interface OllamaTagsModel {
+  readonly name: string
+  readonly size: number
+  readonly modified_at: string
+  readonly digest: string
+  readonly details?: {
+    readonly family?: string
+    readonly parameter_size?: string
+    readonly quantization_level?: string
+  }
+}
+
+// ─── NDJSON パーサー ────────────────────────────────────
+
+/** Ollama のストリーミングレスポンス（1 行 1 JSON）を行ごとに解析する */
+export async function* parseNdjson(body: ReadableStream<Uint8Array>): AsyncGenerator {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() ?? ''
+      for (const line of lines) {
+        const trimmed = line.trim()
+        if (trimmed) yield JSON.parse(trimmed) as unknown
+      }
+    }
+    if (buffer.trim()) yield JSON.parse(buffer.trim()) as unknown
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+// ─── API ─────────────────────────────────────────────────
+
+/** Ollama API を呼び出し、エラーレスポンスは status / headers を cause に持つ err に変換する */
+async function request(
+  config: ProviderConfig,
+  endpoint: string,
+  body?: Record<string, unknown>,
+): Promise<Result<Response>> {
+  const baseUrl = config.baseUrl ?? DEFAULT_OLLAMA_BASE_URL
+  try {
+    const response = await fetch(
+      `${baseUrl}${endpoint}`,
+      body !== undefined
+        ? {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+          }
+        : { method: 'GET' },
+    )
+    if (!response.ok) {
+      const text = await response.text()
+      return err(`Ollama API error (${String(response.status)}): ${text}`, {
+        status: response.status,
+        headers: response.headers,
+      })
+    }
+    return ok(response)
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error)
+    return err(`Ollama fetch error: ${message}`, error)
+  }
+}
+
+/** err の cause が HTTP 404 かどうか */
+function isNotFound(cause: unknown): boolean {
+  return (
+    typeof cause === 'object' &&
+    cause !== null &&
+    (cause as Record<string, unknown>)['status'] === 404
+  )
+}
+
+/**
+ * ローカルにあるモデルの一覧を /api/tags から取得する
+ *
+ * @param config - Ollama のプロバイダー設定（baseUrl の既定は http://localhost:11434）
+ */
+export async function listOllamaModels(config: ProviderConfig): Promise<Result<OllamaModel[]>> {
+  const response = await request(config, '/api/tags')
+  if (!response.ok) return response
+  try {
+    const data = (await response.data.json()) as { models?: readonly OllamaTagsModel[] }
+    return ok(
+      (data.models ?? []).map((m) => ({
+        name: m.name,
+        size: m.size,
+        modifiedAt: m.modified_at,
+        digest: m.digest,
+        ...(m.details?.family !== undefined ? { family: m.details.family } : {}),
+        ...(m.details?.parameter_size !== undefined
+          ? { parameterSize: m.details.parameter_size }
+          : {}),
+        ...(m.details?.quantization_level !== undefined
+          ? { quantizationLevel: m.details.quantization_level }
+          : {}),
+      })),
+    )
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error)
+    return err(`Ollama fetch error: ${message}`, error)
+  }
+}
+
+/**
+ * モデルの情報を /api/show から取得する
+ *
+ * モデルがローカルにない場合は HTTP 404（cause.status）の err を返す。
+ */
+export async function showOllamaModel(
+  config: ProviderConfig,
+  model: string,
+): Promise<Result<OllamaShowResponse>> {
+  const response = await request(config, '/api/show', { model })
+  if (!response.ok) return response
+  try {
+    return ok((await response.data.json()) as OllamaShowResponse)
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error)
+    return err(`Ollama fetch error: ${message}`, error)
+  }
+}
+
+/**
+ * モデルを /api/pull でダウンロードする
+ *
+ * 進捗はストリームの 1 行ごとに onProgress で通知する。
+ * ストリーム中のエラー（`{ "error": ... }`）や 'success' で終わらない場合は err を返す。
+ *
+ * @param config - Ollama のプロバイダー設定
+ * @param model - ダウンロードするモデル名
+ * @param onProgress - 進捗を受け取るコールバック
+ */
+export async function pullOllamaModel(
+  config: ProviderConfig,
+  model: string,
+  onProgress?: (progress: OllamaPullProgress) => void,
+): Promise<Result<void>> {
+  const response = await request(config, '/api/pull', { model, stream: true })
+  if (!response.ok) return response
+  const body = response.data.body
+  if (!body) {
+    return err('Ollama pull: response body is null')
+  }
+
+  let succeeded = false
+  try {
+    for await (const raw of parseNdjson(body)) {
+      const line = raw as OllamaPullProgress & { readonly error?: string }
+      if (line.error !== undefined) {
+        return err(`Failed to pull ${model}: ${line.error}`)
+      }
+      onProgress?.(line)
+      succeeded = line.status === 'success'
+    }
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error)
+    return err(`Failed to pull ${model}: ${message}`, error)
+  }
+  return succeeded ? ok(undefined) : err(`Failed to pull ${model}: stream ended before success`)
+}
+
+/**
+ * モデルがローカルになければ pull する
+ *
+ * /api/show が 404 を返した場合のみ pullOllamaModel() を呼び、それ以外のエラーはそのまま返す。
+ */
+export async function ensureOllamaModel(
+  config: ProviderConfig,
+  model: string,
+  onProgress?: (progress: OllamaPullProgress) => void,
+): Promise<Result<void>> {
+  const shown = await showOllamaModel(config, model)
+  if (shown.ok) return ok(undefined)
+  if (!isNotFound(shown.cause)) return shown
+  return pullOllamaModel(config, model, onProgress)
+}
@@ -6,16 +6,22 @@
  */
 import { ok, err } from '../result.js'
 import type { Result } from '../result.js'
+import { getImageParts, getTextContent } from './content.js'
 import type {
+  CompletionOptions,
+  GenerationOptions,
   LLMProvider,
   LLMResponse,
   Message,
   Tool,
   ToolCall,
+  ToolChoice,
   StreamChunk,
   TokenUsage,
 } from './types.js'
 import type { ProviderConfig } from '../loader/types.js'
+import { DEFAULT_OLLAMA_BASE_URL, ensureOllamaModel, parseNdjson } from './ollama-models.js'
+import type { OllamaPullProgress } from './ollama-models.js'
 
 // ─── 内部型定義（Ollama API レスポンス） ───────────────────
 
@@ -31,6 +37,8 @@ interface OllamaToolCall {
 interface OllamaChatMessage {
   readonly role: string
   readonly content?: string
+  /** 推論テキスト（think: true のとき） */
+  readonly thinking?: string
   readonly tool_calls?: readonly OllamaToolCall[]
 }
 
@@ -71,6 +79,21 @@ function convertToolsToOpenAIFormat(tools: readonly Tool[]): readonly OpenAITool
   }))
 }
 
+/**
+ * ToolChoice に従って送信するツールを絞り込む
+ *
+ * Ollama の API には tool_choice がないため、'none' はツールを送らず、
+ * 指名されたツールはそのツールだけを送ることで近似する（'required' は強制できない）。
+ */
+function selectTools(
+  tools: readonly Tool[] | undefined,
+  choice: ToolChoice | undefined,
+): readonly Tool[] {
+  if (tools === undefined || choice === 'none') return []
+  if (typeof choice === 'object') return tools.filter((tool) => tool.name === choice.name)
+  return tools
+}
+
 // ─── OllamaToolCall → ToolCall 変換 ─────────────────────
 
 function convertToolCalls(ollamaToolCalls: readonly OllamaToolCall[]): readonly ToolCall[] {
@@ -93,28 +116,18 @@ function convertUsage(promptEvalCount?: number, evalCount?: number): TokenUsage
   }
 }
 
-// ─── NDJSON パーサー ────────────────────────────────────
-
-async function* parseNdjson(body: ReadableStream<Uint8Array>): AsyncGenerator {
-  const reader = body.getReader()
-  const decoder = new TextDecoder()
-  let buffer = ''
-  try {
-    for (;;) {
-      const { done, value } = await reader.read()
-      if (done) break
-      buffer += decoder.decode(value, { stream: true })
-      const lines = buffer.split('\n')
-      buffer = lines.pop() ?? ''
-      for (const line of lines) {
-        const trimmed = line.trim()
-        if (trimmed) yield JSON.parse(trimmed) as unknown
-      }
-    }
-    if (buffer.trim()) yield JSON.parse(buffer.trim()) as unknown
-  } finally {
-    reader.releaseLock()
+// ─── 生成パラメータ変換 ──────────────────────────────────
+
+/** GenerationOptions を Ollama の options に変換する。指定がなければ undefined */
+function toOllamaOptions(generation: GenerationOptions): Record<string, unknown> | undefined {
+  const options: Record<string, unknown> = {
+    ...(generation.maxTokens !== undefined ? { num_predict: generation.maxTokens } : {}),
+    ...(generation.temperature !== undefined ? { temperature: generation.temperature } : {}),
+    ...(generation.topP !== undefined ? { top_p: generation.topP } : {}),
+    ...(generation.stop !== undefined ? { stop: [...generation.stop] } : {}),
+    ...(generation.seed !== undefined ? { seed: generation.seed } : {}),
   }
+  return Object.keys(options).length > 0 ? options : undefined
 }
 
 // ─── メッセージ変換（AgentLoop → Ollama API） ──────────────
@@ -128,6 +141,8 @@ async function* parseNdjson(body: ReadableStream<Uint8Array>): AsyncGenerator {
 interface OllamaRequestMessage {
   readonly role: string
   readonly content: string
+  /** base64 エンコードされた画像（マルチモーダルモデル用） */
+  readonly images?: readonly string[]
   readonly tool_calls?: ReadonlyArray<{
     readonly function: {
       readonly name: string
@@ -143,19 +158,27 @@ interface OllamaRequestMessage {
  * 1. ツール結果メッセージ (role:'user' + toolCallId) → { role: 'tool', content }
  * 2. assistant + toolCalls → { role: 'assistant', content, tool_calls }
  * 3. 通常メッセージ → { role, content }
+ *
+ * コンテンツパートのテキストは content に結合し、画像は images フィールドで送る。
+ * Ollama はドキュメントを扱えないため document パートは送信しない。
  */
 function toOllamaMessages(messages: readonly Message[]): readonly OllamaRequestMessage[] {
   return messages.map((m): OllamaRequestMessage => {
+    const content = getTextContent(m.content)
+    const images = getImageParts(m.content).map((part) => part.data)
+    const imagesField = images.length > 0 ? { images } : {}
+
     // Case 1: ツール結果メッセージ → role: 'tool'
     if (m.toolCallId !== undefined) {
-      return { role: 'tool', content: m.content }
+      return { role: 'tool', content, ...imagesField }
     }
 
     // Case 2: assistant がツール呼び出しを含む場合
     if (m.toolCalls !== undefined && m.toolCalls.length > 0) {
       return {
         role: m.role,
-        content: m.content,
+        content,
+        ...imagesField,
         tool_calls: m.toolCalls.map((tc) => ({
           function: {
             name: tc.name,
@@ -166,33 +189,84 @@ function toOllamaMessages(messages: readonly Message[]): readonly OllamaRequestM
     }
 
     // Case 3: 通常メッセージ
-    return { role: m.role, content: m.content }
+    return { role: m.role, content, ...imagesField }
   })
 }
 
 // ─── ファクトリ関数 ──────────────────────────────────────
 
+/** countTokens() のドライランで生成させるトークン数 */
+const DRY_RUN_NUM_PREDICT = 1
+
+/** createOllamaProvider のオプション */
+export interface OllamaProviderOptions {
+  /** config.autoPull によるモデルのダウンロードの進捗を受け取る */
+  readonly onPullProgress?: (model: string, progress: OllamaPullProgress) => void
+}
+
 /**
  * Ollama プロバイダーを生成する
  *
  * API キーは不要。config.baseUrl のデフォルトは http://localhost:11434。
+ * generation は config.generation より優先され、リクエストの options に変換される。
+ * generation.thinking を指定すると think: true を送信する（予算は指定できない）。
+ * 構造化出力（responseFormat）の JSON Schema は format に変換する。
+ * toolChoice は送信するツールの絞り込みで近似する。
+ * config.autoPull を指定すると、最初の呼び出しの前にモデルがローカルにあるかを確認し、
+ * なければ pull する（失敗した場合は次の呼び出しで再試行する）。
+ * countTokens() は Ollama にトークン数を数える API がないため、1 トークンだけ生成する
+ * リクエスト（ドライラン）の prompt_eval_count を返す。
  */
-export function createOllamaProvider(config: ProviderConfig, model: string): Result<LLMProvider> {
-  const baseUrl = config.baseUrl ?? 'http://localhost:11434'
+export function createOllamaProvider(
+  config: ProviderConfig,
+  model: string,
+  generation?: GenerationOptions,
+  providerOptions: OllamaProviderOptions = {},
+): Result<LLMProvider> {
+  const baseUrl = config.baseUrl ?? DEFAULT_OLLAMA_BASE_URL
+  const mergedGeneration: GenerationOptions = { ...config.generation, ...generation }
+  const options = toOllamaOptions(mergedGeneration)
+  const think = mergedGeneration.thinking !== undefined
+  const { onPullProgress } = providerOptions
+
+  /** 確認済み（または確認中）のモデルの取得。失敗した場合は破棄して次の呼び出しで再試行する */
+  let modelReady: Promise<Result<void>> | undefined
+
+  /** config.autoPull が指定されていれば、モデルがローカルにない場合に pull する */
+  function ensureModel(): Promise<Result<void>> {
+    if (config.autoPull !== true) return Promise.resolve(ok(undefined))
+    modelReady ??= ensureOllamaModel(config, model, (progress) => {
+      onPullProgress?.(model, progress)
+    }).then((result) => {
+      if (!result.ok) modelReady = undefined
+      return result
+    })
+    return modelReady
+  }
 
   const provider: LLMProvider = {
     async complete(
       messages: readonly Message[],
       tools?: readonly Tool[],
+      completionOptions?: CompletionOptions,
     ): Promise<Result<LLMResponse>> {
+      const ready = await ensureModel()
+      if (!ready.ok) return ready
+
       const requestBody: Record<string, unknown> = {
         model,
         messages: toOllamaMessages(messages),
         stream: false,
+        ...(options ? { options } : {}),
+        ...(think ? { think } : {}),
+        ...(completionOptions?.responseFormat !== undefined
+          ? { format: completionOptions.responseFormat.schema }
+          : {}),
       }
 
-      if (tools && tools.length > 0) {
-        requestBody['tools'] = convertToolsToOpenAIFormat(tools)
+      const sentTools = selectTools(tools, completionOptions?.toolChoice)
+      if (sentTools.length > 0) {
+        requestBody['tools'] = convertToolsToOpenAIFormat(sentTools)
       }
 
       try {
@@ -204,7 +278,10 @@ export function createOllamaProvider(config: ProviderConfig, model: string): Res
 
         if (!response.ok) {
           const text = await response.text()
-          return err(`Ollama API error (${String(response.status)}): ${text}`)
+          return err(`Ollama API error (${String(response.status)}): ${text}`, {
+            status: response.status,
+            headers: response.headers,
+          })
         }
 
         const data = (await response.json()) as OllamaChatResponse
@@ -214,32 +291,46 @@ export function createOllamaProvider(config: ProviderConfig, model: string): Res
             ? convertToolCalls(data.message.tool_calls)
             : undefined
         const usage = convertUsage(data.prompt_eval_count, data.eval_count)
+        const thinking = data.message.thinking
 
         const llmResponse: LLMResponse = {
           content,
           ...(toolCalls ? { toolCalls } : {}),
           ...(usage ? { usage } : {}),
+          ...(thinking ? { thinking: [{ text: thinking }] } : {}),
         }
 
         return ok(llmResponse)
       } catch (error: unknown) {
         const message = error instanceof Error ? error.message : String(error)
-        return err(`Ollama fetch error: ${message}`)
+        return err(`Ollama fetch error: ${message}`, error)
       }
     },
 
     async *stream(
       messages: readonly Message[],
       tools?: readonly Tool[],
+      completionOptions?: CompletionOptions,
     ): AsyncIterable<StreamChunk> {
+      const ready = await ensureModel()
+      if (!ready.ok) {
+        throw ready.cause instanceof Error ? ready.cause : new Error(ready.error)
+      }
+
       const requestBody: Record<string, unknown> = {
         model,
         messages: toOllamaMessages(messages),
         stream: true,
+        ...(options ? { options } : {}),
+        ...(think ? { think } : {}),
+        ...(completionOptions?.responseFormat !== undefined
+          ? { format: completionOptions.responseFormat.schema }
+          : {}),
       }
 
-      if (tools && tools.length > 0) {
-        requestBody['tools'] = convertToolsToOpenAIFormat(tools)
+      const sentTools = selectTools(tools, completionOptions?.toolChoice)
+      if (sentTools.length > 0) {
+        requestBody['tools'] = convertToolsToOpenAIFormat(sentTools)
       }
 
       const response = await fetch(`${baseUrl}/api/chat`, {
@@ -257,9 +348,16 @@ export function createOllamaProvider(config: ProviderConfig, model: string): Res
         throw new Error('Ollama stream: response body is null')
       }
 
+      let thinking = ''
       for await (const raw of parseNdjson(response.body)) {
         const chunk = raw as OllamaStreamChunk
 
+        // 推論デルタチャンク
+        if (chunk.message?.thinking) {
+          thinking += chunk.message.thinking
+          yield { type: 'thinking_delta' as const, content: chunk.message.thinking }
+        }
+
         // ツール呼び出しチャンク
         if (chunk.message?.tool_calls && chunk.message.tool_calls.length > 0) {
           for (const tc of chunk.message.tool_calls) {
@@ -280,11 +378,58 @@ export function createOllamaProvider(config: ProviderConfig, model: string): Res
 
         // 完了チャンク
         if (chunk.done) {
+          if (thinking !== '') {
+            yield { type: 'thinking' as const, thinking: { text: thinking } }
+          }
           const usage = convertUsage(chunk.prompt_eval_count, chunk.eval_count)
           yield { type: 'done' as const, ...(usage ? { usage } : {}) }
         }
       }
     },
+
+    async countTokens(
+      messages: readonly Message[],
+      tools?: readonly Tool[],
+    ): Promise<Result<number>> {
+      const ready = await ensureModel()
+      if (!ready.ok) return ready
+
+      // 1 トークンだけ生成させ、プロンプトの評価トークン数を読み取る
+      const requestBody: Record<string, unknown> = {
+        model,
+        messages: toOllamaMessages(messages),
+        stream: false,
+        options: { ...options, num_predict: DRY_RUN_NUM_PREDICT },
+      }
+      if (tools && tools.length > 0) {
+        requestBody['tools'] = convertToolsToOpenAIFormat(tools)
+      }
+
+      try {
+        const response = await fetch(`${baseUrl}/api/chat`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(requestBody),
+        })
+
+        if (!response.ok) {
+          const text = await response.text()
+          return err(`Ollama API error (${String(response.status)}): ${text}`, {
+            status: response.status,
+            headers: response.headers,
+          })
+        }
+
+        const data = (await response.json()) as OllamaChatResponse
+        if (data.prompt_eval_count === undefined) {
+          return err('Ollama response does not include prompt_eval_count')
+        }
+        return ok(data.prompt_eval_count)
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error)
+        return err(`Ollama fetch error: ${message}`, error)
+      }
+    },
   }
 
   return ok(provider)
@@ -0,0 +1,495 @@
+/**
+ * OpenAI 互換 LLM プロバイダー
+ *
+ * vLLM / LM Studio / llama.cpp / OpenRouter 等の Chat Completions 互換エンドポイントに対して、
+ * native fetch のみで通信する。サーバーごとの差異は ProviderConfig.quirks のフラグで吸収する。
+ */
+import { randomUUID } from 'node:crypto'
+import type OpenAI from 'openai'
+import { ok, err } from '../result.js'
+import type { Result } from '../result.js'
+import { getTextContent } from './content.js'
+import { estimatePromptTokens } from './token-count.js'
+import {
+  getReasoningContent,
+  toOpenAIMessages,
+  toOpenAITools,
+  toResponseFormatParam,
+  toTokenUsage,
+  toToolChoiceParam,
+} from './openai.js'
+import type {
+  CompletionOptions,
+  ContentPart,
+  GenerationOptions,
+  LLMProvider,
+  LLMResponse,
+  Message,
+  StreamChunk,
+  Tool,
+  ToolCall,
+  ToolChoice,
+} from './types.js'
+import type { OpenAICompatibleQuirks, ProviderConfig } from '../loader/types.js'
+
+// ─── 内部型定義（Chat Completions レスポンス） ───────────
+
+/** レスポンス内の tool_call（id / index の欠落や、オブジェクトの arguments を許容する） */
+interface CompatToolCall {
+  readonly index?: number
+  readonly id?: string
+  readonly function?: {
+    readonly name?: string
+    readonly arguments?: unknown
+  }
+}
+
+/** レスポンスのメッセージ（ストリームでは delta） */
+interface CompatMessage {
+  readonly content?: string | null
+  readonly reasoning_content?: string | null
+  readonly tool_calls?: readonly CompatToolCall[] | null
+}
+
+/** 非ストリーミングレスポンス */
+interface CompatChatResponse {
+  readonly choices?: ReadonlyArray<{ readonly message?: CompatMessage }>
+  readonly usage?: OpenAI.Completions.CompletionUsage | null
+}
+
+/** ストリーミングチャンク */
+interface CompatStreamChunk {
+  readonly choices?: ReadonlyArray<{
+    readonly delta?: CompatMessage
+    readonly finish_reason?: string | null
+  }>
+  readonly usage?: OpenAI.Completions.CompletionUsage | null
+}
+
+/** ストリーミング中のツール呼び出しを蓄積する型 */
+interface ToolCallAccumulator {
+  id: string
+  name: string
+  arguments: string
+}
+
+// ─── ツール呼び出しの変換 ────────────────────────────────
+
+/**
+ * tool_call の arguments を引数オブジェクトに変換する
+ *
+ * 本家は JSON 文字列だが、互換サーバーはオブジェクトや二重にエンコードした文字列を返すことがある。
+ * 解釈できない場合は空オブジェクト {} にフォールバックする。
+ */
+function parseToolArguments(value: unknown): Record<string, unknown> {
+  let parsed = value
+  for (let depth = 0; typeof parsed === 'string' && depth < 2; depth++) {
+    try {
+      parsed = JSON.parse(parsed) as unknown
+    } catch {
+      return {}
+    }
+  }
+  return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+    ? (parsed as Record<string, unknown>)
+    : {}
+}
+
+/** tool_call の id を返す。id がなく synthesizeToolCallIds が有効なら生成する */
+function resolveToolCallId(id: string | undefined, quirks: OpenAICompatibleQuirks): string {
+  if (id !== undefined && id !== '') return id
+  return quirks.synthesizeToolCallIds === true ? `call_${randomUUID()}` : ''
+}
+
+/** レスポンスの tool_calls を ToolCall[] に変換する */
+function toToolCalls(
+  toolCalls: readonly CompatToolCall[],
+  quirks: OpenAICompatibleQuirks,
+): ToolCall[] {
+  return toolCalls.map((tc) => ({
+    id: resolveToolCallId(tc.id, quirks),
+    name: tc.function?.name ?? '',
+    arguments: parseToolArguments(tc.function?.arguments),
+  }))
+}
+
+// ─── ツール呼び出しの模倣（emulateToolCalls） ─────────────
+
+const TOOL_CALL_PATTERN = /<tool_call>\s*([\s\S]*?)\s*<\/tool_call>/g
+
+/** ToolChoice を模倣モードのシステムプロンプトに添える指示に変換する（'auto' は指示なし） */
+function toToolChoiceInstruction(choice: ToolChoice | undefined): string | undefined {
+  if (choice === undefined || choice === 'auto') return undefined
+  if (choice === 'none') return 'Do not call any tool in your next response.'
+  if (choice === 'required') return 'You must call at least one tool in your next response.'
+  return `You must call the "${choice.name}" tool in your next response.`
+}
+
+/** ツール定義と呼び出し形式を説明するシステムプロンプトを生成する */
+function buildToolPrompt(tools: readonly Tool[], choice: ToolChoice | undefined): string {
+  const definitions = tools.map((t) =>
+    JSON.stringify({ name: t.name, description: t.description, parameters: t.parameters }),
+  )
+  const instruction = toToolChoiceInstruction(choice)
+  return [
+    'You can call the following tools. To call a tool, output a block in exactly this format:',
+    '<tool_call>{"name": "<tool name>", "arguments": {<arguments as JSON>}}</tool_call>',
+    'You may output several blocks to call several tools. Tool results are returned in <tool_result> blocks.',
+    '',
+    'Tools:',
+    ...definitions,
+    ...(instruction !== undefined ? ['', instruction] : []),
+  ].join('\n')
+}
+
+/** ToolCall を模倣形式の <tool_call> ブロックに変換する */
+function formatToolCall(toolCall: ToolCall): string {
+  return `<tool_call>${JSON.stringify({ name: toolCall.name, arguments: toolCall.arguments })}</tool_call>`
+}
+
+/**
+ * 模倣モード用にメッセージを変換する
+ *
+ * assistant の toolCalls は本文中の <tool_call> ブロックに、ツール結果は <tool_result> で囲んだ
+ * user メッセージに変換し、ツール定義（と toolChoice の指示）はシステムプロンプトの末尾に追加する。
+ */
+function toEmulatedMessages(
+  messages: readonly Message[],
+  tools: readonly Tool[],
+  choice: ToolChoice | undefined,
+): Message[] {
+  const toolPrompt = buildToolPrompt(tools, choice)
+  const converted = messages.map((m): Message => {
+    if (m.toolCallId !== undefined) {
+      const open = `<tool_result name="${m.name ?? ''}">`
+      const close = '</tool_result>'
+      const content: ContentPart[] | string =
+        typeof m.content === 'string'
+          ? `${open}\n${m.content}\n${close}`
+          : [{ type: 'text', text: open }, ...m.content, { type: 'text', text: close }]
+      return { role: 'user', content }
+    }
+    if (m.role === 'assistant' && m.toolCalls !== undefined && m.toolCalls.length > 0) {
+      const text = getTextContent(m.content)
+      const blocks = m.toolCalls.map(formatToolCall).join('\n')
+      return { role: 'assistant', content: text === '' ? blocks : `${text}\n${blocks}` }
+    }
+    return m
+  })
+
+  const first = converted[0]
+  if (first?.role === 'system') {
+    return [
+      { role: 'system', content: `${getTextContent(first.content)}\n\n${toolPrompt}` },
+      ...converted.slice(1),
+    ]
+  }
+  return [{ role: 'system', content: toolPrompt }, ...converted]
+}
+
+/** 本文から <tool_call> ブロックを取り出し、残りのテキストとツール呼び出しに分ける */
+function extractToolCalls(content: string): { content: string; toolCalls: ToolCall[] } {
+  const toolCalls: ToolCall[] = []
+  const rest = content.replace(TOOL_CALL_PATTERN, (block, json: string) => {
+    const call = parseToolArguments(json)
+    if (typeof call['name'] !== 'string') return block
+    toolCalls.push({
+      id: `call_${randomUUID()}`,
+      name: call['name'],
+      arguments: parseToolArguments(call['arguments']),
+    })
+    return ''
+  })
+  return { content: toolCalls.length > 0 ? rest.trim() : content, toolCalls }
+}
+
+// ─── 生成パラメータ変換 ──────────────────────────────────
+
+/**
+ * GenerationOptions を Chat Completions のパラメータに変換する
+ *
+ * 互換サーバーの多くは max_completion_tokens を解釈しないため max_tokens を送る。
+ */
+function toGenerationParams(generation: GenerationOptions): Record<string, unknown> {
+  return {
+    ...(generation.thinking !== undefined
+      ? { reasoning_effort: generation.thinking.effort ?? 'medium' }
+      : {}),
+    ...(generation.maxTokens !== undefined ? { max_tokens: generation.maxTokens } : {}),
+    ...(generation.temperature !== undefined ? { temperature: generation.temperature } : {}),
+    ...(generation.topP !== undefined ? { top_p: generation.topP } : {}),
+    ...(generation.stop !== undefined ? { stop: [...generation.stop] } : {}),
+    ...(generation.seed !== undefined ? { seed: generation.seed } : {}),
+  }
+}
+
+// ─── SSE パーサー ────────────────────────────────────────
+
+/**
+ * Server-Sent Events の data を JSON として順に返す
+ *
+ * コメント行（OpenRouter の `: OPENROUTER PROCESSING` 等）は無視し、`data: [DONE]` で終了する。
+ */
+async function* parseSse(body: ReadableStream<Uint8Array>): AsyncGenerator {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let data: string[] = []
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (!done) buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split(/\r?\n/)
+      buffer = done ? '' : (lines.pop() ?? '')
+      if (done) lines.push('')
+      for (const line of lines) {
+        if (line.startsWith('data:')) {
+          data.push(line.slice(5).trimStart())
+          continue
+        }
+        if (line !== '' || data.length === 0) continue
+        const event = data.join('\n')
+        data = []
+        if (event === '[DONE]') return
+        yield JSON.parse(event) as unknown
+      }
+      if (done) return
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+// ─── ファクトリ関数 ──────────────────────────────────────
+
+/**
+ * OpenAI 互換プロバイダーを生成する
+ *
+ * config.baseUrl（例: http://localhost:8000/v1）は必須。config.apiKey は指定時のみ
+ * Authorization ヘッダーで送る。config.quirks で以下の差異を吸収する:
+ * - headers: 追加の HTTP ヘッダー
+ * - disableStreamUsage: stream_options.include_usage を送らない
+ * - synthesizeToolCallIds: id のないツール呼び出しに id を生成する
+ * - emulateToolCalls: ツール定義をシステムプロンプトで渡し、本文の <tool_call> ブロックを解析する
+ *
+ * countTokens() はサーバーに依存しないローカルの推定値（estimatePromptTokens）を返す。
+ *
+ * @param config - プロバイダー設定（baseUrl 必須）
+ * @param model - 使用するモデル名
+ * @param generation - 生成パラメータ（config.generation より優先）
+ * @returns Result<LLMProvider> - 成功時はプロバイダーインスタンス、失敗時はエラー
+ */
+export function createOpenAICompatibleProvider(
+  config: ProviderConfig,
+  model: string,
+  generation?: GenerationOptions,
+): Result<LLMProvider> {
+  if (config.baseUrl === undefined || config.baseUrl === '') {
+    return err('OpenAI-compatible provider requires baseUrl. Configure it in config.json')
+  }
+
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`
+  const quirks = config.quirks ?? {}
+  const emulate = quirks.emulateToolCalls === true
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    ...(config.apiKey !== undefined ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+    ...quirks.headers,
+  }
+  const generationParams = toGenerationParams({ ...config.generation, ...generation })
+
+  /**
+   * リクエストボディを組み立てる（模倣モードでは tools を送らずプロンプトに埋め込む）
+   *
+   * 模倣モードでツールを渡す場合、toolChoice はプロンプトの指示に変換し、response_format は
+   * <tool_call> ブロックの出力を妨げるため送らない（最終応答の検証は AgentLoop に任せる）。
+   */
+  function buildRequestBody(
+    messages: readonly Message[],
+    tools: readonly Tool[] | undefined,
+    stream: boolean,
+    options: CompletionOptions | undefined,
+  ): Record<string, unknown> {
+    const hasTools = tools !== undefined && tools.length > 0
+    const emulated = emulate && hasTools
+    const wireMessages = emulated
+      ? toEmulatedMessages(messages, tools, options?.toolChoice)
+      : messages
+    return {
+      model,
+      messages: toOpenAIMessages(wireMessages),
+      ...generationParams,
+      ...(stream ? { stream: true } : {}),
+      ...(stream && quirks.disableStreamUsage !== true
+        ? { stream_options: { include_usage: true } }
+        : {}),
+      ...(hasTools && !emulate
+        ? { tools: toOpenAITools(tools), ...toToolChoiceParam(options?.toolChoice) }
+        : {}),
+      ...(emulated ? {} : toResponseFormatParam(options?.responseFormat)),
+    }
+  }
+
+  /** エンドポイントに POST し、エラーステータスを Result に変換する */
+  async function post(body: Record<string, unknown>): Promise<Result<Response>> {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+    })
+    if (!response.ok) {
+      const text = await response.text()
+      return err(`OpenAI-compatible API error (${String(response.status)}): ${text}`, {
+        status: response.status,
+        headers: response.headers,
+      })
+    }
+    return ok(response)
+  }
+
+  const provider: LLMProvider = {
+    async complete(
+      messages: readonly Message[],
+      tools?: readonly Tool[],
+      options?: CompletionOptions,
+    ): Promise<Result<LLMResponse>> {
+      try {
+        const response = await post(buildRequestBody(messages, tools, false, options))
+        if (!response.ok) return response
+
+        const data = (await response.data.json()) as CompatChatResponse
+        const message = data.choices?.[0]?.message
+        if (message === undefined) {
+          return err('No choices in OpenAI-compatible response')
+        }
+
+        const usage = toTokenUsage(data.usage)
+        const reasoning = getReasoningContent(message)
+        const extracted =
+          emulate && tools !== undefined && tools.length > 0
+            ? extractToolCalls(message.content ?? '')
+            : {
+                content: message.content ?? '',
+                toolCalls: toToolCalls(message.tool_calls ?? [], quirks),
+              }
+
+        return ok({
+          ...extracted,
+          ...(usage ? { usage } : {}),
+          ...(reasoning !== undefined ? { thinking: [{ text: reasoning }] } : {}),
+        })
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error)
+        return err(`OpenAI-compatible fetch error: ${message}`, error)
+      }
+    },
+
+    async *stream(
+      messages: readonly Message[],
+      tools?: readonly Tool[],
+      options?: CompletionOptions,
+    ): AsyncIterable<StreamChunk> {
+      // 模倣モードでは <tool_call> ブロックが途中まで表示されないよう complete() の結果を変換する
+      if (emulate && tools !== undefined && tools.length > 0) {
+        const result = await provider.complete(messages, tools, options)
+        if (!result.ok) {
+          throw result.cause instanceof Error ? result.cause : new Error(result.error)
+        }
+        for (const thinking of result.data.thinking ?? []) {
+          yield { type: 'thinking' as const, thinking }
+        }
+        if (result.data.content !== '') {
+          yield { type: 'delta' as const, content: result.data.content }
+        }
+        for (const toolCall of result.data.toolCalls ?? []) {
+          yield { type: 'tool_call' as const, toolCall }
+        }
+        yield { type: 'done' as const, ...(result.data.usage ? { usage: result.data.usage } : {}) }
+        return
+      }
+
+      const response = await post(buildRequestBody(messages, tools, true, options))
+      if (!response.ok) {
+        throw new Error(response.error)
+      }
+      if (!response.data.body) {
+        throw new Error('OpenAI-compatible stream: response body is null')
+      }
+
+      // ストリーミング中のツール呼び出しを蓄積する（index を省略するサーバーもある）
+      const accumulators = new Map<number, ToolCallAccumulator>()
+      let reasoning = ''
+      let usage: ReturnType<typeof toTokenUsage>
+
+      for await (const raw of parseSse(response.data.body)) {
+        const chunk = raw as CompatStreamChunk
+        const delta = chunk.choices?.[0]?.delta
+
+        if (delta !== undefined) {
+          const reasoningDelta = getReasoningContent(delta)
+          if (reasoningDelta !== undefined) {
+            reasoning += reasoningDelta
+            yield { type: 'thinking_delta' as const, content: reasoningDelta }
+          }
+
+          if (delta.content) {
+            yield { type: 'delta' as const, content: delta.content }
+          }
+
+          for (const tc of delta.tool_calls ?? []) {
+            const idx =
+              tc.index ??
+              (tc.function?.name !== undefined
+                ? accumulators.size
+                : Math.max(0, accumulators.size - 1))
+            let acc = accumulators.get(idx)
+            if (!acc) {
+              acc = { id: '', name: '', arguments: '' }
+              accumulators.set(idx, acc)
+            }
+            if (tc.id) acc.id = tc.id
+            if (tc.function?.name) acc.name = tc.function.name
+            const args = tc.function?.arguments
+            if (typeof args === 'string') {
+              acc.arguments += args
+            } else if (args !== undefined && args !== null) {
+              acc.arguments = JSON.stringify(args)
+            }
+          }
+        }
+
+        // usage は finish_reason のチャンクや末尾の専用チャンクに含まれる
+        if (chunk.usage) {
+          usage = toTokenUsage(chunk.usage)
+        }
+      }
+
+      // finish_reason を送らないサーバーもあるため、ストリームの終了時にまとめて yield する
+      if (reasoning !== '') {
+        yield { type: 'thinking' as const, thinking: { text: reasoning } }
+      }
+      for (const [, acc] of [...accumulators].sort(([a], [b]) => a - b)) {
+        yield {
+          type: 'tool_call' as const,
+          toolCall: {
+            id: resolveToolCallId(acc.id, quirks),
+            name: acc.name,
+            arguments: parseToolArguments(acc.arguments),
+          },
+        }
+      }
+      yield { type: 'done' as const, ...(usage ? { usage } : {}) }
+    },
+
+    countTokens(messages: readonly Message[], tools?: readonly Tool[]): Promise<Result<number>> {
+      // 模倣モードではツール定義をシステムプロンプトとして送るため、変換後のメッセージで数える
+      const count =
+        emulate && tools !== undefined && tools.length > 0
+          ? estimatePromptTokens(toEmulatedMessages(messages, tools, undefined))
+          : estimatePromptTokens(messages, tools)
+      return Promise.resolve(ok(count))
+    },
+  }
+
+  return ok(provider)
+}
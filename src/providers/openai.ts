@@ -2,90 +2,155 @@
  * OpenAI LLM プロバイダー
  *
  * OpenAI Chat Completions API を使用してテキスト生成とツール呼び出しを行う。
+ * メッセージ・ツール・usage の変換関数は openai-compatible プロバイダーと共有する。
  */
 import OpenAI from 'openai'
 import { ok, err } from '../result.js'
 import type { Result } from '../result.js'
+import { getTextContent } from './content.js'
+import { getResponseFormatName } from './structured-output.js'
+import { estimatePromptTokens } from './token-count.js'
 import type {
+  CompletionOptions,
+  ContentPart,
+  GenerationOptions,
   LLMProvider,
   LLMResponse,
   Message,
+  ResponseFormat,
   Tool,
   ToolCall,
+  ToolChoice,
   StreamChunk,
   TokenUsage,
 } from './types.js'
 import type { ProviderConfig } from '../loader/types.js'
 
+/** ContentPart を OpenAI のコンテンツパートに変換する */
+function toOpenAIContentPart(part: ContentPart): OpenAI.Chat.Completions.ChatCompletionContentPart {
+  switch (part.type) {
+    case 'text':
+      return { type: 'text', text: part.text }
+    case 'image':
+      return { type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.data}` } }
+    case 'document':
+      return {
+        type: 'file',
+        file: {
+          file_data: `data:${part.mimeType};base64,${part.data}`,
+          ...(part.name !== undefined ? { filename: part.name } : {}),
+        },
+      }
+  }
+}
+
 /**
- * OpenAI のメッセージ形式に変換する
+ * 単一のメッセージを OpenAI のメッセージ形式に変換する
  *
  * AgentLoop からの3パターンを OpenAI API 形式にマッピングする:
  * 1. ツール結果メッセージ（user + toolCallId） → role: 'tool'
  * 2. アシスタントのツール呼び出しメッセージ（assistant + toolCalls） → role: 'assistant' + tool_calls
- * 3. 通常メッセージ → そのまま渡す
+ * 3. 通常メッセージ → そのまま渡す（user のコンテンツパートは text / image_url / file に変換）
+ *
+ * tool / system / assistant ロールはテキストのみ受け付けるため、テキスト部分だけを送る。
  */
-function toOpenAIMessages(
-  messages: readonly Message[],
-): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
-  return messages.map((m): OpenAI.Chat.Completions.ChatCompletionMessageParam => {
-    // パターン1: ツール結果メッセージ（user + toolCallId → tool ロールに変換）
-    if (m.toolCallId) {
-      const toolMsg: OpenAI.Chat.Completions.ChatCompletionToolMessageParam = {
-        role: 'tool',
-        content: m.content,
-        tool_call_id: m.toolCallId,
-      }
-      return toolMsg
+function toOpenAIMessage(m: Message): OpenAI.Chat.Completions.ChatCompletionMessageParam {
+  // パターン1: ツール結果メッセージ（user + toolCallId → tool ロールに変換）
+  if (m.toolCallId) {
+    const toolMsg: OpenAI.Chat.Completions.ChatCompletionToolMessageParam = {
+      role: 'tool',
+      content: getTextContent(m.content),
+      tool_call_id: m.toolCallId,
     }
+    return toolMsg
+  }
 
-    // パターン2: アシスタントのツール呼び出しメッセージ
-    if (m.role === 'assistant' && m.toolCalls && m.toolCalls.length > 0) {
-      const assistantMsg: OpenAI.Chat.Completions.ChatCompletionAssistantMessageParam = {
-        role: 'assistant',
-        content: m.content,
-        tool_calls: m.toolCalls.map((tc) => ({
-          id: tc.id,
-          type: 'function' as const,
-          function: {
-            name: tc.name,
-            arguments: JSON.stringify(tc.arguments),
-          },
-        })),
-      }
-      return assistantMsg
+  // パターン2: アシスタントのツール呼び出しメッセージ
+  if (m.role === 'assistant' && m.toolCalls && m.toolCalls.length > 0) {
+    const assistantMsg: OpenAI.Chat.Completions.ChatCompletionAssistantMessageParam = {
+      role: 'assistant',
+      content: getTextContent(m.content),
+      tool_calls: m.toolCalls.map((tc) => ({
+        id: tc.id,
+        type: 'function' as const,
+        function: {
+          name: tc.name,
+          arguments: JSON.stringify(tc.arguments),
+        },
+      })),
     }
+    return assistantMsg
+  }
 
-    // パターン3: 通常メッセージ（system / user / assistant）
-    if (m.role === 'system') {
-      const sysMsg: OpenAI.Chat.Completions.ChatCompletionSystemMessageParam = {
-        role: 'system',
-        content: m.content,
-      }
-      return sysMsg
+  // パターン3: 通常メッセージ（system / user / assistant）
+  if (m.role === 'system') {
+    const sysMsg: OpenAI.Chat.Completions.ChatCompletionSystemMessageParam = {
+      role: 'system',
+      content: getTextContent(m.content),
     }
+    return sysMsg
+  }
 
-    if (m.role === 'assistant') {
-      const asstMsg: OpenAI.Chat.Completions.ChatCompletionAssistantMessageParam = {
-        role: 'assistant',
-        content: m.content,
-      }
-      return asstMsg
+  if (m.role === 'assistant') {
+    const asstMsg: OpenAI.Chat.Completions.ChatCompletionAssistantMessageParam = {
+      role: 'assistant',
+      content: getTextContent(m.content),
     }
+    return asstMsg
+  }
+
+  // user ロール（toolCallId なし）
+  const userMsg: OpenAI.Chat.Completions.ChatCompletionUserMessageParam = {
+    role: 'user',
+    content: typeof m.content === 'string' ? m.content : m.content.map(toOpenAIContentPart),
+  }
+  return userMsg
+}
 
-    // user ロール（toolCallId なし）
-    const userMsg: OpenAI.Chat.Completions.ChatCompletionUserMessageParam = {
-      role: 'user',
-      content: m.content,
+/**
+ * OpenAI のメッセージ形式に変換する
+ *
+ * tool ロールは画像・ドキュメントを受け付けないため、ツール結果に含まれるメディアパートは
+ * 連続する tool メッセージの直後に user メッセージとしてまとめて送る
+ * （tool メッセージは assistant の tool_calls の直後に連続している必要がある）。
+ */
+export function toOpenAIMessages(
+  messages: readonly Message[],
+): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+  const result: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = []
+  let pendingMedia: OpenAI.Chat.Completions.ChatCompletionContentPart[] = []
+
+  const flushMedia = (): void => {
+    if (pendingMedia.length === 0) return
+    result.push({ role: 'user', content: pendingMedia })
+    pendingMedia = []
+  }
+
+  for (const m of messages) {
+    if (!m.toolCallId) {
+      flushMedia()
+    } else if (typeof m.content !== 'string') {
+      const media = m.content.filter((part) => part.type !== 'text')
+      if (media.length > 0) {
+        pendingMedia.push(
+          { type: 'text', text: `Attachments from tool result ${m.toolCallId}:` },
+          ...media.map(toOpenAIContentPart),
+        )
+      }
     }
-    return userMsg
-  })
+    result.push(toOpenAIMessage(m))
+  }
+  flushMedia()
+
+  return result
 }
 
 /**
  * wn-core の Tool 定義を OpenAI のツール形式に変換する
  */
-function toOpenAITools(tools: readonly Tool[]): OpenAI.Chat.Completions.ChatCompletionTool[] {
+export function toOpenAITools(
+  tools: readonly Tool[],
+): OpenAI.Chat.Completions.ChatCompletionTool[] {
   return tools.map((t) => ({
     type: 'function' as const,
     function: {
@@ -133,17 +198,82 @@ function toToolCalls(
 
 /**
  * OpenAI の usage を TokenUsage に変換する
+ *
+ * OpenAI は自動でプロンプトキャッシュを行うため、cached_tokens を cacheReadTokens として報告する。
+ * prompt_tokens は cached_tokens を含むため、inputTokens からは差し引く。
  */
-function toTokenUsage(
+export function toTokenUsage(
   usage: OpenAI.Completions.CompletionUsage | undefined | null,
 ): TokenUsage | undefined {
   if (!usage) return undefined
+  const cached = usage.prompt_tokens_details?.cached_tokens
+  if (cached === undefined) {
+    return { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens }
+  }
   return {
-    inputTokens: usage.prompt_tokens,
+    inputTokens: usage.prompt_tokens - cached,
     outputTokens: usage.completion_tokens,
+    cacheReadTokens: cached,
+  }
+}
+
+/**
+ * メッセージ（または delta）の reasoning_content を取得する
+ *
+ * OpenAI 本家は推論テキストを返さないが、DeepSeek や vLLM 等の互換サーバーは
+ * 非標準フィールド reasoning_content で返す。
+ */
+export function getReasoningContent(value: object): string | undefined {
+  if (!('reasoning_content' in value)) return undefined
+  const reasoning = value.reasoning_content
+  return typeof reasoning === 'string' && reasoning !== '' ? reasoning : undefined
+}
+
+/**
+ * GenerationOptions を Chat Completions API のパラメータに変換する
+ *
+ * thinking は reasoning_effort に変換する（トークン予算は指定できない）。
+ */
+function toGenerationParams(
+  generation: GenerationOptions,
+): Pick<
+  OpenAI.Chat.Completions.ChatCompletionCreateParams,
+  'max_completion_tokens' | 'temperature' | 'top_p' | 'stop' | 'seed' | 'reasoning_effort'
+> {
+  return {
+    ...(generation.thinking !== undefined
+      ? { reasoning_effort: generation.thinking.effort ?? 'medium' }
+      : {}),
+    ...(generation.maxTokens !== undefined ? { max_completion_tokens: generation.maxTokens } : {}),
+    ...(generation.temperature !== undefined ? { temperature: generation.temperature } : {}),
+    ...(generation.topP !== undefined ? { top_p: generation.topP } : {}),
+    ...(generation.stop !== undefined ? { stop: [...generation.stop] } : {}),
+    ...(generation.seed !== undefined ? { seed: generation.seed } : {}),
+  }
+}
+
+/** ResponseFormat を response_format（json_schema）に変換する */
+export function toResponseFormatParam(
+  format: ResponseFormat | undefined,
+): Pick<OpenAI.Chat.Completions.ChatCompletionCreateParams, 'response_format'> {
+  if (format === undefined) return {}
+  return {
+    response_format: {
+      type: 'json_schema',
+      json_schema: { name: getResponseFormatName(format), schema: format.schema },
+    },
   }
 }
 
+/** ToolChoice を tool_choice に変換する（指定されたツールは function 形式で指名する） */
+export function toToolChoiceParam(
+  choice: ToolChoice | undefined,
+): Pick<OpenAI.Chat.Completions.ChatCompletionCreateParams, 'tool_choice'> {
+  if (choice === undefined) return {}
+  if (typeof choice === 'string') return { tool_choice: choice }
+  return { tool_choice: { type: 'function', function: { name: choice.name } } }
+}
+
 /**
  * ストリーミング中のツール呼び出しを蓄積する型
  */
@@ -156,11 +286,19 @@ interface ToolCallAccumulator {
 /**
  * OpenAI プロバイダーのファクトリ関数
  *
+ * Chat Completions API にはトークン数を数えるエンドポイントがないため、
+ * countTokens() はローカルの推定値（estimatePromptTokens）を返す。
+ *
  * @param config - プロバイダー設定（apiKey 必須、baseUrl オプション）
  * @param model - 使用するモデル名（例: 'gpt-4o'）
+ * @param generation - 生成パラメータ（config.generation より優先）
  * @returns Result<LLMProvider> - 成功時はプロバイダーインスタンス、失敗時はエラー
  */
-export function createOpenAIProvider(config: ProviderConfig, model: string): Result<LLMProvider> {
+export function createOpenAIProvider(
+  config: ProviderConfig,
+  model: string,
+  generation?: GenerationOptions,
+): Result<LLMProvider> {
   const apiKey = config.apiKey ?? process.env['OPENAI_API_KEY']
   if (!apiKey) {
     return err(
@@ -173,16 +311,23 @@ export function createOpenAIProvider(config: ProviderConfig, model: string): Res
     ...(config.baseUrl ? { baseURL: config.baseUrl } : {}),
   })
 
+  const generationParams = toGenerationParams({ ...config.generation, ...generation })
+
   const provider: LLMProvider = {
     async complete(
       messages: readonly Message[],
       tools?: readonly Tool[],
+      options?: CompletionOptions,
     ): Promise<Result<LLMResponse>> {
       try {
         const params: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming = {
           model,
           messages: toOpenAIMessages(messages),
-          ...(tools && tools.length > 0 ? { tools: toOpenAITools(tools) } : {}),
+          ...generationParams,
+          ...(tools && tools.length > 0
+            ? { tools: toOpenAITools(tools), ...toToolChoiceParam(options?.toolChoice) }
+            : {}),
+          ...toResponseFormatParam(options?.responseFormat),
         }
 
         const response = await client.chat.completions.create(params)
@@ -194,34 +339,42 @@ export function createOpenAIProvider(config: ProviderConfig, model: string): Res
         const content = choice.message.content ?? ''
         const toolCalls = toToolCalls(choice.message.tool_calls)
         const usage = toTokenUsage(response.usage)
+        const reasoning = getReasoningContent(choice.message)
 
         return ok({
           content,
           toolCalls,
           ...(usage ? { usage } : {}),
+          ...(reasoning !== undefined ? { thinking: [{ text: reasoning }] } : {}),
         })
       } catch (error: unknown) {
         const message = error instanceof Error ? error.message : String(error)
-        return err(message)
+        return err(message, error)
       }
     },
 
     async *stream(
       messages: readonly Message[],
       tools?: readonly Tool[],
+      options?: CompletionOptions,
     ): AsyncIterable<StreamChunk> {
       const params: OpenAI.Chat.Completions.ChatCompletionCreateParamsStreaming = {
         model,
         messages: toOpenAIMessages(messages),
+        ...generationParams,
         stream: true,
         stream_options: { include_usage: true },
-        ...(tools && tools.length > 0 ? { tools: toOpenAITools(tools) } : {}),
+        ...(tools && tools.length > 0
+          ? { tools: toOpenAITools(tools), ...toToolChoiceParam(options?.toolChoice) }
+          : {}),
+        ...toResponseFormatParam(options?.responseFormat),
       }
 
       const response = await client.chat.completions.create(params)
 
       // ストリーミング中のツール呼び出しを蓄積する
       const toolCallAccumulators = new Map<number, ToolCallAccumulator>()
+      let reasoning = ''
       let doneEmitted = false
 
       for await (const chunk of response) {
@@ -230,6 +383,13 @@ export function createOpenAIProvider(config: ProviderConfig, model: string): Res
         if (choice) {
           const delta = choice.delta
 
+          // 推論 delta（互換サーバーの reasoning_content）
+          const reasoningDelta = getReasoningContent(delta)
+          if (reasoningDelta !== undefined) {
+            reasoning += reasoningDelta
+            yield { type: 'thinking_delta' as const, content: reasoningDelta }
+          }
+
           // テキスト delta
           if (delta.content) {
             yield { type: 'delta' as const, content: delta.content }
@@ -260,6 +420,10 @@ export function createOpenAIProvider(config: ProviderConfig, model: string): Res
 
           // finish_reason が 'stop' または 'tool_calls' のとき、蓄積したツール呼び出しを yield
           if (choice.finish_reason === 'stop' || choice.finish_reason === 'tool_calls') {
+            if (reasoning !== '') {
+              yield { type: 'thinking' as const, thinking: { text: reasoning } }
+              reasoning = ''
+            }
             for (const [, acc] of toolCallAccumulators) {
               yield {
                 type: 'tool_call' as const,
@@ -287,6 +451,10 @@ export function createOpenAIProvider(config: ProviderConfig, model: string): Res
         yield { type: 'done' as const }
       }
     },
+
+    countTokens(messages: readonly Message[], tools?: readonly Tool[]): Promise<Result<number>> {
+      return Promise.resolve(ok(estimatePromptTokens(messages, tools)))
+    },
   }
 
   return ok(provider)
@@ -0,0 +1,237 @@
+/**
+ * プロバイダーレジストリ
+ *
+ * プロバイダー名と LLMProvider のファクトリ関数を対応付ける。
+ * ビルトイン（claude / openai / openai-compatible / ollama / gemini）とオフライン用の
+ * scripted / cassette に加え、config.json の providerModules に列挙したモジュールから
+ * サードパーティのプロバイダーを登録できる。
+ */
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import type { Result } from '../result.js'
+import { ok, err } from '../result.js'
+import type { LLMProvider, ModelCatalogue } from './types.js'
+import type { ProviderConfig, WnConfig } from '../loader/types.js'
+import { createClaudeProvider } from './claude.js'
+import { createOpenAIProvider } from './openai.js'
+import { createOpenAICompatibleProvider } from './openai-compatible.js'
+import { createOllamaProvider } from './ollama.js'
+import type { OllamaProviderOptions } from './ollama.js'
+import { createGeminiProvider } from './gemini.js'
+import { createScriptedProviderFromConfig } from './scripted.js'
+import { createCassetteProvider } from './cassette.js'
+import { validateModelCapabilities } from './models.js'
+import { withRetry } from './retry.js'
+import { createFallbackProvider } from './fallback.js'
+import type { FallbackEntry } from './fallback.js'
+
+/** プロバイダー設定とモデル名から LLMProvider を生成するファクトリ関数 */
+export type ProviderFactory = (config: ProviderConfig, model: string) => Result<LLMProvider>
+
+/**
+ * プロバイダーモジュールがエクスポートする登録関数
+ *
+ * モジュールは `register`（または default エクスポート）としてこの関数を公開する。
+ */
+export type ProviderModuleRegister = (registry: ProviderRegistry) => void | Promise<void>
+
+/**
+ * ProviderRegistry — プロバイダー名からファクトリ関数を解決する
+ *
+ * - register(): ファクトリ関数を登録
+ * - has(): 登録済みかを判定
+ * - list(): 登録済みのプロバイダー名を返す
+ * - create(): 名前で LLMProvider を生成
+ */
+export class ProviderRegistry {
+  private readonly factories: Map<string, ProviderFactory> = new Map()
+
+  /** ファクトリ関数を登録する。重複時は Result エラーを返す。 */
+  register(name: string, factory: ProviderFactory): Result<void> {
+    if (this.factories.has(name)) {
+      return err(`Provider already registered: ${name}`)
+    }
+    this.factories.set(name, factory)
+    return ok(undefined)
+  }
+
+  /** プロバイダー名が登録済みかどうか */
+  has(name: string): boolean {
+    return this.factories.has(name)
+  }
+
+  /** 登録済みのプロバイダー名を登録順に返す */
+  list(): string[] {
+    return [...this.factories.keys()]
+  }
+
+  /**
+   * 登録済みのファクトリ関数で LLMProvider を生成する。未登録の名前は Result エラーを返す。
+   * config.type が指定されている場合は name ではなく type でファクトリ関数を解決する。
+   */
+  create(name: string, config: ProviderConfig, model: string): Result<LLMProvider> {
+    const type = config.type ?? name
+    const factory = this.factories.get(type)
+    if (factory === undefined) {
+      return err(`Unknown provider: ${type}`)
+    }
+    return factory(config, model)
+  }
+}
+
+/** createDefaultProviderRegistry のオプション */
+export interface DefaultProviderRegistryOptions {
+  /** ollama プロバイダーの生成オプション（autoPull の進捗通知等） */
+  readonly ollama?: OllamaProviderOptions
+}
+
+/**
+ * 5つのビルトインプロバイダー（claude, openai, openai-compatible, ollama, gemini）と
+ * オフライン実行用の scripted / cassette を登録した ProviderRegistry を返す
+ */
+export function createDefaultProviderRegistry(
+  options: DefaultProviderRegistryOptions = {},
+): ProviderRegistry {
+  const { ollama } = options
+  const registry = new ProviderRegistry()
+  registry.register('claude', createClaudeProvider)
+  registry.register('openai', createOpenAIProvider)
+  registry.register('openai-compatible', createOpenAICompatibleProvider)
+  registry.register(
+    'ollama',
+    ollama !== undefined
+      ? (config, model) => createOllamaProvider(config, model, undefined, ollama)
+      : createOllamaProvider,
+  )
+  registry.register('gemini', createGeminiProvider)
+  registry.register('scripted', createScriptedProviderFromConfig)
+  registry.register('cassette', (config, model) => createCassetteProvider(config, model, registry))
+  return registry
+}
+
+/**
+ * registry でプロバイダーを生成し、設定の検証と再試行を付ける（serve とサブエージェント Worker で共通）
+ *
+ * 生成前にモデルの能力カタログで設定を検証し（ツール非対応のモデル、最大出力トークン数の超過等）、
+ * 矛盾があればリクエストを送る前にエラーを返す。
+ * config.retry が指定されている場合は withRetry でラップし、再試行を stderr にログ出力する。
+ */
+export function createConfiguredProvider(
+  registry: ProviderRegistry,
+  catalogue: ModelCatalogue,
+  name: string,
+  config: ProviderConfig,
+  model: string,
+): Result<LLMProvider> {
+  const valid = validateModelCapabilities(
+    config,
+    model,
+    catalogue.resolve({ provider: name, model }),
+  )
+  if (!valid.ok) {
+    return valid
+  }
+  const result = registry.create(name, config, model)
+  if (!result.ok || config.retry === undefined) {
+    return result
+  }
+  return ok(
+    withRetry(result.data, {
+      ...config.retry,
+      onRetry: ({ attempt, maxAttempts, delayMs, error }) => {
+        console.error(
+          `Retrying ${name} (${String(attempt)}/${String(maxAttempts - 1)}) in ${String(delayMs)}ms: ${error}`,
+        )
+      },
+    }),
+  )
+}
+
+/**
+ * createConfiguredProvider で生成したプロバイダーを先頭に、wnConfig.fallback のフォールバックチェーンを構築する
+ *
+ * チェーンが空なら先頭のプロバイダーをそのまま返す。チェーンの要素は wnConfig.providers の設定で生成し、
+ * 先頭と同じプロバイダー/モデルは除く。フォールバックは stderr にログ出力する。
+ */
+export function createProviderChain(
+  registry: ProviderRegistry,
+  catalogue: ModelCatalogue,
+  name: string,
+  config: ProviderConfig,
+  model: string,
+  wnConfig: Partial<Pick<WnConfig, 'providers' | 'fallback'>> = {},
+): Result<LLMProvider> {
+  const primary = createConfiguredProvider(registry, catalogue, name, config, model)
+  const chain = wnConfig.fallback?.chain ?? []
+  if (!primary.ok || chain.length === 0) {
+    return primary
+  }
+
+  const entries: FallbackEntry[] = [{ name, model, provider: primary.data }]
+  for (const target of chain) {
+    if (entries.some((e) => e.name === target.provider && e.model === target.model)) continue
+    const providerConfig = wnConfig.providers?.[target.provider] ?? {}
+    const result = createConfiguredProvider(
+      registry,
+      catalogue,
+      target.provider,
+      providerConfig,
+      target.model,
+    )
+    if (!result.ok) {
+      return err(`Failed to create fallback provider ${target.provider}: ${result.error}`)
+    }
+    entries.push({ name: target.provider, model: target.model, provider: result.data })
+  }
+
+  return createFallbackProvider(entries, {
+    onFallback: ({ from, to, error }) => {
+      console.error(
+        `Falling back from ${from.provider}/${from.model} to ${to.provider}/${to.model}: ${error}`,
+      )
+    },
+  })
+}
+
+/**
+ * providerModules の要素を import() に渡せる指定子に変換する
+ *
+ * 相対パス（./ ../）と絶対パスは baseDir 基準の file URL に、それ以外はパッケージ名としてそのまま返す。
+ */
+function toImportSpecifier(specifier: string, baseDir: string): string {
+  if (specifier.startsWith('./') || specifier.startsWith('../') || path.isAbsolute(specifier)) {
+    return pathToFileURL(path.resolve(baseDir, specifier)).href
+  }
+  return specifier
+}
+
+/**
+ * プロバイダーモジュールを読み込み、各モジュールの登録関数で registry にプロバイダーを登録する
+ *
+ * Worker Thread 内でも同じモジュールを読み込めるよう、相対パスは baseDir（既定は process.cwd()）から解決する。
+ * 読み込みや登録に失敗した時点で err を返す。
+ *
+ * @param registry - 登録先のレジストリ
+ * @param specifiers - モジュールのパスまたはパッケージ名
+ * @param baseDir - 相対パスの解決基準ディレクトリ
+ */
+export async function loadProviderModules(
+  registry: ProviderRegistry,
+  specifiers: readonly string[],
+  baseDir: string = process.cwd(),
+): Promise<Result<void>> {
+  for (const specifier of specifiers) {
+    try {
+      const mod = (await import(toImportSpecifier(specifier, baseDir))) as Record<string, unknown>
+      const register = mod['register'] ?? mod['default']
+      if (typeof register !== 'function') {
+        return err(`Provider module does not export a register function: ${specifier}`)
+      }
+      await (register as ProviderModuleRegister)(registry)
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : String(e)
+      return err(`Failed to load provider module ${specifier}: ${message}`, e)
+    }
+  }
+  return ok(undefined)
+}
@@ -0,0 +1,294 @@
+/**
+ * プロバイダー非依存のリトライラッパー
+ *
+ * 一時的な失敗（429 / 5xx / 529 overloaded / ECONNRESET 等）を判定し、
+ * retry-after を尊重しつつジッター付き指数バックオフで LLMProvider の呼び出しを再試行する。
+ */
+import type { Result } from '../result.js'
+import type { RetryConfig } from '../loader/types.js'
+import type {
+  CompletionOptions,
+  LLMProvider,
+  LLMResponse,
+  Message,
+  StreamChunk,
+  Tool,
+} from './types.js'
+
+/** リトライ対象の HTTP ステータス */
+const RETRYABLE_STATUSES: ReadonlySet<number> = new Set([408, 429, 500, 502, 503, 504, 529])
+
+/** リトライ対象のネットワークエラーコード */
+const RETRYABLE_CODES: ReadonlySet<string> = new Set([
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+])
+
+/**
+ * cause を持たないエラー文字列から一時的な失敗を推定するパターン
+ *
+ * ステータスは HTTP ステータスとして書かれた数値（先頭の `503 ...`、`(503)`、`status 503`、`HTTP 503`）
+ * だけを対象にする（`line 512` のような数値を誤判定しないため）。
+ */
+const RETRYABLE_MESSAGE_PATTERN =
+  /^(?:429|5\d\d)\b|\((?:429|5\d\d)\)|\b(?:status(?: code)?|HTTP)[\s:=]*(?:429|5\d\d)\b|overloaded|rate.?limit|too many requests|ECONNRESET|ETIMEDOUT|socket hang up/i
+
+/** cause チェーンを辿る最大深さ */
+const MAX_CAUSE_DEPTH = 5
+
+/** エラーの分類結果 */
+export interface ErrorClassification {
+  /** 再試行で回復する見込みがあるか */
+  readonly retryable: boolean
+  /** HTTP ステータス（判明している場合） */
+  readonly status?: number
+  /** サーバーが指定した再試行までの待機時間（ミリ秒） */
+  readonly retryAfterMs?: number
+}
+
+/** リトライ1回ごとに onRetry へ渡される情報 */
+export interface RetryAttempt {
+  /** 失敗した試行の番号（1 始まり） */
+  readonly attempt: number
+  /** 最大試行回数 */
+  readonly maxAttempts: number
+  /** 次の試行までの待機時間（ミリ秒） */
+  readonly delayMs: number
+  /** 失敗時のエラーメッセージ */
+  readonly error: string
+}
+
+/** withRetry のポリシー */
+export interface RetryPolicy extends RetryConfig {
+  /** 再試行の直前に呼ばれる */
+  readonly onRetry?: (attempt: RetryAttempt) => void
+  /** 待機処理（テスト用に差し替え可能）。省略時は setTimeout */
+  readonly sleep?: (ms: number) => Promise<void>
+  /** 乱数生成（テスト用に差し替え可能）。省略時は Math.random */
+  readonly random?: () => number
+}
+
+/** unknown 値が Record<string, unknown> かどうかを判定する型ガード */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === 'object'
+}
+
+/** Headers またはプレーンオブジェクトからヘッダー値を取得する */
+function getHeader(headers: unknown, name: string): string | undefined {
+  if (headers instanceof Headers) {
+    return headers.get(name) ?? undefined
+  }
+  if (isRecord(headers)) {
+    const value = headers[name] ?? headers[name.toLowerCase()]
+    return typeof value === 'string' ? value : undefined
+  }
+  return undefined
+}
+
+/**
+ * retry-after ヘッダー値をミリ秒に変換する
+ *
+ * 秒数（`"3"`）と HTTP 日付の両形式に対応する。
+ */
+export function parseRetryAfter(value: string, now: number = Date.now()): number | undefined {
+  const trimmed = value.trim()
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000)
+  }
+  const date = Date.parse(trimmed)
+  if (Number.isNaN(date)) return undefined
+  return Math.max(0, date - now)
+}
+
+/** retry-after-ms / retry-after ヘッダーから待機時間を取得する */
+function retryAfterFromHeaders(headers: unknown): number | undefined {
+  const ms = getHeader(headers, 'retry-after-ms')
+  if (ms !== undefined && /^\d+$/.test(ms.trim())) {
+    return Number(ms.trim())
+  }
+  const retryAfter = getHeader(headers, 'retry-after')
+  return retryAfter !== undefined ? parseRetryAfter(retryAfter) : undefined
+}
+
+/** Gemini の errorDetails（google.rpc.RetryInfo）から待機時間を取得する */
+function retryAfterFromErrorDetails(details: unknown): number | undefined {
+  if (!Array.isArray(details)) return undefined
+  for (const detail of details) {
+    if (!isRecord(detail)) continue
+    const delay = detail['retryDelay']
+    if (typeof delay === 'string') {
+      const match = /^(\d+(?:\.\d+)?)s$/.exec(delay.trim())
+      if (match?.[1] !== undefined) return Math.round(Number(match[1]) * 1000)
+    }
+  }
+  return undefined
+}
+
+/**
+ * 失敗の原因からリトライ可否と待機時間を判定する
+ *
+ * cause（SDK の APIError、fetch の TypeError、`{ status, headers }` 等）の
+ * status / headers / code を cause チェーンを辿って調べる。
+ * cause から判定できない場合はエラーメッセージから推定する。
+ */
+export function classifyError(error: string, cause?: unknown): ErrorClassification {
+  let status: number | undefined
+  let retryAfterMs: number | undefined
+  let code: string | undefined
+
+  let current: unknown = cause
+  for (let depth = 0; depth < MAX_CAUSE_DEPTH && isRecord(current); depth++) {
+    if (status === undefined && typeof current['status'] === 'number') {
+      status = current['status']
+    }
+    retryAfterMs ??=
+      retryAfterFromHeaders(current['headers']) ??
+      retryAfterFromErrorDetails(current['errorDetails'])
+    if (code === undefined && typeof current['code'] === 'string') {
+      code = current['code']
+    }
+    current = current['cause']
+  }
+
+  const retryable =
+    status !== undefined
+      ? RETRYABLE_STATUSES.has(status)
+      : code !== undefined
+        ? RETRYABLE_CODES.has(code)
+        : RETRYABLE_MESSAGE_PATTERN.test(error)
+
+  return {
+    retryable,
+    ...(status !== undefined ? { status } : {}),
+    ...(retryAfterMs !== undefined ? { retryAfterMs } : {}),
+  }
+}
+
+/** 失敗 Result がリトライ可能かどうかを判定する */
+export function isRetryableFailure(result: Result<unknown>): boolean {
+  return !result.ok && classifyError(result.error, result.cause).retryable
+}
+
+/**
+ * 次の試行までの待機時間を計算する
+ *
+ * retry-after が指定されていればそれを優先し、なければ指数バックオフに
+ * ジッター（待機時間の 50〜100% の範囲でランダム化）を適用する。いずれも maxDelayMs で頭打ちにする。
+ */
+function computeDelay(
+  attempt: number,
+  classification: ErrorClassification,
+  policy: RetryPolicy,
+): number {
+  const initialDelayMs = policy.initialDelayMs ?? 500
+  const maxDelayMs = policy.maxDelayMs ?? 30_000
+  const multiplier = policy.backoffMultiplier ?? 2
+
+  if (classification.retryAfterMs !== undefined) {
+    return Math.min(classification.retryAfterMs, maxDelayMs)
+  }
+
+  const base = Math.min(initialDelayMs * multiplier ** (attempt - 1), maxDelayMs)
+  if (policy.jitter === false) {
+    return base
+  }
+  const random = policy.random ?? Math.random
+  return Math.round(base / 2 + (base / 2) * random())
+}
+
+/** setTimeout ベースの待機 */
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * LLMProvider をリトライ付きでラップする
+ *
+ * - complete() / countTokens(): リトライ可能な err が返った場合に maxAttempts まで再試行する
+ * - stream(): 最初のチャンクを受信する前に例外が発生した場合のみ再試行する
+ *   （出力の途中で失敗した場合は重複を避けるため再試行しない）
+ *
+ * @param provider - ラップ対象のプロバイダー
+ * @param policy - リトライポリシー（maxAttempts 省略時は 3 回）
+ */
+export function withRetry(provider: LLMProvider, policy: RetryPolicy = {}): LLMProvider {
+  const maxAttempts = Math.max(1, policy.maxAttempts ?? 3)
+  const sleep = policy.sleep ?? defaultSleep
+
+  /** 失敗を分類し、再試行する場合は待機してから true を返す */
+  async function shouldRetry(attempt: number, error: string, cause: unknown): Promise<boolean> {
+    if (attempt >= maxAttempts) return false
+    const classification = classifyError(error, cause)
+    if (!classification.retryable) return false
+
+    const delayMs = computeDelay(attempt, classification, policy)
+    policy.onRetry?.({ attempt, maxAttempts, delayMs, error })
+    await sleep(delayMs)
+    return true
+  }
+
+  const countTokens = provider.countTokens?.bind(provider)
+  const wrapped: LLMProvider = {
+    async complete(
+      messages: readonly Message[],
+      tools?: readonly Tool[],
+      options?: CompletionOptions,
+    ): Promise<Result<LLMResponse>> {
+      for (let attempt = 1; ; attempt++) {
+        const result = await provider.complete(messages, tools, options)
+        if (result.ok || !(await shouldRetry(attempt, result.error, result.cause))) {
+          return result
+        }
+      }
+    },
+    ...(countTokens !== undefined
+      ? {
+          async countTokens(
+            messages: readonly Message[],
+            tools?: readonly Tool[],
+          ): Promise<Result<number>> {
+            for (let attempt = 1; ; attempt++) {
+              const result = await countTokens(messages, tools)
+              if (result.ok || !(await shouldRetry(attempt, result.error, result.cause))) {
+                return result
+              }
+            }
+          },
+        }
+      : {}),
+  }
+
+  const stream = provider.stream?.bind(provider)
+  if (stream === undefined) {
+    return wrapped
+  }
+
+  return {
+    ...wrapped,
+    async *stream(
+      messages: readonly Message[],
+      tools?: readonly Tool[],
+      options?: CompletionOptions,
+    ): AsyncIterable<StreamChunk> {
+      for (let attempt = 1; ; attempt++) {
+        let started = false
+        try {
+          for await (const chunk of stream(messages, tools, options)) {
+            started = true
+            yield chunk
+          }
+          return
+        } catch (error: unknown) {
+          const message = error instanceof Error ? error.message : String(error)
+          if (started || !(await shouldRetry(attempt, message, error))) {
+            throw error
+          }
+        }
+      }
+    },
+  }
+}
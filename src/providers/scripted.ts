@@ -0,0 +1,257 @@
+/**
+ * スクリプトプロバイダー
+ *
+ * 事前に用意した LLMResponse / StreamChunk を順に返す決定的な LLMProvider。
+ * エージェントのテストや、`wn-core serve` を API キーなしでオフライン実行するために使う。
+ */
+import { readFileSync } from 'node:fs'
+import type { Result } from '../result.js'
+import { ok, err } from '../result.js'
+import { getTextContent } from './content.js'
+import type {
+  CompletionOptions,
+  LLMProvider,
+  LLMResponse,
+  Message,
+  StreamChunk,
+  ThinkingBlock,
+  TokenUsage,
+  Tool,
+  ToolCall,
+  ResponseMetadata,
+} from './types.js'
+import type { ProviderConfig } from '../loader/types.js'
+
+/** 受け取ったリクエストの検証条件（すべて省略可能） */
+export interface ScriptedExpectation {
+  /** 最後のメッセージのテキストに含まれるべき文字列 */
+  readonly lastMessageContains?: string
+  /** 受け取るメッセージ数 */
+  readonly messageCount?: number
+  /** 渡されるツール名（順不同） */
+  readonly tools?: readonly string[]
+}
+
+/**
+ * スクリプトの 1 ターン
+ *
+ * response / chunks / error のいずれかを指定する。response は stream() でチャンクに、
+ * chunks は complete() で 1 つの LLMResponse に変換される。
+ */
+export interface ScriptedTurn {
+  readonly response?: LLMResponse
+  readonly chunks?: readonly StreamChunk[]
+  /** 指定すると complete() は err を返し、stream() は例外を投げる */
+  readonly error?: string
+  readonly expect?: ScriptedExpectation
+}
+
+/** スクリプトプロバイダーが受け取ったリクエスト */
+export interface ScriptedRequest {
+  readonly messages: readonly Message[]
+  readonly tools: readonly Tool[]
+  /** 呼び出しオプション（指定された場合のみ） */
+  readonly options?: CompletionOptions
+}
+
+/** 受け取ったリクエストを参照できる LLMProvider */
+export interface ScriptedProvider extends LLMProvider {
+  /** 受け取ったリクエスト（呼び出し順） */
+  readonly requests: readonly ScriptedRequest[]
+  /** 未消費のターン数 */
+  remaining(): number
+}
+
+// ─── LLMResponse ⇔ StreamChunk 変換 ──────────────────────
+
+/** LLMResponse をストリームチャンク列に変換する */
+export function responseToChunks(response: LLMResponse): StreamChunk[] {
+  return [
+    ...(response.thinking ?? []).map((thinking): StreamChunk => ({ type: 'thinking', thinking })),
+    ...(response.content !== '' ? [{ type: 'delta' as const, content: response.content }] : []),
+    ...(response.toolCalls ?? []).map((toolCall): StreamChunk => ({ type: 'tool_call', toolCall })),
+    {
+      type: 'done',
+      ...(response.usage !== undefined ? { usage: response.usage } : {}),
+      ...(response.metadata !== undefined ? { metadata: response.metadata } : {}),
+    },
+  ]
+}
+
+/** ストリームチャンク列を 1 つの LLMResponse に結合する（thinking_delta は thinking チャンクで代替） */
+export function chunksToResponse(chunks: readonly StreamChunk[]): LLMResponse {
+  let content = ''
+  const toolCalls: ToolCall[] = []
+  const thinking: ThinkingBlock[] = []
+  let usage: TokenUsage | undefined
+  let metadata: ResponseMetadata | undefined
+  for (const chunk of chunks) {
+    switch (chunk.type) {
+      case 'delta':
+        content += chunk.content
+        break
+      case 'tool_call':
+        toolCalls.push(chunk.toolCall)
+        break
+      case 'thinking':
+        thinking.push(chunk.thinking)
+        break
+      case 'done':
+        usage = chunk.usage
+        metadata = chunk.metadata
+        break
+      case 'thinking_delta':
+        break
+    }
+  }
+  return {
+    content,
+    toolCalls,
+    ...(thinking.length > 0 ? { thinking } : {}),
+    ...(usage !== undefined ? { usage } : {}),
+    ...(metadata !== undefined ? { metadata } : {}),
+  }
+}
+
+// ─── 検証 ────────────────────────────────────────────────
+
+/** 検証条件に合わない場合は理由を返す */
+function checkExpectation(
+  expectation: ScriptedExpectation,
+  messages: readonly Message[],
+  tools: readonly Tool[],
+): string | undefined {
+  if (expectation.messageCount !== undefined && messages.length !== expectation.messageCount) {
+    return `expected ${String(expectation.messageCount)} messages but received ${String(messages.length)}`
+  }
+  if (expectation.lastMessageContains !== undefined) {
+    const last = messages.at(-1)
+    const text = last !== undefined ? getTextContent(last.content) : ''
+    if (!text.includes(expectation.lastMessageContains)) {
+      return `last message does not contain "${expectation.lastMessageContains}": "${text}"`
+    }
+  }
+  if (expectation.tools !== undefined) {
+    const expected = [...expectation.tools].sort().join(', ')
+    const actual = tools
+      .map((t) => t.name)
+      .sort()
+      .join(', ')
+    if (expected !== actual) {
+      return `expected tools [${expected}] but received [${actual}]`
+    }
+  }
+  return undefined
+}
+
+// ─── ファクトリ関数 ──────────────────────────────────────
+
+/**
+ * スクリプトプロバイダーを生成する
+ *
+ * complete() / stream() の呼び出しごとにスクリプトのターンを先頭から 1 つ消費する。
+ * ターンを使い切った後の呼び出しや、expect の検証に失敗した呼び出しは
+ * complete() では err、stream() では例外になる。
+ *
+ * @param turns - 返すレスポンスのスクリプト
+ */
+export function createScriptedProvider(turns: readonly ScriptedTurn[]): ScriptedProvider {
+  const requests: ScriptedRequest[] = []
+  let index = 0
+
+  /** 次のターンを取り出し、検証する */
+  function next(
+    messages: readonly Message[],
+    tools: readonly Tool[] = [],
+    options?: CompletionOptions,
+  ): Result<ScriptedTurn> {
+    requests.push({ messages, tools, ...(options !== undefined ? { options } : {}) })
+    const turn = turns[index]
+    const position = requests.length
+    if (turn === undefined) {
+      return err(`Scripted provider has no response for request ${String(position)}`)
+    }
+    index++
+    const failure =
+      turn.expect !== undefined ? checkExpectation(turn.expect, messages, tools) : undefined
+    if (failure !== undefined) {
+      return err(`Scripted expectation failed at turn ${String(position)}: ${failure}`)
+    }
+    if (turn.error !== undefined) {
+      return err(turn.error)
+    }
+    return ok(turn)
+  }
+
+  return {
+    requests,
+
+    remaining(): number {
+      return turns.length - index
+    },
+
+    complete(
+      messages: readonly Message[],
+      tools?: readonly Tool[],
+      options?: CompletionOptions,
+    ): Promise<Result<LLMResponse>> {
+      const turn = next(messages, tools, options)
+      if (!turn.ok) return Promise.resolve(turn)
+      const { response, chunks } = turn.data
+      return Promise.resolve(ok(response ?? chunksToResponse(chunks ?? [])))
+    },
+
+    async *stream(
+      messages: readonly Message[],
+      tools?: readonly Tool[],
+      options?: CompletionOptions,
+    ): AsyncIterable<StreamChunk> {
+      await Promise.resolve()
+      const turn = next(messages, tools, options)
+      if (!turn.ok) {
+        throw new Error(turn.error)
+      }
+      const { response, chunks } = turn.data
+      yield* chunks ?? responseToChunks(response ?? { content: '' })
+    },
+  }
+}
+
+/** unknown な値が ScriptedTurn の配列かどうかを判定する型ガード（形状のみ確認する） */
+function isScriptedTurns(value: unknown): value is ScriptedTurn[] {
+  if (!Array.isArray(value)) return false
+  return value.every((turn: unknown) => {
+    if (typeof turn !== 'object' || turn === null) return false
+    const obj = turn as Record<string, unknown>
+    if ('response' in obj) {
+      const response = obj['response']
+      if (typeof response !== 'object' || response === null) return false
+      if (typeof (response as Record<string, unknown>)['content'] !== 'string') return false
+    }
+    if ('chunks' in obj && !Array.isArray(obj['chunks'])) return false
+    if ('error' in obj && typeof obj['error'] !== 'string') return false
+    return true
+  })
+}
+
+/**
+ * config.script のファイル（ScriptedTurn の JSON 配列）からスクリプトプロバイダーを生成する
+ *
+ * ProviderRegistry のファクトリは同期関数のため、ファイルは生成時に同期的に読み込む。
+ * 相対パスはカレントディレクトリから解決する。
+ */
+export function createScriptedProviderFromConfig(config: ProviderConfig): Result<LLMProvider> {
+  if (config.script === undefined) {
+    return err('Scripted provider requires script (path to a JSON file of scripted turns)')
+  }
+  try {
+    const turns: unknown = JSON.parse(readFileSync(config.script, 'utf-8'))
+    if (!isScriptedTurns(turns)) {
+      return err(`Invalid script file: ${config.script}`)
+    }
+    return ok(createScriptedProvider(turns))
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : String(e)
+    return err(`Failed to load script ${config.script}: ${message}`, e)
+  }
+}
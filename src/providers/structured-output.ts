@@ -0,0 +1,201 @@
+/**
+ * 構造化出力
+ *
+ * ResponseFormat の既定値と、最終応答の JSON テキストをスキーマで検証する関数を提供する。
+ * 検証はエージェントの応答チェックに必要な JSON Schema のサブセットのみを扱う。
+ */
+import type { Result } from '../result.js'
+import { ok, err } from '../result.js'
+import type { JsonSchema, ResponseFormat } from './types.js'
+
+/** ResponseFormat.name 省略時のスキーマ名 */
+export const DEFAULT_RESPONSE_FORMAT_NAME = 'final_answer'
+
+/** ResponseFormat のスキーマ名を返す（省略時は 'final_answer'） */
+export function getResponseFormatName(format: ResponseFormat): string {
+  return format.name ?? DEFAULT_RESPONSE_FORMAT_NAME
+}
+
+/** unknown な値がプレーンオブジェクトかどうかを判定する型ガード */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/** JSON の値が JSON Schema の type に一致するかを判定する */
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'object':
+      return isObject(value)
+    case 'array':
+      return Array.isArray(value)
+    case 'string':
+      return typeof value === 'string'
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value)
+    case 'boolean':
+      return typeof value === 'boolean'
+    case 'null':
+      return value === null
+    default:
+      return true
+  }
+}
+
+/** サブスキーマ（オブジェクトでない場合は制約なし）を取り出す */
+function toSchema(value: unknown): JsonSchema | undefined {
+  return isObject(value) ? value : undefined
+}
+
+/**
+ * 値を JSON Schema で検証し、違反の一覧を返す（違反がなければ空配列）
+ *
+ * 対応するキーワード: type / enum / const / properties / required / additionalProperties /
+ * items / minItems / maxItems / minLength / maxLength / minimum / maximum / anyOf / oneOf / allOf。
+ * それ以外のキーワードは無視する。
+ *
+ * @param value - 検証する値
+ * @param schema - JSON Schema
+ * @param path - エラーメッセージに含める値の位置（既定は '$'）
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = []
+
+  const type = schema['type']
+  if (typeof type === 'string' || Array.isArray(type)) {
+    const types = (Array.isArray(type) ? type : [type]).filter(
+      (t): t is string => typeof t === 'string',
+    )
+    if (!types.some((t) => matchesType(value, t))) {
+      return [`${path}: expected ${types.join(' | ')}`]
+    }
+  }
+
+  const enumValues = schema['enum']
+  if (Array.isArray(enumValues)) {
+    const serialized = JSON.stringify(value)
+    if (!enumValues.some((v) => JSON.stringify(v) === serialized)) {
+      errors.push(`${path}: must be one of ${JSON.stringify(enumValues)}`)
+    }
+  }
+  if ('const' in schema && JSON.stringify(schema['const']) !== JSON.stringify(value)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema['const'])}`)
+  }
+
+  if (isObject(value)) {
+    const properties = toSchema(schema['properties']) ?? {}
+    const required = schema['required']
+    if (Array.isArray(required)) {
+      for (const key of required) {
+        if (typeof key === 'string' && !(key in value)) {
+          errors.push(`${path}.${key}: is required`)
+        }
+      }
+    }
+    const additional = schema['additionalProperties']
+    for (const [key, child] of Object.entries(value)) {
+      const propertySchema = toSchema(properties[key])
+      if (propertySchema !== undefined) {
+        errors.push(...validateJsonSchema(child, propertySchema, `${path}.${key}`))
+      } else if (key in properties) {
+        continue
+      } else if (additional === false) {
+        errors.push(`${path}.${key}: is not allowed`)
+      } else if (isObject(additional)) {
+        errors.push(...validateJsonSchema(child, additional, `${path}.${key}`))
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    const items = toSchema(schema['items'])
+    if (items !== undefined) {
+      value.forEach((item, i) => {
+        errors.push(...validateJsonSchema(item, items, `${path}[${String(i)}]`))
+      })
+    }
+    const minItems = schema['minItems']
+    if (typeof minItems === 'number' && value.length < minItems) {
+      errors.push(`${path}: must have at least ${String(minItems)} items`)
+    }
+    const maxItems = schema['maxItems']
+    if (typeof maxItems === 'number' && value.length > maxItems) {
+      errors.push(`${path}: must have at most ${String(maxItems)} items`)
+    }
+  }
+
+  if (typeof value === 'string') {
+    const minLength = schema['minLength']
+    if (typeof minLength === 'number' && value.length < minLength) {
+      errors.push(`${path}: must be at least ${String(minLength)} characters`)
+    }
+    const maxLength = schema['maxLength']
+    if (typeof maxLength === 'number' && value.length > maxLength) {
+      errors.push(`${path}: must be at most ${String(maxLength)} characters`)
+    }
+  }
+
+  if (typeof value === 'number') {
+    const minimum = schema['minimum']
+    if (typeof minimum === 'number' && value < minimum) {
+      errors.push(`${path}: must be >= ${String(minimum)}`)
+    }
+    const maximum = schema['maximum']
+    if (typeof maximum === 'number' && value > maximum) {
+      errors.push(`${path}: must be <= ${String(maximum)}`)
+    }
+  }
+
+  const allOf = schema['allOf']
+  if (Array.isArray(allOf)) {
+    for (const sub of allOf) {
+      const subSchema = toSchema(sub)
+      if (subSchema !== undefined) {
+        errors.push(...validateJsonSchema(value, subSchema, path))
+      }
+    }
+  }
+  for (const keyword of ['anyOf', 'oneOf'] as const) {
+    const variants = schema[keyword]
+    if (!Array.isArray(variants)) continue
+    const matched = variants.filter((sub) => {
+      const subSchema = toSchema(sub)
+      return subSchema === undefined || validateJsonSchema(value, subSchema, path).length === 0
+    }).length
+    if (keyword === 'anyOf' ? matched === 0 : matched !== 1) {
+      errors.push(
+        `${path}: must match ${keyword === 'anyOf' ? 'at least one' : 'exactly one'} schema in ${keyword}`,
+      )
+    }
+  }
+
+  return errors
+}
+
+/** 応答全体を囲む Markdown のコードフェンス（```json ... ```）を取り除く */
+function stripCodeFence(text: string): string {
+  const match = /^```[a-zA-Z]*\s*\n([\s\S]*?)\n?```$/.exec(text.trim())
+  return match?.[1] ?? text.trim()
+}
+
+/**
+ * 最終応答のテキストを JSON として解析し、スキーマで検証する
+ *
+ * 応答全体がコードフェンスで囲まれている場合は取り除いてから解析する。
+ * 解析・検証に失敗した場合は違反内容を列挙した err を返す。
+ */
+export function parseStructuredOutput(text: string, schema: JsonSchema): Result<unknown> {
+  let value: unknown
+  try {
+    value = JSON.parse(stripCodeFence(text))
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : String(e)
+    return err(`Response is not valid JSON: ${message}`, e)
+  }
+  const errors = validateJsonSchema(value, schema)
+  if (errors.length > 0) {
+    return err(`Response does not match the schema:\n${errors.map((e) => `- ${e}`).join('\n')}`)
+  }
+  return ok(value)
+}
@@ -0,0 +1,109 @@
+/**
+ * ローカルのトークン数推定
+ *
+ * トークン数を数える API を持たないバックエンド（OpenAI / OpenAI 互換）向けに、
+ * BPE トークナイザーの分割規則を近似してメッセージとツール定義のトークン数を推定する。
+ * 実際のトークナイザーとは数 % 程度ずれるため、上限に対する見積もりにのみ使う。
+ */
+import type { Message, MessageContent, Tool } from './types.js'
+
+/**
+ * 単語単位の分割パターン（GPT 系トークナイザーの事前分割を簡略化したもの）
+ *
+ * 英単語は先頭の空白 1 つを含めて 1 つの単位とし、CJK 文字は 1 文字ずつに分ける。
+ */
+const PIECE_PATTERN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]| ?[\p{L}\p{M}]+| ?\p{N}+| ?[^\s\p{L}\p{M}\p{N}]+|\s+/gu
+
+/** CJK 文字かどうか */
+const CJK_PATTERN = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]$/u
+
+/** 1 トークンに収まる単語の文字数の目安（一般的な英単語は 1 トークン、長い識別子は分割される） */
+const CHARS_PER_WORD_TOKEN = 6
+
+/** 数字は 3 桁ごとに 1 トークンに分割される */
+const DIGITS_PER_TOKEN = 3
+
+/** 記号の連続（`{"` や `});` 等）は 2 文字程度で 1 トークンになる */
+const SYMBOLS_PER_TOKEN = 2
+
+/** role 等のメッセージ構造分のオーバーヘッド（トークン） */
+const MESSAGE_OVERHEAD_TOKENS = 3
+
+/** 応答の開始を示すプライミング分のトークン */
+const REPLY_PRIMING_TOKENS = 3
+
+/** ツール定義 1 件あたりの構造分のオーバーヘッド（トークン） */
+const TOOL_OVERHEAD_TOKENS = 8
+
+/** 画像・ドキュメントパート 1 件あたりの推定トークン数 */
+const MEDIA_PART_TOKENS = 1600
+
+/** テキストの推定トークン数を返す */
+export function countTextTokens(text: string): number {
+  let tokens = 0
+  for (const [piece] of text.matchAll(PIECE_PATTERN)) {
+    const word = piece.trimStart()
+    if (word === '') {
+      // 空白の連続は 1 トークンにまとまる
+      tokens += 1
+    } else if (CJK_PATTERN.test(word)) {
+      tokens += 1
+    } else if (/^\p{N}+$/u.test(word)) {
+      tokens += Math.ceil(word.length / DIGITS_PER_TOKEN)
+    } else if (/^[\p{L}\p{M}]+$/u.test(word)) {
+      tokens += Math.ceil(word.length / CHARS_PER_WORD_TOKEN)
+    } else {
+      tokens += Math.ceil(word.length / SYMBOLS_PER_TOKEN)
+    }
+  }
+  return tokens
+}
+
+/** MessageContent の推定トークン数を返す */
+function countContentTokens(content: MessageContent): number {
+  if (typeof content === 'string') return countTextTokens(content)
+  return content.reduce(
+    (sum, part) => sum + (part.type === 'text' ? countTextTokens(part.text) : MEDIA_PART_TOKENS),
+    0,
+  )
+}
+
+/** メッセージ 1 件の推定トークン数を返す（ツール呼び出しは名前と引数の JSON で見積もる） */
+function countMessageTokens(message: Message): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS + countContentTokens(message.content)
+  if (message.name !== undefined) {
+    tokens += countTextTokens(message.name)
+  }
+  for (const tc of message.toolCalls ?? []) {
+    tokens += countTextTokens(tc.name) + countTextTokens(JSON.stringify(tc.arguments))
+  }
+  return tokens
+}
+
+/** ツール定義 1 件の推定トークン数を返す */
+function countToolTokens(tool: Tool): number {
+  return (
+    TOOL_OVERHEAD_TOKENS +
+    countTextTokens(tool.name) +
+    countTextTokens(tool.description) +
+    countTextTokens(JSON.stringify(tool.parameters))
+  )
+}
+
+/**
+ * メッセージとツール定義を送信したときの入力トークン数を推定する
+ *
+ * LLMProvider.countTokens を実装しないプロバイダーや、OpenAI 系プロバイダーの countTokens が使う。
+ */
+export function estimatePromptTokens(
+  messages: readonly Message[],
+  tools: readonly Tool[] = [],
+): number {
+  if (messages.length === 0 && tools.length === 0) return 0
+  return (
+    messages.reduce((sum, m) => sum + countMessageTokens(m), 0) +
+    tools.reduce((sum, t) => sum + countToolTokens(t), 0) +
+    REPLY_PRIMING_TOKENS
+  )
+}
@@ -8,20 +8,75 @@ import type { Result } from '../result.js'
  */
 export type JsonSchema = Record<string, unknown>
 
+/** テキストのコンテンツパート */
+export interface TextPart {
+  readonly type: 'text'
+  readonly text: string
+}
+
+/** 画像のコンテンツパート（base64 エンコード） */
+export interface ImagePart {
+  readonly type: 'image'
+  /** MIME タイプ（例: 'image/png'） */
+  readonly mimeType: string
+  /** base64 エンコードされたデータ */
+  readonly data: string
+}
+
+/** ドキュメント（PDF 等）のコンテンツパート（base64 エンコード） */
+export interface DocumentPart {
+  readonly type: 'document'
+  /** MIME タイプ（例: 'application/pdf'） */
+  readonly mimeType: string
+  /** base64 エンコードされたデータ */
+  readonly data: string
+  /** ファイル名（OpenAI の file パート等で使用） */
+  readonly name?: string
+}
+
+/** メッセージを構成するコンテンツパート */
+export type ContentPart = TextPart | ImagePart | DocumentPart
+
+/**
+ * メッセージ本文
+ *
+ * テキストのみの場合は文字列、画像やドキュメントを含む場合はコンテンツパートの配列。
+ */
+export type MessageContent = string | readonly ContentPart[]
+
 /** LLM メッセージ */
 export interface Message {
   readonly role: 'user' | 'assistant' | 'system'
-  readonly content: string
+  readonly content: MessageContent
   readonly toolCallId?: string
   readonly name?: string
   readonly toolCalls?: readonly ToolCall[]
+  /** assistant メッセージの推論ブロック（Claude の署名付き thinking を履歴に戻すために保持する） */
+  readonly thinking?: readonly ThinkingBlock[]
+}
+
+/**
+ * 推論（extended thinking / reasoning）ブロック
+ *
+ * Claude の thinking ブロックは signature 付きで返り、ツール呼び出しを含むターンでは
+ * そのまま履歴に戻す必要がある。redacted_thinking は暗号化された redactedData のみを持つ。
+ */
+export interface ThinkingBlock {
+  /** 推論テキスト（redacted の場合は空文字列） */
+  readonly text: string
+  /** Claude の thinking ブロック署名 */
+  readonly signature?: string
+  /** Claude の redacted_thinking ブロックの暗号化データ */
+  readonly redactedData?: string
 }
 
 /** ストリーミングチャンク */
 export type StreamChunk =
   | { readonly type: 'delta'; readonly content: string }
+  | { readonly type: 'thinking_delta'; readonly content: string }
+  | { readonly type: 'thinking'; readonly thinking: ThinkingBlock }
   | { readonly type: 'tool_call'; readonly toolCall: ToolCall }
-  | { readonly type: 'done'; readonly usage?: TokenUsage }
+  | { readonly type: 'done'; readonly usage?: TokenUsage; readonly metadata?: ResponseMetadata }
 
 /** LLM に渡すツール定義 */
 export interface Tool {
@@ -39,8 +94,83 @@ export interface ToolCall {
 
 /** トークン使用量 */
 export interface TokenUsage {
+  /** 入力トークン数（cacheReadTokens / cacheWriteTokens として報告された分は含まない） */
   readonly inputTokens: number
   readonly outputTokens: number
+  /** キャッシュから読み込まれた入力トークン数（プロバイダーが報告した場合） */
+  readonly cacheReadTokens?: number
+  /** キャッシュに書き込まれた入力トークン数（プロバイダーが報告した場合） */
+  readonly cacheWriteTokens?: number
+}
+
+/**
+ * 生成パラメータ
+ *
+ * 各プロバイダーはネイティブのリクエスト形式に変換する。
+ * 未対応のパラメータ（例: Anthropic の seed）は無視される。
+ */
+export interface GenerationOptions {
+  /** 最大出力トークン数 */
+  readonly maxTokens?: number
+  readonly temperature?: number
+  readonly topP?: number
+  /** 停止シーケンス */
+  readonly stop?: readonly string[]
+  /** 乱数シード（対応プロバイダーのみ） */
+  readonly seed?: number
+  /** 推論（extended thinking / reasoning）を有効にする */
+  readonly thinking?: ThinkingOptions
+}
+
+/**
+ * 推論の設定
+ *
+ * Claude は budget_tokens、Gemini は thinkingBudget、OpenAI は reasoning_effort、
+ * Ollama は think フラグに変換される。
+ */
+export interface ThinkingOptions {
+  /** 推論に使うトークン予算 */
+  readonly budgetTokens: number
+  /** 推論の強度（OpenAI の reasoning_effort）。省略時は 'medium' */
+  readonly effort?: 'low' | 'medium' | 'high'
+}
+
+/**
+ * 構造化出力の指定
+ *
+ * 最終応答を schema に従う JSON テキストとして返すよう要求する。OpenAI は response_format、
+ * Gemini は responseSchema、Ollama は format、Claude は強制ツール呼び出しに変換される。
+ */
+export interface ResponseFormat {
+  /** スキーマ名（OpenAI の json_schema.name、Claude のツール名）。省略時は 'final_answer' */
+  readonly name?: string
+  readonly schema: JsonSchema
+}
+
+/**
+ * ツール呼び出しの制御
+ *
+ * - 'auto': モデルが呼び出すかどうかを選ぶ（既定）
+ * - 'none': ツールを呼び出さずに応答させる
+ * - 'required': いずれかのツールを必ず呼び出させる
+ * - { name }: 指定したツールを必ず呼び出させる
+ */
+export type ToolChoice = 'auto' | 'none' | 'required' | { readonly name: string }
+
+/** 1 回の LLM 呼び出しに渡すオプション */
+export interface CompletionOptions {
+  /** 指定すると最終応答を JSON Schema に従う JSON テキストとして返す */
+  readonly responseFormat?: ResponseFormat
+  /** ツール呼び出しの制御（ツールを渡さないリクエストでは無視される） */
+  readonly toolChoice?: ToolChoice
+}
+
+/** レスポンスを生成したプロバイダーの情報 */
+export interface ResponseMetadata {
+  /** プロバイダー名（例: 'claude'） */
+  readonly provider: string
+  /** モデル名 */
+  readonly model: string
 }
 
 /** LLM レスポンス */
@@ -48,6 +178,10 @@ export interface LLMResponse {
   readonly content: string
   readonly toolCalls?: readonly ToolCall[]
   readonly usage?: TokenUsage
+  /** 推論ブロック（推論が有効な場合） */
+  readonly thinking?: readonly ThinkingBlock[]
+  /** 応答したプロバイダー（フォールバックチェーン経由の場合に設定される） */
+  readonly metadata?: ResponseMetadata
 }
 
 /**
@@ -57,8 +191,65 @@ export interface LLMResponse {
  */
 export interface LLMProvider {
   /** 同期的にメッセージを送信し、レスポンスを取得する */
-  complete(messages: readonly Message[], tools?: readonly Tool[]): Promise<Result<LLMResponse>>
+  complete(
+    messages: readonly Message[],
+    tools?: readonly Tool[],
+    options?: CompletionOptions,
+  ): Promise<Result<LLMResponse>>
 
   /** ストリーミングでレスポンスを取得する（オプション） */
-  stream?(messages: readonly Message[], tools?: readonly Tool[]): AsyncIterable<StreamChunk>
+  stream?(
+    messages: readonly Message[],
+    tools?: readonly Tool[],
+    options?: CompletionOptions,
+  ): AsyncIterable<StreamChunk>
+
+  /**
+   * メッセージとツール定義を送信したときの入力トークン数を数える（オプション）
+   *
+   * 未実装のプロバイダーでは estimatePromptTokens() の推定値で代用する。
+   */
+  countTokens?(messages: readonly Message[], tools?: readonly Tool[]): Promise<Result<number>>
+}
+
+/**
+ * モデルの能力
+ *
+ * 各項目は省略時「不明」として扱い、検証をスキップする。
+ */
+export interface ModelCapabilities {
+  /** コンテキストウィンドウ（入力と出力を合わせた最大トークン数） */
+  readonly contextWindow?: number
+  /** 1 回の応答で生成できる最大トークン数 */
+  readonly maxOutputTokens?: number
+  /** ネイティブのツール呼び出しに対応しているか */
+  readonly tools?: boolean
+  /** 画像入力に対応しているか */
+  readonly vision?: boolean
+  /** ストリーミング時にトークン使用量を返すか */
+  readonly streamingUsage?: boolean
+}
+
+/** カタログに登録されたモデル */
+export interface ModelInfo {
+  /** カタログのキー（モデル名の前方一致キー、または `provider/model`） */
+  readonly name: string
+  readonly capabilities: ModelCapabilities
+  /** 'builtin': 組み込み / 'discovered': 実行時に取得 / 'config': config.json の models */
+  readonly source: 'builtin' | 'discovered' | 'config'
+}
+
+/**
+ * モデルの能力カタログ
+ *
+ * 組み込みの既定値、実行時に取得した値（Ollama の /api/show 等）、config.json の models を
+ * この順に重ねてプロバイダー/モデルの能力を解決する。
+ */
+export interface ModelCatalogue {
+  /** プロバイダー/モデルの能力を解決する（どこにも登録されていなければ undefined） */
+  resolve(source: ResponseMetadata): ModelCapabilities | undefined
+  /** 実行時に取得した能力を登録する（同じプロバイダー/モデルの既存の値は置き換える） */
+  register(source: ResponseMetadata, capabilities: ModelCapabilities): void
+  /** 登録されているモデルをキーの順に返す */
+  list(): ModelInfo[]
 }
@@ -6,14 +6,18 @@
  */
 export type Result<T, E = string> =
   | { readonly ok: true; readonly data: T }
-  | { readonly ok: false; readonly error: E }
+  | { readonly ok: false; readonly error: E; readonly cause?: unknown }
 
 /** 成功 Result を生成する */
 export function ok<T>(data: T): Result<T, never> {
   return { ok: true, data }
 }
 
-/** 失敗 Result を生成する */
-export function err<E = string>(error: E): Result<never, E> {
-  return { ok: false, error }
+/**
+ * 失敗 Result を生成する
+ *
+ * @param cause - 失敗の原因となった元の例外等（リトライ判定などで参照する。省略可）
+ */
+export function err<E = string>(error: E, cause?: unknown): Result<never, E> {
+  return cause === undefined ? { ok: false, error } : { ok: false, error, cause }
 }
@@ -4,7 +4,12 @@
  * メッセージのエンコード / デコード / 型ガード関数を提供する。
  * Core ↔ TUI 間の stdin/stdout 通信で使用。
  */
-import type { JsonRpcRequest, JsonRpcNotification, JsonRpcIncoming } from './types.js'
+import type {
+  JsonRpcRequest,
+  JsonRpcNotification,
+  JsonRpcIncoming,
+  JsonRpcResponse,
+} from './types.js'
 import { JSON_RPC_ERROR_CODES } from './types.js'
 import type { Result } from '../result.js'
 import { ok, err } from '../result.js'
@@ -61,6 +66,27 @@ export function isJsonRpcIncoming(msg: unknown): msg is JsonRpcIncoming {
   return isJsonRpcRequest(msg) || isJsonRpcNotification(msg)
 }
 
+/**
+ * JSON-RPC 2.0 Response（成功 or エラー）の型ガード
+ *
+ * method を持たず、result または error オブジェクトのいずれか一方を持つことを検証する。
+ * エラーレスポンスの id は null を許容する。
+ */
+export function isJsonRpcResponse(msg: unknown): msg is JsonRpcResponse {
+  if (!isNonNullObject(msg)) return false
+  if (msg['jsonrpc'] !== '2.0') return false
+  if ('method' in msg) return false
+  const hasResult = 'result' in msg
+  const hasError = 'error' in msg
+  if (hasResult === hasError) return false
+  if (hasResult) return isValidId(msg['id'])
+
+  const error = msg['error']
+  if (!isNonNullObject(error)) return false
+  if (typeof error['code'] !== 'number' || typeof error['message'] !== 'string') return false
+  return msg['id'] === null || isValidId(msg['id'])
+}
+
 // ─── デコード ───
 
 /**
@@ -91,8 +117,41 @@ export function decodeJsonRpc(line: string): Result<JsonRpcIncoming> {
   return ok(parsed)
 }
 
+/**
+ * 1 行の文字列を JSON パースし、JsonRpcResponse として検証する
+ *
+ * Core が送信したリクエストに対するクライアントの応答を受信する際に使用する。
+ */
+export function decodeJsonRpcResponse(line: string): Result<JsonRpcResponse> {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(line) as unknown
+  } catch {
+    return err('Failed to parse JSON-RPC: invalid JSON')
+  }
+
+  if (!isJsonRpcResponse(parsed)) {
+    return err('Invalid JSON-RPC message: not a valid response')
+  }
+
+  return ok(parsed)
+}
+
 // ─── エンコード ───
 
+/**
+ * JSON-RPC 2.0 Request をエンコードする（Core → TUI 方向のリクエスト用）
+ *
+ * @returns 単一行の JSON 文字列（末尾改行なし）
+ */
+export function encodeRequest(id: string | number, method: string, params?: unknown): string {
+  const msg: Record<string, unknown> = { jsonrpc: '2.0', id, method }
+  if (params !== undefined) {
+    msg['params'] = params
+  }
+  return JSON.stringify(msg)
+}
+
 /**
  * JSON-RPC 2.0 Notification をエンコードする
  *
@@ -5,13 +5,33 @@
  * トランスポート抽象、AgentLoopHandler との統合を提供する。
  */
 import readline from 'node:readline'
-import type { RpcTransport, RpcRequestHandler, RpcServer, RpcServerOptions } from './types.js'
-import type { AgentLoopHandler, AgentLoopState } from '../agent/types.js'
+import type {
+  JsonRpcIncoming,
+  JsonRpcResponse,
+  RpcApprovalRequestResult,
+  RpcTransport,
+  RpcRequestHandler,
+  RpcServer,
+  RpcServerOptions,
+} from './types.js'
+import type {
+  AgentLoopHandler,
+  AgentLoopState,
+  ApprovalDecision,
+  CompactionStats,
+  UsageSnapshot,
+} from '../agent/types.js'
+import type { ResponseMetadata } from '../providers/types.js'
+import type { OllamaPullProgress } from '../providers/ollama-models.js'
 import type { ToolResult } from '../tools/types.js'
+import type { Result } from '../result.js'
+import { ok, err } from '../result.js'
 import { RPC_METHODS } from './types.js'
 import {
   decodeJsonRpc,
+  decodeJsonRpcResponse,
   isJsonRpcRequest,
+  encodeRequest,
   encodeSuccessResponse,
   encodeNotification,
   encodeParseError,
@@ -60,12 +80,22 @@ export function createRpcRequestHandler(
  *
  * transport.input から JSON-RPC メッセージを受信し、ハンドラにディスパッチする。
  * start() は入力ストリームが終了するまでブロックし、stop() で中断できる。
+ *
+ * クライアントからの Request / Notification は受信順に1件ずつ処理する。
+ * 処理中でも受信ループは止めず、request() で送信したリクエストへの Response は
+ * 即座に対応する呼び出し元へ返す（ハンドラ内から request() してもデッドロックしない）。
  */
 export function createRpcServer(options: RpcServerOptions): RpcServer {
   const { transport, handler } = options
   let stopped = false
   let stopResolve: ((value: IteratorResult<string>) => void) | null = null
 
+  /** 受信ループが動作しておらず、Response を受け取れない状態か */
+  let closed = true
+  let nextRequestId = 1
+  /** 応答待ちの Core → TUI リクエスト（id → resolve） */
+  const pendingRequests = new Map<string | number, (result: Result<unknown>) => void>()
+
   const DONE_RESULT: IteratorResult<string> = {
     value: undefined as unknown as string,
     done: true,
@@ -104,45 +134,95 @@ export function createRpcServer(options: RpcServerOptions): RpcServer {
     }
   }
 
+  /** Request / Notification をハンドラにディスパッチし、必要ならレスポンスを書き込む */
+  async function dispatch(msg: JsonRpcIncoming): Promise<void> {
+    if (isJsonRpcRequest(msg)) {
+      // Request with id — dispatch and write response
+      try {
+        const result = await handler(msg.method, msg.params)
+        transport.write(encodeSuccessResponse(msg.id, result))
+      } catch (error: unknown) {
+        if (error instanceof MethodNotFoundError) {
+          transport.write(encodeMethodNotFound(msg.id, error.method))
+        } else {
+          const message = error instanceof Error ? error.message : String(error)
+          transport.write(encodeInternalError(msg.id, message))
+        }
+      }
+    } else {
+      // Notification (no id) — dispatch but don't write response
+      try {
+        await handler(msg.method, msg.params)
+      } catch (error: unknown) {
+        // Notification にはレスポンスを返せないが、ログ通知で報告する
+        const message = error instanceof Error ? error.message : String(error)
+        transport.write(encodeNotification(RPC_METHODS.LOG, { level: 'warn', message }))
+      }
+    }
+  }
+
+  /** クライアントからの Response を対応する request() 呼び出しに渡す */
+  function resolveResponse(response: JsonRpcResponse): void {
+    if (response.id === null) return
+    const resolve = pendingRequests.get(response.id)
+    // 未知の id（重複した応答など）は無視する
+    if (!resolve) return
+    pendingRequests.delete(response.id)
+    if ('error' in response) {
+      resolve(err(response.error.message))
+    } else {
+      resolve(ok(response.result))
+    }
+  }
+
+  /** 応答待ちのリクエストをすべて err で完了させる */
+  function rejectPendingRequests(reason: string): void {
+    for (const resolve of pendingRequests.values()) {
+      resolve(err(reason))
+    }
+    pendingRequests.clear()
+  }
+
   async function start(): Promise<void> {
     // stop() 後の再起動を可能にする
     stopped = false
+    closed = false
+    let dispatchQueue: Promise<void> = Promise.resolve()
 
     for await (const line of createStoppableInput()) {
       const decoded = decodeJsonRpc(line)
 
       if (!decoded.ok) {
+        // Core が送信したリクエストへの Response
+        const response = decodeJsonRpcResponse(line)
+        if (response.ok) {
+          resolveResponse(response.data)
+          continue
+        }
         // Parse error — write error response and continue
         transport.write(encodeParseError())
         continue
       }
 
       const msg = decoded.data
+      dispatchQueue = dispatchQueue.then(() => dispatch(msg))
+    }
 
-      if (isJsonRpcRequest(msg)) {
-        // Request with id — dispatch and write response
-        try {
-          const result = await handler(msg.method, msg.params)
-          transport.write(encodeSuccessResponse(msg.id, result))
-        } catch (error: unknown) {
-          if (error instanceof MethodNotFoundError) {
-            transport.write(encodeMethodNotFound(msg.id, error.method))
-          } else {
-            const message = error instanceof Error ? error.message : String(error)
-            transport.write(encodeInternalError(msg.id, message))
-          }
-        }
-      } else {
-        // Notification (no id) — dispatch but don't write response
-        try {
-          await handler(msg.method, msg.params)
-        } catch (error: unknown) {
-          // Notification にはレスポンスを返せないが、ログ通知で報告する
-          const message = error instanceof Error ? error.message : String(error)
-          transport.write(encodeNotification(RPC_METHODS.LOG, { level: 'warn', message }))
-        }
-      }
+    // 入力が終了したため以降の Response は届かない
+    closed = true
+    rejectPendingRequests('RPC connection closed')
+    await dispatchQueue
+  }
+
+  function request(method: string, params?: unknown): Promise<Result<unknown>> {
+    if (closed) {
+      return Promise.resolve(err('RPC connection closed'))
     }
+    const id = nextRequestId++
+    return new Promise<Result<unknown>>((resolve) => {
+      pendingRequests.set(id, resolve)
+      transport.write(encodeRequest(id, method, params))
+    })
   }
 
   function notify(method: string, params?: unknown): void {
@@ -151,6 +231,8 @@ export function createRpcServer(options: RpcServerOptions): RpcServer {
 
   function stop(): void {
     stopped = true
+    closed = true
+    rejectPendingRequests('RPC server stopped')
     if (stopResolve) {
       const r = stopResolve
       stopResolve = null
@@ -158,7 +240,7 @@ export function createRpcServer(options: RpcServerOptions): RpcServer {
     }
   }
 
-  return { start, notify, stop }
+  return { start, notify, request, stop }
 }
 
 // ─── createStdioTransport ───
@@ -201,6 +283,13 @@ export function createStdioTransport(
 
 // ─── createRpcAgentHandler ───
 
+/** approvalRequest の結果の型ガード */
+function isApprovalRequestResult(value: unknown): value is RpcApprovalRequestResult {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false
+  const decision = (value as Record<string, unknown>)['decision']
+  return decision === 'allow' || decision === 'deny' || decision === 'allow-always'
+}
+
 /**
  * RPC サーバーを AgentLoopHandler にブリッジする
  *
@@ -208,14 +297,26 @@ export function createStdioTransport(
  */
 export function createRpcAgentHandler(server: RpcServer): AgentLoopHandler {
   return {
-    onResponse(content: string): void {
-      server.notify(RPC_METHODS.RESPONSE, { content })
+    onResponse(content: string, metadata?: ResponseMetadata): void {
+      server.notify(RPC_METHODS.RESPONSE, { content, ...(metadata ? { metadata } : {}) })
+    },
+    onDelta(content: string): void {
+      server.notify(RPC_METHODS.RESPONSE_DELTA, { content })
+    },
+    onReasoning(content: string): void {
+      server.notify(RPC_METHODS.REASONING, { content })
     },
     onToolStart(name: string, args: Record<string, unknown>): void {
       server.notify(RPC_METHODS.TOOL_EXEC, { event: 'start', name, args })
     },
     onToolEnd(name: string, result: ToolResult): void {
-      server.notify(RPC_METHODS.TOOL_EXEC, { event: 'end', name, result })
+      // parts（base64 の画像等）は LLM 向けのため通知には含めない
+      const { ok: success, output, error } = result
+      server.notify(RPC_METHODS.TOOL_EXEC, {
+        event: 'end',
+        name,
+        result: { ok: success, output, ...(error !== undefined ? { error } : {}) },
+      })
     },
     onStateChange(state: AgentLoopState): void {
       server.notify(RPC_METHODS.STATE_CHANGE, { state })
@@ -223,8 +324,71 @@ export function createRpcAgentHandler(server: RpcServer): AgentLoopHandler {
     onError(error: string): void {
       server.notify(RPC_METHODS.LOG, { level: 'error', message: error })
     },
+    onCompaction(stats: CompactionStats): void {
+      server.notify(RPC_METHODS.CONTEXT_COMPACTED, stats)
+    },
     onUsage(): void {
-      // no-op — usage tracking is handled elsewhere
+      // no-op — 集計は AgentLoop の usageLedger が行い、ターン終了時に onTurnUsage で通知する
     },
+    onTurnUsage(snapshot: UsageSnapshot): void {
+      server.notify(RPC_METHODS.USAGE, snapshot)
+    },
+    async onApprovalRequest(
+      name: string,
+      args: Record<string, unknown>,
+      reason?: string,
+    ): Promise<ApprovalDecision> {
+      const result = await server.request(RPC_METHODS.APPROVAL_REQUEST, {
+        name,
+        args,
+        ...(reason !== undefined ? { reason } : {}),
+      })
+      if (!result.ok) {
+        server.notify(RPC_METHODS.LOG, {
+          level: 'warn',
+          message: `Approval request failed: ${result.error}`,
+        })
+        return 'deny'
+      }
+      // 不正な応答は安全側に倒して拒否する
+      return isApprovalRequestResult(result.data) ? result.data.decision : 'deny'
+    },
+  }
+}
+
+// ─── createRpcPullProgressHandler ───
+
+/**
+ * Ollama のモデルの pull の進捗を RPC 通知として送るコールバックを生成する
+ *
+ * 開始・完了は log 通知、進捗は pullProgress 通知で送る。Ollama は数 KB ごとに進捗を返すため、
+ * pullProgress はステータスが変わったときとダウンロード済みの割合が 1% 以上進んだときのみ送る。
+ */
+export function createRpcPullProgressHandler(
+  server: RpcServer,
+): (model: string, progress: OllamaPullProgress) => void {
+  /** モデルごとに最後に通知したステータスと割合 */
+  const last = new Map<string, { status: string; percent: number }>()
+
+  return (model: string, progress: OllamaPullProgress): void => {
+    const previous = last.get(model)
+    if (previous === undefined) {
+      server.notify(RPC_METHODS.LOG, { level: 'info', message: `Pulling model ${model}` })
+    }
+
+    const { total, completed } = progress
+    const percent =
+      total !== undefined && total > 0 && completed !== undefined
+        ? Math.floor((completed / total) * 100)
+        : 0
+    if (previous?.status !== progress.status || percent > previous.percent) {
+      server.notify(RPC_METHODS.PULL_PROGRESS, { model, ...progress })
+      last.set(model, { status: progress.status, percent })
+    }
+
+    if (progress.status === 'success') {
+      last.delete(model)
+      server.notify(RPC_METHODS.LOG, { level: 'info', message: `Pulled model ${model}` })
+    }
   }
 }
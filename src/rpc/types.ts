@@ -5,8 +5,23 @@
  * wn-core 固有の RPC メソッド型、およびサーバーインターフェースを定義する。
  */
 
-import type { AgentLoopState } from '../agent/types.js'
+import type {
+  AgentLoopState,
+  ApprovalDecision,
+  CompactionStats,
+  UsageSnapshot,
+} from '../agent/types.js'
+import type {
+  GenerationOptions,
+  Message,
+  ModelCapabilities,
+  ModelInfo,
+  ResponseMetadata,
+} from '../providers/types.js'
+import type { OllamaPullProgress } from '../providers/ollama-models.js'
+import type { SessionInfo } from '../session/types.js'
 import type { ToolResult } from '../tools/types.js'
+import type { Result } from '../result.js'
 
 // ─── JSON-RPC 2.0 基本型 ───
 
@@ -49,6 +64,9 @@ export interface JsonRpcErrorResponse {
   readonly error: JsonRpcErrorObject
 }
 
+/** JSON-RPC 2.0 レスポンス（Core 発のリクエストに対する TUI からの応答） */
+export type JsonRpcResponse = JsonRpcSuccessResponse | JsonRpcErrorResponse
+
 // ─── JSON-RPC 2.0 標準エラーコード ───
 
 export const JSON_RPC_ERROR_CODES = {
@@ -64,19 +82,42 @@ export const JSON_RPC_ERROR_CODES = {
 export const RPC_METHODS = {
   // Core → TUI (Notification)
   RESPONSE: 'response',
+  RESPONSE_DELTA: 'responseDelta',
+  REASONING: 'reasoning',
   TOOL_EXEC: 'toolExec',
   STATE_CHANGE: 'stateChange',
   LOG: 'log',
+  CONTEXT_COMPACTED: 'contextCompacted',
+  USAGE: 'usage',
+  PULL_PROGRESS: 'pullProgress',
+  // Core → TUI (Request)
+  APPROVAL_REQUEST: 'approvalRequest',
   // TUI → Core (Request)
   INPUT: 'input',
   ABORT: 'abort',
   CONFIG_UPDATE: 'configUpdate',
+  SESSION_LIST: 'session/list',
+  SESSION_RESUME: 'session/resume',
+  SESSION_NEW: 'session/new',
+  USAGE_GET: 'usage/get',
+  MODELS_LIST: 'models/list',
 } as const
 
 // ─── Notification パラメータ型（Core → TUI） ───
 
 export interface RpcResponseParams {
   readonly content: string
+  /** 応答したプロバイダー（フォールバックチェーン使用時） */
+  readonly metadata?: ResponseMetadata
+}
+
+export interface RpcResponseDeltaParams {
+  readonly content: string
+}
+
+export interface RpcReasoningParams {
+  /** 1回の LLM 応答に含まれる推論テキスト全体 */
+  readonly content: string
 }
 
 export interface RpcToolExecStartParams {
@@ -102,6 +143,29 @@ export interface RpcLogParams {
   readonly message: string
 }
 
+export type RpcContextCompactedParams = CompactionStats
+
+/** ターン終了時のトークン使用量と推定コスト */
+export type RpcUsageParams = UsageSnapshot
+
+/** Ollama のモデルの pull の進捗 */
+export interface RpcPullProgressParams extends OllamaPullProgress {
+  readonly model: string
+}
+
+// ─── Request パラメータ / 結果型（Core → TUI） ───
+
+export interface RpcApprovalRequestParams {
+  readonly name: string
+  readonly args: Record<string, unknown>
+  /** 確認が必要な理由（shell の危険なコマンド等。ツールが示した場合のみ） */
+  readonly reason?: string
+}
+
+export interface RpcApprovalRequestResult {
+  readonly decision: ApprovalDecision
+}
+
 // ─── Request パラメータ / 結果型（TUI → Core） ───
 
 export interface RpcInputParams {
@@ -122,12 +186,60 @@ export interface RpcConfigUpdateParams {
   readonly persona?: string
   readonly provider?: string
   readonly model?: string
+  /** 生成パラメータ（プロバイダー設定の generation より優先） */
+  readonly generation?: GenerationOptions
 }
 
 export interface RpcConfigUpdateResult {
   readonly applied: boolean
 }
 
+export type RpcSessionListParams = Record<string, never>
+
+export interface RpcSessionListResult {
+  readonly sessions: readonly SessionInfo[]
+}
+
+export interface RpcSessionResumeParams {
+  readonly id: string
+}
+
+export interface RpcSessionResumeResult {
+  readonly resumed: boolean
+  /** 復元したメッセージ履歴（resumed が true の場合のみ） */
+  readonly messages?: readonly Message[]
+}
+
+export type RpcSessionNewParams = Record<string, never>
+
+export interface RpcSessionNewResult {
+  readonly created: boolean
+  /** 新しいセッションの ID（created が true の場合のみ） */
+  readonly id?: string
+}
+
+export type RpcUsageGetParams = Record<string, never>
+
+export interface RpcUsageGetResult {
+  /** 現在のセッションの使用量（使用量の集計が無効な場合は省略） */
+  readonly usage?: UsageSnapshot
+}
+
+export type RpcModelsListParams = Record<string, never>
+
+/** 現在使用しているプロバイダー/モデルと解決済みの能力 */
+export interface RpcCurrentModel extends ResponseMetadata {
+  /** カタログから解決した能力（未知のモデルは省略） */
+  readonly capabilities?: ModelCapabilities
+}
+
+export interface RpcModelsListResult {
+  /** カタログに登録されているモデル（カタログが無効な場合は空配列） */
+  readonly models: readonly ModelInfo[]
+  /** 現在のモデル（カタログが無効な場合は省略） */
+  readonly current?: RpcCurrentModel
+}
+
 // ─── Transport / Server インターフェース ───
 
 /** I/O 抽象（テスト用にモック差し替え可能） */
@@ -145,6 +257,11 @@ export interface RpcServer {
   start(): Promise<void>
   /** 通知を送信する */
   notify(method: string, params?: unknown): void
+  /**
+   * クライアントにリクエストを送信し、対応するレスポンスを待つ。
+   * エラーレスポンス・サーバー停止・入力終了の場合は err を返す
+   */
+  request(method: string, params?: unknown): Promise<Result<unknown>>
   /** サーバーを停止する */
   stop(): void
 }
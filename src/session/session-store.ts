@@ -0,0 +1,179 @@
+/**
+ * ファイルベースのセッションストア
+ *
+ * セッションごとに `<dir>/<id>.jsonl` を作成し、1行 = 1 Message の JSONL で保存する。
+ */
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { Result } from '../result.js'
+import { ok, err } from '../result.js'
+import { getTextContent, isMessageContent } from '../providers/content.js'
+import type { Message } from '../providers/types.js'
+import type { SessionInfo, SessionStore } from './types.js'
+
+/** セッション ID として許可する文字（パストラバーサル防止） */
+const SESSION_ID_REGEX = /^[A-Za-z0-9_-]+$/
+
+/** 一覧表示用プレビューの最大文字数 */
+const PREVIEW_LENGTH = 80
+
+/**
+ * NodeJS.ErrnoException 型ガード
+ */
+function isNodeError(e: unknown): e is NodeJS.ErrnoException {
+  return e instanceof Error && 'code' in e
+}
+
+/** unknown 値が Message の形状かどうかを判定する型ガード */
+function isMessage(value: unknown): value is Message {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false
+  const obj = value as Record<string, unknown>
+  if (obj['role'] !== 'user' && obj['role'] !== 'assistant' && obj['role'] !== 'system') {
+    return false
+  }
+  return isMessageContent(obj['content'])
+}
+
+/** セッション ID が安全なファイル名として使えるか検証する */
+export function isValidSessionId(id: string): boolean {
+  return SESSION_ID_REGEX.test(id)
+}
+
+/** Message[] を JSONL 文字列に変換する */
+function toJsonl(messages: readonly Message[]): string {
+  return messages.map((m) => JSON.stringify(m) + '\n').join('')
+}
+
+/** JSONL 文字列を Message[] にパースする */
+function parseJsonl(content: string, filePath: string): Result<Message[]> {
+  const messages: Message[] = []
+  const lines = content.split('\n')
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]?.trim()
+    if (!line) continue
+
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(line) as unknown
+    } catch {
+      return err(`Invalid JSON in ${filePath}:${String(i + 1)}`)
+    }
+    if (!isMessage(parsed)) {
+      return err(`Invalid message record in ${filePath}:${String(i + 1)}`)
+    }
+    messages.push(parsed)
+  }
+  return ok(messages)
+}
+
+/** 最初のユーザー入力（ツール結果を除く）からプレビュー文字列を作る */
+function buildPreview(messages: readonly Message[]): string {
+  const first = messages.find((m) => m.role === 'user' && m.toolCallId === undefined)
+  if (first === undefined) return ''
+  const singleLine = getTextContent(first.content).replace(/\s+/g, ' ').trim()
+  return singleLine.length > PREVIEW_LENGTH ? singleLine.slice(0, PREVIEW_LENGTH) : singleLine
+}
+
+/**
+ * JSONL ファイルにセッションを保存する SessionStore を生成する
+ *
+ * @param dir - セッションファイルを保存するディレクトリ（例: `.wn/sessions`）
+ */
+export function createFileSessionStore(dir: string): SessionStore {
+  function resolveFile(id: string): Result<string> {
+    if (!isValidSessionId(id)) {
+      return err(`Invalid session id: ${id}`)
+    }
+    return ok(path.join(dir, `${id}.jsonl`))
+  }
+
+  async function load(id: string): Promise<Result<Message[]>> {
+    const fileResult = resolveFile(id)
+    if (!fileResult.ok) return fileResult
+
+    let content: string
+    try {
+      content = await fs.promises.readFile(fileResult.data, 'utf-8')
+    } catch (e: unknown) {
+      if (isNodeError(e) && e.code === 'ENOENT') {
+        return err(`Session not found: ${id}`)
+      }
+      const msg = e instanceof Error ? e.message : String(e)
+      return err(msg)
+    }
+    return parseJsonl(content, fileResult.data)
+  }
+
+  return {
+    async append(id: string, messages: readonly Message[]): Promise<Result<void>> {
+      const fileResult = resolveFile(id)
+      if (!fileResult.ok) return fileResult
+
+      try {
+        await fs.promises.mkdir(dir, { recursive: true })
+        await fs.promises.appendFile(fileResult.data, toJsonl(messages), 'utf-8')
+        return ok(undefined)
+      } catch (e: unknown) {
+        const msg = e instanceof Error ? e.message : String(e)
+        return err(msg)
+      }
+    },
+
+    async save(id: string, messages: readonly Message[]): Promise<Result<void>> {
+      const fileResult = resolveFile(id)
+      if (!fileResult.ok) return fileResult
+
+      // 一時ファイルに書き込んでから rename し、途中状態のファイルを残さない
+      const tmpFile = `${fileResult.data}.tmp`
+      try {
+        await fs.promises.mkdir(dir, { recursive: true })
+        await fs.promises.writeFile(tmpFile, toJsonl(messages), 'utf-8')
+        await fs.promises.rename(tmpFile, fileResult.data)
+        return ok(undefined)
+      } catch (e: unknown) {
+        const msg = e instanceof Error ? e.message : String(e)
+        return err(msg)
+      }
+    },
+
+    load,
+
+    async list(): Promise<Result<SessionInfo[]>> {
+      let entries: fs.Dirent[]
+      try {
+        entries = await fs.promises.readdir(dir, { withFileTypes: true })
+      } catch (e: unknown) {
+        if (isNodeError(e) && e.code === 'ENOENT') {
+          return ok([])
+        }
+        const msg = e instanceof Error ? e.message : String(e)
+        return err(msg)
+      }
+
+      const sessions: SessionInfo[] = []
+      for (const entry of entries) {
+        if (!entry.isFile() || !entry.name.endsWith('.jsonl')) continue
+        const id = path.basename(entry.name, '.jsonl')
+        if (!isValidSessionId(id)) continue
+
+        const loaded = await load(id)
+        if (!loaded.ok) continue
+
+        try {
+          const stat = await fs.promises.stat(path.join(dir, entry.name))
+          sessions.push({
+            id,
+            updatedAt: stat.mtime.toISOString(),
+            messageCount: loaded.data.length,
+            preview: buildPreview(loaded.data),
+          })
+        } catch {
+          // 読み込み後に削除されたファイルはスキップ
+        }
+      }
+
+      sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      return ok(sessions)
+    },
+  }
+}
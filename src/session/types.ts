@@ -0,0 +1,31 @@
+import type { Result } from '../result.js'
+import type { Message } from '../providers/types.js'
+
+/** 保存済みセッションの概要 */
+export interface SessionInfo {
+  readonly id: string
+  /** 最終更新日時（ISO 8601） */
+  readonly updatedAt: string
+  readonly messageCount: number
+  /** 最初のユーザー入力の冒頭（一覧表示用） */
+  readonly preview: string
+}
+
+/**
+ * セッションストアインターフェース
+ *
+ * AgentLoop のメッセージ履歴をセッション ID 単位で永続化する。
+ */
+export interface SessionStore {
+  /** メッセージをセッション末尾に追記する（セッションが存在しなければ作成） */
+  append(id: string, messages: readonly Message[]): Promise<Result<void>>
+
+  /** セッション全体を指定のメッセージ列で置き換える */
+  save(id: string, messages: readonly Message[]): Promise<Result<void>>
+
+  /** セッションのメッセージ履歴を読み込む */
+  load(id: string): Promise<Result<Message[]>>
+
+  /** 保存済みセッションを更新日時の新しい順に返す */
+  list(): Promise<Result<SessionInfo[]>>
+}
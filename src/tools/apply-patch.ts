@@ -0,0 +1,258 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { BuiltinToolOptions, ToolDefinition, ToolResult, WorkspacePolicy } from './types.js'
+import { requireString } from './validate.js'
+import { parsePatch, applyHunks, formatHunkResult } from './patch.js'
+import type { FilePatch } from './patch.js'
+import { resolveToolPath } from './workspace.js'
+
+/** ファイルの変更前の状態（ロールバック用） */
+interface OriginalFile {
+  /** 変更前の内容（存在しなかった場合は undefined） */
+  readonly content: string | undefined
+  readonly mode: number | undefined
+}
+
+/** パッチ適用の計画（ファイルシステムに書き込む前にすべての変更をメモリ上で組み立てる） */
+interface PatchPlan {
+  /** 絶対パスごとの変更後の内容（null は削除） */
+  readonly changes: Map<string, string | null>
+  readonly originals: Map<string, OriginalFile>
+  /** 絶対パスごとの書き込み時のパーミッション（変更・リネーム元のファイルから引き継ぐ） */
+  readonly modes: Map<string, number>
+  /** 報告用の行 */
+  readonly report: string[]
+  failures: number
+}
+
+/** 変更の種類を表す 1 文字（git diff --name-status と同じ） */
+const KIND_LABELS: Record<FilePatch['kind'], string> = {
+  add: 'A',
+  delete: 'D',
+  modify: 'M',
+  rename: 'R',
+}
+
+/** ファイルの内容とパーミッションを読む（存在しなければ content は undefined） */
+async function readOriginal(resolved: string): Promise<OriginalFile> {
+  try {
+    const [content, stat] = await Promise.all([
+      fs.promises.readFile(resolved, 'utf-8'),
+      fs.promises.stat(resolved),
+    ])
+    return { content, mode: stat.mode }
+  } catch (e: unknown) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { content: undefined, mode: undefined }
+    }
+    throw e
+  }
+}
+
+/** 計画上の現在の内容を返す（同じファイルを複数回変更するパッチでは直前の変更を反映する） */
+async function currentContent(plan: PatchPlan, resolved: string): Promise<string | undefined> {
+  const changed = plan.changes.get(resolved)
+  if (changed !== undefined) return changed ?? undefined
+  let original = plan.originals.get(resolved)
+  if (!original) {
+    original = await readOriginal(resolved)
+    plan.originals.set(resolved, original)
+  }
+  return original.content
+}
+
+/** パッチのパスを解決する（/dev/null 側の undefined はそのまま返す） */
+async function resolvePatchPath(
+  workspace: WorkspacePolicy | undefined,
+  filePath: string | undefined,
+): Promise<{ value: string | undefined } | { error: ToolResult }> {
+  if (filePath === undefined) return { value: undefined }
+  return resolveToolPath(workspace, filePath)
+}
+
+/** 1 ファイル分のパッチを計画に追加する。失敗した場合は plan.failures を増やす */
+async function planFilePatch(
+  plan: PatchPlan,
+  filePatch: FilePatch,
+  workspace: WorkspacePolicy | undefined,
+): Promise<void> {
+  const { kind, oldPath, newPath, hunks } = filePatch
+  const label = kind === 'rename' ? `${oldPath ?? ''} -> ${newPath ?? ''}` : (newPath ?? oldPath)
+  plan.report.push(`${KIND_LABELS[kind]} ${label ?? ''}`)
+
+  const fail = (reason: string): void => {
+    plan.report.push(`  FAILED: ${reason}`)
+    plan.failures++
+  }
+
+  const sourceResult = await resolvePatchPath(workspace, oldPath)
+  if ('error' in sourceResult) {
+    fail(sourceResult.error.error ?? '')
+    return
+  }
+  const targetResult = await resolvePatchPath(workspace, newPath)
+  if ('error' in targetResult) {
+    fail(targetResult.error.error ?? '')
+    return
+  }
+  const source = sourceResult.value
+  const target = targetResult.value
+
+  let content = ''
+  if (source !== undefined) {
+    const current = await currentContent(plan, source)
+    if (current === undefined) {
+      fail('file does not exist')
+      return
+    }
+    content = current
+  }
+  if (target !== undefined && target !== source) {
+    if ((await currentContent(plan, target)) !== undefined) {
+      fail('file already exists')
+      return
+    }
+  }
+
+  if (hunks.length > 0) {
+    const applied = applyHunks(content, hunks)
+    for (const [index, hunk] of applied.hunks.entries()) {
+      plan.report.push(`  ${formatHunkResult(index, hunk)}`)
+    }
+    if (applied.content === undefined) {
+      plan.failures++
+      return
+    }
+    content = applied.content
+  }
+
+  // 削除のハンクはファイル全体を削除行として持つため、適用後に内容が残る場合は別の内容とみなす
+  if (kind === 'delete' && hunks.length > 0 && content !== '') {
+    fail('file has content not covered by the patch')
+    return
+  }
+
+  if (source !== undefined && source !== target) plan.changes.set(source, null)
+  if (target !== undefined) {
+    plan.changes.set(target, content)
+    const mode = source !== undefined ? plan.originals.get(source)?.mode : undefined
+    if (mode !== undefined) plan.modes.set(target, mode)
+  }
+}
+
+/**
+ * 計画した変更をファイルシステムに反映する
+ *
+ * 同じディレクトリの一時ファイルにすべて書き込んでから rename・削除する。
+ * 途中で失敗した場合は、反映済みのファイルを変更前の内容に戻す。
+ */
+async function commitPlan(plan: PatchPlan): Promise<void> {
+  const staged: { resolved: string; tmpPath: string }[] = []
+  const committed: string[] = []
+  try {
+    for (const [resolved, content] of plan.changes) {
+      if (content === null) continue
+      // 親ディレクトリを再帰的に作成
+      await fs.promises.mkdir(path.dirname(resolved), { recursive: true })
+      const tmpPath = `${resolved}.${String(process.pid)}.${String(Date.now())}.tmp`
+      staged.push({ resolved, tmpPath })
+      await fs.promises.writeFile(tmpPath, content, {
+        encoding: 'utf-8',
+        mode: plan.modes.get(resolved),
+      })
+    }
+    for (const { resolved, tmpPath } of staged) {
+      committed.push(resolved)
+      await fs.promises.rename(tmpPath, resolved)
+    }
+    for (const [resolved, content] of plan.changes) {
+      if (content !== null) continue
+      committed.push(resolved)
+      await fs.promises.rm(resolved)
+    }
+  } catch (e: unknown) {
+    await Promise.all(staged.map(({ tmpPath }) => fs.promises.rm(tmpPath, { force: true })))
+    for (const resolved of committed) {
+      const original = plan.originals.get(resolved)
+      if (original?.content === undefined) {
+        await fs.promises.rm(resolved, { force: true })
+      } else {
+        await fs.promises.writeFile(resolved, original.content, {
+          encoding: 'utf-8',
+          mode: original.mode,
+        })
+      }
+    }
+    throw e
+  }
+}
+
+/**
+ * apply_patch ツールを生成するファクトリ関数
+ *
+ * 複数ファイルの unified diff（追加・変更・削除・リネーム）を適用する。
+ * ハンクはヘッダーの位置からのずれや空白の違いを許容して適用し、1 件でも適用できない場合は
+ * どのファイルも変更しない。パスは write と同様に解決し（options.workspace を指定するとポリシーで検査する）、
+ * 親ディレクトリがなければ作成する。
+ */
+export function createApplyPatchTool(options: BuiltinToolOptions = {}): ToolDefinition {
+  return {
+    name: 'apply_patch',
+    description:
+      'Apply a unified diff (as produced by `git diff` or `diff -u`) that may add, modify, delete ' +
+      'or rename multiple files. Paths may carry a/ and b/ prefixes. If any hunk fails to apply, ' +
+      'no files are changed and the per-hunk results are reported.',
+    parameters: {
+      type: 'object',
+      properties: {
+        patch: {
+          type: 'string',
+          description: 'Unified diff text including ---/+++ file headers and @@ hunks',
+        },
+      },
+      required: ['patch'],
+    },
+    concurrencySafe: false,
+    async execute(args: Record<string, unknown>): Promise<ToolResult> {
+      const patchResult = requireString(args, 'patch')
+      if ('error' in patchResult) return patchResult.error
+
+      const parsed = parsePatch(patchResult.value)
+      if (!parsed.ok) {
+        return { ok: false, output: '', error: parsed.error }
+      }
+
+      const plan: PatchPlan = {
+        changes: new Map(),
+        originals: new Map(),
+        modes: new Map(),
+        report: [],
+        failures: 0,
+      }
+      try {
+        for (const filePatch of parsed.data) {
+          await planFilePatch(plan, filePatch, options.workspace)
+        }
+
+        if (plan.failures > 0) {
+          return {
+            ok: false,
+            output: ['Patch rejected; no files were changed:', ...plan.report].join('\n'),
+            error: `Patch rejected: ${String(plan.failures)} file(s) could not be patched; no files were changed`,
+          }
+        }
+
+        await commitPlan(plan)
+        return {
+          ok: true,
+          output: [`Applied patch to ${String(parsed.data.length)} file(s):`, ...plan.report].join(
+            '\n',
+          ),
+        }
+      } catch (e: unknown) {
+        const msg = e instanceof Error ? e.message : String(e)
+        return { ok: false, output: plan.report.join('\n'), error: msg }
+      }
+    },
+  }
+}
@@ -0,0 +1,224 @@
+import * as fs from 'node:fs'
+import type { BuiltinToolOptions, ToolDefinition, ToolResult } from './types.js'
+import { requireString, optionalBoolean } from './validate.js'
+import { resolveToolPath } from './workspace.js'
+
+/** 1 件の置換 */
+interface Replacement {
+  readonly oldString: string
+  readonly newString: string
+  readonly replaceAll: boolean
+}
+
+/** 置換の JSON Schema（edit と multi_edit の各要素で共通） */
+const REPLACEMENT_PROPERTIES = {
+  old_string: {
+    type: 'string',
+    description: 'Exact text to replace (must match the file content, including whitespace)',
+  },
+  new_string: {
+    type: 'string',
+    description: 'Text to replace it with (must differ from old_string)',
+  },
+  replace_all: {
+    type: 'boolean',
+    description: 'Replace every occurrence instead of requiring a unique match (default false)',
+  },
+} as const
+
+/** ツール引数から置換を取り出す（new_string は空文字列を許可する） */
+function parseReplacement(args: Record<string, unknown>): Replacement | { error: string } {
+  const oldResult = requireString(args, 'old_string')
+  if ('error' in oldResult) return { error: oldResult.error.error ?? '' }
+
+  const newString = args['new_string']
+  if (typeof newString !== 'string') {
+    return { error: "Parameter 'new_string' is required and must be a string" }
+  }
+  if (newString === oldResult.value) {
+    return { error: 'old_string and new_string must be different' }
+  }
+
+  const replaceAllResult = optionalBoolean(args, 'replace_all')
+  if ('error' in replaceAllResult) return { error: replaceAllResult.error.error ?? '' }
+
+  return {
+    oldString: oldResult.value,
+    newString,
+    replaceAll: replaceAllResult.value ?? false,
+  }
+}
+
+/**
+ * content に置換を適用する
+ *
+ * old_string が見つからない場合と、replace_all なしで複数箇所に一致する場合はエラーを返す。
+ * 置換は文字列の分割・連結で行う（String.replace の `$&` 等の特殊パターンを解釈しない）。
+ */
+function applyReplacement(
+  content: string,
+  replacement: Replacement,
+): { content: string; count: number } | { error: string } {
+  const pieces = content.split(replacement.oldString)
+  const count = pieces.length - 1
+  if (count === 0) {
+    return { error: 'old_string not found' }
+  }
+  if (count > 1 && !replacement.replaceAll) {
+    return {
+      error:
+        `old_string matches ${String(count)} locations; ` +
+        'include more surrounding context to make it unique, or set replace_all',
+    }
+  }
+  return { content: pieces.join(replacement.newString), count }
+}
+
+/**
+ * ファイルを読み込み、置換を順に適用して書き戻す
+ *
+ * いずれかの置換が失敗した場合はファイルを変更しない。書き込みは同じディレクトリの一時ファイルに
+ * 書いてから rename するため、途中で失敗しても元のファイルが壊れることはない。
+ */
+async function editFile(
+  resolved: string,
+  replacements: readonly Replacement[],
+  describeFailure: (index: number, error: string) => string,
+): Promise<ToolResult> {
+  try {
+    const original = await fs.promises.readFile(resolved, 'utf-8')
+
+    let content = original
+    let total = 0
+    for (const [index, replacement] of replacements.entries()) {
+      const applied = applyReplacement(content, replacement)
+      if ('error' in applied) {
+        return {
+          ok: false,
+          output: '',
+          error: `${describeFailure(index, applied.error)} in ${resolved}`,
+        }
+      }
+      content = applied.content
+      total += applied.count
+    }
+
+    const { mode } = await fs.promises.stat(resolved)
+    const tmpPath = `${resolved}.${String(process.pid)}.${String(Date.now())}.tmp`
+    try {
+      await fs.promises.writeFile(tmpPath, content, { encoding: 'utf-8', mode })
+      await fs.promises.rename(tmpPath, resolved)
+    } catch (e: unknown) {
+      await fs.promises.rm(tmpPath, { force: true })
+      throw e
+    }
+
+    return { ok: true, output: `Replaced ${String(total)} occurrence(s) in ${resolved}` }
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : String(e)
+    return { ok: false, output: '', error: msg }
+  }
+}
+
+/**
+ * edit ツールを生成するファクトリ関数
+ *
+ * ファイル内の一意な文字列を置換する。write と違いファイル全体を送り直す必要がないため、
+ * 大きなファイルの一部を変更するときのトークン消費と、無関係な行の欠落を防ぐ。
+ * options.workspace を指定するとパスをワークスペースポリシーで検査する。
+ */
+export function createEditTool(options: BuiltinToolOptions = {}): ToolDefinition {
+  return {
+    name: 'edit',
+    description:
+      'Replace an exact snippet in an existing file. old_string must match exactly one location ' +
+      'unless replace_all is true. Prefer this over write for changes to existing files.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Absolute or relative file path to edit' },
+        ...REPLACEMENT_PROPERTIES,
+      },
+      required: ['path', 'old_string', 'new_string'],
+    },
+    concurrencySafe: false,
+    async execute(args: Record<string, unknown>): Promise<ToolResult> {
+      const pathResult = requireString(args, 'path')
+      if ('error' in pathResult) return pathResult.error
+
+      const replacement = parseReplacement(args)
+      if ('error' in replacement) return { ok: false, output: '', error: replacement.error }
+
+      const resolved = await resolveToolPath(options.workspace, pathResult.value)
+      if ('error' in resolved) return resolved.error
+
+      return editFile(resolved.value, [replacement], (_, error) => error)
+    },
+  }
+}
+
+/**
+ * multi_edit ツールを生成するファクトリ関数
+ *
+ * 1 つのファイルに複数の置換を順に適用する。各置換は直前の置換を適用した内容に対して行い、
+ * 1 件でも失敗した場合はファイルを変更しない。
+ */
+export function createMultiEditTool(options: BuiltinToolOptions = {}): ToolDefinition {
+  return {
+    name: 'multi_edit',
+    description:
+      'Apply several exact-snippet replacements to one file in order. Each edit sees the result ' +
+      'of the previous ones. If any edit fails, the file is left unchanged.',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Absolute or relative file path to edit' },
+        edits: {
+          type: 'array',
+          description: 'Replacements to apply in order',
+          items: {
+            type: 'object',
+            properties: REPLACEMENT_PROPERTIES,
+            required: ['old_string', 'new_string'],
+          },
+        },
+      },
+      required: ['path', 'edits'],
+    },
+    concurrencySafe: false,
+    async execute(args: Record<string, unknown>): Promise<ToolResult> {
+      const pathResult = requireString(args, 'path')
+      if ('error' in pathResult) return pathResult.error
+
+      const edits = args['edits']
+      if (!Array.isArray(edits) || edits.length === 0) {
+        return {
+          ok: false,
+          output: '',
+          error: "Parameter 'edits' is required and must be a non-empty array",
+        }
+      }
+
+      const replacements: Replacement[] = []
+      for (const [index, edit] of edits.entries()) {
+        const replacement =
+          typeof edit === 'object' && edit !== null
+            ? parseReplacement(edit as Record<string, unknown>)
+            : { error: 'must be an object' }
+        if ('error' in replacement) {
+          return { ok: false, output: '', error: `Edit ${String(index + 1)}: ${replacement.error}` }
+        }
+        replacements.push(replacement)
+      }
+
+      const resolved = await resolveToolPath(options.workspace, pathResult.value)
+      if ('error' in resolved) return resolved.error
+
+      return editFile(
+        resolved.value,
+        replacements,
+        (index, error) => `Edit ${String(index + 1)}: ${error}`,
+      )
+    },
+  }
+}
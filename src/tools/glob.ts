@@ -0,0 +1,25 @@
+/**
+ * glob パターンを正規表現に変換する
+ *
+ * grep の glob フィルタとワークスペースの拒否パターンが使う。
+ * LLM が渡す glob は呼び出し側（grep）で長さをチェックする。
+ * 変換処理は全メタ文字をエスケープした上で `*`, `?`, `**` のみを
+ * 限定的な正規表現パーツに置換するため、生成される正規表現は
+ * catastrophic backtracking を引き起こすパターンにはならない。
+ *
+ * サポートするワイルドカード:
+ * - `**` → 任意のパス（`.*`）
+ * - `*`  → ディレクトリ区切り以外の任意文字列
+ * - `?`  → ディレクトリ区切り以外の任意1文字
+ */
+export function globToRegex(glob: string): RegExp {
+  // Step 1: 全メタ文字をエスケープ（*, ? 以外の正規表現特殊文字を無害化）
+  const escaped = glob
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*/g, '\0GLOBSTAR\0')
+    .replace(/\*/g, '[^/\\\\]*')
+    .replace(/\?/g, '[^/\\\\]')
+    .replace(/\0GLOBSTAR\0/g, '.*')
+  // nosemgrep: detect-non-literal-regexp -- glob は長さ制限 + エスケープ済みで安全
+  return new RegExp(`^${escaped}$`)
+}
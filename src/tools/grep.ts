@@ -1,7 +1,9 @@
 import * as fs from 'node:fs'
 import * as path from 'node:path'
-import type { ToolDefinition, ToolResult } from './types.js'
+import type { BuiltinToolOptions, ToolDefinition, ToolResult } from './types.js'
 import { requireString, optionalString } from './validate.js'
+import { globToRegex } from './glob.js'
+import { resolveToolPath } from './workspace.js'
 
 /** grep 出力の最大行数 */
 const MAX_RESULTS = 1000
@@ -15,31 +17,6 @@ const MAX_PATTERN_LENGTH = 1000
 /** glob パターンの最大長（ReDoS 緩和策） */
 const MAX_GLOB_LENGTH = 500
 
-/**
- * glob パターンを正規表現に変換する
- *
- * 入力は globToRegex 呼び出し前に長さチェック済み。
- * 変換処理は全メタ文字をエスケープした上で `*`, `?`, `**` のみを
- * 限定的な正規表現パーツに置換するため、生成される正規表現は
- * catastrophic backtracking を引き起こすパターンにはならない。
- *
- * サポートするワイルドカード:
- * - `**` → 任意のパス（`.*`）
- * - `*`  → ディレクトリ区切り以外の任意文字列
- * - `?`  → ディレクトリ区切り以外の任意1文字
- */
-function globToRegex(glob: string): RegExp {
-  // Step 1: 全メタ文字をエスケープ（*, ? 以外の正規表現特殊文字を無害化）
-  const escaped = glob
-    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
-    .replace(/\*\*/g, '\0GLOBSTAR\0')
-    .replace(/\*/g, '[^/\\\\]*')
-    .replace(/\?/g, '[^/\\\\]')
-    .replace(/\0GLOBSTAR\0/g, '.*')
-  // nosemgrep: detect-non-literal-regexp -- glob は長さ制限 + エスケープ済みで安全
-  return new RegExp(`^${escaped}$`)
-}
-
 /**
  * ファイルがバイナリかどうかを判定する
  *
@@ -148,8 +125,12 @@ function getDirentParentPath(entry: fs.Dirent, fallback: string): string {
   return fallback
 }
 
-/** grep ビルトインツールを生成する */
-export function createGrepTool(): ToolDefinition {
+/**
+ * grep ビルトインツールを生成する
+ *
+ * options.workspace を指定すると検索パスを検査し、ディレクトリ検索では拒否パターンに一致するファイルを除く。
+ */
+export function createGrepTool(options: BuiltinToolOptions = {}): ToolDefinition {
   return {
     name: 'grep',
     description:
@@ -172,6 +153,7 @@ export function createGrepTool(): ToolDefinition {
       },
       required: ['pattern', 'path'],
     },
+    concurrencySafe: true,
     async execute(args: Record<string, unknown>): Promise<ToolResult> {
       // --- validate pattern ---
       const patternResult = requireString(args, 'pattern')
@@ -189,7 +171,9 @@ export function createGrepTool(): ToolDefinition {
       if (!isRegExp(regexOrError)) return regexOrError
       const regex = regexOrError
 
-      const resolvedPath = path.resolve(pathResult.value)
+      const resolved = await resolveToolPath(options.workspace, pathResult.value)
+      if ('error' in resolved) return resolved.error
+      const resolvedPath = resolved.value
 
       try {
         const stat = await fs.promises.stat(resolvedPath)
@@ -229,6 +213,9 @@ export function createGrepTool(): ToolDefinition {
             const parentDir = getDirentParentPath(entry, resolvedPath)
             const fullPath = path.join(parentDir, entry.name)
 
+            // ワークスペースの拒否パターンに一致するファイル（.env 等）は検索しない
+            if (options.workspace?.isDenied(fullPath) === true) continue
+
             await searchFile(fullPath, regex, results, resolvedPath)
 
             if (results.length >= MAX_RESULTS) break
@@ -0,0 +1,378 @@
+/**
+ * unified diff のパースと適用
+ *
+ * apply_patch ツールが使う純粋関数群。ファイルシステムには触れない。
+ * LLM が出力する diff はハンクヘッダーの行数や文脈行の空白が崩れていることが多いため、
+ * ヘッダーの行数は使わず、文脈行を位置・空白・前後の文脈行数をゆるめながら探索して適用する。
+ */
+import type { Result } from '../result.js'
+import { ok, err } from '../result.js'
+
+/** ハンク内の 1 行 */
+export interface HunkLine {
+  /** ' ': 文脈行 / '-': 削除行 / '+': 追加行 */
+  readonly op: ' ' | '-' | '+'
+  readonly text: string
+}
+
+/** 1 つのハンク（`@@ -a,b +c,d @@` から次のハンクまで） */
+export interface PatchHunk {
+  /** `@@ ... @@` ヘッダー行（報告用） */
+  readonly header: string
+  /** 変更前の開始行（1 始まり。ヘッダーで 0 の場合はファイル先頭への挿入） */
+  readonly oldStart: number
+  readonly lines: readonly HunkLine[]
+  /** 変更前の末尾に改行がない（`\ No newline at end of file` が文脈行・削除行の後にある） */
+  readonly oldNoNewline: boolean
+  /** 変更後の末尾に改行がない（`\ No newline at end of file` が文脈行・追加行の後にある） */
+  readonly newNoNewline: boolean
+}
+
+/**
+ * 1 ファイル分のパッチ
+ *
+ * - add: `--- /dev/null` から新規作成（newPath のみ）
+ * - delete: `+++ /dev/null` で削除（oldPath のみ）
+ * - modify: 同じパスの変更
+ * - rename: oldPath から newPath への移動（ハンクがあれば内容も変更する）
+ */
+export interface FilePatch {
+  readonly kind: 'add' | 'delete' | 'modify' | 'rename'
+  readonly oldPath?: string
+  readonly newPath?: string
+  readonly hunks: readonly PatchHunk[]
+}
+
+/** ハンクの適用結果 */
+export interface HunkResult {
+  readonly header: string
+  /** 適用できたか（false の場合は文脈行が見つからなかった） */
+  readonly applied: boolean
+  /** 適用した位置（変更後のファイルでの 1 始まりの行番号） */
+  readonly line?: number
+  /** ヘッダーの位置からのずれ（行数） */
+  readonly offset?: number
+  /** 無視した前後の文脈行の数 */
+  readonly fuzz?: number
+  /** 空白の違いを無視して一致させたか */
+  readonly ignoredWhitespace?: boolean
+}
+
+/** ファイル内容へのハンク適用結果 */
+export interface ApplyHunksResult {
+  /** 全ハンクを適用できた場合の新しい内容（1 件でも失敗した場合は undefined） */
+  readonly content: string | undefined
+  readonly hunks: readonly HunkResult[]
+}
+
+/** 文脈行を無視してよい最大行数（前後それぞれ） */
+const MAX_FUZZ = 2
+
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/
+
+/** 行の比較方法（厳密 → 行末の空白を無視 → 前後の空白を無視 の順に試す） */
+const LINE_NORMALIZERS: readonly ((line: string) => string)[] = [
+  (line) => line,
+  (line) => line.trimEnd(),
+  (line) => line.trim(),
+]
+
+/** `--- ` / `+++ ` 行からパスを取り出す（タブ以降のタイムスタンプは除く） */
+function parseHeaderPath(line: string): string {
+  const value = line.slice(4)
+  const tab = value.indexOf('\t')
+  return (tab === -1 ? value : value.slice(0, tab)).trim()
+}
+
+/** git 形式の `a/` / `b/` プレフィックスを除く */
+function stripPrefix(filePath: string, prefix: 'a/' | 'b/'): string {
+  return filePath.startsWith(prefix) ? filePath.slice(prefix.length) : filePath
+}
+
+/** `diff --git a/x b/y` 行から変更前後のパスを取り出す（空白を含むパスは扱わない） */
+function parseGitHeader(line: string): { oldPath: string; newPath: string } | undefined {
+  const match = /^diff --git (\S+) (\S+)$/.exec(line)
+  if (!match) return undefined
+  return {
+    oldPath: stripPrefix(match[1] ?? '', 'a/'),
+    newPath: stripPrefix(match[2] ?? '', 'b/'),
+  }
+}
+
+/** ハンク本文の行か（空行は末尾の空白が落ちた文脈行として扱う） */
+function isHunkBodyLine(line: string): boolean {
+  return line === '' || line[0] === ' ' || line[0] === '-' || line[0] === '+' || line[0] === '\\'
+}
+
+/** 行の先頭から次のファイルの開始（`diff --git` または `--- ` と `+++ ` の組）か */
+function isFileStart(lines: readonly string[], index: number): boolean {
+  const line = lines[index] ?? ''
+  if (line.startsWith('diff --git ')) return true
+  return line.startsWith('--- ') && (lines[index + 1] ?? '').startsWith('+++ ')
+}
+
+/**
+ * unified diff テキストをファイルごとのパッチにパースする
+ *
+ * git の拡張ヘッダー（`new file mode` / `deleted file mode` / `rename from` / `rename to`）と
+ * `--- /dev/null` / `+++ /dev/null` で追加・削除・リネームを判別する。
+ * `a/` / `b/` プレフィックスは除く。
+ */
+export function parsePatch(text: string): Result<FilePatch[]> {
+  const lines = text.replace(/\r\n/g, '\n').split('\n')
+  const patches: FilePatch[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    if (!isFileStart(lines, i)) {
+      i++
+      continue
+    }
+
+    let oldPath: string | undefined
+    let newPath: string | undefined
+    let kind: FilePatch['kind'] | undefined
+
+    // git の拡張ヘッダー
+    const git = parseGitHeader(lines[i] ?? '')
+    if (git) {
+      oldPath = git.oldPath
+      newPath = git.newPath
+      i++
+      while (i < lines.length && !isFileStart(lines, i) && !(lines[i] ?? '').startsWith('@@')) {
+        const line = lines[i] ?? ''
+        if (line.startsWith('new file mode')) kind = 'add'
+        else if (line.startsWith('deleted file mode')) kind = 'delete'
+        else if (line.startsWith('rename from ')) oldPath = line.slice('rename from '.length)
+        else if (line.startsWith('rename to ')) newPath = line.slice('rename to '.length)
+        i++
+      }
+    }
+
+    // --- / +++ ヘッダー（git のリネームのみ・モード変更のみの場合は省略される）
+    if ((lines[i] ?? '').startsWith('--- ') && (lines[i + 1] ?? '').startsWith('+++ ')) {
+      const from = parseHeaderPath(lines[i] ?? '')
+      const to = parseHeaderPath(lines[i + 1] ?? '')
+      if (from === '/dev/null') {
+        kind = 'add'
+        oldPath = undefined
+      } else {
+        oldPath = stripPrefix(from, 'a/')
+      }
+      if (to === '/dev/null') {
+        kind = 'delete'
+        newPath = undefined
+      } else {
+        newPath = stripPrefix(to, 'b/')
+      }
+      i += 2
+    }
+
+    // ハンク
+    const hunks: PatchHunk[] = []
+    while (i < lines.length && (lines[i] ?? '').startsWith('@@')) {
+      const header = lines[i] ?? ''
+      const match = HUNK_HEADER_PATTERN.exec(header)
+      if (!match) {
+        return err(`Invalid hunk header: ${header}`)
+      }
+      i++
+
+      const body: HunkLine[] = []
+      let oldNoNewline = false
+      let newNoNewline = false
+      let trailingBlank = 0
+      while (i < lines.length && isHunkBodyLine(lines[i] ?? '') && !isFileStart(lines, i)) {
+        const line = lines[i] ?? ''
+        if (line.startsWith('\\')) {
+          // `\ No newline at end of file` は直前の行に掛かる
+          const last = body[body.length - 1]
+          if (last?.op !== '+') oldNoNewline = true
+          if (last?.op !== '-') newNoNewline = true
+        } else if (line === '') {
+          body.push({ op: ' ', text: '' })
+        } else {
+          body.push({ op: line[0] as HunkLine['op'], text: line.slice(1) })
+        }
+        trailingBlank = line === '' ? trailingBlank + 1 : 0
+        i++
+      }
+      // ハンク末尾の空行はファイル間の区切りやパッチ末尾の改行とみなし、文脈行に含めない
+      body.splice(body.length - trailingBlank)
+      if (!body.some((l) => l.op !== ' ')) {
+        return err(`Hunk has no changes: ${header}`)
+      }
+      hunks.push({ header, oldStart: Number(match[1]), lines: body, oldNoNewline, newNoNewline })
+    }
+
+    const resolvedKind =
+      kind ??
+      (oldPath !== undefined && newPath !== undefined && oldPath !== newPath ? 'rename' : 'modify')
+    const label = newPath ?? oldPath ?? '(unknown)'
+    if (resolvedKind === 'add' && newPath === undefined) {
+      return err('Missing target path for added file')
+    }
+    if (resolvedKind !== 'add' && oldPath === undefined) {
+      return err(`Missing source path for ${label}`)
+    }
+    if ((resolvedKind === 'modify' || resolvedKind === 'add') && hunks.length === 0) {
+      return err(`No hunks for ${label}`)
+    }
+    patches.push({
+      kind: resolvedKind,
+      ...(resolvedKind !== 'add' && oldPath !== undefined ? { oldPath } : {}),
+      ...(resolvedKind !== 'delete' && newPath !== undefined ? { newPath } : {}),
+      hunks,
+    })
+  }
+
+  if (patches.length === 0) {
+    return err('No file changes found in patch')
+  }
+  return ok(patches)
+}
+
+/**
+ * fileLines の from 以降で、expected に最も近い位置で pattern と一致する行を探す
+ *
+ * 見つからなければ -1 を返す。
+ */
+function findNearest(
+  fileLines: readonly string[],
+  pattern: readonly string[],
+  from: number,
+  expected: number,
+  normalize: (line: string) => string,
+): number {
+  const target = pattern.map(normalize)
+  let best = -1
+  for (let start = from; start + target.length <= fileLines.length; start++) {
+    let matched = true
+    for (let k = 0; k < target.length; k++) {
+      if (normalize(fileLines[start + k] ?? '') !== target[k]) {
+        matched = false
+        break
+      }
+    }
+    if (matched && (best === -1 || Math.abs(start - expected) < Math.abs(best - expected))) {
+      best = start
+    }
+  }
+  return best
+}
+
+/** 先頭・末尾の連続する文脈行の数 */
+function countContext(lines: readonly HunkLine[]): { leading: number; trailing: number } {
+  let leading = 0
+  while (leading < lines.length && lines[leading]?.op === ' ') leading++
+  let trailing = 0
+  while (trailing < lines.length - leading && lines[lines.length - 1 - trailing]?.op === ' ') {
+    trailing++
+  }
+  return { leading, trailing }
+}
+
+/**
+ * ファイル内容にハンクを順に適用する
+ *
+ * 各ハンクは直前のハンクの後ろで、ヘッダーの位置（それまでのずれを加味）に最も近い一致箇所に適用する。
+ * 一致しない場合は空白の違いを無視し、さらに前後の文脈行を最大 MAX_FUZZ 行まで無視して探す。
+ * 無視した結果、照合する行（文脈行・削除行）が残らない場合は位置を決められないため失敗とする。
+ * 改行コード（LF / CRLF）は元の内容に合わせる。
+ */
+export function applyHunks(content: string, hunks: readonly PatchHunk[]): ApplyHunksResult {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n'
+  let endsWithNewline = content === '' || content.endsWith('\n')
+  const fileLines = content === '' ? [] : content.replace(/\r?\n$/, '').split(/\r?\n/)
+
+  const results: HunkResult[] = []
+  let failed = false
+  let from = 0
+  let delta = 0
+
+  for (const hunk of hunks) {
+    const { leading, trailing } = countContext(hunk.lines)
+    // `-N,0` の挿入のみのハンクは N 行目の後ろ、それ以外は N 行目から
+    const insertion = hunk.lines.every((l) => l.op === '+')
+    const expected = Math.max(0, (insertion ? hunk.oldStart : hunk.oldStart - 1) + delta)
+    let applied: HunkResult | undefined
+
+    search: for (let fuzz = 0; fuzz <= MAX_FUZZ; fuzz++) {
+      const skipHead = Math.min(fuzz, leading)
+      const skipTail = Math.min(fuzz, trailing)
+      if (fuzz > 0 && skipHead === 0 && skipTail === 0) break
+      const lines = hunk.lines.slice(skipHead, hunk.lines.length - skipTail)
+      const before = lines.filter((l) => l.op !== '+').map((l) => l.text)
+      if (fuzz > 0 && before.length === 0) break
+
+      for (const [level, normalize] of LINE_NORMALIZERS.entries()) {
+        const start = insertion
+          ? Math.min(Math.max(from, expected), fileLines.length)
+          : findNearest(fileLines, before, from, expected + skipHead, normalize)
+        if (start === -1) continue
+
+        // 空白を無視して一致させた場合も、文脈行はファイル側の行をそのまま残す
+        const after: string[] = []
+        let cursor = start
+        for (const line of lines) {
+          if (line.op === '+') {
+            after.push(line.text)
+            continue
+          }
+          if (line.op === ' ') after.push(fileLines[cursor] ?? line.text)
+          cursor++
+        }
+
+        const reachesEnd = start + before.length === fileLines.length
+        fileLines.splice(start, before.length, ...after)
+        if (reachesEnd && hunk.newNoNewline) endsWithNewline = false
+        else if (reachesEnd && hunk.oldNoNewline) endsWithNewline = true
+
+        const offset = start - skipHead - expected
+        applied = {
+          header: hunk.header,
+          applied: true,
+          line: start - skipHead + 1,
+          ...(offset !== 0 ? { offset } : {}),
+          ...(fuzz > 0 ? { fuzz } : {}),
+          ...(level > 0 ? { ignoredWhitespace: true } : {}),
+        }
+        from = start + after.length
+        delta += after.length - before.length + (start - skipHead - expected)
+        break search
+      }
+    }
+
+    if (applied) {
+      results.push(applied)
+    } else {
+      failed = true
+      results.push({ header: hunk.header, applied: false })
+    }
+  }
+
+  if (failed) {
+    return { content: undefined, hunks: results }
+  }
+  const joined = fileLines.join(eol)
+  return {
+    content: fileLines.length > 0 && endsWithNewline ? joined + eol : joined,
+    hunks: results,
+  }
+}
+
+/** ハンクの適用結果を 1 行で表す */
+export function formatHunkResult(index: number, result: HunkResult): string {
+  const label = `Hunk ${String(index + 1)} ${result.header}`
+  if (!result.applied) {
+    return `${label}: FAILED (context not found)`
+  }
+  const notes: string[] = []
+  if (result.offset !== undefined) {
+    notes.push(`offset ${result.offset > 0 ? '+' : ''}${String(result.offset)}`)
+  }
+  if (result.fuzz !== undefined) notes.push(`fuzz ${String(result.fuzz)}`)
+  if (result.ignoredWhitespace) notes.push('whitespace ignored')
+  const suffix = notes.length > 0 ? ` (${notes.join(', ')})` : ''
+  return `${label}: applied at line ${String(result.line ?? 0)}${suffix}`
+}
@@ -1,14 +1,55 @@
 import * as fs from 'node:fs'
 import * as path from 'node:path'
-import type { ToolDefinition, ToolResult } from './types.js'
+import type { BuiltinToolOptions, ToolDefinition, ToolResult } from './types.js'
 import { requireString } from './validate.js'
 import { optionalNumber } from './validate.js'
+import { resolveToolPath } from './workspace.js'
 
-/** read ビルトインツールを生成する */
-export function createReadTool(): ToolDefinition {
+/** 画像として読み込む拡張子と MIME タイプ */
+const IMAGE_MIME_TYPES: ReadonlyMap<string, string> = new Map([
+  ['.png', 'image/png'],
+  ['.jpg', 'image/jpeg'],
+  ['.jpeg', 'image/jpeg'],
+  ['.gif', 'image/gif'],
+  ['.webp', 'image/webp'],
+])
+
+/** 画像ファイルの最大サイズ（主要プロバイダーの上限に合わせる） */
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024
+
+/** 画像ファイルを読み込み、LLM に渡す image パートを含む ToolResult を返す */
+async function readImage(
+  resolvedPath: string,
+  mimeType: string,
+  size: number,
+): Promise<ToolResult> {
+  if (size > MAX_IMAGE_BYTES) {
+    return {
+      ok: false,
+      output: '',
+      error: `Image file too large: ${resolvedPath} (${String(size)} bytes, max ${String(MAX_IMAGE_BYTES)})`,
+    }
+  }
+
+  const data = await fs.promises.readFile(resolvedPath)
+  const output = `Image file: ${resolvedPath} (${mimeType}, ${String(size)} bytes)`
+  return {
+    ok: true,
+    output,
+    parts: [
+      { type: 'text', text: output },
+      { type: 'image', mimeType, data: data.toString('base64') },
+    ],
+  }
+}
+
+/** read ビルトインツールを生成する（options.workspace を指定するとパスを検査する） */
+export function createReadTool(options: BuiltinToolOptions = {}): ToolDefinition {
   return {
     name: 'read',
-    description: 'Read the contents of a file. Supports offset (1-based line number) and limit.',
+    description:
+      'Read the contents of a file. Supports offset (1-based line number) and limit. ' +
+      'Image files (png, jpg, gif, webp) are returned as images.',
     parameters: {
       type: 'object',
       properties: {
@@ -21,6 +62,7 @@ export function createReadTool(): ToolDefinition {
       },
       required: ['path'],
     },
+    concurrencySafe: true,
     async execute(args: Record<string, unknown>): Promise<ToolResult> {
       // --- validate path ---
       const pathResult = requireString(args, 'path')
@@ -34,7 +76,10 @@ export function createReadTool(): ToolDefinition {
       const limitResult = optionalNumber(args, 'limit', 1)
       if ('error' in limitResult) return limitResult.error
 
-      const resolvedPath = path.resolve(pathResult.value)
+      const resolved = await resolveToolPath(options.workspace, pathResult.value)
+      if ('error' in resolved) return resolved.error
+
+      const resolvedPath = resolved.value
       const offset = offsetResult.value
       const limit = limitResult.value
 
@@ -49,6 +94,11 @@ export function createReadTool(): ToolDefinition {
           }
         }
 
+        const imageMimeType = IMAGE_MIME_TYPES.get(path.extname(resolvedPath).toLowerCase())
+        if (imageMimeType !== undefined) {
+          return await readImage(resolvedPath, imageMimeType, stat.size)
+        }
+
         const content = await fs.promises.readFile(resolvedPath, 'utf-8')
 
         if (content.length === 0) {
@@ -0,0 +1,499 @@
+/**
+ * shell コマンドポリシー
+ *
+ * コマンド文字列を POSIX sh の文法の範囲でパースし（実行はしない）、パイプライン・`&&` / `||` / `;` で
+ * 連結された各コマンドとコマンド置換の中身を allow / deny ルールと危険なコマンドの検出にかける。
+ * パースは判定のためのもので、sh と完全に同じ解釈をするわけではない。
+ */
+import type { ShellPolicyConfig } from '../loader/types.js'
+import type { ShellCommandDecision, ShellPolicy } from './types.js'
+
+/** timeout 引数・設定を省略したときのタイムアウト（ミリ秒） */
+export const DEFAULT_SHELL_TIMEOUT_MS = 120_000
+
+/** 判定する最大コマンド数（sh -c / eval の入れ子の暴走対策。超えた呼び出しは deny） */
+const MAX_EVALUATED_COMMANDS = 256
+
+/** リダイレクト（`>`, `>>`, `<`, `2>&1` 等） */
+export interface ShellRedirect {
+  readonly op: string
+  readonly target: string
+}
+
+/** 単純コマンド（パイプライン・連結の 1 要素） */
+export interface ShellSimpleCommand {
+  /** 引用符・エスケープを外した引数（先頭の変数代入 `FOO=bar` は含まない） */
+  readonly argv: readonly string[]
+  readonly redirects: readonly ShellRedirect[]
+  /** パイプから標準入力を受け取るか */
+  readonly piped: boolean
+}
+
+/** パース結果 */
+export interface ParsedShellCommand {
+  /** コマンド（コマンド置換・プロセス置換の中身を含む） */
+  readonly commands: readonly ShellSimpleCommand[]
+  /** パースできなかった箇所（閉じていない引用符・括弧） */
+  readonly errors: readonly string[]
+}
+
+/** 先頭の変数代入（`FOO=bar`） */
+const ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/
+
+/** コマンドの先頭にあっても実行するコマンドではない予約語 */
+const SKIPPED_KEYWORDS = new Set([
+  '!',
+  '{',
+  '}',
+  'if',
+  'then',
+  'else',
+  'elif',
+  'fi',
+  'while',
+  'until',
+  'do',
+  'done',
+])
+
+/** リダイレクト演算子（長いものから照合する） */
+const REDIRECT_OPERATOR = /^(<<<|<<-|<<|<>|<&|>>|>&|>\||<|>)/
+
+/** start（開き括弧の直後）に対応する閉じ括弧の位置を返す（見つからなければ -1） */
+function findClosingParen(source: string, start: number): number {
+  let depth = 1
+  for (let i = start; i < source.length; i++) {
+    const c = source[i]
+    if (c === '\\') {
+      i++
+    } else if (c === "'") {
+      const end = source.indexOf("'", i + 1)
+      if (end < 0) return -1
+      i = end
+    } else if (c === '"') {
+      for (i++; i < source.length && source[i] !== '"'; i++) {
+        if (source[i] === '\\') i++
+      }
+    } else if (c === '(') {
+      depth++
+    } else if (c === ')') {
+      depth--
+      if (depth === 0) return i
+    }
+  }
+  return -1
+}
+
+/** start（開きバッククォートの直後）に対応する閉じバッククォートの位置を返す（見つからなければ -1） */
+function findClosingBacktick(source: string, start: number): number {
+  for (let i = start; i < source.length; i++) {
+    if (source[i] === '\\') i++
+    else if (source[i] === '`') return i
+  }
+  return -1
+}
+
+/** source をパースし、コマンドとエラーを追加する（コマンド置換の中身は再帰的にパースする） */
+function parseInto(source: string, commands: ShellSimpleCommand[], errors: string[]): void {
+  let i = 0
+  let argv: string[] = []
+  let redirects: ShellRedirect[] = []
+  let word: string | undefined
+  let piped = false
+  let pendingRedirect: string | undefined
+  let heredocs: string[] = []
+
+  function endWord(): void {
+    if (word === undefined) return
+    if (pendingRedirect !== undefined) {
+      redirects.push({ op: pendingRedirect, target: word })
+      if (pendingRedirect.startsWith('<<') && pendingRedirect !== '<<<') heredocs.push(word)
+      pendingRedirect = undefined
+    } else if (argv.length === 0 && (ASSIGNMENT.test(word) || SKIPPED_KEYWORDS.has(word))) {
+      // 先頭の変数代入・予約語は argv に含めない
+    } else {
+      argv.push(word)
+    }
+    word = undefined
+  }
+
+  function endCommand(nextPiped: boolean): void {
+    endWord()
+    if (argv.length > 0 || redirects.length > 0) {
+      commands.push({ argv, redirects, piped })
+    }
+    argv = []
+    redirects = []
+    piped = nextPiped
+    pendingRedirect = undefined
+  }
+
+  /** ヒアドキュメントの本文（次の行から区切り文字の行まで）を読み飛ばす */
+  function skipHeredocs(): void {
+    for (const delimiter of heredocs) {
+      while (i < source.length) {
+        const lineEnd = source.indexOf('\n', i)
+        const end = lineEnd < 0 ? source.length : lineEnd
+        const line = source.slice(i, end)
+        i = end + 1
+        if (line.replace(/^\t+/, '') === delimiter) break
+      }
+    }
+    heredocs = []
+  }
+
+  /** i 位置の `$(` / `` ` `` / `<(` / `>(` を読み、中身をパースして元の表記を返す */
+  function readSubstitution(): string {
+    const start = i
+    if (source[i] === '`') {
+      const end = findClosingBacktick(source, i + 1)
+      const close = end < 0 ? source.length : end
+      if (end < 0) errors.push('unterminated backquote')
+      parseInto(source.slice(i + 1, close).replace(/\\`/g, '`'), commands, errors)
+      i = close + 1
+      return source.slice(start, i)
+    }
+    // $((...)) は算術式のためコマンドとしてパースしない
+    const arithmetic = source[i] === '$' && source[i + 2] === '('
+    const end = findClosingParen(source, i + 2)
+    const close = end < 0 ? source.length : end
+    if (end < 0) errors.push('unterminated command substitution')
+    if (!arithmetic) parseInto(source.slice(i + 2, close), commands, errors)
+    i = close + 1
+    return source.slice(start, i)
+  }
+
+  /** i 位置（開き `"` の直後）から二重引用符の中身を読む */
+  function readDoubleQuoted(): string {
+    let text = ''
+    while (i < source.length && source[i] !== '"') {
+      const c = source[i] ?? ''
+      const next = source[i + 1] ?? ''
+      if (c === '\\' && '$`"\\\n'.includes(next)) {
+        text += next === '\n' ? '' : next
+        i += 2
+      } else if ((c === '$' && next === '(') || c === '`') {
+        text += readSubstitution()
+      } else {
+        text += c
+        i++
+      }
+    }
+    if (i >= source.length) errors.push('unterminated double quote')
+    i++
+    return text
+  }
+
+  while (i < source.length) {
+    const c = source[i] ?? ''
+    const next = source[i + 1] ?? ''
+
+    if (c === '\\') {
+      if (next !== '\n') word = (word ?? '') + next
+      i += 2
+    } else if (c === "'") {
+      const end = source.indexOf("'", i + 1)
+      const close = end < 0 ? source.length : end
+      if (end < 0) errors.push('unterminated single quote')
+      word = (word ?? '') + source.slice(i + 1, close)
+      i = close + 1
+    } else if (c === '"') {
+      i++
+      word = (word ?? '') + readDoubleQuoted()
+    } else if (
+      (c === '$' && next === '(') ||
+      c === '`' ||
+      ((c === '<' || c === '>') && next === '(')
+    ) {
+      word = (word ?? '') + readSubstitution()
+    } else if (c === '#' && word === undefined) {
+      const end = source.indexOf('\n', i)
+      i = end < 0 ? source.length : end
+    } else if (c === ' ' || c === '\t') {
+      endWord()
+      i++
+    } else if (c === '\n') {
+      endCommand(false)
+      i++
+      skipHeredocs()
+    } else if (c === '|') {
+      endCommand(next !== '|')
+      i += next === '|' || next === '&' ? 2 : 1
+    } else if (c === '&' && next === '>') {
+      endWord()
+      const op = source[i + 2] === '>' ? '&>>' : '&>'
+      pendingRedirect = op
+      i += op.length
+    } else if (c === '&' || c === ';') {
+      endCommand(false)
+      i += next === c ? 2 : 1
+    } else if (c === '(' || c === ')') {
+      endCommand(false)
+      i++
+    } else if (c === '<' || c === '>') {
+      // `2>` のようなファイル記述子の番号は引数ではない
+      if (word !== undefined && /^\d+$/.test(word)) word = undefined
+      endWord()
+      const op = REDIRECT_OPERATOR.exec(source.slice(i))?.[0] ?? c
+      pendingRedirect = op
+      i += op.length
+    } else {
+      word = (word ?? '') + c
+      i++
+    }
+  }
+  endCommand(false)
+}
+
+/**
+ * コマンド文字列をパースする（実行はしない）
+ *
+ * パイプライン・`&&` / `||` / `;` / `&` / 改行で区切られた単純コマンドに分け、
+ * 引用符・エスケープを外した引数とリダイレクトを返す。コマンド置換（`$(...)` / バッククォート）と
+ * プロセス置換（`<(...)`）の中身も 1 つのコマンドとして含める。
+ */
+export function parseShellCommand(command: string): ParsedShellCommand {
+  const commands: ShellSimpleCommand[] = []
+  const errors: string[] = []
+  parseInto(command, commands, errors)
+  return { commands, errors }
+}
+
+/** 別のコマンドを引数に取って実行するラッパー → 値を取るオプション */
+const WRAPPERS: ReadonlyMap<string, readonly string[]> = new Map([
+  ['sudo', ['-u', '-g', '-C', '-D', '-h', '-p', '-U']],
+  ['doas', ['-u', '-C']],
+  ['env', ['-u', '-C', '-S']],
+  ['nice', ['-n']],
+  ['ionice', ['-c', '-n']],
+  ['nohup', []],
+  ['time', []],
+  ['command', []],
+  ['exec', ['-a']],
+  ['xargs', ['-I', '-n', '-P', '-d', '-L', '-s', '-E', '-a']],
+  ['timeout', ['-s', '-k', '--signal', '--kill-after']],
+  ['stdbuf', ['-i', '-o', '-e']],
+])
+
+/** sh -c の中身をコマンドとして扱うシェル */
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'ash', 'fish'])
+
+/** パスを除いたコマンド名 */
+function commandName(argv: readonly string[]): string {
+  const first = argv[0] ?? ''
+  return first.slice(first.lastIndexOf('/') + 1)
+}
+
+/**
+ * ラッパー（sudo, env, xargs 等）を外したコマンドを返す（外側から順に、元のコマンドを含む）
+ */
+function unwrapCommand(argv: readonly string[]): (readonly string[])[] {
+  const forms: (readonly string[])[] = [argv]
+  let current = argv
+  for (;;) {
+    const name = commandName(current)
+    const valueOptions = WRAPPERS.get(name)
+    if (valueOptions === undefined) return forms
+    let k = 1
+    while (k < current.length) {
+      const arg = current[k] ?? ''
+      if (valueOptions.includes(arg)) k += 2
+      else if (arg.startsWith('-') || ASSIGNMENT.test(arg)) k++
+      else break
+    }
+    // timeout は最初の引数が時間
+    if (name === 'timeout') k++
+    if (k >= current.length) return forms
+    current = current.slice(k)
+    forms.push(current)
+  }
+}
+
+/** sh -c / eval に渡されたスクリプト（なければ undefined） */
+function embeddedScript(argv: readonly string[]): string | undefined {
+  const name = commandName(argv)
+  if (name === 'eval') return argv.slice(1).join(' ')
+  if (!SHELLS.has(name)) return undefined
+  const flag = argv.findIndex((arg, k) => k > 0 && /^-[a-z]*c[a-z]*$/.test(arg))
+  return flag < 0 ? undefined : argv[flag + 1]
+}
+
+/** 危険なコマンドの検出ルール */
+interface DangerRule {
+  readonly reason: string
+  readonly test: (name: string, argv: readonly string[], command: ShellSimpleCommand) => boolean
+}
+
+/** 引数に短いオプションの文字（`-rf` の `r` 等）または長いオプションが含まれるか */
+function hasFlag(argv: readonly string[], short: string, long?: string): boolean {
+  return argv
+    .slice(1)
+    .some(
+      (arg) =>
+        (long !== undefined && arg === long) ||
+        (/^-[A-Za-z]+$/.test(arg) && short.split('').some((f) => arg.includes(f))),
+    )
+}
+
+/** ブロックデバイスへのパス */
+const BLOCK_DEVICE = /^\/dev\/(sd|hd|vd|xvd|nvme|mmcblk|disk)/
+
+const DANGER_RULES: readonly DangerRule[] = [
+  {
+    reason: 'Recursive delete',
+    test: (name, argv) =>
+      (name === 'rm' && hasFlag(argv, 'rR', '--recursive')) ||
+      (name === 'find' && argv.includes('-delete')),
+  },
+  {
+    reason: 'Privilege escalation',
+    test: (name) => ['sudo', 'doas', 'su', 'pkexec'].includes(name),
+  },
+  {
+    reason: 'Raw disk write',
+    test: (name, argv, command) =>
+      name.startsWith('mkfs') ||
+      ['fdisk', 'parted', 'wipefs', 'shred'].includes(name) ||
+      (name === 'dd' && argv.some((arg) => arg.startsWith('of='))) ||
+      command.redirects.some((r) => r.op.includes('>') && BLOCK_DEVICE.test(r.target)),
+  },
+  {
+    reason: 'Recursive permission change',
+    test: (name, argv) =>
+      ['chmod', 'chown', 'chgrp'].includes(name) && hasFlag(argv, 'R', '--recursive'),
+  },
+  {
+    reason: 'Destructive git operation',
+    test: (name, argv) => {
+      if (name !== 'git') return false
+      const sub = argv.find((arg, k) => k > 0 && !arg.startsWith('-'))
+      return (
+        (sub === 'push' && (hasFlag(argv, 'f', '--force') || argv.includes('--mirror'))) ||
+        (sub === 'reset' && argv.includes('--hard')) ||
+        (sub === 'clean' && hasFlag(argv, 'f', '--force'))
+      )
+    },
+  },
+  {
+    reason: 'System shutdown',
+    test: (name) => ['shutdown', 'reboot', 'halt', 'poweroff'].includes(name),
+  },
+  {
+    reason: 'Pipes input into a shell',
+    test: (name, argv, command) =>
+      command.piped && SHELLS.has(name) && embeddedScript(argv) === undefined,
+  },
+]
+
+/** 変数展開・コマンド置換を含む（実行するまで分からない）コマンド名 */
+const DYNAMIC_NAME = /[$`]/
+
+/** 自分自身をパイプでつなぎ続ける関数定義（`:(){ :|:& };:`） */
+const FORK_BOMB = /([\w:]+)\s*\(\s*\)\s*\{[^}]*\1\s*\|\s*\1/
+
+/**
+ * コマンドパターンを正規表現にコンパイルする
+ *
+ * `*` は任意の文字列に一致する。末尾が ` *` のパターンは引数のないコマンドにも一致する。
+ */
+function compileCommandPattern(pattern: string): RegExp {
+  const words = pattern.trim().split(/\s+/)
+  const source = words
+    .map((w) =>
+      w
+        .split('*')
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*'),
+    )
+    .join(' ')
+  const optionalTail = words.length > 1 && words[words.length - 1] === '*'
+  return new RegExp(`^${optionalTail ? source.replace(/ \.\*$/, '(?: .*)?') : source}$`)
+}
+
+/** 重複を除いて順序を保つ */
+function unique(values: readonly string[]): string[] {
+  return [...new Set(values)]
+}
+
+/**
+ * 設定から ShellPolicy を生成する
+ *
+ * 判定の順序:
+ * 1. deny のパターンに一致するコマンド（ラッパーを外したものを含む）があれば 'deny'
+ * 2. allow が指定されていて、いずれのパターンにも一致しないコマンドか、コマンド名が変数展開・
+ *    コマンド置換のコマンドがあれば 'deny'
+ * 3. 危険なコマンド、コマンド名が変数展開・コマンド置換のコマンド、パースできない箇所があれば
+ *    config.dangerous（省略時 'ask'）
+ * 4. それ以外は 'auto'
+ *
+ * sh -c / eval に渡されたスクリプトもパースして同じ判定にかける。
+ * コマンド（sh -c / eval の中身を含む）が MAX_EVALUATED_COMMANDS を超える呼び出しは、
+ * 判定しきれないため上記の順序によらず 'deny' とする。
+ */
+export function createShellPolicy(config: ShellPolicyConfig = {}): ShellPolicy {
+  const allowRules = (config.allow ?? []).map((pattern) => compileCommandPattern(pattern))
+  const denyRules = (config.deny ?? []).map((pattern) => ({
+    pattern,
+    regex: compileCommandPattern(pattern),
+  }))
+  const dangerousMode = config.dangerous ?? 'ask'
+
+  return {
+    timeoutMs: config.timeoutMs ?? DEFAULT_SHELL_TIMEOUT_MS,
+    evaluate(command: string): ShellCommandDecision {
+      const parsed = parseShellCommand(command)
+      const denied: string[] = []
+      const dangers = parsed.errors.map((e) => `Could not parse command (${e})`)
+      if (FORK_BOMB.test(command)) dangers.push('Fork bomb')
+
+      const queue = [...parsed.commands]
+      for (let k = 0; k < queue.length; k++) {
+        if (k >= MAX_EVALUATED_COMMANDS) {
+          denied.push(`Too many commands to evaluate (more than ${String(MAX_EVALUATED_COMMANDS)})`)
+          break
+        }
+        const current = queue[k]
+        if (current === undefined || current.argv.length === 0) continue
+        const text = current.argv.join(' ')
+
+        if (allowRules.length > 0 && !allowRules.some((regex) => regex.test(text))) {
+          denied.push(`Command is not allowed by shell policy: ${text}`)
+        }
+
+        for (const argv of unwrapCommand(current.argv)) {
+          const name = commandName(argv)
+          // 実行時に決まるコマンド名は deny / allow のパターンや危険なコマンドの検出で判定できない
+          if (DYNAMIC_NAME.test(argv[0] ?? '')) {
+            if (allowRules.length > 0) {
+              denied.push(`Command name is not literal: ${argv.join(' ')}`)
+            } else {
+              dangers.push(`Command name is not literal: ${argv.join(' ')}`)
+            }
+          }
+          const candidates = [argv.join(' '), [name, ...argv.slice(1)].join(' ')]
+          const rule = denyRules.find((r) => candidates.some((c) => r.regex.test(c)))
+          if (rule !== undefined) {
+            denied.push(`Command denied by shell policy (${rule.pattern}): ${argv.join(' ')}`)
+          }
+          for (const danger of DANGER_RULES) {
+            if (danger.test(name, argv, current)) {
+              dangers.push(`${danger.reason}: ${argv.join(' ')}`)
+            }
+          }
+          const script = embeddedScript(argv)
+          if (script !== undefined) {
+            const inner = parseShellCommand(script)
+            queue.push(...inner.commands)
+            dangers.push(...inner.errors.map((e) => `Could not parse command (${e})`))
+          }
+        }
+      }
+
+      if (denied.length > 0) return { mode: 'deny', reasons: unique(denied) }
+      if (dangers.length > 0 && dangerousMode !== 'auto') {
+        return { mode: dangerousMode, reasons: unique(dangers) }
+      }
+      return { mode: 'auto', reasons: [] }
+    },
+  }
+}
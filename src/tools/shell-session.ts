@@ -0,0 +1,411 @@
+/**
+ * 永続シェルセッション
+ *
+ * shell ツールは呼び出しごとに /bin/sh を起動するため、`cd` や `export` が次の呼び出しに引き継がれない。
+ * ShellSession は 1 つの /bin/sh を起動したまま標準入力にコマンドを書き込み、終了コードと作業ディレクトリを
+ * 呼び出しごとの番兵（sentinel）行で受け取る。
+ */
+import { spawn, type ChildProcessWithoutNullStreams } from 'node:child_process'
+import { randomUUID } from 'node:crypto'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { BuiltinToolOptions, ToolAssessment, ToolDefinition, ToolResult } from './types.js'
+import { optionalBoolean, optionalNumber } from './validate.js'
+import { createShellPolicy } from './shell-policy.js'
+
+/** 1 ストリームあたりに保持する出力の上限（文字数） */
+const MAX_OUTPUT = 10 * 1024 * 1024
+
+/** 上限を超えたときに番兵の検出用に残す末尾の長さ（文字数） */
+const TAIL_SIZE = 4096
+
+/** タイムアウト時に SIGINT を送ってからセッションを作り直すまでの既定の猶予（ミリ秒） */
+const DEFAULT_INTERRUPT_GRACE_MS = 2000
+
+/** createShellSession のオプション */
+export interface ShellSessionOptions {
+  /** 最初の作業ディレクトリ（省略時はカレントディレクトリ。reset() でここに戻る） */
+  readonly cwd?: string
+  /** 起動するシェル（省略時は /bin/sh） */
+  readonly shell?: string
+  /** タイムアウト時に SIGINT で中断できなかった場合にセッションを作り直すまでの猶予（ミリ秒） */
+  readonly interruptGraceMs?: number
+}
+
+/** コマンドの実行結果 */
+export interface ShellSessionResult {
+  readonly stdout: string
+  readonly stderr: string
+  /** 終了コード（シェルごと終了した場合は undefined） */
+  readonly exitCode: number | undefined
+  /** 実行後の作業ディレクトリ */
+  readonly cwd: string
+  /** タイムアウトで中断したか */
+  readonly timedOut: boolean
+  /** シェルが終了したか（`exit` の実行、または中断できずに強制終了した場合）。次の呼び出しで作り直す */
+  readonly sessionEnded: boolean
+}
+
+/** 永続シェルセッション */
+export interface ShellSession {
+  /** 現在の作業ディレクトリ（最後に実行したコマンドの終了時点） */
+  readonly cwd: string
+  /**
+   * コマンドを実行する（同時に呼ばれた場合は順に実行する）
+   *
+   * timeoutMs を過ぎるとシェルのプロセスグループに SIGINT を送ってコマンドだけを中断する。
+   */
+  run(command: string, timeoutMs: number): Promise<ShellSessionResult>
+  /** シェルを終了し、作業ディレクトリを最初に戻す（環境変数も失われる。次の run() で起動する） */
+  reset(): void
+  /** シェルを終了する */
+  close(): void
+}
+
+/** 受信中の出力（上限を超えた分は中間を捨て、番兵の検出用に末尾を残す） */
+interface OutputBuffer {
+  text: string
+  dropped: number
+}
+
+/** 起動中のシェル */
+interface RunningShell {
+  readonly child: ChildProcessWithoutNullStreams
+  readonly stdout: OutputBuffer
+  readonly stderr: OutputBuffer
+  exited: boolean
+  /** 出力の受信・終了時に呼ばれる（実行中のコマンドの完了判定） */
+  onChange: () => void
+}
+
+/** 文字列をシェルの単一引用符で囲む */
+function quote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+function append(buffer: OutputBuffer, chunk: string): void {
+  buffer.text += chunk
+  if (buffer.text.length > MAX_OUTPUT + TAIL_SIZE) {
+    const excess = buffer.text.length - MAX_OUTPUT - TAIL_SIZE
+    buffer.text = buffer.text.slice(0, MAX_OUTPUT) + buffer.text.slice(MAX_OUTPUT + excess)
+    buffer.dropped += excess
+  }
+}
+
+/** end までの出力を返す（捨てた分は注記に置き換える） */
+function takeOutput(buffer: OutputBuffer, end: number): string {
+  if (buffer.dropped === 0 || end <= MAX_OUTPUT) return buffer.text.slice(0, end)
+  return (
+    buffer.text.slice(0, MAX_OUTPUT) +
+    `\n[... ${String(buffer.dropped)} characters truncated ...]\n` +
+    buffer.text.slice(MAX_OUTPUT, end)
+  )
+}
+
+/**
+ * コマンドを実行し番兵を出力するスクリプトを組み立てる
+ *
+ * - コマンドは関数の中で `command eval` する（構文エラーでシェルが終了しない。`cd` / `export` はシェルに残る）
+ * - 標準入力は /dev/null にする（シェルの標準入力は次のコマンドの受け渡しに使うため）
+ * - 実行中の SIGINT は関数から 130 で return させる（シェルは終了せず、コマンドの残りだけを打ち切る）。
+ *   実行後は trap を無害なものに戻す（コマンドが trap を変えても毎回設定し直す）
+ */
+function buildScript(command: string, sentinel: string): string {
+  return [
+    `__wn_command=${quote(command)}`,
+    `__wn_run() { trap 'return 130' INT; command eval "$__wn_command"; }`,
+    '__wn_run </dev/null',
+    '__wn_status=$?',
+    "trap ':' INT",
+    `printf '\\n%s %d %s\\n' '${sentinel}' "$__wn_status" "$PWD"`,
+    `printf '\\n%s\\n' '${sentinel}' >&2`,
+    '',
+  ].join('\n')
+}
+
+/** プロセスグループにシグナルを送る（終了済みなら何もしない） */
+function killGroup(child: ChildProcessWithoutNullStreams, signal: NodeJS.Signals): void {
+  if (child.pid === undefined) return
+  try {
+    process.kill(-child.pid, signal)
+  } catch {
+    // 既に終了している
+  }
+}
+
+/**
+ * 永続シェルセッションを生成する
+ *
+ * シェルは最初の run() で起動し、プロセスグループのリーダーにする（タイムアウト時の SIGINT をコマンドにも
+ * 届けるため）。シェルが終了した場合は次の run() で最後の作業ディレクトリから起動し直す。
+ */
+export function createShellSession(options: ShellSessionOptions = {}): ShellSession {
+  const initialCwd = path.resolve(options.cwd ?? process.cwd())
+  const shell = options.shell ?? '/bin/sh'
+  const graceMs = options.interruptGraceMs ?? DEFAULT_INTERRUPT_GRACE_MS
+  let cwd = initialCwd
+  let running: RunningShell | undefined
+  let queue: Promise<unknown> = Promise.resolve()
+
+  function start(): RunningShell {
+    // 最後の作業ディレクトリが削除されていれば最初のディレクトリから起動する
+    if (!fs.existsSync(cwd)) cwd = initialCwd
+    const child = spawn(shell, [], { cwd, detached: true, stdio: ['pipe', 'pipe', 'pipe'] })
+    const state: RunningShell = {
+      child,
+      stdout: { text: '', dropped: 0 },
+      stderr: { text: '', dropped: 0 },
+      exited: false,
+      onChange: () => undefined,
+    }
+    child.stdout.setEncoding('utf-8')
+    child.stderr.setEncoding('utf-8')
+    child.stdout.on('data', (chunk: string) => {
+      append(state.stdout, chunk)
+      state.onChange()
+    })
+    child.stderr.on('data', (chunk: string) => {
+      append(state.stderr, chunk)
+      state.onChange()
+    })
+    // 終了したシェルへの書き込み（EPIPE）は exit で扱う
+    child.stdin.on('error', () => undefined)
+    child.on('error', () => {
+      state.exited = true
+      state.onChange()
+    })
+    child.on('close', () => {
+      state.exited = true
+      state.onChange()
+    })
+    return state
+  }
+
+  function stop(): void {
+    if (running === undefined) return
+    killGroup(running.child, 'SIGKILL')
+    running.child.stdin.destroy()
+    running = undefined
+  }
+
+  function execute(command: string, timeoutMs: number): Promise<ShellSessionResult> {
+    if (running === undefined || running.exited) running = start()
+    const state = running
+    const sentinel = `__WN_SHELL_DONE_${randomUUID().replace(/-/g, '')}__`
+    const stdoutMarker = `\n${sentinel} `
+    const stderrMarker = `\n${sentinel}\n`
+    state.stdout.text = ''
+    state.stdout.dropped = 0
+    state.stderr.text = ''
+    state.stderr.dropped = 0
+
+    return new Promise((resolve) => {
+      let timedOut = false
+      let interruptTimer: NodeJS.Timeout | undefined
+      const timer =
+        timeoutMs > 0
+          ? setTimeout(() => {
+              timedOut = true
+              killGroup(state.child, 'SIGINT')
+              // コマンドが SIGINT を無視した場合はシェルごと終了する
+              interruptTimer = setTimeout(() => {
+                killGroup(state.child, 'SIGKILL')
+              }, graceMs)
+            }, timeoutMs)
+          : undefined
+
+      function finish(result: ShellSessionResult): void {
+        clearTimeout(timer)
+        clearTimeout(interruptTimer)
+        state.onChange = (): void => undefined
+        cwd = result.cwd
+        resolve(result)
+      }
+
+      state.onChange = (): void => {
+        const outEnd = state.stdout.text.indexOf(stdoutMarker)
+        const lineEnd = outEnd < 0 ? -1 : state.stdout.text.indexOf('\n', outEnd + 1)
+        const errEnd = state.stderr.text.indexOf(stderrMarker)
+        if (lineEnd >= 0 && errEnd >= 0) {
+          const status = state.stdout.text.slice(outEnd + stdoutMarker.length, lineEnd)
+          const space = status.indexOf(' ')
+          finish({
+            stdout: takeOutput(state.stdout, outEnd),
+            stderr: takeOutput(state.stderr, errEnd),
+            exitCode: Number(status.slice(0, space)),
+            cwd: status.slice(space + 1),
+            timedOut,
+            sessionEnded: false,
+          })
+        } else if (state.exited) {
+          finish({
+            stdout: takeOutput(state.stdout, state.stdout.text.length),
+            stderr: takeOutput(state.stderr, state.stderr.text.length),
+            exitCode: undefined,
+            cwd,
+            timedOut,
+            sessionEnded: true,
+          })
+        }
+      }
+
+      state.child.stdin.write(buildScript(command, sentinel))
+      state.onChange()
+    })
+  }
+
+  return {
+    get cwd(): string {
+      return cwd
+    },
+    run(command: string, timeoutMs: number): Promise<ShellSessionResult> {
+      const result = queue.then(() => execute(command, timeoutMs))
+      queue = result.catch(() => undefined)
+      return result
+    },
+    reset(): void {
+      stop()
+      cwd = initialCwd
+    },
+    close(): void {
+      stop()
+    },
+  }
+}
+
+/** 実行結果を LLM に返す出力に整形する（終了コードと作業ディレクトリを末尾に付ける） */
+function formatResult(result: ShellSessionResult): string {
+  const parts = [result.stdout]
+  if (result.stderr !== '') parts.push(`[stderr]\n${result.stderr}`)
+  parts.push(
+    result.exitCode !== undefined
+      ? `[exit code: ${String(result.exitCode)}, cwd: ${result.cwd}]`
+      : `[shell session ended, cwd: ${result.cwd}]`,
+  )
+  return parts.filter((part) => part !== '').join('\n')
+}
+
+/**
+ * shell_session ビルトインツールを生成する
+ *
+ * ツールごとに 1 つの ShellSession を持ち、`cd` / `export` / シェル関数を呼び出し間で保つ。
+ * AgentLoop ごとにツールを生成するか、会話を切り替えるときに dispose() でセッションを終了する。
+ * options.shellPolicy（省略時は既定のポリシー）は shell ツールと同様に適用する。
+ * options.workspace を指定すると最初の作業ディレクトリを先頭のルートにし、コマンドの実行後に
+ * 作業ディレクトリがワークスペースの外にあればルートに戻す。
+ */
+export function createShellSessionTool(
+  options: BuiltinToolOptions & { readonly session?: ShellSessionOptions } = {},
+): ToolDefinition {
+  const policy = options.shellPolicy ?? createShellPolicy()
+  const root = options.workspace?.roots[0]
+  const session = createShellSession({
+    ...options.session,
+    ...(root !== undefined ? { cwd: root } : {}),
+  })
+
+  return {
+    name: 'shell_session',
+    description:
+      'Execute a command in a persistent POSIX shell session. The working directory, ' +
+      'environment variables and shell functions are kept between calls. ' +
+      'Set reset to true to start a fresh session.',
+    parameters: {
+      type: 'object',
+      properties: {
+        command: { type: 'string', description: 'The command to execute' },
+        timeout: {
+          type: 'number',
+          description: `Timeout in milliseconds. The command is interrupted but the session is kept. Default: ${String(policy.timeoutMs)}`,
+        },
+        reset: {
+          type: 'boolean',
+          description:
+            'Restart the session before running the command (restores the initial directory and environment)',
+        },
+      },
+    },
+    concurrencySafe: false,
+    assess(args: Record<string, unknown>): ToolAssessment {
+      const command = args['command']
+      // 不正な引数は execute() がエラーを返す
+      if (typeof command !== 'string') return { mode: 'auto' }
+      const decision = policy.evaluate(command)
+      return decision.reasons.length > 0
+        ? { mode: decision.mode, reason: decision.reasons.join('; ') }
+        : { mode: decision.mode }
+    },
+    async execute(args: Record<string, unknown>): Promise<ToolResult> {
+      // --- validate args ---
+      const command = args['command']
+      if (command !== undefined && (typeof command !== 'string' || command.length === 0)) {
+        return { ok: false, output: '', error: "Parameter 'command' must be a non-empty string" }
+      }
+      const resetResult = optionalBoolean(args, 'reset')
+      if ('error' in resetResult) return resetResult.error
+      const timeoutResult = optionalNumber(args, 'timeout', 1)
+      if ('error' in timeoutResult) return timeoutResult.error
+      if (command === undefined && resetResult.value !== true) {
+        return {
+          ok: false,
+          output: '',
+          error: "Parameter 'command' is required unless reset is true",
+        }
+      }
+      if (process.platform === 'win32') {
+        return { ok: false, output: '', error: 'shell_session is not supported on Windows' }
+      }
+
+      if (resetResult.value === true) {
+        session.reset()
+        if (command === undefined) {
+          return { ok: true, output: `Shell session reset (cwd: ${session.cwd})` }
+        }
+      }
+
+      // --- command policy ---
+      const decision = policy.evaluate(command ?? '')
+      if (decision.mode === 'deny') {
+        return { ok: false, output: '', error: decision.reasons.join('\n') }
+      }
+
+      const timeout = timeoutResult.value ?? policy.timeoutMs
+      const result = await session.run(command ?? '', timeout)
+      let output = formatResult(result)
+
+      // --- workspace ---
+      if (options.workspace !== undefined && root !== undefined && !result.sessionEnded) {
+        const checked = await options.workspace.check(result.cwd)
+        if (!checked.ok) {
+          await session.run(`cd ${quote(root)}`, timeout)
+          output += `\n[cwd reset to ${root}: ${checked.error.message}]`
+        }
+      }
+
+      if (result.timedOut) {
+        return {
+          ok: false,
+          output,
+          error: result.sessionEnded
+            ? `Command timed out after ${String(timeout)}ms and could not be interrupted; the session was restarted`
+            : `Command timed out after ${String(timeout)}ms and was interrupted; the session was kept`,
+        }
+      }
+      if (result.sessionEnded) {
+        return {
+          ok: false,
+          output,
+          error: 'Shell session ended; a new session will start on the next call',
+        }
+      }
+      if (result.exitCode !== 0) {
+        return { ok: false, output, error: `Command exited with code ${String(result.exitCode)}` }
+      }
+      return { ok: true, output }
+    },
+    dispose(): Promise<void> {
+      session.close()
+      return Promise.resolve()
+    },
+  }
+}
@@ -1,7 +1,9 @@
 import { execFile } from 'node:child_process'
 import { promisify } from 'node:util'
-import type { ToolDefinition, ToolResult } from './types.js'
-import { requireString, optionalNumber } from './validate.js'
+import type { BuiltinToolOptions, ToolAssessment, ToolDefinition, ToolResult } from './types.js'
+import { requireString, optionalNumber, optionalString } from './validate.js'
+import { resolveToolPath } from './workspace.js'
+import { createShellPolicy } from './shell-policy.js'
 
 const execFileAsync = promisify(execFile)
 const MAX_BUFFER = 10 * 1024 * 1024 // 10 MB
@@ -29,8 +31,18 @@ function isExecError(e: unknown): e is Error & { stdout: string; stderr: string;
   return e instanceof Error && 'stdout' in e && 'stderr' in e
 }
 
-/** shell ビルトインツールを生成する */
-export function createShellTool(): ToolDefinition {
+/**
+ * shell ビルトインツールを生成する
+ *
+ * options.workspace を指定すると作業ディレクトリ（cwd 引数。省略時は先頭のルート）をワークスペース内に
+ * 制限する。コマンドが参照するパスまでは検査しない。
+ *
+ * コマンドは options.shellPolicy（省略時は既定のポリシー）で判定する。'deny' のコマンドは実行せずに
+ * エラーを返し、'ask' のコマンドは assess() で AgentLoop に承認を求めさせる。
+ */
+export function createShellTool(options: BuiltinToolOptions = {}): ToolDefinition {
+  const policy = options.shellPolicy ?? createShellPolicy()
+
   return {
     name: 'shell',
     description: 'Execute a shell command. Uses /bin/sh on Unix and powershell.exe on Windows.',
@@ -40,28 +52,60 @@ export function createShellTool(): ToolDefinition {
         command: { type: 'string', description: 'The command to execute' },
         timeout: {
           type: 'number',
-          description: 'Timeout in milliseconds. Default: no timeout (0)',
+          description: `Timeout in milliseconds. Default: ${String(policy.timeoutMs)}`,
+        },
+        cwd: {
+          type: 'string',
+          description: 'Working directory for the command. Default: the workspace root',
         },
       },
       required: ['command'],
     },
+    concurrencySafe: false,
+    assess(args: Record<string, unknown>): ToolAssessment {
+      const command = args['command']
+      // 不正な引数は execute() がエラーを返す
+      if (typeof command !== 'string') return { mode: 'auto' }
+      const decision = policy.evaluate(command)
+      return decision.reasons.length > 0
+        ? { mode: decision.mode, reason: decision.reasons.join('; ') }
+        : { mode: decision.mode }
+    },
     async execute(args: Record<string, unknown>): Promise<ToolResult> {
       // --- validate command ---
       const commandResult = requireString(args, 'command')
       if ('error' in commandResult) return commandResult.error
 
+      // --- command policy ---
+      const decision = policy.evaluate(commandResult.value)
+      if (decision.mode === 'deny') {
+        return { ok: false, output: '', error: decision.reasons.join('\n') }
+      }
+
       // --- validate timeout ---
       const timeoutResult = optionalNumber(args, 'timeout', 1)
       if ('error' in timeoutResult) return timeoutResult.error
 
-      const timeout = timeoutResult.value ?? 0 // 0 = no timeout
+      // --- validate cwd ---
+      const cwdArg = optionalString(args, 'cwd')
+      let cwd: string | undefined
+      if (cwdArg !== undefined || options.workspace !== undefined) {
+        const cwdResult = await resolveToolPath(
+          options.workspace,
+          cwdArg ?? options.workspace?.roots[0] ?? '.',
+        )
+        if ('error' in cwdResult) return cwdResult.error
+        cwd = cwdResult.value
+      }
+
+      const timeout = timeoutResult.value ?? policy.timeoutMs
       const config = getShellConfig(process.platform)
 
       try {
         const { stdout, stderr } = await execFileAsync(
           config.shell,
           config.buildArgs(commandResult.value),
-          { timeout, maxBuffer: MAX_BUFFER },
+          { timeout, maxBuffer: MAX_BUFFER, ...(cwd !== undefined ? { cwd } : {}) },
         )
 
         const output = stderr ? `${stdout}\n[stderr]\n${stderr}` : stdout
@@ -1,12 +1,25 @@
 import type { Result } from '../result.js'
 import { ok, err } from '../result.js'
-import type { JsonSchema } from '../providers/types.js'
+import type { ContentPart, JsonSchema } from '../providers/types.js'
+import type { ApprovalMode } from '../loader/types.js'
 
 /** ツール実行結果 */
 export interface ToolResult {
   readonly ok: boolean
   readonly output: string
   readonly error?: string
+  /**
+   * LLM に返すコンテンツパート（画像等を含む場合）。
+   * 指定時は output の代わりにツール結果メッセージの content として使われる。
+   */
+  readonly parts?: readonly ContentPart[]
+}
+
+/** 引数に応じたツール呼び出しの承認判定 */
+export interface ToolAssessment {
+  readonly mode: ApprovalMode
+  /** 'ask' / 'deny' の理由（承認リクエストや LLM へのフィードバックに含める） */
+  readonly reason?: string
 }
 
 /**
@@ -18,7 +31,82 @@ export interface ToolDefinition {
   readonly name: string
   readonly description: string
   readonly parameters: JsonSchema
+  /**
+   * 他のツール呼び出しと並行実行しても安全か（副作用のない読み取り専用ツール等）。
+   * 省略時は false として扱う。
+   */
+  readonly concurrencySafe?: boolean
+  /**
+   * 引数に応じた承認モードを返す（shell の危険なコマンド等）。
+   * AgentLoop は ApprovalPolicy のモードとあわせて、より厳しい方を使う
+   */
+  assess?(args: Record<string, unknown>): ToolAssessment
   execute(args: Record<string, unknown>): Promise<ToolResult>
+  /** ツールが保持するリソース（シェルセッション等）を解放する */
+  dispose?(): Promise<void>
+}
+
+/**
+ * ワークスペースポリシー違反の種類
+ *
+ * - OUTSIDE_WORKSPACE: 許可されたルートの外
+ * - DENIED: 拒否パターン（`.env` 等）に一致
+ * - SYMLINK_ESCAPE: ルート内のシンボリックリンクがルートの外を指している
+ */
+export type WorkspaceViolationCode = 'OUTSIDE_WORKSPACE' | 'DENIED' | 'SYMLINK_ESCAPE'
+
+/** ワークスペースポリシー違反 */
+export interface WorkspaceViolation {
+  readonly code: WorkspaceViolationCode
+  readonly message: string
+  /** 解決済みの絶対パス */
+  readonly path: string
+}
+
+/**
+ * ワークスペースポリシー
+ *
+ * 組み込みツールがファイルにアクセスする前に、パスが許可されたルートの内側にあり、
+ * 拒否パターンに一致せず、シンボリックリンクでルートの外に出ないことを確認する。
+ */
+export interface WorkspacePolicy {
+  /** 許可されたルート（絶対パス。先頭が shell の既定の作業ディレクトリになる） */
+  readonly roots: readonly string[]
+  /**
+   * パスを検査し、許可されていれば解決済みの絶対パスを返す
+   *
+   * 相対パスは先頭のルートから解決する。存在しないパス（新規作成するファイル）も検査できる。
+   */
+  check(target: string): Promise<Result<string, WorkspaceViolation>>
+  /** ルートからの相対パスが拒否パターンに一致するか（ディレクトリ走査時の除外用） */
+  isDenied(absolutePath: string): boolean
+}
+
+/** shell コマンドの判定結果 */
+export interface ShellCommandDecision {
+  /** 'auto': 実行する / 'ask': 承認を求める / 'deny': 実行しない */
+  readonly mode: ApprovalMode
+  /** 'ask' / 'deny' と判定した理由（一致したルールや検出した危険なコマンド） */
+  readonly reasons: readonly string[]
+}
+
+/**
+ * shell ツールのコマンドポリシー
+ *
+ * コマンドを実行せずにパースし、allow / deny ルールと危険なコマンドの検出で実行可否を判定する。
+ */
+export interface ShellPolicy {
+  /** timeout 引数を省略したときのタイムアウト（ミリ秒） */
+  readonly timeoutMs: number
+  evaluate(command: string): ShellCommandDecision
+}
+
+/** 組み込みツールのファクトリに渡すオプション */
+export interface BuiltinToolOptions {
+  /** 指定するとファイルパスをワークスペースポリシーで検査する（省略時は制限しない） */
+  readonly workspace?: WorkspacePolicy
+  /** shell のコマンドポリシー（省略時は既定のポリシー: 危険なコマンドのみ承認を求める） */
+  readonly shellPolicy?: ShellPolicy
 }
 
 /**
@@ -56,6 +144,18 @@ export class ToolRegistry {
     return this.builtins.get(name) ?? this.mcpTools.get(name)
   }
 
+  /**
+   * ビルトインツールのリソース（シェルセッション等）を解放する。
+   * MCP ツールは McpManager.closeAll() で閉じる。
+   */
+  async dispose(): Promise<void> {
+    const pending: Promise<void>[] = []
+    for (const tool of this.builtins.values()) {
+      if (tool.dispose) pending.push(tool.dispose())
+    }
+    await Promise.all(pending)
+  }
+
   /** 全ツールをマージして返す。名前衝突時はビルトインが優先。 */
   list(): ToolDefinition[] {
     const merged = new Map<string, ToolDefinition>(this.mcpTools)
@@ -41,3 +41,17 @@ export function optionalNumber(
   }
   return { value: val }
 }
+
+export function optionalBoolean(
+  args: Record<string, unknown>,
+  key: string,
+): { value: boolean | undefined } | { error: ToolResult } {
+  const val = args[key]
+  if (val === undefined || val === null) return { value: undefined }
+  if (typeof val !== 'boolean') {
+    return {
+      error: { ok: false, output: '', error: `Parameter '${key}' must be a boolean` },
+    }
+  }
+  return { value: val }
+}
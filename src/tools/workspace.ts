@@ -0,0 +1,209 @@
+/**
+ * ワークスペースポリシー
+ *
+ * LLM が渡すパスをそのまま path.resolve() すると `~/.ssh` の読み取りや `/etc` への書き込みが
+ * できてしまうため、組み込みツールはファイルに触れる前に resolveToolPath() でパスを検査する。
+ */
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { Result } from '../result.js'
+import { ok, err } from '../result.js'
+import type { WorkspaceConfig } from '../loader/types.js'
+import type { ToolResult, WorkspacePolicy, WorkspaceViolation } from './types.js'
+import { globToRegex } from './glob.js'
+
+/** シンボリックリンクを辿る最大回数（ループ対策） */
+const MAX_SYMLINK_FOLLOWS = 40
+
+/** コンパイル済みの拒否パターン */
+interface DenyRule {
+  readonly pattern: string
+  readonly regex: RegExp
+  /** true: ルートからの相対パスに一致させる / false: 各階層の名前に一致させる */
+  readonly anchored: boolean
+}
+
+/** 拒否パターンをコンパイルする（末尾の `/` と先頭の `./` / `**\/` は除く） */
+function compileDenyRule(pattern: string): DenyRule {
+  const normalized = pattern
+    .replace(/\\/g, '/')
+    .replace(/^\.\//, '')
+    .replace(/^(\*\*\/)+/, '')
+    .replace(/\/+$/, '')
+  return { pattern, regex: globToRegex(normalized), anchored: normalized.includes('/') }
+}
+
+/** target が root 自身またはその配下か */
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target)
+  return (
+    relative === '' ||
+    (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative))
+  )
+}
+
+/**
+ * ルートからの相対パスが拒否パターンに一致するか判定し、一致したパターンを返す
+ *
+ * 相対パスの各階層（`a`, `a/b`, `a/b/c`）を順に照合するため、ディレクトリに一致したパターンは
+ * その配下のパスにも一致する。
+ */
+function findDenyRule(rules: readonly DenyRule[], relative: string): string | undefined {
+  const segments = relative.split(path.sep).filter((s) => s !== '')
+  for (let k = 1; k <= segments.length; k++) {
+    const prefix = segments.slice(0, k).join('/')
+    const name = segments[k - 1] ?? ''
+    const rule = rules.find((r) => r.regex.test(r.anchored ? prefix : name))
+    if (rule !== undefined) return rule.pattern
+  }
+  return undefined
+}
+
+/**
+ * シンボリックリンクを解決した実パスを返す
+ *
+ * 存在しないパス（write の新規ファイル等）は、存在する最も近い祖先の実パスに残りの階層を連結する。
+ * リンク先が存在しないシンボリックリンクはリンク先のパスを辿る。
+ */
+async function realpathAllowMissing(target: string): Promise<string> {
+  const missing: string[] = []
+  let current = target
+  let follows = 0
+  for (;;) {
+    try {
+      const real = await fs.promises.realpath(current)
+      return path.join(real, ...missing)
+    } catch {
+      const link = await fs.promises.readlink(current).catch(() => undefined)
+      if (link !== undefined && follows < MAX_SYMLINK_FOLLOWS) {
+        follows++
+        current = path.resolve(path.dirname(current), link)
+        continue
+      }
+      const parent = path.dirname(current)
+      if (parent === current) return path.join(current, ...missing)
+      missing.unshift(path.basename(current))
+      current = parent
+    }
+  }
+}
+
+/**
+ * 設定から WorkspacePolicy を生成する
+ *
+ * 検査の順序:
+ * 1. パスを先頭のルートから解決し、いずれかのルートの内側にあるか
+ * 2. ルートからの相対パスが拒否パターンに一致しないか
+ * 3. シンボリックリンクを解決した実パスもルートの内側にあり、拒否パターンに一致しないか
+ *    （allowSymlinkEscape の場合はルートの外でも許可する）
+ *
+ * @param config - ワークスペース設定
+ * @param cwd - 相対パスのルートを解決する基準ディレクトリ（省略時はカレントディレクトリ）
+ */
+export function createWorkspacePolicy(
+  config: WorkspaceConfig = {},
+  cwd: string = process.cwd(),
+): WorkspacePolicy {
+  const roots = (config.roots ?? ['.']).map((root) => path.resolve(cwd, root))
+  const primaryRoot = roots[0] ?? cwd
+  const rules = (config.deny ?? []).map((pattern) => compileDenyRule(pattern))
+  let realRoots: Promise<string[]> | undefined
+
+  function violation(
+    code: WorkspaceViolation['code'],
+    message: string,
+    target: string,
+  ): Result<string, WorkspaceViolation> {
+    return err({ code, message, path: target })
+  }
+
+  function deniedBy(rootList: readonly string[], target: string): string | undefined {
+    const root = rootList.find((r) => isInside(r, target))
+    return root !== undefined ? findDenyRule(rules, path.relative(root, target)) : undefined
+  }
+
+  return {
+    roots,
+    async check(target: string): Promise<Result<string, WorkspaceViolation>> {
+      const resolved = path.resolve(primaryRoot, target)
+      if (!roots.some((root) => isInside(root, resolved))) {
+        return violation(
+          'OUTSIDE_WORKSPACE',
+          `Path is outside the workspace: ${resolved}`,
+          resolved,
+        )
+      }
+
+      const pattern = deniedBy(roots, resolved)
+      if (pattern !== undefined) {
+        return violation(
+          'DENIED',
+          `Path is denied by workspace policy (${pattern}): ${resolved}`,
+          resolved,
+        )
+      }
+
+      realRoots ??= Promise.all(roots.map((root) => realpathAllowMissing(root)))
+      const real = await realpathAllowMissing(resolved)
+      const resolvedRoots = await realRoots
+      if (!resolvedRoots.some((root) => isInside(root, real))) {
+        if (config.allowSymlinkEscape === true) return ok(resolved)
+        return violation(
+          'SYMLINK_ESCAPE',
+          `Path escapes the workspace through a symlink: ${resolved} -> ${real}`,
+          resolved,
+        )
+      }
+
+      const realPattern = deniedBy(resolvedRoots, real)
+      if (realPattern !== undefined) {
+        return violation(
+          'DENIED',
+          `Path is denied by workspace policy (${realPattern}): ${resolved} -> ${real}`,
+          resolved,
+        )
+      }
+      return ok(resolved)
+    },
+    isDenied(absolutePath: string): boolean {
+      if (!roots.some((root) => isInside(root, absolutePath))) return true
+      return deniedBy(roots, absolutePath) !== undefined
+    },
+  }
+}
+
+/**
+ * 2 つのワークスペース設定を重ねる（AgentDef の設定を config.json の設定に重ねる場合等）
+ *
+ * roots と allowSymlinkEscape は override を優先し、deny は両方を連結する
+ * （エージェント単位の設定でグローバルの拒否パターンを外すことはできない）。
+ */
+export function mergeWorkspaceConfig(
+  base: WorkspaceConfig | undefined,
+  override: WorkspaceConfig | undefined,
+): WorkspaceConfig | undefined {
+  if (override === undefined) return base
+  if (base === undefined) return override
+  const deny = [...(base.deny ?? []), ...(override.deny ?? [])]
+  return { ...base, ...override, ...(deny.length > 0 ? { deny } : {}) }
+}
+
+/**
+ * ツール引数のパスを解決する
+ *
+ * workspace が指定されていればポリシーで検査し、違反は ToolResult のエラーとして返す。
+ * 省略時は従来どおり path.resolve() で解決する。
+ */
+export async function resolveToolPath(
+  workspace: WorkspacePolicy | undefined,
+  target: string,
+): Promise<{ value: string } | { error: ToolResult }> {
+  if (workspace === undefined) {
+    return { value: path.resolve(target) }
+  }
+  const result = await workspace.check(target)
+  if (!result.ok) {
+    return { error: { ok: false, output: '', error: result.error.message } }
+  }
+  return { value: result.data }
+}
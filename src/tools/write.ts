@@ -1,15 +1,17 @@
 import * as fs from 'node:fs'
 import * as path from 'node:path'
-import type { ToolDefinition, ToolResult } from './types.js'
+import type { BuiltinToolOptions, ToolDefinition, ToolResult } from './types.js'
 import { requireString } from './validate.js'
+import { resolveToolPath } from './workspace.js'
 
 /**
  * write ツールを生成するファクトリ関数
  *
  * 指定されたパスにファイルを書き込む。
  * 親ディレクトリが存在しない場合は自動作成する。
+ * options.workspace を指定すると書き込み先をワークスペースポリシーで検査する。
  */
-export function createWriteTool(): ToolDefinition {
+export function createWriteTool(options: BuiltinToolOptions = {}): ToolDefinition {
   return {
     name: 'write',
     description: 'Write content to a file. Creates parent directories if they do not exist.',
@@ -27,6 +29,7 @@ export function createWriteTool(): ToolDefinition {
       },
       required: ['path', 'content'],
     },
+    concurrencySafe: false,
     async execute(args: Record<string, unknown>): Promise<ToolResult> {
       // path バリデーション（空文字列は不可）
       const pathResult = requireString(args, 'path')
@@ -44,8 +47,11 @@ export function createWriteTool(): ToolDefinition {
         }
       }
 
+      const resolvedResult = await resolveToolPath(options.workspace, pathResult.value)
+      if ('error' in resolvedResult) return resolvedResult.error
+
       try {
-        const resolved = path.resolve(pathResult.value)
+        const resolved = resolvedResult.value
         const dir = path.dirname(resolved)
 
         // 親ディレクトリを再帰的に作成
@@ -1,9 +1,29 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import type { LLMResponse, Message, Tool, TokenUsage } from '../../src/providers/types.js'
+import type {
+  CompletionOptions,
+  LLMProvider,
+  LLMResponse,
+  Message,
+  MessageContent,
+  ResponseMetadata,
+  StreamChunk,
+  Tool,
+  TokenUsage,
+} from '../../src/providers/types.js'
 import type { ToolDefinition, ToolResult } from '../../src/tools/types.js'
 import { ToolRegistry } from '../../src/tools/types.js'
-import type { AgentLoopState } from '../../src/agent/types.js'
+import type {
+  AgentLoopState,
+  ApprovalDecision,
+  CompactionStats,
+  ContextManager,
+  UsageSnapshot,
+} from '../../src/agent/types.js'
 import { AgentLoop, createNoopHandler } from '../../src/agent/agent-loop.js'
+import { createApprovalPolicy } from '../../src/agent/approval-policy.js'
+import { createUsageLedger } from '../../src/agent/usage-ledger.js'
+import { estimatePromptTokens } from '../../src/providers/token-count.js'
+import type { SessionStore } from '../../src/session/types.js'
 import type { Result } from '../../src/result.js'
 import { ok, err } from '../../src/result.js'
 
@@ -13,6 +33,7 @@ import { ok, err } from '../../src/result.js'
 type CompleteFn = (
   messages: readonly Message[],
   tools?: readonly Tool[],
+  options?: CompletionOptions,
 ) => Promise<Result<LLMResponse>>
 
 function createMockProvider(): { complete: ReturnType<typeof vi.fn<CompleteFn>> } {
@@ -21,24 +42,55 @@ function createMockProvider(): { complete: ReturnType<typeof vi.fn<CompleteFn>>
   }
 }
 
+// ---------------------------------------------------------------------------
+// ヘルパー: stream() を持つモック LLMProvider を生成
+// ---------------------------------------------------------------------------
+type StreamFn = (
+  messages: readonly Message[],
+  tools?: readonly Tool[],
+  options?: CompletionOptions,
+) => AsyncIterable<StreamChunk>
+
+function createMockStreamingProvider(): {
+  complete: ReturnType<typeof vi.fn<CompleteFn>>
+  stream: ReturnType<typeof vi.fn<StreamFn>>
+} {
+  return {
+    complete: vi.fn<CompleteFn>(),
+    stream: vi.fn<StreamFn>(),
+  }
+}
+
+async function* chunksToAsyncIterable(chunks: StreamChunk[]): AsyncIterable<StreamChunk> {
+  for (const chunk of chunks) {
+    yield await Promise.resolve(chunk)
+  }
+}
+
 // ---------------------------------------------------------------------------
 // ヘルパー: スパイ付き AgentLoopHandler を生成
 // ---------------------------------------------------------------------------
 function createSpyHandler(): {
-  onResponse: ReturnType<typeof vi.fn<(content: string) => void>>
+  onResponse: ReturnType<typeof vi.fn<(content: string, metadata?: ResponseMetadata) => void>>
   onToolStart: ReturnType<typeof vi.fn<(name: string, args: Record<string, unknown>) => void>>
   onToolEnd: ReturnType<typeof vi.fn<(name: string, result: ToolResult) => void>>
   onStateChange: ReturnType<typeof vi.fn<(state: AgentLoopState) => void>>
   onError: ReturnType<typeof vi.fn<(error: string) => void>>
   onUsage: ReturnType<typeof vi.fn<(usage: TokenUsage) => void>>
+  onDelta: ReturnType<typeof vi.fn<(content: string) => void>>
+  onReasoning: ReturnType<typeof vi.fn<(content: string) => void>>
+  onCompaction: ReturnType<typeof vi.fn<(stats: CompactionStats) => void>>
 } {
   return {
-    onResponse: vi.fn<(content: string) => void>(),
+    onResponse: vi.fn<(content: string, metadata?: ResponseMetadata) => void>(),
     onToolStart: vi.fn<(name: string, args: Record<string, unknown>) => void>(),
     onToolEnd: vi.fn<(name: string, result: ToolResult) => void>(),
     onStateChange: vi.fn<(state: AgentLoopState) => void>(),
     onError: vi.fn<(error: string) => void>(),
     onUsage: vi.fn<(usage: TokenUsage) => void>(),
+    onDelta: vi.fn<(content: string) => void>(),
+    onReasoning: vi.fn<(content: string) => void>(),
+    onCompaction: vi.fn<(stats: CompactionStats) => void>(),
   }
 }
 
@@ -48,17 +100,49 @@ function createSpyHandler(): {
 function createDummyTool(
   name: string,
   executeFn?: (args: Record<string, unknown>) => Promise<ToolResult>,
+  concurrencySafe?: boolean,
 ): ToolDefinition {
   return {
     name,
     description: `${name} tool`,
     parameters: {},
+    ...(concurrencySafe !== undefined ? { concurrencySafe } : {}),
     execute:
       executeFn ??
       ((): Promise<ToolResult> => Promise.resolve({ ok: true, output: `${name} done` })),
   }
 }
 
+// ---------------------------------------------------------------------------
+// ヘルパー: メモリ上のスパイ付き SessionStore を生成
+// ---------------------------------------------------------------------------
+function createMemorySessionStore(initial: Record<string, Message[]> = {}): {
+  store: SessionStore
+  sessions: Map<string, Message[]>
+  append: ReturnType<typeof vi.fn<SessionStore['append']>>
+  save: ReturnType<typeof vi.fn<SessionStore['save']>>
+} {
+  const sessions = new Map(Object.entries(initial))
+  const append = vi.fn<SessionStore['append']>((id, messages) => {
+    sessions.set(id, [...(sessions.get(id) ?? []), ...messages])
+    return Promise.resolve(ok(undefined))
+  })
+  const save = vi.fn<SessionStore['save']>((id, messages) => {
+    sessions.set(id, [...messages])
+    return Promise.resolve(ok(undefined))
+  })
+  const store: SessionStore = {
+    append,
+    save,
+    load: (id) => {
+      const messages = sessions.get(id)
+      return Promise.resolve(messages ? ok([...messages]) : err(`Session not found: ${id}`))
+    },
+    list: () => Promise.resolve(ok([])),
+  }
+  return { store, sessions, append, save }
+}
+
 // ---------------------------------------------------------------------------
 // ヘルパー: AsyncIterable<string> を配列から生成
 // ---------------------------------------------------------------------------
@@ -134,6 +218,52 @@ describe('AgentLoop', () => {
     })
   })
 
+  // -------------------------------------------------------------------------
+  // context size
+  // -------------------------------------------------------------------------
+  describe('context size', () => {
+    it('getContextTokens は履歴とツール定義の推定トークン数を返す', () => {
+      tools.register(createDummyTool('read'))
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler,
+        systemMessage: 'You are a helpful assistant.',
+      })
+
+      expect(loop.getContextTokens()).toBe(
+        estimatePromptTokens(loop.getMessages(), [
+          { name: 'read', description: 'read tool', parameters: {} },
+        ]),
+      )
+    })
+
+    it('countContextTokens はプロバイダーの countTokens に履歴とツール定義を渡す', async () => {
+      tools.register(createDummyTool('read'))
+      const countTokens = vi
+        .fn<NonNullable<LLMProvider['countTokens']>>()
+        .mockResolvedValue(ok(123))
+      const loop = new AgentLoop({
+        provider: { ...mockProvider, countTokens },
+        tools,
+        handler,
+        systemMessage: 'sys',
+      })
+
+      expect(await loop.countContextTokens()).toStrictEqual(ok(123))
+      expect(countTokens).toHaveBeenCalledWith(
+        [{ role: 'system', content: 'sys' }],
+        [{ name: 'read', description: 'read tool', parameters: {} }],
+      )
+    })
+
+    it('countTokens のないプロバイダーでは推定値を返す', async () => {
+      const loop = new AgentLoop({ provider: mockProvider, tools, handler, systemMessage: 'sys' })
+
+      expect(await loop.countContextTokens()).toStrictEqual(ok(loop.getContextTokens()))
+    })
+  })
+
   // -------------------------------------------------------------------------
   // step() — basic path
   // -------------------------------------------------------------------------
@@ -185,6 +315,22 @@ describe('AgentLoop', () => {
       expect(handler.onUsage).toHaveBeenCalledWith(usage)
       expect(handler.onUsage).toHaveBeenCalledTimes(1)
     })
+
+    it('LLMResponse の metadata を onResponse に渡す', async () => {
+      const metadata = { provider: 'ollama', model: 'llama3' }
+      mockProvider.complete.mockResolvedValueOnce(
+        ok<LLMResponse>({ content: 'Response', metadata }),
+      )
+
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler,
+      })
+
+      await loop.step('Hello')
+      expect(handler.onResponse).toHaveBeenCalledWith('Response', metadata)
+    })
   })
 
   // -------------------------------------------------------------------------
@@ -296,6 +442,45 @@ describe('AgentLoop', () => {
       expect(toolResultMsg.content).toBe('Greetings!')
     })
 
+    it('ツール結果に parts があれば output の代わりに content として追加', async () => {
+      const parts = [
+        { type: 'text', text: 'Image file: shot.png' },
+        { type: 'image', mimeType: 'image/png', data: 'iVBORw0K' },
+      ] as const
+      tools.register(
+        createDummyTool('read', () =>
+          Promise.resolve({ ok: true, output: 'Image file: shot.png', parts }),
+        ),
+      )
+      mockProvider.complete.mockResolvedValueOnce(
+        ok<LLMResponse>({
+          content: '',
+          toolCalls: [{ id: 'tc-read', name: 'read', arguments: { path: 'shot.png' } }],
+        }),
+      )
+      mockProvider.complete.mockResolvedValueOnce(ok<LLMResponse>({ content: 'A cat.' }))
+
+      const loop = new AgentLoop({ provider: mockProvider, tools, handler })
+      await loop.step('What is in shot.png?')
+
+      const toolResultMsg = loop.getMessages().find((m) => m.toolCallId === 'tc-read')
+      expect(toolResultMsg?.content).toStrictEqual(parts)
+    })
+
+    it('step() はコンテンツパート配列の入力を受け付ける', async () => {
+      mockProvider.complete.mockResolvedValueOnce(ok<LLMResponse>({ content: 'A dog.' }))
+      const input = [
+        { type: 'text', text: 'What is this?' },
+        { type: 'image', mimeType: 'image/jpeg', data: '/9j/4AAQ' },
+      ] as const
+
+      const loop = new AgentLoop({ provider: mockProvider, tools, handler })
+      const result = await loop.step(input)
+
+      expect(result).toStrictEqual(ok('A dog.'))
+      expect(loop.getMessages()[0]).toStrictEqual({ role: 'user', content: input })
+    })
+
     it('ツール呼び出し後にテキスト応答→ループ終了', async () => {
       const calcTool = createDummyTool('calc', () =>
         Promise.resolve({
@@ -545,132 +730,1174 @@ describe('AgentLoop', () => {
   })
 
   // -------------------------------------------------------------------------
-  // run()
+  // step() — tool concurrency
   // -------------------------------------------------------------------------
-  describe('run()', () => {
-    it('複数入力を順番に処理', async () => {
-      // Each input gets a simple text response
-      mockProvider.complete
-        .mockResolvedValueOnce(ok<LLMResponse>({ content: 'Reply 1' }))
-        .mockResolvedValueOnce(ok<LLMResponse>({ content: 'Reply 2' }))
-        .mockResolvedValueOnce(ok<LLMResponse>({ content: 'Reply 3' }))
+  describe('step() — tool concurrency', () => {
+    /** 実行中のツール数の最大値を記録する遅延ツールを生成する */
+    function createTrackedTools(
+      specs: ReadonlyArray<{ name: string; delayMs: number; safe: boolean }>,
+    ): { maxInFlight: () => number; finishOrder: string[] } {
+      let inFlight = 0
+      let max = 0
+      const finishOrder: string[] = []
+      for (const spec of specs) {
+        tools.register(
+          createDummyTool(
+            spec.name,
+            async () => {
+              inFlight++
+              max = Math.max(max, inFlight)
+              await new Promise((r) => setTimeout(r, spec.delayMs))
+              inFlight--
+              finishOrder.push(spec.name)
+              return { ok: true, output: `${spec.name} done` }
+            },
+            spec.safe,
+          ),
+        )
+      }
+      return { maxInFlight: () => max, finishOrder }
+    }
+
+    it("'parallel' では concurrencySafe なツールを並行実行し、結果は呼び出し順で追加", async () => {
+      const tracked = createTrackedTools([
+        { name: 'slowRead', delayMs: 30, safe: true },
+        { name: 'fastRead', delayMs: 5, safe: true },
+      ])
+
+      mockProvider.complete.mockResolvedValueOnce(
+        ok<LLMResponse>({
+          content: '',
+          toolCalls: [
+            { id: 'tc-slow', name: 'slowRead', arguments: {} },
+            { id: 'tc-fast', name: 'fastRead', arguments: {} },
+          ],
+        }),
+      )
+      mockProvider.complete.mockResolvedValueOnce(ok<LLMResponse>({ content: 'Done.' }))
 
       const loop = new AgentLoop({
         provider: mockProvider,
         tools,
         handler,
+        toolConcurrency: 'parallel',
       })
 
-      const inputSource = arrayToAsyncIterable(['Input 1', 'Input 2', 'Input 3'])
-      const result = await loop.run(inputSource)
+      await loop.step('Read both')
 
-      expect(result).toStrictEqual(ok(undefined))
-      expect(mockProvider.complete).toHaveBeenCalledTimes(3)
-      expect(handler.onResponse).toHaveBeenCalledWith('Reply 1')
-      expect(handler.onResponse).toHaveBeenCalledWith('Reply 2')
-      expect(handler.onResponse).toHaveBeenCalledWith('Reply 3')
+      expect(tracked.maxInFlight()).toBe(2)
+      expect(tracked.finishOrder).toStrictEqual(['fastRead', 'slowRead'])
+      const toolResultIds = loop
+        .getMessages()
+        .filter((m) => m.toolCallId !== undefined)
+        .map((m) => m.toolCallId)
+      expect(toolResultIds).toStrictEqual(['tc-slow', 'tc-fast'])
     })
 
-    it('loopHook が true → 正常終了', async () => {
-      mockProvider.complete
-        .mockResolvedValueOnce(ok<LLMResponse>({ content: 'Reply 1' }))
-        .mockResolvedValueOnce(ok<LLMResponse>({ content: 'Reply 2' }))
+    it("'parallel' でも concurrencySafe でないツールは単独で実行し順序を保つ", async () => {
+      const tracked = createTrackedTools([
+        { name: 'readA', delayMs: 5, safe: true },
+        { name: 'writeB', delayMs: 5, safe: false },
+        { name: 'readC', delayMs: 5, safe: true },
+      ])
+
+      mockProvider.complete.mockResolvedValueOnce(
+        ok<LLMResponse>({
+          content: '',
+          toolCalls: [
+            { id: 'tc-a', name: 'readA', arguments: {} },
+            { id: 'tc-b', name: 'writeB', arguments: {} },
+            { id: 'tc-c', name: 'readC', arguments: {} },
+          ],
+        }),
+      )
+      mockProvider.complete.mockResolvedValueOnce(ok<LLMResponse>({ content: 'Done.' }))
 
       const loop = new AgentLoop({
         provider: mockProvider,
         tools,
         handler,
+        toolConcurrency: 'parallel',
       })
 
-      let stepCount = 0
-      const loopHook = (): Promise<boolean> => {
-        stepCount++
-        // Return true (= stop) after the first step
-        return Promise.resolve(stepCount >= 1)
-      }
+      await loop.step('Mixed')
 
-      const inputSource = arrayToAsyncIterable(['Input 1', 'Input 2'])
-      const result = await loop.run(inputSource, loopHook)
+      expect(tracked.maxInFlight()).toBe(1)
+      expect(tracked.finishOrder).toStrictEqual(['readA', 'writeB', 'readC'])
+    })
 
-      expect(result).toStrictEqual(ok(undefined))
-      // Only one step should have been processed because loopHook returned true
-      expect(mockProvider.complete).toHaveBeenCalledTimes(1)
+    it('toolConcurrency 省略時は concurrencySafe なツールも順番に実行', async () => {
+      const tracked = createTrackedTools([
+        { name: 'slowRead', delayMs: 20, safe: true },
+        { name: 'fastRead', delayMs: 5, safe: true },
+      ])
+
+      mockProvider.complete.mockResolvedValueOnce(
+        ok<LLMResponse>({
+          content: '',
+          toolCalls: [
+            { id: 'tc-slow', name: 'slowRead', arguments: {} },
+            { id: 'tc-fast', name: 'fastRead', arguments: {} },
+          ],
+        }),
+      )
+      mockProvider.complete.mockResolvedValueOnce(ok<LLMResponse>({ content: 'Done.' }))
+
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler,
+      })
+
+      await loop.step('Read both')
+
+      expect(tracked.maxInFlight()).toBe(1)
+      expect(tracked.finishOrder).toStrictEqual(['slowRead', 'fastRead'])
     })
+  })
 
-    it('signal abort → err', async () => {
-      const controller = new AbortController()
+  // -------------------------------------------------------------------------
+  // step() — streaming
+  // -------------------------------------------------------------------------
+  describe('step() — streaming', () => {
+    it('delta ごとに onDelta を呼び、結合したテキストで onResponse', async () => {
+      const streamingProvider = createMockStreamingProvider()
+      const usage: TokenUsage = { inputTokens: 10, outputTokens: 5 }
+      streamingProvider.stream.mockReturnValueOnce(
+        chunksToAsyncIterable([
+          { type: 'delta', content: 'Hel' },
+          { type: 'delta', content: 'lo!' },
+          { type: 'done', usage },
+        ]),
+      )
 
-      mockProvider.complete.mockImplementation(() => {
-        // Abort after the first complete call
-        controller.abort()
-        return Promise.resolve(ok<LLMResponse>({ content: 'Reply' }))
+      const loop = new AgentLoop({
+        provider: streamingProvider,
+        tools,
+        handler,
+        stream: true,
       })
 
+      const result = await loop.step('Hi')
+      expect(result).toStrictEqual(ok('Hello!'))
+      expect(handler.onDelta.mock.calls).toStrictEqual([['Hel'], ['lo!']])
+      expect(handler.onResponse).toHaveBeenCalledWith('Hello!')
+      expect(handler.onUsage).toHaveBeenCalledWith(usage)
+      expect(streamingProvider.complete).not.toHaveBeenCalled()
+      expect(loop.getMessages()[1]).toStrictEqual({ role: 'assistant', content: 'Hello!' })
+    })
+
+    it('done チャンクの metadata を onResponse に渡す', async () => {
+      const streamingProvider = createMockStreamingProvider()
+      const metadata = { provider: 'openai', model: 'gpt-4o' }
+      streamingProvider.stream.mockReturnValueOnce(
+        chunksToAsyncIterable([
+          { type: 'delta', content: 'Hi' },
+          { type: 'done', metadata },
+        ]),
+      )
+
       const loop = new AgentLoop({
-        provider: mockProvider,
+        provider: streamingProvider,
         tools,
         handler,
-        signal: controller.signal,
+        stream: true,
       })
 
-      const inputSource = arrayToAsyncIterable(['Input 1', 'Input 2', 'Input 3'])
-      const result = await loop.run(inputSource)
+      await loop.step('Hello')
+      expect(handler.onResponse).toHaveBeenCalledWith('Hi', metadata)
+    })
 
-      expect(result.ok).toBe(false)
-      if (!result.ok) {
-        expect(result.error).toBe('Aborted')
+    it('tool_call チャンクを組み立ててツールを実行する', async () => {
+      const streamingProvider = createMockStreamingProvider()
+      const echoTool = createDummyTool('echo', (args) =>
+        Promise.resolve({ ok: true, output: `echoed: ${String(args['text'])}` }),
+      )
+      tools.register(echoTool)
+
+      streamingProvider.stream
+        .mockReturnValueOnce(
+          chunksToAsyncIterable([
+            { type: 'delta', content: 'Calling echo' },
+            {
+              type: 'tool_call',
+              toolCall: { id: 'tc-1', name: 'echo', arguments: { text: 'hi' } },
+            },
+            { type: 'done' },
+          ]),
+        )
+        .mockReturnValueOnce(
+          chunksToAsyncIterable([{ type: 'delta', content: 'Done.' }, { type: 'done' }]),
+        )
+
+      const loop = new AgentLoop({
+        provider: streamingProvider,
+        tools,
+        handler,
+        stream: true,
+      })
+
+      const result = await loop.step('Echo hi')
+      expect(result).toStrictEqual(ok('Done.'))
+      expect(handler.onToolStart).toHaveBeenCalledWith('echo', { text: 'hi' })
+
+      const messages = loop.getMessages()
+      expect(messages[1]).toStrictEqual({
+        role: 'assistant',
+        content: 'Calling echo',
+        toolCalls: [{ id: 'tc-1', name: 'echo', arguments: { text: 'hi' } }],
+      })
+      expect(messages[2]).toStrictEqual({
+        role: 'user',
+        content: 'echoed: hi',
+        toolCallId: 'tc-1',
+        name: 'echo',
+      })
+    })
+
+    it('stream() が例外をスローした場合 onError + err', async () => {
+      const streamingProvider = createMockStreamingProvider()
+      // eslint-disable-next-line require-yield -- 例外スローのみを行うジェネレータ
+      async function* failing(): AsyncIterable<StreamChunk> {
+        await Promise.resolve()
+        throw new Error('stream broke')
       }
+      streamingProvider.stream.mockReturnValueOnce(failing())
+
+      const loop = new AgentLoop({
+        provider: streamingProvider,
+        tools,
+        handler,
+        stream: true,
+      })
+
+      const result = await loop.step('Hi')
+      expect(result).toStrictEqual(err('stream broke'))
+      expect(handler.onError).toHaveBeenCalledWith('stream broke')
     })
 
-    it('step エラーでもループ続行', async () => {
-      // 1st step: LLM error
-      mockProvider.complete.mockResolvedValueOnce(err('Temporary error'))
-      // 2nd step: success
-      mockProvider.complete.mockResolvedValueOnce(
-        ok<LLMResponse>({ content: 'Success on second try' }),
-      )
+    it('stream 未指定の場合は stream() があっても complete() を使う', async () => {
+      const streamingProvider = createMockStreamingProvider()
+      streamingProvider.complete.mockResolvedValueOnce(ok<LLMResponse>({ content: 'Complete' }))
 
       const loop = new AgentLoop({
-        provider: mockProvider,
+        provider: streamingProvider,
         tools,
         handler,
       })
 
-      const inputSource = arrayToAsyncIterable(['Input 1', 'Input 2'])
-      const result = await loop.run(inputSource)
+      const result = await loop.step('Hi')
+      expect(result).toStrictEqual(ok('Complete'))
+      expect(streamingProvider.stream).not.toHaveBeenCalled()
+      expect(handler.onDelta).not.toHaveBeenCalled()
+    })
 
-      expect(result).toStrictEqual(ok(undefined))
-      // Both inputs should have been processed
-      expect(mockProvider.complete).toHaveBeenCalledTimes(2)
-      expect(handler.onError).toHaveBeenCalledWith('Temporary error')
-      expect(handler.onResponse).toHaveBeenCalledWith('Success on second try')
+    it('stream: true でもプロバイダーが stream() を持たなければ complete() を使う', async () => {
+      mockProvider.complete.mockResolvedValueOnce(ok<LLMResponse>({ content: 'Fallback' }))
+
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler,
+        stream: true,
+      })
+
+      const result = await loop.step('Hi')
+      expect(result).toStrictEqual(ok('Fallback'))
+      expect(handler.onDelta).not.toHaveBeenCalled()
     })
   })
-})
 
-// ---------------------------------------------------------------------------
-// createNoopHandler
-// ---------------------------------------------------------------------------
-describe('createNoopHandler', () => {
-  it('全コールバックが関数として存在する', () => {
-    const handler = createNoopHandler()
-    expect(typeof handler.onResponse).toBe('function')
-    expect(typeof handler.onToolStart).toBe('function')
-    expect(typeof handler.onToolEnd).toBe('function')
-    expect(typeof handler.onStateChange).toBe('function')
-    expect(typeof handler.onError).toBe('function')
+  // -------------------------------------------------------------------------
+  // step() — context compaction
+  // -------------------------------------------------------------------------
+  describe('step() — reasoning', () => {
+    it('応答の推論テキストを onReasoning で通知し、thinking を assistant メッセージに残す', async () => {
+      const thinking = [
+        { text: 'I need the file.', signature: 'sig-1' },
+        { text: '', redactedData: 'encrypted' },
+      ]
+      tools.register(createDummyTool('read'))
+      mockProvider.complete.mockResolvedValueOnce(
+        ok<LLMResponse>({
+          content: '',
+          thinking,
+          toolCalls: [{ id: 'tc-1', name: 'read', arguments: {} }],
+        }),
+      )
+      mockProvider.complete.mockResolvedValueOnce(ok<LLMResponse>({ content: 'Done' }))
+
+      const loop = new AgentLoop({ provider: mockProvider, tools, handler })
+      await loop.step('Read it')
+
+      expect(handler.onReasoning.mock.calls).toStrictEqual([['I need the file.']])
+      expect(loop.getMessages()[1]).toStrictEqual({
+        role: 'assistant',
+        content: '',
+        toolCalls: [{ id: 'tc-1', name: 'read', arguments: {} }],
+        thinking,
+      })
+      expect(loop.getMessages()[3]).toStrictEqual({ role: 'assistant', content: 'Done' })
+    })
+
+    it('ストリーミングでは thinking チャンクを集約し、完了後に onReasoning を1回呼ぶ', async () => {
+      const streamingProvider = createMockStreamingProvider()
+      streamingProvider.stream.mockReturnValueOnce(
+        chunksToAsyncIterable([
+          { type: 'thinking_delta', content: 'Let me ' },
+          { type: 'thinking_delta', content: 'think.' },
+          { type: 'thinking', thinking: { text: 'Let me think.', signature: 'sig' } },
+          { type: 'delta', content: 'Answer' },
+          { type: 'done' },
+        ]),
+      )
+
+      const loop = new AgentLoop({ provider: streamingProvider, tools, handler, stream: true })
+      await loop.step('Hi')
+
+      expect(handler.onReasoning.mock.calls).toStrictEqual([['Let me think.']])
+      expect(handler.onDelta.mock.calls).toStrictEqual([['Answer']])
+      expect(loop.getMessages()[1]).toStrictEqual({
+        role: 'assistant',
+        content: 'Answer',
+        thinking: [{ text: 'Let me think.', signature: 'sig' }],
+      })
+    })
+
+    it('推論がなければ onReasoning を呼ばない', async () => {
+      mockProvider.complete.mockResolvedValueOnce(ok<LLMResponse>({ content: 'Hi' }))
+
+      const loop = new AgentLoop({ provider: mockProvider, tools, handler })
+      await loop.step('Hello')
+
+      expect(handler.onReasoning).not.toHaveBeenCalled()
+    })
   })
 
-  it('呼び出してもエラーにならない', async () => {
-    const handler = createNoopHandler()
-    // All callbacks should be callable without throwing
-    await handler.onResponse('test')
-    await handler.onToolStart('tool', {})
-    await handler.onToolEnd('tool', { ok: true, output: 'out' })
-    await handler.onStateChange('idle')
+  describe('step() — structured output', () => {
+    const responseFormat = {
+      name: 'summary',
+      schema: {
+        type: 'object',
+        properties: { title: { type: 'string' }, count: { type: 'integer' } },
+        required: ['title', 'count'],
+      },
+    }
+
+    it('responseFormat をプロバイダーに渡し、検証済みの JSON テキストを返す', async () => {
+      mockProvider.complete.mockResolvedValueOnce(
+        ok<LLMResponse>({ content: '```json\n{ "title": "Report", "count": 3 }\n```' }),
+      )
+
+      const loop = new AgentLoop({ provider: mockProvider, tools, handler })
+      const result = await loop.step('Summarize', { responseFormat })
+
+      expect(result).toStrictEqual({ ok: true, data: '{"title":"Report","count":3}' })
+      expect(mockProvider.complete.mock.calls[0]?.[2]).toStrictEqual({ responseFormat })
+      expect(handler.onError).not.toHaveBeenCalled()
+    })
+
+    it('ストリーミングでも responseFormat をプロバイダーに渡す', async () => {
+      const streamingProvider = createMockStreamingProvider()
+      streamingProvider.stream.mockReturnValueOnce(
+        chunksToAsyncIterable([
+          { type: 'delta', content: '{"title":"A",' },
+          { type: 'delta', content: '"count":1}' },
+          { type: 'done' },
+        ]),
+      )
+
+      const loop = new AgentLoop({ provider: streamingProvider, tools, handler, stream: true })
+      const result = await loop.step('Summarize', { responseFormat })
+
+      expect(result).toStrictEqual({ ok: true, data: '{"title":"A","count":1}' })
+      expect(streamingProvider.stream.mock.calls[0]?.[2]).toStrictEqual({ responseFormat })
+    })
+
+    it('スキーマ違反の応答には違反内容を伝えて再要求する', async () => {
+      mockProvider.complete.mockResolvedValueOnce(ok<LLMResponse>({ content: '{"title":"A"}' }))
+      mockProvider.complete.mockResolvedValueOnce(
+        ok<LLMResponse>({ content: '{"title":"A","count":2}' }),
+      )
+
+      const loop = new AgentLoop({ provider: mockProvider, tools, handler })
+      const result = await loop.step('Summarize', { responseFormat })
+
+      expect(result).toStrictEqual({ ok: true, data: '{"title":"A","count":2}' })
+      expect(mockProvider.complete).toHaveBeenCalledTimes(2)
+      expect(loop.getMessages()[2]).toStrictEqual({
+        role: 'user',
+        content:
+          'Response does not match the schema:\n- $.count: is required\n' +
+          'Respond again with only a JSON value that matches the required schema.',
+      })
+      expect(handler.onResponse).toHaveBeenCalledTimes(1)
+    })
+
+    it('maxSchemaRetries 回再要求しても違反が続く場合は onError を呼び err を返す', async () => {
+      mockProvider.complete.mockResolvedValue(ok<LLMResponse>({ content: 'not json' }))
+
+      const loop = new AgentLoop({ provider: mockProvider, tools, handler })
+      const result = await loop.step('Summarize', { responseFormat, maxSchemaRetries: 1 })
+
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.error).toMatch(/^Response is not valid JSON: /)
+        expect(handler.onError).toHaveBeenCalledWith(result.error)
+      }
+      expect(mockProvider.complete).toHaveBeenCalledTimes(2)
+      expect(handler.onResponse).not.toHaveBeenCalled()
+    })
+
+    it('responseFormat 未指定時はプロバイダーにオプションを渡さず応答をそのまま返す', async () => {
+      mockProvider.complete.mockResolvedValueOnce(ok<LLMResponse>({ content: 'not json' }))
+
+      const loop = new AgentLoop({ provider: mockProvider, tools, handler })
+      const result = await loop.step('Hi')
+
+      expect(result).toStrictEqual({ ok: true, data: 'not json' })
+      expect(mockProvider.complete.mock.calls[0]).toHaveLength(2)
+    })
+  })
+
+  describe('step() — tool choice', () => {
+    it('toolChoice をプロバイダーに渡す', async () => {
+      mockProvider.complete.mockResolvedValueOnce(ok<LLMResponse>({ content: 'Hi' }))
+
+      const loop = new AgentLoop({ provider: mockProvider, tools, handler })
+      await loop.step('Hello', { toolChoice: 'none' })
+
+      expect(mockProvider.complete.mock.calls[0]?.[2]).toStrictEqual({ toolChoice: 'none' })
+    })
+
+    it('ツール指名はターン最初の呼び出しにのみ適用し、ツール実行後は既定に戻す', async () => {
+      tools.register(createDummyTool('write'))
+      mockProvider.complete.mockResolvedValueOnce(
+        ok<LLMResponse>({
+          content: '',
+          toolCalls: [{ id: 'tc-1', name: 'write', arguments: {} }],
+        }),
+      )
+      mockProvider.complete.mockResolvedValueOnce(ok<LLMResponse>({ content: '{"done":true}' }))
+      const responseFormat = { schema: { type: 'object' } }
+
+      const loop = new AgentLoop({ provider: mockProvider, tools, handler })
+      const result = await loop.step('Write it', {
+        toolChoice: { name: 'write' },
+        responseFormat,
+      })
+
+      expect(result).toStrictEqual({ ok: true, data: '{"done":true}' })
+      expect(mockProvider.complete.mock.calls[0]?.[2]).toStrictEqual({
+        responseFormat,
+        toolChoice: { name: 'write' },
+      })
+      expect(mockProvider.complete.mock.calls[1]?.[2]).toStrictEqual({ responseFormat })
+    })
+
+    it('未登録のツールを指名した場合は LLM を呼ばずに err を返す', async () => {
+      const loop = new AgentLoop({ provider: mockProvider, tools, handler })
+      const result = await loop.step('Hello', { toolChoice: { name: 'missing' } })
+
+      expect(result).toStrictEqual({ ok: false, error: 'Unknown tool for toolChoice: missing' })
+      expect(handler.onError).toHaveBeenCalledWith('Unknown tool for toolChoice: missing')
+      expect(mockProvider.complete).not.toHaveBeenCalled()
+      expect(loop.getMessages()).toHaveLength(0)
+    })
+  })
+
+  describe('step() — usage ledger', () => {
+    const usage: TokenUsage = { inputTokens: 1000, outputTokens: 100 }
+
+    it('usageSource のモデルで使用量を記録し、ターン終了時に onTurnUsage を呼ぶ', async () => {
+      mockProvider.complete.mockResolvedValueOnce(ok<LLMResponse>({ content: 'Hi', usage }))
+      const usageLedger = createUsageLedger()
+      const onTurnUsage = vi.fn<(snapshot: UsageSnapshot) => void>()
+
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler: { ...handler, onTurnUsage },
+        usageLedger,
+        usageSource: { provider: 'claude', model: 'claude-sonnet-4-20250514' },
+      })
+      await loop.step('Hello')
+
+      expect(onTurnUsage).toHaveBeenCalledTimes(1)
+      const snapshot = onTurnUsage.mock.calls[0]?.[0]
+      expect(snapshot?.turn.inputTokens).toBe(1000)
+      expect(snapshot?.byModel).toStrictEqual([
+        expect.objectContaining({
+          provider: 'claude',
+          model: 'claude-sonnet-4-20250514',
+          priced: true,
+          requests: 1,
+        }),
+      ])
+    })
+
+    it('応答の metadata があれば metadata のモデルで記録し onUsage にも渡す', async () => {
+      const metadata = { provider: 'openai', model: 'gpt-4o' }
+      mockProvider.complete.mockResolvedValueOnce(
+        ok<LLMResponse>({ content: 'Hi', usage, metadata }),
+      )
+      const usageLedger = createUsageLedger()
+
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler,
+        usageLedger,
+        usageSource: { provider: 'claude', model: 'claude-sonnet-4-20250514' },
+      })
+      await loop.step('Hello')
+
+      expect(handler.onUsage).toHaveBeenCalledWith(usage, metadata)
+      expect(usageLedger.getSnapshot().byModel.map((m) => m.model)).toStrictEqual(['gpt-4o'])
+    })
+
+    it('ターンごとに turn の集計をリセットし、session には累積する', async () => {
+      mockProvider.complete
+        .mockResolvedValueOnce(ok<LLMResponse>({ content: 'A', usage }))
+        .mockResolvedValueOnce(ok<LLMResponse>({ content: 'B', usage }))
+      const usageLedger = createUsageLedger()
+
+      const loop = new AgentLoop({ provider: mockProvider, tools, handler, usageLedger })
+      await loop.step('1')
+      await loop.step('2')
+
+      const snapshot = usageLedger.getSnapshot()
+      expect(snapshot.turn.inputTokens).toBe(1000)
+      expect(snapshot.session.inputTokens).toBe(2000)
+      expect(snapshot.byModel[0]).toMatchObject({ provider: 'unknown', model: 'unknown' })
+    })
+
+    it('上限に達したら次の LLM 呼び出しの前にエラーで停止する', async () => {
+      tools.register(createDummyTool('read'))
+      mockProvider.complete.mockResolvedValueOnce(
+        ok<LLMResponse>({
+          content: '',
+          toolCalls: [{ id: 'tc-1', name: 'read', arguments: {} }],
+          usage,
+        }),
+      )
+      const usageLedger = createUsageLedger({ budget: { maxTokens: 1000 } })
+
+      const loop = new AgentLoop({ provider: mockProvider, tools, handler, usageLedger })
+      const result = await loop.step('Hello')
+
+      const message = 'Usage budget exceeded: 1100 tokens reached the limit of 1000'
+      expect(result).toStrictEqual({ ok: false, error: message })
+      expect(handler.onError).toHaveBeenCalledWith(message)
+      expect(mockProvider.complete).toHaveBeenCalledTimes(1)
+    })
+
+    it('上限に達した後の step() は LLM を呼び出さない', async () => {
+      mockProvider.complete.mockResolvedValueOnce(ok<LLMResponse>({ content: 'Hi', usage }))
+      const usageLedger = createUsageLedger({
+        pricing: { 'test-model': { input: 1000, output: 1000 } },
+        budget: { maxCostUsd: 1 },
+      })
+
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler,
+        usageLedger,
+        usageSource: { provider: 'test', model: 'test-model' },
+      })
+      const first = await loop.step('1')
+      const second = await loop.step('2')
+
+      expect(first.ok).toBe(true)
+      expect(second).toStrictEqual({
+        ok: false,
+        error: 'Usage budget exceeded: estimated cost $1.1000 reached the limit of $1',
+      })
+      expect(mockProvider.complete).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('step() — context compaction', () => {
+    it('contextManager の結果で履歴を置き換え onCompaction を呼ぶ', async () => {
+      const summary: Message = { role: 'system', content: 'summary' }
+      const contextManager: ContextManager = {
+        compact: (messages: readonly Message[]) =>
+          Promise.resolve(
+            ok({
+              messages: [summary, ...messages.slice(-1)],
+              removedMessages: messages.length - 1,
+              tokensBefore: 500,
+              tokensAfter: 50,
+            }),
+          ),
+      }
+      let sentMessages: Message[] = []
+      mockProvider.complete.mockImplementationOnce((messages) => {
+        sentMessages = [...messages]
+        return Promise.resolve(ok<LLMResponse>({ content: 'Reply' }))
+      })
+
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler,
+        systemMessage: 'sys',
+        contextManager,
+      })
+
+      await loop.step('Hello')
+
+      expect(sentMessages).toStrictEqual([summary, { role: 'user', content: 'Hello' }])
+      expect(handler.onCompaction).toHaveBeenCalledWith({
+        removedMessages: 1,
+        tokensBefore: 500,
+        tokensAfter: 50,
+      })
+      expect(loop.getMessages()).toStrictEqual([
+        summary,
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'Reply' },
+      ])
+    })
+
+    it('要約のトークン使用量を usageLedger に記録し、上限の判定に含める', async () => {
+      tools.register(createDummyTool('read'))
+      const usage: TokenUsage = { inputTokens: 900, outputTokens: 100 }
+      const metadata = { provider: 'ollama', model: 'llama3' }
+      const compact = vi.fn<ContextManager['compact']>((messages) =>
+        Promise.resolve(
+          ok({ messages, removedMessages: 0, tokensBefore: 10, tokensAfter: 10, usage, metadata }),
+        ),
+      )
+      mockProvider.complete.mockResolvedValueOnce(
+        ok<LLMResponse>({
+          content: '',
+          toolCalls: [{ id: 'tc-1', name: 'read', arguments: {} }],
+        }),
+      )
+      const usageLedger = createUsageLedger({ budget: { maxTokens: 1000 } })
+
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler,
+        usageLedger,
+        contextManager: { compact },
+      })
+      const result = await loop.step('Hello')
+
+      expect(result).toStrictEqual({
+        ok: false,
+        error: 'Usage budget exceeded: 1000 tokens reached the limit of 1000',
+      })
+      expect(handler.onUsage).toHaveBeenCalledWith(usage, metadata)
+      expect(handler.onCompaction).toHaveBeenCalledWith({
+        removedMessages: 0,
+        tokensBefore: 10,
+        tokensAfter: 10,
+      })
+      expect(usageLedger.getSnapshot().byModel).toStrictEqual([
+        expect.objectContaining({ provider: 'ollama', model: 'llama3', requests: 1 }),
+      ])
+      expect(mockProvider.complete).toHaveBeenCalledTimes(1)
+    })
+
+    it('圧縮不要（ok(undefined)）なら履歴はそのまま', async () => {
+      const compact = vi.fn<ContextManager['compact']>(() => Promise.resolve(ok(undefined)))
+      mockProvider.complete.mockResolvedValueOnce(ok<LLMResponse>({ content: 'Reply' }))
+
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler,
+        contextManager: { compact },
+      })
+      await loop.step('Hello')
+
+      expect(compact).toHaveBeenCalledTimes(1)
+      expect(handler.onCompaction).not.toHaveBeenCalled()
+      expect(loop.getMessages()).toHaveLength(2)
+    })
+
+    it('圧縮の失敗は onError で通知し、ターンは続行する', async () => {
+      const contextManager: ContextManager = {
+        compact: () => Promise.resolve(err('summarize failed')),
+      }
+      mockProvider.complete.mockResolvedValueOnce(ok<LLMResponse>({ content: 'Reply' }))
+
+      const loop = new AgentLoop({ provider: mockProvider, tools, handler, contextManager })
+      const result = await loop.step('Hello')
+
+      expect(result).toStrictEqual(ok('Reply'))
+      expect(handler.onError).toHaveBeenCalledWith('summarize failed')
+    })
+  })
+
+  // -------------------------------------------------------------------------
+  // tool approval
+  // -------------------------------------------------------------------------
+  describe('step() — tool approval', () => {
+    type ApprovalFn = (
+      name: string,
+      args: Record<string, unknown>,
+      reason?: string,
+    ) => Promise<ApprovalDecision>
+
+    /**
+     * shell ツールを1回呼び出してからテキストで応答する LLM を設定する
+     * （assess を渡すとツールが引数に応じた承認モードを返す）
+     */
+    function setupShellCall(
+      assess?: ToolDefinition['assess'],
+    ): ReturnType<typeof vi.fn<(args: Record<string, unknown>) => Promise<ToolResult>>> {
+      const execute = vi.fn<(args: Record<string, unknown>) => Promise<ToolResult>>(() =>
+        Promise.resolve({ ok: true, output: 'shell done' }),
+      )
+      tools.register({
+        ...createDummyTool('shell', execute),
+        ...(assess !== undefined ? { assess } : {}),
+      })
+      mockProvider.complete
+        .mockResolvedValueOnce(
+          ok<LLMResponse>({
+            content: '',
+            toolCalls: [{ id: 'tc-1', name: 'shell', arguments: { command: 'ls' } }],
+          }),
+        )
+        .mockResolvedValueOnce(ok<LLMResponse>({ content: 'Done' }))
+      return execute
+    }
+
+    /** LLM に返されたツール結果メッセージを取得する */
+    function toolResultContent(loop: AgentLoop): MessageContent | undefined {
+      return loop.getMessages().find((m) => m.toolCallId === 'tc-1')?.content
+    }
+
+    it('approvalPolicy 未指定なら確認せずに実行する', async () => {
+      const execute = setupShellCall()
+      const onApprovalRequest = vi.fn<ApprovalFn>()
+
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler: { ...handler, onApprovalRequest },
+      })
+      await loop.step('run ls')
+
+      expect(execute).toHaveBeenCalledTimes(1)
+      expect(onApprovalRequest).not.toHaveBeenCalled()
+    })
+
+    it('ask のツールは onApprovalRequest で許可されたら実行する', async () => {
+      const execute = setupShellCall()
+      const onApprovalRequest = vi.fn<ApprovalFn>(() => Promise.resolve('allow'))
+
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler: { ...handler, onApprovalRequest },
+        approvalPolicy: createApprovalPolicy({ tools: { shell: 'ask' } }),
+      })
+      await loop.step('run ls')
+
+      expect(onApprovalRequest).toHaveBeenCalledWith('shell', { command: 'ls' })
+      expect(execute).toHaveBeenCalledTimes(1)
+      expect(toolResultContent(loop)).toBe('shell done')
+    })
+
+    it('ask のツールが拒否された場合は実行せず、拒否を LLM にフィードバックする', async () => {
+      const execute = setupShellCall()
+      const onApprovalRequest = vi.fn<ApprovalFn>(() => Promise.resolve('deny'))
+
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler: { ...handler, onApprovalRequest },
+        approvalPolicy: createApprovalPolicy({ tools: { shell: 'ask' } }),
+      })
+      const result = await loop.step('run ls')
+
+      expect(result).toStrictEqual(ok('Done'))
+      expect(execute).not.toHaveBeenCalled()
+      expect(handler.onToolStart).not.toHaveBeenCalled()
+      expect(toolResultContent(loop)).toBe('Tool call denied by user: shell')
+    })
+
+    it('allow-always の後は同じツールを確認せずに実行する', async () => {
+      const execute = setupShellCall()
+      mockProvider.complete
+        .mockResolvedValueOnce(
+          ok<LLMResponse>({
+            content: '',
+            toolCalls: [{ id: 'tc-2', name: 'shell', arguments: { command: 'pwd' } }],
+          }),
+        )
+        .mockResolvedValueOnce(ok<LLMResponse>({ content: 'Done again' }))
+      const onApprovalRequest = vi.fn<ApprovalFn>(() => Promise.resolve('allow-always'))
+
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler: { ...handler, onApprovalRequest },
+        approvalPolicy: createApprovalPolicy({ tools: { shell: 'ask' } }),
+      })
+      await loop.step('run ls')
+      await loop.step('run pwd')
+
+      expect(onApprovalRequest).toHaveBeenCalledTimes(1)
+      expect(execute).toHaveBeenCalledTimes(2)
+    })
+
+    it('deny のツールは onApprovalRequest を呼ばずに拒否する', async () => {
+      const execute = setupShellCall()
+      const onApprovalRequest = vi.fn<ApprovalFn>()
+
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler: { ...handler, onApprovalRequest },
+        approvalPolicy: createApprovalPolicy({ tools: { 'sh*': 'deny' } }),
+      })
+      await loop.step('run ls')
+
+      expect(onApprovalRequest).not.toHaveBeenCalled()
+      expect(execute).not.toHaveBeenCalled()
+      expect(toolResultContent(loop)).toBe('Tool call denied by policy: shell')
+    })
+
+    it('onApprovalRequest がないハンドラでは ask のツールを拒否する', async () => {
+      const execute = setupShellCall()
+
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler,
+        approvalPolicy: createApprovalPolicy({ default: 'ask' }),
+      })
+      await loop.step('run ls')
+
+      expect(execute).not.toHaveBeenCalled()
+      expect(toolResultContent(loop)).toBe('Tool call denied (no approval handler): shell')
+    })
+
+    it('assess() が ask を返した呼び出しは approvalPolicy がなくても理由を添えて確認する', async () => {
+      const execute = setupShellCall(() => ({ mode: 'ask', reason: 'Recursive delete: rm -r x' }))
+      const onApprovalRequest = vi.fn<ApprovalFn>(() => Promise.resolve('allow-always'))
+
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler: { ...handler, onApprovalRequest },
+        approvalPolicy: createApprovalPolicy({ tools: { shell: 'auto' } }),
+      })
+      await loop.step('run ls')
+
+      expect(onApprovalRequest).toHaveBeenCalledWith(
+        'shell',
+        { command: 'ls' },
+        'Recursive delete: rm -r x',
+      )
+      expect(execute).toHaveBeenCalledTimes(1)
+
+      // allow-always 済みでも assess() の ask は毎回確認する
+      mockProvider.complete
+        .mockResolvedValueOnce(
+          ok<LLMResponse>({
+            content: '',
+            toolCalls: [{ id: 'tc-2', name: 'shell', arguments: { command: 'ls' } }],
+          }),
+        )
+        .mockResolvedValueOnce(ok<LLMResponse>({ content: 'Done again' }))
+      await loop.step('run ls again')
+      expect(onApprovalRequest).toHaveBeenCalledTimes(2)
+    })
+
+    it('assess() が deny を返した呼び出しは理由を LLM にフィードバックして拒否する', async () => {
+      const execute = setupShellCall(() => ({ mode: 'deny', reason: 'Command denied' }))
+      const onApprovalRequest = vi.fn<ApprovalFn>()
+
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler: { ...handler, onApprovalRequest },
+      })
+      await loop.step('run ls')
+
+      expect(onApprovalRequest).not.toHaveBeenCalled()
+      expect(execute).not.toHaveBeenCalled()
+      expect(toolResultContent(loop)).toBe('Tool call denied by policy: shell (Command denied)')
+    })
+  })
+
+  // -------------------------------------------------------------------------
+  // session persistence
+  // -------------------------------------------------------------------------
+  describe('session persistence', () => {
+    it('sessionStore 未指定なら getSessionId() は undefined', () => {
+      const loop = new AgentLoop({ provider: mockProvider, tools, handler })
+      expect(loop.getSessionId()).toBeUndefined()
+    })
+
+    it('sessionId 省略時はランダムな ID を生成する', () => {
+      const { store } = createMemorySessionStore()
+      const loop = new AgentLoop({ provider: mockProvider, tools, handler, sessionStore: store })
+      expect(loop.getSessionId()).toMatch(/^[0-9a-f-]{36}$/)
+    })
+
+    it('追加されたメッセージを順にセッションへ追記する', async () => {
+      const { store, sessions } = createMemorySessionStore()
+      tools.register(createDummyTool('read'))
+      mockProvider.complete
+        .mockResolvedValueOnce(
+          ok<LLMResponse>({
+            content: '',
+            toolCalls: [{ id: 'tc-1', name: 'read', arguments: {} }],
+          }),
+        )
+        .mockResolvedValueOnce(ok<LLMResponse>({ content: 'Done' }))
+
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler,
+        systemMessage: 'sys',
+        sessionStore: store,
+        sessionId: 's1',
+      })
+      await loop.step('Hello')
+
+      expect(sessions.get('s1')).toStrictEqual(loop.getMessages())
+      expect(sessions.get('s1')).toHaveLength(5)
+    })
+
+    it('圧縮で履歴が置き換えられた場合はセッション全体を保存し直す', async () => {
+      const { store, sessions, save } = createMemorySessionStore()
+      const summary: Message = { role: 'system', content: 'summary' }
+      const contextManager: ContextManager = {
+        compact: (messages: readonly Message[]) =>
+          Promise.resolve(
+            ok({
+              messages: [summary, ...messages.slice(-1)],
+              removedMessages: messages.length - 1,
+              tokensBefore: 500,
+              tokensAfter: 50,
+            }),
+          ),
+      }
+      mockProvider.complete.mockResolvedValueOnce(ok<LLMResponse>({ content: 'Reply' }))
+
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler,
+        systemMessage: 'sys',
+        contextManager,
+        sessionStore: store,
+        sessionId: 's1',
+      })
+      await loop.step('Hello')
+
+      expect(save).toHaveBeenCalledTimes(1)
+      expect(sessions.get('s1')).toStrictEqual([
+        summary,
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'Reply' },
+      ])
+    })
+
+    it('永続化の失敗は onError で通知し、次回の追記で未保存分をまとめて保存する', async () => {
+      const { store, sessions, append } = createMemorySessionStore()
+      append.mockResolvedValueOnce(err('disk full'))
+      mockProvider.complete.mockResolvedValueOnce(ok<LLMResponse>({ content: 'Reply' }))
+
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler,
+        sessionStore: store,
+        sessionId: 's1',
+      })
+      const result = await loop.step('Hello')
+
+      expect(result).toStrictEqual(ok('Reply'))
+      expect(handler.onError).toHaveBeenCalledWith('Failed to persist session: disk full')
+      expect(sessions.get('s1')).toStrictEqual(loop.getMessages())
+    })
+
+    it('resume() で保存済み履歴を復元し、以降のメッセージを同じセッションに追記する', async () => {
+      const history: Message[] = [
+        { role: 'system', content: 'old sys' },
+        { role: 'user', content: 'q1' },
+        { role: 'assistant', content: 'a1' },
+      ]
+      const { store, sessions, append } = createMemorySessionStore({ s1: history })
+      mockProvider.complete.mockResolvedValueOnce(ok<LLMResponse>({ content: 'a2' }))
+
+      const result = await AgentLoop.resume(
+        { provider: mockProvider, tools, handler, systemMessage: 'new sys', sessionStore: store },
+        's1',
+      )
+      if (!result.ok) {
+        expect.fail(result.error)
+      }
+      const loop = result.data
+
+      expect(loop.getSessionId()).toBe('s1')
+      expect(loop.getMessages()).toStrictEqual(history)
+
+      await loop.step('q2')
+
+      // 復元済みの履歴は再追記しない
+      expect(append.mock.calls.flatMap(([, messages]) => messages)).toStrictEqual([
+        { role: 'user', content: 'q2' },
+        { role: 'assistant', content: 'a2' },
+      ])
+      expect(sessions.get('s1')).toHaveLength(5)
+    })
+
+    it('存在しないセッションの resume() は err を返す', async () => {
+      const { store } = createMemorySessionStore()
+
+      const result = await AgentLoop.resume(
+        { provider: mockProvider, tools, handler, sessionStore: store },
+        'missing',
+      )
+
+      expect(result).toStrictEqual(err('Session not found: missing'))
+    })
+  })
+
+  // -------------------------------------------------------------------------
+  // run()
+  // -------------------------------------------------------------------------
+  describe('run()', () => {
+    it('複数入力を順番に処理', async () => {
+      // Each input gets a simple text response
+      mockProvider.complete
+        .mockResolvedValueOnce(ok<LLMResponse>({ content: 'Reply 1' }))
+        .mockResolvedValueOnce(ok<LLMResponse>({ content: 'Reply 2' }))
+        .mockResolvedValueOnce(ok<LLMResponse>({ content: 'Reply 3' }))
+
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler,
+      })
+
+      const inputSource = arrayToAsyncIterable(['Input 1', 'Input 2', 'Input 3'])
+      const result = await loop.run(inputSource)
+
+      expect(result).toStrictEqual(ok(undefined))
+      expect(mockProvider.complete).toHaveBeenCalledTimes(3)
+      expect(handler.onResponse).toHaveBeenCalledWith('Reply 1')
+      expect(handler.onResponse).toHaveBeenCalledWith('Reply 2')
+      expect(handler.onResponse).toHaveBeenCalledWith('Reply 3')
+    })
+
+    it('loopHook が true → 正常終了', async () => {
+      mockProvider.complete
+        .mockResolvedValueOnce(ok<LLMResponse>({ content: 'Reply 1' }))
+        .mockResolvedValueOnce(ok<LLMResponse>({ content: 'Reply 2' }))
+
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler,
+      })
+
+      let stepCount = 0
+      const loopHook = (): Promise<boolean> => {
+        stepCount++
+        // Return true (= stop) after the first step
+        return Promise.resolve(stepCount >= 1)
+      }
+
+      const inputSource = arrayToAsyncIterable(['Input 1', 'Input 2'])
+      const result = await loop.run(inputSource, loopHook)
+
+      expect(result).toStrictEqual(ok(undefined))
+      // Only one step should have been processed because loopHook returned true
+      expect(mockProvider.complete).toHaveBeenCalledTimes(1)
+    })
+
+    it('signal abort → err', async () => {
+      const controller = new AbortController()
+
+      mockProvider.complete.mockImplementation(() => {
+        // Abort after the first complete call
+        controller.abort()
+        return Promise.resolve(ok<LLMResponse>({ content: 'Reply' }))
+      })
+
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler,
+        signal: controller.signal,
+      })
+
+      const inputSource = arrayToAsyncIterable(['Input 1', 'Input 2', 'Input 3'])
+      const result = await loop.run(inputSource)
+
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.error).toBe('Aborted')
+      }
+    })
+
+    it('step エラーでもループ続行', async () => {
+      // 1st step: LLM error
+      mockProvider.complete.mockResolvedValueOnce(err('Temporary error'))
+      // 2nd step: success
+      mockProvider.complete.mockResolvedValueOnce(
+        ok<LLMResponse>({ content: 'Success on second try' }),
+      )
+
+      const loop = new AgentLoop({
+        provider: mockProvider,
+        tools,
+        handler,
+      })
+
+      const inputSource = arrayToAsyncIterable(['Input 1', 'Input 2'])
+      const result = await loop.run(inputSource)
+
+      expect(result).toStrictEqual(ok(undefined))
+      // Both inputs should have been processed
+      expect(mockProvider.complete).toHaveBeenCalledTimes(2)
+      expect(handler.onError).toHaveBeenCalledWith('Temporary error')
+      expect(handler.onResponse).toHaveBeenCalledWith('Success on second try')
+    })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// createNoopHandler
+// ---------------------------------------------------------------------------
+describe('createNoopHandler', () => {
+  it('全コールバックが関数として存在する', () => {
+    const handler = createNoopHandler()
+    expect(typeof handler.onResponse).toBe('function')
+    expect(typeof handler.onToolStart).toBe('function')
+    expect(typeof handler.onToolEnd).toBe('function')
+    expect(typeof handler.onStateChange).toBe('function')
+    expect(typeof handler.onError).toBe('function')
+  })
+
+  it('呼び出してもエラーにならない', async () => {
+    const handler = createNoopHandler()
+    // All callbacks should be callable without throwing
+    await handler.onResponse('test')
+    await handler.onToolStart('tool', {})
+    await handler.onToolEnd('tool', { ok: true, output: 'out' })
+    await handler.onStateChange('idle')
     await handler.onError('err')
     if (handler.onUsage) {
       await handler.onUsage({ inputTokens: 0, outputTokens: 0 })
     }
+    if (handler.onDelta) {
+      await handler.onDelta('partial')
+    }
   })
 })
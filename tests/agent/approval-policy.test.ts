@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { createApprovalPolicy, matchToolPattern } from '../../src/agent/approval-policy.js'
+
+// ---------------------------------------------------------------------------
+// matchToolPattern
+// ---------------------------------------------------------------------------
+describe('matchToolPattern', () => {
+  it('ワイルドカードなしは完全一致', () => {
+    expect(matchToolPattern('shell', 'shell')).toBe(true)
+    expect(matchToolPattern('shell', 'shell2')).toBe(false)
+  })
+
+  it('* は任意の文字列に一致する', () => {
+    expect(matchToolPattern('mcp__*', 'mcp__github__create_issue')).toBe(true)
+    expect(matchToolPattern('*_file', 'write_file')).toBe(true)
+    expect(matchToolPattern('*', 'anything')).toBe(true)
+    expect(matchToolPattern('mcp__*', 'read')).toBe(false)
+  })
+
+  it('正規表現の特殊文字はそのまま比較する', () => {
+    expect(matchToolPattern('a.b', 'a.b')).toBe(true)
+    expect(matchToolPattern('a.b', 'axb')).toBe(false)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// createApprovalPolicy
+// ---------------------------------------------------------------------------
+describe('createApprovalPolicy', () => {
+  it('設定なしではすべて auto', () => {
+    const policy = createApprovalPolicy()
+    expect(policy.resolve('shell')).toBe('auto')
+  })
+
+  it('一致するルールがなければ default を使う', () => {
+    const policy = createApprovalPolicy({ default: 'ask', tools: { read: 'auto' } })
+    expect(policy.resolve('read')).toBe('auto')
+    expect(policy.resolve('write')).toBe('ask')
+  })
+
+  it('完全一致のルールをパターンより優先する', () => {
+    const policy = createApprovalPolicy({
+      tools: { 'mcp__*': 'deny', mcp__docs__search: 'auto' },
+    })
+    expect(policy.resolve('mcp__docs__search')).toBe('auto')
+    expect(policy.resolve('mcp__github__push')).toBe('deny')
+  })
+
+  it('複数のパターンに一致する場合は定義順で最初のルールを使う', () => {
+    const policy = createApprovalPolicy({ tools: { 'mcp__git*': 'ask', 'mcp__*': 'deny' } })
+    expect(policy.resolve('mcp__github__push')).toBe('ask')
+  })
+
+  it('Object.prototype のプロパティ名をルールとして扱わない', () => {
+    const policy = createApprovalPolicy({ default: 'ask' })
+    expect(policy.resolve('constructor')).toBe('ask')
+  })
+
+  it('allowAlways() 後の ask ツールは auto になる', () => {
+    const policy = createApprovalPolicy({ tools: { shell: 'ask', write: 'ask' } })
+    policy.allowAlways('shell')
+    expect(policy.resolve('shell')).toBe('auto')
+    expect(policy.resolve('write')).toBe('ask')
+  })
+
+  it('deny のツールは allowAlways() しても deny のまま', () => {
+    const policy = createApprovalPolicy({ tools: { shell: 'deny' } })
+    policy.allowAlways('shell')
+    expect(policy.resolve('shell')).toBe('deny')
+  })
+})
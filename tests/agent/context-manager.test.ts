@@ -0,0 +1,241 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { LLMProvider, LLMResponse, Message, Tool } from '../../src/providers/types.js'
+import type { Result } from '../../src/result.js'
+import { ok, err } from '../../src/result.js'
+import {
+  createSummarizingContextManager,
+  resolveCompactionMaxTokens,
+  SUMMARY_PREFIX,
+} from '../../src/agent/context-manager.js'
+
+type CompleteFn = (
+  messages: readonly Message[],
+  tools?: readonly Tool[],
+) => Promise<Result<LLMResponse>>
+
+function createMockProvider(): { complete: ReturnType<typeof vi.fn<CompleteFn>> } {
+  return { complete: vi.fn<CompleteFn>() }
+}
+
+/** 約 100 トークン分の本文を持つメッセージ列を生成する */
+function longText(label: string): string {
+  return `${label} ${'x'.repeat(400)}`
+}
+
+// ---------------------------------------------------------------------------
+// resolveCompactionMaxTokens
+// ---------------------------------------------------------------------------
+describe('resolveCompactionMaxTokens', () => {
+  it('コンテキストウィンドウが不明なら maxTokens をそのまま返す', () => {
+    expect(resolveCompactionMaxTokens({ maxTokens: 500_000 })).toBe(500_000)
+    expect(resolveCompactionMaxTokens({}, { tools: true })).toBeUndefined()
+  })
+
+  it('maxTokens 省略時はコンテキストウィンドウの 75% を返す', () => {
+    expect(resolveCompactionMaxTokens({}, { contextWindow: 200_000 })).toBe(150_000)
+  })
+
+  it('maxTokens がコンテキストウィンドウの 75% を超える場合は切り詰める', () => {
+    const capabilities = { contextWindow: 8192 }
+    expect(resolveCompactionMaxTokens({ maxTokens: 4000 }, capabilities)).toBe(4000)
+    expect(resolveCompactionMaxTokens({ maxTokens: 100_000 }, capabilities)).toBe(6144)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// createSummarizingContextManager
+// ---------------------------------------------------------------------------
+describe('createSummarizingContextManager', () => {
+  it('閾値以下なら ok(undefined) を返し LLM を呼ばない', async () => {
+    const provider = createMockProvider()
+    const manager = createSummarizingContextManager({ maxTokens: 10_000 })
+
+    const result = await manager.compact([{ role: 'user', content: 'hello' }], provider)
+
+    expect(result).toStrictEqual(ok(undefined))
+    expect(provider.complete).not.toHaveBeenCalled()
+  })
+
+  it('provider.countTokens があればツール定義を含めて数えた値で圧縮を判定する', async () => {
+    const countTokens = vi
+      .fn<NonNullable<LLMProvider['countTokens']>>()
+      .mockResolvedValueOnce(ok(5000))
+      .mockResolvedValueOnce(ok(40))
+    const provider = { ...createMockProvider(), countTokens }
+    provider.complete.mockResolvedValueOnce(ok<LLMResponse>({ content: 'Earlier: hi.' }))
+    const manager = createSummarizingContextManager({ maxTokens: 1000, keepRecentMessages: 1 })
+    const tools: Tool[] = [{ name: 'read', description: 'Read a file', parameters: {} }]
+    const messages: Message[] = [
+      { role: 'user', content: 'hi' },
+      { role: 'assistant', content: 'hello' },
+      { role: 'user', content: 'bye' },
+    ]
+
+    const result = await manager.compact(messages, provider, tools)
+
+    expect(countTokens).toHaveBeenCalledWith(messages, tools)
+    expect(result.ok && result.data).toMatchObject({
+      removedMessages: 2,
+      tokensBefore: 5000,
+      tokensAfter: 40,
+    })
+  })
+
+  it('provider.countTokens が失敗した場合は推定値で判定する', async () => {
+    const countTokens = vi
+      .fn<NonNullable<LLMProvider['countTokens']>>()
+      .mockResolvedValue(err('count failed'))
+    const provider = { ...createMockProvider(), countTokens }
+    const manager = createSummarizingContextManager({ maxTokens: 10_000 })
+
+    const result = await manager.compact([{ role: 'user', content: 'hello' }], provider)
+
+    expect(result).toStrictEqual(ok(undefined))
+    expect(provider.complete).not.toHaveBeenCalled()
+  })
+
+  it('閾値超過時に古いターンを要約し、system メッセージと直近メッセージを保持する', async () => {
+    const provider = createMockProvider()
+    provider.complete.mockResolvedValueOnce(ok<LLMResponse>({ content: 'Earlier: did A and B.' }))
+    const manager = createSummarizingContextManager({ maxTokens: 200, keepRecentMessages: 2 })
+
+    const messages: Message[] = [
+      { role: 'system', content: 'You are helpful.' },
+      { role: 'user', content: longText('q1') },
+      { role: 'assistant', content: longText('a1') },
+      { role: 'user', content: longText('q2') },
+      { role: 'assistant', content: longText('a2') },
+    ]
+
+    const result = await manager.compact(messages, provider)
+    if (!result.ok || result.data === undefined) {
+      expect.fail('Compaction did not happen')
+    }
+
+    expect(result.data.messages).toStrictEqual([
+      { role: 'system', content: 'You are helpful.' },
+      { role: 'system', content: `${SUMMARY_PREFIX}\nEarlier: did A and B.` },
+      messages[3],
+      messages[4],
+    ])
+    expect(result.data.removedMessages).toBe(2)
+    expect(result.data.tokensAfter).toBeLessThan(result.data.tokensBefore)
+
+    // 要約リクエストには古いターンのみが含まれる
+    const summaryRequest = provider.complete.mock.calls[0]?.[0]
+    const transcript = summaryRequest?.[1]?.content ?? ''
+    expect(transcript).toContain('q1')
+    expect(transcript).not.toContain('q2')
+  })
+
+  it('要約の LLM 呼び出しの usage と metadata を結果に含める', async () => {
+    const usage = { inputTokens: 300, outputTokens: 20 }
+    const metadata = { provider: 'ollama', model: 'llama3' }
+    const provider = createMockProvider()
+    provider.complete.mockResolvedValueOnce(
+      ok<LLMResponse>({ content: 'summary', usage, metadata }),
+    )
+    const manager = createSummarizingContextManager({ maxTokens: 100, keepRecentMessages: 1 })
+
+    const result = await manager.compact(
+      [
+        { role: 'user', content: longText('q1') },
+        { role: 'assistant', content: longText('a1') },
+        { role: 'user', content: 'q2' },
+      ],
+      provider,
+    )
+
+    expect(result.ok && result.data).toMatchObject({ removedMessages: 2, usage, metadata })
+  })
+
+  it('tool_call / tool_result の組を分断しない', async () => {
+    const provider = createMockProvider()
+    provider.complete.mockResolvedValueOnce(ok<LLMResponse>({ content: 'summary' }))
+    const manager = createSummarizingContextManager({ maxTokens: 100, keepRecentMessages: 1 })
+
+    const messages: Message[] = [
+      { role: 'user', content: longText('q1') },
+      { role: 'assistant', content: 'answer 1' },
+      { role: 'user', content: longText('q2') },
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [{ id: 'tc-1', name: 'read', arguments: { path: 'a.txt' } }],
+      },
+      { role: 'user', content: longText('file'), toolCallId: 'tc-1', name: 'read' },
+    ]
+
+    const result = await manager.compact(messages, provider)
+    if (!result.ok || result.data === undefined) {
+      expect.fail('Compaction did not happen')
+    }
+
+    // keepRecentMessages=1 でもツール結果の直前で切らず、q2 の user メッセージから残す
+    expect(result.data.messages.slice(1)).toStrictEqual(messages.slice(2))
+    expect(result.data.removedMessages).toBe(2)
+  })
+
+  it('分割可能な位置がなければ ok(undefined)', async () => {
+    const provider = createMockProvider()
+    const manager = createSummarizingContextManager({ maxTokens: 10, keepRecentMessages: 1 })
+
+    const messages: Message[] = [
+      { role: 'system', content: 'sys' },
+      { role: 'user', content: longText('only question') },
+      { role: 'assistant', content: longText('only answer') },
+    ]
+
+    const result = await manager.compact(messages, provider)
+
+    expect(result).toStrictEqual(ok(undefined))
+    expect(provider.complete).not.toHaveBeenCalled()
+  })
+
+  it('既存の要約メッセージも再要約の対象にする', async () => {
+    const provider = createMockProvider()
+    provider.complete.mockResolvedValueOnce(ok<LLMResponse>({ content: 'new summary' }))
+    const manager = createSummarizingContextManager({ maxTokens: 100, keepRecentMessages: 1 })
+
+    const messages: Message[] = [
+      { role: 'system', content: 'sys' },
+      { role: 'system', content: `${SUMMARY_PREFIX}\nold summary` },
+      { role: 'user', content: longText('q1') },
+      { role: 'assistant', content: longText('a1') },
+      { role: 'user', content: 'q2' },
+    ]
+
+    const result = await manager.compact(messages, provider)
+    if (!result.ok || result.data === undefined) {
+      expect.fail('Compaction did not happen')
+    }
+
+    expect(result.data.messages).toStrictEqual([
+      { role: 'system', content: 'sys' },
+      { role: 'system', content: `${SUMMARY_PREFIX}\nnew summary` },
+      { role: 'user', content: 'q2' },
+    ])
+    const transcript = provider.complete.mock.calls[0]?.[0][1]?.content ?? ''
+    expect(transcript).toContain('old summary')
+  })
+
+  it('要約の LLM 呼び出しに失敗した場合 err を返す', async () => {
+    const provider = createMockProvider()
+    provider.complete.mockResolvedValueOnce(err('overloaded'))
+    const manager = createSummarizingContextManager({ maxTokens: 100, keepRecentMessages: 1 })
+
+    const result = await manager.compact(
+      [
+        { role: 'user', content: longText('q1') },
+        { role: 'assistant', content: longText('a1') },
+        { role: 'user', content: 'q2' },
+      ],
+      provider,
+    )
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error).toContain('overloaded')
+    }
+  })
+})
@@ -12,6 +12,7 @@ import {
   isWorkerMessage,
   WorkerSubAgentRunner,
 } from '../../src/agent/sub-agent-runner.js'
+import { createUsageLedger } from '../../src/agent/usage-ledger.js'
 
 // ---------------------------------------------------------------------------
 // ヘルパー: テスト用のデフォルトデータを生成
@@ -115,6 +116,171 @@ describe('resolveWorkerData', () => {
     )
   })
 
+  it('agentConfig.generation をプロバイダー設定の generation にマージする', () => {
+    const wnConfig = createDefaultWnConfig({
+      providers: { claude: { apiKey: 'sk-test-key', generation: { maxTokens: 1000, seed: 1 } } },
+    })
+    const agentConfig = createDefaultAgentConfig({ generation: { maxTokens: 200, temperature: 0 } })
+
+    const result = resolveWorkerData(
+      'agent-1',
+      agentConfig,
+      wnConfig,
+      createDefaultPersonas(),
+      createDefaultSkills(),
+    )
+
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.data.providerConfig).toStrictEqual({
+        apiKey: 'sk-test-key',
+        generation: { maxTokens: 200, seed: 1, temperature: 0 },
+      })
+    }
+  })
+
+  it('config.providerModules を Worker に引き継ぐ', () => {
+    const wnConfig = createDefaultWnConfig({ providerModules: ['./providers/custom.js'] })
+
+    const result = resolveWorkerData(
+      'agent-1',
+      createDefaultAgentConfig(),
+      wnConfig,
+      createDefaultPersonas(),
+      createDefaultSkills(),
+    )
+
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.data.providerModules).toStrictEqual(['./providers/custom.js'])
+    }
+  })
+
+  it('config.models を設定の検証用に Worker に引き継ぐ', () => {
+    const models = { 'local-model': { tools: false } }
+
+    const result = resolveWorkerData(
+      'agent-1',
+      createDefaultAgentConfig(),
+      createDefaultWnConfig({ models }),
+      createDefaultPersonas(),
+      createDefaultSkills(),
+    )
+
+    expect(result.ok && result.data.models).toStrictEqual(models)
+  })
+
+  it('config.fallback とチェーンが参照するプロバイダーの設定だけを Worker に引き継ぐ', () => {
+    const fallback = { chain: [{ provider: 'ollama', model: 'llama3' }] }
+    const ollama = { baseUrl: 'http://localhost:11434' }
+    const wnConfig = createDefaultWnConfig({ fallback })
+    const providers = { ...wnConfig.providers, ollama, openai: { apiKey: 'sk' } }
+
+    const result = resolveWorkerData(
+      'agent-1',
+      createDefaultAgentConfig(),
+      { ...wnConfig, providers },
+      createDefaultPersonas(),
+      createDefaultSkills(),
+    )
+
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.data.fallback).toStrictEqual(fallback)
+      expect(result.data.fallbackProviders).toStrictEqual({ ollama })
+    }
+  })
+
+  it('config.workspace に agentConfig.workspace を重ねて Worker に引き継ぐ', () => {
+    const wnConfig = createDefaultWnConfig({ workspace: { roots: ['/repo'], deny: ['.env'] } })
+
+    const result = resolveWorkerData(
+      'agent-1',
+      createDefaultAgentConfig({ workspace: { roots: ['/repo/src'], deny: ['*.key'] } }),
+      wnConfig,
+      createDefaultPersonas(),
+      createDefaultSkills(),
+    )
+
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.data.workspace).toStrictEqual({
+        roots: ['/repo/src'],
+        deny: ['.env', '*.key'],
+      })
+    }
+  })
+
+  it('config.shell を Worker に引き継ぐ', () => {
+    const shell = { deny: ['rm -rf *'], dangerous: 'deny' as const }
+
+    const result = resolveWorkerData(
+      'agent-1',
+      createDefaultAgentConfig(),
+      createDefaultWnConfig({ shell }),
+      createDefaultPersonas(),
+      createDefaultSkills(),
+    )
+
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.data.shell).toStrictEqual(shell)
+    }
+  })
+
+  it('agentConfig.responseFormat を Worker に引き継ぐ', () => {
+    const responseFormat = { name: 'findings', schema: { type: 'array' } }
+
+    const result = resolveWorkerData(
+      'agent-1',
+      createDefaultAgentConfig({ responseFormat }),
+      createDefaultWnConfig(),
+      createDefaultPersonas(),
+      createDefaultSkills(),
+    )
+
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.data.responseFormat).toStrictEqual(responseFormat)
+    }
+  })
+
+  it('スキルの toolChoice を Worker に引き継ぎ、異なる指定が衝突する場合はエラーを返す', () => {
+    const skills = new Map<string, Skill>([
+      ...createDefaultSkills(),
+      [
+        'plan',
+        { name: 'plan', description: 'Plan', tools: [], body: 'Plan.', toolChoice: 'required' },
+      ],
+      [
+        'save',
+        {
+          name: 'save',
+          description: 'Save',
+          tools: [],
+          body: 'Save.',
+          toolChoice: { name: 'write' },
+        },
+      ],
+    ])
+    const resolve = (names: string[]): ReturnType<typeof resolveWorkerData> =>
+      resolveWorkerData(
+        'agent-1',
+        createDefaultAgentConfig({ skills: names }),
+        createDefaultWnConfig(),
+        createDefaultPersonas(),
+        skills,
+      )
+
+    const single = resolve(['recon', 'plan'])
+    expect(single.ok && single.data.toolChoice).toBe('required')
+    const none = resolve(['recon'])
+    expect(none.ok && none.data).not.toHaveProperty('toolChoice')
+    expect(resolve(['plan', 'save'])).toStrictEqual(
+      err('Conflicting toolChoice in skills: plan, save'),
+    )
+  })
+
   it('persona が見つからない場合エラーを返す', () => {
     const personas = createDefaultPersonas()
     const skills = createDefaultSkills()
@@ -191,6 +357,7 @@ describe('isWorkerMessage', () => {
 
     // result メッセージ
     expect(isWorkerMessage({ type: 'result', data: 'some output' })).toBe(true)
+    expect(isWorkerMessage({ type: 'result', data: '[1]', structured: [1] })).toBe(true)
 
     // error メッセージ
     expect(isWorkerMessage({ type: 'error', error: 'something went wrong' })).toBe(true)
@@ -226,6 +393,36 @@ describe('isWorkerMessage', () => {
     expect(isWorkerMessage({ type: 'log', message: 'msg' })).toBe(false)
     expect(isWorkerMessage({ type: 'log', level: 'info', message: 123 })).toBe(false)
   })
+
+  it('usage メッセージは TokenUsage と source を検証する', () => {
+    const source = { provider: 'claude', model: 'claude-sonnet-4' }
+
+    expect(
+      isWorkerMessage({ type: 'usage', usage: { inputTokens: 1, outputTokens: 2 }, source }),
+    ).toBe(true)
+    expect(
+      isWorkerMessage({
+        type: 'usage',
+        usage: { inputTokens: 1, outputTokens: 2, cacheReadTokens: 3 },
+        source,
+      }),
+    ).toBe(true)
+    expect(isWorkerMessage({ type: 'usage', usage: { inputTokens: 1 }, source })).toBe(false)
+    expect(
+      isWorkerMessage({
+        type: 'usage',
+        usage: { inputTokens: 1, outputTokens: 2, cacheWriteTokens: 'x' },
+        source,
+      }),
+    ).toBe(false)
+    expect(
+      isWorkerMessage({
+        type: 'usage',
+        usage: { inputTokens: 1, outputTokens: 2 },
+        source: { provider: 'claude' },
+      }),
+    ).toBe(false)
+  })
 })
 
 // ===========================================================================
@@ -313,6 +510,41 @@ describe('WorkerSubAgentRunner', () => {
       expect(updated?.result).toBe('scan completed')
     })
 
+    it('structured 付きの result メッセージでは解析済みの値を result にする', async () => {
+      const mw = createMockWorker()
+      const runner = new WorkerSubAgentRunner(createRunnerOptions())
+
+      const handle = await runner.spawn(createDefaultAgentConfig())
+      mw.emit('message', {
+        type: 'result',
+        data: '{"hosts":["10.0.0.1"]}',
+        structured: { hosts: ['10.0.0.1'] },
+      })
+
+      const updated = runner.list().find((h) => h.id === handle.id)
+      expect(updated?.status).toBe('completed')
+      expect(updated?.result).toStrictEqual({ hosts: ['10.0.0.1'] })
+    })
+
+    it('Worker の usage メッセージをサブエージェント ID ごとに usageLedger へ記録する', async () => {
+      const mw = createMockWorker()
+      const usageLedger = createUsageLedger()
+      const runner = new WorkerSubAgentRunner(createRunnerOptions({ usageLedger }))
+
+      const handle = await runner.spawn(createDefaultAgentConfig())
+      mw.emit('message', {
+        type: 'usage',
+        usage: { inputTokens: 100, outputTokens: 10 },
+        source: { provider: 'claude', model: 'claude-sonnet-4-20250514' },
+      })
+
+      const snapshot = usageLedger.getSnapshot()
+      expect(snapshot.session.inputTokens).toBe(100)
+      expect(snapshot.bySubAgent).toStrictEqual([
+        expect.objectContaining({ id: handle.id, requests: 1, outputTokens: 10 }),
+      ])
+    })
+
     it('Worker の error メッセージで status が failed になる', async () => {
       const mw = createMockWorker()
       const runner = new WorkerSubAgentRunner(createRunnerOptions())
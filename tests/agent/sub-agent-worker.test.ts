@@ -1,9 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import type { Mock } from 'vitest'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
 import { ok, err } from '../../src/result.js'
 import type { LLMProvider } from '../../src/providers/types.js'
-import type { ProviderConfig } from '../../src/loader/types.js'
-import type { SubAgentWorkerData, WorkerMessage } from '../../src/agent/types.js'
+import type { AgentLoopOptions, SubAgentWorkerData, WorkerMessage } from '../../src/agent/types.js'
 
 // ---------------------------------------------------------------------------
 // モック: プロバイダーファクトリ
@@ -49,6 +51,7 @@ vi.mock('../../src/tools/types.js', () => ({
       register: vi.fn(() => ({ ok: true, data: undefined })),
       list: vi.fn(() => []),
       get: vi.fn(),
+      dispose: vi.fn(() => Promise.resolve()),
     }
   }),
 }))
@@ -72,6 +75,28 @@ vi.mock('../../src/tools/write.js', () => ({
     execute: vi.fn(),
   })),
 }))
+vi.mock('../../src/tools/edit.js', () => ({
+  createEditTool: vi.fn(() => ({
+    name: 'edit',
+    description: 'Edit a file',
+    parameters: {},
+    execute: vi.fn(),
+  })),
+  createMultiEditTool: vi.fn(() => ({
+    name: 'multi_edit',
+    description: 'Apply multiple edits to a file',
+    parameters: {},
+    execute: vi.fn(),
+  })),
+}))
+vi.mock('../../src/tools/apply-patch.js', () => ({
+  createApplyPatchTool: vi.fn(() => ({
+    name: 'apply_patch',
+    description: 'Apply a unified diff',
+    parameters: {},
+    execute: vi.fn(),
+  })),
+}))
 vi.mock('../../src/tools/grep.js', () => ({
   createGrepTool: vi.fn(() => ({
     name: 'grep',
@@ -88,15 +113,23 @@ vi.mock('../../src/tools/shell.js', () => ({
     execute: vi.fn(),
   })),
 }))
+vi.mock('../../src/tools/shell-session.js', () => ({
+  createShellSessionTool: vi.fn(() => ({
+    name: 'shell_session',
+    description: 'Run command in a persistent shell session',
+    parameters: {},
+    execute: vi.fn(),
+  })),
+}))
 
 // ---------------------------------------------------------------------------
 // テスト対象のインポート（vi.mock の後に配置）
 // ---------------------------------------------------------------------------
-import { createProviderByName, runSubAgent } from '../../src/agent/sub-agent-worker.js'
+import { runSubAgent } from '../../src/agent/sub-agent-worker.js'
 import { createClaudeProvider } from '../../src/providers/claude.js'
-import { createOpenAIProvider } from '../../src/providers/openai.js'
 import { createOllamaProvider } from '../../src/providers/ollama.js'
-import { createGeminiProvider } from '../../src/providers/gemini.js'
+import { AgentLoop } from '../../src/agent/agent-loop.js'
+import { ToolRegistry } from '../../src/tools/types.js'
 
 // ---------------------------------------------------------------------------
 // ヘルパー
@@ -136,98 +169,182 @@ function createMockSender(): {
 // テスト本体
 // ===========================================================================
 
-describe('createProviderByName', () => {
-  const config: ProviderConfig = { apiKey: 'test-key' }
-  const model = 'test-model'
-
+describe('runSubAgent', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    mockStep.mockReset()
   })
 
-  it('claude プロバイダーを生成できる', () => {
+  it('正常系: AgentLoop.step が成功し result メッセージを送信する', async () => {
+    // プロバイダー生成成功
     const dummyProvider = createDummyProvider()
     ;(createClaudeProvider as Mock).mockReturnValue(ok(dummyProvider))
 
-    const result = createProviderByName('claude', config, model)
+    // AgentLoop.step が成功結果を返す
+    mockStep.mockResolvedValue(ok('Task completed successfully'))
 
-    expect(result.ok).toBe(true)
-    if (result.ok) {
-      expect(result.data).toBe(dummyProvider)
-    }
-    expect(createClaudeProvider).toHaveBeenCalledWith(config, model)
-    expect(createClaudeProvider).toHaveBeenCalledTimes(1)
+    const sender = createMockSender()
+    const data = createWorkerData()
+
+    await runSubAgent(data, sender)
+
+    // result メッセージが送信される
+    expect(sender.postMessage).toHaveBeenCalledWith({
+      type: 'result',
+      data: 'Task completed successfully',
+    })
+    // error メッセージは送信されない
+    const errorCalls = sender.postMessage.mock.calls.filter((call) => call[0].type === 'error')
+    expect(errorCalls).toHaveLength(0)
   })
 
-  it('openai プロバイダーを生成できる', () => {
-    const dummyProvider = createDummyProvider()
-    ;(createOpenAIProvider as Mock).mockReturnValue(ok(dummyProvider))
+  it('step の終了後にツールのリソースを解放する（失敗時も含む）', async () => {
+    ;(createClaudeProvider as Mock).mockReturnValue(ok(createDummyProvider()))
+    mockStep.mockRejectedValue(new Error('boom'))
 
-    const result = createProviderByName('openai', config, model)
+    const sender = createMockSender()
+    await runSubAgent(createWorkerData(), sender)
 
-    expect(result.ok).toBe(true)
-    if (result.ok) {
-      expect(result.data).toBe(dummyProvider)
+    const registry = (ToolRegistry as unknown as Mock).mock.results[0]?.value as {
+      dispose: Mock
     }
-    expect(createOpenAIProvider).toHaveBeenCalledWith(config, model)
-    expect(createOpenAIProvider).toHaveBeenCalledTimes(1)
+    expect(registry.dispose).toHaveBeenCalledOnce()
+    expect(sender.postMessage).toHaveBeenCalledWith({ type: 'error', error: 'boom' })
   })
 
-  it('ollama プロバイダーを生成できる', () => {
-    const dummyProvider = createDummyProvider()
-    ;(createOllamaProvider as Mock).mockReturnValue(ok(dummyProvider))
+  it('responseFormat 指定時は step に渡し、解析済みの値を structured として送信する', async () => {
+    ;(createClaudeProvider as Mock).mockReturnValue(ok(createDummyProvider()))
+    mockStep.mockResolvedValue(ok('{"title":"Report"}'))
+    const responseFormat = { schema: { type: 'object' } }
+    const sender = createMockSender()
 
-    const result = createProviderByName('ollama', config, model)
+    await runSubAgent(createWorkerData({ responseFormat }), sender)
 
-    expect(result.ok).toBe(true)
-    if (result.ok) {
-      expect(result.data).toBe(dummyProvider)
-    }
-    expect(createOllamaProvider).toHaveBeenCalledWith(config, model)
-    expect(createOllamaProvider).toHaveBeenCalledTimes(1)
+    expect(mockStep).toHaveBeenCalledWith('Do something useful', { responseFormat })
+    expect(sender.postMessage).toHaveBeenCalledWith({
+      type: 'result',
+      data: '{"title":"Report"}',
+      structured: { title: 'Report' },
+    })
   })
 
-  it('未知のプロバイダー名でエラーを返す', () => {
-    const result = createProviderByName('unknown-provider', config, model)
+  it('toolChoice 指定時は step に渡す', async () => {
+    ;(createClaudeProvider as Mock).mockReturnValue(ok(createDummyProvider()))
+    mockStep.mockResolvedValue(ok('done'))
 
-    expect(result.ok).toBe(false)
-    if (!result.ok) {
-      expect(result.error).toBe('Unknown provider: unknown-provider')
-    }
-    // どのファクトリも呼ばれない
-    expect(createClaudeProvider).not.toHaveBeenCalled()
-    expect(createOpenAIProvider).not.toHaveBeenCalled()
-    expect(createOllamaProvider).not.toHaveBeenCalled()
-    expect(createGeminiProvider).not.toHaveBeenCalled()
+    await runSubAgent(createWorkerData({ toolChoice: 'required' }), createMockSender())
+
+    expect(mockStep).toHaveBeenCalledWith('Do something useful', { toolChoice: 'required' })
   })
-})
 
-describe('runSubAgent', () => {
-  beforeEach(() => {
-    vi.clearAllMocks()
-    mockStep.mockReset()
+  it('AgentLoop の使用量を usage メッセージとしてメインスレッドに転送する', async () => {
+    ;(createClaudeProvider as Mock).mockReturnValue(ok(createDummyProvider()))
+    mockStep.mockResolvedValue(ok('done'))
+    const sender = createMockSender()
+
+    await runSubAgent(createWorkerData(), sender)
+    const options = (AgentLoop as unknown as Mock).mock.calls[0]?.[0] as AgentLoopOptions
+    const usage = { inputTokens: 10, outputTokens: 5 }
+    await options.handler.onUsage?.(usage)
+    await options.handler.onUsage?.(usage, { provider: 'openai', model: 'gpt-4o' })
+
+    expect(sender.postMessage).toHaveBeenCalledWith({
+      type: 'usage',
+      usage,
+      source: { provider: 'claude', model: 'claude-sonnet-4-20250514' },
+    })
+    expect(sender.postMessage).toHaveBeenCalledWith({
+      type: 'usage',
+      usage,
+      source: { provider: 'openai', model: 'gpt-4o' },
+    })
   })
 
-  it('正常系: AgentLoop.step が成功し result メッセージを送信する', async () => {
-    // プロバイダー生成成功
-    const dummyProvider = createDummyProvider()
-    ;(createClaudeProvider as Mock).mockReturnValue(ok(dummyProvider))
+  it('providerModules のプロバイダーを Worker 内のレジストリに登録して使う', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wn-worker-test-'))
+    const modulePath = path.join(tmpDir, 'echo.mjs')
+    fs.writeFileSync(
+      modulePath,
+      `export function register(registry) {
+        registry.register('echo', (config, model) => ({
+          ok: true,
+          data: { complete: async () => ({ ok: true, data: { content: model } }) },
+        }))
+      }`,
+    )
+    mockStep.mockResolvedValue(ok('done'))
+    const sender = createMockSender()
 
-    // AgentLoop.step が成功結果を返す
-    mockStep.mockResolvedValue(ok('Task completed successfully'))
+    try {
+      await runSubAgent(
+        createWorkerData({ providerName: 'echo', model: 'echo-1', providerModules: [modulePath] }),
+        sender,
+      )
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true })
+    }
+
+    expect(sender.postMessage).toHaveBeenCalledWith({ type: 'result', data: 'done' })
+    const options = (AgentLoop as unknown as Mock).mock.calls[0]?.[0] as AgentLoopOptions
+    expect(await options.provider.complete([])).toStrictEqual(ok({ content: 'echo-1' }))
+  })
 
+  it('providerModules の読み込みに失敗すると error メッセージを送信する', async () => {
     const sender = createMockSender()
-    const data = createWorkerData()
+
+    await runSubAgent(
+      createWorkerData({ providerModules: [path.join(os.tmpdir(), 'wn-missing-provider.mjs')] }),
+      sender,
+    )
+
+    expect(sender.postMessage).toHaveBeenCalledWith({
+      type: 'error',
+      error: expect.stringContaining('Failed to load provider module') as unknown,
+    })
+    expect(mockStep).not.toHaveBeenCalled()
+  })
+
+  it('models の能力と矛盾するプロバイダー設定は生成せずに error メッセージを送信する', async () => {
+    const sender = createMockSender()
+    const data = createWorkerData({ models: { 'claude-sonnet-4': { tools: false } } })
 
     await runSubAgent(data, sender)
 
-    // result メッセージが送信される
     expect(sender.postMessage).toHaveBeenCalledWith({
-      type: 'result',
-      data: 'Task completed successfully',
+      type: 'error',
+      error: 'Model does not support tool calls: claude-sonnet-4-20250514',
+    })
+    expect(createClaudeProvider).not.toHaveBeenCalled()
+    expect(mockStep).not.toHaveBeenCalled()
+  })
+
+  it('fallback 指定時はフォールバックチェーンを構築して AgentLoop に渡す', async () => {
+    ;(createClaudeProvider as Mock).mockReturnValue(
+      ok({ complete: vi.fn().mockResolvedValue(err('Overloaded', { status: 529 })) }),
+    )
+    ;(createOllamaProvider as Mock).mockReturnValue(
+      ok({ complete: vi.fn().mockResolvedValue(ok({ content: 'from ollama', toolCalls: [] })) }),
+    )
+    mockStep.mockResolvedValue(ok('done'))
+    const ollama = { baseUrl: 'http://localhost:11434' }
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    await runSubAgent(
+      createWorkerData({
+        fallback: { chain: [{ provider: 'ollama', model: 'llama3' }] },
+        fallbackProviders: { ollama },
+      }),
+      createMockSender(),
+    )
+    const options = (AgentLoop as unknown as Mock).mock.calls[0]?.[0] as AgentLoopOptions
+    const response = await options.provider.complete([{ role: 'user', content: 'hi' }])
+    errorSpy.mockRestore()
+
+    expect(createOllamaProvider).toHaveBeenCalledWith(ollama, 'llama3')
+    expect(response.ok && response.data.metadata).toStrictEqual({
+      provider: 'ollama',
+      model: 'llama3',
     })
-    // error メッセージは送信されない
-    const errorCalls = sender.postMessage.mock.calls.filter((call) => call[0].type === 'error')
-    expect(errorCalls).toHaveLength(0)
   })
 
   it('プロバイダー生成失敗時に error メッセージを送信する', async () => {
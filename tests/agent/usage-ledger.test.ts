@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createUsageLedger,
+  DEFAULT_PRICING,
+  estimateCost,
+  resolvePricing,
+  totalTokens,
+} from '../../src/agent/usage-ledger.js'
+
+const CLAUDE = { provider: 'claude', model: 'claude-sonnet-4-20250514' }
+const OLLAMA = { provider: 'ollama', model: 'llama3' }
+
+// ---------------------------------------------------------------------------
+// resolvePricing
+// ---------------------------------------------------------------------------
+describe('resolvePricing', () => {
+  it('モデル名の前方一致で最長のキーを選ぶ', () => {
+    expect(resolvePricing(DEFAULT_PRICING, { provider: 'openai', model: 'gpt-4o-mini-2024' })).toBe(
+      DEFAULT_PRICING['gpt-4o-mini'],
+    )
+    expect(resolvePricing(DEFAULT_PRICING, CLAUDE)).toBe(DEFAULT_PRICING['claude-sonnet-4'])
+  })
+
+  it('provider/model のキーをモデル名のキーより優先する', () => {
+    const pricing = {
+      llama3: { input: 1, output: 1 },
+      'ollama/llama3': { input: 0, output: 0 },
+    }
+
+    expect(resolvePricing(pricing, OLLAMA)).toStrictEqual({ input: 0, output: 0 })
+  })
+
+  it('一致するキーがなければ undefined を返す', () => {
+    expect(resolvePricing(DEFAULT_PRICING, OLLAMA)).toBeUndefined()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// estimateCost
+// ---------------------------------------------------------------------------
+describe('estimateCost', () => {
+  it('100 万トークンあたりの料金でコストを計算する', () => {
+    const cost = estimateCost(
+      { inputTokens: 1_000_000, outputTokens: 100_000, cacheReadTokens: 1_000_000 },
+      { input: 3, output: 15, cacheRead: 0.3 },
+    )
+
+    expect(cost).toBeCloseTo(3 + 1.5 + 0.3)
+  })
+
+  it('キャッシュの料金が未指定なら input の料金を使う', () => {
+    const cost = estimateCost(
+      { inputTokens: 0, outputTokens: 0, cacheReadTokens: 500_000, cacheWriteTokens: 500_000 },
+      { input: 2, output: 8 },
+    )
+
+    expect(cost).toBeCloseTo(2)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// createUsageLedger
+// ---------------------------------------------------------------------------
+describe('createUsageLedger', () => {
+  it('記録がなければすべて 0 の集計を返す', () => {
+    const snapshot = createUsageLedger().getSnapshot()
+
+    expect(snapshot.session).toStrictEqual({
+      requests: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+      costUsd: 0,
+    })
+    expect(snapshot.byModel).toStrictEqual([])
+    expect(snapshot.bySubAgent).toStrictEqual([])
+    expect(snapshot).not.toHaveProperty('budget')
+  })
+
+  it('プロバイダー/モデルごとに集計し、料金が不明なモデルは priced: false にする', () => {
+    const ledger = createUsageLedger()
+    ledger.record({ inputTokens: 1_000_000, outputTokens: 0 }, CLAUDE)
+    ledger.record({ inputTokens: 500, outputTokens: 50, cacheReadTokens: 100 }, OLLAMA)
+    ledger.record({ inputTokens: 1_000_000, outputTokens: 0 }, CLAUDE)
+
+    const { session, byModel } = ledger.getSnapshot()
+
+    expect(session.requests).toBe(3)
+    expect(session.cacheReadTokens).toBe(100)
+    expect(session.costUsd).toBeCloseTo(6)
+    expect(byModel).toStrictEqual([
+      expect.objectContaining({ ...CLAUDE, priced: true, requests: 2, inputTokens: 2_000_000 }),
+      expect.objectContaining({ ...OLLAMA, priced: false, requests: 1, costUsd: 0 }),
+    ])
+  })
+
+  it('config.pricing は組み込みの料金表より優先される', () => {
+    const ledger = createUsageLedger({
+      pricing: { 'claude-sonnet-4': { input: 1, output: 1 }, llama3: { input: 0.1, output: 0.1 } },
+    })
+    ledger.record({ inputTokens: 1_000_000, outputTokens: 0 }, CLAUDE)
+    ledger.record({ inputTokens: 1_000_000, outputTokens: 0 }, OLLAMA)
+
+    expect(ledger.getSnapshot().session.costUsd).toBeCloseTo(1.1)
+  })
+
+  it('サブエージェントの使用量は session と bySubAgent に集計し、turn には含めない', () => {
+    const ledger = createUsageLedger()
+    ledger.record({ inputTokens: 10, outputTokens: 5 }, CLAUDE)
+    ledger.record({ inputTokens: 20, outputTokens: 5 }, CLAUDE, 'agent-1')
+    ledger.record({ inputTokens: 30, outputTokens: 5 }, OLLAMA, 'agent-1')
+
+    const { turn, session, bySubAgent } = ledger.getSnapshot()
+
+    expect(turn.inputTokens).toBe(10)
+    expect(session.inputTokens).toBe(60)
+    expect(bySubAgent).toStrictEqual([
+      expect.objectContaining({ id: 'agent-1', requests: 2, inputTokens: 50, outputTokens: 10 }),
+    ])
+  })
+
+  it('startTurn() は turn のみ、reset() はすべての集計をリセットする', () => {
+    const ledger = createUsageLedger()
+    ledger.record({ inputTokens: 10, outputTokens: 5 }, CLAUDE)
+
+    ledger.startTurn()
+    expect(ledger.getSnapshot().turn.requests).toBe(0)
+    expect(ledger.getSnapshot().session.requests).toBe(1)
+
+    ledger.reset()
+    expect(ledger.getSnapshot().session.requests).toBe(0)
+    expect(ledger.getSnapshot().byModel).toStrictEqual([])
+  })
+
+  it('getSnapshot() は記録後に変化しないコピーを返す', () => {
+    const ledger = createUsageLedger()
+    const before = ledger.getSnapshot()
+    ledger.record({ inputTokens: 10, outputTokens: 5 }, CLAUDE)
+
+    expect(before.session.requests).toBe(0)
+  })
+
+  describe('checkBudget()', () => {
+    it('上限が未設定なら常に ok を返す', () => {
+      const ledger = createUsageLedger()
+      ledger.record({ inputTokens: 10_000_000, outputTokens: 0 }, CLAUDE)
+
+      expect(ledger.checkBudget()).toStrictEqual({ ok: true, data: undefined })
+    })
+
+    it('推定コストが maxCostUsd に達したら err を返す', () => {
+      const ledger = createUsageLedger({ budget: { maxCostUsd: 0.5 } })
+      ledger.record({ inputTokens: 100_000, outputTokens: 0 }, CLAUDE)
+      expect(ledger.checkBudget().ok).toBe(true)
+
+      ledger.record({ inputTokens: 100_000, outputTokens: 0 }, CLAUDE)
+
+      expect(ledger.checkBudget()).toStrictEqual({
+        ok: false,
+        error: 'Usage budget exceeded: estimated cost $0.6000 reached the limit of $0.5',
+      })
+      expect(ledger.getSnapshot().budget).toStrictEqual({ maxCostUsd: 0.5 })
+    })
+
+    it('キャッシュを含む合計トークン数が maxTokens に達したら err を返す', () => {
+      const ledger = createUsageLedger({ budget: { maxTokens: 100 } })
+      ledger.record({ inputTokens: 40, outputTokens: 30, cacheReadTokens: 30 }, OLLAMA)
+
+      expect(totalTokens(ledger.getSnapshot().session)).toBe(100)
+      expect(ledger.checkBudget()).toStrictEqual({
+        ok: false,
+        error: 'Usage budget exceeded: 100 tokens reached the limit of 100',
+      })
+    })
+  })
+})
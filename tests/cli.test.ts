@@ -1,8 +1,14 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as os from 'node:os'
 import type { Result } from '../src/result.js'
-import type { LLMProvider } from '../src/providers/types.js'
+import type { LLMProvider, Message } from '../src/providers/types.js'
 import type { AgentLoopHandler } from '../src/agent/types.js'
+import type { SessionInfo, SessionStore } from '../src/session/types.js'
 import { ToolRegistry } from '../src/tools/types.js'
+import { getTextContent } from '../src/providers/content.js'
+import { createApprovalPolicy } from '../src/agent/approval-policy.js'
+import { createUsageLedger } from '../src/agent/usage-ledger.js'
+import { createWorkspacePolicy } from '../src/tools/workspace.js'
 
 // --- Provider ファクトリのモック ---
 
@@ -33,12 +39,15 @@ import {
   createProvider,
   createDefaultToolRegistry,
   createServeHandler,
+  formatModelTable,
   type ServeHandlerDeps,
 } from '../src/cli.js'
 import { createClaudeProvider } from '../src/providers/claude.js'
 import { createOpenAIProvider } from '../src/providers/openai.js'
 import { createOllamaProvider } from '../src/providers/ollama.js'
 import { createGeminiProvider } from '../src/providers/gemini.js'
+import { createDefaultProviderRegistry } from '../src/providers/registry.js'
+import { createModelCatalogue, DEFAULT_MODEL_CAPABILITIES } from '../src/providers/models.js'
 
 // --- テスト用ヘルパー ---
 
@@ -62,7 +71,10 @@ function createMockDeps(overrides?: Partial<ServeHandlerDeps>): ServeHandlerDeps
       defaultPersona: 'default',
       providers: { claude: { apiKey: 'test-key' }, openai: { apiKey: 'oai-key' } },
     },
-    agentLoopRef: { current: { step: mockStep } as unknown as import('../src/agent/agent-loop.js').AgentLoop },
+    agentLoopRef: {
+      current: { step: mockStep } as unknown as import('../src/agent/agent-loop.js').AgentLoop,
+    },
+    providerRef: { current: mockProvider },
     abortController: new AbortController(),
     toolRegistry: new ToolRegistry(),
     agentHandlerRef: { current: createMockAgentHandler() },
@@ -71,6 +83,36 @@ function createMockDeps(overrides?: Partial<ServeHandlerDeps>): ServeHandlerDeps
   }
 }
 
+/** メモリ上にセッションを保持する SessionStore */
+function createMemorySessionStore(initial: Record<string, Message[]> = {}): SessionStore {
+  const sessions = new Map(Object.entries(initial))
+  return {
+    append(id, messages) {
+      sessions.set(id, [...(sessions.get(id) ?? []), ...messages])
+      return Promise.resolve({ ok: true, data: undefined })
+    },
+    save(id, messages) {
+      sessions.set(id, [...messages])
+      return Promise.resolve({ ok: true, data: undefined })
+    },
+    load(id) {
+      const messages = sessions.get(id)
+      return Promise.resolve(
+        messages ? { ok: true, data: messages } : { ok: false, error: `Session not found: ${id}` },
+      )
+    },
+    list() {
+      const infos: SessionInfo[] = [...sessions.entries()].map(([id, messages]) => ({
+        id,
+        updatedAt: '2025-01-01T00:00:00.000Z',
+        messageCount: messages.length,
+        preview: getTextContent(messages[0]?.content ?? ''),
+      }))
+      return Promise.resolve({ ok: true, data: infos })
+    },
+  }
+}
+
 // ─── createProvider ───
 
 describe('createProvider', () => {
@@ -110,6 +152,34 @@ describe('createProvider', () => {
     expect(createGeminiProvider).toHaveBeenCalledWith(config, 'gemini-pro')
   })
 
+  it('registry を渡すとサードパーティのプロバイダーをフォールバック先にも使える', async () => {
+    const registry = createDefaultProviderRegistry()
+    const custom: LLMProvider = {
+      complete: () => Promise.resolve({ ok: true, data: { content: 'from custom' } }),
+    }
+    registry.register('custom', () => ({ ok: true, data: custom }))
+    vi.mocked(createClaudeProvider).mockReturnValueOnce({
+      ok: true,
+      data: {
+        complete: () => Promise.resolve({ ok: false, error: 'Overloaded', cause: { status: 529 } }),
+      },
+    })
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    const result = createProvider(
+      'claude',
+      { apiKey: 'k' },
+      'claude-sonnet-4-20250514',
+      { providers: {}, fallback: { chain: [{ provider: 'custom', model: 'custom-1' }] } },
+      registry,
+    )
+    if (!result.ok) throw new Error('provider creation failed')
+    const response = await result.data.complete([{ role: 'user', content: 'hi' }])
+
+    expect(response.ok && response.data.content).toBe('from custom')
+    errorSpy.mockRestore()
+  })
+
   it('未知のプロバイダー名で err を返す', () => {
     const result = createProvider('unknown', {}, 'model')
 
@@ -119,16 +189,127 @@ describe('createProvider', () => {
       expect(result.error).toContain('unknown')
     }
   })
+
+  it('retry 設定があるとリトライ付きのプロバイダーを返し、再試行をログ出力する', async () => {
+    const complete = vi
+      .fn<LLMProvider['complete']>()
+      .mockResolvedValueOnce({ ok: false, error: 'Rate limited', cause: { status: 429 } })
+      .mockResolvedValueOnce({ ok: true, data: { content: 'ok', toolCalls: [] } })
+    vi.mocked(createClaudeProvider).mockReturnValueOnce({ ok: true, data: { complete } })
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    const result = createProvider(
+      'claude',
+      { apiKey: 'test-key', retry: { maxAttempts: 2, initialDelayMs: 0 } },
+      'claude-sonnet-4-20250514',
+    )
+    if (!result.ok) throw new Error('provider creation failed')
+    const response = await result.data.complete([{ role: 'user', content: 'hi' }])
+
+    expect(response.ok).toBe(true)
+    expect(complete).toHaveBeenCalledTimes(2)
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('Retrying claude (1/1)'))
+    errorSpy.mockRestore()
+  })
+
+  it('fallback 設定があると過負荷時に次のプロバイダーへ切り替え、応答元を metadata で返す', async () => {
+    const overloaded = vi
+      .fn<LLMProvider['complete']>()
+      .mockResolvedValue({ ok: false, error: 'Overloaded', cause: { status: 529 } })
+    const fallback = vi
+      .fn<LLMProvider['complete']>()
+      .mockResolvedValue({ ok: true, data: { content: 'from ollama', toolCalls: [] } })
+    vi.mocked(createClaudeProvider).mockReturnValueOnce({
+      ok: true,
+      data: { complete: overloaded },
+    })
+    vi.mocked(createOllamaProvider).mockReturnValueOnce({ ok: true, data: { complete: fallback } })
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    const ollamaConfig = { baseUrl: 'http://localhost:11434' }
+
+    const result = createProvider('claude', { apiKey: 'k' }, 'claude-sonnet-4-20250514', {
+      providers: { ollama: ollamaConfig },
+      fallback: {
+        chain: [
+          { provider: 'claude', model: 'claude-sonnet-4-20250514' },
+          { provider: 'ollama', model: 'llama3' },
+        ],
+      },
+    })
+    if (!result.ok) throw new Error('provider creation failed')
+    const response = await result.data.complete([{ role: 'user', content: 'hi' }])
+
+    expect(createClaudeProvider).toHaveBeenCalledTimes(1)
+    expect(createOllamaProvider).toHaveBeenCalledWith(ollamaConfig, 'llama3')
+    expect(response.ok).toBe(true)
+    if (response.ok) {
+      expect(response.data.metadata).toStrictEqual({ provider: 'ollama', model: 'llama3' })
+    }
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Falling back from claude/claude-sonnet-4-20250514 to ollama/llama3'),
+    )
+    errorSpy.mockRestore()
+  })
+
+  it('fallback 先のプロバイダー生成に失敗すると err を返す', () => {
+    const result = createProvider('claude', { apiKey: 'k' }, 'claude-sonnet-4-20250514', {
+      providers: {},
+      fallback: { chain: [{ provider: 'unknown', model: 'x' }] },
+    })
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error).toBe(
+        'Failed to create fallback provider unknown: Unknown provider: unknown',
+      )
+    }
+  })
+
+  it('モデルの能力と矛盾する設定はプロバイダーを生成せずに err を返す', () => {
+    const result = createProvider(
+      'claude',
+      { apiKey: 'k', generation: { maxTokens: 100_000 } },
+      'claude-sonnet-4-20250514',
+    )
+
+    expect(result).toStrictEqual({
+      ok: false,
+      error:
+        'generation.maxTokens (100000) exceeds the output limit of claude-sonnet-4-20250514 (64000)',
+    })
+    expect(createClaudeProvider).not.toHaveBeenCalled()
+  })
+
+  it('catalogue でツール非対応とされたモデルは fallback 先でも err を返す', () => {
+    const catalogue = createModelCatalogue({ 'ollama/tiny': { tools: false } })
+
+    const primary = createProvider('ollama', {}, 'tiny', undefined, undefined, catalogue)
+    const fallback = createProvider(
+      'claude',
+      { apiKey: 'k' },
+      'claude-sonnet-4-20250514',
+      { providers: {}, fallback: { chain: [{ provider: 'ollama', model: 'tiny' }] } },
+      undefined,
+      catalogue,
+    )
+
+    expect(primary).toStrictEqual({ ok: false, error: 'Model does not support tool calls: tiny' })
+    expect(fallback).toStrictEqual({
+      ok: false,
+      error: 'Failed to create fallback provider ollama: Model does not support tool calls: tiny',
+    })
+    expect(createOllamaProvider).not.toHaveBeenCalled()
+  })
 })
 
 // ─── createDefaultToolRegistry ───
 
 describe('createDefaultToolRegistry', () => {
-  it('4つのビルトインツールを持つ ToolRegistry を返す', () => {
+  it('8つのビルトインツールを持つ ToolRegistry を返す', () => {
     const registry = createDefaultToolRegistry()
     const tools = registry.list()
 
-    expect(tools).toHaveLength(4)
+    expect(tools).toHaveLength(8)
   })
 
   it('read ツールが取得できる', () => {
@@ -147,6 +328,19 @@ describe('createDefaultToolRegistry', () => {
     expect(tool?.name).toBe('write')
   })
 
+  it('edit / multi_edit ツールが取得できる', () => {
+    const registry = createDefaultToolRegistry()
+
+    expect(registry.get('edit')?.name).toBe('edit')
+    expect(registry.get('multi_edit')?.name).toBe('multi_edit')
+  })
+
+  it('apply_patch ツールが取得できる', () => {
+    const registry = createDefaultToolRegistry()
+
+    expect(registry.get('apply_patch')?.name).toBe('apply_patch')
+  })
+
   it('shell ツールが取得できる', () => {
     const registry = createDefaultToolRegistry()
     const tool = registry.get('shell')
@@ -162,6 +356,30 @@ describe('createDefaultToolRegistry', () => {
     expect(tool).toBeDefined()
     expect(tool?.name).toBe('grep')
   })
+
+  it('workspace を渡すとビルトインツールがルート外のパスを拒否する', async () => {
+    const registry = createDefaultToolRegistry({
+      workspace: createWorkspacePolicy({ roots: [os.tmpdir()] }),
+    })
+
+    const result = await registry.get('read')?.execute({ path: '/etc/hostname' })
+
+    expect(result?.ok).toBe(false)
+    expect(result?.error).toContain('Path is outside the workspace')
+  })
+
+  it('read / grep は concurrencySafe、write / edit / multi_edit / apply_patch / shell / shell_session はそうでない', () => {
+    const registry = createDefaultToolRegistry()
+
+    expect(registry.get('read')?.concurrencySafe).toBe(true)
+    expect(registry.get('grep')?.concurrencySafe).toBe(true)
+    expect(registry.get('write')?.concurrencySafe).toBe(false)
+    expect(registry.get('edit')?.concurrencySafe).toBe(false)
+    expect(registry.get('multi_edit')?.concurrencySafe).toBe(false)
+    expect(registry.get('apply_patch')?.concurrencySafe).toBe(false)
+    expect(registry.get('shell')?.concurrencySafe).toBe(false)
+    expect(registry.get('shell_session')?.concurrencySafe).toBe(false)
+  })
 })
 
 // ─── createServeHandler ───
@@ -175,7 +393,9 @@ describe('createServeHandler', () => {
     it('agentLoopRef.current が存在する場合 step を呼び accepted を返す', async () => {
       const mockStep = vi.fn().mockResolvedValue({ ok: true, data: 'response' })
       const deps = createMockDeps({
-        agentLoopRef: { current: { step: mockStep } as unknown as import('../src/agent/agent-loop.js').AgentLoop },
+        agentLoopRef: {
+          current: { step: mockStep } as unknown as import('../src/agent/agent-loop.js').AgentLoop,
+        },
       })
 
       const handler = createServeHandler(deps)
@@ -188,7 +408,9 @@ describe('createServeHandler', () => {
     it('step が失敗した場合 accepted: false を返す', async () => {
       const mockStep = vi.fn().mockResolvedValue({ ok: false, error: 'fail' })
       const deps = createMockDeps({
-        agentLoopRef: { current: { step: mockStep } as unknown as import('../src/agent/agent-loop.js').AgentLoop },
+        agentLoopRef: {
+          current: { step: mockStep } as unknown as import('../src/agent/agent-loop.js').AgentLoop,
+        },
       })
 
       const handler = createServeHandler(deps)
@@ -255,6 +477,19 @@ describe('createServeHandler', () => {
       )
     })
 
+    it('providerRegistry に登録されたサードパーティのプロバイダーに切り替える', async () => {
+      const provider = { complete: vi.fn() }
+      const providerRegistry = createDefaultProviderRegistry()
+      providerRegistry.register('custom', () => ({ ok: true, data: provider }))
+      const deps = createMockDeps({ providerRegistry })
+      const handler = createServeHandler(deps)
+
+      const result = await handler('configUpdate', { provider: 'custom', model: 'custom-1' })
+
+      expect(result).toEqual({ applied: true })
+      expect(deps.providerRef.current).toBe(provider)
+    })
+
     it('provider 生成に失敗した場合 applied: false を返しクラッシュしない', async () => {
       const deps = createMockDeps()
       const oldLoop = deps.agentLoopRef.current
@@ -294,6 +529,78 @@ describe('createServeHandler', () => {
       expect(deps.agentLoopRef.current).not.toBe(oldLoop)
     })
 
+    it('成功時に providerRef.current が新しいプロバイダーに差し替わる', async () => {
+      const otherProvider: LLMProvider = {
+        complete: () => Promise.resolve({ ok: true, data: { content: 'other' } }),
+      }
+      const deps = createMockDeps({ providerRef: { current: otherProvider } })
+      const handler = createServeHandler(deps)
+
+      await handler('configUpdate', { provider: 'openai' })
+
+      expect(deps.providerRef.current).toBe(mockProvider)
+    })
+
+    it('generation を指定するとプロバイダー設定の generation にマージして生成する', async () => {
+      const deps = createMockDeps({
+        config: {
+          defaultProvider: 'claude',
+          defaultModel: 'claude-sonnet-4-20250514',
+          defaultPersona: 'default',
+          providers: { claude: { apiKey: 'test-key', generation: { maxTokens: 2048 } } },
+        },
+      })
+      const handler = createServeHandler(deps)
+
+      const result = await handler('configUpdate', { generation: { temperature: 0.1 } })
+
+      expect(result).toEqual({ applied: true })
+      expect(createClaudeProvider).toHaveBeenCalledWith(
+        { apiKey: 'test-key', generation: { maxTokens: 2048, temperature: 0.1 } },
+        'claude-sonnet-4-20250514',
+      )
+    })
+
+    it('不正な generation は applied: false を返す', async () => {
+      const deps = createMockDeps()
+      const handler = createServeHandler(deps)
+
+      const result = await handler('configUpdate', { generation: { temperature: 'hot' } })
+
+      expect(result).toEqual({ applied: false })
+      expect(createClaudeProvider).not.toHaveBeenCalled()
+    })
+
+    it('modelCatalogue 指定時は Ollama のモデルの能力を /api/show から取得して検証する', async () => {
+      const fetchSpy = vi
+        .spyOn(globalThis, 'fetch')
+        .mockResolvedValue(
+          new Response(JSON.stringify({ capabilities: ['completion'] }), { status: 200 }),
+        )
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined)
+      const modelCatalogue = createModelCatalogue()
+      const deps = createMockDeps({ modelCatalogue })
+      const oldLoop = deps.agentLoopRef.current
+      const handler = createServeHandler(deps)
+
+      const result = await handler('configUpdate', { provider: 'ollama', model: 'tiny' })
+
+      expect(result).toEqual({ applied: false })
+      expect(fetchSpy).toHaveBeenCalledWith('http://localhost:11434/api/show', expect.anything())
+      expect(modelCatalogue.resolve({ provider: 'ollama', model: 'tiny' })).toStrictEqual({
+        tools: false,
+        vision: false,
+        streamingUsage: true,
+      })
+      expect(createOllamaProvider).not.toHaveBeenCalled()
+      expect(deps.agentLoopRef.current).toBe(oldLoop)
+      expect(errorSpy).toHaveBeenCalledWith(
+        'Failed to update config: Model does not support tool calls: tiny',
+      )
+      fetchSpy.mockRestore()
+      errorSpy.mockRestore()
+    })
+
     it('パラメータなし(空オブジェクト)の場合 現在のデフォルト設定で再生成する', async () => {
       const deps = createMockDeps()
       const handler = createServeHandler(deps)
@@ -307,4 +614,258 @@ describe('createServeHandler', () => {
       )
     })
   })
+
+  describe('session/list', () => {
+    it('sessionStore の一覧を返す', async () => {
+      const sessionStore = createMemorySessionStore({
+        s1: [{ role: 'user', content: 'hello' }],
+      })
+      const handler = createServeHandler(createMockDeps({ sessionStore }))
+
+      const result = await handler('session/list', {})
+
+      expect(result).toEqual({
+        sessions: [
+          { id: 's1', updatedAt: '2025-01-01T00:00:00.000Z', messageCount: 1, preview: 'hello' },
+        ],
+      })
+    })
+
+    it('sessionStore がない場合 空配列を返す', async () => {
+      const handler = createServeHandler(createMockDeps())
+
+      const result = await handler('session/list', {})
+
+      expect(result).toEqual({ sessions: [] })
+    })
+  })
+
+  describe('session/resume', () => {
+    it('保存済みの履歴で AgentLoop を復元し resumed: true と履歴を返す', async () => {
+      const history: Message[] = [
+        { role: 'system', content: 'sys' },
+        { role: 'user', content: 'hello' },
+        { role: 'assistant', content: 'hi' },
+      ]
+      const sessionStore = createMemorySessionStore({ s1: history })
+      const deps = createMockDeps({ sessionStore })
+      const handler = createServeHandler(deps)
+
+      const result = await handler('session/resume', { id: 's1' })
+
+      expect(result).toEqual({ resumed: true, messages: history })
+      expect(deps.agentLoopRef.current?.getSessionId()).toBe('s1')
+      expect(deps.agentLoopRef.current?.getMessages()).toEqual(history)
+    })
+
+    it('存在しないセッションの場合 resumed: false を返し AgentLoop を変更しない', async () => {
+      const deps = createMockDeps({ sessionStore: createMemorySessionStore() })
+      const oldLoop = deps.agentLoopRef.current
+      const handler = createServeHandler(deps)
+
+      const result = await handler('session/resume', { id: 'missing' })
+
+      expect(result).toEqual({ resumed: false })
+      expect(deps.agentLoopRef.current).toBe(oldLoop)
+    })
+
+    it('id がない場合 resumed: false を返す', async () => {
+      const handler = createServeHandler(
+        createMockDeps({ sessionStore: createMemorySessionStore() }),
+      )
+
+      const result = await handler('session/resume', {})
+
+      expect(result).toEqual({ resumed: false })
+    })
+  })
+
+  describe('session/new', () => {
+    it('新しいセッションの AgentLoop を生成し ID を返す', async () => {
+      const deps = createMockDeps({ sessionStore: createMemorySessionStore() })
+      const oldLoop = deps.agentLoopRef.current
+      const handler = createServeHandler(deps)
+
+      const result = await handler('session/new', {})
+
+      const newLoop = deps.agentLoopRef.current
+      expect(newLoop).not.toBe(oldLoop)
+      expect(result).toEqual({ created: true, id: newLoop?.getSessionId() })
+      expect(newLoop?.getSessionId()).toEqual(expect.any(String))
+    })
+
+    it('生成した AgentLoop に approvalPolicy を引き継ぐ', async () => {
+      const shellExecute = vi.fn().mockResolvedValue({ ok: true, output: 'ran' })
+      const toolRegistry = new ToolRegistry()
+      toolRegistry.register({
+        name: 'shell',
+        description: 'shell',
+        parameters: {},
+        execute: shellExecute,
+      })
+      const provider: LLMProvider = {
+        complete: vi
+          .fn()
+          .mockResolvedValueOnce({
+            ok: true,
+            data: { content: '', toolCalls: [{ id: 't1', name: 'shell', arguments: {} }] },
+          })
+          .mockResolvedValueOnce({ ok: true, data: { content: 'done' } }),
+      }
+      const deps = createMockDeps({
+        sessionStore: createMemorySessionStore(),
+        providerRef: { current: provider },
+        toolRegistry,
+        approvalPolicy: createApprovalPolicy({ tools: { shell: 'deny' } }),
+      })
+      const handler = createServeHandler(deps)
+
+      await handler('session/new', {})
+      await deps.agentLoopRef.current?.step('run it')
+
+      expect(shellExecute).not.toHaveBeenCalled()
+    })
+
+    it('ビルトインツールのリソース（シェルセッション）を解放する', async () => {
+      const dispose = vi.fn().mockResolvedValue(undefined)
+      const toolRegistry = new ToolRegistry()
+      toolRegistry.register({
+        name: 'shell_session',
+        description: 'shell_session',
+        parameters: {},
+        execute: vi.fn(),
+        dispose,
+      })
+      const handler = createServeHandler(
+        createMockDeps({ sessionStore: createMemorySessionStore(), toolRegistry }),
+      )
+
+      await handler('session/new', {})
+
+      expect(dispose).toHaveBeenCalledOnce()
+    })
+
+    it('sessionStore がない場合 created: false を返す', async () => {
+      const handler = createServeHandler(createMockDeps())
+
+      const result = await handler('session/new', {})
+
+      expect(result).toEqual({ created: false })
+    })
+
+    it('usageLedger の集計をリセットする', async () => {
+      const usageLedger = createUsageLedger()
+      usageLedger.record({ inputTokens: 10, outputTokens: 5 }, { provider: 'claude', model: 'x' })
+      const handler = createServeHandler(
+        createMockDeps({ sessionStore: createMemorySessionStore(), usageLedger }),
+      )
+
+      await handler('session/new', {})
+
+      expect(usageLedger.getSnapshot().session.requests).toBe(0)
+    })
+  })
+
+  describe('usage/get', () => {
+    it('usageLedger の集計結果を返す', async () => {
+      const usageLedger = createUsageLedger({ budget: { maxTokens: 1000 } })
+      const handler = createServeHandler(createMockDeps({ usageLedger }))
+
+      const result = await handler('usage/get', {})
+
+      expect(result).toStrictEqual({ usage: usageLedger.getSnapshot() })
+    })
+
+    it('usageLedger がない場合 usage を省略する', async () => {
+      const handler = createServeHandler(createMockDeps())
+
+      const result = await handler('usage/get', {})
+
+      expect(result).toStrictEqual({})
+    })
+
+    it('configUpdate 後の応答は切り替え先のプロバイダー/モデルで記録する', async () => {
+      const usageLedger = createUsageLedger()
+      const provider: LLMProvider = {
+        complete: () =>
+          Promise.resolve({
+            ok: true,
+            data: { content: 'hi', usage: { inputTokens: 10, outputTokens: 5 } },
+          }),
+      }
+      vi.mocked(createOpenAIProvider).mockReturnValueOnce({ ok: true, data: provider })
+      const deps = createMockDeps({ usageLedger })
+      const handler = createServeHandler(deps)
+
+      await handler('configUpdate', { provider: 'openai', model: 'gpt-4o' })
+      await deps.agentLoopRef.current?.step('hello')
+
+      expect(usageLedger.getSnapshot().byModel).toStrictEqual([
+        expect.objectContaining({ provider: 'openai', model: 'gpt-4o', requests: 1 }),
+      ])
+    })
+  })
+
+  describe('models/list', () => {
+    it('modelCatalogue のモデル一覧と現在のモデルの能力を返す', async () => {
+      const modelCatalogue = createModelCatalogue({ 'local-model': { contextWindow: 8192 } })
+      const handler = createServeHandler(createMockDeps({ modelCatalogue }))
+
+      const result = await handler('models/list', {})
+
+      expect(result).toStrictEqual({
+        models: modelCatalogue.list(),
+        current: {
+          provider: 'claude',
+          model: 'claude-sonnet-4-20250514',
+          capabilities: DEFAULT_MODEL_CAPABILITIES['claude-sonnet-4'],
+        },
+      })
+    })
+
+    it('configUpdate 後は切り替え先のモデルを current として返す', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => undefined)
+      const handler = createServeHandler(createMockDeps({ modelCatalogue: createModelCatalogue() }))
+
+      await handler('configUpdate', { provider: 'openai', model: 'my-finetune' })
+      const result = await handler('models/list', {})
+
+      // カタログにないモデルは capabilities を省略する
+      expect(result).toMatchObject({ current: { provider: 'openai', model: 'my-finetune' } })
+      expect((result as { current: object }).current).not.toHaveProperty('capabilities')
+      vi.restoreAllMocks()
+    })
+
+    it('modelCatalogue がない場合は空の一覧を返す', async () => {
+      const handler = createServeHandler(createMockDeps())
+
+      const result = await handler('models/list', {})
+
+      expect(result).toStrictEqual({ models: [] })
+    })
+  })
+})
+
+// ─── formatModelTable ───
+
+describe('formatModelTable', () => {
+  it('ローカルモデルを列幅を揃えた表にする', () => {
+    const table = formatModelTable([
+      {
+        name: 'llama3.1:8b',
+        size: 4_920_753_328,
+        modifiedAt: '2025-01-02T03:04:05Z',
+        digest: 'abc',
+        parameterSize: '8.0B',
+        quantizationLevel: 'Q4_K_M',
+      },
+      { name: 'tiny', size: 512, modifiedAt: '2025-01-01T00:00:00Z', digest: 'def' },
+    ])
+
+    expect(table.split('\n')).toStrictEqual([
+      'NAME         PARAMETERS  QUANTIZATION  SIZE    MODIFIED',
+      'llama3.1:8b  8.0B        Q4_K_M        4.9 GB  2025-01-02',
+      'tiny         -           -             512 B   2025-01-01',
+    ])
+  })
 })
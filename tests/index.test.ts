@@ -6,9 +6,15 @@ import {
   ToolRegistry,
   createReadTool,
   createWriteTool,
+  createEditTool,
+  createMultiEditTool,
+  createApplyPatchTool,
+  parsePatch,
   createGrepTool,
   createShellTool,
   getShellConfig,
+  createShellSession,
+  createShellSessionTool,
   parseFrontmatter,
   loadConfig,
   loadPersonas,
@@ -16,10 +22,59 @@ import {
   loadAgents,
   AgentLoop,
   createNoopHandler,
+  createSummarizingContextManager,
+  SUMMARY_PREFIX,
+  createFileSessionStore,
+  isValidSessionId,
+  createApprovalPolicy,
+  matchToolPattern,
+  createWorkspacePolicy,
+  createShellPolicy,
+  parseShellCommand,
+  DEFAULT_SHELL_TIMEOUT_MS,
+  mergeWorkspaceConfig,
   createClaudeProvider,
   createOpenAIProvider,
+  createOpenAICompatibleProvider,
   createOllamaProvider,
   createGeminiProvider,
+  withRetry,
+  classifyError,
+  isRetryableFailure,
+  parseRetryAfter,
+  createFallbackProvider,
+  createScriptedProvider,
+  validateJsonSchema,
+  parseStructuredOutput,
+  createRecordingProvider,
+  createReplayProvider,
+  ProviderRegistry,
+  createDefaultProviderRegistry,
+  createConfiguredProvider,
+  createProviderChain,
+  loadProviderModules,
+  createUsageLedger,
+  resolvePricing,
+  estimateCost,
+  totalTokens,
+  DEFAULT_PRICING,
+  createModelCatalogue,
+  validateModelCapabilities,
+  fetchOllamaCapabilities,
+  countTextTokens,
+  estimatePromptTokens,
+  DEFAULT_OLLAMA_BASE_URL,
+  listOllamaModels,
+  showOllamaModel,
+  pullOllamaModel,
+  ensureOllamaModel,
+  DEFAULT_MODEL_CAPABILITIES,
+  resolveCompactionMaxTokens,
+  toContentParts,
+  getTextContent,
+  getImageParts,
+  isContentPart,
+  isMessageContent,
   createMcpManager,
   resolveWorkerData,
   isWorkerMessage,
@@ -30,7 +85,10 @@ import {
   isJsonRpcRequest,
   isJsonRpcNotification,
   isJsonRpcIncoming,
+  isJsonRpcResponse,
   decodeJsonRpc,
+  decodeJsonRpcResponse,
+  encodeRequest,
   encodeNotification,
   encodeSuccessResponse,
   encodeErrorResponse,
@@ -42,8 +100,9 @@ import {
   createRpcServer,
   createStdioTransport,
   createRpcAgentHandler,
+  createRpcPullProgressHandler,
 } from '../src/index.js'
-import type { ShellConfig } from '../src/index.js'
+import type { ShellConfig, ShellSession, ShellSessionResult } from '../src/index.js'
 import type {
   Result,
   JsonSchema,
@@ -63,12 +122,70 @@ import type {
   AgentLoopState,
   AgentLoopHandler,
   AgentLoopOptions,
+  ToolConcurrency,
+  ContextManager,
+  CompactionResult,
+  CompactionStats,
+  SummarizingContextManagerOptions,
+  CompactionConfig,
+  RpcContextCompactedParams,
+  SessionInfo,
+  SessionStore,
+  ApprovalDecision,
+  ApprovalPolicy,
+  ApprovalConfig,
+  WorkspaceConfig,
+  ShellPolicyConfig,
+  ShellPolicy,
+  ShellCommandDecision,
+  ParsedShellCommand,
+  ToolAssessment,
+  WorkspacePolicy,
+  WorkspaceViolation,
+  BuiltinToolOptions,
+  ApprovalMode,
+  RpcApprovalRequestParams,
+  RpcApprovalRequestResult,
+  JsonRpcResponse,
   SubAgentWorkerData,
   WorkerMessage,
   SubAgentRunnerOptions,
   MessageSender,
   WnConfig,
   ProviderConfig,
+  RetryConfig,
+  PromptCachingConfig,
+  OpenAICompatibleQuirks,
+  RetryPolicy,
+  RetryAttempt,
+  ErrorClassification,
+  ResponseMetadata,
+  GenerationOptions,
+  ThinkingBlock,
+  ThinkingOptions,
+  TextPart,
+  ImagePart,
+  DocumentPart,
+  ContentPart,
+  MessageContent,
+  ModelCapabilities,
+  ModelInfo,
+  ModelCatalogue,
+  RpcModelsListParams,
+  RpcModelsListResult,
+  RpcPullProgressParams,
+  OllamaModel,
+  OllamaShowResponse,
+  OllamaPullProgress,
+  OllamaProviderOptions,
+  DefaultProviderRegistryOptions,
+  ProviderFactory,
+  ProviderModuleRegister,
+  FallbackEntry,
+  FallbackEvent,
+  FallbackOptions,
+  FallbackConfig,
+  FallbackTarget,
   McpConfig,
   McpServerConfig,
   McpConnection,
@@ -87,6 +204,8 @@ import type {
   JsonRpcErrorObject,
   JsonRpcErrorResponse,
   RpcResponseParams,
+  RpcResponseDeltaParams,
+  RpcReasoningParams,
   RpcToolExecParams,
   RpcStateChangeParams,
   RpcLogParams,
@@ -96,6 +215,23 @@ import type {
   RpcAbortResult,
   RpcConfigUpdateParams,
   RpcConfigUpdateResult,
+  RpcSessionListParams,
+  RpcSessionListResult,
+  RpcSessionResumeParams,
+  RpcSessionResumeResult,
+  RpcSessionNewParams,
+  RpcSessionNewResult,
+  RpcUsageParams,
+  RpcUsageGetParams,
+  RpcUsageGetResult,
+  UsageLedger,
+  UsageSnapshot,
+  UsageTotals,
+  ModelUsage,
+  SubAgentUsage,
+  ModelPricing,
+  UsageBudget,
+  UsageConfig,
   RpcTransport,
   RpcRequestHandler,
   RpcServer,
@@ -172,11 +308,15 @@ describe('wn-core', () => {
 
     expect(undefined as AgentLoopHandler | undefined).toBeUndefined()
     expect(undefined as AgentLoopOptions | undefined).toBeUndefined()
+    const concurrency: ToolConcurrency = 'parallel'
+    expect(concurrency).toBe('parallel')
   })
 
   it('組み込みツールファクトリがエクスポートされている', () => {
     expect(typeof createReadTool).toBe('function')
     expect(typeof createWriteTool).toBe('function')
+    expect(typeof createEditTool).toBe('function')
+    expect(typeof createMultiEditTool).toBe('function')
     expect(typeof createGrepTool).toBe('function')
     expect(typeof createShellTool).toBe('function')
     expect(typeof getShellConfig).toBe('function')
@@ -186,6 +326,10 @@ describe('wn-core', () => {
     expect(readTool.name).toBe('read')
     const writeTool = createWriteTool()
     expect(writeTool.name).toBe('write')
+    expect(createEditTool().name).toBe('edit')
+    expect(createMultiEditTool().name).toBe('multi_edit')
+    expect(createApplyPatchTool().name).toBe('apply_patch')
+    expect(typeof parsePatch).toBe('function')
     const grepTool = createGrepTool()
     expect(grepTool.name).toBe('grep')
     const shellTool = createShellTool()
@@ -204,6 +348,173 @@ describe('wn-core', () => {
     expect(typeof handler.onResponse).toBe('function')
   })
 
+  it('コンテキスト管理関数がエクスポートされている', () => {
+    expect(typeof createSummarizingContextManager).toBe('function')
+    expect(SUMMARY_PREFIX).toContain('Summary')
+
+    const options: SummarizingContextManagerOptions = { maxTokens: 1000 }
+    const manager: ContextManager = createSummarizingContextManager(options)
+    expect(typeof manager.compact).toBe('function')
+    const config: CompactionConfig = { maxTokens: 1000 }
+    expect(config.maxTokens).toBe(1000)
+    const stats: CompactionStats = { removedMessages: 1, tokensBefore: 2, tokensAfter: 1 }
+    const rpcParams: RpcContextCompactedParams = stats
+    expect(rpcParams.removedMessages).toBe(1)
+    expect(undefined as CompactionResult | undefined).toBeUndefined()
+  })
+
+  it('ツール承認ポリシーがエクスポートされている', () => {
+    expect(matchToolPattern('mcp__*', 'mcp__a')).toBe(true)
+
+    const config: ApprovalConfig = { default: 'ask', tools: { read: 'auto' } }
+    const policy: ApprovalPolicy = createApprovalPolicy(config)
+    const mode: ApprovalMode = policy.resolve('read')
+    expect(mode).toBe('auto')
+
+    const decision: ApprovalDecision = 'allow-always'
+    const params: RpcApprovalRequestParams = { name: 'shell', args: {} }
+    const result: RpcApprovalRequestResult = { decision }
+    expect(params.name).toBe('shell')
+    expect(result.decision).toBe('allow-always')
+  })
+
+  it('ワークスペースポリシーがエクスポートされている', async () => {
+    const config: WorkspaceConfig | undefined = mergeWorkspaceConfig({ deny: ['.env'] }, undefined)
+    const policy: WorkspacePolicy = createWorkspacePolicy(config, '/repo')
+    const options: BuiltinToolOptions = { workspace: policy }
+    expect(options.workspace?.roots).toStrictEqual(['/repo'])
+
+    const result = await policy.check('/repo/.env')
+    const violation: WorkspaceViolation | undefined = result.ok ? undefined : result.error
+    expect(violation?.code).toBe('DENIED')
+  })
+
+  it('shell のコマンドポリシーがエクスポートされている', () => {
+    const config: ShellPolicyConfig = { deny: ['rm -rf *'] }
+    const policy: ShellPolicy = createShellPolicy(config)
+    expect(policy.timeoutMs).toBe(DEFAULT_SHELL_TIMEOUT_MS)
+
+    const decision: ShellCommandDecision = policy.evaluate('rm -rf /')
+    expect(decision.mode).toBe('deny')
+    const parsed: ParsedShellCommand = parseShellCommand('ls | wc -l')
+    expect(parsed.commands).toHaveLength(2)
+    const assessment: ToolAssessment | undefined = createShellTool().assess?.({ command: 'ls' })
+    expect(assessment?.mode).toBe('auto')
+  })
+
+  it('永続シェルセッションがエクスポートされている', async () => {
+    const session: ShellSession = createShellSession({ cwd: '/' })
+    expect(session.cwd).toBe('/')
+    const tool = createShellSessionTool()
+    expect(tool.name).toBe('shell_session')
+    await tool.dispose?.()
+
+    const result: Partial<ShellSessionResult> = { exitCode: 0 }
+    expect(result.exitCode).toBe(0)
+  })
+
+  it('プロバイダーのリトライ関数がエクスポートされている', () => {
+    const classification: ErrorClassification = classifyError('error', { status: 429 })
+    expect(classification.retryable).toBe(true)
+    expect(isRetryableFailure(err('error', { status: 400 }))).toBe(false)
+    expect(parseRetryAfter('2')).toBe(2000)
+
+    const config: RetryConfig = { maxAttempts: 2 }
+    const caching: PromptCachingConfig = { ttl: '5m', messages: false }
+    const providerConfig: ProviderConfig = { apiKey: 'key', retry: config, promptCaching: caching }
+    expect(providerConfig.promptCaching?.ttl).toBe('5m')
+    const quirks: OpenAICompatibleQuirks = { synthesizeToolCallIds: true }
+    const compatConfig: ProviderConfig = { type: 'openai-compatible', quirks }
+    expect(compatConfig.quirks?.synthesizeToolCallIds).toBe(true)
+    const attempts: RetryAttempt[] = []
+    const policy: RetryPolicy = { ...config, onRetry: (a) => attempts.push(a) }
+    const provider: LLMProvider = withRetry(
+      { complete: () => Promise.resolve(err('unused')) },
+      policy,
+    )
+    expect(typeof provider.complete).toBe('function')
+    expect(attempts).toStrictEqual([])
+  })
+
+  it('プロバイダーレジストリがエクスポートされている', async () => {
+    const factory: ProviderFactory = () => err('unused')
+    const register: ProviderModuleRegister = (registry) => {
+      registry.register('custom', factory)
+    }
+    const registry: ProviderRegistry = createDefaultProviderRegistry()
+    await register(registry)
+
+    expect(registry.has('custom')).toBe(true)
+    expect(await loadProviderModules(registry, [])).toStrictEqual({ ok: true, data: undefined })
+    expect(
+      createConfiguredProvider(registry, createModelCatalogue(), 'custom', {}, 'm1'),
+    ).toStrictEqual(err('unused'))
+    expect(
+      createProviderChain(registry, createModelCatalogue(), 'custom', {}, 'm1', {
+        providers: {},
+        fallback: { chain: [{ provider: 'ollama', model: 'llama3' }] },
+      }),
+    ).toStrictEqual(err('unused'))
+  })
+
+  it('フォールバックチェーンがエクスポートされている', () => {
+    const target: FallbackTarget = { provider: 'ollama', model: 'llama3' }
+    const config: FallbackConfig = { chain: [target] }
+    const entry: FallbackEntry = {
+      name: target.provider,
+      model: target.model,
+      provider: { complete: () => Promise.resolve(err('unused')) },
+    }
+    const events: FallbackEvent[] = []
+    const options: FallbackOptions = { onFallback: (e) => events.push(e) }
+
+    const result = createFallbackProvider([entry], options)
+    expect(result.ok).toBe(true)
+    expect(config.chain).toHaveLength(1)
+    const metadata: ResponseMetadata = { provider: 'ollama', model: 'llama3' }
+    const thinkingOptions: ThinkingOptions = { budgetTokens: 2048, effort: 'low' }
+    const generation: GenerationOptions = {
+      maxTokens: 100,
+      temperature: 0,
+      stop: ['END'],
+      thinking: thinkingOptions,
+    }
+    const thinkingBlock: ThinkingBlock = { text: 'hmm', signature: 'sig' }
+    expect(generation.maxTokens).toBe(100)
+    expect(thinkingBlock.signature).toBe('sig')
+    expect(metadata.model).toBe('llama3')
+    expect(events).toStrictEqual([])
+  })
+
+  it('コンテンツパートの型とヘルパーがエクスポートされている', () => {
+    const text: TextPart = { type: 'text', text: 'see image' }
+    const image: ImagePart = { type: 'image', mimeType: 'image/png', data: 'AAAA' }
+    const doc: DocumentPart = { type: 'document', mimeType: 'application/pdf', data: 'BBBB' }
+    const parts: ContentPart[] = [text, image, doc]
+    const content: MessageContent = parts
+
+    expect(getTextContent(content)).toBe('see image')
+    expect(getImageParts(content)).toStrictEqual([image])
+    expect(toContentParts('hi')).toStrictEqual([{ type: 'text', text: 'hi' }])
+    expect(isContentPart(doc)).toBe(true)
+    expect(isMessageContent(content)).toBe(true)
+  })
+
+  it('セッションストアがエクスポートされている', () => {
+    expect(typeof createFileSessionStore).toBe('function')
+    expect(isValidSessionId('abc-123')).toBe(true)
+
+    const store: SessionStore = createFileSessionStore('/tmp/wn-sessions')
+    expect(typeof store.load).toBe('function')
+    const info: SessionInfo = {
+      id: 'abc-123',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+      messageCount: 2,
+      preview: 'hello',
+    }
+    expect(info.messageCount).toBe(2)
+  })
+
   it('Loader 関数がエクスポートされている', () => {
     expect(typeof parseFrontmatter).toBe('function')
     expect(typeof loadConfig).toBe('function')
@@ -215,10 +526,22 @@ describe('wn-core', () => {
   it('LLM Provider ファクトリ関数がエクスポートされている', () => {
     expect(typeof createClaudeProvider).toBe('function')
     expect(typeof createOpenAIProvider).toBe('function')
+    expect(typeof createOpenAICompatibleProvider).toBe('function')
     expect(typeof createOllamaProvider).toBe('function')
     expect(typeof createGeminiProvider).toBe('function')
   })
 
+  it('構造化出力の関数がエクスポートされている', () => {
+    expect(typeof validateJsonSchema).toBe('function')
+    expect(typeof parseStructuredOutput).toBe('function')
+  })
+
+  it('オフライン用プロバイダーがエクスポートされている', () => {
+    expect(typeof createScriptedProvider).toBe('function')
+    expect(typeof createRecordingProvider).toBe('function')
+    expect(typeof createReplayProvider).toBe('function')
+  })
+
   it('SubAgentRunner 関連がエクスポートされている', () => {
     expect(typeof resolveWorkerData).toBe('function')
     expect(typeof isWorkerMessage).toBe('function')
@@ -231,6 +554,75 @@ describe('wn-core', () => {
     expect(undefined as MessageSender | undefined).toBeUndefined()
   })
 
+  it('使用量の台帳がエクスポートされている', () => {
+    const pricing: ModelPricing = { input: 3, output: 15 }
+    const budget: UsageBudget = { maxCostUsd: 10 }
+    const config: UsageConfig = { pricing: { 'my-model': pricing }, budget }
+    const ledger: UsageLedger = createUsageLedger(config)
+    ledger.record({ inputTokens: 1000, outputTokens: 100 }, { provider: 'x', model: 'my-model' })
+
+    const snapshot: UsageSnapshot = ledger.getSnapshot()
+    const totals: UsageTotals = snapshot.session
+    const models: readonly ModelUsage[] = snapshot.byModel
+    const subAgents: readonly SubAgentUsage[] = snapshot.bySubAgent
+    const params: RpcUsageParams = snapshot
+    const getParams: RpcUsageGetParams = {}
+    const getResult: RpcUsageGetResult = { usage: snapshot }
+
+    expect(totalTokens(totals)).toBe(1100)
+    expect(totals.costUsd).toBeCloseTo(
+      estimateCost({ inputTokens: 1000, outputTokens: 100 }, pricing),
+    )
+    expect(resolvePricing(DEFAULT_PRICING, { provider: 'openai', model: 'gpt-4o' })).toBeDefined()
+    expect(models).toHaveLength(1)
+    expect(subAgents).toStrictEqual([])
+    expect(params.budget).toStrictEqual(budget)
+    expect(getParams).toStrictEqual({})
+    expect(getResult.usage).toBe(snapshot)
+  })
+
+  it('モデルの能力カタログがエクスポートされている', () => {
+    const capabilities: ModelCapabilities = { contextWindow: 8192, tools: false }
+    const catalogue: ModelCatalogue = createModelCatalogue({ 'local-model': capabilities })
+    const models: ModelInfo[] = catalogue.list()
+    const params: RpcModelsListParams = {}
+    const result: RpcModelsListResult = { models }
+
+    expect(catalogue.resolve({ provider: 'ollama', model: 'local-model' })).toStrictEqual(
+      capabilities,
+    )
+    expect(validateModelCapabilities({}, 'local-model', capabilities).ok).toBe(false)
+    expect(typeof fetchOllamaCapabilities).toBe('function')
+    expect(DEFAULT_MODEL_CAPABILITIES['gpt-4o']).toBeDefined()
+    expect(resolveCompactionMaxTokens({}, capabilities)).toBe(6144)
+    expect(params).toStrictEqual({})
+    expect(result.models).toHaveLength(Object.keys(DEFAULT_MODEL_CAPABILITIES).length + 1)
+  })
+
+  it('トークン数の推定がエクスポートされている', () => {
+    expect(countTextTokens('Hello world')).toBe(2)
+    expect(estimatePromptTokens([{ role: 'user', content: 'Hello world' }])).toBe(8)
+  })
+
+  it('Ollama のモデル管理がエクスポートされている', () => {
+    const model: OllamaModel = { name: 'llama3', size: 1, modifiedAt: '', digest: 'd' }
+    const progress: OllamaPullProgress = { status: 'success' }
+    const show: OllamaShowResponse = { capabilities: ['tools'] }
+    const providerOptions: OllamaProviderOptions = { onPullProgress: () => undefined }
+    const registryOptions: DefaultProviderRegistryOptions = { ollama: providerOptions }
+    const params: RpcPullProgressParams = { model: model.name, ...progress }
+
+    expect(DEFAULT_OLLAMA_BASE_URL).toBe('http://localhost:11434')
+    expect(typeof listOllamaModels).toBe('function')
+    expect(typeof showOllamaModel).toBe('function')
+    expect(typeof pullOllamaModel).toBe('function')
+    expect(typeof ensureOllamaModel).toBe('function')
+    expect(typeof createRpcPullProgressHandler).toBe('function')
+    expect(createDefaultProviderRegistry(registryOptions).has('ollama')).toBe(true)
+    expect(show.capabilities).toStrictEqual(['tools'])
+    expect(params).toStrictEqual({ model: 'llama3', status: 'success' })
+  })
+
   it('MCP Client がエクスポートされている', () => {
     expect(typeof createMcpManager).toBe('function')
 
@@ -308,19 +700,32 @@ describe('wn-core', () => {
     expect(JSON_RPC_ERROR_CODES.INTERNAL_ERROR).toBe(-32603)
 
     expect(RPC_METHODS.RESPONSE).toBe('response')
+    expect(RPC_METHODS.RESPONSE_DELTA).toBe('responseDelta')
+    expect(RPC_METHODS.REASONING).toBe('reasoning')
     expect(RPC_METHODS.TOOL_EXEC).toBe('toolExec')
     expect(RPC_METHODS.STATE_CHANGE).toBe('stateChange')
     expect(RPC_METHODS.LOG).toBe('log')
     expect(RPC_METHODS.INPUT).toBe('input')
     expect(RPC_METHODS.ABORT).toBe('abort')
     expect(RPC_METHODS.CONFIG_UPDATE).toBe('configUpdate')
+    expect(RPC_METHODS.SESSION_LIST).toBe('session/list')
+    expect(RPC_METHODS.SESSION_RESUME).toBe('session/resume')
+    expect(RPC_METHODS.SESSION_NEW).toBe('session/new')
+    expect(RPC_METHODS.USAGE).toBe('usage')
+    expect(RPC_METHODS.USAGE_GET).toBe('usage/get')
+    expect(RPC_METHODS.MODELS_LIST).toBe('models/list')
+    expect(RPC_METHODS.PULL_PROGRESS).toBe('pullProgress')
+    expect(RPC_METHODS.APPROVAL_REQUEST).toBe('approvalRequest')
   })
 
   it('RPC protocol 関数がエクスポートされている', () => {
     expect(typeof isJsonRpcRequest).toBe('function')
     expect(typeof isJsonRpcNotification).toBe('function')
     expect(typeof isJsonRpcIncoming).toBe('function')
+    expect(typeof isJsonRpcResponse).toBe('function')
     expect(typeof decodeJsonRpc).toBe('function')
+    expect(typeof decodeJsonRpcResponse).toBe('function')
+    expect(typeof encodeRequest).toBe('function')
     expect(typeof encodeNotification).toBe('function')
     expect(typeof encodeSuccessResponse).toBe('function')
     expect(typeof encodeErrorResponse).toBe('function')
@@ -361,9 +766,18 @@ describe('wn-core', () => {
     const errorResponse: JsonRpcErrorResponse = { jsonrpc: '2.0', id: null, error: errorObj }
     expect(errorResponse.error.code).toBe(-32600)
 
+    const response: JsonRpcResponse = successResponse
+    expect(response.id).toBe(1)
+
     const responseParams: RpcResponseParams = { content: 'hello' }
     expect(responseParams.content).toBe('hello')
 
+    const responseDeltaParams: RpcResponseDeltaParams = { content: 'hel' }
+    expect(responseDeltaParams.content).toBe('hel')
+
+    const reasoningParams: RpcReasoningParams = { content: 'thinking...' }
+    expect(reasoningParams.content).toBe('thinking...')
+
     const toolExecParams: RpcToolExecParams = { event: 'start', name: 'read', args: {} }
     expect(toolExecParams.event).toBe('start')
 
@@ -391,6 +805,24 @@ describe('wn-core', () => {
     const configResult: RpcConfigUpdateResult = { applied: true }
     expect(configResult.applied).toBe(true)
 
+    const sessionListParams: RpcSessionListParams = {}
+    expect(sessionListParams).toEqual({})
+
+    const sessionListResult: RpcSessionListResult = { sessions: [] }
+    expect(sessionListResult.sessions).toHaveLength(0)
+
+    const sessionResumeParams: RpcSessionResumeParams = { id: 'abc' }
+    expect(sessionResumeParams.id).toBe('abc')
+
+    const sessionResumeResult: RpcSessionResumeResult = { resumed: true, messages: [] }
+    expect(sessionResumeResult.resumed).toBe(true)
+
+    const sessionNewParams: RpcSessionNewParams = {}
+    expect(sessionNewParams).toEqual({})
+
+    const sessionNewResult: RpcSessionNewResult = { created: true, id: 'abc' }
+    expect(sessionNewResult.id).toBe('abc')
+
     // インターフェース型は import 可能であることが検証
     expect(undefined as RpcTransport | undefined).toBeUndefined()
     expect(undefined as RpcRequestHandler | undefined).toBeUndefined()
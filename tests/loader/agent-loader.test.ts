@@ -52,6 +52,81 @@ describe('loadAgents', () => {
     }
   })
 
+  it('frontmatter の生成パラメータを generation として取得する', async () => {
+    const agentsDir = path.join(globalDir, 'agents')
+    fs.mkdirSync(agentsDir)
+    fs.writeFileSync(
+      path.join(agentsDir, 'writer.md'),
+      [
+        '---',
+        'provider: openai',
+        'model: gpt-4o',
+        'maxTokens: 2000',
+        'temperature: 0.7',
+        'topP: 0.9',
+        'stop: [END, STOP]',
+        'seed: 42',
+        '---',
+        '文章を書くサブエージェントです。',
+      ].join('\n'),
+      'utf-8',
+    )
+
+    const result = await loadAgents(globalDir, localDir)
+
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.data.get('writer')?.generation).toStrictEqual({
+        maxTokens: 2000,
+        temperature: 0.7,
+        topP: 0.9,
+        stop: ['END', 'STOP'],
+        seed: 42,
+      })
+    }
+  })
+
+  it('生成パラメータがなければ generation を設定せず、数値でない値は無視する', async () => {
+    const agentsDir = path.join(globalDir, 'agents')
+    fs.mkdirSync(agentsDir)
+    fs.writeFileSync(path.join(agentsDir, 'plain.md'), '---\nprovider: claude\n---\nbody', 'utf-8')
+    fs.writeFileSync(
+      path.join(agentsDir, 'invalid.md'),
+      '---\ntemperature: warm\nmaxTokens: 100\n---\nbody',
+      'utf-8',
+    )
+
+    const result = await loadAgents(globalDir, localDir)
+
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.data.get('plain')).not.toHaveProperty('generation')
+      expect(result.data.get('invalid')?.generation).toStrictEqual({ maxTokens: 100 })
+    }
+  })
+
+  it('workspaceRoots / workspaceDeny を workspace として取得する', async () => {
+    const agentsDir = path.join(globalDir, 'agents')
+    fs.mkdirSync(agentsDir)
+    fs.writeFileSync(
+      path.join(agentsDir, 'confined.md'),
+      '---\nworkspaceRoots: [src, docs]\nworkspaceDeny: .env\n---\nbody',
+      'utf-8',
+    )
+    fs.writeFileSync(path.join(agentsDir, 'free.md'), '---\nprovider: claude\n---\nbody', 'utf-8')
+
+    const result = await loadAgents(globalDir, localDir)
+
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.data.get('confined')?.workspace).toStrictEqual({
+        roots: ['src', 'docs'],
+        deny: ['.env'],
+      })
+      expect(result.data.get('free')).not.toHaveProperty('workspace')
+    }
+  })
+
   it('ボディを description として取得する', async () => {
     const agentsDir = path.join(globalDir, 'agents')
     fs.mkdirSync(agentsDir)
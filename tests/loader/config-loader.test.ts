@@ -387,6 +387,475 @@ describe('loadConfig', () => {
     })
   })
 
+  // ── compaction ──────────────────────────────────────────
+
+  describe('compaction', () => {
+    it('compaction 設定を読み込む', async () => {
+      writeConfig(globalDir, {
+        compaction: { maxTokens: 100000, keepRecentMessages: 8 },
+      })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.compaction).toStrictEqual({ maxTokens: 100000, keepRecentMessages: 8 })
+      }
+    })
+
+    it('maxTokens を省略した compaction 設定を読み込む', async () => {
+      writeConfig(globalDir, { compaction: { keepRecentMessages: 4 } })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.compaction).toStrictEqual({ keepRecentMessages: 4 })
+      }
+    })
+
+    it('maxTokens が不正な場合は compaction を無視する', async () => {
+      writeConfig(globalDir, {
+        compaction: { maxTokens: 'many' },
+      })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.compaction).toBeUndefined()
+      }
+    })
+  })
+
+  // ── provider retry ────────────────────────────────────
+
+  describe('provider retry', () => {
+    it('プロバイダーごとの retry 設定を読み込む', async () => {
+      writeConfig(globalDir, {
+        providers: {
+          claude: { apiKey: 'key', retry: { maxAttempts: 5, initialDelayMs: 1000 } },
+        },
+      })
+      writeConfig(localDir, {
+        providers: { claude: { retry: { jitter: false } } },
+      })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.providers['claude']).toStrictEqual({
+          apiKey: 'key',
+          retry: { maxAttempts: 5, initialDelayMs: 1000, jitter: false },
+        })
+      }
+    })
+
+    it('プロバイダーごとの generation 設定を読み込む', async () => {
+      writeConfig(globalDir, {
+        providers: {
+          openai: { generation: { maxTokens: 1000, temperature: 0.2, stop: ['###'], seed: 3 } },
+          gemini: { generation: { topP: 'high' } },
+        },
+      })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.providers['openai']).toStrictEqual({
+          generation: { maxTokens: 1000, temperature: 0.2, stop: ['###'], seed: 3 },
+        })
+        expect(result.data.providers['gemini']).toBeUndefined()
+      }
+    })
+
+    it('generation.thinking を検証し、不正な推論設定を持つプロバイダーは無視する', async () => {
+      writeConfig(globalDir, {
+        providers: {
+          claude: { generation: { thinking: { budgetTokens: 8000 } } },
+          openai: { generation: { thinking: { budgetTokens: 2000, effort: 'extreme' } } },
+          gemini: { generation: { thinking: { budgetTokens: 0 } } },
+        },
+      })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.providers['claude']).toStrictEqual({
+          generation: { thinking: { budgetTokens: 8000 } },
+        })
+        expect(result.data.providers['openai']).toBeUndefined()
+        expect(result.data.providers['gemini']).toBeUndefined()
+      }
+    })
+
+    it('不正な retry 設定を持つプロバイダーは無視する', async () => {
+      writeConfig(globalDir, {
+        providers: {
+          claude: { apiKey: 'key', retry: { maxAttempts: 'three' } },
+          ollama: { baseUrl: 'http://localhost:11434' },
+        },
+      })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.providers['claude']).toBeUndefined()
+        expect(result.data.providers['ollama']).toBeDefined()
+      }
+    })
+
+    it('promptCaching 設定を読み込む', async () => {
+      writeConfig(globalDir, {
+        providers: { claude: { apiKey: 'key', promptCaching: { ttl: '1h', tools: false } } },
+      })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.providers['claude']?.promptCaching).toStrictEqual({
+          ttl: '1h',
+          tools: false,
+        })
+      }
+    })
+
+    it('不正な promptCaching 設定を持つプロバイダーは無視する', async () => {
+      writeConfig(globalDir, {
+        providers: {
+          claude: { apiKey: 'key', promptCaching: { ttl: '24h' } },
+          openai: { apiKey: 'key', promptCaching: { system: 'yes' } },
+        },
+      })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.providers['claude']).toBeUndefined()
+        expect(result.data.providers['openai']).toBeUndefined()
+      }
+    })
+  })
+
+  describe('openai-compatible', () => {
+    it('type と quirks 設定を読み込む', async () => {
+      const vllm = {
+        type: 'openai-compatible',
+        baseUrl: 'http://localhost:8000/v1',
+        quirks: {
+          headers: { 'X-Title': 'wn' },
+          disableStreamUsage: true,
+          synthesizeToolCallIds: true,
+          emulateToolCalls: false,
+        },
+      }
+      writeConfig(globalDir, { providers: { vllm } })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.providers['vllm']).toStrictEqual(vllm)
+      }
+    })
+
+    it('不正な type / quirks 設定を持つプロバイダーは無視する', async () => {
+      writeConfig(globalDir, {
+        providers: {
+          a: { type: 1, baseUrl: 'http://a' },
+          b: { baseUrl: 'http://b', quirks: { headers: { 'X-Count': 1 } } },
+          c: { baseUrl: 'http://c', quirks: { emulateToolCalls: 'yes' } },
+        },
+      })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.providers).toStrictEqual({})
+      }
+    })
+  })
+
+  describe('ollama autoPull', () => {
+    it('autoPull を読み込み、真偽値でない場合はプロバイダーを無視する', async () => {
+      writeConfig(globalDir, {
+        providers: {
+          ollama: { baseUrl: 'http://localhost:11434', autoPull: true },
+          broken: { type: 'ollama', autoPull: 'yes' },
+        },
+      })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.providers).toStrictEqual({
+          ollama: { baseUrl: 'http://localhost:11434', autoPull: true },
+        })
+      }
+    })
+  })
+
+  describe('scripted / cassette', () => {
+    it('script と cassette 設定を読み込む', async () => {
+      const offline = { type: 'scripted', script: './fixtures/script.json' }
+      const recorded = {
+        type: 'cassette',
+        cassette: {
+          path: './fixtures/session.json',
+          mode: 'record',
+          provider: { type: 'claude', apiKey: 'sk-test' },
+        },
+      }
+      writeConfig(globalDir, { providers: { offline, recorded } })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.providers['offline']).toStrictEqual(offline)
+        expect(result.data.providers['recorded']).toStrictEqual(recorded)
+      }
+    })
+
+    it('不正な script / cassette 設定を持つプロバイダーは無視する', async () => {
+      writeConfig(globalDir, {
+        providers: {
+          a: { script: 1 },
+          b: { cassette: { mode: 'replay' } },
+          c: { cassette: { path: './c.json', mode: 'rewind' } },
+          d: { cassette: { path: './d.json', provider: { apiKey: 1 } } },
+        },
+      })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.providers).toStrictEqual({})
+      }
+    })
+  })
+
+  // ── usage ─────────────────────────────────────────────
+
+  describe('usage', () => {
+    it('料金表の上書きとセッション上限を読み込む', async () => {
+      writeConfig(globalDir, {
+        usage: {
+          pricing: { 'my-model': { input: 1, output: 2, cacheRead: 0.1 } },
+          budget: { maxCostUsd: 5, maxTokens: 1000000 },
+        },
+      })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.usage).toStrictEqual({
+          pricing: { 'my-model': { input: 1, output: 2, cacheRead: 0.1 } },
+          budget: { maxCostUsd: 5, maxTokens: 1000000 },
+        })
+      }
+    })
+
+    it('不正な usage 設定は無視する', async () => {
+      writeConfig(globalDir, {
+        usage: { pricing: { 'my-model': { input: 1 } }, budget: { maxCostUsd: -1 } },
+      })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.usage).toBeUndefined()
+      }
+    })
+  })
+
+  // ── models ────────────────────────────────────────────
+
+  describe('models', () => {
+    it('モデルの能力の上書きを読み込む', async () => {
+      writeConfig(globalDir, {
+        models: {
+          'ollama/qwen3': { contextWindow: 32768, tools: true },
+          'gpt-4o': { maxOutputTokens: 4096, vision: false, streamingUsage: true },
+        },
+      })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.models).toStrictEqual({
+          'ollama/qwen3': { contextWindow: 32768, tools: true },
+          'gpt-4o': { maxOutputTokens: 4096, vision: false, streamingUsage: true },
+        })
+      }
+    })
+
+    it('不正な models 設定は無視する', async () => {
+      writeConfig(globalDir, { models: { 'my-model': { contextWindow: 0, tools: 'yes' } } })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.models).toBeUndefined()
+      }
+    })
+  })
+
+  // ── providerModules ───────────────────────────────────
+
+  describe('providerModules', () => {
+    it('プロバイダーモジュールの一覧を読み込む', async () => {
+      writeConfig(globalDir, { providerModules: ['./providers/custom.js', 'wn-provider-foo'] })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.providerModules).toStrictEqual([
+          './providers/custom.js',
+          'wn-provider-foo',
+        ])
+      }
+    })
+
+    it('文字列の配列でない providerModules は無視する', async () => {
+      writeConfig(globalDir, { providerModules: ['./ok.js', 1] })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.providerModules).toBeUndefined()
+      }
+    })
+  })
+
+  // ── fallback ──────────────────────────────────────────
+
+  describe('fallback', () => {
+    it('fallback チェーンを読み込み、ローカルの chain でグローバルを置き換える', async () => {
+      writeConfig(globalDir, {
+        fallback: { chain: [{ provider: 'openai', model: 'gpt-4o' }] },
+      })
+      writeConfig(localDir, {
+        fallback: { chain: [{ provider: 'ollama', model: 'llama3' }] },
+      })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.fallback).toStrictEqual({
+          chain: [{ provider: 'ollama', model: 'llama3' }],
+        })
+      }
+    })
+
+    it('model が欠けた要素を含む場合は fallback を無視する', async () => {
+      writeConfig(globalDir, {
+        fallback: { chain: [{ provider: 'openai' }] },
+      })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.fallback).toBeUndefined()
+      }
+    })
+  })
+
+  // ── approval ──────────────────────────────────────────
+
+  describe('approval', () => {
+    it('approval 設定を読み込み、ローカルのルールをグローバルにマージする', async () => {
+      writeConfig(globalDir, {
+        approval: { default: 'auto', tools: { shell: 'ask' } },
+      })
+      writeConfig(localDir, {
+        approval: { tools: { 'mcp__*': 'deny' } },
+      })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.approval).toStrictEqual({
+          default: 'auto',
+          tools: { shell: 'ask', 'mcp__*': 'deny' },
+        })
+      }
+    })
+
+    it('不正なモードを含む場合は approval を無視する', async () => {
+      writeConfig(globalDir, {
+        approval: { tools: { shell: 'maybe' } },
+      })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.approval).toBeUndefined()
+      }
+    })
+  })
+
+  // ── workspace ──────────────────────────────────────────
+
+  describe('workspace', () => {
+    it('workspace 設定を読み込み、ローカルの設定で上書きする', async () => {
+      writeConfig(globalDir, {
+        workspace: { roots: ['/srv/global'], deny: ['.env'] },
+      })
+      writeConfig(localDir, {
+        workspace: { roots: ['.', '../shared'], deny: ['*.pem'], allowSymlinkEscape: true },
+      })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.workspace).toStrictEqual({
+          roots: ['.', '../shared'],
+          deny: ['*.pem'],
+          allowSymlinkEscape: true,
+        })
+      }
+    })
+
+    it('不正な workspace 設定は無視する', async () => {
+      writeConfig(globalDir, {
+        workspace: { roots: '/srv', deny: ['.env'] },
+      })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.workspace).toBeUndefined()
+      }
+    })
+  })
+
+  // ── shell ──────────────────────────────────────────
+
+  describe('shell', () => {
+    it('shell のコマンドポリシーを読み込む', async () => {
+      writeConfig(globalDir, {
+        shell: { allow: ['git *'], deny: ['rm -rf *'], dangerous: 'deny', timeoutMs: 30000 },
+      })
+
+      const result = await loadConfig(globalDir, localDir)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.shell).toStrictEqual({
+          allow: ['git *'],
+          deny: ['rm -rf *'],
+          dangerous: 'deny',
+          timeoutMs: 30000,
+        })
+      }
+    })
+
+    it('不正なモードや 0 以下のタイムアウトを含む場合は shell を無視する', async () => {
+      writeConfig(globalDir, { shell: { dangerous: 'maybe' } })
+      const invalidMode = await loadConfig(globalDir, localDir)
+      expect(invalidMode.ok && invalidMode.data.shell).toBeUndefined()
+
+      writeConfig(globalDir, { shell: { timeoutMs: 0 } })
+      const invalidTimeout = await loadConfig(globalDir, localDir)
+      expect(invalidTimeout.ok && invalidTimeout.data.shell).toBeUndefined()
+    })
+  })
+
   // ── デフォルト値 ──────────────────────────────────────────
 
   describe('デフォルト値', () => {
@@ -41,6 +41,30 @@ describe('loadSkills', () => {
     }
   })
 
+  it('frontmatter の toolChoice をキーワードまたはツール名として取得する', async () => {
+    const choices = { plan: 'required', answer: 'none', save: 'write', free: undefined }
+    for (const [name, toolChoice] of Object.entries(choices)) {
+      const skillDir = path.join(globalDir, 'skills', name)
+      fs.mkdirSync(skillDir, { recursive: true })
+      const line = toolChoice !== undefined ? `toolChoice: ${toolChoice}\n` : ''
+      fs.writeFileSync(
+        path.join(skillDir, 'SKILL.md'),
+        `---\nname: ${name}\ndescription: ${name} skill\n${line}---\nBody\n`,
+        'utf-8',
+      )
+    }
+
+    const result = await loadSkills(globalDir, localDir)
+
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.data.get('plan')?.toolChoice).toBe('required')
+      expect(result.data.get('answer')?.toolChoice).toBe('none')
+      expect(result.data.get('save')?.toolChoice).toStrictEqual({ name: 'write' })
+      expect(result.data.get('free')).not.toHaveProperty('toolChoice')
+    }
+  })
+
   it('SKILL.md のボディを body として取得する', async () => {
     const skillDir = path.join(globalDir, 'skills', 'body-test')
     fs.mkdirSync(skillDir, { recursive: true })
@@ -0,0 +1,290 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import {
+  createRecordingProvider,
+  createReplayProvider,
+  createCassetteProvider,
+} from '../../src/providers/cassette.js'
+import type { Cassette } from '../../src/providers/cassette.js'
+import { createScriptedProvider } from '../../src/providers/scripted.js'
+import { ProviderRegistry } from '../../src/providers/registry.js'
+import { estimatePromptTokens } from '../../src/providers/token-count.js'
+import type { LLMProvider, LLMResponse, Message, StreamChunk } from '../../src/providers/types.js'
+import { ok, err } from '../../src/result.js'
+
+// ─── helpers ──────────────────────────────────────────────
+
+const MESSAGES: Message[] = [{ role: 'user', content: 'Hi' }]
+
+const RESPONSE: LLMResponse = {
+  content: 'Hello',
+  toolCalls: [],
+  usage: { inputTokens: 1, outputTokens: 2 },
+}
+
+const CHUNKS: StreamChunk[] = [
+  { type: 'delta', content: 'Hel' },
+  { type: 'delta', content: 'lo' },
+  { type: 'done', usage: { inputTokens: 1, outputTokens: 2 } },
+]
+
+async function collect(stream: AsyncIterable<StreamChunk> | undefined): Promise<StreamChunk[]> {
+  const chunks: StreamChunk[] = []
+  for await (const chunk of stream ?? []) {
+    chunks.push(chunk)
+  }
+  return chunks
+}
+
+function readCassette(file: string): Cassette {
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as Cassette
+}
+
+describe('cassette provider', () => {
+  let tmpDir: string
+  let cassettePath: string
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wn-cassette-test-'))
+    cassettePath = path.join(tmpDir, 'cassettes', 'session.json')
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  // ─── createRecordingProvider ────────────────────────────
+
+  describe('createRecordingProvider', () => {
+    it('complete() のやり取りをカセットに書き出す', async () => {
+      const recorder = createRecordingProvider(
+        createScriptedProvider([{ response: RESPONSE }]),
+        cassettePath,
+      )
+
+      expect(await recorder.complete(MESSAGES)).toStrictEqual(ok(RESPONSE))
+      expect(readCassette(cassettePath)).toStrictEqual({
+        version: 1,
+        interactions: [{ request: { messages: MESSAGES, tools: [] }, response: RESPONSE }],
+      })
+    })
+
+    it('stream() のチャンクを記録する', async () => {
+      const recorder = createRecordingProvider(
+        createScriptedProvider([{ chunks: CHUNKS }]),
+        cassettePath,
+      )
+
+      expect(await collect(recorder.stream?.(MESSAGES))).toStrictEqual(CHUNKS)
+      expect(readCassette(cassettePath).interactions).toStrictEqual([
+        { request: { messages: MESSAGES, tools: [] }, chunks: CHUNKS },
+      ])
+    })
+
+    it('stream() 未実装のプロバイダーは complete() の結果をチャンクとして記録する', async () => {
+      const inner: LLMProvider = { complete: () => Promise.resolve(ok(RESPONSE)) }
+      const recorder = createRecordingProvider(inner, cassettePath)
+
+      const chunks = await collect(recorder.stream?.(MESSAGES))
+
+      expect(chunks.map((c) => c.type)).toStrictEqual(['delta', 'done'])
+      expect(readCassette(cassettePath).interactions[0]?.chunks).toStrictEqual(chunks)
+    })
+
+    it('err もカセットに記録する', async () => {
+      const recorder = createRecordingProvider(
+        createScriptedProvider([{ error: 'API error (500): boom' }]),
+        cassettePath,
+      )
+
+      expect(await recorder.complete(MESSAGES)).toStrictEqual(err('API error (500): boom'))
+      expect(readCassette(cassettePath).interactions[0]?.error).toBe('API error (500): boom')
+    })
+
+    it('カセットの書き出しに失敗すると complete() は err、stream() は例外になる', async () => {
+      const blocker = path.join(tmpDir, 'blocker')
+      fs.writeFileSync(blocker, '')
+      const unwritable = path.join(blocker, 'session.json')
+      const recorder = createRecordingProvider(
+        createScriptedProvider([{ response: RESPONSE }, { chunks: CHUNKS }]),
+        unwritable,
+      )
+
+      const result = await recorder.complete(MESSAGES)
+
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.error).toContain(`Failed to write cassette ${unwritable}`)
+      }
+      await expect(collect(recorder.stream?.(MESSAGES))).rejects.toThrow(
+        `Failed to write cassette ${unwritable}`,
+      )
+    })
+
+    it('countTokens() は記録せずに実プロバイダーへ委譲する', async () => {
+      const inner: LLMProvider = {
+        complete: () => Promise.resolve(ok(RESPONSE)),
+        countTokens: (messages) => Promise.resolve(ok(messages.length * 10)),
+      }
+
+      const recorder = createRecordingProvider(inner, cassettePath)
+
+      expect(await recorder.countTokens?.(MESSAGES)).toStrictEqual(ok(10))
+      expect(fs.existsSync(cassettePath)).toBe(false)
+      expect(
+        'countTokens' in createRecordingProvider(createScriptedProvider([]), cassettePath),
+      ).toBe(false)
+    })
+  })
+
+  // ─── createReplayProvider ───────────────────────────────
+
+  describe('createReplayProvider', () => {
+    it('記録したやり取りをそのまま再生する', async () => {
+      const recorder = createRecordingProvider(
+        createScriptedProvider([{ response: RESPONSE }, { chunks: CHUNKS }]),
+        cassettePath,
+      )
+      await recorder.complete(MESSAGES)
+      await collect(recorder.stream?.(MESSAGES))
+
+      const replay = createReplayProvider(cassettePath)
+      if (!replay.ok) throw new Error(replay.error)
+
+      expect(await replay.data.complete(MESSAGES)).toStrictEqual(ok(RESPONSE))
+      expect(await collect(replay.data.stream?.(MESSAGES))).toStrictEqual(CHUNKS)
+    })
+
+    it('stream() で記録したやり取りを complete() で再生できる', async () => {
+      const recorder = createRecordingProvider(
+        createScriptedProvider([{ chunks: CHUNKS }]),
+        cassettePath,
+      )
+      await collect(recorder.stream?.(MESSAGES))
+
+      const replay = createReplayProvider(cassettePath)
+      if (!replay.ok) throw new Error(replay.error)
+
+      expect(await replay.data.complete(MESSAGES)).toStrictEqual(ok(RESPONSE))
+    })
+
+    it('記録と異なるリクエストは err を返す', async () => {
+      const recorder = createRecordingProvider(
+        createScriptedProvider([{ response: RESPONSE }]),
+        cassettePath,
+      )
+      await recorder.complete(MESSAGES)
+
+      const replay = createReplayProvider(cassettePath)
+      if (!replay.ok) throw new Error(replay.error)
+
+      expect(await replay.data.complete([{ role: 'user', content: 'Bye' }])).toStrictEqual(
+        err(`Cassette request mismatch at interaction 1: ${cassettePath}`),
+      )
+    })
+
+    it('やり取りを使い切ると err を返す', async () => {
+      fs.mkdirSync(path.dirname(cassettePath), { recursive: true })
+      fs.writeFileSync(cassettePath, JSON.stringify({ version: 1, interactions: [] }))
+
+      const replay = createReplayProvider(cassettePath)
+      if (!replay.ok) throw new Error(replay.error)
+
+      expect(await replay.data.complete(MESSAGES)).toStrictEqual(
+        err(`Cassette has no interaction for request 1: ${cassettePath}`),
+      )
+      await expect(collect(replay.data.stream?.(MESSAGES))).rejects.toThrow(
+        'Cassette has no interaction for request 2',
+      )
+    })
+
+    it('countTokens() はやり取りを消費せずに推定値を返す', async () => {
+      const recorder = createRecordingProvider(
+        createScriptedProvider([{ response: RESPONSE }]),
+        cassettePath,
+      )
+      await recorder.complete(MESSAGES)
+
+      const replay = createReplayProvider(cassettePath)
+      if (!replay.ok) throw new Error(replay.error)
+
+      expect(await replay.data.countTokens?.(MESSAGES)).toStrictEqual(
+        ok(estimatePromptTokens(MESSAGES)),
+      )
+      expect(await replay.data.complete(MESSAGES)).toStrictEqual(ok(RESPONSE))
+    })
+
+    it('記録した err を再生する', async () => {
+      const recorder = createRecordingProvider(
+        createScriptedProvider([{ error: 'API error (500): boom' }]),
+        cassettePath,
+      )
+      await recorder.complete(MESSAGES)
+
+      const replay = createReplayProvider(cassettePath)
+      if (!replay.ok) throw new Error(replay.error)
+
+      expect(await replay.data.complete(MESSAGES)).toStrictEqual(err('API error (500): boom'))
+    })
+
+    it('カセットの形式が不正な場合は err を返す', () => {
+      fs.mkdirSync(path.dirname(cassettePath), { recursive: true })
+      fs.writeFileSync(cassettePath, JSON.stringify({ version: 2, interactions: [] }))
+
+      expect(createReplayProvider(cassettePath)).toStrictEqual(
+        err(`Invalid cassette file: ${cassettePath}`),
+      )
+    })
+
+    it('カセットが存在しない場合は err を返す', () => {
+      const result = createReplayProvider(cassettePath)
+
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.error).toContain('Failed to load cassette')
+      }
+    })
+  })
+
+  // ─── createCassetteProvider ─────────────────────────────
+
+  describe('createCassetteProvider', () => {
+    it('mode: record で cassette.provider をレジストリから生成して記録する', async () => {
+      const registry = new ProviderRegistry()
+      registry.register('fake', (_config, model) =>
+        ok(createScriptedProvider([{ response: { content: model } }])),
+      )
+
+      const recorder = createCassetteProvider(
+        { cassette: { path: cassettePath, mode: 'record', provider: { type: 'fake' } } },
+        'fake-1',
+        registry,
+      )
+      if (!recorder.ok) throw new Error(recorder.error)
+      await recorder.data.complete(MESSAGES)
+
+      const replay = createCassetteProvider({ cassette: { path: cassettePath } }, 'any', registry)
+      if (!replay.ok) throw new Error(replay.error)
+
+      expect(await replay.data.complete(MESSAGES)).toStrictEqual(ok({ content: 'fake-1' }))
+    })
+
+    it('cassette が未指定の場合は err を返す', () => {
+      expect(createCassetteProvider({}, 'm', new ProviderRegistry())).toStrictEqual(
+        err('Cassette provider requires cassette.path'),
+      )
+    })
+
+    it('記録時に cassette.provider.type が未指定の場合は err を返す', () => {
+      expect(
+        createCassetteProvider(
+          { cassette: { path: cassettePath, mode: 'record' } },
+          'm',
+          new ProviderRegistry(),
+        ),
+      ).toStrictEqual(err('Cassette recording requires cassette.provider.type'))
+    })
+  })
+})
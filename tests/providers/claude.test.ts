@@ -5,6 +5,7 @@ import type { StreamChunk } from '../../src/providers/types.js'
 // --- Anthropic SDK モック ---
 const mockCreate = vi.fn()
 const mockStream = vi.fn()
+const mockCountTokens = vi.fn()
 const mockConstructor = vi.fn()
 
 vi.mock('@anthropic-ai/sdk', () => {
@@ -13,6 +14,7 @@ vi.mock('@anthropic-ai/sdk', () => {
       messages = {
         create: mockCreate,
         stream: mockStream,
+        countTokens: mockCountTokens,
       }
       constructor(opts?: Record<string, unknown>) {
         mockConstructor(opts)
@@ -411,7 +413,8 @@ describe('Claude Provider', () => {
 
     // 7. APIエラー→Result.err
     it('API エラー発生時に Result.err を返す', async () => {
-      mockCreate.mockRejectedValueOnce(new Error('API rate limit exceeded'))
+      const apiError = new Error('API rate limit exceeded')
+      mockCreate.mockRejectedValueOnce(apiError)
       const config: ProviderConfig = { apiKey: 'sk-ant-test-key' }
       const result = createClaudeProvider(config, 'claude-sonnet-4-20250514')
       if (!result.ok) throw new Error('provider creation failed')
@@ -420,6 +423,7 @@ describe('Claude Provider', () => {
       expect(response).toStrictEqual({
         ok: false,
         error: 'API rate limit exceeded',
+        cause: apiError,
       })
     })
 
@@ -522,6 +526,750 @@ describe('Claude Provider', () => {
     })
   })
 
+  describe('マルチモーダル', () => {
+    it('コンテンツパートを text / image / document ブロックに変換する', async () => {
+      mockCreate.mockResolvedValueOnce(makeMessage(['OK']))
+      const result = createClaudeProvider({ apiKey: 'sk-ant-test-key' }, 'claude-sonnet-4-20250514')
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete([
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Describe these.' },
+            { type: 'image', mimeType: 'image/png', data: 'iVBORw0K' },
+            { type: 'document', mimeType: 'application/pdf', data: 'JVBERi0x', name: 'spec.pdf' },
+          ],
+        },
+      ])
+
+      const callArgs = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      const messages = callArgs['messages'] as Array<Record<string, unknown>>
+      expect(messages[0]).toStrictEqual({
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Describe these.' },
+          { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0K' } },
+          {
+            type: 'document',
+            source: { type: 'base64', media_type: 'application/pdf', data: 'JVBERi0x' },
+            title: 'spec.pdf',
+          },
+        ],
+      })
+    })
+
+    it('ツール結果の画像を tool_result の content ブロックとして送信する', async () => {
+      mockCreate.mockResolvedValueOnce(makeMessage(['OK']))
+      const result = createClaudeProvider({ apiKey: 'sk-ant-test-key' }, 'claude-sonnet-4-20250514')
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete([
+        { role: 'user', content: 'Look at shot.png' },
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [{ id: 'toolu_1', name: 'read', arguments: { path: 'shot.png' } }],
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Image file: shot.png' },
+            { type: 'image', mimeType: 'image/png', data: 'iVBORw0K' },
+          ],
+          toolCallId: 'toolu_1',
+          name: 'read',
+        },
+      ])
+
+      const callArgs = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      const messages = callArgs['messages'] as Array<Record<string, unknown>>
+      expect(messages[2]).toStrictEqual({
+        role: 'user',
+        content: [
+          {
+            type: 'tool_result',
+            tool_use_id: 'toolu_1',
+            content: [
+              { type: 'text', text: 'Image file: shot.png' },
+              {
+                type: 'image',
+                source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0K' },
+              },
+            ],
+          },
+        ],
+      })
+    })
+  })
+
+  describe('生成パラメータ', () => {
+    it('未指定の場合は max_tokens: 4096 のみを送信する', async () => {
+      mockCreate.mockResolvedValueOnce(makeMessage(['ok']))
+      const result = createClaudeProvider({ apiKey: 'sk-ant-test-key' }, 'claude-sonnet-4-20250514')
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete([{ role: 'user', content: 'Hi' }])
+
+      const callArgs = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      expect(callArgs['max_tokens']).toBe(4096)
+      expect(callArgs).not.toHaveProperty('temperature')
+      expect(callArgs).not.toHaveProperty('top_p')
+      expect(callArgs).not.toHaveProperty('stop_sequences')
+    })
+
+    it('config.generation と引数を Messages API のパラメータに変換する（引数が優先、seed は無視）', async () => {
+      mockCreate.mockResolvedValueOnce(makeMessage(['ok']))
+      const config: ProviderConfig = {
+        apiKey: 'sk-ant-test-key',
+        generation: { maxTokens: 1024, temperature: 0.9, stop: ['END'] },
+      }
+      const result = createClaudeProvider(config, 'claude-sonnet-4-20250514', {
+        temperature: 0.2,
+        topP: 0.8,
+        seed: 42,
+      })
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete([{ role: 'user', content: 'Hi' }])
+
+      const callArgs = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      expect(callArgs['max_tokens']).toBe(1024)
+      expect(callArgs['temperature']).toBe(0.2)
+      expect(callArgs['top_p']).toBe(0.8)
+      expect(callArgs['stop_sequences']).toStrictEqual(['END'])
+      expect(callArgs).not.toHaveProperty('seed')
+    })
+
+    it('stream() にも生成パラメータを渡す', async () => {
+      mockStream.mockReturnValueOnce(makeMockMessageStream([{ type: 'message_stop' }]))
+      const result = createClaudeProvider(
+        { apiKey: 'sk-ant-test-key' },
+        'claude-sonnet-4-20250514',
+        {
+          maxTokens: 256,
+        },
+      )
+      if (!result.ok) throw new Error('provider creation failed')
+      if (!result.data.stream) throw new Error('stream not implemented')
+
+      const collected: StreamChunk[] = []
+      for await (const chunk of result.data.stream([{ role: 'user', content: 'Hi' }])) {
+        collected.push(chunk)
+      }
+
+      const callArgs = mockStream.mock.calls[0]?.[0] as Record<string, unknown>
+      expect(callArgs['max_tokens']).toBe(256)
+    })
+  })
+
+  describe('プロンプトキャッシュ', () => {
+    const TOOLS = [
+      { name: 'read', description: 'Read a file', parameters: { type: 'object' } },
+      { name: 'write', description: 'Write a file', parameters: { type: 'object' } },
+    ]
+
+    it('promptCaching 未設定の場合は cache_control を付与しない', async () => {
+      mockCreate.mockResolvedValueOnce(makeMessage(['ok']))
+      const result = createClaudeProvider({ apiKey: 'sk-ant-test-key' }, 'claude-sonnet-4-20250514')
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete(
+        [
+          { role: 'system', content: 'You are helpful.' },
+          { role: 'user', content: 'Hi' },
+        ],
+        TOOLS,
+      )
+
+      const callArgs = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      expect(callArgs['system']).toBe('You are helpful.')
+      expect(JSON.stringify(callArgs)).not.toContain('cache_control')
+    })
+
+    it('system・最後のツール・最後のメッセージにキャッシュブレークポイントを設定する', async () => {
+      mockCreate.mockResolvedValueOnce(makeMessage(['ok']))
+      const result = createClaudeProvider(
+        { apiKey: 'sk-ant-test-key', promptCaching: {} },
+        'claude-sonnet-4-20250514',
+      )
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete(
+        [
+          { role: 'system', content: 'You are helpful.' },
+          { role: 'user', content: 'First' },
+          { role: 'assistant', content: 'Reply' },
+          { role: 'user', content: 'Second' },
+        ],
+        TOOLS,
+      )
+
+      const callArgs = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      const cacheControl = { type: 'ephemeral' }
+      expect(callArgs['system']).toStrictEqual([
+        { type: 'text', text: 'You are helpful.', cache_control: cacheControl },
+      ])
+      expect(callArgs['tools']).toStrictEqual([
+        { name: 'read', description: 'Read a file', input_schema: { type: 'object' } },
+        {
+          name: 'write',
+          description: 'Write a file',
+          input_schema: { type: 'object' },
+          cache_control: cacheControl,
+        },
+      ])
+      expect(callArgs['messages']).toStrictEqual([
+        { role: 'user', content: 'First' },
+        { role: 'assistant', content: 'Reply' },
+        {
+          role: 'user',
+          content: [{ type: 'text', text: 'Second', cache_control: cacheControl }],
+        },
+      ])
+    })
+
+    it('ttl: 1h と項目ごとの無効化を反映する', async () => {
+      mockCreate.mockResolvedValueOnce(makeMessage(['ok']))
+      const result = createClaudeProvider(
+        { apiKey: 'sk-ant-test-key', promptCaching: { ttl: '1h', system: false, tools: false } },
+        'claude-sonnet-4-20250514',
+      )
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete(
+        [
+          { role: 'system', content: 'You are helpful.' },
+          { role: 'user', content: 'Hi' },
+        ],
+        TOOLS,
+      )
+
+      const callArgs = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      expect(callArgs['system']).toBe('You are helpful.')
+      expect(JSON.stringify(callArgs['tools'])).not.toContain('cache_control')
+      expect(callArgs['messages']).toStrictEqual([
+        {
+          role: 'user',
+          content: [{ type: 'text', text: 'Hi', cache_control: { type: 'ephemeral', ttl: '1h' } }],
+        },
+      ])
+    })
+
+    it('ツール結果メッセージでは tool_result ブロックにブレークポイントを設定する', async () => {
+      mockCreate.mockResolvedValueOnce(makeMessage(['ok']))
+      const result = createClaudeProvider(
+        { apiKey: 'sk-ant-test-key', promptCaching: { system: false, tools: false } },
+        'claude-sonnet-4-20250514',
+      )
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete([
+        { role: 'user', content: 'Read a.txt' },
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [{ id: 'tc-1', name: 'read', arguments: { path: 'a.txt' } }],
+        },
+        { role: 'user', content: 'file body', toolCallId: 'tc-1' },
+      ])
+
+      const callArgs = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      const messages = callArgs['messages'] as Array<Record<string, unknown>>
+      expect(messages.at(-1)).toStrictEqual({
+        role: 'user',
+        content: [
+          {
+            type: 'tool_result',
+            tool_use_id: 'tc-1',
+            content: 'file body',
+            cache_control: { type: 'ephemeral' },
+          },
+        ],
+      })
+    })
+
+    it('stream() にもキャッシュブレークポイントを設定する', async () => {
+      mockStream.mockReturnValueOnce(makeMockMessageStream([{ type: 'message_stop' }]))
+      const result = createClaudeProvider(
+        { apiKey: 'sk-ant-test-key', promptCaching: {} },
+        'claude-sonnet-4-20250514',
+      )
+      if (!result.ok) throw new Error('provider creation failed')
+      if (!result.data.stream) throw new Error('stream not implemented')
+
+      const collected: StreamChunk[] = []
+      for await (const chunk of result.data.stream([
+        { role: 'system', content: 'sys' },
+        { role: 'user', content: 'Hi' },
+      ])) {
+        collected.push(chunk)
+      }
+
+      const callArgs = mockStream.mock.calls[0]?.[0] as Record<string, unknown>
+      expect(callArgs['system']).toStrictEqual([
+        { type: 'text', text: 'sys', cache_control: { type: 'ephemeral' } },
+      ])
+    })
+
+    it('キャッシュの読み込み・書き込みトークン数を usage に含める', async () => {
+      const message = makeMessage(['ok'])
+      message.usage.cache_read_input_tokens = 1200
+      message.usage.cache_creation_input_tokens = 300
+      mockCreate.mockResolvedValueOnce(message)
+      const result = createClaudeProvider(
+        { apiKey: 'sk-ant-test-key', promptCaching: {} },
+        'claude-sonnet-4-20250514',
+      )
+      if (!result.ok) throw new Error('provider creation failed')
+
+      const response = await result.data.complete([{ role: 'user', content: 'Hi' }])
+
+      expect(response.ok).toBe(true)
+      if (!response.ok) return
+      expect(response.data.usage).toStrictEqual({
+        inputTokens: 10,
+        outputTokens: 20,
+        cacheReadTokens: 1200,
+        cacheWriteTokens: 300,
+      })
+    })
+  })
+
+  describe('推論（extended thinking）', () => {
+    it('thinking 指定時は thinking パラメータを送り、max_tokens を予算分増やす', async () => {
+      mockCreate.mockResolvedValueOnce(makeMessage(['ok']))
+      const result = createClaudeProvider(
+        { apiKey: 'sk-ant-test-key' },
+        'claude-sonnet-4-20250514',
+        {
+          thinking: { budgetTokens: 8000 },
+        },
+      )
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete([{ role: 'user', content: 'Hi' }])
+
+      const callArgs = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      expect(callArgs['thinking']).toStrictEqual({ type: 'enabled', budget_tokens: 8000 })
+      expect(callArgs['max_tokens']).toBe(12096)
+    })
+
+    it('thinking 有効時は temperature を送らず、top_p を 0.95 に切り上げる', async () => {
+      mockCreate.mockResolvedValueOnce(makeMessage(['ok']))
+      const result = createClaudeProvider(
+        { apiKey: 'sk-ant-test-key' },
+        'claude-sonnet-4-20250514',
+        { thinking: { budgetTokens: 2000 }, temperature: 0.2, topP: 0.5 },
+      )
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete([{ role: 'user', content: 'Hi' }])
+
+      const callArgs = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      expect(callArgs).not.toHaveProperty('temperature')
+      expect(callArgs['top_p']).toBe(0.95)
+    })
+
+    it('thinking / redacted_thinking ブロックを LLMResponse.thinking に変換する', async () => {
+      mockCreate.mockResolvedValueOnce({
+        ...makeMessage(['The answer is 4.']),
+        content: [
+          { type: 'thinking', thinking: '2 + 2 = 4', signature: 'sig-abc' },
+          { type: 'redacted_thinking', data: 'encrypted' },
+          { type: 'text', text: 'The answer is 4.', citations: null },
+        ],
+      })
+      const result = createClaudeProvider({ apiKey: 'sk-ant-test-key' }, 'claude-sonnet-4-20250514')
+      if (!result.ok) throw new Error('provider creation failed')
+
+      const response = await result.data.complete([{ role: 'user', content: '2 + 2?' }])
+
+      expect(response.ok).toBe(true)
+      if (!response.ok) return
+      expect(response.data.content).toBe('The answer is 4.')
+      expect(response.data.thinking).toStrictEqual([
+        { text: '2 + 2 = 4', signature: 'sig-abc' },
+        { text: '', redactedData: 'encrypted' },
+      ])
+    })
+
+    it('履歴の署名付き thinking ブロックを assistant メッセージの先頭に戻す', async () => {
+      mockCreate.mockResolvedValueOnce(makeMessage(['OK']))
+      const result = createClaudeProvider({ apiKey: 'sk-ant-test-key' }, 'claude-sonnet-4-20250514')
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete([
+        { role: 'user', content: 'What is the weather?' },
+        {
+          role: 'assistant',
+          content: '',
+          thinking: [
+            { text: 'I should call the tool.', signature: 'sig-1' },
+            { text: '', redactedData: 'encrypted' },
+            { text: 'unsigned reasoning from another provider' },
+          ],
+          toolCalls: [{ id: 'toolu_abc', name: 'get_weather', arguments: { city: 'Tokyo' } }],
+        },
+        { role: 'user', content: '{"temp": 20}', toolCallId: 'toolu_abc', name: 'get_weather' },
+      ])
+
+      const callArgs = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      const messages = callArgs['messages'] as Array<Record<string, unknown>>
+      expect(messages[1]).toStrictEqual({
+        role: 'assistant',
+        content: [
+          { type: 'thinking', thinking: 'I should call the tool.', signature: 'sig-1' },
+          { type: 'redacted_thinking', data: 'encrypted' },
+          { type: 'tool_use', id: 'toolu_abc', name: 'get_weather', input: { city: 'Tokyo' } },
+        ],
+      })
+    })
+
+    it('stream() は thinking_delta を逐次返し、ブロック終了時に署名付きの thinking を返す', async () => {
+      const streamEvents = [
+        { type: 'content_block_start', index: 0, content_block: { type: 'thinking' } },
+        {
+          type: 'content_block_delta',
+          index: 0,
+          delta: { type: 'thinking_delta', thinking: 'Let me ' },
+        },
+        {
+          type: 'content_block_delta',
+          index: 0,
+          delta: { type: 'thinking_delta', thinking: 'think.' },
+        },
+        {
+          type: 'content_block_delta',
+          index: 0,
+          delta: { type: 'signature_delta', signature: 'sig' },
+        },
+        { type: 'content_block_stop', index: 0 },
+        {
+          type: 'content_block_start',
+          index: 1,
+          content_block: { type: 'redacted_thinking', data: 'encrypted' },
+        },
+        { type: 'content_block_stop', index: 1 },
+        { type: 'content_block_delta', index: 2, delta: { type: 'text_delta', text: 'Done' } },
+        { type: 'message_stop' },
+      ]
+      mockStream.mockReturnValueOnce(
+        makeMockMessageStream(
+          streamEvents,
+          makeMessage(['Done'], undefined, { input_tokens: 1, output_tokens: 2 }),
+        ),
+      )
+      const result = createClaudeProvider({ apiKey: 'sk-ant-test-key' }, 'claude-sonnet-4-20250514')
+      if (!result.ok) throw new Error('provider creation failed')
+      if (!result.data.stream) throw new Error('stream not implemented')
+
+      const collected: StreamChunk[] = []
+      for await (const chunk of result.data.stream([{ role: 'user', content: 'Hi' }])) {
+        collected.push(chunk)
+      }
+
+      expect(collected).toStrictEqual([
+        { type: 'thinking_delta', content: 'Let me ' },
+        { type: 'thinking_delta', content: 'think.' },
+        { type: 'thinking', thinking: { text: 'Let me think.', signature: 'sig' } },
+        { type: 'thinking', thinking: { text: '', redactedData: 'encrypted' } },
+        { type: 'delta', content: 'Done' },
+        { type: 'done', usage: { inputTokens: 1, outputTokens: 2 } },
+      ])
+    })
+  })
+
+  describe('構造化出力', () => {
+    const schema = {
+      type: 'object',
+      properties: { title: { type: 'string' } },
+      required: ['title'],
+    }
+
+    it('responseFormat を強制ツール呼び出しに変換し、ツール入力を応答本文として返す', async () => {
+      mockCreate.mockResolvedValueOnce(
+        makeMessage([], [{ id: 'toolu_1', name: 'final_answer', input: { title: 'Report' } }]),
+      )
+      const result = createClaudeProvider({ apiKey: 'sk-ant-test-key' }, 'claude-sonnet-4-20250514')
+      if (!result.ok) throw new Error('provider creation failed')
+
+      const response = await result.data.complete([{ role: 'user', content: 'Hi' }], [], {
+        responseFormat: { schema },
+      })
+
+      const callArgs = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      expect(callArgs['tools']).toStrictEqual([
+        { name: 'final_answer', description: expect.any(String) as string, input_schema: schema },
+      ])
+      expect(callArgs['tool_choice']).toStrictEqual({ type: 'tool', name: 'final_answer' })
+      expect(response.ok).toBe(true)
+      if (!response.ok) return
+      expect(response.data.content).toBe('{"title":"Report"}')
+      expect(response.data.toolCalls).toStrictEqual([])
+    })
+
+    it('他のツールがある場合は tool_choice を any にし、通常のツール呼び出しは残す', async () => {
+      mockCreate.mockResolvedValueOnce(
+        makeMessage([], [{ id: 'toolu_1', name: 'read', input: { path: 'a.txt' } }]),
+      )
+      const result = createClaudeProvider({ apiKey: 'sk-ant-test-key' }, 'claude-sonnet-4-20250514')
+      if (!result.ok) throw new Error('provider creation failed')
+      const tools = [{ name: 'read', description: 'Read a file', parameters: { type: 'object' } }]
+
+      const response = await result.data.complete([{ role: 'user', content: 'Hi' }], tools, {
+        responseFormat: { name: 'summary', schema },
+      })
+
+      const callArgs = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      const sentTools = callArgs['tools'] as Array<Record<string, unknown>>
+      expect(sentTools.map((t) => t['name'])).toStrictEqual(['read', 'summary'])
+      expect(callArgs['tool_choice']).toStrictEqual({ type: 'any' })
+      expect(response.ok).toBe(true)
+      if (!response.ok) return
+      expect(response.data.toolCalls).toStrictEqual([
+        { id: 'toolu_1', name: 'read', arguments: { path: 'a.txt' } },
+      ])
+    })
+
+    it('構造化出力用ツールと同時に呼ばれた他のツールは捨て、応答本文を最終応答にする', async () => {
+      mockCreate.mockResolvedValueOnce(
+        makeMessage(
+          [],
+          [
+            { id: 'toolu_1', name: 'read', input: { path: 'a.txt' } },
+            { id: 'toolu_2', name: 'summary', input: { title: 'Report' } },
+          ],
+        ),
+      )
+      const result = createClaudeProvider({ apiKey: 'sk-ant-test-key' }, 'claude-sonnet-4-20250514')
+      if (!result.ok) throw new Error('provider creation failed')
+      const tools = [{ name: 'read', description: 'Read a file', parameters: { type: 'object' } }]
+
+      const response = await result.data.complete([{ role: 'user', content: 'Hi' }], tools, {
+        responseFormat: { name: 'summary', schema },
+      })
+
+      expect(response.ok).toBe(true)
+      if (!response.ok) return
+      expect(response.data.content).toBe('{"title":"Report"}')
+      expect(response.data.toolCalls).toStrictEqual([])
+    })
+
+    it('オブジェクト以外のスキーマは value プロパティで包み、値だけを応答本文にする', async () => {
+      mockCreate.mockResolvedValueOnce(
+        makeMessage([], [{ id: 'toolu_1', name: 'final_answer', input: { value: ['a', 'b'] } }]),
+      )
+      const result = createClaudeProvider({ apiKey: 'sk-ant-test-key' }, 'claude-sonnet-4-20250514')
+      if (!result.ok) throw new Error('provider creation failed')
+      const listSchema = { type: 'array', items: { type: 'string' } }
+
+      const response = await result.data.complete([{ role: 'user', content: 'Hi' }], [], {
+        responseFormat: { schema: listSchema },
+      })
+
+      const callArgs = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      const sentTools = callArgs['tools'] as Array<Record<string, unknown>>
+      expect(sentTools[0]?.['input_schema']).toStrictEqual({
+        type: 'object',
+        properties: { value: listSchema },
+        required: ['value'],
+      })
+      expect(response.ok).toBe(true)
+      if (!response.ok) return
+      expect(response.data.content).toBe('["a","b"]')
+    })
+
+    it('thinking 有効時は tool_choice を送信しない', async () => {
+      mockCreate.mockResolvedValueOnce(makeMessage(['{"title":"Report"}']))
+      const result = createClaudeProvider(
+        { apiKey: 'sk-ant-test-key' },
+        'claude-sonnet-4-20250514',
+        { thinking: { budgetTokens: 2000 } },
+      )
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete([{ role: 'user', content: 'Hi' }], [], {
+        responseFormat: { schema },
+      })
+
+      const callArgs = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      expect(callArgs['tools']).toBeDefined()
+      expect(callArgs['tool_choice']).toBeUndefined()
+    })
+
+    it('stream() では構造化出力用ツールの入力を delta として返す', async () => {
+      const streamEvents = [
+        {
+          type: 'content_block_start',
+          index: 0,
+          content_block: {
+            type: 'tool_use',
+            id: 'toolu_1',
+            name: 'final_answer',
+            input: {},
+            caller: { type: 'direct' },
+          },
+        },
+        {
+          type: 'content_block_delta',
+          index: 0,
+          delta: { type: 'input_json_delta', partial_json: '{"title":"Report"}' },
+        },
+        { type: 'content_block_stop', index: 0 },
+        { type: 'message_stop' },
+      ]
+      const finalMsg = makeMessage(
+        [],
+        [{ id: 'toolu_1', name: 'final_answer', input: { title: 'Report' } }],
+      )
+      mockStream.mockReturnValueOnce(makeMockMessageStream(streamEvents, finalMsg))
+      const result = createClaudeProvider({ apiKey: 'sk-ant-test-key' }, 'claude-sonnet-4-20250514')
+      if (!result.ok) throw new Error('provider creation failed')
+      if (!result.data.stream) throw new Error('stream not implemented')
+
+      const collected: StreamChunk[] = []
+      const stream = result.data.stream([{ role: 'user', content: 'Hi' }], [], {
+        responseFormat: { schema },
+      })
+      for await (const chunk of stream) {
+        collected.push(chunk)
+      }
+
+      expect(collected).toContainEqual({ type: 'delta', content: '{"title":"Report"}' })
+      expect(collected.some((c) => c.type === 'tool_call')).toBe(false)
+    })
+
+    it('stream() では構造化出力用ツールが呼ばれた場合だけ他のツール呼び出しを捨てる', async () => {
+      const toolUse = (index: number, id: string, name: string, json: string): unknown[] => [
+        {
+          type: 'content_block_start',
+          index,
+          content_block: { type: 'tool_use', id, name, input: {}, caller: { type: 'direct' } },
+        },
+        {
+          type: 'content_block_delta',
+          index,
+          delta: { type: 'input_json_delta', partial_json: json },
+        },
+        { type: 'content_block_stop', index },
+      ]
+      const readCall = toolUse(0, 'toolu_1', 'read', '{"path":"a.txt"}')
+      const answer = toolUse(1, 'toolu_2', 'final_answer', '{"title":"Report"}')
+      const finalMsg = makeMessage([], [])
+      mockStream
+        .mockReturnValueOnce(
+          makeMockMessageStream([...readCall, ...answer, { type: 'message_stop' }], finalMsg),
+        )
+        .mockReturnValueOnce(
+          makeMockMessageStream([...readCall, { type: 'message_stop' }], finalMsg),
+        )
+      const result = createClaudeProvider({ apiKey: 'sk-ant-test-key' }, 'claude-sonnet-4-20250514')
+      if (!result.ok) throw new Error('provider creation failed')
+      const provider = result.data
+      if (!provider.stream) throw new Error('stream not implemented')
+      const tools = [{ name: 'read', description: 'Read a file', parameters: { type: 'object' } }]
+      const collect = async (): Promise<StreamChunk[]> => {
+        const collected: StreamChunk[] = []
+        const stream = provider.stream?.([{ role: 'user', content: 'Hi' }], tools, {
+          responseFormat: { schema },
+        })
+        for await (const chunk of stream ?? []) {
+          collected.push(chunk)
+        }
+        return collected
+      }
+
+      const answered = await collect()
+      expect(answered).toContainEqual({ type: 'delta', content: '{"title":"Report"}' })
+      expect(answered.some((c) => c.type === 'tool_call')).toBe(false)
+
+      const notAnswered = await collect()
+      expect(notAnswered).toContainEqual({
+        type: 'tool_call',
+        toolCall: { id: 'toolu_1', name: 'read', arguments: { path: 'a.txt' } },
+      })
+    })
+  })
+
+  describe('ツール呼び出しの制御（toolChoice）', () => {
+    const tools = [{ name: 'read', description: 'Read a file', parameters: { type: 'object' } }]
+
+    it('toolChoice を tool_choice に変換する', async () => {
+      mockCreate.mockResolvedValue(makeMessage(['ok']))
+      const result = createClaudeProvider({ apiKey: 'sk-ant-test-key' }, 'claude-sonnet-4-20250514')
+      if (!result.ok) throw new Error('provider creation failed')
+      const choices = ['auto', 'none', 'required', { name: 'read' }] as const
+
+      for (const toolChoice of choices) {
+        await result.data.complete([{ role: 'user', content: 'Hi' }], tools, { toolChoice })
+      }
+
+      const sent = mockCreate.mock.calls.map(
+        (call) => (call[0] as Record<string, unknown>)['tool_choice'],
+      )
+      expect(sent).toStrictEqual([
+        { type: 'auto' },
+        { type: 'none' },
+        { type: 'any' },
+        { type: 'tool', name: 'read' },
+      ])
+    })
+
+    it('responseFormat による tool_choice より toolChoice を優先する', async () => {
+      mockCreate.mockResolvedValueOnce(makeMessage(['ok']))
+      const result = createClaudeProvider({ apiKey: 'sk-ant-test-key' }, 'claude-sonnet-4-20250514')
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete([{ role: 'user', content: 'Hi' }], tools, {
+        responseFormat: { schema: { type: 'object' } },
+        toolChoice: { name: 'read' },
+      })
+
+      const callArgs = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      expect(callArgs['tool_choice']).toStrictEqual({ type: 'tool', name: 'read' })
+    })
+
+    it('responseFormat 指定時の none は構造化出力用ツールだけを残して強制する', async () => {
+      mockCreate.mockResolvedValueOnce(
+        makeMessage([], [{ id: 'toolu_1', name: 'final_answer', input: { title: 'Report' } }]),
+      )
+      const result = createClaudeProvider({ apiKey: 'sk-ant-test-key' }, 'claude-sonnet-4-20250514')
+      if (!result.ok) throw new Error('provider creation failed')
+
+      const response = await result.data.complete([{ role: 'user', content: 'Hi' }], tools, {
+        responseFormat: { schema: { type: 'object' } },
+        toolChoice: 'none',
+      })
+
+      const callArgs = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      const sentTools = callArgs['tools'] as Array<Record<string, unknown>>
+      expect(sentTools.map((t) => t['name'])).toStrictEqual(['final_answer'])
+      expect(callArgs['tool_choice']).toStrictEqual({ type: 'tool', name: 'final_answer' })
+      expect(response.ok && response.data.content).toBe('{"title":"Report"}')
+    })
+
+    it('thinking 有効時は強制（required / ツール指名）を送信しない', async () => {
+      mockCreate.mockResolvedValue(makeMessage(['ok']))
+      const result = createClaudeProvider(
+        { apiKey: 'sk-ant-test-key' },
+        'claude-sonnet-4-20250514',
+        { thinking: { budgetTokens: 2000 } },
+      )
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete([{ role: 'user', content: 'Hi' }], tools, {
+        toolChoice: 'required',
+      })
+      await result.data.complete([{ role: 'user', content: 'Hi' }], tools, { toolChoice: 'none' })
+
+      const first = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      const second = mockCreate.mock.calls[1]?.[0] as Record<string, unknown>
+      expect(first).not.toHaveProperty('tool_choice')
+      expect(second['tool_choice']).toStrictEqual({ type: 'none' })
+    })
+  })
+
   describe('stream()', () => {
     // 9. テキストdelta→StreamChunk.delta
     it('テキスト delta を StreamChunk.delta に変換する', async () => {
@@ -706,4 +1454,42 @@ describe('Claude Provider', () => {
       }).rejects.toThrow('Stream connection lost')
     })
   })
+
+  describe('countTokens()', () => {
+    it('system・ツール定義を含めて count_tokens エンドポイントで数える', async () => {
+      mockCountTokens.mockResolvedValueOnce({ input_tokens: 42 })
+
+      const result = createClaudeProvider({ apiKey: 'sk-ant-test-key' }, 'claude-sonnet-4-20250514')
+      if (!result.ok) throw new Error('provider creation failed')
+      const count = await result.data.countTokens?.(
+        [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'user', content: 'Hi' },
+        ],
+        [{ name: 'read', description: 'Read a file', parameters: { type: 'object' } }],
+      )
+
+      expect(count).toStrictEqual({ ok: true, data: 42 })
+      expect(mockCountTokens).toHaveBeenCalledWith({
+        model: 'claude-sonnet-4-20250514',
+        messages: [{ role: 'user', content: 'Hi' }],
+        system: 'Be brief.',
+        tools: [{ name: 'read', description: 'Read a file', input_schema: { type: 'object' } }],
+      })
+    })
+
+    it('API エラー時は cause 付きの err を返す', async () => {
+      const error = new Error('rate limited')
+      mockCountTokens.mockRejectedValueOnce(error)
+
+      const result = createClaudeProvider({ apiKey: 'sk-ant-test-key' }, 'claude-sonnet-4-20250514')
+      if (!result.ok) throw new Error('provider creation failed')
+
+      expect(await result.data.countTokens?.([{ role: 'user', content: 'Hi' }])).toStrictEqual({
+        ok: false,
+        error: 'rate limited',
+        cause: error,
+      })
+    })
+  })
 })
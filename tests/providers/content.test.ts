@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import {
+  toContentParts,
+  getTextContent,
+  getImageParts,
+  isContentPart,
+  isMessageContent,
+} from '../../src/providers/content.js'
+import type { ContentPart } from '../../src/providers/types.js'
+
+const IMAGE: ContentPart = { type: 'image', mimeType: 'image/png', data: 'iVBORw0K' }
+const DOCUMENT: ContentPart = { type: 'document', mimeType: 'application/pdf', data: 'JVBERi0x' }
+
+describe('toContentParts', () => {
+  it('文字列を text パート1件に変換する', () => {
+    expect(toContentParts('hello')).toStrictEqual([{ type: 'text', text: 'hello' }])
+  })
+
+  it('空文字列は空配列に変換する', () => {
+    expect(toContentParts('')).toStrictEqual([])
+  })
+
+  it('コンテンツパート配列はそのまま返す', () => {
+    const parts: ContentPart[] = [{ type: 'text', text: 'a' }, IMAGE]
+    expect(toContentParts(parts)).toBe(parts)
+  })
+})
+
+describe('getTextContent', () => {
+  it('text パートのみを改行で結合する', () => {
+    const parts: ContentPart[] = [
+      { type: 'text', text: 'first' },
+      IMAGE,
+      { type: 'text', text: 'second' },
+      DOCUMENT,
+    ]
+    expect(getTextContent(parts)).toBe('first\nsecond')
+  })
+
+  it('文字列はそのまま返す', () => {
+    expect(getTextContent('plain')).toBe('plain')
+  })
+})
+
+describe('getImageParts', () => {
+  it('image パートのみを抽出する', () => {
+    expect(getImageParts([{ type: 'text', text: 'a' }, IMAGE, DOCUMENT])).toStrictEqual([IMAGE])
+    expect(getImageParts('text only')).toStrictEqual([])
+  })
+})
+
+describe('isContentPart / isMessageContent', () => {
+  it('正しい形状のパートを受け付ける', () => {
+    expect(isContentPart({ type: 'text', text: 'a' })).toBe(true)
+    expect(isContentPart(IMAGE)).toBe(true)
+    expect(isContentPart({ ...DOCUMENT, name: 'spec.pdf' })).toBe(true)
+  })
+
+  it('不正な形状のパートを拒否する', () => {
+    expect(isContentPart({ type: 'text' })).toBe(false)
+    expect(isContentPart({ type: 'image', data: 'x' })).toBe(false)
+    expect(isContentPart({ type: 'document', mimeType: 'a', data: 'b', name: 1 })).toBe(false)
+    expect(isContentPart({ type: 'audio', data: 'x' })).toBe(false)
+    expect(isContentPart(null)).toBe(false)
+  })
+
+  it('文字列またはパート配列を MessageContent と判定する', () => {
+    expect(isMessageContent('hi')).toBe(true)
+    expect(isMessageContent([IMAGE])).toBe(true)
+    expect(isMessageContent([IMAGE, { type: 'video' }])).toBe(false)
+    expect(isMessageContent(42)).toBe(false)
+  })
+})
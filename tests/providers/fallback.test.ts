@@ -0,0 +1,266 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createFallbackProvider } from '../../src/providers/fallback.js'
+import type { FallbackEntry, FallbackEvent } from '../../src/providers/fallback.js'
+import type { LLMProvider, LLMResponse, Message, StreamChunk } from '../../src/providers/types.js'
+import { ok, err } from '../../src/result.js'
+import { estimatePromptTokens } from '../../src/providers/token-count.js'
+
+// ─── helpers ──────────────────────────────────────────────
+
+const MESSAGES: Message[] = [{ role: 'user', content: 'Hi' }]
+
+function response(content: string): LLMResponse {
+  return { content, toolCalls: [], usage: { inputTokens: 1, outputTokens: 2 } }
+}
+
+/** complete() が固定の Result を返すエントリを生成する */
+function makeEntry(
+  name: string,
+  model: string,
+  result: Awaited<ReturnType<LLMProvider['complete']>>,
+): FallbackEntry & { complete: ReturnType<typeof vi.fn<LLMProvider['complete']>> } {
+  const complete = vi.fn<LLMProvider['complete']>().mockResolvedValue(result)
+  return { name, model, provider: { complete }, complete }
+}
+
+/** StreamChunk 配列を流す、または最初に例外を投げる stream() を持つエントリを生成する */
+function makeStreamEntry(
+  name: string,
+  model: string,
+  behavior: { chunks?: StreamChunk[]; throwBefore?: Error; throwAfter?: Error },
+): FallbackEntry {
+  return {
+    name,
+    model,
+    provider: {
+      complete: () => Promise.resolve(ok(response('unused'))),
+      async *stream(): AsyncIterable<StreamChunk> {
+        await Promise.resolve()
+        if (behavior.throwBefore) throw behavior.throwBefore
+        for (const chunk of behavior.chunks ?? []) {
+          yield chunk
+        }
+        if (behavior.throwAfter) throw behavior.throwAfter
+      },
+    },
+  }
+}
+
+async function collect(provider: LLMProvider): Promise<StreamChunk[]> {
+  const chunks: StreamChunk[] = []
+  for await (const chunk of provider.stream?.(MESSAGES) ?? []) {
+    chunks.push(chunk)
+  }
+  return chunks
+}
+
+function overloaded(): Error {
+  return Object.assign(new Error('Overloaded'), { status: 529 })
+}
+
+// ─── tests ────────────────────────────────────────────────
+
+describe('createFallbackProvider', () => {
+  it('エントリが空の場合は err を返す', () => {
+    const result = createFallbackProvider([])
+
+    expect(result).toStrictEqual({
+      ok: false,
+      error: 'Fallback chain requires at least one provider',
+    })
+  })
+
+  it('先頭のプロバイダーが成功すれば、応答したプロバイダーを metadata に付与して返す', async () => {
+    const primary = makeEntry('claude', 'claude-sonnet', ok(response('from claude')))
+    const secondary = makeEntry('openai', 'gpt-4o', ok(response('from openai')))
+    const chain = createFallbackProvider([primary, secondary])
+    if (!chain.ok) throw new Error('chain creation failed')
+
+    const result = await chain.data.complete(MESSAGES)
+
+    expect(result).toStrictEqual(
+      ok({
+        ...response('from claude'),
+        metadata: { provider: 'claude', model: 'claude-sonnet' },
+      }),
+    )
+    expect(secondary.complete).not.toHaveBeenCalled()
+  })
+
+  it('リトライ可能な失敗では次のプロバイダーを試し、onFallback を呼ぶ', async () => {
+    const primary = makeEntry('claude', 'claude-sonnet', err('Overloaded', { status: 529 }))
+    const secondary = makeEntry('openai', 'gpt-4o', err('Rate limited', { status: 429 }))
+    const tertiary = makeEntry('ollama', 'llama3', ok(response('from ollama')))
+    const events: FallbackEvent[] = []
+    const chain = createFallbackProvider([primary, secondary, tertiary], {
+      onFallback: (e) => events.push(e),
+    })
+    if (!chain.ok) throw new Error('chain creation failed')
+
+    const result = await chain.data.complete(MESSAGES)
+
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.data.content).toBe('from ollama')
+    expect(result.data.metadata).toStrictEqual({ provider: 'ollama', model: 'llama3' })
+    expect(events).toStrictEqual([
+      {
+        from: { provider: 'claude', model: 'claude-sonnet' },
+        to: { provider: 'openai', model: 'gpt-4o' },
+        error: 'Overloaded',
+      },
+      {
+        from: { provider: 'openai', model: 'gpt-4o' },
+        to: { provider: 'ollama', model: 'llama3' },
+        error: 'Rate limited',
+      },
+    ])
+  })
+
+  it('ツールと呼び出しオプションを各プロバイダーにそのまま渡す', async () => {
+    const primary = makeEntry('claude', 'claude-sonnet', err('Overloaded', { status: 529 }))
+    const secondary = makeEntry('openai', 'gpt-4o', ok(response('{}')))
+    const chain = createFallbackProvider([primary, secondary])
+    if (!chain.ok) throw new Error('chain creation failed')
+    const options = { responseFormat: { schema: { type: 'object' } } }
+
+    await chain.data.complete(MESSAGES, [], options)
+
+    expect(primary.complete).toHaveBeenCalledWith(MESSAGES, [], options)
+    expect(secondary.complete).toHaveBeenCalledWith(MESSAGES, [], options)
+  })
+
+  it('リトライ不可の失敗では次のプロバイダーを試さずに err を返す', async () => {
+    const primary = makeEntry('claude', 'claude-sonnet', err('Invalid request', { status: 400 }))
+    const secondary = makeEntry('openai', 'gpt-4o', ok(response('from openai')))
+    const chain = createFallbackProvider([primary, secondary])
+    if (!chain.ok) throw new Error('chain creation failed')
+
+    const result = await chain.data.complete(MESSAGES)
+
+    expect(result).toStrictEqual({ ok: false, error: 'Invalid request', cause: { status: 400 } })
+    expect(secondary.complete).not.toHaveBeenCalled()
+  })
+
+  it('すべて失敗した場合は最後のプロバイダーの err を返す', async () => {
+    const primary = makeEntry('claude', 'claude-sonnet', err('Overloaded', { status: 529 }))
+    const secondary = makeEntry('ollama', 'llama3', err('Service unavailable', { status: 503 }))
+    const chain = createFallbackProvider([primary, secondary])
+    if (!chain.ok) throw new Error('chain creation failed')
+
+    const result = await chain.data.complete(MESSAGES)
+
+    expect(result).toStrictEqual({
+      ok: false,
+      error: 'Service unavailable',
+      cause: { status: 503 },
+    })
+  })
+
+  describe('stream()', () => {
+    it('最初のチャンク前の失敗では次のプロバイダーに切り替え、done に metadata を付与する', async () => {
+      const chain = createFallbackProvider([
+        makeStreamEntry('claude', 'claude-sonnet', { throwBefore: overloaded() }),
+        makeStreamEntry('openai', 'gpt-4o', {
+          chunks: [
+            { type: 'delta', content: 'hi' },
+            { type: 'done', usage: { inputTokens: 1, outputTokens: 1 } },
+          ],
+        }),
+      ])
+      if (!chain.ok) throw new Error('chain creation failed')
+
+      const chunks = await collect(chain.data)
+
+      expect(chunks).toStrictEqual([
+        { type: 'delta', content: 'hi' },
+        {
+          type: 'done',
+          usage: { inputTokens: 1, outputTokens: 1 },
+          metadata: { provider: 'openai', model: 'gpt-4o' },
+        },
+      ])
+    })
+
+    it('出力開始後の失敗は次のプロバイダーに切り替えずに例外を伝播する', async () => {
+      const chain = createFallbackProvider([
+        makeStreamEntry('claude', 'claude-sonnet', {
+          chunks: [{ type: 'delta', content: 'partial' }],
+          throwAfter: overloaded(),
+        }),
+        makeStreamEntry('openai', 'gpt-4o', { chunks: [{ type: 'done' }] }),
+      ])
+      if (!chain.ok) throw new Error('chain creation failed')
+
+      await expect(collect(chain.data)).rejects.toThrow('Overloaded')
+    })
+
+    it('stream() を持たないプロバイダーは complete() の結果をチャンクに変換する', async () => {
+      const toolCall = { id: 'tc-1', name: 'read', arguments: { path: 'a.txt' } }
+      const chain = createFallbackProvider([
+        makeStreamEntry('claude', 'claude-sonnet', { throwBefore: overloaded() }),
+        makeEntry('ollama', 'llama3', ok({ content: 'text', toolCalls: [toolCall] })),
+      ])
+      if (!chain.ok) throw new Error('chain creation failed')
+
+      const chunks = await collect(chain.data)
+
+      expect(chunks).toStrictEqual([
+        { type: 'delta', content: 'text' },
+        { type: 'tool_call', toolCall },
+        { type: 'done', metadata: { provider: 'ollama', model: 'llama3' } },
+      ])
+    })
+
+    it('complete() から変換したチャンクには推論ブロックも含める', async () => {
+      const chain = createFallbackProvider([
+        makeEntry('ollama', 'qwen3', ok({ content: 'text', thinking: [{ text: 'hmm' }] })),
+      ])
+      if (!chain.ok) throw new Error('chain creation failed')
+
+      const chunks = await collect(chain.data)
+
+      expect(chunks).toStrictEqual([
+        { type: 'thinking', thinking: { text: 'hmm' } },
+        { type: 'delta', content: 'text' },
+        { type: 'done', metadata: { provider: 'ollama', model: 'qwen3' } },
+      ])
+    })
+
+    it('done チャンクがなければ末尾に metadata 付きの done を追加する', async () => {
+      const chain = createFallbackProvider([
+        makeStreamEntry('claude', 'claude-sonnet', {
+          chunks: [{ type: 'delta', content: 'hi' }],
+        }),
+      ])
+      if (!chain.ok) throw new Error('chain creation failed')
+
+      const chunks = await collect(chain.data)
+
+      expect(chunks.at(-1)).toStrictEqual({
+        type: 'done',
+        metadata: { provider: 'claude', model: 'claude-sonnet' },
+      })
+    })
+  })
+
+  describe('countTokens()', () => {
+    it('リトライ可能な失敗では次のプロバイダーで数え、countTokens がなければ推定値を返す', async () => {
+      const primary: FallbackEntry = {
+        name: 'claude',
+        model: 'claude-sonnet',
+        provider: {
+          complete: () => Promise.resolve(ok(response('unused'))),
+          countTokens: () => Promise.resolve(err('Overloaded', { status: 529 })),
+        },
+      }
+      const secondary = makeEntry('ollama', 'llama3', ok(response('unused')))
+      const chain = createFallbackProvider([primary, secondary])
+      if (!chain.ok) throw new Error('chain creation failed')
+
+      expect(await chain.data.countTokens?.(MESSAGES)).toStrictEqual(
+        ok(estimatePromptTokens(MESSAGES)),
+      )
+    })
+  })
+})
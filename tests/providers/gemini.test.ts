@@ -5,6 +5,7 @@ import type { StreamChunk } from '../../src/providers/types.js'
 // --- Gemini SDK モック ---
 const mockGenerateContent = vi.fn()
 const mockGenerateContentStream = vi.fn()
+const mockCountTokens = vi.fn()
 
 vi.mock('@google/generative-ai', () => {
   return {
@@ -12,10 +13,12 @@ vi.mock('@google/generative-ai', () => {
       getGenerativeModel(): {
         generateContent: typeof mockGenerateContent
         generateContentStream: typeof mockGenerateContentStream
+        countTokens: typeof mockCountTokens
       } {
         return {
           generateContent: mockGenerateContent,
           generateContentStream: mockGenerateContentStream,
+          countTokens: mockCountTokens,
         }
       }
     },
@@ -35,6 +38,7 @@ const { createGeminiProvider } = await import('../../src/providers/gemini.js')
 
 interface GeminiPart {
   text?: string
+  thought?: boolean
   functionCall?: { name: string; args: object }
 }
 
@@ -307,7 +311,8 @@ describe('Gemini Provider', () => {
 
     // 7. APIエラー→Result.err
     it('API エラー発生時に Result.err を返す', async () => {
-      mockGenerateContent.mockRejectedValueOnce(new Error('API rate limit exceeded'))
+      const apiError = new Error('API rate limit exceeded')
+      mockGenerateContent.mockRejectedValueOnce(apiError)
       const config: ProviderConfig = { apiKey: 'test-api-key' }
       const result = createGeminiProvider(config, 'gemini-pro')
       if (!result.ok) throw new Error('provider creation failed')
@@ -316,6 +321,7 @@ describe('Gemini Provider', () => {
       expect(response).toStrictEqual({
         ok: false,
         error: 'API rate limit exceeded',
+        cause: apiError,
       })
     })
 
@@ -430,6 +436,247 @@ describe('Gemini Provider', () => {
     })
   })
 
+  describe('マルチモーダル', () => {
+    it('画像・ドキュメントパートを inlineData に変換する', async () => {
+      mockGenerateContent.mockResolvedValueOnce(makeGeminiResponse([{ text: 'ok' }]))
+      const result = createGeminiProvider({ apiKey: 'test-api-key' }, 'gemini-pro')
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete([
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Describe these.' },
+            { type: 'image', mimeType: 'image/png', data: 'iVBORw0K' },
+            { type: 'document', mimeType: 'application/pdf', data: 'JVBERi0x' },
+          ],
+        },
+      ])
+
+      const callArgs = mockGenerateContent.mock.calls[0]?.[0] as Record<string, unknown>
+      const contents = callArgs['contents'] as Array<Record<string, unknown>>
+      expect(contents[0]).toStrictEqual({
+        role: 'user',
+        parts: [
+          { text: 'Describe these.' },
+          { inlineData: { mimeType: 'image/png', data: 'iVBORw0K' } },
+          { inlineData: { mimeType: 'application/pdf', data: 'JVBERi0x' } },
+        ],
+      })
+    })
+
+    it('ツール結果の画像を functionResponse の後に inlineData として送信する', async () => {
+      mockGenerateContent.mockResolvedValueOnce(makeGeminiResponse([{ text: 'ok' }]))
+      const result = createGeminiProvider({ apiKey: 'test-api-key' }, 'gemini-pro')
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete([
+        { role: 'user', content: 'Look at shot.png' },
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [{ id: mockUUID, name: 'read', arguments: { path: 'shot.png' } }],
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Image file: shot.png' },
+            { type: 'image', mimeType: 'image/png', data: 'iVBORw0K' },
+          ],
+          toolCallId: mockUUID,
+          name: 'read',
+        },
+      ])
+
+      const callArgs = mockGenerateContent.mock.calls[0]?.[0] as Record<string, unknown>
+      const contents = callArgs['contents'] as Array<Record<string, unknown>>
+      expect(contents[2]).toStrictEqual({
+        role: 'function',
+        parts: [
+          { functionResponse: { name: 'read', response: { content: 'Image file: shot.png' } } },
+          { inlineData: { mimeType: 'image/png', data: 'iVBORw0K' } },
+        ],
+      })
+    })
+  })
+
+  describe('生成パラメータ', () => {
+    it('生成パラメータを generationConfig に変換する', async () => {
+      mockGenerateContent.mockResolvedValueOnce(makeGeminiResponse([{ text: 'ok' }]))
+      const config: ProviderConfig = { apiKey: 'test-api-key', generation: { maxTokens: 100 } }
+      const result = createGeminiProvider(config, 'gemini-pro', {
+        temperature: 0.3,
+        topP: 0.7,
+        stop: ['STOP'],
+        seed: 1,
+      })
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete([{ role: 'user', content: 'Hi' }])
+
+      const callArgs = mockGenerateContent.mock.calls[0]?.[0] as Record<string, unknown>
+      expect(callArgs['generationConfig']).toStrictEqual({
+        maxOutputTokens: 100,
+        temperature: 0.3,
+        topP: 0.7,
+        stopSequences: ['STOP'],
+        seed: 1,
+      })
+    })
+
+    it('未指定の場合は generationConfig を送信しない', async () => {
+      mockGenerateContent.mockResolvedValueOnce(makeGeminiResponse([{ text: 'ok' }]))
+      const result = createGeminiProvider({ apiKey: 'test-api-key' }, 'gemini-pro')
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete([{ role: 'user', content: 'Hi' }])
+
+      const callArgs = mockGenerateContent.mock.calls[0]?.[0] as Record<string, unknown>
+      expect(callArgs).not.toHaveProperty('generationConfig')
+    })
+  })
+
+  describe('推論（thinking）', () => {
+    it('thinking 指定時は generationConfig.thinkingConfig を送信する', async () => {
+      mockGenerateContent.mockResolvedValueOnce(makeGeminiResponse([{ text: 'ok' }]))
+      const result = createGeminiProvider({ apiKey: 'test-api-key' }, 'gemini-2.5-flash', {
+        thinking: { budgetTokens: 1024 },
+      })
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete([{ role: 'user', content: 'Hi' }])
+
+      const callArgs = mockGenerateContent.mock.calls[0]?.[0] as Record<string, unknown>
+      expect(callArgs['generationConfig']).toStrictEqual({
+        thinkingConfig: { thinkingBudget: 1024, includeThoughts: true },
+      })
+    })
+
+    it('thought パートを本文と分けて LLMResponse.thinking に変換する', async () => {
+      mockGenerateContent.mockResolvedValueOnce(
+        makeGeminiResponse([{ text: 'Adding numbers.', thought: true }, { text: '4' }]),
+      )
+      const result = createGeminiProvider({ apiKey: 'test-api-key' }, 'gemini-2.5-flash')
+      if (!result.ok) throw new Error('provider creation failed')
+
+      const response = await result.data.complete([{ role: 'user', content: '2 + 2?' }])
+
+      expect(response.ok).toBe(true)
+      if (!response.ok) return
+      expect(response.data.content).toBe('4')
+      expect(response.data.thinking).toStrictEqual([{ text: 'Adding numbers.' }])
+    })
+
+    it('stream() は thought パートを thinking_delta と thinking チャンクに変換する', async () => {
+      mockGenerateContentStream.mockResolvedValueOnce({
+        stream: toAsyncGenerator([
+          makeStreamChunk([{ text: 'Adding ', thought: true }]),
+          makeStreamChunk([{ text: 'numbers.', thought: true }]),
+          makeStreamChunk([{ text: '4' }]),
+        ]),
+        response: Promise.resolve({ candidates: [] }),
+      })
+      const result = createGeminiProvider({ apiKey: 'test-api-key' }, 'gemini-2.5-flash')
+      if (!result.ok) throw new Error('provider creation failed')
+      if (!result.data.stream) throw new Error('stream not implemented')
+
+      const collected: StreamChunk[] = []
+      for await (const chunk of result.data.stream([{ role: 'user', content: 'Hi' }])) {
+        collected.push(chunk)
+      }
+
+      expect(collected.slice(0, 4)).toStrictEqual([
+        { type: 'thinking_delta', content: 'Adding ' },
+        { type: 'thinking_delta', content: 'numbers.' },
+        { type: 'delta', content: '4' },
+        { type: 'thinking', thinking: { text: 'Adding numbers.' } },
+      ])
+    })
+  })
+
+  describe('構造化出力', () => {
+    const schema = {
+      type: 'object',
+      properties: { title: { type: 'string', minLength: 1 } },
+      required: ['title'],
+      additionalProperties: false,
+    }
+
+    it('ツールがなければ responseMimeType と responseSchema を送信する', async () => {
+      mockGenerateContent.mockResolvedValueOnce(makeGeminiResponse([{ text: '{"title":"A"}' }]))
+      const result = createGeminiProvider({ apiKey: 'test-api-key' }, 'gemini-pro', {
+        temperature: 0,
+      })
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete([{ role: 'user', content: 'Hi' }], [], {
+        responseFormat: { schema },
+      })
+
+      const callArgs = mockGenerateContent.mock.calls[0]?.[0] as Record<string, unknown>
+      expect(callArgs['generationConfig']).toStrictEqual({
+        temperature: 0,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: 'object',
+          properties: { title: { type: 'string' } },
+          required: ['title'],
+        },
+      })
+    })
+
+    it('ツールを渡すリクエストでは responseSchema を送信しない', async () => {
+      mockGenerateContent.mockResolvedValueOnce(makeGeminiResponse([{ text: 'ok' }]))
+      const result = createGeminiProvider({ apiKey: 'test-api-key' }, 'gemini-pro')
+      if (!result.ok) throw new Error('provider creation failed')
+      const tools = [{ name: 'read', description: 'Read a file', parameters: { type: 'object' } }]
+
+      await result.data.complete([{ role: 'user', content: 'Hi' }], tools, {
+        responseFormat: { schema },
+      })
+
+      const callArgs = mockGenerateContent.mock.calls[0]?.[0] as Record<string, unknown>
+      expect(callArgs).not.toHaveProperty('generationConfig')
+      expect(callArgs).toHaveProperty('tools')
+    })
+  })
+
+  describe('ツール呼び出しの制御（toolChoice）', () => {
+    const tools = [{ name: 'read', description: 'Read a file', parameters: { type: 'object' } }]
+
+    it('toolChoice を toolConfig.functionCallingConfig に変換する', async () => {
+      mockGenerateContent.mockResolvedValue(makeGeminiResponse([{ text: 'ok' }]))
+      const result = createGeminiProvider({ apiKey: 'test-api-key' }, 'gemini-pro')
+      if (!result.ok) throw new Error('provider creation failed')
+      const choices = ['auto', 'none', 'required', { name: 'read' }] as const
+
+      for (const toolChoice of choices) {
+        await result.data.complete([{ role: 'user', content: 'Hi' }], tools, { toolChoice })
+      }
+
+      const sent = mockGenerateContent.mock.calls.map(
+        (call) => (call[0] as Record<string, unknown>)['toolConfig'],
+      )
+      expect(sent).toStrictEqual([
+        { functionCallingConfig: { mode: 'AUTO' } },
+        { functionCallingConfig: { mode: 'NONE' } },
+        { functionCallingConfig: { mode: 'ANY' } },
+        { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: ['read'] } },
+      ])
+    })
+
+    it('ツールを渡さない場合は toolConfig を送信しない', async () => {
+      mockGenerateContent.mockResolvedValueOnce(makeGeminiResponse([{ text: 'ok' }]))
+      const result = createGeminiProvider({ apiKey: 'test-api-key' }, 'gemini-pro')
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete([{ role: 'user', content: 'Hi' }], [], { toolChoice: 'required' })
+
+      const callArgs = mockGenerateContent.mock.calls[0]?.[0] as Record<string, unknown>
+      expect(callArgs).not.toHaveProperty('toolConfig')
+    })
+  })
+
   describe('stream()', () => {
     // 9. テキストdelta→StreamChunk.delta
     it('テキスト delta を StreamChunk.delta に変換する', async () => {
@@ -579,4 +826,41 @@ describe('Gemini Provider', () => {
       }).rejects.toThrow('Stream connection lost')
     })
   })
+
+  describe('countTokens()', () => {
+    it('システム指示・ツール定義を含む generateContentRequest で数える', async () => {
+      mockCountTokens.mockResolvedValueOnce({ totalTokens: 17 })
+
+      const result = createGeminiProvider({ apiKey: 'test-api-key' }, 'gemini-pro')
+      if (!result.ok) throw new Error('provider creation failed')
+      const count = await result.data.countTokens?.(
+        [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'user', content: 'Hi' },
+        ],
+        [{ name: 'read', description: 'Read a file', parameters: { type: 'object' } }],
+      )
+
+      expect(count).toStrictEqual({ ok: true, data: 17 })
+      const request = mockCountTokens.mock.calls[0]?.[0] as {
+        generateContentRequest: Record<string, unknown>
+      }
+      expect(request.generateContentRequest['contents']).toStrictEqual([
+        { role: 'user', parts: [{ text: 'Hi' }] },
+      ])
+      expect(request.generateContentRequest['systemInstruction']).toBeDefined()
+      expect(request.generateContentRequest['tools']).toBeDefined()
+      expect(request.generateContentRequest).not.toHaveProperty('generationConfig')
+    })
+
+    it('SDK のエラーは err を返す', async () => {
+      mockCountTokens.mockRejectedValueOnce(new Error('quota exceeded'))
+
+      const result = createGeminiProvider({ apiKey: 'test-api-key' }, 'gemini-pro')
+      if (!result.ok) throw new Error('provider creation failed')
+      const count = await result.data.countTokens?.([{ role: 'user', content: 'Hi' }])
+
+      expect(count).toMatchObject({ ok: false, error: 'quota exceeded' })
+    })
+  })
 })
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  DEFAULT_MODEL_CAPABILITIES,
+  createModelCatalogue,
+  resolveModelEntry,
+  validateModelCapabilities,
+  fetchOllamaCapabilities,
+} from '../../src/providers/models.js'
+
+// ─── helpers ──────────────────────────────────────────────
+
+/** globalThis.fetch と差し替える mock fetch を生成する */
+function makeMockFetch(
+  response: unknown,
+  options?: { ok?: boolean; status?: number },
+): typeof fetch {
+  return vi.fn<typeof fetch>().mockResolvedValue({
+    ok: options?.ok ?? true,
+    status: options?.status ?? 200,
+    json: () => Promise.resolve(response),
+    text: () => Promise.resolve(JSON.stringify(response)),
+  } as Response)
+}
+
+// ─── resolveModelEntry ────────────────────────────────────
+
+describe('resolveModelEntry', () => {
+  const table = { 'gpt-4o': 1, 'gpt-4o-mini': 2, 'openrouter/gpt-4o': 3 }
+
+  it('provider/model の完全一致をモデル名より優先する', () => {
+    expect(resolveModelEntry(table, { provider: 'openrouter', model: 'gpt-4o' })).toBe(3)
+    expect(resolveModelEntry(table, { provider: 'openai', model: 'gpt-4o' })).toBe(1)
+  })
+
+  it('完全一致がなければ最長の前方一致キーを使う', () => {
+    expect(resolveModelEntry(table, { provider: 'openai', model: 'gpt-4o-mini-2024' })).toBe(2)
+    expect(resolveModelEntry(table, { provider: 'openai', model: 'gpt-3.5' })).toBeUndefined()
+  })
+})
+
+// ─── createModelCatalogue ─────────────────────────────────
+
+describe('createModelCatalogue', () => {
+  it('組み込みのカタログを前方一致で解決する', () => {
+    const catalogue = createModelCatalogue()
+    expect(
+      catalogue.resolve({ provider: 'claude', model: 'claude-sonnet-4-20250514' }),
+    ).toStrictEqual(DEFAULT_MODEL_CAPABILITIES['claude-sonnet-4'])
+    expect(catalogue.resolve({ provider: 'ollama', model: 'llama3' })).toBeUndefined()
+  })
+
+  it('overrides は組み込みの能力に項目ごとに上書きする', () => {
+    const catalogue = createModelCatalogue({ 'gpt-4o': { contextWindow: 64_000 } })
+    expect(catalogue.resolve({ provider: 'openai', model: 'gpt-4o' })).toStrictEqual({
+      ...DEFAULT_MODEL_CAPABILITIES['gpt-4o'],
+      contextWindow: 64_000,
+    })
+  })
+
+  it('register した能力は組み込みより優先し、overrides より劣後する', () => {
+    const catalogue = createModelCatalogue({ 'ollama/llama3': { tools: true } })
+    catalogue.register(
+      { provider: 'ollama', model: 'llama3' },
+      { contextWindow: 8192, tools: false, streamingUsage: true },
+    )
+    expect(catalogue.resolve({ provider: 'ollama', model: 'llama3' })).toStrictEqual({
+      contextWindow: 8192,
+      tools: true,
+      streamingUsage: true,
+    })
+    // 別のプロバイダー名では登録した能力を使わない
+    expect(catalogue.resolve({ provider: 'local', model: 'llama3' })).toBeUndefined()
+  })
+
+  it('list はすべての出所のモデルをキーの順に返す', () => {
+    const catalogue = createModelCatalogue({ 'gpt-4o': { contextWindow: 64_000 } })
+    catalogue.register({ provider: 'ollama', model: 'llama3' }, { contextWindow: 8192 })
+
+    const models = catalogue.list()
+
+    expect(models).toHaveLength(Object.keys(DEFAULT_MODEL_CAPABILITIES).length + 1)
+    expect(models.map((m) => m.name)).toStrictEqual([...models.map((m) => m.name)].sort())
+    expect(models.find((m) => m.name === 'ollama/llama3')).toStrictEqual({
+      name: 'ollama/llama3',
+      capabilities: { contextWindow: 8192 },
+      source: 'discovered',
+    })
+    expect(models.find((m) => m.name === 'gpt-4o')).toStrictEqual({
+      name: 'gpt-4o',
+      capabilities: { ...DEFAULT_MODEL_CAPABILITIES['gpt-4o'], contextWindow: 64_000 },
+      source: 'config',
+    })
+    expect(models.find((m) => m.name === 'o3')?.source).toBe('builtin')
+  })
+})
+
+// ─── validateModelCapabilities ────────────────────────────
+
+describe('validateModelCapabilities', () => {
+  it('能力が不明なら検証しない', () => {
+    expect(validateModelCapabilities({ generation: { maxTokens: 1e9 } }, 'x', undefined)).toEqual({
+      ok: true,
+      data: undefined,
+    })
+  })
+
+  it('ツール非対応のモデルはエラーを返す', () => {
+    const result = validateModelCapabilities({}, 'tiny', { tools: false })
+    expect(result).toStrictEqual({ ok: false, error: 'Model does not support tool calls: tiny' })
+  })
+
+  it('quirks.emulateToolCalls を指定した場合はツール非対応のモデルを許可する', () => {
+    const result = validateModelCapabilities({ quirks: { emulateToolCalls: true } }, 'tiny', {
+      tools: false,
+    })
+    expect(result.ok).toBe(true)
+  })
+
+  it('generation.maxTokens が最大出力トークン数を超える場合はエラーを返す', () => {
+    const capabilities = { maxOutputTokens: 8192 }
+    expect(
+      validateModelCapabilities({ generation: { maxTokens: 8192 } }, 'm', capabilities).ok,
+    ).toBe(true)
+    expect(
+      validateModelCapabilities({ generation: { maxTokens: 10_000 } }, 'm', capabilities),
+    ).toStrictEqual({
+      ok: false,
+      error: 'generation.maxTokens (10000) exceeds the output limit of m (8192)',
+    })
+  })
+})
+
+// ─── fetchOllamaCapabilities ──────────────────────────────
+
+describe('fetchOllamaCapabilities', () => {
+  let originalFetch: typeof globalThis.fetch
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch
+  })
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+    vi.restoreAllMocks()
+  })
+
+  it('/api/show の context_length と capabilities から能力を組み立てる', async () => {
+    const mockFetch = makeMockFetch({
+      model_info: { 'general.architecture': 'llama', 'llama.context_length': 131072 },
+      capabilities: ['completion', 'tools'],
+    })
+    globalThis.fetch = mockFetch
+
+    const result = await fetchOllamaCapabilities({ baseUrl: 'http://ollama:11434' }, 'llama3.1')
+
+    expect(result).toStrictEqual({
+      ok: true,
+      data: { contextWindow: 131072, tools: true, vision: false, streamingUsage: true },
+    })
+    expect(mockFetch).toHaveBeenCalledWith('http://ollama:11434/api/show', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: 'llama3.1' }),
+    })
+  })
+
+  it('Modelfile の num_ctx を context_length より優先する', async () => {
+    globalThis.fetch = makeMockFetch({
+      parameters: 'stop "<|eot_id|>"\nnum_ctx 8192',
+      model_info: { 'general.architecture': 'llama', 'llama.context_length': 131072 },
+    })
+
+    const result = await fetchOllamaCapabilities({}, 'llama3.1')
+
+    // capabilities を返さない古い Ollama では tools / vision は不明のまま
+    expect(result).toStrictEqual({ ok: true, data: { contextWindow: 8192, streamingUsage: true } })
+  })
+
+  it('API エラー時は err を返す', async () => {
+    globalThis.fetch = makeMockFetch({ error: 'model not found' }, { ok: false, status: 404 })
+
+    const result = await fetchOllamaCapabilities({}, 'missing')
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error).toBe('Ollama API error (404): {"error":"model not found"}')
+    }
+  })
+
+  it('接続エラー時は err を返す', async () => {
+    globalThis.fetch = vi.fn<typeof fetch>().mockRejectedValue(new Error('ECONNREFUSED'))
+
+    const result = await fetchOllamaCapabilities({}, 'llama3')
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error).toBe('Ollama fetch error: ECONNREFUSED')
+    }
+  })
+})
@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  listOllamaModels,
+  showOllamaModel,
+  pullOllamaModel,
+  ensureOllamaModel,
+} from '../../src/providers/ollama-models.js'
+import type { OllamaPullProgress } from '../../src/providers/ollama-models.js'
+
+// ─── helpers ──────────────────────────────────────────────
+
+/** JSON を返す fetch レスポンスを生成する */
+function jsonResponse(body: unknown, status = 200): Response {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(),
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  } as Response
+}
+
+/** NDJSON ストリームを返す fetch レスポンスを生成する */
+function streamResponse(lines: unknown[]): Response {
+  const ndjson = lines.map((line) => JSON.stringify(line)).join('\n') + '\n'
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller): void {
+      controller.enqueue(encoder.encode(ndjson))
+      controller.close()
+    },
+  })
+  return { ok: true, status: 200, body: stream } as Response
+}
+
+const CONFIG = { baseUrl: 'http://ollama:11434' }
+
+// ─── tests ────────────────────────────────────────────────
+
+describe('Ollama model management', () => {
+  let originalFetch: typeof globalThis.fetch
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch
+  })
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+    vi.restoreAllMocks()
+  })
+
+  describe('listOllamaModels', () => {
+    it('/api/tags のモデルを OllamaModel に変換する', async () => {
+      const mockFetch = vi.fn<typeof fetch>().mockResolvedValue(
+        jsonResponse({
+          models: [
+            {
+              name: 'llama3.1:8b',
+              size: 4_920_753_328,
+              modified_at: '2025-01-02T03:04:05Z',
+              digest: 'abc123',
+              details: { family: 'llama', parameter_size: '8.0B', quantization_level: 'Q4_K_M' },
+            },
+            { name: 'tiny', size: 1000, modified_at: '2025-01-01T00:00:00Z', digest: 'def456' },
+          ],
+        }),
+      )
+      globalThis.fetch = mockFetch
+
+      const result = await listOllamaModels(CONFIG)
+
+      expect(result).toStrictEqual({
+        ok: true,
+        data: [
+          {
+            name: 'llama3.1:8b',
+            size: 4_920_753_328,
+            modifiedAt: '2025-01-02T03:04:05Z',
+            digest: 'abc123',
+            family: 'llama',
+            parameterSize: '8.0B',
+            quantizationLevel: 'Q4_K_M',
+          },
+          { name: 'tiny', size: 1000, modifiedAt: '2025-01-01T00:00:00Z', digest: 'def456' },
+        ],
+      })
+      expect(mockFetch).toHaveBeenCalledWith('http://ollama:11434/api/tags', { method: 'GET' })
+    })
+
+    it('接続エラー時は err を返す', async () => {
+      globalThis.fetch = vi.fn<typeof fetch>().mockRejectedValue(new Error('ECONNREFUSED'))
+
+      const result = await listOllamaModels({})
+
+      expect(result).toMatchObject({ ok: false, error: 'Ollama fetch error: ECONNREFUSED' })
+    })
+  })
+
+  describe('showOllamaModel', () => {
+    it('モデルがない場合は status 404 を cause に持つ err を返す', async () => {
+      globalThis.fetch = vi
+        .fn<typeof fetch>()
+        .mockResolvedValue(jsonResponse({ error: "model 'missing' not found" }, 404))
+
+      const result = await showOllamaModel(CONFIG, 'missing')
+
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.error).toBe('Ollama API error (404): {"error":"model \'missing\' not found"}')
+        expect(result.cause).toMatchObject({ status: 404 })
+      }
+    })
+  })
+
+  describe('pullOllamaModel', () => {
+    it('進捗を 1 行ごとに通知し、success で ok を返す', async () => {
+      const lines = [
+        { status: 'pulling manifest' },
+        { status: 'pulling abc', digest: 'abc', total: 100, completed: 50 },
+        { status: 'success' },
+      ]
+      const mockFetch = vi.fn<typeof fetch>().mockResolvedValue(streamResponse(lines))
+      globalThis.fetch = mockFetch
+      const progress: OllamaPullProgress[] = []
+
+      const result = await pullOllamaModel(CONFIG, 'llama3', (p) => progress.push(p))
+
+      expect(result).toStrictEqual({ ok: true, data: undefined })
+      expect(progress).toStrictEqual(lines)
+      expect(mockFetch).toHaveBeenCalledWith('http://ollama:11434/api/pull', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: 'llama3', stream: true }),
+      })
+    })
+
+    it('ストリーム中の error 行は err を返す', async () => {
+      globalThis.fetch = vi
+        .fn<typeof fetch>()
+        .mockResolvedValue(
+          streamResponse([{ status: 'pulling manifest' }, { error: 'file does not exist' }]),
+        )
+
+      const result = await pullOllamaModel(CONFIG, 'nope')
+
+      expect(result).toStrictEqual({
+        ok: false,
+        error: 'Failed to pull nope: file does not exist',
+      })
+    })
+
+    it('success で終わらないストリームは err を返す', async () => {
+      globalThis.fetch = vi
+        .fn<typeof fetch>()
+        .mockResolvedValue(streamResponse([{ status: 'pulling manifest' }]))
+
+      const result = await pullOllamaModel(CONFIG, 'llama3')
+
+      expect(result).toStrictEqual({
+        ok: false,
+        error: 'Failed to pull llama3: stream ended before success',
+      })
+    })
+  })
+
+  describe('ensureOllamaModel', () => {
+    it('モデルがあれば pull しない', async () => {
+      const mockFetch = vi.fn<typeof fetch>().mockResolvedValue(jsonResponse({}))
+      globalThis.fetch = mockFetch
+
+      const result = await ensureOllamaModel(CONFIG, 'llama3')
+
+      expect(result.ok).toBe(true)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('/api/show が 404 なら pull する', async () => {
+      const mockFetch = vi
+        .fn<typeof fetch>()
+        .mockResolvedValueOnce(jsonResponse({ error: 'not found' }, 404))
+        .mockResolvedValueOnce(streamResponse([{ status: 'success' }]))
+      globalThis.fetch = mockFetch
+      const onProgress = vi.fn()
+
+      const result = await ensureOllamaModel(CONFIG, 'llama3', onProgress)
+
+      expect(result.ok).toBe(true)
+      expect(mockFetch.mock.calls[1]?.[0]).toBe('http://ollama:11434/api/pull')
+      expect(onProgress).toHaveBeenCalledWith({ status: 'success' })
+    })
+
+    it('404 以外のエラーは pull せずに返す', async () => {
+      const mockFetch = vi
+        .fn<typeof fetch>()
+        .mockResolvedValue(jsonResponse({ error: 'internal' }, 500))
+      globalThis.fetch = mockFetch
+
+      const result = await ensureOllamaModel(CONFIG, 'llama3')
+
+      expect(result).toMatchObject({
+        ok: false,
+        error: 'Ollama API error (500): {"error":"internal"}',
+      })
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+  })
+})
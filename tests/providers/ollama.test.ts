@@ -519,4 +519,309 @@ describe('Ollama provider', () => {
       }
     }).rejects.toThrow()
   })
+
+  it('生成パラメータを options に変換して送信する', async () => {
+    const mockFetch = makeMockFetch({ message: { role: 'assistant', content: 'OK' } })
+    vi.stubGlobal('fetch', mockFetch)
+
+    const config: ProviderConfig = { ...BASE_CONFIG, generation: { seed: 3, temperature: 0.9 } }
+    const result = createOllamaProvider(config, MODEL, {
+      maxTokens: 64,
+      temperature: 0,
+      topP: 0.95,
+      stop: ['</s>'],
+    })
+    if (!result.ok) throw new Error('provider creation failed')
+    await result.data.complete([{ role: 'user', content: 'Hi' }])
+
+    const fetchMock = mockFetch as ReturnType<typeof vi.fn>
+    const callArgs = fetchMock.mock.calls[0] as [string, RequestInit]
+    const body = JSON.parse(callArgs[1].body as string) as Record<string, unknown>
+    expect(body['options']).toStrictEqual({
+      num_predict: 64,
+      temperature: 0,
+      top_p: 0.95,
+      stop: ['</s>'],
+      seed: 3,
+    })
+  })
+
+  it('生成パラメータが未指定なら options を送信しない', async () => {
+    const mockFetch = makeMockFetch({ message: { role: 'assistant', content: 'OK' } })
+    vi.stubGlobal('fetch', mockFetch)
+
+    const result = createOllamaProvider(BASE_CONFIG, MODEL)
+    if (!result.ok) throw new Error('provider creation failed')
+    await result.data.complete([{ role: 'user', content: 'Hi' }])
+
+    const fetchMock = mockFetch as ReturnType<typeof vi.fn>
+    const callArgs = fetchMock.mock.calls[0] as [string, RequestInit]
+    const body = JSON.parse(callArgs[1].body as string) as Record<string, unknown>
+    expect(body).not.toHaveProperty('options')
+  })
+
+  it('画像パートは images フィールド、テキストパートは content として送信する', async () => {
+    const mockFetch = makeMockFetch({ message: { role: 'assistant', content: 'OK' } })
+    vi.stubGlobal('fetch', mockFetch)
+
+    const result = createOllamaProvider(BASE_CONFIG, MODEL)
+    if (!result.ok) throw new Error('provider creation failed')
+    await result.data.complete([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is in this picture?' },
+          { type: 'image', mimeType: 'image/png', data: 'iVBORw0K' },
+          { type: 'document', mimeType: 'application/pdf', data: 'JVBERi0x' },
+        ],
+      },
+    ])
+
+    const fetchMock = mockFetch as ReturnType<typeof vi.fn>
+    const callArgs = fetchMock.mock.calls[0] as [string, RequestInit]
+    const body = JSON.parse(callArgs[1].body as string) as {
+      messages: Array<Record<string, unknown>>
+    }
+    expect(body.messages[0]).toStrictEqual({
+      role: 'user',
+      content: 'What is in this picture?',
+      images: ['iVBORw0K'],
+    })
+  })
+
+  it('thinking 指定時は think: true を送信し、message.thinking を LLMResponse.thinking に変換する', async () => {
+    const mockFetch = makeMockFetch({
+      message: { role: 'assistant', content: '4', thinking: '2 + 2 = 4' },
+    })
+    vi.stubGlobal('fetch', mockFetch)
+
+    const result = createOllamaProvider(BASE_CONFIG, MODEL, { thinking: { budgetTokens: 1000 } })
+    if (!result.ok) throw new Error('provider creation failed')
+    const response = await result.data.complete([{ role: 'user', content: '2 + 2?' }])
+
+    const fetchMock = mockFetch as ReturnType<typeof vi.fn>
+    const callArgs = fetchMock.mock.calls[0] as [string, RequestInit]
+    const body = JSON.parse(callArgs[1].body as string) as Record<string, unknown>
+    expect(body['think']).toBe(true)
+    expect(response.ok).toBe(true)
+    if (!response.ok) return
+    expect(response.data.thinking).toStrictEqual([{ text: '2 + 2 = 4' }])
+  })
+
+  it('stream() は message.thinking を thinking_delta と thinking チャンクに変換する', async () => {
+    vi.stubGlobal(
+      'fetch',
+      makeMockStreamFetch([
+        { message: { role: 'assistant', content: '', thinking: 'Let me ' }, done: false },
+        { message: { role: 'assistant', content: '', thinking: 'think.' }, done: false },
+        { message: { role: 'assistant', content: 'Done' }, done: false },
+        { message: { role: 'assistant', content: '' }, done: true },
+      ]),
+    )
+
+    const result = createOllamaProvider(BASE_CONFIG, MODEL)
+    if (!result.ok) throw new Error('provider creation failed')
+    if (!result.data.stream) throw new Error('stream not implemented')
+
+    const collected: StreamChunk[] = []
+    for await (const chunk of result.data.stream([{ role: 'user', content: 'Hi' }])) {
+      collected.push(chunk)
+    }
+
+    expect(collected).toStrictEqual([
+      { type: 'thinking_delta', content: 'Let me ' },
+      { type: 'thinking_delta', content: 'think.' },
+      { type: 'delta', content: 'Done' },
+      { type: 'thinking', thinking: { text: 'Let me think.' } },
+      { type: 'done' },
+    ])
+  })
+
+  it('responseFormat のスキーマを format として送信する', async () => {
+    const mockFetch = makeMockFetch({ message: { role: 'assistant', content: '{"n":1}' } })
+    vi.stubGlobal('fetch', mockFetch)
+    const schema = { type: 'object', properties: { n: { type: 'integer' } } }
+
+    const result = createOllamaProvider(BASE_CONFIG, MODEL)
+    if (!result.ok) throw new Error('provider creation failed')
+    await result.data.complete([{ role: 'user', content: 'Hi' }], [], {
+      responseFormat: { schema },
+    })
+
+    const fetchMock = mockFetch as ReturnType<typeof vi.fn>
+    const callArgs = fetchMock.mock.calls[0] as [string, RequestInit]
+    const body = JSON.parse(callArgs[1].body as string) as Record<string, unknown>
+    expect(body['format']).toStrictEqual(schema)
+  })
+
+  it('toolChoice が none ならツールを送らず、ツール指名ならそのツールだけを送る', async () => {
+    const mockFetch = makeMockFetch({ message: { role: 'assistant', content: 'OK' } })
+    vi.stubGlobal('fetch', mockFetch)
+    const tools = [
+      { name: 'read', description: 'Read a file', parameters: { type: 'object' } },
+      { name: 'write', description: 'Write a file', parameters: { type: 'object' } },
+    ]
+
+    const result = createOllamaProvider(BASE_CONFIG, MODEL)
+    if (!result.ok) throw new Error('provider creation failed')
+    await result.data.complete([{ role: 'user', content: 'Hi' }], tools, { toolChoice: 'none' })
+    await result.data.complete([{ role: 'user', content: 'Hi' }], tools, {
+      toolChoice: { name: 'write' },
+    })
+
+    const fetchMock = mockFetch as ReturnType<typeof vi.fn>
+    const bodies = fetchMock.mock.calls.map(
+      (call) =>
+        JSON.parse((call as [string, RequestInit])[1].body as string) as Record<string, unknown>,
+    )
+    expect(bodies[0]).not.toHaveProperty('tools')
+    expect(bodies[1]?.['tools']).toStrictEqual([
+      {
+        type: 'function',
+        function: { name: 'write', description: 'Write a file', parameters: { type: 'object' } },
+      },
+    ])
+  })
+
+  describe('autoPull', () => {
+    const AUTO_PULL_CONFIG: ProviderConfig = { ...BASE_CONFIG, autoPull: true }
+
+    /** /api/show, /api/pull, /api/chat の順に応答する mock fetch を生成する */
+    function makeAutoPullFetch(showStatus: number): ReturnType<typeof vi.fn<typeof fetch>> {
+      const pulled = [{ status: 'pulling manifest' }, { status: 'success' }]
+        .map((line) => JSON.stringify(line))
+        .join('\n')
+      return vi.fn<typeof fetch>((input) => {
+        const url = typeof input === 'string' ? input : (input as Request).url
+        if (url.endsWith('/api/show')) {
+          return Promise.resolve({
+            ok: showStatus === 200,
+            status: showStatus,
+            headers: new Headers(),
+            json: () => Promise.resolve({}),
+            text: () => Promise.resolve('not found'),
+          } as Response)
+        }
+        if (url.endsWith('/api/pull')) {
+          return Promise.resolve({
+            ok: true,
+            status: 200,
+            body: new Blob([pulled]).stream(),
+          } as Response)
+        }
+        return Promise.resolve({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve({ message: { role: 'assistant', content: 'OK' } }),
+        } as Response)
+      })
+    }
+
+    function calledUrls(mockFetch: ReturnType<typeof vi.fn<typeof fetch>>): string[] {
+      return mockFetch.mock.calls.map((call) =>
+        (call[0] as string).replace(BASE_CONFIG.baseUrl ?? '', ''),
+      )
+    }
+
+    it('初回呼び出しの前にモデルを pull し、以降は確認しない', async () => {
+      const mockFetch = makeAutoPullFetch(404)
+      globalThis.fetch = mockFetch
+      const onPullProgress = vi.fn()
+
+      const result = createOllamaProvider(AUTO_PULL_CONFIG, MODEL, undefined, { onPullProgress })
+      if (!result.ok) throw new Error('provider creation failed')
+      await result.data.complete([{ role: 'user', content: 'Hi' }])
+      await result.data.complete([{ role: 'user', content: 'Hi again' }])
+
+      expect(calledUrls(mockFetch)).toStrictEqual([
+        '/api/show',
+        '/api/pull',
+        '/api/chat',
+        '/api/chat',
+      ])
+      expect(onPullProgress.mock.calls).toStrictEqual([
+        [MODEL, { status: 'pulling manifest' }],
+        [MODEL, { status: 'success' }],
+      ])
+    })
+
+    it('モデルがあれば pull しない', async () => {
+      const mockFetch = makeAutoPullFetch(200)
+      globalThis.fetch = mockFetch
+
+      const result = createOllamaProvider(AUTO_PULL_CONFIG, MODEL)
+      if (!result.ok) throw new Error('provider creation failed')
+      await result.data.complete([{ role: 'user', content: 'Hi' }])
+
+      expect(calledUrls(mockFetch)).toStrictEqual(['/api/show', '/api/chat'])
+    })
+
+    it('確認に失敗した場合は err を返し、次の呼び出しで再確認する', async () => {
+      const mockFetch = makeAutoPullFetch(200)
+      mockFetch.mockRejectedValueOnce(new Error('ECONNREFUSED'))
+      globalThis.fetch = mockFetch
+
+      const result = createOllamaProvider(AUTO_PULL_CONFIG, MODEL)
+      if (!result.ok) throw new Error('provider creation failed')
+      const first = await result.data.complete([{ role: 'user', content: 'Hi' }])
+      const second = await result.data.complete([{ role: 'user', content: 'Hi' }])
+
+      expect(first).toMatchObject({ ok: false, error: 'Ollama fetch error: ECONNREFUSED' })
+      expect(second.ok).toBe(true)
+      expect(calledUrls(mockFetch)).toStrictEqual(['/api/show', '/api/show', '/api/chat'])
+    })
+
+    it('autoPull を指定しなければ確認しない', async () => {
+      const mockFetch = makeAutoPullFetch(404)
+      globalThis.fetch = mockFetch
+
+      const result = createOllamaProvider(BASE_CONFIG, MODEL)
+      if (!result.ok) throw new Error('provider creation failed')
+      await result.data.complete([{ role: 'user', content: 'Hi' }])
+
+      expect(calledUrls(mockFetch)).toStrictEqual(['/api/chat'])
+    })
+  })
+
+  describe('countTokens()', () => {
+    it('1 トークンだけ生成するドライランの prompt_eval_count を返す', async () => {
+      const mockFetch = makeMockFetch({
+        message: { role: 'assistant', content: 'H' },
+        prompt_eval_count: 26,
+        eval_count: 1,
+      })
+      globalThis.fetch = mockFetch
+      const tools = [{ name: 'read', description: 'Read a file', parameters: { type: 'object' } }]
+
+      const result = createOllamaProvider(BASE_CONFIG, MODEL, { temperature: 0 })
+      if (!result.ok) throw new Error('provider creation failed')
+      const count = await result.data.countTokens?.([{ role: 'user', content: 'Hi' }], tools)
+
+      expect(count).toStrictEqual({ ok: true, data: 26 })
+      const callArgs = (mockFetch as ReturnType<typeof vi.fn>).mock.calls[0] as [
+        string,
+        RequestInit,
+      ]
+      expect(callArgs[0]).toBe('http://localhost:11434/api/chat')
+      const body = JSON.parse(callArgs[1].body as string) as Record<string, unknown>
+      expect(body['stream']).toBe(false)
+      expect(body['options']).toStrictEqual({ temperature: 0, num_predict: 1 })
+      expect(body['tools']).toHaveLength(1)
+    })
+
+    it('prompt_eval_count がない応答や API エラーは err を返す', async () => {
+      globalThis.fetch = makeMockFetch({ message: { role: 'assistant', content: '' } })
+      const result = createOllamaProvider(BASE_CONFIG, MODEL)
+      if (!result.ok) throw new Error('provider creation failed')
+
+      expect(await result.data.countTokens?.([{ role: 'user', content: 'Hi' }])).toStrictEqual({
+        ok: false,
+        error: 'Ollama response does not include prompt_eval_count',
+      })
+
+      globalThis.fetch = makeMockFetch({ error: 'boom' }, { ok: false, status: 500 })
+      const failed = await result.data.countTokens?.([{ role: 'user', content: 'Hi' }])
+      expect(failed).toMatchObject({ ok: false, error: 'Ollama API error (500): {"error":"boom"}' })
+    })
+  })
 })
@@ -0,0 +1,464 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import * as http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { createOpenAICompatibleProvider } from '../../src/providers/openai-compatible.js'
+import type { LLMProvider, Message, StreamChunk, Tool } from '../../src/providers/types.js'
+import type { ProviderConfig } from '../../src/loader/types.js'
+import { estimatePromptTokens } from '../../src/providers/token-count.js'
+
+// ─── fake server ──────────────────────────────────────────
+
+/** フェイクサーバーが受け取ったリクエスト */
+interface RecordedRequest {
+  readonly url: string
+  readonly headers: http.IncomingHttpHeaders
+  readonly body: Record<string, unknown>
+}
+
+/** フェイクサーバーの応答（json か SSE のイベント列のいずれか） */
+interface FakeResponse {
+  readonly status?: number
+  readonly json?: unknown
+  /** オブジェクトは `data: <JSON>` として、文字列はそのまま送る。末尾に `data: [DONE]` を付ける */
+  readonly sse?: readonly unknown[]
+}
+
+interface FakeServer {
+  readonly baseUrl: string
+  readonly requests: RecordedRequest[]
+}
+
+let server: http.Server | undefined
+
+/** Chat Completions 互換のフェイク HTTP サーバーを 127.0.0.1 のランダムポートで起動する */
+async function startFakeServer(response: FakeResponse): Promise<FakeServer> {
+  const requests: RecordedRequest[] = []
+  server = http.createServer((req, res) => {
+    let raw = ''
+    req.on('data', (chunk: Buffer) => (raw += chunk.toString()))
+    req.on('end', () => {
+      requests.push({
+        url: req.url ?? '',
+        headers: req.headers,
+        body: JSON.parse(raw) as Record<string, unknown>,
+      })
+      if (response.sse !== undefined) {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+        for (const event of response.sse) {
+          res.write(typeof event === 'string' ? event : `data: ${JSON.stringify(event)}\n\n`)
+        }
+        res.end('data: [DONE]\n\n')
+        return
+      }
+      res.writeHead(response.status ?? 200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify(response.json ?? {}))
+    })
+  })
+  await new Promise<void>((resolve) => server?.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  return { baseUrl: `http://127.0.0.1:${String(port)}/v1`, requests }
+}
+
+/** フェイクサーバーを停止する */
+async function stopFakeServer(): Promise<void> {
+  const current = server
+  server = undefined
+  if (current === undefined) return
+  await new Promise<void>((resolve) => {
+    current.close(() => {
+      resolve()
+    })
+  })
+}
+
+afterEach(stopFakeServer)
+
+// ─── helpers ──────────────────────────────────────────────
+
+const MODEL = 'qwen2.5-7b-instruct'
+const MESSAGES: Message[] = [{ role: 'user', content: 'Hello' }]
+const TOOLS: Tool[] = [
+  {
+    name: 'read',
+    description: 'Read a file',
+    parameters: { type: 'object', properties: { path: { type: 'string' } } },
+  },
+]
+
+function createProvider(config: ProviderConfig): LLMProvider {
+  const result = createOpenAICompatibleProvider(config, MODEL)
+  if (!result.ok) throw new Error(result.error)
+  return result.data
+}
+
+function completion(message: Record<string, unknown>, usage?: Record<string, unknown>): unknown {
+  return {
+    choices: [{ index: 0, message: { role: 'assistant', ...message }, finish_reason: 'stop' }],
+    ...(usage !== undefined ? { usage } : {}),
+  }
+}
+
+function chunk(delta: Record<string, unknown>, extra?: Record<string, unknown>): unknown {
+  return { choices: [{ index: 0, delta, finish_reason: null }], ...extra }
+}
+
+async function collect(
+  stream: AsyncIterable<StreamChunk> | readonly StreamChunk[],
+): Promise<StreamChunk[]> {
+  const chunks: StreamChunk[] = []
+  for await (const c of stream) {
+    chunks.push(c)
+  }
+  return chunks
+}
+
+// ─── tests ────────────────────────────────────────────────
+
+describe('createOpenAICompatibleProvider', () => {
+  it('baseUrl が設定されていない場合、err を返す', () => {
+    const result = createOpenAICompatibleProvider({ apiKey: 'k' }, MODEL)
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error).toContain('requires baseUrl')
+    }
+  })
+
+  describe('complete()', () => {
+    it('/chat/completions に POST し、テキストと usage を変換する', async () => {
+      const fake = await startFakeServer({
+        json: completion(
+          { content: 'Hi there' },
+          { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+        ),
+      })
+      const provider = createProvider({
+        baseUrl: `${fake.baseUrl}/`,
+        apiKey: 'secret',
+        generation: { maxTokens: 256, temperature: 0.2 },
+        quirks: { headers: { 'HTTP-Referer': 'https://example.com', 'X-Title': 'wn' } },
+      })
+
+      const result = await provider.complete(MESSAGES)
+
+      expect(result).toStrictEqual({
+        ok: true,
+        data: { content: 'Hi there', toolCalls: [], usage: { inputTokens: 12, outputTokens: 3 } },
+      })
+      const request = fake.requests[0]
+      expect(request?.url).toBe('/v1/chat/completions')
+      expect(request?.headers['authorization']).toBe('Bearer secret')
+      expect(request?.headers['http-referer']).toBe('https://example.com')
+      expect(request?.headers['x-title']).toBe('wn')
+      expect(request?.body).toStrictEqual({
+        model: MODEL,
+        messages: [{ role: 'user', content: 'Hello' }],
+        max_tokens: 256,
+        temperature: 0.2,
+      })
+    })
+
+    it('apiKey が未設定なら Authorization ヘッダーを送らない', async () => {
+      const fake = await startFakeServer({ json: completion({ content: 'ok' }) })
+
+      await createProvider({ baseUrl: fake.baseUrl }).complete(MESSAGES)
+
+      expect(fake.requests[0]?.headers['authorization']).toBeUndefined()
+    })
+
+    it('オブジェクトや二重エンコードされた arguments を引数オブジェクトに変換する', async () => {
+      const fake = await startFakeServer({
+        json: completion({
+          content: null,
+          tool_calls: [
+            {
+              id: 'call_1',
+              type: 'function',
+              function: { name: 'read', arguments: { path: 'a' } },
+            },
+            {
+              id: 'call_2',
+              type: 'function',
+              function: { name: 'read', arguments: JSON.stringify(JSON.stringify({ path: 'b' })) },
+            },
+          ],
+        }),
+      })
+
+      const result = await createProvider({ baseUrl: fake.baseUrl }).complete(MESSAGES, TOOLS)
+
+      expect(result.ok && result.data.toolCalls).toStrictEqual([
+        { id: 'call_1', name: 'read', arguments: { path: 'a' } },
+        { id: 'call_2', name: 'read', arguments: { path: 'b' } },
+      ])
+      expect(fake.requests[0]?.body['tools']).toHaveLength(1)
+    })
+
+    it('synthesizeToolCallIds が有効なら id のないツール呼び出しに id を生成する', async () => {
+      const response = completion({
+        content: '',
+        tool_calls: [{ type: 'function', function: { name: 'read', arguments: '{}' } }],
+      })
+      const fake = await startFakeServer({ json: response })
+
+      const withoutQuirk = await createProvider({ baseUrl: fake.baseUrl }).complete(MESSAGES)
+      const withQuirk = await createProvider({
+        baseUrl: fake.baseUrl,
+        quirks: { synthesizeToolCallIds: true },
+      }).complete(MESSAGES)
+
+      expect(withoutQuirk.ok && withoutQuirk.data.toolCalls?.[0]?.id).toBe('')
+      expect(withQuirk.ok && withQuirk.data.toolCalls?.[0]?.id).toMatch(/^call_[0-9a-f-]{36}$/)
+    })
+
+    it('エラーステータスでは status を cause に含めた err を返す', async () => {
+      const fake = await startFakeServer({ status: 503, json: { error: 'loading model' } })
+
+      const result = await createProvider({ baseUrl: fake.baseUrl }).complete(MESSAGES)
+
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.error).toBe('OpenAI-compatible API error (503): {"error":"loading model"}')
+        expect(result.cause).toMatchObject({ status: 503 })
+      }
+    })
+
+    it('接続できない場合は err を返す', async () => {
+      const fake = await startFakeServer({ json: {} })
+      await stopFakeServer()
+
+      const result = await createProvider({ baseUrl: fake.baseUrl }).complete(MESSAGES)
+
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.error).toContain('OpenAI-compatible fetch error')
+      }
+    })
+
+    it('toolChoice を tool_choice として送信する', async () => {
+      const fake = await startFakeServer({ json: completion({ content: 'ok' }) })
+
+      await createProvider({ baseUrl: fake.baseUrl }).complete(MESSAGES, TOOLS, {
+        toolChoice: 'required',
+      })
+
+      expect(fake.requests[0]?.body['tool_choice']).toBe('required')
+    })
+
+    it('responseFormat を response_format として送信する', async () => {
+      const fake = await startFakeServer({ json: completion({ content: '{"ok":true}' }) })
+      const responseFormat = { name: 'result', schema: { type: 'object' } }
+
+      await createProvider({ baseUrl: fake.baseUrl }).complete(MESSAGES, TOOLS, { responseFormat })
+
+      expect(fake.requests[0]?.body['response_format']).toStrictEqual({
+        type: 'json_schema',
+        json_schema: { name: 'result', schema: { type: 'object' } },
+      })
+    })
+  })
+
+  describe('stream()', () => {
+    it('SSE のテキスト・ツール呼び出しを変換し、末尾で usage 付きの done を返す', async () => {
+      const fake = await startFakeServer({
+        sse: [
+          ': keep-alive\n\n',
+          chunk({ content: 'Let me ' }),
+          chunk({ content: 'check.' }),
+          chunk({ tool_calls: [{ id: 'call_1', function: { name: 'read', arguments: '{"pa' } }] }),
+          chunk({ tool_calls: [{ function: { arguments: 'th":"a"}' } }] }),
+          { choices: [], usage: { prompt_tokens: 5, completion_tokens: 7, total_tokens: 12 } },
+        ],
+      })
+
+      const chunks = await collect(
+        createProvider({ baseUrl: fake.baseUrl }).stream?.(MESSAGES, TOOLS) ?? [],
+      )
+
+      expect(chunks).toStrictEqual([
+        { type: 'delta', content: 'Let me ' },
+        { type: 'delta', content: 'check.' },
+        { type: 'tool_call', toolCall: { id: 'call_1', name: 'read', arguments: { path: 'a' } } },
+        { type: 'done', usage: { inputTokens: 5, outputTokens: 7 } },
+      ])
+      expect(fake.requests[0]?.body).toMatchObject({
+        stream: true,
+        stream_options: { include_usage: true },
+      })
+    })
+
+    it('disableStreamUsage が有効なら stream_options を送らない', async () => {
+      const fake = await startFakeServer({ sse: [chunk({ content: 'hi' })] })
+
+      const chunks = await collect(
+        createProvider({ baseUrl: fake.baseUrl, quirks: { disableStreamUsage: true } }).stream?.(
+          MESSAGES,
+        ) ?? [],
+      )
+
+      expect(chunks).toStrictEqual([{ type: 'delta', content: 'hi' }, { type: 'done' }])
+      expect(fake.requests[0]?.body).not.toHaveProperty('stream_options')
+    })
+
+    it('reasoning_content を thinking_delta と thinking チャンクに変換する', async () => {
+      const fake = await startFakeServer({
+        sse: [chunk({ reasoning_content: 'hmm' }), chunk({ content: 'answer' })],
+      })
+
+      const chunks = await collect(
+        createProvider({ baseUrl: fake.baseUrl }).stream?.(MESSAGES) ?? [],
+      )
+
+      expect(chunks).toStrictEqual([
+        { type: 'thinking_delta', content: 'hmm' },
+        { type: 'delta', content: 'answer' },
+        { type: 'thinking', thinking: { text: 'hmm' } },
+        { type: 'done' },
+      ])
+    })
+
+    it('エラーステータスでは例外を投げる', async () => {
+      const fake = await startFakeServer({ status: 500, json: { error: 'boom' } })
+
+      await expect(
+        collect(createProvider({ baseUrl: fake.baseUrl }).stream?.(MESSAGES) ?? []),
+      ).rejects.toThrow('OpenAI-compatible API error (500)')
+    })
+  })
+
+  describe('emulateToolCalls', () => {
+    const history: Message[] = [
+      { role: 'system', content: 'You are helpful.' },
+      { role: 'user', content: 'Read a' },
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [{ id: 'call_1', name: 'read', arguments: { path: 'a' } }],
+      },
+      { role: 'user', content: 'file body', toolCallId: 'call_1', name: 'read' },
+    ]
+
+    it('tools を送らずにシステムプロンプトでツールを説明し、履歴をテキストに変換する', async () => {
+      const fake = await startFakeServer({ json: completion({ content: 'done' }) })
+
+      await createProvider({ baseUrl: fake.baseUrl, quirks: { emulateToolCalls: true } }).complete(
+        history,
+        TOOLS,
+      )
+
+      const body = fake.requests[0]?.body
+      expect(body).not.toHaveProperty('tools')
+      const messages = body?.['messages'] as Array<{ role: string; content: string }>
+      expect(messages).toHaveLength(4)
+      expect(messages[0]?.role).toBe('system')
+      expect(messages[0]?.content).toMatch(/^You are helpful\.\n\nYou can call the following tools/)
+      expect(messages[0]?.content).toContain('"name":"read"')
+      expect(messages[2]).toStrictEqual({
+        role: 'assistant',
+        content: '<tool_call>{"name":"read","arguments":{"path":"a"}}</tool_call>',
+      })
+      expect(messages[3]).toStrictEqual({
+        role: 'user',
+        content: '<tool_result name="read">\nfile body\n</tool_result>',
+      })
+    })
+
+    it('応答本文の <tool_call> ブロックをツール呼び出しに変換する', async () => {
+      const fake = await startFakeServer({
+        json: completion({
+          content:
+            'Reading.\n<tool_call>\n{"name": "read", "arguments": {"path": "b"}}\n</tool_call>',
+        }),
+      })
+
+      const result = await createProvider({
+        baseUrl: fake.baseUrl,
+        quirks: { emulateToolCalls: true },
+      }).complete(MESSAGES, TOOLS)
+
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.data.content).toBe('Reading.')
+        expect(result.data.toolCalls).toStrictEqual([
+          {
+            id: expect.stringMatching(/^call_/) as unknown,
+            name: 'read',
+            arguments: { path: 'b' },
+          },
+        ])
+      }
+    })
+
+    it('stream() は complete() の結果をチャンクに変換する', async () => {
+      const fake = await startFakeServer({
+        json: completion({ content: '<tool_call>{"name":"read","arguments":{}}</tool_call>' }),
+      })
+
+      const chunks = await collect(
+        createProvider({ baseUrl: fake.baseUrl, quirks: { emulateToolCalls: true } }).stream?.(
+          MESSAGES,
+          TOOLS,
+        ) ?? [],
+      )
+
+      expect(fake.requests[0]?.body).not.toHaveProperty('stream')
+      expect(chunks).toStrictEqual([
+        {
+          type: 'tool_call',
+          toolCall: { id: expect.stringMatching(/^call_/) as unknown, name: 'read', arguments: {} },
+        },
+        { type: 'done' },
+      ])
+    })
+
+    it('toolChoice はシステムプロンプトの指示に変換する', async () => {
+      const fake = await startFakeServer({ json: completion({ content: 'done' }) })
+
+      await createProvider({ baseUrl: fake.baseUrl, quirks: { emulateToolCalls: true } }).complete(
+        MESSAGES,
+        TOOLS,
+        { toolChoice: { name: 'read' } },
+      )
+
+      const body = fake.requests[0]?.body
+      expect(body).not.toHaveProperty('tool_choice')
+      const messages = body?.['messages'] as Array<{ role: string; content: string }>
+      expect(messages[0]?.content).toMatch(
+        /\n\nYou must call the "read" tool in your next response\.$/,
+      )
+    })
+
+    it('ツールを渡す場合は response_format を送らない', async () => {
+      const fake = await startFakeServer({ json: completion({ content: '{}' }) })
+
+      await createProvider({ baseUrl: fake.baseUrl, quirks: { emulateToolCalls: true } }).complete(
+        MESSAGES,
+        TOOLS,
+        { responseFormat: { schema: { type: 'object' } } },
+      )
+
+      expect(fake.requests[0]?.body).not.toHaveProperty('response_format')
+    })
+  })
+
+  describe('countTokens()', () => {
+    it('ローカルの推定値を返し、模倣モードではツールをプロンプトに埋め込んだ形で数える', async () => {
+      const native = createProvider({ baseUrl: 'http://localhost:1' })
+      const emulated = createProvider({
+        baseUrl: 'http://localhost:1',
+        quirks: { emulateToolCalls: true },
+      })
+
+      const nativeCount = await native.countTokens?.(MESSAGES, TOOLS)
+      const emulatedCount = await emulated.countTokens?.(MESSAGES, TOOLS)
+
+      expect(nativeCount).toStrictEqual({ ok: true, data: estimatePromptTokens(MESSAGES, TOOLS) })
+      expect(emulatedCount?.ok).toBe(true)
+      if (emulatedCount?.ok) {
+        // ツールの説明文がシステムプロンプトに加わる
+        expect(emulatedCount.data).toBeGreaterThan(estimatePromptTokens(MESSAGES))
+        expect(emulatedCount.data).not.toBe(nativeCount?.ok ? nativeCount.data : 0)
+      }
+    })
+  })
+})
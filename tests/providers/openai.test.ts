@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest'
 import type { ChatCompletion, ChatCompletionChunk } from 'openai/resources/chat/completions'
 import type { ProviderConfig } from '../../src/loader/types.js'
 import type { StreamChunk } from '../../src/providers/types.js'
+import { estimatePromptTokens } from '../../src/providers/token-count.js'
 
 // --- OpenAI SDK モック ---
 const mockCreate = vi.fn()
@@ -272,7 +273,8 @@ describe('OpenAI Provider', () => {
 
     // 7. APIエラー→Result.err
     it('API エラー発生時に Result.err を返す', async () => {
-      mockCreate.mockRejectedValueOnce(new Error('API rate limit exceeded'))
+      const apiError = new Error('API rate limit exceeded')
+      mockCreate.mockRejectedValueOnce(apiError)
       const config: ProviderConfig = { apiKey: 'sk-test-key' }
       const result = createOpenAIProvider(config, 'gpt-4o')
       if (!result.ok) throw new Error('provider creation failed')
@@ -281,6 +283,7 @@ describe('OpenAI Provider', () => {
       expect(response).toStrictEqual({
         ok: false,
         error: 'API rate limit exceeded',
+        cause: apiError,
       })
     })
 
@@ -307,6 +310,29 @@ describe('OpenAI Provider', () => {
       }
     })
 
+    it('prompt_tokens_details.cached_tokens を cacheReadTokens にマッピングし、inputTokens から差し引く', async () => {
+      mockCreate.mockResolvedValueOnce(
+        makeChatCompletion('ok', undefined, {
+          prompt_tokens: 2048,
+          completion_tokens: 10,
+          total_tokens: 2058,
+          prompt_tokens_details: { cached_tokens: 1024 },
+        }),
+      )
+      const result = createOpenAIProvider({ apiKey: 'sk-test-key' }, 'gpt-4o')
+      if (!result.ok) throw new Error('provider creation failed')
+
+      const response = await result.data.complete([{ role: 'user', content: 'count' }])
+      expect(response.ok).toBe(true)
+      if (response.ok) {
+        expect(response.data.usage).toStrictEqual({
+          inputTokens: 1024,
+          outputTokens: 10,
+          cacheReadTokens: 1024,
+        })
+      }
+    })
+
     // 12. tool_calls.arguments の JSON.parse 失敗→空オブジェクトにフォールバック
     it('tool_calls.arguments の JSON.parse が失敗した場合、空オブジェクトにフォールバックする', async () => {
       mockCreate.mockResolvedValueOnce(
@@ -418,6 +444,252 @@ describe('OpenAI Provider', () => {
     })
   })
 
+  describe('マルチモーダル', () => {
+    it('user のコンテンツパートを text / image_url / file に変換する', async () => {
+      mockCreate.mockResolvedValueOnce(makeChatCompletion('OK'))
+      const result = createOpenAIProvider({ apiKey: 'sk-test-key' }, 'gpt-4o')
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete([
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Describe these.' },
+            { type: 'image', mimeType: 'image/png', data: 'iVBORw0K' },
+            { type: 'document', mimeType: 'application/pdf', data: 'JVBERi0x', name: 'spec.pdf' },
+          ],
+        },
+      ])
+
+      const callArgs = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      const messages = callArgs['messages'] as Array<Record<string, unknown>>
+      expect(messages[0]).toStrictEqual({
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Describe these.' },
+          { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0K' } },
+          {
+            type: 'file',
+            file: { file_data: 'data:application/pdf;base64,JVBERi0x', filename: 'spec.pdf' },
+          },
+        ],
+      })
+    })
+
+    it('ツール結果の画像は連続する tool メッセージの後に user メッセージとして送信する', async () => {
+      mockCreate.mockResolvedValueOnce(makeChatCompletion('OK'))
+      const result = createOpenAIProvider({ apiKey: 'sk-test-key' }, 'gpt-4o')
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete([
+        { role: 'user', content: 'Compare a.png with notes.txt' },
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [
+            { id: 'call_1', name: 'read', arguments: { path: 'a.png' } },
+            { id: 'call_2', name: 'read', arguments: { path: 'notes.txt' } },
+          ],
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Image file: a.png' },
+            { type: 'image', mimeType: 'image/png', data: 'iVBORw0K' },
+          ],
+          toolCallId: 'call_1',
+          name: 'read',
+        },
+        { role: 'user', content: 'notes', toolCallId: 'call_2', name: 'read' },
+      ])
+
+      const callArgs = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      const messages = callArgs['messages'] as Array<Record<string, unknown>>
+      expect(messages.slice(2)).toStrictEqual([
+        { role: 'tool', content: 'Image file: a.png', tool_call_id: 'call_1' },
+        { role: 'tool', content: 'notes', tool_call_id: 'call_2' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Attachments from tool result call_1:' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0K' } },
+          ],
+        },
+      ])
+    })
+  })
+
+  describe('生成パラメータ', () => {
+    it('生成パラメータを Chat Completions API のパラメータに変換する', async () => {
+      mockCreate.mockResolvedValueOnce(makeChatCompletion('ok'))
+      const config: ProviderConfig = { apiKey: 'sk-test-key', generation: { temperature: 0.9 } }
+      const result = createOpenAIProvider(config, 'gpt-4o', {
+        maxTokens: 512,
+        temperature: 0.1,
+        topP: 0.5,
+        stop: ['###'],
+        seed: 7,
+      })
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete([{ role: 'user', content: 'Hi' }])
+
+      const callArgs = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      expect(callArgs['max_completion_tokens']).toBe(512)
+      expect(callArgs['temperature']).toBe(0.1)
+      expect(callArgs['top_p']).toBe(0.5)
+      expect(callArgs['stop']).toStrictEqual(['###'])
+      expect(callArgs['seed']).toBe(7)
+    })
+
+    it('未指定の生成パラメータは送信しない', async () => {
+      mockCreate.mockResolvedValueOnce(makeChatCompletion('ok'))
+      const result = createOpenAIProvider({ apiKey: 'sk-test-key' }, 'gpt-4o')
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete([{ role: 'user', content: 'Hi' }])
+
+      const callArgs = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      expect(Object.keys(callArgs).sort()).toStrictEqual(['messages', 'model'])
+    })
+  })
+
+  describe('推論（reasoning）', () => {
+    it('thinking 指定時は reasoning_effort を送信する（effort 省略時は medium）', async () => {
+      mockCreate.mockResolvedValueOnce(makeChatCompletion('ok'))
+      mockCreate.mockResolvedValueOnce(makeChatCompletion('ok'))
+      const config: ProviderConfig = { apiKey: 'sk-test-key' }
+      const medium = createOpenAIProvider(config, 'o3', { thinking: { budgetTokens: 4000 } })
+      const high = createOpenAIProvider(config, 'o3', {
+        thinking: { budgetTokens: 4000, effort: 'high' },
+      })
+      if (!medium.ok || !high.ok) throw new Error('provider creation failed')
+
+      await medium.data.complete([{ role: 'user', content: 'Hi' }])
+      await high.data.complete([{ role: 'user', content: 'Hi' }])
+
+      const first = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      const second = mockCreate.mock.calls[1]?.[0] as Record<string, unknown>
+      expect(first['reasoning_effort']).toBe('medium')
+      expect(second['reasoning_effort']).toBe('high')
+    })
+
+    it('互換サーバーの reasoning_content を LLMResponse.thinking に変換する', async () => {
+      const completion = makeChatCompletion('4')
+      const choice = completion.choices[0]
+      if (!choice) throw new Error('no choice')
+      mockCreate.mockResolvedValueOnce({
+        ...completion,
+        choices: [{ ...choice, message: { ...choice.message, reasoning_content: '2 + 2 = 4' } }],
+      })
+      const result = createOpenAIProvider({ apiKey: 'sk-test-key' }, 'deepseek-reasoner')
+      if (!result.ok) throw new Error('provider creation failed')
+
+      const response = await result.data.complete([{ role: 'user', content: '2 + 2?' }])
+
+      expect(response.ok).toBe(true)
+      if (!response.ok) return
+      expect(response.data.content).toBe('4')
+      expect(response.data.thinking).toStrictEqual([{ text: '2 + 2 = 4' }])
+    })
+
+    it('stream() は reasoning_content を thinking_delta と thinking チャンクに変換する', async () => {
+      const reasoningDelta = { content: null, reasoning_content: 'Let me think.' }
+      const chunks = [
+        makeStreamChunk(reasoningDelta),
+        makeStreamChunk({ content: 'Done' }),
+        makeStreamChunk({}, 'stop'),
+      ]
+      mockCreate.mockResolvedValueOnce(toAsyncIterable(chunks))
+      const result = createOpenAIProvider({ apiKey: 'sk-test-key' }, 'deepseek-reasoner')
+      if (!result.ok) throw new Error('provider creation failed')
+      if (!result.data.stream) throw new Error('stream not implemented')
+
+      const collected: StreamChunk[] = []
+      for await (const chunk of result.data.stream([{ role: 'user', content: 'Hi' }])) {
+        collected.push(chunk)
+      }
+
+      expect(collected).toStrictEqual([
+        { type: 'thinking_delta', content: 'Let me think.' },
+        { type: 'delta', content: 'Done' },
+        { type: 'thinking', thinking: { text: 'Let me think.' } },
+        { type: 'done' },
+      ])
+    })
+  })
+
+  describe('構造化出力', () => {
+    it('responseFormat を response_format（json_schema）に変換する', async () => {
+      mockCreate.mockResolvedValueOnce(makeChatCompletion('{"ok":true}'))
+      const result = createOpenAIProvider({ apiKey: 'sk-test-key' }, 'gpt-4o')
+      if (!result.ok) throw new Error('provider creation failed')
+      const schema = { type: 'object', properties: { ok: { type: 'boolean' } } }
+
+      await result.data.complete([{ role: 'user', content: 'Hi' }], undefined, {
+        responseFormat: { schema },
+      })
+
+      const callArgs = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      expect(callArgs['response_format']).toStrictEqual({
+        type: 'json_schema',
+        json_schema: { name: 'final_answer', schema },
+      })
+    })
+
+    it('stream() でも response_format を送信する', async () => {
+      mockCreate.mockResolvedValueOnce(toAsyncIterable([makeStreamChunk({}, 'stop')]))
+      const result = createOpenAIProvider({ apiKey: 'sk-test-key' }, 'gpt-4o')
+      if (!result.ok) throw new Error('provider creation failed')
+      if (!result.data.stream) throw new Error('stream not implemented')
+      const responseFormat = { name: 'review', schema: { type: 'string' } }
+
+      const stream = result.data.stream([{ role: 'user', content: 'Hi' }], [], { responseFormat })
+      for await (const chunk of stream) {
+        void chunk
+      }
+
+      const callArgs = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      expect(callArgs['response_format']).toStrictEqual({
+        type: 'json_schema',
+        json_schema: { name: 'review', schema: { type: 'string' } },
+      })
+    })
+  })
+
+  describe('ツール呼び出しの制御（toolChoice）', () => {
+    const tools = [{ name: 'read', description: 'Read a file', parameters: { type: 'object' } }]
+
+    it('toolChoice を tool_choice に変換し、指名されたツールは function 形式にする', async () => {
+      mockCreate.mockResolvedValue(makeChatCompletion('ok'))
+      const result = createOpenAIProvider({ apiKey: 'sk-test-key' }, 'gpt-4o')
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete([{ role: 'user', content: 'Hi' }], tools, {
+        toolChoice: 'required',
+      })
+      await result.data.complete([{ role: 'user', content: 'Hi' }], tools, {
+        toolChoice: { name: 'read' },
+      })
+
+      const first = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      const second = mockCreate.mock.calls[1]?.[0] as Record<string, unknown>
+      expect(first['tool_choice']).toBe('required')
+      expect(second['tool_choice']).toStrictEqual({ type: 'function', function: { name: 'read' } })
+    })
+
+    it('ツールを渡さない場合は tool_choice を送信しない', async () => {
+      mockCreate.mockResolvedValueOnce(makeChatCompletion('ok'))
+      const result = createOpenAIProvider({ apiKey: 'sk-test-key' }, 'gpt-4o')
+      if (!result.ok) throw new Error('provider creation failed')
+
+      await result.data.complete([{ role: 'user', content: 'Hi' }], [], { toolChoice: 'none' })
+
+      const callArgs = mockCreate.mock.calls[0]?.[0] as Record<string, unknown>
+      expect(callArgs).not.toHaveProperty('tool_choice')
+    })
+  })
+
   describe('stream()', () => {
     // 9. テキストdelta→StreamChunk.delta
     it('テキスト delta を StreamChunk.delta に変換する', async () => {
@@ -538,4 +810,18 @@ describe('OpenAI Provider', () => {
       })
     })
   })
+
+  describe('countTokens()', () => {
+    it('API を呼ばずにローカルの推定値を返す', async () => {
+      const messages = [{ role: 'user' as const, content: 'Hello world' }]
+      const result = createOpenAIProvider({ apiKey: 'sk-test' }, 'gpt-4o')
+      if (!result.ok) throw new Error('provider creation failed')
+
+      expect(await result.data.countTokens?.(messages)).toStrictEqual({
+        ok: true,
+        data: estimatePromptTokens(messages),
+      })
+      expect(mockCreate).not.toHaveBeenCalled()
+    })
+  })
 })
@@ -0,0 +1,260 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import {
+  ProviderRegistry,
+  createConfiguredProvider,
+  createDefaultProviderRegistry,
+  loadProviderModules,
+} from '../../src/providers/registry.js'
+import type { ProviderFactory } from '../../src/providers/registry.js'
+import { createModelCatalogue } from '../../src/providers/models.js'
+import type { LLMProvider } from '../../src/providers/types.js'
+import { ok, err } from '../../src/result.js'
+
+/** model 名をそのまま返すダミープロバイダーのファクトリ */
+const echoFactory: ProviderFactory = (_config, model) =>
+  ok({ complete: () => Promise.resolve(ok({ content: model })) })
+
+/** register 関数を持つプロバイダーモジュールのソース */
+const MODULE_SOURCE = `
+export function register(registry) {
+  registry.register('echo', (config, model) => ({
+    ok: true,
+    data: { complete: async () => ({ ok: true, data: { content: config.baseUrl + '/' + model } }) },
+  }))
+}
+`
+
+describe('ProviderRegistry', () => {
+  let registry: ProviderRegistry
+
+  beforeEach(() => {
+    registry = new ProviderRegistry()
+  })
+
+  it('登録したファクトリ関数でプロバイダーを生成する', async () => {
+    registry.register('echo', echoFactory)
+
+    const result = registry.create('echo', {}, 'echo-1')
+    if (!result.ok) throw new Error(result.error)
+
+    expect(await result.data.complete([])).toStrictEqual(ok({ content: 'echo-1' }))
+  })
+
+  it('同名のプロバイダーを重複登録すると err を返す', () => {
+    registry.register('echo', echoFactory)
+
+    expect(registry.register('echo', echoFactory)).toStrictEqual(
+      err('Provider already registered: echo'),
+    )
+  })
+
+  it('未登録のプロバイダー名で err を返す', () => {
+    expect(registry.create('unknown', {}, 'model')).toStrictEqual(err('Unknown provider: unknown'))
+  })
+
+  it('config.type が指定されている場合は type でファクトリ関数を解決する', async () => {
+    registry.register('echo', echoFactory)
+
+    const result = registry.create('my-echo', { type: 'echo' }, 'echo-1')
+    if (!result.ok) throw new Error(result.error)
+
+    expect(await result.data.complete([])).toStrictEqual(ok({ content: 'echo-1' }))
+    expect(registry.create('my-echo', { type: 'missing' }, 'm')).toStrictEqual(
+      err('Unknown provider: missing'),
+    )
+  })
+
+  it('ファクトリ関数の err をそのまま返す', () => {
+    registry.register('broken', () => err('API key is required'))
+
+    expect(registry.create('broken', {}, 'model')).toStrictEqual(err('API key is required'))
+  })
+
+  it('has() / list() で登録済みのプロバイダーを確認できる', () => {
+    registry.register('echo', echoFactory)
+
+    expect(registry.has('echo')).toBe(true)
+    expect(registry.has('other')).toBe(false)
+    expect(registry.list()).toStrictEqual(['echo'])
+  })
+})
+
+describe('createDefaultProviderRegistry', () => {
+  it('5つのビルトインプロバイダーと scripted / cassette が登録されている', () => {
+    expect(createDefaultProviderRegistry().list()).toStrictEqual([
+      'claude',
+      'openai',
+      'openai-compatible',
+      'ollama',
+      'gemini',
+      'scripted',
+      'cassette',
+    ])
+  })
+
+  it('ollama の生成オプションを指定すると ollama プロバイダーに渡す', async () => {
+    const originalFetch = globalThis.fetch
+    const onPullProgress = vi.fn()
+    const lines = [JSON.stringify({ status: 'success' }), ''].join('\n')
+    globalThis.fetch = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        headers: new Headers(),
+        text: () => Promise.resolve('not found'),
+      } as Response)
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        body: new Blob([lines]).stream(),
+      } as Response)
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ message: { role: 'assistant', content: 'Hi' } }),
+      } as Response)
+
+    try {
+      const registry = createDefaultProviderRegistry({ ollama: { onPullProgress } })
+      const provider = registry.create('ollama', { autoPull: true }, 'llama3')
+      if (!provider.ok) throw new Error(provider.error)
+      await provider.data.complete([{ role: 'user', content: 'Hi' }], [])
+    } finally {
+      globalThis.fetch = originalFetch
+    }
+
+    expect(onPullProgress).toHaveBeenCalledWith('llama3', { status: 'success' })
+  })
+})
+
+describe('createConfiguredProvider', () => {
+  it('registry のファクトリ関数でプロバイダーを生成する', async () => {
+    const registry = new ProviderRegistry()
+    registry.register('echo', echoFactory)
+
+    const result = createConfiguredProvider(registry, createModelCatalogue(), 'echo', {}, 'm1')
+
+    if (!result.ok) throw new Error(result.error)
+    expect(await result.data.complete([])).toStrictEqual(ok({ content: 'm1' }))
+  })
+
+  it('未登録のプロバイダー名で err を返す', () => {
+    const result = createConfiguredProvider(
+      new ProviderRegistry(),
+      createModelCatalogue(),
+      'unknown-provider',
+      {},
+      'm1',
+    )
+
+    expect(result).toStrictEqual(err('Unknown provider: unknown-provider'))
+  })
+
+  it('モデルの能力と矛盾する設定はファクトリ関数を呼ばずに err を返す', () => {
+    const factory = vi.fn(echoFactory)
+    const registry = new ProviderRegistry()
+    registry.register('echo', factory)
+    const catalogue = createModelCatalogue({ m1: { tools: false, maxOutputTokens: 100 } })
+
+    expect(createConfiguredProvider(registry, catalogue, 'echo', {}, 'm1')).toStrictEqual(
+      err('Model does not support tool calls: m1'),
+    )
+    expect(
+      createConfiguredProvider(
+        registry,
+        catalogue,
+        'echo',
+        { quirks: { emulateToolCalls: true }, generation: { maxTokens: 200 } },
+        'm1',
+      ),
+    ).toStrictEqual(err('generation.maxTokens (200) exceeds the output limit of m1 (100)'))
+    expect(factory).not.toHaveBeenCalled()
+  })
+
+  it('retry 設定があるとリトライ付きのプロバイダーでラップし、再試行をログ出力する', async () => {
+    const complete = vi
+      .fn<LLMProvider['complete']>()
+      .mockResolvedValueOnce(err('Overloaded', { status: 529 }))
+      .mockResolvedValueOnce(ok({ content: 'ok', toolCalls: [] }))
+    const registry = new ProviderRegistry()
+    registry.register('flaky', () => ok({ complete }))
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    const result = createConfiguredProvider(
+      registry,
+      createModelCatalogue(),
+      'flaky',
+      { retry: { initialDelayMs: 0 } },
+      'm1',
+    )
+    if (!result.ok) throw new Error(result.error)
+    const response = await result.data.complete([{ role: 'user', content: 'hi' }])
+
+    expect(response.ok).toBe(true)
+    expect(complete).toHaveBeenCalledTimes(2)
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringMatching(/^Retrying flaky \(1\/\d+\) in 0ms: Overloaded$/),
+    )
+    errorSpy.mockRestore()
+  })
+})
+
+describe('loadProviderModules', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wn-registry-test-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  it('相対パスを baseDir から解決し、register 関数でプロバイダーを登録する', async () => {
+    fs.writeFileSync(path.join(tmpDir, 'echo.mjs'), MODULE_SOURCE)
+    const registry = createDefaultProviderRegistry()
+
+    const result = await loadProviderModules(registry, ['./echo.mjs'], tmpDir)
+
+    expect(result).toStrictEqual(ok(undefined))
+    const provider = registry.create('echo', { baseUrl: 'http://local' }, 'echo-1')
+    if (!provider.ok) throw new Error(provider.error)
+    expect(await provider.data.complete([])).toStrictEqual(ok({ content: 'http://local/echo-1' }))
+  })
+
+  it('default エクスポートの登録関数も受け付ける', async () => {
+    const file = path.join(tmpDir, 'default.mjs')
+    fs.writeFileSync(
+      file,
+      `export default (registry) => registry.register('echo', () => ({ ok: true, data: {} }))`,
+    )
+    const registry = new ProviderRegistry()
+
+    await loadProviderModules(registry, [file])
+
+    expect(registry.has('echo')).toBe(true)
+  })
+
+  it('登録関数をエクスポートしていないモジュールは err を返す', async () => {
+    fs.writeFileSync(path.join(tmpDir, 'empty.mjs'), 'export const name = "empty"')
+
+    const result = await loadProviderModules(new ProviderRegistry(), ['./empty.mjs'], tmpDir)
+
+    expect(result).toStrictEqual(
+      err('Provider module does not export a register function: ./empty.mjs'),
+    )
+  })
+
+  it('モジュールの読み込みに失敗した場合は err を返す', async () => {
+    const result = await loadProviderModules(new ProviderRegistry(), ['./missing.mjs'], tmpDir)
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error).toContain('Failed to load provider module ./missing.mjs')
+    }
+  })
+})
@@ -0,0 +1,334 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  withRetry,
+  classifyError,
+  isRetryableFailure,
+  parseRetryAfter,
+} from '../../src/providers/retry.js'
+import type { RetryAttempt } from '../../src/providers/retry.js'
+import { createOllamaProvider } from '../../src/providers/ollama.js'
+import type { LLMProvider, LLMResponse, Message, StreamChunk } from '../../src/providers/types.js'
+import type { Result } from '../../src/result.js'
+import { ok, err } from '../../src/result.js'
+
+// ─── helpers ──────────────────────────────────────────────
+
+const MESSAGES: Message[] = [{ role: 'user', content: 'Hi' }]
+
+const OK_RESPONSE: LLMResponse = {
+  content: 'done',
+  toolCalls: [],
+  usage: { inputTokens: 1, outputTokens: 1 },
+}
+
+/** 順番にレスポンスを返す fake fetch を生成する */
+function makeSequenceFetch(
+  responses: { status: number; body: unknown; headers?: Record<string, string> }[],
+): ReturnType<typeof vi.fn<typeof fetch>> {
+  const mock = vi.fn<typeof fetch>()
+  for (const r of responses) {
+    mock.mockResolvedValueOnce(
+      new Response(JSON.stringify(r.body), {
+        status: r.status,
+        headers: r.headers ?? {},
+      }),
+    )
+  }
+  return mock
+}
+
+/** 待機時間を記録するだけの sleep */
+function makeRecordingSleep(): { sleep: (ms: number) => Promise<void>; delays: number[] } {
+  const delays: number[] = []
+  return {
+    delays,
+    sleep: (ms: number): Promise<void> => {
+      delays.push(ms)
+      return Promise.resolve()
+    },
+  }
+}
+
+/** complete() の戻り値を順番に返す fake provider */
+function makeSequenceProvider(results: Awaited<ReturnType<LLMProvider['complete']>>[]): {
+  provider: LLMProvider
+  complete: ReturnType<typeof vi.fn<LLMProvider['complete']>>
+} {
+  const complete = vi.fn<LLMProvider['complete']>()
+  for (const r of results) {
+    complete.mockResolvedValueOnce(r)
+  }
+  return { provider: { complete }, complete }
+}
+
+// ─── classifyError ────────────────────────────────────────
+
+describe('classifyError', () => {
+  it('429 / 5xx / 529 はリトライ可能と判定する', () => {
+    for (const status of [408, 429, 500, 502, 503, 504, 529]) {
+      expect(classifyError('error', { status }).retryable).toBe(true)
+    }
+  })
+
+  it('400 / 401 / 404 はリトライ不可と判定する', () => {
+    for (const status of [400, 401, 403, 404]) {
+      expect(classifyError('error', { status }).retryable).toBe(false)
+    }
+  })
+
+  it('Headers の retry-after（秒）を retryAfterMs に変換する', () => {
+    const cause = { status: 429, headers: new Headers({ 'retry-after': '3' }) }
+
+    expect(classifyError('rate limited', cause)).toStrictEqual({
+      retryable: true,
+      status: 429,
+      retryAfterMs: 3000,
+    })
+  })
+
+  it('retry-after-ms ヘッダーを優先する', () => {
+    const cause = { status: 429, headers: { 'retry-after-ms': '250', 'retry-after': '3' } }
+
+    expect(classifyError('rate limited', cause).retryAfterMs).toBe(250)
+  })
+
+  it('Gemini の errorDetails から retryDelay を取得する', () => {
+    const cause = {
+      status: 429,
+      errorDetails: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '12s' }],
+    }
+
+    expect(classifyError('quota', cause).retryAfterMs).toBe(12000)
+  })
+
+  it('cause チェーンを辿ってネットワークエラーコードを判定する', () => {
+    const cause = new TypeError('fetch failed', {
+      cause: Object.assign(new Error('socket'), { code: 'ECONNRESET' }),
+    })
+
+    expect(classifyError('fetch failed', cause).retryable).toBe(true)
+  })
+
+  it('ECONNREFUSED はリトライ不可と判定する', () => {
+    const cause = Object.assign(new Error('refused'), { code: 'ECONNREFUSED' })
+
+    expect(classifyError('refused', cause).retryable).toBe(false)
+  })
+
+  it('cause がなければエラーメッセージから推定する', () => {
+    expect(classifyError('Overloaded').retryable).toBe(true)
+    expect(classifyError('Rate limit exceeded').retryable).toBe(true)
+    expect(classifyError('Invalid API key').retryable).toBe(false)
+  })
+
+  it('エラーメッセージの数値は HTTP ステータスとして書かれたものだけを対象にする', () => {
+    expect(classifyError('Ollama API error (503): unavailable').retryable).toBe(true)
+    expect(classifyError('503 Service Unavailable').retryable).toBe(true)
+    expect(classifyError('request failed with status 502').retryable).toBe(true)
+    expect(classifyError('HTTP 429').retryable).toBe(true)
+    expect(classifyError('Invalid value at line 512').retryable).toBe(false)
+    expect(classifyError('Expected 500 items').retryable).toBe(false)
+  })
+
+  it('isRetryableFailure は成功 Result に対して false を返す', () => {
+    expect(isRetryableFailure(ok('x'))).toBe(false)
+    expect(isRetryableFailure(err('e', { status: 503 }))).toBe(true)
+  })
+})
+
+describe('parseRetryAfter', () => {
+  it('HTTP 日付を現在時刻からの差分に変換する', () => {
+    const now = Date.parse('2025-01-01T00:00:00.000Z')
+
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:05 GMT', now)).toBe(5000)
+  })
+
+  it('解釈できない値は undefined を返す', () => {
+    expect(parseRetryAfter('soon')).toBeUndefined()
+  })
+})
+
+// ─── withRetry ────────────────────────────────────────────
+
+describe('withRetry', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('429 + retry-after の後に成功すると、指定時間待ってから成功を返す（fake fetch）', async () => {
+    const fetchMock = makeSequenceFetch([
+      { status: 429, body: { error: 'rate limited' }, headers: { 'retry-after': '2' } },
+      { status: 200, body: { message: { role: 'assistant', content: 'Hello' } } },
+    ])
+    vi.stubGlobal('fetch', fetchMock)
+    const base = createOllamaProvider({ baseUrl: 'http://localhost:11434' }, 'llama3')
+    if (!base.ok) throw new Error('provider creation failed')
+    const { sleep, delays } = makeRecordingSleep()
+
+    const provider = withRetry(base.data, { sleep })
+    const result = await provider.complete(MESSAGES)
+
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.data.content).toBe('Hello')
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(delays).toStrictEqual([2000])
+  })
+
+  it('400 はリトライせずにそのまま err を返す（fake fetch）', async () => {
+    const fetchMock = makeSequenceFetch([{ status: 400, body: { error: 'bad request' } }])
+    vi.stubGlobal('fetch', fetchMock)
+    const base = createOllamaProvider({ baseUrl: 'http://localhost:11434' }, 'llama3')
+    if (!base.ok) throw new Error('provider creation failed')
+    const { sleep, delays } = makeRecordingSleep()
+
+    const result = await withRetry(base.data, { sleep }).complete(MESSAGES)
+
+    expect(result.ok).toBe(false)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(delays).toStrictEqual([])
+  })
+
+  it('maxAttempts に達したら最後の err を返す', async () => {
+    const { provider, complete } = makeSequenceProvider([
+      err('overloaded', { status: 529 }),
+      err('overloaded', { status: 529 }),
+      err('overloaded again', { status: 529 }),
+    ])
+    const { sleep } = makeRecordingSleep()
+
+    const result = await withRetry(provider, { maxAttempts: 3, sleep }).complete(MESSAGES)
+
+    expect(result).toStrictEqual({ ok: false, error: 'overloaded again', cause: { status: 529 } })
+    expect(complete).toHaveBeenCalledTimes(3)
+  })
+
+  it('指数バックオフで待機時間を増やし maxDelayMs で頭打ちにする（jitter なし）', async () => {
+    const { provider } = makeSequenceProvider([
+      err('e', { status: 503 }),
+      err('e', { status: 503 }),
+      err('e', { status: 503 }),
+      ok(OK_RESPONSE),
+    ])
+    const { sleep, delays } = makeRecordingSleep()
+
+    const result = await withRetry(provider, {
+      maxAttempts: 4,
+      initialDelayMs: 100,
+      backoffMultiplier: 3,
+      maxDelayMs: 500,
+      jitter: false,
+      sleep,
+    }).complete(MESSAGES)
+
+    expect(result.ok).toBe(true)
+    expect(delays).toStrictEqual([100, 300, 500])
+  })
+
+  it('jitter は待機時間を 50〜100% の範囲でランダム化する', async () => {
+    const { provider } = makeSequenceProvider([err('e', { status: 503 }), ok(OK_RESPONSE)])
+    const { sleep, delays } = makeRecordingSleep()
+
+    await withRetry(provider, { initialDelayMs: 1000, random: () => 0, sleep }).complete(MESSAGES)
+
+    expect(delays).toStrictEqual([500])
+  })
+
+  it('retry-after も maxDelayMs で頭打ちにする', async () => {
+    const { provider } = makeSequenceProvider([
+      err('e', { status: 429, headers: { 'retry-after': '120' } }),
+      ok(OK_RESPONSE),
+    ])
+    const { sleep, delays } = makeRecordingSleep()
+
+    await withRetry(provider, { maxDelayMs: 5000, sleep }).complete(MESSAGES)
+
+    expect(delays).toStrictEqual([5000])
+  })
+
+  it('再試行ごとに onRetry を呼ぶ', async () => {
+    const { provider } = makeSequenceProvider([err('busy', { status: 503 }), ok(OK_RESPONSE)])
+    const { sleep } = makeRecordingSleep()
+    const attempts: RetryAttempt[] = []
+
+    await withRetry(provider, {
+      jitter: false,
+      sleep,
+      onRetry: (a) => attempts.push(a),
+    }).complete(MESSAGES)
+
+    expect(attempts).toStrictEqual([{ attempt: 1, maxAttempts: 3, delayMs: 500, error: 'busy' }])
+  })
+
+  it('stream() は最初のチャンク前の失敗のみ再試行する', async () => {
+    let calls = 0
+    const provider: LLMProvider = {
+      complete: () => Promise.resolve(ok(OK_RESPONSE)),
+      async *stream(): AsyncIterable<StreamChunk> {
+        calls++
+        await Promise.resolve()
+        if (calls === 1) {
+          throw Object.assign(new Error('Overloaded'), { status: 529 })
+        }
+        yield { type: 'delta', content: 'hi' }
+        yield { type: 'done' }
+      },
+    }
+    const { sleep } = makeRecordingSleep()
+
+    const chunks: StreamChunk[] = []
+    for await (const chunk of withRetry(provider, { sleep }).stream?.(MESSAGES) ?? []) {
+      chunks.push(chunk)
+    }
+
+    expect(calls).toBe(2)
+    expect(chunks).toStrictEqual([{ type: 'delta', content: 'hi' }, { type: 'done' }])
+  })
+
+  it('stream() は出力開始後の失敗を再試行せずに例外を伝播する', async () => {
+    let calls = 0
+    const provider: LLMProvider = {
+      complete: () => Promise.resolve(ok(OK_RESPONSE)),
+      async *stream(): AsyncIterable<StreamChunk> {
+        calls++
+        await Promise.resolve()
+        yield { type: 'delta', content: 'partial' }
+        throw Object.assign(new Error('Overloaded'), { status: 529 })
+      },
+    }
+    const { sleep } = makeRecordingSleep()
+
+    const chunks: StreamChunk[] = []
+    const consume = async (): Promise<void> => {
+      for await (const chunk of withRetry(provider, { sleep }).stream?.(MESSAGES) ?? []) {
+        chunks.push(chunk)
+      }
+    }
+
+    await expect(consume()).rejects.toThrow('Overloaded')
+    expect(calls).toBe(1)
+    expect(chunks).toStrictEqual([{ type: 'delta', content: 'partial' }])
+  })
+
+  it('stream を持たないプロバイダーには stream を追加しない', () => {
+    const provider: LLMProvider = { complete: () => Promise.resolve(ok(OK_RESPONSE)) }
+
+    expect('stream' in withRetry(provider)).toBe(false)
+  })
+
+  it('countTokens もリトライ可能な err を再試行する', async () => {
+    const countTokens = vi
+      .fn<NonNullable<LLMProvider['countTokens']>>()
+      .mockResolvedValueOnce(err('Overloaded', { status: 529 }))
+      .mockResolvedValueOnce(ok(42))
+    const complete = (): Promise<Result<LLMResponse>> => Promise.resolve(ok(OK_RESPONSE))
+    const provider: LLMProvider = { complete, countTokens }
+    const { sleep } = makeRecordingSleep()
+
+    const result = await withRetry(provider, { sleep }).countTokens?.(MESSAGES)
+
+    expect(result).toStrictEqual(ok(42))
+    expect(countTokens).toHaveBeenCalledTimes(2)
+    expect('countTokens' in withRetry({ complete })).toBe(false)
+  })
+})
@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import {
+  createScriptedProvider,
+  createScriptedProviderFromConfig,
+  responseToChunks,
+  chunksToResponse,
+} from '../../src/providers/scripted.js'
+import type { LLMResponse, Message, StreamChunk, Tool } from '../../src/providers/types.js'
+import { ok, err } from '../../src/result.js'
+
+// ─── helpers ──────────────────────────────────────────────
+
+const MESSAGES: Message[] = [{ role: 'user', content: 'Hello there' }]
+
+const READ_TOOL: Tool = {
+  name: 'read',
+  description: 'Read a file',
+  parameters: { type: 'object', properties: {} },
+}
+
+const TOOL_RESPONSE: LLMResponse = {
+  content: 'Reading',
+  toolCalls: [{ id: 'call_1', name: 'read', arguments: { path: 'a.txt' } }],
+  usage: { inputTokens: 3, outputTokens: 4 },
+}
+
+async function collect(stream: AsyncIterable<StreamChunk> | undefined): Promise<StreamChunk[]> {
+  const chunks: StreamChunk[] = []
+  for await (const chunk of stream ?? []) {
+    chunks.push(chunk)
+  }
+  return chunks
+}
+
+// ─── createScriptedProvider ───────────────────────────────
+
+describe('createScriptedProvider', () => {
+  it('complete() はスクリプトのレスポンスを順に返す', async () => {
+    const provider = createScriptedProvider([
+      { response: TOOL_RESPONSE },
+      { response: { content: 'Done', toolCalls: [] } },
+    ])
+
+    expect(await provider.complete(MESSAGES)).toStrictEqual(ok(TOOL_RESPONSE))
+    expect(await provider.complete(MESSAGES)).toStrictEqual(ok({ content: 'Done', toolCalls: [] }))
+    expect(provider.remaining()).toBe(0)
+  })
+
+  it('スクリプトを使い切ると err を返す', async () => {
+    const provider = createScriptedProvider([])
+
+    expect(await provider.complete(MESSAGES)).toStrictEqual(
+      err('Scripted provider has no response for request 1'),
+    )
+  })
+
+  it('受け取ったリクエストを記録する', async () => {
+    const provider = createScriptedProvider([{ response: { content: 'ok' } }])
+
+    await provider.complete(MESSAGES, [READ_TOOL])
+
+    expect(provider.requests).toStrictEqual([{ messages: MESSAGES, tools: [READ_TOOL] }])
+  })
+
+  it('error を指定したターンは err を返す', async () => {
+    const provider = createScriptedProvider([{ error: 'API error (529): overloaded' }])
+
+    expect(await provider.complete(MESSAGES)).toStrictEqual(err('API error (529): overloaded'))
+  })
+
+  it('expect の検証に成功するとレスポンスを返す', async () => {
+    const provider = createScriptedProvider([
+      {
+        expect: { lastMessageContains: 'Hello', messageCount: 1, tools: ['read'] },
+        response: { content: 'Hi' },
+      },
+    ])
+
+    expect(await provider.complete(MESSAGES, [READ_TOOL])).toStrictEqual(ok({ content: 'Hi' }))
+  })
+
+  it('expect の検証に失敗すると err を返す', async () => {
+    const provider = createScriptedProvider([
+      { expect: { lastMessageContains: 'Goodbye' }, response: { content: 'Hi' } },
+      { expect: { messageCount: 3 }, response: { content: 'Hi' } },
+      { expect: { tools: ['read', 'write'] }, response: { content: 'Hi' } },
+    ])
+
+    expect(await provider.complete(MESSAGES)).toStrictEqual(
+      err(
+        'Scripted expectation failed at turn 1: last message does not contain "Goodbye": "Hello there"',
+      ),
+    )
+    expect(await provider.complete(MESSAGES)).toStrictEqual(
+      err('Scripted expectation failed at turn 2: expected 3 messages but received 1'),
+    )
+    expect(await provider.complete(MESSAGES, [READ_TOOL])).toStrictEqual(
+      err(
+        'Scripted expectation failed at turn 3: expected tools [read, write] but received [read]',
+      ),
+    )
+  })
+
+  it('stream() は chunks をそのまま流す', async () => {
+    const chunks: StreamChunk[] = [
+      { type: 'delta', content: 'Hel' },
+      { type: 'delta', content: 'lo' },
+      { type: 'done' },
+    ]
+    const provider = createScriptedProvider([{ chunks }])
+
+    expect(await collect(provider.stream?.(MESSAGES))).toStrictEqual(chunks)
+  })
+
+  it('stream() は response をチャンクに変換して流す', async () => {
+    const provider = createScriptedProvider([{ response: TOOL_RESPONSE }])
+
+    expect(await collect(provider.stream?.(MESSAGES))).toStrictEqual(
+      responseToChunks(TOOL_RESPONSE),
+    )
+  })
+
+  it('stream() はスクリプトを使い切ると例外を投げる', async () => {
+    const provider = createScriptedProvider([])
+
+    await expect(collect(provider.stream?.(MESSAGES))).rejects.toThrow(
+      'Scripted provider has no response for request 1',
+    )
+  })
+
+  it('complete() は chunks を 1 つのレスポンスに結合する', async () => {
+    const provider = createScriptedProvider([{ chunks: responseToChunks(TOOL_RESPONSE) }])
+
+    expect(await provider.complete(MESSAGES)).toStrictEqual(ok(TOOL_RESPONSE))
+  })
+})
+
+// ─── responseToChunks / chunksToResponse ──────────────────
+
+describe('responseToChunks / chunksToResponse', () => {
+  it('thinking・テキスト・ツール呼び出し・usage を往復変換できる', () => {
+    const response: LLMResponse = {
+      content: 'Answer',
+      toolCalls: [{ id: 'call_1', name: 'read', arguments: {} }],
+      thinking: [{ text: 'Let me think', signature: 'sig' }],
+      usage: { inputTokens: 1, outputTokens: 2 },
+      metadata: { provider: 'claude', model: 'claude-sonnet-4-20250514' },
+    }
+
+    const chunks = responseToChunks(response)
+
+    expect(chunks.map((c) => c.type)).toStrictEqual(['thinking', 'delta', 'tool_call', 'done'])
+    expect(chunksToResponse(chunks)).toStrictEqual(response)
+  })
+
+  it('空のテキストは delta チャンクにしない', () => {
+    expect(responseToChunks({ content: '' })).toStrictEqual([{ type: 'done' }])
+  })
+})
+
+// ─── createScriptedProviderFromConfig ─────────────────────
+
+describe('createScriptedProviderFromConfig', () => {
+  let tmpDir: string
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wn-scripted-test-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  it('script ファイルのターンを返すプロバイダーを生成する', async () => {
+    const file = path.join(tmpDir, 'script.json')
+    fs.writeFileSync(file, JSON.stringify([{ response: { content: 'From file', toolCalls: [] } }]))
+
+    const result = createScriptedProviderFromConfig({ script: file })
+    if (!result.ok) throw new Error(result.error)
+
+    expect(await result.data.complete(MESSAGES)).toStrictEqual(
+      ok({ content: 'From file', toolCalls: [] }),
+    )
+  })
+
+  it('script が未指定の場合は err を返す', () => {
+    expect(createScriptedProviderFromConfig({})).toStrictEqual(
+      err('Scripted provider requires script (path to a JSON file of scripted turns)'),
+    )
+  })
+
+  it('script ファイルの形式が不正な場合は err を返す', () => {
+    const file = path.join(tmpDir, 'script.json')
+    fs.writeFileSync(file, JSON.stringify({ response: { content: 'not an array' } }))
+
+    expect(createScriptedProviderFromConfig({ script: file })).toStrictEqual(
+      err(`Invalid script file: ${file}`),
+    )
+  })
+
+  it('script ファイルが存在しない場合は err を返す', () => {
+    const result = createScriptedProviderFromConfig({ script: path.join(tmpDir, 'missing.json') })
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error).toContain('Failed to load script')
+    }
+  })
+})
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_RESPONSE_FORMAT_NAME,
+  getResponseFormatName,
+  validateJsonSchema,
+  parseStructuredOutput,
+} from '../../src/providers/structured-output.js'
+import type { JsonSchema } from '../../src/providers/types.js'
+
+// ─── helpers ──────────────────────────────────────────────
+
+const REVIEW_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    verdict: { type: 'string', enum: ['approve', 'reject'] },
+    score: { type: 'integer', minimum: 0, maximum: 10 },
+    comments: { type: 'array', items: { type: 'string', minLength: 1 }, maxItems: 2 },
+  },
+  required: ['verdict', 'score'],
+  additionalProperties: false,
+}
+
+// ─── getResponseFormatName ────────────────────────────────
+
+describe('getResponseFormatName', () => {
+  it('name 省略時は final_answer を返す', () => {
+    expect(getResponseFormatName({ schema: {} })).toBe(DEFAULT_RESPONSE_FORMAT_NAME)
+    expect(DEFAULT_RESPONSE_FORMAT_NAME).toBe('final_answer')
+  })
+
+  it('name 指定時はその名前を返す', () => {
+    expect(getResponseFormatName({ name: 'review', schema: {} })).toBe('review')
+  })
+})
+
+// ─── validateJsonSchema ───────────────────────────────────
+
+describe('validateJsonSchema', () => {
+  it('スキーマに一致する値では空配列を返す', () => {
+    const value = { verdict: 'approve', score: 8, comments: ['LGTM'] }
+    expect(validateJsonSchema(value, REVIEW_SCHEMA)).toStrictEqual([])
+  })
+
+  it('型が一致しない場合はそれ以上検証せずに型エラーを返す', () => {
+    expect(validateJsonSchema('text', REVIEW_SCHEMA)).toStrictEqual(['$: expected object'])
+    expect(validateJsonSchema(1.5, { type: 'integer' })).toStrictEqual(['$: expected integer'])
+  })
+
+  it('type の配列はいずれかに一致すればよい', () => {
+    expect(validateJsonSchema(null, { type: ['string', 'null'] })).toStrictEqual([])
+    expect(validateJsonSchema(1, { type: ['string', 'null'] })).toStrictEqual([
+      '$: expected string | null',
+    ])
+  })
+
+  it('required / enum / additionalProperties の違反をパス付きで列挙する', () => {
+    const value = { verdict: 'maybe', extra: true }
+    expect(validateJsonSchema(value, REVIEW_SCHEMA)).toStrictEqual([
+      '$.score: is required',
+      '$.verdict: must be one of ["approve","reject"]',
+      '$.extra: is not allowed',
+    ])
+  })
+
+  it('数値・文字列・配列の範囲制約を検証する', () => {
+    const value = { verdict: 'reject', score: 11, comments: ['', 'a', 'b'] }
+    expect(validateJsonSchema(value, REVIEW_SCHEMA)).toStrictEqual([
+      '$.score: must be <= 10',
+      '$.comments[0]: must be at least 1 characters',
+      '$.comments: must have at most 2 items',
+    ])
+  })
+
+  it('additionalProperties のスキーマで未定義のプロパティを検証する', () => {
+    const schema: JsonSchema = { type: 'object', additionalProperties: { type: 'number' } }
+    expect(validateJsonSchema({ a: 1, b: 'x' }, schema)).toStrictEqual(['$.b: expected number'])
+  })
+
+  it('const を検証する', () => {
+    expect(validateJsonSchema({ a: 1 }, { const: { a: 1 } })).toStrictEqual([])
+    expect(validateJsonSchema('b', { const: 'a' })).toStrictEqual(['$: must be "a"'])
+  })
+
+  it('anyOf / oneOf / allOf を検証する', () => {
+    const anyOf: JsonSchema = { anyOf: [{ type: 'string' }, { type: 'number' }] }
+    expect(validateJsonSchema(1, anyOf)).toStrictEqual([])
+    expect(validateJsonSchema(true, anyOf)).toStrictEqual([
+      '$: must match at least one schema in anyOf',
+    ])
+
+    const oneOf: JsonSchema = { oneOf: [{ type: 'number' }, { type: 'integer' }] }
+    expect(validateJsonSchema(1.5, oneOf)).toStrictEqual([])
+    expect(validateJsonSchema(1, oneOf)).toStrictEqual([
+      '$: must match exactly one schema in oneOf',
+    ])
+
+    const allOf: JsonSchema = { allOf: [{ type: 'number' }, { minimum: 5 }] }
+    expect(validateJsonSchema(3, allOf)).toStrictEqual(['$: must be >= 5'])
+  })
+
+  it('未対応のキーワードは無視する', () => {
+    expect(validateJsonSchema('abc', { type: 'string', pattern: '^x' })).toStrictEqual([])
+  })
+})
+
+// ─── parseStructuredOutput ────────────────────────────────
+
+describe('parseStructuredOutput', () => {
+  it('JSON テキストを解析して検証済みの値を返す', () => {
+    const result = parseStructuredOutput('{"verdict":"approve","score":9}', REVIEW_SCHEMA)
+    expect(result).toStrictEqual({ ok: true, data: { verdict: 'approve', score: 9 } })
+  })
+
+  it('応答全体を囲むコードフェンスを取り除く', () => {
+    const text = '```json\n{"verdict":"reject","score":2}\n```\n'
+    const result = parseStructuredOutput(text, REVIEW_SCHEMA)
+    expect(result).toStrictEqual({ ok: true, data: { verdict: 'reject', score: 2 } })
+  })
+
+  it('JSON として解析できない場合は err を返す', () => {
+    const result = parseStructuredOutput('Looks good to me', REVIEW_SCHEMA)
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error).toMatch(/^Response is not valid JSON: /)
+      expect(result.cause).toBeInstanceOf(SyntaxError)
+    }
+  })
+
+  it('スキーマ違反の場合は違反を列挙した err を返す', () => {
+    const result = parseStructuredOutput('{"verdict":"approve"}', REVIEW_SCHEMA)
+    expect(result).toStrictEqual({
+      ok: false,
+      error: 'Response does not match the schema:\n- $.score: is required',
+    })
+  })
+})
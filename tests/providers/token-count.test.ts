@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { countTextTokens, estimatePromptTokens } from '../../src/providers/token-count.js'
+
+describe('countTextTokens', () => {
+  it('一般的な英単語は先頭の空白を含めて 1 トークンと数える', () => {
+    expect(countTextTokens('Hello world')).toBe(2)
+    expect(countTextTokens('Hello, world!')).toBe(4)
+  })
+
+  it('長い識別子・数字・記号の連続は分割して数える', () => {
+    expect(countTextTokens('createOllamaProvider')).toBe(4)
+    expect(countTextTokens('1234567')).toBe(3)
+    expect(countTextTokens('({ model })')).toBe(3)
+  })
+
+  it('CJK 文字は 1 文字 1 トークンと数える', () => {
+    expect(countTextTokens('こんにちは世界')).toBe(7)
+  })
+
+  it('空文字列は 0', () => {
+    expect(countTextTokens('')).toBe(0)
+  })
+})
+
+describe('estimatePromptTokens', () => {
+  it('メッセージごとの構造分と応答のプライミング分を加算する', () => {
+    expect(estimatePromptTokens([{ role: 'user', content: 'Hello world' }])).toBe(8)
+    expect(estimatePromptTokens([])).toBe(0)
+  })
+
+  it('ツール定義・ツール呼び出し・画像を含めて見積もる', () => {
+    const tool = { name: 'read', description: 'Read a file', parameters: { type: 'object' } }
+    const withoutTools = estimatePromptTokens([{ role: 'user', content: 'Hi' }])
+    const withTools = estimatePromptTokens([{ role: 'user', content: 'Hi' }], [tool])
+    expect(withTools - withoutTools).toBeGreaterThan(8)
+
+    const toolCall = estimatePromptTokens([
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [{ id: '1', name: 'read', arguments: { path: 'a.ts' } }],
+      },
+    ])
+    expect(toolCall).toBeGreaterThan(estimatePromptTokens([{ role: 'assistant', content: '' }]))
+
+    const image = estimatePromptTokens([
+      {
+        role: 'user',
+        content: [{ type: 'image', mimeType: 'image/png', data: 'x'.repeat(100_000) }],
+      },
+    ])
+    expect(image).toBe(1600 + 3 + 3)
+  })
+})
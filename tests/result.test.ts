@@ -29,6 +29,12 @@ describe('Result', () => {
       expect(result).toStrictEqual({ ok: false, error: 'something went wrong' })
     })
 
+    it('cause を指定すると元の例外を保持する', () => {
+      const cause = new Error('socket hang up')
+      const result = err('request failed', cause)
+      expect(result).toStrictEqual({ ok: false, error: 'request failed', cause })
+    })
+
     it('カスタムエラー型を使用できる', () => {
       const result = err({ code: 404, message: 'not found' })
       expect(result.ok).toBe(false)
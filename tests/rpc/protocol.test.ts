@@ -8,7 +8,10 @@ import {
   isJsonRpcRequest,
   isJsonRpcNotification,
   isJsonRpcIncoming,
+  isJsonRpcResponse,
   decodeJsonRpc,
+  decodeJsonRpcResponse,
+  encodeRequest,
   encodeNotification,
   encodeSuccessResponse,
   encodeErrorResponse,
@@ -188,6 +191,70 @@ describe('rpc/protocol', () => {
     })
   })
 
+  // ─── isJsonRpcResponse ───
+
+  describe('isJsonRpcResponse', () => {
+    it('success response を true と判定する', () => {
+      expect(isJsonRpcResponse({ jsonrpc: '2.0', id: 1, result: null })).toBe(true)
+    })
+
+    it('error response を true と判定する（id が null でもよい）', () => {
+      const error = { code: -32600, message: 'bad' }
+      expect(isJsonRpcResponse({ jsonrpc: '2.0', id: 'a', error })).toBe(true)
+      expect(isJsonRpcResponse({ jsonrpc: '2.0', id: null, error })).toBe(true)
+    })
+
+    it('request / notification を false と判定する', () => {
+      expect(isJsonRpcResponse({ jsonrpc: '2.0', id: 1, method: 'foo' })).toBe(false)
+      expect(isJsonRpcResponse({ jsonrpc: '2.0', method: 'foo' })).toBe(false)
+    })
+
+    it('result と error の両方を持つ場合は false', () => {
+      const msg = { jsonrpc: '2.0', id: 1, result: 1, error: { code: 1, message: 'x' } }
+      expect(isJsonRpcResponse(msg)).toBe(false)
+    })
+
+    it('error オブジェクトの形状が不正な場合は false', () => {
+      expect(isJsonRpcResponse({ jsonrpc: '2.0', id: 1, error: 'oops' })).toBe(false)
+    })
+  })
+
+  // ─── decodeJsonRpcResponse ───
+
+  describe('decodeJsonRpcResponse', () => {
+    it('success response をデコードする', () => {
+      const result = decodeJsonRpcResponse(JSON.stringify({ jsonrpc: '2.0', id: 1, result: 'ok' }))
+      expect(result).toEqual({ ok: true, data: { jsonrpc: '2.0', id: 1, result: 'ok' } })
+    })
+
+    it('不正な JSON を err で返す', () => {
+      expect(decodeJsonRpcResponse('{oops').ok).toBe(false)
+    })
+
+    it('request を err で返す（response ではない）', () => {
+      const line = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'foo' })
+      expect(decodeJsonRpcResponse(line).ok).toBe(false)
+    })
+  })
+
+  // ─── encodeRequest ───
+
+  describe('encodeRequest', () => {
+    it('id・method・params を含むリクエストをエンコードする', () => {
+      const parsed = JSON.parse(encodeRequest(7, 'approvalRequest', { name: 'shell' })) as unknown
+      expect(parsed).toEqual({
+        jsonrpc: '2.0',
+        id: 7,
+        method: 'approvalRequest',
+        params: { name: 'shell' },
+      })
+    })
+
+    it('params なしの場合は params キーを含まない', () => {
+      expect(encodeRequest('x', 'ping')).toBe('{"jsonrpc":"2.0","id":"x","method":"ping"}')
+    })
+  })
+
   // ─── encodeNotification ───
 
   describe('encodeNotification', () => {
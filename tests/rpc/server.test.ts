@@ -10,9 +10,12 @@ import {
   createRpcServer,
   createStdioTransport,
   createRpcAgentHandler,
+  createRpcPullProgressHandler,
 } from '../../src/rpc/server.js'
 import type { RpcTransport, RpcServer as RpcServerType } from '../../src/rpc/types.js'
 import { RPC_METHODS, JSON_RPC_ERROR_CODES } from '../../src/rpc/types.js'
+import type { Result } from '../../src/result.js'
+import { ok, err } from '../../src/result.js'
 import { PassThrough } from 'node:stream'
 
 // ─── MockTransport ヘルパー ───
@@ -75,6 +78,14 @@ function createMockTransport(): MockTransportResult {
   return { transport, pushLine, close, written }
 }
 
+/** written 配列に指定件数以上の行が書き込まれるまで待つ */
+async function waitForWritten(written: string[], count: number): Promise<void> {
+  for (let i = 0; i < 100 && written.length < count; i++) {
+    await new Promise((r) => setTimeout(r, 1))
+  }
+  expect(written.length).toBeGreaterThanOrEqual(count)
+}
+
 /** written 配列から安全にパースする */
 function parseWritten(written: string[], index: number): Record<string, unknown> {
   const line = written[index]
@@ -322,6 +333,112 @@ describe('rpc/server', () => {
       expect(r2.result.count).toBe(2)
       expect(r3.result.count).toBe(3)
     })
+
+    it('request() でクライアントにリクエストを送信し、対応する Response で解決する', async () => {
+      const mock = createMockTransport()
+      const server = createRpcServer({ transport: mock.transport, handler: vi.fn() })
+
+      const startPromise = server.start()
+      const resultPromise = server.request('approvalRequest', { name: 'shell' })
+
+      const sent = parseWritten(mock.written, 0)
+      expect(sent).toEqual({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'approvalRequest',
+        params: { name: 'shell' },
+      })
+
+      mock.pushLine(JSON.stringify({ jsonrpc: '2.0', id: 1, result: { decision: 'allow' } }))
+      expect(await resultPromise).toEqual(ok({ decision: 'allow' }))
+
+      mock.close()
+      await startPromise
+    })
+
+    it('request() にエラーレスポンスが返った場合 err で解決する', async () => {
+      const mock = createMockTransport()
+      const server = createRpcServer({ transport: mock.transport, handler: vi.fn() })
+
+      const startPromise = server.start()
+      const resultPromise = server.request('approvalRequest')
+      mock.pushLine(
+        JSON.stringify({ jsonrpc: '2.0', id: 1, error: { code: -32601, message: 'nope' } }),
+      )
+
+      expect(await resultPromise).toEqual(err('nope'))
+      mock.close()
+      await startPromise
+    })
+
+    it('ハンドラ処理中に request() してもデッドロックせず Response を受け取れる', async () => {
+      const mock = createMockTransport()
+      // ハンドラは start() 後に呼ばれるため、後で宣言する server を参照できる
+      const handler = vi.fn(async (): Promise<unknown> => {
+        const answer: Result<unknown> = await server.request('ask')
+        return { answer }
+      })
+      const server = createRpcServer({ transport: mock.transport, handler })
+
+      const startPromise = server.start()
+      mock.pushLine(JSON.stringify({ jsonrpc: '2.0', id: 'c1', method: 'input' }))
+
+      // Core → TUI リクエストが送信されるのを待って応答する
+      await waitForWritten(mock.written, 1)
+      const sent = parseWritten(mock.written, 0)
+      expect(sent).toHaveProperty('method', 'ask')
+      mock.pushLine(JSON.stringify({ jsonrpc: '2.0', id: sent['id'], result: 'yes' }))
+
+      await waitForWritten(mock.written, 2)
+      expect(parseWritten(mock.written, 1)).toEqual({
+        jsonrpc: '2.0',
+        id: 'c1',
+        result: { answer: { ok: true, data: 'yes' } },
+      })
+
+      mock.close()
+      await startPromise
+    })
+
+    it('stop() で応答待ちの request() を err で解決する', async () => {
+      const mock = createMockTransport()
+      const server = createRpcServer({ transport: mock.transport, handler: vi.fn() })
+
+      const startPromise = server.start()
+      const resultPromise = server.request('approvalRequest')
+      server.stop()
+
+      expect(await resultPromise).toEqual(err('RPC server stopped'))
+      await startPromise
+    })
+
+    it('start() 前または入力終了後の request() は即座に err を返す', async () => {
+      const mock = createMockTransport()
+      const server = createRpcServer({ transport: mock.transport, handler: vi.fn() })
+
+      expect(await server.request('approvalRequest')).toEqual(err('RPC connection closed'))
+      expect(mock.written).toHaveLength(0)
+
+      const startPromise = server.start()
+      mock.close()
+      await startPromise
+
+      expect(await server.request('approvalRequest')).toEqual(err('RPC connection closed'))
+    })
+
+    it('未知の id の Response は無視する', async () => {
+      const mock = createMockTransport()
+      const handler = vi.fn()
+      const server = createRpcServer({ transport: mock.transport, handler })
+
+      const startPromise = server.start()
+      mock.pushLine(JSON.stringify({ jsonrpc: '2.0', id: 99, result: 'stray' }))
+      mock.close()
+      await startPromise
+
+      expect(handler).not.toHaveBeenCalled()
+      expect(mock.written).toHaveLength(0)
+    })
   })
 
   // ─── createStdioTransport ───
@@ -366,17 +483,24 @@ describe('rpc/server', () => {
   // ─── createRpcAgentHandler ───
 
   describe('createRpcAgentHandler', () => {
-    function createMockServer(): RpcServerType & {
+    function createMockServer(requestResult: Result<unknown> = ok(undefined)): RpcServerType & {
       readonly notifications: Array<{ method: string; params?: unknown }>
+      readonly requests: Array<{ method: string; params?: unknown }>
     } {
       const notifications: Array<{ method: string; params?: unknown }> = []
+      const requests: Array<{ method: string; params?: unknown }> = []
       return {
         start: () => Promise.resolve(),
         stop: () => undefined,
         notify(method: string, params?: unknown): void {
           notifications.push({ method, params })
         },
+        request(method: string, params?: unknown): Promise<Result<unknown>> {
+          requests.push({ method, params })
+          return Promise.resolve(requestResult)
+        },
         notifications,
+        requests,
       }
     }
 
@@ -393,6 +517,42 @@ describe('rpc/server', () => {
       })
     })
 
+    it("onResponse -> metadata があれば 'response' notification に含める", () => {
+      const server = createMockServer()
+      const handler = createRpcAgentHandler(server)
+
+      void handler.onResponse('Hi', { provider: 'openai', model: 'gpt-4o' })
+
+      expect(server.notifications[0]).toEqual({
+        method: RPC_METHODS.RESPONSE,
+        params: { content: 'Hi', metadata: { provider: 'openai', model: 'gpt-4o' } },
+      })
+    })
+
+    it("onDelta -> 'responseDelta' notification を送信", () => {
+      const server = createMockServer()
+      const handler = createRpcAgentHandler(server)
+
+      void handler.onDelta?.('Hel')
+
+      expect(server.notifications.length).toBe(1)
+      expect(server.notifications[0]).toEqual({
+        method: RPC_METHODS.RESPONSE_DELTA,
+        params: { content: 'Hel' },
+      })
+    })
+
+    it("onReasoning -> 'reasoning' notification を送信", () => {
+      const server = createMockServer()
+      const handler = createRpcAgentHandler(server)
+
+      void handler.onReasoning?.('Let me think.')
+
+      expect(server.notifications).toStrictEqual([
+        { method: RPC_METHODS.REASONING, params: { content: 'Let me think.' } },
+      ])
+    })
+
     it("onToolStart -> 'toolExec' notification (event: 'start') を送信", () => {
       const server = createMockServer()
       const handler = createRpcAgentHandler(server)
@@ -428,6 +588,22 @@ describe('rpc/server', () => {
       })
     })
 
+    it("onToolEnd の parts（画像データ）は 'toolExec' notification に含めない", () => {
+      const server = createMockServer()
+      const handler = createRpcAgentHandler(server)
+
+      void handler.onToolEnd('read', {
+        ok: true,
+        output: 'Image file: a.png',
+        parts: [{ type: 'image', mimeType: 'image/png', data: 'iVBORw0K' }],
+      })
+
+      expect(server.notifications[0]).toStrictEqual({
+        method: RPC_METHODS.TOOL_EXEC,
+        params: { event: 'end', name: 'read', result: { ok: true, output: 'Image file: a.png' } },
+      })
+    })
+
     it("onStateChange -> 'stateChange' notification を送信", () => {
       const server = createMockServer()
       const handler = createRpcAgentHandler(server)
@@ -457,6 +633,18 @@ describe('rpc/server', () => {
       })
     })
 
+    it("onCompaction -> 'contextCompacted' notification を送信", () => {
+      const server = createMockServer()
+      const handler = createRpcAgentHandler(server)
+
+      const stats = { removedMessages: 4, tokensBefore: 1000, tokensAfter: 200 }
+      void handler.onCompaction?.(stats)
+
+      expect(server.notifications).toEqual([
+        { method: RPC_METHODS.CONTEXT_COMPACTED, params: stats },
+      ])
+    })
+
     it('onUsage は定義されている（undefined でない）', () => {
       const server = createMockServer()
       const handler = createRpcAgentHandler(server)
@@ -464,5 +652,140 @@ describe('rpc/server', () => {
       expect(handler.onUsage).toBeDefined()
       expect(typeof handler.onUsage).toBe('function')
     })
+
+    it("onTurnUsage -> 'usage' notification を送信", () => {
+      const server = createMockServer()
+      const handler = createRpcAgentHandler(server)
+      const totals = {
+        requests: 1,
+        inputTokens: 100,
+        outputTokens: 20,
+        cacheReadTokens: 0,
+        cacheWriteTokens: 0,
+        costUsd: 0.0006,
+      }
+      const snapshot = {
+        turn: totals,
+        session: totals,
+        byModel: [{ ...totals, provider: 'claude', model: 'claude-sonnet-4', priced: true }],
+        bySubAgent: [],
+      }
+
+      void handler.onTurnUsage?.(snapshot)
+
+      expect(server.notifications).toStrictEqual([{ method: RPC_METHODS.USAGE, params: snapshot }])
+    })
+
+    it("onApprovalRequest -> 'approvalRequest' request を送信し decision を返す", async () => {
+      const server = createMockServer(ok({ decision: 'allow-always' }))
+      const handler = createRpcAgentHandler(server)
+
+      const decision = await handler.onApprovalRequest?.('shell', { command: 'ls' })
+
+      expect(decision).toBe('allow-always')
+      expect(server.requests).toEqual([
+        {
+          method: RPC_METHODS.APPROVAL_REQUEST,
+          params: { name: 'shell', args: { command: 'ls' } },
+        },
+      ])
+    })
+
+    it('onApprovalRequest は reason があれば params に含める', async () => {
+      const server = createMockServer(ok({ decision: 'allow' }))
+      const handler = createRpcAgentHandler(server)
+
+      await handler.onApprovalRequest?.(
+        'shell',
+        { command: 'rm -r x' },
+        'Recursive delete: rm -r x',
+      )
+
+      expect(server.requests).toEqual([
+        {
+          method: RPC_METHODS.APPROVAL_REQUEST,
+          params: {
+            name: 'shell',
+            args: { command: 'rm -r x' },
+            reason: 'Recursive delete: rm -r x',
+          },
+        },
+      ])
+    })
+
+    it('onApprovalRequest はリクエスト失敗時に deny を返し log で通知する', async () => {
+      const server = createMockServer(err('RPC connection closed'))
+      const handler = createRpcAgentHandler(server)
+
+      const decision = await handler.onApprovalRequest?.('write', {})
+
+      expect(decision).toBe('deny')
+      expect(server.notifications).toEqual([
+        {
+          method: RPC_METHODS.LOG,
+          params: { level: 'warn', message: 'Approval request failed: RPC connection closed' },
+        },
+      ])
+    })
+
+    it('onApprovalRequest は不正な応答を deny として扱う', async () => {
+      const server = createMockServer(ok({ decision: 'yes please' }))
+      const handler = createRpcAgentHandler(server)
+
+      expect(await handler.onApprovalRequest?.('write', {})).toBe('deny')
+    })
+  })
+
+  // ─── createRpcPullProgressHandler ───
+
+  describe('createRpcPullProgressHandler', () => {
+    it('開始・完了を log で、ステータスの変化と 1% 以上の進捗を pullProgress で通知する', () => {
+      const notifications: Array<{ method: string; params?: unknown }> = []
+      const server: RpcServerType = {
+        start: () => Promise.resolve(),
+        stop: () => undefined,
+        notify(method: string, params?: unknown): void {
+          notifications.push({ method, params })
+        },
+        request: () => Promise.resolve(ok(undefined)),
+      }
+      const onProgress = createRpcPullProgressHandler(server)
+
+      onProgress('llama3', { status: 'pulling manifest' })
+      onProgress('llama3', { status: 'pulling abc', digest: 'abc', total: 1000, completed: 0 })
+      onProgress('llama3', { status: 'pulling abc', digest: 'abc', total: 1000, completed: 5 })
+      onProgress('llama3', { status: 'pulling abc', digest: 'abc', total: 1000, completed: 10 })
+      onProgress('llama3', { status: 'success' })
+
+      expect(notifications).toStrictEqual([
+        { method: RPC_METHODS.LOG, params: { level: 'info', message: 'Pulling model llama3' } },
+        {
+          method: RPC_METHODS.PULL_PROGRESS,
+          params: { model: 'llama3', status: 'pulling manifest' },
+        },
+        {
+          method: RPC_METHODS.PULL_PROGRESS,
+          params: {
+            model: 'llama3',
+            status: 'pulling abc',
+            digest: 'abc',
+            total: 1000,
+            completed: 0,
+          },
+        },
+        {
+          method: RPC_METHODS.PULL_PROGRESS,
+          params: {
+            model: 'llama3',
+            status: 'pulling abc',
+            digest: 'abc',
+            total: 1000,
+            completed: 10,
+          },
+        },
+        { method: RPC_METHODS.PULL_PROGRESS, params: { model: 'llama3', status: 'success' } },
+        { method: RPC_METHODS.LOG, params: { level: 'info', message: 'Pulled model llama3' } },
+      ])
+    })
   })
 })
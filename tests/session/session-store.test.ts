@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import type { Message } from '../../src/providers/types.js'
+import { createFileSessionStore, isValidSessionId } from '../../src/session/session-store.js'
+
+describe('isValidSessionId', () => {
+  it('英数字・ハイフン・アンダースコアのみを許可する', () => {
+    expect(isValidSessionId('0b6f2c1e-4d3a-4f5b-9c8d-7e6f5a4b3c2d')).toBe(true)
+    expect(isValidSessionId('my_session-1')).toBe(true)
+  })
+
+  it('パス区切りや空文字を拒否する', () => {
+    expect(isValidSessionId('../etc/passwd')).toBe(false)
+    expect(isValidSessionId('a/b')).toBe(false)
+    expect(isValidSessionId('')).toBe(false)
+  })
+})
+
+describe('createFileSessionStore', () => {
+  let tmpDir: string
+  let sessionsDir: string
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wn-session-test-'))
+    sessionsDir = path.join(tmpDir, 'sessions')
+  })
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  })
+
+  it('append でディレクトリとファイルを作成し、1行1メッセージで追記する', async () => {
+    const store = createFileSessionStore(sessionsDir)
+
+    await store.append('s1', [{ role: 'user', content: 'hello' }])
+    await store.append('s1', [{ role: 'assistant', content: 'hi' }])
+
+    const lines = fs
+      .readFileSync(path.join(sessionsDir, 's1.jsonl'), 'utf-8')
+      .split('\n')
+      .filter((l) => l !== '')
+    expect(lines).toHaveLength(2)
+    expect(JSON.parse(lines[0] ?? '')).toStrictEqual({ role: 'user', content: 'hello' })
+  })
+
+  it('load で追記したメッセージを復元する（toolCalls / toolCallId を含む）', async () => {
+    const store = createFileSessionStore(sessionsDir)
+    const messages: Message[] = [
+      { role: 'system', content: 'sys' },
+      { role: 'user', content: 'read a.txt' },
+      {
+        role: 'assistant',
+        content: '',
+        toolCalls: [{ id: 'tc-1', name: 'read', arguments: { path: 'a.txt' } }],
+      },
+      { role: 'user', content: 'file body', toolCallId: 'tc-1', name: 'read' },
+    ]
+
+    await store.append('s1', messages.slice(0, 2))
+    await store.append('s1', messages.slice(2))
+    const result = await store.load('s1')
+
+    expect(result).toStrictEqual({ ok: true, data: messages })
+  })
+
+  it('コンテンツパート配列のメッセージを保存・復元し、preview にはテキスト部分を使う', async () => {
+    const store = createFileSessionStore(sessionsDir)
+    const messages: Message[] = [
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is this?' },
+          { type: 'image', mimeType: 'image/png', data: 'iVBORw0K' },
+        ],
+      },
+      { role: 'assistant', content: 'A cat.' },
+    ]
+
+    await store.append('mm', messages)
+
+    expect(await store.load('mm')).toStrictEqual({ ok: true, data: messages })
+    const list = await store.list()
+    expect(list.ok && list.data[0]?.preview).toBe('What is this?')
+  })
+
+  it('save はセッション全体を置き換える', async () => {
+    const store = createFileSessionStore(sessionsDir)
+    await store.append('s1', [
+      { role: 'user', content: 'q1' },
+      { role: 'assistant', content: 'a1' },
+    ])
+
+    await store.save('s1', [{ role: 'system', content: 'summary' }])
+    const result = await store.load('s1')
+
+    expect(result).toStrictEqual({ ok: true, data: [{ role: 'system', content: 'summary' }] })
+    expect(fs.readdirSync(sessionsDir)).toStrictEqual(['s1.jsonl'])
+  })
+
+  it('存在しないセッションの load は err を返す', async () => {
+    const store = createFileSessionStore(sessionsDir)
+
+    const result = await store.load('missing')
+
+    expect(result).toStrictEqual({ ok: false, error: 'Session not found: missing' })
+  })
+
+  it('不正な ID は err を返しファイルを作成しない', async () => {
+    const store = createFileSessionStore(sessionsDir)
+
+    const appendResult = await store.append('../escape', [{ role: 'user', content: 'x' }])
+    const loadResult = await store.load('../escape')
+
+    expect(appendResult.ok).toBe(false)
+    expect(loadResult.ok).toBe(false)
+    expect(fs.existsSync(path.join(tmpDir, 'escape.jsonl'))).toBe(false)
+  })
+
+  it('壊れた行を含むファイルの load は行番号付きの err を返す', async () => {
+    fs.mkdirSync(sessionsDir, { recursive: true })
+    fs.writeFileSync(
+      path.join(sessionsDir, 'bad.jsonl'),
+      '{"role":"user","content":"ok"}\n{not json\n',
+    )
+    const store = createFileSessionStore(sessionsDir)
+
+    const result = await store.load('bad')
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error).toContain('bad.jsonl:2')
+    }
+  })
+
+  it('list はセッション概要を更新日時の新しい順に返す', async () => {
+    const store = createFileSessionStore(sessionsDir)
+    await store.append('older', [
+      { role: 'system', content: 'sys' },
+      { role: 'user', content: 'first question' },
+    ])
+    await store.append('newer', [{ role: 'user', content: 'second\nquestion' }])
+    const past = new Date('2025-01-01T00:00:00.000Z')
+    fs.utimesSync(path.join(sessionsDir, 'older.jsonl'), past, past)
+
+    const result = await store.list()
+
+    expect(result).toStrictEqual({
+      ok: true,
+      data: [
+        {
+          id: 'newer',
+          updatedAt: expect.any(String) as string,
+          messageCount: 1,
+          preview: 'second question',
+        },
+        {
+          id: 'older',
+          updatedAt: '2025-01-01T00:00:00.000Z',
+          messageCount: 2,
+          preview: 'first question',
+        },
+      ],
+    })
+  })
+
+  it('ディレクトリがなければ list は空配列を返す', async () => {
+    const store = createFileSessionStore(sessionsDir)
+
+    const result = await store.list()
+
+    expect(result).toStrictEqual({ ok: true, data: [] })
+  })
+})
@@ -0,0 +1,177 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { createApplyPatchTool } from '../../src/tools/apply-patch.js'
+import { createWorkspacePolicy } from '../../src/tools/workspace.js'
+
+describe('createApplyPatchTool', () => {
+  let tmpDir: string
+
+  // 各テスト前に一時ディレクトリを作成
+  function makeTmpDir(): string {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wn-apply-patch-test-'))
+    return tmpDir
+  }
+
+  afterEach(() => {
+    if (tmpDir) {
+      fs.rmSync(tmpDir, { recursive: true, force: true })
+    }
+  })
+
+  it('追加・変更・削除・リネームを 1 つのパッチで適用する', async () => {
+    const dir = makeTmpDir()
+    fs.writeFileSync(path.join(dir, 'main.ts'), 'const a = 1\nconst b = 2\n')
+    fs.writeFileSync(path.join(dir, 'old.txt'), 'bye\n')
+    fs.writeFileSync(path.join(dir, 'before.sh'), 'echo hi\n', { mode: 0o755 })
+    const patch = [
+      `--- a/${dir}/main.ts`,
+      `+++ b/${dir}/main.ts`,
+      '@@ -1,2 +1,2 @@',
+      ' const a = 1',
+      '-const b = 2',
+      '+const b = 3',
+      `--- /dev/null`,
+      `+++ b/${dir}/nested/new.txt`,
+      '@@ -0,0 +1 @@',
+      '+hello',
+      `--- a/${dir}/old.txt`,
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-bye',
+      `diff --git a/${dir}/before.sh b/${dir}/after.sh`,
+      `rename from ${dir}/before.sh`,
+      `rename to ${dir}/after.sh`,
+      '',
+    ].join('\n')
+
+    const result = await createApplyPatchTool().execute({ patch })
+
+    expect(result.ok).toBe(true)
+    expect(result.output).toBe(
+      [
+        'Applied patch to 4 file(s):',
+        `M ${dir}/main.ts`,
+        '  Hunk 1 @@ -1,2 +1,2 @@: applied at line 1',
+        `A ${dir}/nested/new.txt`,
+        '  Hunk 1 @@ -0,0 +1 @@: applied at line 1',
+        `D ${dir}/old.txt`,
+        '  Hunk 1 @@ -1 +0,0 @@: applied at line 1',
+        `R ${dir}/before.sh -> ${dir}/after.sh`,
+      ].join('\n'),
+    )
+    expect(fs.readFileSync(path.join(dir, 'main.ts'), 'utf-8')).toBe('const a = 1\nconst b = 3\n')
+    expect(fs.readFileSync(path.join(dir, 'nested', 'new.txt'), 'utf-8')).toBe('hello\n')
+    expect(fs.existsSync(path.join(dir, 'old.txt'))).toBe(false)
+    expect(fs.existsSync(path.join(dir, 'before.sh'))).toBe(false)
+    expect(fs.statSync(path.join(dir, 'after.sh')).mode & 0o777).toBe(0o755)
+  })
+
+  it('1 つでもハンクが適用できなければどのファイルも変更しない', async () => {
+    const dir = makeTmpDir()
+    fs.writeFileSync(path.join(dir, 'a.txt'), 'one\ntwo\n')
+    fs.writeFileSync(path.join(dir, 'b.txt'), 'three\nfour\n')
+    const patch = [
+      `--- a/${dir}/a.txt`,
+      `+++ b/${dir}/a.txt`,
+      '@@ -1,2 +1,2 @@',
+      ' one',
+      '-two',
+      '+TWO',
+      `--- a/${dir}/b.txt`,
+      `+++ b/${dir}/b.txt`,
+      '@@ -1,2 +1,2 @@',
+      ' five',
+      '-six',
+      '+SIX',
+    ].join('\n')
+
+    const result = await createApplyPatchTool().execute({ patch })
+
+    expect(result.ok).toBe(false)
+    expect(result.error).toBe(
+      'Patch rejected: 1 file(s) could not be patched; no files were changed',
+    )
+    expect(result.output).toContain('Hunk 1 @@ -1,2 +1,2 @@: applied at line 1')
+    expect(result.output).toContain('Hunk 1 @@ -1,2 +1,2 @@: FAILED (context not found)')
+    expect(fs.readFileSync(path.join(dir, 'a.txt'), 'utf-8')).toBe('one\ntwo\n')
+    expect(fs.readFileSync(path.join(dir, 'b.txt'), 'utf-8')).toBe('three\nfour\n')
+  })
+
+  it('既存ファイルへの追加と存在しないファイルの変更は失敗する', async () => {
+    const dir = makeTmpDir()
+    fs.writeFileSync(path.join(dir, 'exists.txt'), 'x\n')
+    const patch = [
+      '--- /dev/null',
+      `+++ ${dir}/exists.txt`,
+      '@@ -0,0 +1 @@',
+      '+y',
+      `--- ${dir}/missing.txt`,
+      `+++ ${dir}/missing.txt`,
+      '@@ -1 +1 @@',
+      '-a',
+      '+b',
+    ].join('\n')
+
+    const result = await createApplyPatchTool().execute({ patch })
+
+    expect(result.ok).toBe(false)
+    expect(result.output).toBe(
+      [
+        'Patch rejected; no files were changed:',
+        `A ${dir}/exists.txt`,
+        '  FAILED: file already exists',
+        `M ${dir}/missing.txt`,
+        '  FAILED: file does not exist',
+      ].join('\n'),
+    )
+    expect(fs.readFileSync(path.join(dir, 'exists.txt'), 'utf-8')).toBe('x\n')
+  })
+
+  it('パースできないパッチはエラーを返す', async () => {
+    const result = await createApplyPatchTool().execute({ patch: 'not a diff' })
+
+    expect(result).toStrictEqual({
+      ok: false,
+      output: '',
+      error: 'No file changes found in patch',
+    })
+  })
+
+  it('patch が空の場合はエラーを返す', async () => {
+    const result = await createApplyPatchTool().execute({ patch: '' })
+
+    expect(result.ok).toBe(false)
+    expect(result.error).toContain('patch')
+  })
+
+  it('concurrencySafe は false', () => {
+    expect(createApplyPatchTool().concurrencySafe).toBe(false)
+  })
+
+  it('workspace 指定時はルート外のファイルを含むパッチをすべて拒否する', async () => {
+    const dir = makeTmpDir()
+    fs.writeFileSync(path.join(dir, 'a.txt'), 'one\n')
+    const tool = createApplyPatchTool({ workspace: createWorkspacePolicy({ roots: [dir] }) })
+    const patch = [
+      '--- a/a.txt',
+      '+++ b/a.txt',
+      '@@ -1 +1 @@',
+      '-one',
+      '+ONE',
+      '--- /dev/null',
+      '+++ b/../escape.txt',
+      '@@ -0,0 +1 @@',
+      '+x',
+    ].join('\n')
+
+    const result = await tool.execute({ patch })
+
+    expect(result.ok).toBe(false)
+    expect(result.output).toContain(
+      `FAILED: Path is outside the workspace: ${path.join(path.dirname(dir), 'escape.txt')}`,
+    )
+    expect(fs.readFileSync(path.join(dir, 'a.txt'), 'utf-8')).toBe('one\n')
+  })
+})
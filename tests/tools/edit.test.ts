@@ -0,0 +1,226 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { createEditTool, createMultiEditTool } from '../../src/tools/edit.js'
+import { createWorkspacePolicy } from '../../src/tools/workspace.js'
+
+let tmpDir: string
+
+/** 一時ディレクトリに内容を書き込んだファイルを作成する */
+function makeFile(content: string): string {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wn-edit-test-'))
+  const filePath = path.join(tmpDir, 'target.ts')
+  fs.writeFileSync(filePath, content)
+  return filePath
+}
+
+afterEach(() => {
+  if (tmpDir) {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+  }
+})
+
+describe('createEditTool', () => {
+  it('一意に一致する文字列を置換する', async () => {
+    const filePath = makeFile('const a = 1\nconst b = 2\n')
+    const tool = createEditTool()
+
+    const result = await tool.execute({
+      path: filePath,
+      old_string: 'const b = 2',
+      new_string: 'const b = 3',
+    })
+
+    expect(result).toStrictEqual({
+      ok: true,
+      output: `Replaced 1 occurrence(s) in ${filePath}`,
+    })
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('const a = 1\nconst b = 3\n')
+  })
+
+  it('new_string の $ を置換パターンとして解釈しない', async () => {
+    const filePath = makeFile('price = X\n')
+    const tool = createEditTool()
+
+    await tool.execute({ path: filePath, old_string: 'X', new_string: "$&$1$'" })
+
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe("price = $&$1$'\n")
+  })
+
+  it('new_string が空文字列なら old_string を削除する', async () => {
+    const filePath = makeFile('keep\nremove\n')
+    const tool = createEditTool()
+
+    const result = await tool.execute({ path: filePath, old_string: 'remove\n', new_string: '' })
+
+    expect(result.ok).toBe(true)
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('keep\n')
+  })
+
+  it('一致しない場合はエラーを返しファイルを変更しない', async () => {
+    const filePath = makeFile('hello\n')
+    const tool = createEditTool()
+
+    const result = await tool.execute({ path: filePath, old_string: 'bye', new_string: 'hi' })
+
+    expect(result).toStrictEqual({
+      ok: false,
+      output: '',
+      error: `old_string not found in ${filePath}`,
+    })
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('hello\n')
+  })
+
+  it('複数箇所に一致する場合は replace_all なしではエラーを返す', async () => {
+    const filePath = makeFile('foo\nfoo\nfoo\n')
+    const tool = createEditTool()
+
+    const result = await tool.execute({ path: filePath, old_string: 'foo', new_string: 'bar' })
+
+    expect(result.ok).toBe(false)
+    expect(result.error).toContain('matches 3 locations')
+    expect(result.error).toContain('replace_all')
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('foo\nfoo\nfoo\n')
+  })
+
+  it('replace_all で全箇所を置換する', async () => {
+    const filePath = makeFile('foo\nfoo\nfoo\n')
+    const tool = createEditTool()
+
+    const result = await tool.execute({
+      path: filePath,
+      old_string: 'foo',
+      new_string: 'bar',
+      replace_all: true,
+    })
+
+    expect(result.output).toBe(`Replaced 3 occurrence(s) in ${filePath}`)
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('bar\nbar\nbar\n')
+  })
+
+  it('old_string と new_string が同じ場合はエラーを返す', async () => {
+    const filePath = makeFile('same\n')
+    const tool = createEditTool()
+
+    const result = await tool.execute({ path: filePath, old_string: 'same', new_string: 'same' })
+
+    expect(result).toStrictEqual({
+      ok: false,
+      output: '',
+      error: 'old_string and new_string must be different',
+    })
+  })
+
+  it('ファイルのパーミッションを保持する', async () => {
+    const filePath = makeFile('#!/bin/sh\necho hi\n')
+    fs.chmodSync(filePath, 0o755)
+    const tool = createEditTool()
+
+    await tool.execute({ path: filePath, old_string: 'hi', new_string: 'bye' })
+
+    expect(fs.statSync(filePath).mode & 0o777).toBe(0o755)
+    expect(fs.readdirSync(tmpDir)).toStrictEqual(['target.ts'])
+  })
+
+  it('存在しないファイルはエラーを返す', async () => {
+    const tool = createEditTool()
+
+    const result = await tool.execute({
+      path: '/nonexistent/file.ts',
+      old_string: 'a',
+      new_string: 'b',
+    })
+
+    expect(result.ok).toBe(false)
+    expect(result.error).toContain('ENOENT')
+  })
+
+  it('引数が不正な場合はエラーを返す', async () => {
+    const tool = createEditTool()
+
+    expect((await tool.execute({ old_string: 'a', new_string: 'b' })).ok).toBe(false)
+    expect((await tool.execute({ path: 'x', old_string: 'a' })).error).toContain('new_string')
+    expect(
+      (await tool.execute({ path: 'x', old_string: 'a', new_string: 'b', replace_all: 'yes' }))
+        .error,
+    ).toContain('replace_all')
+  })
+
+  it('concurrencySafe は false', () => {
+    expect(createEditTool().concurrencySafe).toBe(false)
+  })
+})
+
+describe('createMultiEditTool', () => {
+  it('複数の置換を順に適用する', async () => {
+    const filePath = makeFile('let x = 1\nlet y = 2\n')
+    const tool = createMultiEditTool()
+
+    const result = await tool.execute({
+      path: filePath,
+      edits: [
+        { old_string: 'let x = 1', new_string: 'const x = 1' },
+        { old_string: 'let y', new_string: 'const y' },
+        // 直前の置換結果に対して適用される
+        { old_string: 'const', new_string: 'var', replace_all: true },
+      ],
+    })
+
+    expect(result).toStrictEqual({
+      ok: true,
+      output: `Replaced 4 occurrence(s) in ${filePath}`,
+    })
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('var x = 1\nvar y = 2\n')
+  })
+
+  it('いずれかの置換が失敗した場合はファイルを変更しない', async () => {
+    const filePath = makeFile('alpha\nbeta\n')
+    const tool = createMultiEditTool()
+
+    const result = await tool.execute({
+      path: filePath,
+      edits: [
+        { old_string: 'alpha', new_string: 'ALPHA' },
+        { old_string: 'gamma', new_string: 'GAMMA' },
+      ],
+    })
+
+    expect(result).toStrictEqual({
+      ok: false,
+      output: '',
+      error: `Edit 2: old_string not found in ${filePath}`,
+    })
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('alpha\nbeta\n')
+  })
+
+  it('edits が空配列や不正な要素を含む場合はエラーを返す', async () => {
+    const filePath = makeFile('text\n')
+    const tool = createMultiEditTool()
+
+    const empty = await tool.execute({ path: filePath, edits: [] })
+    expect(empty.error).toContain('edits')
+
+    const invalid = await tool.execute({
+      path: filePath,
+      edits: [{ old_string: 'text', new_string: 'TEXT' }, 'oops'],
+    })
+    expect(invalid.error).toBe('Edit 2: must be an object')
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('text\n')
+  })
+
+  it('workspace 指定時はルート外のファイルを編集しない', async () => {
+    const filePath = makeFile('text\n')
+    const tool = createMultiEditTool({
+      workspace: createWorkspacePolicy({ roots: [path.join(tmpDir, 'sub')] }),
+    })
+
+    const result = await tool.execute({
+      path: filePath,
+      edits: [{ old_string: 'text', new_string: 'TEXT' }],
+    })
+
+    expect(result.error).toBe(`Path is outside the workspace: ${filePath}`)
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('text\n')
+  })
+})
@@ -3,6 +3,7 @@ import * as fs from 'node:fs'
 import * as os from 'node:os'
 import * as path from 'node:path'
 import { createGrepTool } from '../../src/tools/grep.js'
+import { createWorkspacePolicy } from '../../src/tools/workspace.js'
 
 describe('createGrepTool', () => {
   let tmpDir: string
@@ -192,4 +193,17 @@ describe('createGrepTool', () => {
     // Should NOT include the binary file in results
     expect(result.output).not.toContain('binary.bin')
   })
+
+  it('workspace 指定時はディレクトリ検索で拒否パターンに一致するファイルを除く', async () => {
+    tmpDir = setup()
+    fs.writeFileSync(path.join(tmpDir, '.env'), 'TOKEN=secret\n', 'utf-8')
+    fs.writeFileSync(path.join(tmpDir, 'app.ts'), 'const TOKEN = env()\n', 'utf-8')
+    const tool = createGrepTool({
+      workspace: createWorkspacePolicy({ roots: [tmpDir], deny: ['.env'] }),
+    })
+
+    const result = await tool.execute({ pattern: 'TOKEN', path: '.' })
+
+    expect(result).toStrictEqual({ ok: true, output: 'app.ts:1:const TOKEN = env()' })
+  })
 })
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest'
+import { parsePatch, applyHunks, formatHunkResult } from '../../src/tools/patch.js'
+import type { PatchHunk } from '../../src/tools/patch.js'
+
+/** 1 ファイル分のパッチをパースしてハンクを返す */
+function hunksOf(text: string): readonly PatchHunk[] {
+  const result = parsePatch(text)
+  if (!result.ok) throw new Error(result.error)
+  return result.data[0]?.hunks ?? []
+}
+
+describe('parsePatch', () => {
+  it('git 形式の複数ファイルの diff をパースし a/ b/ を除く', () => {
+    const result = parsePatch(
+      [
+        'diff --git a/src/a.ts b/src/a.ts',
+        'index 1111111..2222222 100644',
+        '--- a/src/a.ts',
+        '+++ b/src/a.ts',
+        '@@ -1,2 +1,2 @@',
+        ' one',
+        '-two',
+        '+TWO',
+        'diff --git a/new.txt b/new.txt',
+        'new file mode 100644',
+        '--- /dev/null',
+        '+++ b/new.txt',
+        '@@ -0,0 +1 @@',
+        '+hello',
+        'diff --git a/old.txt b/old.txt',
+        'deleted file mode 100644',
+        '--- a/old.txt',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-bye',
+        '',
+      ].join('\n'),
+    )
+
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.data.map((p) => [p.kind, p.oldPath, p.newPath])).toStrictEqual([
+      ['modify', 'src/a.ts', 'src/a.ts'],
+      ['add', undefined, 'new.txt'],
+      ['delete', 'old.txt', undefined],
+    ])
+    expect(result.data[0]?.hunks[0]?.lines).toStrictEqual([
+      { op: ' ', text: 'one' },
+      { op: '-', text: 'two' },
+      { op: '+', text: 'TWO' },
+    ])
+  })
+
+  it('rename from / rename to のみの diff はハンクなしのリネームになる', () => {
+    const result = parsePatch(
+      [
+        'diff --git a/before.ts b/after.ts',
+        'similarity index 100%',
+        'rename from before.ts',
+        'rename to after.ts',
+      ].join('\n'),
+    )
+
+    expect(result).toStrictEqual({
+      ok: true,
+      data: [{ kind: 'rename', oldPath: 'before.ts', newPath: 'after.ts', hunks: [] }],
+    })
+  })
+
+  it('ファイルヘッダーのない入力や不正なハンクヘッダーはエラーを返す', () => {
+    expect(parsePatch('just text')).toStrictEqual({
+      ok: false,
+      error: 'No file changes found in patch',
+    })
+    expect(parsePatch('--- a/x\n+++ b/x\n@@ bogus @@\n-a\n+b\n')).toStrictEqual({
+      ok: false,
+      error: 'Invalid hunk header: @@ bogus @@',
+    })
+  })
+})
+
+describe('applyHunks', () => {
+  const original = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].join('\n') + '\n'
+
+  it('ヘッダーの位置がずれていても最も近い一致箇所に適用しずれを報告する', () => {
+    const hunks = hunksOf('--- a/x\n+++ b/x\n@@ -1,3 +1,3 @@\n e\n-f\n+F\n g\n')
+
+    const result = applyHunks(original, hunks)
+
+    expect(result.content).toBe('a\nb\nc\nd\ne\nF\ng\nh\n')
+    expect(result.hunks).toStrictEqual([
+      { header: '@@ -1,3 +1,3 @@', applied: true, line: 5, offset: 4 },
+    ])
+  })
+
+  it('空白の違いを無視して一致させ、文脈行はファイル側の行を残す', () => {
+    const hunks = hunksOf(
+      '--- a/x\n+++ b/x\n@@ -1,2 +1,2 @@\n  if (x) {\n-    return 1\n+    return 2\n',
+    )
+
+    const result = applyHunks('if (x) {\n  return 1\n}\n', hunks)
+
+    expect(result.content).toBe('if (x) {\n    return 2\n}\n')
+    expect(result.hunks[0]?.ignoredWhitespace).toBe(true)
+  })
+
+  it('一致しない前後の文脈行を無視して適用する（fuzz）', () => {
+    const hunks = hunksOf('--- a/x\n+++ b/x\n@@ -2,3 +2,3 @@\n WRONG\n-c\n+C\n d\n')
+
+    const result = applyHunks(original, hunks)
+
+    expect(result.content).toBe('a\nb\nC\nd\ne\nf\ng\nh\n')
+    expect(result.hunks[0]).toMatchObject({ applied: true, fuzz: 1 })
+  })
+
+  it('fuzz で照合する行がなくなるハンクは適用しない', () => {
+    const hunks = hunksOf('--- a/x\n+++ b/x\n@@ -1,1 +1,2 @@\n nonexistent context\n+inserted\n')
+
+    const result = applyHunks('x\ny\n', hunks)
+
+    expect(result.content).toBeUndefined()
+    expect(result.hunks[0]?.applied).toBe(false)
+  })
+
+  it('文脈行が見つからないハンクがあれば content は undefined', () => {
+    const hunks = hunksOf(
+      '--- a/x\n+++ b/x\n@@ -1,2 +1,2 @@\n a\n-b\n+B\n@@ -5,2 +5,2 @@\n zzz\n-yyy\n+xxx\n',
+    )
+
+    const result = applyHunks(original, hunks)
+
+    expect(result.content).toBeUndefined()
+    expect(result.hunks.map((h) => h.applied)).toStrictEqual([true, false])
+  })
+
+  it('CRLF と末尾の改行なしを保つ', () => {
+    const hunks = hunksOf(
+      '--- a/x\n+++ b/x\n@@ -1,2 +1,2 @@\n one\n-two\n\\ No newline at end of file\n+TWO\n\\ No newline at end of file\n',
+    )
+
+    expect(applyHunks('one\r\ntwo', hunks).content).toBe('one\r\nTWO')
+  })
+
+  it('-0,0 のハンクは空の内容に挿入する', () => {
+    const hunks = hunksOf('--- /dev/null\n+++ b/x\n@@ -0,0 +1,2 @@\n+first\n+second\n')
+
+    expect(applyHunks('', hunks).content).toBe('first\nsecond\n')
+  })
+})
+
+describe('formatHunkResult', () => {
+  it('ずれ・fuzz・空白の無視を括弧内に列挙する', () => {
+    expect(
+      formatHunkResult(1, {
+        header: '@@ -3 +3 @@',
+        applied: true,
+        line: 7,
+        offset: -2,
+        fuzz: 1,
+        ignoredWhitespace: true,
+      }),
+    ).toBe('Hunk 2 @@ -3 +3 @@: applied at line 7 (offset -2, fuzz 1, whitespace ignored)')
+    expect(formatHunkResult(0, { header: '@@ -1 +1 @@', applied: false })).toBe(
+      'Hunk 1 @@ -1 +1 @@: FAILED (context not found)',
+    )
+  })
+})
@@ -3,6 +3,7 @@ import * as fs from 'node:fs'
 import * as os from 'node:os'
 import * as path from 'node:path'
 import { createReadTool } from '../../src/tools/read.js'
+import { createWorkspacePolicy } from '../../src/tools/workspace.js'
 import type { ToolDefinition } from '../../src/tools/types.js'
 
 describe('createReadTool', () => {
@@ -147,4 +148,48 @@ describe('createReadTool', () => {
     expect(tool.parameters).toHaveProperty('required')
     expect(typeof tool.execute).toBe('function')
   })
+
+  it('画像ファイルは base64 の image パートとして返す', async () => {
+    tmpDir = setup()
+    const filePath = path.join(tmpDir, 'shot.PNG')
+    const bytes = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+    fs.writeFileSync(filePath, bytes)
+
+    const tool = createReadTool()
+    const result = await tool.execute({ path: filePath })
+
+    const output = `Image file: ${filePath} (image/png, 8 bytes)`
+    expect(result).toStrictEqual({
+      ok: true,
+      output,
+      parts: [
+        { type: 'text', text: output },
+        { type: 'image', mimeType: 'image/png', data: bytes.toString('base64') },
+      ],
+    })
+  })
+
+  it('サイズ上限を超える画像ファイルはエラーを返す', async () => {
+    tmpDir = setup()
+    const filePath = path.join(tmpDir, 'huge.jpg')
+    fs.writeFileSync(filePath, Buffer.alloc(5 * 1024 * 1024 + 1))
+
+    const tool = createReadTool()
+    const result = await tool.execute({ path: filePath })
+
+    expect(result.ok).toBe(false)
+    expect(result.error).toContain('Image file too large')
+    expect(result.parts).toBeUndefined()
+  })
+
+  it('workspace 指定時はルート外のファイルを読まずにエラーを返す', async () => {
+    tmpDir = setup()
+    fs.writeFileSync(path.join(tmpDir, 'inside.txt'), 'ok', 'utf-8')
+    const tool = createReadTool({ workspace: createWorkspacePolicy({ roots: [tmpDir] }) })
+
+    expect(await tool.execute({ path: 'inside.txt' })).toStrictEqual({ ok: true, output: 'ok' })
+    const result = await tool.execute({ path: '/etc/passwd' })
+    expect(result.ok).toBe(false)
+    expect(result.error).toContain('Path is outside the workspace')
+  })
 })
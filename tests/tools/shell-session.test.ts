@@ -0,0 +1,237 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import {
+  createShellSession,
+  createShellSessionTool,
+  type ShellSession,
+} from '../../src/tools/shell-session.js'
+import { createShellPolicy } from '../../src/tools/shell-policy.js'
+import { createWorkspacePolicy } from '../../src/tools/workspace.js'
+import type { ToolDefinition } from '../../src/tools/types.js'
+
+let tmpDir: string | undefined
+let session: ShellSession | undefined
+let tool: ToolDefinition | undefined
+
+/** 一時ディレクトリを作成する（シンボリックリンクを解決した実パス） */
+function makeTmpDir(): string {
+  tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'wn-shell-session-test-')))
+  return tmpDir
+}
+
+afterEach(async () => {
+  session?.close()
+  session = undefined
+  await tool?.dispose?.()
+  tool = undefined
+  if (tmpDir) {
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+    tmpDir = undefined
+  }
+})
+
+describe.skipIf(process.platform === 'win32')('createShellSession', () => {
+  it('cd・export・シェル関数を次の呼び出しに引き継ぐ', async () => {
+    const dir = makeTmpDir()
+    fs.mkdirSync(path.join(dir, 'sub'))
+    session = createShellSession({ cwd: dir })
+
+    await session.run('cd sub && export GREETING=hello && greet() { echo "$GREETING $1"; }', 5000)
+    const result = await session.run('pwd; greet world', 5000)
+
+    expect(result).toStrictEqual({
+      stdout: `${path.join(dir, 'sub')}\nhello world\n`,
+      stderr: '',
+      exitCode: 0,
+      cwd: path.join(dir, 'sub'),
+      timedOut: false,
+      sessionEnded: false,
+    })
+    expect(session.cwd).toBe(path.join(dir, 'sub'))
+  })
+
+  it('終了コードと標準エラー出力を返し、構文エラーでもセッションを保つ', async () => {
+    session = createShellSession()
+
+    const failed = await session.run('echo oops >&2; false', 5000)
+    expect(failed.exitCode).toBe(1)
+    expect(failed.stderr).toBe('oops\n')
+
+    expect((await session.run('(exit 42)', 5000)).exitCode).toBe(42)
+    expect((await session.run('if then', 5000)).sessionEnded).toBe(false)
+    expect((await session.run('echo alive', 5000)).stdout).toBe('alive\n')
+  })
+
+  it('末尾に改行のない出力もそのまま返す', async () => {
+    session = createShellSession()
+
+    const result = await session.run("printf 'no newline'", 5000)
+
+    expect(result.stdout).toBe('no newline')
+  })
+
+  it('コマンドの標準入力は /dev/null にする', async () => {
+    session = createShellSession()
+
+    const result = await session.run('cat; echo done', 5000)
+
+    expect(result.stdout).toBe('done\n')
+  })
+
+  it('タイムアウトしたコマンドだけを中断し、セッションを保つ', async () => {
+    const dir = makeTmpDir()
+    session = createShellSession({ cwd: dir })
+    await session.run('export KEEP=1', 5000)
+
+    const result = await session.run('echo before; sleep 10; echo after', 200)
+
+    expect(result.timedOut).toBe(true)
+    expect(result.sessionEnded).toBe(false)
+    expect(result.stdout).toBe('before\n')
+    expect((await session.run('echo "$KEEP"; pwd', 5000)).stdout).toBe(`1\n${dir}\n`)
+  })
+
+  it('SIGINT を無視するコマンドはシェルごと終了し、次の呼び出しで作り直す', async () => {
+    const dir = makeTmpDir()
+    session = createShellSession({ cwd: dir, interruptGraceMs: 100 })
+    await session.run('export LOST=1', 5000)
+
+    const result = await session.run(`sh -c 'trap "" INT; sleep 10'`, 200)
+
+    expect(result).toMatchObject({ timedOut: true, sessionEnded: true, exitCode: undefined })
+    const next = await session.run('echo "[$LOST]"; pwd', 5000)
+    expect(next.stdout).toBe(`[]\n${dir}\n`)
+  })
+
+  it('exit でシェルが終了した場合は最後の作業ディレクトリから起動し直す', async () => {
+    const dir = makeTmpDir()
+    session = createShellSession()
+    await session.run(`cd '${dir}'`, 5000)
+
+    const result = await session.run('exit 3', 5000)
+
+    expect(result.sessionEnded).toBe(true)
+    expect((await session.run('pwd', 5000)).stdout).toBe(`${dir}\n`)
+  })
+
+  it('reset() で最初の作業ディレクトリに戻し、環境変数を捨てる', async () => {
+    const dir = makeTmpDir()
+    fs.mkdirSync(path.join(dir, 'sub'))
+    session = createShellSession({ cwd: dir })
+    await session.run('cd sub; export GONE=1', 5000)
+
+    session.reset()
+
+    expect(session.cwd).toBe(dir)
+    expect((await session.run('echo "[$GONE]"; pwd', 5000)).stdout).toBe(`[]\n${dir}\n`)
+  })
+
+  it('同時に呼ばれたコマンドを順に実行する', async () => {
+    session = createShellSession()
+
+    const results = await Promise.all([
+      session.run('sleep 0.1; echo first', 5000),
+      session.run('echo second', 5000),
+    ])
+
+    expect(results.map((r) => r.stdout)).toStrictEqual(['first\n', 'second\n'])
+  })
+})
+
+describe.skipIf(process.platform === 'win32')('createShellSessionTool', () => {
+  it('出力の末尾に終了コードと作業ディレクトリを付ける', async () => {
+    const dir = makeTmpDir()
+    tool = createShellSessionTool({ workspace: createWorkspacePolicy({ roots: [dir] }) })
+
+    const result = await tool.execute({ command: 'echo hi; echo warn >&2' })
+
+    expect(result).toStrictEqual({
+      ok: true,
+      output: `hi\n\n[stderr]\nwarn\n\n[exit code: 0, cwd: ${dir}]`,
+    })
+  })
+
+  it('終了コードが 0 以外なら ok: false を返す', async () => {
+    tool = createShellSessionTool()
+
+    const result = await tool.execute({ command: 'exit_code() { return 7; }; exit_code' })
+
+    expect(result.ok).toBe(false)
+    expect(result.error).toBe('Command exited with code 7')
+    expect(result.output).toContain('[exit code: 7, cwd: ')
+  })
+
+  it('タイムアウトしてもセッションを保つことをエラーで伝える', async () => {
+    tool = createShellSessionTool()
+
+    const result = await tool.execute({ command: 'sleep 10', timeout: 200 })
+
+    expect(result.error).toBe(
+      'Command timed out after 200ms and was interrupted; the session was kept',
+    )
+  })
+
+  it('reset でセッションを作り直す（command なしならリセットのみ）', async () => {
+    const dir = makeTmpDir()
+    fs.mkdirSync(path.join(dir, 'sub'))
+    tool = createShellSessionTool({ workspace: createWorkspacePolicy({ roots: [dir] }) })
+    await tool.execute({ command: 'cd sub; export GONE=1' })
+
+    expect(await tool.execute({ reset: true })).toStrictEqual({
+      ok: true,
+      output: `Shell session reset (cwd: ${dir})`,
+    })
+    expect((await tool.execute({ command: 'echo "[$GONE]"' })).output).toBe(
+      `[]\n\n[exit code: 0, cwd: ${dir}]`,
+    )
+  })
+
+  it('ワークスペースの外に cd した場合はルートに戻す', async () => {
+    const dir = makeTmpDir()
+    const root = path.join(dir, 'root')
+    fs.mkdirSync(root)
+    tool = createShellSessionTool({ workspace: createWorkspacePolicy({ roots: [root] }) })
+
+    const result = await tool.execute({ command: 'cd ..' })
+
+    expect(result.output).toBe(
+      `[exit code: 0, cwd: ${dir}]\n[cwd reset to ${root}: Path is outside the workspace: ${dir}]`,
+    )
+    expect((await tool.execute({ command: 'pwd' })).output).toBe(
+      `${root}\n\n[exit code: 0, cwd: ${root}]`,
+    )
+  })
+
+  it('shellPolicy で deny のコマンドは実行せず、危険なコマンドは assess で ask を返す', async () => {
+    tool = createShellSessionTool({ shellPolicy: createShellPolicy({ deny: ['npm publish'] }) })
+
+    expect(await tool.execute({ command: 'npm publish' })).toStrictEqual({
+      ok: false,
+      output: '',
+      error: 'Command denied by shell policy (npm publish): npm publish',
+    })
+    expect(tool.assess?.({ command: 'rm -rf build' })).toStrictEqual({
+      mode: 'ask',
+      reason: 'Recursive delete: rm -rf build',
+    })
+    expect(tool.assess?.({ command: 'ls' })).toStrictEqual({ mode: 'auto' })
+  })
+
+  it('引数が不正な場合はエラーを返す', async () => {
+    tool = createShellSessionTool()
+
+    expect((await tool.execute({})).error).toBe(
+      "Parameter 'command' is required unless reset is true",
+    )
+    expect((await tool.execute({ command: '' })).ok).toBe(false)
+    expect((await tool.execute({ command: 'ls', reset: 'yes' })).error).toContain('reset')
+    expect((await tool.execute({ command: 'ls', timeout: 0 })).error).toContain('timeout')
+  })
+
+  it('concurrencySafe は false', () => {
+    tool = createShellSessionTool()
+    expect(tool.concurrencySafe).toBe(false)
+  })
+})
@@ -1,5 +1,10 @@
 import { describe, it, expect } from 'vitest'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
 import { createShellTool, getShellConfig } from '../../src/tools/shell.js'
+import { createWorkspacePolicy } from '../../src/tools/workspace.js'
+import { createShellPolicy } from '../../src/tools/shell-policy.js'
 import type { ToolDefinition } from '../../src/tools/types.js'
 
 describe('createShellTool', { timeout: 15_000 }, () => {
@@ -90,4 +95,55 @@ describe('createShellTool', { timeout: 15_000 }, () => {
     expect(tool.parameters).toHaveProperty('required')
     expect(typeof tool.execute).toBe('function')
   })
+
+  it('workspace 指定時は先頭のルートで実行し、ルート外の cwd を拒否する', async () => {
+    const root = fs.realpathSync(os.tmpdir())
+    const tool = createShellTool({ workspace: createWorkspacePolicy({ roots: [root] }) })
+
+    const result = await tool.execute({ command: 'pwd' })
+    expect(result.ok).toBe(true)
+    expect(result.output.trim()).toBe(root)
+
+    const denied = await tool.execute({ command: 'pwd', cwd: '/' })
+    expect(denied.ok).toBe(false)
+    expect(denied.error).toContain('Path is outside the workspace')
+  })
+
+  it('shellPolicy で deny と判定したコマンドは実行せずにエラーを返す', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wn-shell-test-'))
+    const marker = path.join(dir, 'marker')
+    const tool = createShellTool({ shellPolicy: createShellPolicy({ deny: ['touch *'] }) })
+
+    try {
+      const result = await tool.execute({ command: `echo hi && touch ${marker}` })
+
+      expect(result).toStrictEqual({
+        ok: false,
+        output: '',
+        error: `Command denied by shell policy (touch *): touch ${marker}`,
+      })
+      expect(fs.existsSync(marker)).toBe(false)
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('assess() はコマンドポリシーの判定を承認モードとして返す', () => {
+    const tool = createShellTool()
+
+    expect(tool.assess?.({ command: 'ls -la' })).toStrictEqual({ mode: 'auto' })
+    expect(tool.assess?.({ command: 'rm -rf build' })).toStrictEqual({
+      mode: 'ask',
+      reason: 'Recursive delete: rm -rf build',
+    })
+  })
+
+  it('timeout を省略するとポリシーの既定のタイムアウトを使う', async () => {
+    const tool = createShellTool({ shellPolicy: createShellPolicy({ timeoutMs: 200 }) })
+
+    const result = await tool.execute({ command: 'sleep 5' })
+
+    expect(result.ok).toBe(false)
+    expect(result.error).toBe('Command timed out after 200ms')
+  })
 })
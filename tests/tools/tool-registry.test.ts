@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { ToolRegistry } from '../../src/tools/types.js'
 import type { ToolDefinition, ToolResult } from '../../src/tools/types.js'
 
@@ -158,4 +158,19 @@ describe('ToolRegistry', () => {
       expect(map.get('mcp-only')).toBe('mcp-only')
     })
   })
+
+  describe('dispose()', () => {
+    it('ビルトインツールの dispose() を呼び、MCP ツールは対象にしない', async () => {
+      const builtinDispose = vi.fn().mockResolvedValue(undefined)
+      const mcpDispose = vi.fn().mockResolvedValue(undefined)
+      registry.register({ ...createDummyTool('shell_session'), dispose: builtinDispose })
+      registry.register(createDummyTool('read'))
+      registry.registerMcp({ ...createDummyTool('mcp-tool'), dispose: mcpDispose })
+
+      await registry.dispose()
+
+      expect(builtinDispose).toHaveBeenCalledOnce()
+      expect(mcpDispose).not.toHaveBeenCalled()
+    })
+  })
 })
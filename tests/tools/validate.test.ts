@@ -1,5 +1,10 @@
 import { describe, it, expect } from 'vitest'
-import { requireString, optionalString, optionalNumber } from '../../src/tools/validate.js'
+import {
+  requireString,
+  optionalString,
+  optionalNumber,
+  optionalBoolean,
+} from '../../src/tools/validate.js'
 
 describe('requireString', () => {
   it('有効な非空文字列で { value } を返す', () => {
@@ -81,3 +86,23 @@ describe('optionalNumber', () => {
     }
   })
 })
+
+describe('optionalBoolean', () => {
+  it('真偽値で { value } を返す', () => {
+    expect(optionalBoolean({ replace_all: true }, 'replace_all')).toStrictEqual({ value: true })
+    expect(optionalBoolean({ replace_all: false }, 'replace_all')).toStrictEqual({ value: false })
+  })
+
+  it('undefined の場合 { value: undefined } を返す', () => {
+    expect(optionalBoolean({}, 'replace_all')).toStrictEqual({ value: undefined })
+  })
+
+  it('真偽値以外の型の場合 { error } を返す', () => {
+    const result = optionalBoolean({ replace_all: 'yes' }, 'replace_all')
+    expect(result).toHaveProperty('error')
+    if ('error' in result) {
+      expect(result.error.ok).toBe(false)
+      expect(result.error.error).toContain('replace_all')
+    }
+  })
+})
@@ -0,0 +1,173 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import {
+  createWorkspacePolicy,
+  mergeWorkspaceConfig,
+  resolveToolPath,
+} from '../../src/tools/workspace.js'
+
+describe('createWorkspacePolicy', () => {
+  let tmpDir: string
+
+  /** root（ワークスペース）と outside（ワークスペース外）を持つ一時ディレクトリを作成する */
+  function makeTmpDir(): { root: string; outside: string } {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'wn-workspace-test-')))
+    const root = path.join(tmpDir, 'root')
+    const outside = path.join(tmpDir, 'outside')
+    fs.mkdirSync(path.join(root, 'src'), { recursive: true })
+    fs.mkdirSync(outside)
+    fs.writeFileSync(path.join(root, 'src', 'main.ts'), '')
+    fs.writeFileSync(path.join(outside, 'secret.txt'), '')
+    return { root, outside }
+  }
+
+  afterEach(() => {
+    if (tmpDir) {
+      fs.rmSync(tmpDir, { recursive: true, force: true })
+    }
+  })
+
+  it('相対パスは先頭のルートから解決し、ルート内のパスを許可する', async () => {
+    const { root } = makeTmpDir()
+    const policy = createWorkspacePolicy({ roots: [root] })
+
+    expect(await policy.check('src/main.ts')).toStrictEqual({
+      ok: true,
+      data: path.join(root, 'src', 'main.ts'),
+    })
+    // 存在しないファイル（新規作成）も検査できる
+    expect(await policy.check('src/new/file.ts')).toStrictEqual({
+      ok: true,
+      data: path.join(root, 'src', 'new', 'file.ts'),
+    })
+  })
+
+  it('ルートの外は OUTSIDE_WORKSPACE を返す', async () => {
+    const { root, outside } = makeTmpDir()
+    const policy = createWorkspacePolicy({ roots: [root] })
+
+    const result = await policy.check('../outside/secret.txt')
+
+    expect(result).toStrictEqual({
+      ok: false,
+      error: {
+        code: 'OUTSIDE_WORKSPACE',
+        message: `Path is outside the workspace: ${path.join(outside, 'secret.txt')}`,
+        path: path.join(outside, 'secret.txt'),
+      },
+    })
+  })
+
+  it('roots を省略するとカレントディレクトリ（cwd 引数）をルートにする', async () => {
+    const { root } = makeTmpDir()
+    const policy = createWorkspacePolicy({}, root)
+
+    expect(policy.roots).toStrictEqual([root])
+    expect((await policy.check('/etc/passwd')).ok).toBe(false)
+  })
+
+  it('名前のパターンは任意の階層に、/ を含むパターンはルートからの相対パスに一致する', async () => {
+    const { root } = makeTmpDir()
+    const policy = createWorkspacePolicy({ roots: [root], deny: ['.env', '.git/', 'src/*.key'] })
+
+    const denied = await policy.check('packages/app/.env')
+    expect(denied).toMatchObject({
+      ok: false,
+      error: { code: 'DENIED', message: expect.stringContaining('(.env)') as string },
+    })
+    // ディレクトリに一致したパターンは配下にも一致する
+    expect(await policy.check('.git/config')).toMatchObject({
+      ok: false,
+      error: { code: 'DENIED' },
+    })
+    expect(await policy.check('src/id.key')).toMatchObject({ ok: false, error: { code: 'DENIED' } })
+    expect((await policy.check('lib/src/id.key')).ok).toBe(true)
+    expect((await policy.check('.envrc')).ok).toBe(true)
+  })
+
+  it('ルートの外を指すシンボリックリンクは SYMLINK_ESCAPE を返す', async () => {
+    const { root, outside } = makeTmpDir()
+    fs.symlinkSync(outside, path.join(root, 'link'))
+    const policy = createWorkspacePolicy({ roots: [root] })
+
+    const result = await policy.check('link/secret.txt')
+
+    expect(result).toMatchObject({ ok: false, error: { code: 'SYMLINK_ESCAPE' } })
+    // リンク先が存在しないシンボリックリンク経由の新規作成も検出する
+    fs.symlinkSync(path.join(outside, 'missing.txt'), path.join(root, 'dangling'))
+    expect(await policy.check('dangling')).toMatchObject({
+      ok: false,
+      error: { code: 'SYMLINK_ESCAPE' },
+    })
+  })
+
+  it('allowSymlinkEscape でルート外へのシンボリックリンクを許可する', async () => {
+    const { root, outside } = makeTmpDir()
+    fs.symlinkSync(outside, path.join(root, 'link'))
+    const policy = createWorkspacePolicy({ roots: [root], allowSymlinkEscape: true })
+
+    expect((await policy.check('link/secret.txt')).ok).toBe(true)
+  })
+
+  it('ルート内のシンボリックリンクでも実パスが拒否パターンに一致すれば DENIED を返す', async () => {
+    const { root } = makeTmpDir()
+    fs.writeFileSync(path.join(root, '.env'), 'TOKEN=x')
+    fs.symlinkSync(path.join(root, '.env'), path.join(root, 'config.txt'))
+    const policy = createWorkspacePolicy({ roots: [root], deny: ['.env'] })
+
+    expect(await policy.check('config.txt')).toMatchObject({
+      ok: false,
+      error: { code: 'DENIED' },
+    })
+  })
+
+  it('isDenied はルート外と拒否パターンに一致するパスで true を返す', () => {
+    const { root, outside } = makeTmpDir()
+    const policy = createWorkspacePolicy({ roots: [root], deny: ['*.pem'] })
+
+    expect(policy.isDenied(path.join(root, 'certs', 'server.pem'))).toBe(true)
+    expect(policy.isDenied(path.join(outside, 'secret.txt'))).toBe(true)
+    expect(policy.isDenied(path.join(root, 'src', 'main.ts'))).toBe(false)
+  })
+})
+
+describe('mergeWorkspaceConfig', () => {
+  it('roots は override を優先し、deny は連結する', () => {
+    expect(
+      mergeWorkspaceConfig(
+        { roots: ['/a'], deny: ['.env'] },
+        { roots: ['/b'], deny: ['*.key'], allowSymlinkEscape: true },
+      ),
+    ).toStrictEqual({ roots: ['/b'], deny: ['.env', '*.key'], allowSymlinkEscape: true })
+  })
+
+  it('一方が undefined ならもう一方をそのまま返す', () => {
+    expect(mergeWorkspaceConfig(undefined, { roots: ['/b'] })).toStrictEqual({ roots: ['/b'] })
+    expect(mergeWorkspaceConfig({ deny: ['.env'] }, undefined)).toStrictEqual({ deny: ['.env'] })
+    expect(mergeWorkspaceConfig(undefined, undefined)).toBeUndefined()
+  })
+})
+
+describe('resolveToolPath', () => {
+  it('workspace を省略すると path.resolve で解決する', async () => {
+    expect(await resolveToolPath(undefined, 'a.txt')).toStrictEqual({
+      value: path.resolve('a.txt'),
+    })
+  })
+
+  it('違反は ToolResult のエラーとして返す', async () => {
+    const policy = createWorkspacePolicy({ roots: [os.tmpdir()] })
+
+    const result = await resolveToolPath(policy, '/etc/passwd')
+
+    expect(result).toStrictEqual({
+      error: {
+        ok: false,
+        output: '',
+        error: `Path is outside the workspace: ${path.resolve('/etc/passwd')}`,
+      },
+    })
+  })
+})
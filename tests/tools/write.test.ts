@@ -3,6 +3,7 @@ import * as fs from 'node:fs'
 import * as os from 'node:os'
 import * as path from 'node:path'
 import { createWriteTool } from '../../src/tools/write.js'
+import { createWorkspacePolicy } from '../../src/tools/workspace.js'
 
 describe('createWriteTool', () => {
   let tmpDir: string
@@ -110,4 +111,20 @@ describe('createWriteTool', () => {
     expect(tool.parameters).toBeDefined()
     expect(typeof tool.execute).toBe('function')
   })
+
+  it('workspace 指定時は拒否パターンに一致するファイルに書き込まない', async () => {
+    const dir = makeTmpDir()
+    const tool = createWriteTool({
+      workspace: createWorkspacePolicy({ roots: [dir], deny: ['.env'] }),
+    })
+
+    const result = await tool.execute({ path: '.env', content: 'TOKEN=x' })
+
+    expect(result).toStrictEqual({
+      ok: false,
+      output: '',
+      error: `Path is denied by workspace policy (.env): ${path.join(dir, '.env')}`,
+    })
+    expect(fs.existsSync(path.join(dir, '.env'))).toBe(false)
+  })
 })